@@ -0,0 +1,89 @@
+import { getAgentSystem, getEnterpriseAgent } from '../../../convex/agents/agentRuntime';
+import { Doc, Id } from '../../../convex/_generated/dataModel';
+
+describe('Agent Runtime', () => {
+  const enterpriseId = 'enterprise_1' as Id<'enterprises'>;
+
+  const createAgent = (id: string, isEnabled: boolean): Doc<'agents'> => ({
+    _id: id as Id<'agents'>,
+    _creationTime: 0,
+    enterpriseId,
+    name: 'Legal Agent',
+    type: 'legal',
+    status: isEnabled ? 'active' : 'disabled',
+    isEnabled,
+    runCount: 0,
+    errorCount: 0,
+    createdAt: '2026-01-01T00:00:00.000Z',
+  });
+
+  // Records the index and equality filters a lookup uses
+  const createCtx = (rows: unknown[]) => {
+    const filters: Array<[string, unknown]> = [];
+    const indexQuery = { eq: (field: string, value: unknown) => { filters.push([field, value]); return indexQuery; } };
+    const withIndex = jest.fn().mockImplementation((_index: string, range: (q: typeof indexQuery) => unknown) => {
+      range(indexQuery);
+      return { first: jest.fn().mockResolvedValue(rows[0] ?? null), collect: jest.fn().mockResolvedValue(rows) };
+    });
+    const ctx = {
+      db: {
+        query: jest.fn().mockReturnValue({ withIndex }),
+        get: jest.fn(),
+        normalizeId: jest.fn(),
+        system: { get: jest.fn(), query: jest.fn(), normalizeId: jest.fn() },
+      },
+    };
+    return { ctx, withIndex, filters };
+  };
+
+  describe('getAgentSystem', () => {
+    it('should look up the system row of the enterprise', async () => {
+      const system = { _id: 'system_1', enterpriseId };
+      const { ctx, withIndex, filters } = createCtx([system]);
+
+      await expect(getAgentSystem(ctx, enterpriseId)).resolves.toBe(system);
+      expect(ctx.db.query).toHaveBeenCalledWith('agentSystem');
+      expect(withIndex).toHaveBeenCalledWith('by_enterprise', expect.any(Function));
+      expect(filters).toEqual([['enterpriseId', enterpriseId]]);
+    });
+
+    it('should return null for an enterprise without a system', async () => {
+      const { ctx } = createCtx([]);
+
+      await expect(getAgentSystem(ctx, enterpriseId)).resolves.toBeNull();
+    });
+  });
+
+  describe('getEnterpriseAgent', () => {
+    it('should look up agents of the type within the enterprise', async () => {
+      const { ctx, withIndex, filters } = createCtx([]);
+
+      await getEnterpriseAgent(ctx, enterpriseId, 'legal');
+
+      expect(ctx.db.query).toHaveBeenCalledWith('agents');
+      expect(withIndex).toHaveBeenCalledWith('by_enterprise_type', expect.any(Function));
+      expect(filters).toEqual([['enterpriseId', enterpriseId], ['type', 'legal']]);
+    });
+
+    it('should prefer an enabled agent', async () => {
+      const disabled = createAgent('agent_1', false);
+      const enabled = createAgent('agent_2', true);
+      const { ctx } = createCtx([disabled, enabled]);
+
+      await expect(getEnterpriseAgent(ctx, enterpriseId, 'legal')).resolves.toBe(enabled);
+    });
+
+    it('should fall back to the first agent when none is enabled', async () => {
+      const first = createAgent('agent_1', false);
+      const { ctx } = createCtx([first, createAgent('agent_2', false)]);
+
+      await expect(getEnterpriseAgent(ctx, enterpriseId, 'legal')).resolves.toBe(first);
+    });
+
+    it('should return null when the enterprise has no agent of the type', async () => {
+      const { ctx } = createCtx([]);
+
+      await expect(getEnterpriseAgent(ctx, enterpriseId, 'legal')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  ANOMALY_RULES,
+  AuditEntrySample,
+  detectAuditAnomalies,
+  findContractExceptions,
+  sampleIds,
+} from '../../../convex/agents/auditSampling';
+
+describe('Audit Sampling', () => {
+  describe('sampleIds', () => {
+    const ids = Array.from({ length: 50 }, (_, i) => `contract${i}`);
+
+    it('should return the same sample for the same seed', () => {
+      expect(sampleIds(ids, 10, 3)).toEqual(sampleIds([...ids].reverse(), 10, 3));
+      expect(new Set(sampleIds(ids, 10, 3)).size).toBe(10);
+    });
+
+    it('should rotate through different records as the seed changes', () => {
+      const seen = new Set<string>();
+      for (let seed = 0; seed < 20; seed++) {
+        sampleIds(ids, 10, seed).forEach(id => seen.add(id));
+      }
+
+      expect(sampleIds(ids, 10, 1)).not.toEqual(sampleIds(ids, 10, 2));
+      expect(seen.size).toBeGreaterThan(40);
+    });
+
+    it('should return everything when asked for more than there is', () => {
+      expect(sampleIds(['a', 'b'], 10, 1).sort()).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('findContractExceptions', () => {
+    const now = new Date('2026-06-01T00:00:00.000Z');
+
+    it('should find nothing wrong with a consistent record', () => {
+      expect(findContractExceptions({
+        status: 'active',
+        value: 1000,
+        startDate: '2026-01-01',
+        endDate: '2027-01-01',
+        hasOwner: true,
+        hasVendor: true,
+      }, now)).toEqual([]);
+    });
+
+    it('should flag records that contradict themselves', () => {
+      const codes = findContractExceptions({
+        status: 'active',
+        startDate: '2026-05-01',
+        endDate: '2026-02-01',
+        hasOwner: false,
+        hasVendor: false,
+        analysisStatus: 'failed',
+      }, now).map(exception => exception.code);
+
+      expect(codes).toEqual([
+        'active_past_end', 'dates_inverted', 'missing_owner', 'missing_vendor', 'missing_value', 'analysis_failed',
+      ]);
+    });
+
+    it('should flag contracts marked expired before their end date', () => {
+      const exceptions = findContractExceptions({ status: 'expired', endDate: '2026-12-31', hasOwner: true, hasVendor: true }, now);
+
+      expect(exceptions.map(exception => exception.code)).toEqual(['expired_before_end']);
+    });
+  });
+
+  describe('detectAuditAnomalies', () => {
+    const entry = (index: number, overrides: Partial<AuditEntrySample> = {}): AuditEntrySample => ({
+      id: `entry${index}`,
+      userId: 'user1',
+      action: 'update',
+      status: 'success',
+      timestamp: new Date(Date.UTC(2026, 5, 1, 9, index)).toISOString(),
+      sequence: index + 1,
+      ...overrides,
+    });
+
+    it('should find nothing in ordinary activity', () => {
+      expect(detectAuditAnomalies(Array.from({ length: 30 }, (_, i) => entry(i)))).toEqual([]);
+    });
+
+    it('should flag a burst of failures from one user', () => {
+      const entries = Array.from({ length: 6 }, (_, i) => entry(i, { status: 'failure' }));
+
+      const anomalies = detectAuditAnomalies(entries);
+
+      expect(anomalies).toEqual([expect.objectContaining({
+        kind: 'failure_burst',
+        userId: 'user1',
+        description: `6 failed operations within ${ANOMALY_RULES.failure_burst.windowMinutes} minutes`,
+        from: entries[0]!.timestamp,
+      })]);
+      expect(anomalies[0]!.entryIds).toHaveLength(6);
+    });
+
+    it('should count each user separately', () => {
+      const entries = Array.from({ length: 8 }, (_, i) => entry(i, { status: 'failure', userId: i % 2 ? 'user1' : 'user2' }));
+
+      expect(detectAuditAnomalies(entries)).toEqual([]);
+    });
+
+    it('should flag bulk deletions and exports within the window', () => {
+      const deletions = Array.from({ length: 20 }, (_, i) => entry(i, { action: 'delete' }));
+      const exports = Array.from({ length: 10 }, (_, i) => entry(20 + i, { action: 'export', userId: 'user2' }));
+
+      expect(detectAuditAnomalies([...deletions, ...exports]).map(anomaly => [anomaly.kind, anomaly.userId])).toEqual([
+        ['bulk_deletion', 'user1'],
+        ['bulk_export', 'user2'],
+      ]);
+    });
+
+    it('should flag gaps in the hash chain', () => {
+      const entries = [entry(0), entry(1), entry(2, { sequence: 6 }), entry(3, { sequence: undefined })];
+
+      expect(detectAuditAnomalies(entries)).toEqual([expect.objectContaining({
+        kind: 'sequence_gap',
+        severity: 'critical',
+        description: '3 audit log entries are missing between sequence 2 and 6',
+        entryIds: ['entry1', 'entry2'],
+      })]);
+    });
+  });
+});
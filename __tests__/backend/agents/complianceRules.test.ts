@@ -0,0 +1,135 @@
+import {
+  CHECK_INTERVAL_DAYS,
+  ComplianceSubject,
+  FAILED_CHECK_INTERVAL_DAYS,
+  checkStatusFor,
+  checkTypesFor,
+  evaluateComplianceCheck,
+  mergeIssues,
+  nextCheckDue,
+} from '../../../convex/agents/complianceRules';
+
+describe('Compliance Rules', () => {
+  const now = new Date('2026-06-01T00:00:00.000Z');
+
+  const subject = (overrides: Partial<ComplianceSubject> = {}): ComplianceSubject => ({
+    contractType: 'saas',
+    status: 'active',
+    value: 120000,
+    startDate: '2026-01-01',
+    endDate: '2027-01-01',
+    hasOwner: true,
+    hasVendor: true,
+    paymentSchedule: 'Monthly in arrears',
+    clauses: [
+      { clauseType: 'data_protection', present: true, deviationStatus: 'standard' },
+      { clauseType: 'termination', present: true, deviationStatus: 'fallback' },
+    ],
+    criticalClauseTypes: ['data_protection', 'termination'],
+    overdueObligations: 0,
+    ...overrides,
+  });
+
+  it('should give data-processing contracts privacy and security checks', () => {
+    expect(checkTypesFor('saas')).toEqual(['internal_policy', 'financial', 'operational', 'data_privacy', 'security']);
+    expect(checkTypesFor('employment')).toEqual(['internal_policy', 'financial', 'operational', 'regulatory']);
+    expect(checkTypesFor(undefined)).toEqual(['internal_policy', 'financial', 'operational']);
+  });
+
+  describe('evaluateComplianceCheck', () => {
+    it('should find nothing wrong with a complete contract', () => {
+      for (const checkType of checkTypesFor('saas')) {
+        expect(evaluateComplianceCheck(checkType, subject(), now)).toEqual([]);
+      }
+    });
+
+    it('should flag missing owners and critical clauses under internal policy', () => {
+      const issues = evaluateComplianceCheck('internal_policy', subject({
+        hasOwner: false,
+        clauses: [{ clauseType: 'data_protection', present: true }],
+      }), now);
+
+      expect(issues.map(issue => [issue.description, issue.severity])).toEqual([
+        ['No contract owner is assigned', 'medium'],
+        ['Required termination clause is missing', 'high'],
+      ]);
+    });
+
+    it('should not judge clauses before they have been extracted', () => {
+      expect(evaluateComplianceCheck('internal_policy', subject({ clauses: [] }), now)).toEqual([]);
+      expect(evaluateComplianceCheck('data_privacy', subject({ clauses: [] }), now)).toEqual([
+        expect.objectContaining({ severity: 'medium', remediationRequired: false }),
+      ]);
+    });
+
+    it('should treat a missing data protection clause as critical', () => {
+      const issues = evaluateComplianceCheck('data_privacy', subject({
+        clauses: [{ clauseType: 'termination', present: true }],
+      }), now);
+
+      expect(issues).toEqual([expect.objectContaining({ severity: 'critical', remediationRequired: true })]);
+    });
+
+    it('should flag contracts active past their end date and overdue obligations', () => {
+      const issues = evaluateComplianceCheck('operational', subject({ endDate: '2026-03-01', overdueObligations: 3 }), now);
+
+      expect(issues.map(issue => [issue.description, issue.severity])).toEqual([
+        ['Contract is active past its end date', 'high'],
+        ['3 obligations are overdue', 'high'],
+      ]);
+    });
+
+    it('should leave regulatory and security checks to a reviewer', () => {
+      expect(evaluateComplianceCheck('regulatory', subject({ hasOwner: false }), now)).toEqual([]);
+      expect(evaluateComplianceCheck('security', subject({ clauses: [] }), now)).toEqual([]);
+    });
+  });
+
+  describe('checkStatusFor', () => {
+    it('should rank critical issues above remediation and review', () => {
+      expect(checkStatusFor([{ description: 'a', severity: 'critical', remediationRequired: true }])).toBe('non_compliant');
+      expect(checkStatusFor([{ description: 'a', severity: 'medium', remediationRequired: true }])).toBe('remediation_required');
+      expect(checkStatusFor([{ description: 'a', severity: 'medium', remediationRequired: false }])).toBe('pending_review');
+      expect(checkStatusFor([{ description: 'a', severity: 'low', remediationRequired: false }])).toBe('compliant');
+      expect(checkStatusFor([{ description: 'a', severity: 'critical', remediationRequired: true, resolvedAt: '2026-05-01' }])).toBe('compliant');
+    });
+  });
+
+  it('should check failing contracts again sooner', () => {
+    expect(nextCheckDue('financial', 'compliant', now)).toBe(new Date(now.getTime() + CHECK_INTERVAL_DAYS.financial * 86400000).toISOString());
+    expect(nextCheckDue('financial', 'non_compliant', now)).toBe(new Date(now.getTime() + FAILED_CHECK_INTERVAL_DAYS * 86400000).toISOString());
+  });
+
+  describe('mergeIssues', () => {
+    it('should keep issues found again, resolve ones that are gone and open new ones', () => {
+      const previous = [
+        { description: 'No contract owner is assigned', severity: 'medium' as const, remediationRequired: true },
+        { description: 'Contract value is not recorded', severity: 'medium' as const, remediationRequired: true },
+      ];
+      const found = [
+        { description: 'No contract owner is assigned', severity: 'medium' as const, remediationRequired: true },
+        { description: 'Contract starts after it ends', severity: 'medium' as const, remediationRequired: true },
+      ];
+
+      const result = mergeIssues(previous, found, '2026-06-01T00:00:00.000Z');
+
+      expect(result.issues).toEqual([
+        previous[0],
+        { ...previous[1], resolvedAt: '2026-06-01T00:00:00.000Z' },
+        found[1],
+      ]);
+      expect(result.opened).toEqual([found[1]]);
+      expect(result.resolved).toHaveLength(1);
+    });
+
+    it('should open an issue again after it was resolved', () => {
+      const resolved = { description: 'Contract has no end date', severity: 'low' as const, remediationRequired: false, resolvedAt: '2026-05-01' };
+      const found = [{ description: 'Contract has no end date', severity: 'low' as const, remediationRequired: false }];
+
+      const result = mergeIssues([resolved], found, '2026-06-01');
+
+      expect(result.issues).toEqual([resolved, found[0]]);
+      expect(result.opened).toEqual(found);
+    });
+  });
+});
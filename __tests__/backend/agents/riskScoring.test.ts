@@ -0,0 +1,117 @@
+import {
+  ContractRiskInputs,
+  riskLevelFor,
+  riskTrend,
+  scoreContractRisk,
+  scoreVendorRisk,
+} from '../../../convex/agents/riskScoring';
+
+describe('Risk Scoring', () => {
+  const quiet: ContractRiskInputs = {
+    value: 50000,
+    daysToEnd: 400,
+    highRiskClauses: 0,
+    criticalClauseGaps: 0,
+    openComplianceIssues: { critical: 0, high: 0, medium: 0, low: 0 },
+    overdueObligations: 0,
+    vendorPerformanceScore: 90,
+  };
+
+  it('should map scores to levels', () => {
+    expect(riskLevelFor(0)).toBe('low');
+    expect(riskLevelFor(25)).toBe('medium');
+    expect(riskLevelFor(50)).toBe('high');
+    expect(riskLevelFor(75)).toBe('critical');
+  });
+
+  it('should only report a trend for meaningful changes', () => {
+    expect(riskTrend(undefined, 40)).toBe('stable');
+    expect(riskTrend(40, 43)).toBe('stable');
+    expect(riskTrend(40, 50)).toBe('rising');
+    expect(riskTrend(50, 40)).toBe('falling');
+  });
+
+  describe('scoreContractRisk', () => {
+    it('should rate a well-kept contract low', () => {
+      const result = scoreContractRisk(quiet);
+
+      expect(result.level).toBe('low');
+      expect(result.factors.map(factor => factor.key)).toEqual([
+        'financial_exposure', 'clause_risk', 'compliance', 'obligations', 'term', 'vendor_performance',
+      ]);
+    });
+
+    it('should score without factors that have no data', () => {
+      const result = scoreContractRisk({
+        daysToEnd: 400,
+        highRiskClauses: 0,
+        criticalClauseGaps: 0,
+        openComplianceIssues: { critical: 0, high: 0, medium: 0, low: 0 },
+        overdueObligations: 0,
+      });
+
+      expect(result.factors.map(factor => factor.key)).not.toContain('financial_exposure');
+      expect(result.factors.map(factor => factor.key)).not.toContain('vendor_performance');
+    });
+
+    it('should not let a single severe problem be averaged away', () => {
+      const result = scoreContractRisk({ ...quiet, daysToEnd: -10 });
+
+      expect(result.score).toBe(60);
+      expect(result.level).toBe('high');
+    });
+
+    it('should not treat a large value on its own as a problem', () => {
+      expect(scoreContractRisk({ ...quiet, value: 2000000 }).level).toBe('low');
+    });
+
+    it('should rate contracts with several problems critical', () => {
+      const result = scoreContractRisk({
+        ...quiet,
+        value: 750000,
+        daysToEnd: 20,
+        highRiskClauses: 2,
+        criticalClauseGaps: 2,
+        openComplianceIssues: { critical: 2, high: 1, medium: 0, low: 0 },
+        overdueObligations: 3,
+        vendorPerformanceScore: 40,
+      });
+
+      expect(result.level).toBe('critical');
+    });
+
+    it('should flag auto-renewals whose cancellation deadline is close', () => {
+      const term = scoreContractRisk({ ...quiet, daysToEnd: 120, isAutoRenew: true, daysToCancellationDeadline: 10 })
+        .factors.find(factor => factor.key === 'term');
+
+      expect(term).toMatchObject({ score: 80, detail: 'Auto-renews unless cancelled within 10 day(s)' });
+    });
+  });
+
+  describe('scoreVendorRisk', () => {
+    it('should weigh the riskiest contract, concentration, performance and compliance', () => {
+      const result = scoreVendorRisk({
+        contractScores: [80, 20],
+        vendorValue: 100000,
+        enterpriseValue: 1000000,
+        performanceScore: 50,
+        complianceScore: 100,
+      });
+
+      expect(result.factors.map(factor => [factor.key, factor.score])).toEqual([
+        ['contract_risk', 68],
+        ['concentration', 20],
+        ['performance', 50],
+        ['compliance', 0],
+      ]);
+      expect(result.level).toBe('medium');
+    });
+
+    it('should not rate a sole supplier high on concentration alone', () => {
+      const result = scoreVendorRisk({ contractScores: [10], vendorValue: 100000, enterpriseValue: 100000 });
+
+      expect(result.level).not.toBe('high');
+      expect(result.level).not.toBe('critical');
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  ASSISTANT_TOOLS,
+  AssistantSource,
+  MAX_TOOL_RESULT_LENGTH,
+  formatToolResult,
+  resolveCitations,
+} from '../../../convex/ai/assistantTools';
+
+describe('Assistant Tools', () => {
+  const sources: AssistantSource[] = [
+    { type: 'contract', id: 'c1', title: 'Acme MSA' },
+    { type: 'clause', id: 'cl9', title: 'Acme MSA: termination', contractId: 'c1' },
+    { type: 'vendor', id: 'v1', title: 'Acme Corp' },
+  ];
+
+  describe('resolveCitations', () => {
+    it('should number cited sources in order of first mention', () => {
+      const result = resolveCitations(
+        'Acme can terminate on 30 days notice [clause:cl9]. The MSA renews in May [contract:c1], as noted [clause:cl9].',
+        sources
+      );
+
+      expect(result.content).toBe('Acme can terminate on 30 days notice [1]. The MSA renews in May [2], as noted [1].');
+      expect(result.citations.map(citation => citation.id)).toEqual(['cl9', 'c1']);
+      expect(result.citations[0]!.contractId).toBe('c1');
+    });
+
+    it('should drop markers for records no tool returned', () => {
+      const result = resolveCitations('Spend is on track [contract:other] for Acme [vendor:v1].', sources);
+
+      expect(result.content).toBe('Spend is on track for Acme [1].');
+      expect(result.citations).toEqual([sources[2]]);
+    });
+
+    it('should leave answers without citations unchanged', () => {
+      expect(resolveCitations('No contracts match.', sources)).toEqual({ content: 'No contracts match.', citations: [] });
+    });
+  });
+
+  describe('formatToolResult', () => {
+    it('should pass data and errors to the model as JSON', () => {
+      expect(formatToolResult({ data: { total: 0, contracts: [] }, sources: [] })).toBe('{"total":0,"contracts":[]}');
+      expect(formatToolResult({ error: 'Permission denied: budgets.read' })).toBe('{"error":"Permission denied: budgets.read"}');
+    });
+
+    it('should truncate very long results', () => {
+      const text = formatToolResult({ data: 'x'.repeat(MAX_TOOL_RESULT_LENGTH * 2), sources: [] });
+      expect(text.length).toBeLessThan(MAX_TOOL_RESULT_LENGTH + 20);
+      expect(text.endsWith('(truncated)')).toBe(true);
+    });
+  });
+
+  it('should describe every tool with an object schema', () => {
+    expect(ASSISTANT_TOOLS.map(tool => tool.name)).toEqual([
+      'search_contracts', 'get_contract', 'get_budgets', 'get_vendor_performance', 'get_deadlines',
+    ]);
+    for (const tool of ASSISTANT_TOOLS) {
+      expect(tool.parameters.type).toBe('object');
+    }
+  });
+});
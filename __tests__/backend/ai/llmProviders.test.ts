@@ -0,0 +1,310 @@
+import {
+  createLocalProvider,
+  createProvider,
+  EMBEDDING_DIMENSIONS,
+  estimateTokens,
+  getDefaultProviderName,
+  localEmbedding,
+  parseJSONResponse,
+  setLocalFixtures,
+  validateProviderSettings,
+} from '../../../convex/ai/llmProviders';
+
+describe('LLM Providers', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    setLocalFixtures([]);
+  });
+
+  function mockStream(events: unknown[]) {
+    const text = events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+    const bytes = new TextEncoder().encode(text);
+    // Deliver the stream in two pieces, splitting an event
+    const pieces = [bytes.slice(0, 40), bytes.slice(40)];
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      statusText: 'OK',
+      body: {
+        getReader: () => ({
+          read: async () => pieces.length ? { done: false, value: pieces.shift() } : { done: true, value: undefined },
+        }),
+      },
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    return fetchMock;
+  }
+
+  function mockFetch(body: unknown) {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      statusText: 'OK',
+      json: async () => body,
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    return fetchMock;
+  }
+
+  describe('validateProviderSettings', () => {
+    it('should accept OpenAI and Anthropic without further settings', () => {
+      expect(validateProviderSettings({ provider: 'openai' })).toBeNull();
+      expect(validateProviderSettings({ provider: 'anthropic' })).toBeNull();
+    });
+
+    it('should require an endpoint and model for Azure and self-hosted providers', () => {
+      expect(validateProviderSettings({ provider: 'azure_openai', chatModel: 'gpt4' }))
+        .toBe('Azure OpenAI needs the resource endpoint');
+      expect(validateProviderSettings({ provider: 'azure_openai', baseUrl: 'https://acme.openai.azure.com' }))
+        .toBe('Azure OpenAI needs the chat deployment name');
+      expect(validateProviderSettings({ provider: 'openai_compatible', baseUrl: 'http://llm.internal:8000/v1' }))
+        .toBe('A self-hosted provider needs the model name');
+      expect(validateProviderSettings({
+        provider: 'openai_compatible', baseUrl: 'http://llm.internal:8000/v1', chatModel: 'llama-3-70b',
+      })).toBeNull();
+    });
+
+    it('should reject endpoints that are not http URLs', () => {
+      expect(validateProviderSettings({ provider: 'openai_compatible', baseUrl: 'not a url', chatModel: 'm' }))
+        .toBe('Endpoint must be a valid URL');
+      expect(validateProviderSettings({ provider: 'openai_compatible', baseUrl: 'ftp://llm.internal', chatModel: 'm' }))
+        .toBe('Endpoint must be an http or https URL');
+    });
+  });
+
+  describe('getDefaultProviderName', () => {
+    it('should use AI_PROVIDER when set', () => {
+      expect(getDefaultProviderName({ AI_PROVIDER: 'anthropic', OPENAI_API_KEY: 'sk' })).toBe('anthropic');
+    });
+
+    it('should fall back to the local provider in tests without an OpenAI key', () => {
+      expect(getDefaultProviderName({ NODE_ENV: 'test' })).toBe('local');
+      expect(getDefaultProviderName({ NODE_ENV: 'test', OPENAI_API_KEY: 'sk' })).toBe('openai');
+      expect(getDefaultProviderName({ NODE_ENV: 'production' })).toBe('openai');
+    });
+  });
+
+  describe('local provider', () => {
+    it('should answer from the first matching fixture', async () => {
+      setLocalFixtures([
+        { match: /termination/i, response: { clauses: [], overallRiskScore: 10 } },
+        { match: 'renewal', response: 'Renews annually' },
+      ]);
+      const provider = createLocalProvider();
+
+      const json = await provider.complete([{ role: 'user', content: 'Review the Termination clause' }], { json: true });
+      expect(JSON.parse(json.content)).toEqual({ clauses: [], overallRiskScore: 10 });
+
+      const text = await provider.complete([{ role: 'user', content: 'When is the renewal?' }]);
+      expect(text.content).toBe('Renews annually');
+      expect(text.model).toBe('local-fixture');
+    });
+
+    it('should give the same answer and usage for the same prompt', async () => {
+      const provider = createLocalProvider([]);
+      const messages = [{ role: 'user' as const, content: 'Summarize the contract' }];
+
+      const first = await provider.complete(messages);
+      const second = await provider.complete(messages);
+      expect(first).toEqual(second);
+      expect(first.usage.promptTokens).toBe(estimateTokens('Summarize the contract'));
+      expect((await provider.complete(messages, { json: true })).content).toBe('{}');
+    });
+
+    it('should call fixture tools before answering, and stream the answer', async () => {
+      setLocalFixtures([{
+        match: 'expiring',
+        toolCalls: [{ name: 'get_deadlines', arguments: { daysAhead: 60 } }],
+        response: 'Two contracts expire soon [contract:c1].',
+      }]);
+      const provider = createLocalProvider();
+      const tools = [{ name: 'get_deadlines', description: 'Deadlines', parameters: { type: 'object' } }];
+      const question = { role: 'user' as const, content: 'Which contracts are expiring?' };
+
+      const first = await provider.complete([question], { tools });
+      expect(first.content).toBe('');
+      expect(first.toolCalls).toEqual([{ id: 'local-call-0', name: 'get_deadlines', arguments: { daysAhead: 60 } }]);
+
+      const tokens: string[] = [];
+      const second = await provider.complete([
+        question,
+        { role: 'assistant', content: '', toolCalls: first.toolCalls },
+        { role: 'tool', toolCallId: 'local-call-0', content: '{"deadlines":[]}' },
+      ], { tools, onToken: text => { tokens.push(text); } });
+      expect(second.toolCalls).toEqual([]);
+      expect(second.content).toBe('Two contracts expire soon [contract:c1].');
+      expect(tokens.join('')).toBe(second.content);
+      expect(tokens.length).toBeGreaterThan(1);
+    });
+
+    it('should embed text into deterministic unit vectors', async () => {
+      const { embeddings } = await createLocalProvider().embed(['indemnification', 'indemnification', 'payment']);
+
+      expect(embeddings[0]).toHaveLength(EMBEDDING_DIMENSIONS);
+      expect(embeddings[0]).toEqual(embeddings[1]);
+      expect(embeddings[0]).not.toEqual(embeddings[2]);
+      const magnitude = Math.sqrt(localEmbedding('payment').reduce((sum, value) => sum + value * value, 0));
+      expect(magnitude).toBeCloseTo(1, 6);
+    });
+  });
+
+  describe('OpenAI-compatible providers', () => {
+    it('should call a self-hosted server and report its usage', async () => {
+      const fetchMock = mockFetch({
+        model: 'llama-3-70b',
+        choices: [{ message: { content: '{"ok":true}' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+      });
+      const provider = createProvider({
+        provider: 'openai_compatible', baseUrl: 'http://llm.internal:8000/v1/', chatModel: 'llama-3-70b',
+      }, {});
+
+      const result = await provider.complete([{ role: 'user', content: 'Hi' }], { json: true, maxTokens: 50 });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://llm.internal:8000/v1/chat/completions');
+      expect(init.headers.Authorization).toBeUndefined();
+      expect(JSON.parse(init.body)).toMatchObject({
+        model: 'llama-3-70b', max_tokens: 50, response_format: { type: 'json_object' },
+      });
+      expect(result.usage).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15, estimated: false });
+    });
+
+    it('should address Azure deployments with the api-key header', async () => {
+      const fetchMock = mockFetch({
+        data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }],
+        usage: { prompt_tokens: 4, total_tokens: 4 },
+      });
+      const provider = createProvider({
+        provider: 'azure_openai', baseUrl: 'https://acme.openai.azure.com', chatModel: 'gpt4', embeddingModel: 'embed',
+      }, { AZURE_OPENAI_API_KEY: 'azure-key' });
+
+      const result = await provider.embed(['a', 'b']);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://acme.openai.azure.com/openai/deployments/embed/embeddings?api-version=2024-06-01');
+      expect(init.headers['api-key']).toBe('azure-key');
+      expect(result.embeddings).toEqual([[1, 0], [0, 1]]);
+      expect(result.usage.promptTokens).toBe(4);
+    });
+
+    it('should stream text and assemble tool calls sent in pieces', async () => {
+      const fetchMock = mockStream([
+        { model: 'gpt-4o', choices: [{ delta: { content: 'Let me ' } }] },
+        { choices: [{ delta: { content: 'check.' } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'search_contracts', arguments: '{"que' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'ry":"Acme"}' } }] } }] },
+        { choices: [], usage: { prompt_tokens: 30, completion_tokens: 8 } },
+      ]);
+      const provider = createProvider({
+        provider: 'openai_compatible', baseUrl: 'http://llm.internal:8000/v1', chatModel: 'llama-3-70b',
+      }, {});
+      const tokens: string[] = [];
+
+      const result = await provider.complete([
+        { role: 'user', content: 'Find Acme' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'call_0', name: 'get_budgets', arguments: {} }] },
+        { role: 'tool', toolCallId: 'call_0', content: '{"budgets":[]}' },
+      ], {
+        tools: [{ name: 'search_contracts', description: 'Search', parameters: { type: 'object' } }],
+        onToken: text => { tokens.push(text); },
+      });
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.stream).toBe(true);
+      expect(body.tools[0]).toEqual({
+        type: 'function', function: { name: 'search_contracts', description: 'Search', parameters: { type: 'object' } },
+      });
+      expect(body.messages[1].tool_calls[0].function).toEqual({ name: 'get_budgets', arguments: '{}' });
+      expect(body.messages[2]).toEqual({ role: 'tool', tool_call_id: 'call_0', content: '{"budgets":[]}' });
+      expect(tokens).toEqual(['Let me ', 'check.']);
+      expect(result.content).toBe('Let me check.');
+      expect(result.toolCalls).toEqual([{ id: 'call_1', name: 'search_contracts', arguments: { query: 'Acme' } }]);
+      expect(result.model).toBe('gpt-4o');
+      expect(result.usage).toEqual({ promptTokens: 30, completionTokens: 8, totalTokens: 38, estimated: false });
+    });
+
+    it('should require a key for OpenAI', () => {
+      expect(() => createProvider({ provider: 'openai' }, {})).toThrow('OPENAI_API_KEY is not set');
+    });
+  });
+
+  describe('Anthropic provider', () => {
+    it('should send system prompts separately and count input and output tokens', async () => {
+      const fetchMock = mockFetch({
+        model: 'claude-3-5-sonnet-20241022',
+        content: [{ type: 'text', text: '{"riskScore":40}' }],
+        usage: { input_tokens: 20, output_tokens: 6 },
+      });
+      const provider = createProvider({ provider: 'anthropic', apiKey: 'ant-key' }, {});
+
+      const result = await provider.complete([
+        { role: 'system', content: 'You are a legal expert.' },
+        { role: 'user', content: 'Assess this clause' },
+      ], { json: true });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      const body = JSON.parse(init.body);
+      expect(url).toBe('https://api.anthropic.com/v1/messages');
+      expect(init.headers['x-api-key']).toBe('ant-key');
+      expect(body.system).toContain('You are a legal expert.');
+      expect(body.system).toContain('single JSON object');
+      expect(body.messages).toEqual([{ role: 'user', content: 'Assess this clause' }]);
+      expect(result.content).toBe('{"riskScore":40}');
+      expect(result.usage.totalTokens).toBe(26);
+    });
+
+    it('should send tool results as content blocks and read tool use', async () => {
+      const fetchMock = mockFetch({
+        content: [
+          { type: 'text', text: 'Checking.' },
+          { type: 'tool_use', id: 'toolu_2', name: 'get_contract', input: { contractId: 'c1' } },
+        ],
+        usage: { input_tokens: 40, output_tokens: 12 },
+      });
+      const provider = createProvider({ provider: 'anthropic', apiKey: 'ant-key' }, {});
+
+      const result = await provider.complete([
+        { role: 'user', content: 'Summarize the Acme MSA' },
+        { role: 'assistant', content: '', toolCalls: [
+          { id: 'toolu_0', name: 'search_contracts', arguments: { query: 'Acme' } },
+          { id: 'toolu_1', name: 'get_deadlines', arguments: {} },
+        ] },
+        { role: 'tool', toolCallId: 'toolu_0', content: '{"total":1}' },
+        { role: 'tool', toolCallId: 'toolu_1', content: '{"deadlines":[]}' },
+      ], { tools: [{ name: 'get_contract', description: 'Contract', parameters: { type: 'object' } }] });
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.tools).toEqual([{ name: 'get_contract', description: 'Contract', input_schema: { type: 'object' } }]);
+      expect(body.messages[1].content[0]).toEqual({
+        type: 'tool_use', id: 'toolu_0', name: 'search_contracts', input: { query: 'Acme' },
+      });
+      expect(body.messages[2]).toEqual({ role: 'user', content: [
+        { type: 'tool_result', tool_use_id: 'toolu_0', content: '{"total":1}' },
+        { type: 'tool_result', tool_use_id: 'toolu_1', content: '{"deadlines":[]}' },
+      ] });
+      expect(result.content).toBe('Checking.');
+      expect(result.toolCalls).toEqual([{ id: 'toolu_2', name: 'get_contract', arguments: { contractId: 'c1' } }]);
+    });
+
+    it('should embed with the deployment default provider', async () => {
+      const provider = createProvider({ provider: 'anthropic', apiKey: 'ant-key' }, { AI_PROVIDER: 'local' });
+
+      const { embeddings, model } = await provider.embed(['payment terms']);
+      expect(model).toBe('local-hash-embedding');
+      expect(embeddings[0]).toEqual(localEmbedding('payment terms'));
+    });
+  });
+
+  describe('parseJSONResponse', () => {
+    it('should parse plain, fenced and wrapped JSON', () => {
+      expect(parseJSONResponse('{"a":1}')).toEqual({ a: 1 });
+      expect(parseJSONResponse('```json\n{"a":2}\n```')).toEqual({ a: 2 });
+      expect(parseJSONResponse('Here you go: {"a":3} Hope that helps.')).toEqual({ a: 3 });
+    });
+
+    it('should reject replies without JSON', () => {
+      expect(() => parseJSONResponse('No analysis available')).toThrow('Model response is not valid JSON');
+    });
+  });
+});
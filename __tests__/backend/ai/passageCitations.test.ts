@@ -0,0 +1,80 @@
+import {
+  Passage,
+  formatPassages,
+  resolvePassageCitations,
+} from '../../../convex/ai/passageCitations';
+
+describe('Passage Citations', () => {
+  const passages: Passage[] = [
+    {
+      id: 'chunk1',
+      contractId: 'c1',
+      contractTitle: 'Acme MSA',
+      documentTitle: 'Acme MSA',
+      page: 4,
+      section: '12. Termination',
+      start: 1000,
+      end: 1090,
+      text: '12. Termination\n\nEither party may terminate this Agreement on 30 days written notice.',
+    },
+    {
+      id: 'chunk2',
+      contractId: 'c1',
+      contractTitle: 'Acme MSA',
+      versionId: 'v2',
+      documentTitle: 'Amendment 1',
+      page: 1,
+      start: 0,
+      end: 48,
+      text: 'The notice period is extended to sixty days.',
+    },
+  ];
+
+  describe('resolvePassageCitations', () => {
+    it('should number cited passages and keep the exact quoted text with its location', () => {
+      const result = resolvePassageCitations(
+        'Termination needs written notice [passage:1], now sixty days [passage:2] rather than thirty [passage:1].',
+        [
+          { passage: 1, quote: 'may terminate this agreement on 30 days written notice' },
+          { passage: 2, quote: 'extended to sixty days' },
+        ],
+        passages
+      );
+
+      expect(result.answer).toBe('Termination needs written notice [1], now sixty days [2] rather than thirty [1].');
+      expect(result.citations).toHaveLength(2);
+      expect(result.citations[0]).toMatchObject({
+        number: 1,
+        passageId: 'chunk1',
+        page: 4,
+        section: '12. Termination',
+        quote: 'may terminate this Agreement on 30 days written notice',
+      });
+      expect(result.citations[0]!.start).toBe(1000 + passages[0]!.text.indexOf('may terminate'));
+      expect(result.citations[0]!.end - result.citations[0]!.start).toBe(result.citations[0]!.quote.length);
+      expect(result.citations[1]).toMatchObject({ number: 2, versionId: 'v2', documentTitle: 'Amendment 1' });
+    });
+
+    it('should fall back to the passage text when the quote cannot be found', () => {
+      const result = resolvePassageCitations('Notice is sixty days [passage:2].', [
+        { passage: 2, quote: 'ninety days notice is required' },
+      ], passages);
+
+      expect(result.citations[0]!.quote).toBe('The notice period is extended to sixty days.');
+      expect(result.citations[0]!.start).toBe(0);
+    });
+
+    it('should drop markers for passages the model was not given', () => {
+      const result = resolvePassageCitations('Fees are fixed [passage:7].', [], passages);
+
+      expect(result).toEqual({ answer: 'Fees are fixed.', citations: [] });
+    });
+  });
+
+  it('should number passages with their contract, document, page and section', () => {
+    const text = formatPassages(passages);
+
+    expect(text).toContain('[1] Acme MSA - page 4 - 12. Termination\n12. Termination');
+    expect(text).toContain('[2] Acme MSA, Amendment 1 - page 1\nThe notice period');
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  baseTermsFromContract,
+  termsAtVersion,
+  currentEffectiveTerms,
+  isDueToTakeEffect,
+  diffTerms,
+  assessAmendmentChanges,
+  normalizeAmendmentTerms,
+  LineageVersion,
+} from '../../../convex/amendments/contractLineage';
+
+describe('Contract Lineage', () => {
+  const original: LineageVersion = {
+    versionNumber: 0,
+    status: 'in_effect',
+    effectiveDate: '2025-01-01',
+    terms: { value: 100000, startDate: '2025-01-01', endDate: '2026-12-31', scope: 'Support for 100 seats' },
+  };
+  const priceIncrease: LineageVersion = {
+    versionNumber: 1,
+    status: 'in_effect',
+    effectiveDate: '2025-07-01',
+    terms: { value: 130000, pricing: '$1,300 per seat per year' },
+  };
+  const extension: LineageVersion = {
+    versionNumber: 2,
+    status: 'executed',
+    effectiveDate: '2027-01-01',
+    terms: { endDate: '2028-12-31' },
+  };
+  const draftScope: LineageVersion = {
+    versionNumber: 3,
+    status: 'draft',
+    effectiveDate: '2027-01-01',
+    terms: { scope: 'Support for 150 seats' },
+  };
+  const lineage = [extension, original, draftScope, priceIncrease];
+
+  describe('baseTermsFromContract', () => {
+    it('should prefer extracted dates and trim them to the day', () => {
+      expect(baseTermsFromContract({
+        value: 5000,
+        startDate: '2025-02-01',
+        extractedStartDate: '2025-01-15T00:00:00.000Z',
+        endDate: '2026-01-31',
+        extractedScope: 'Cleaning services',
+      })).toEqual({ value: 5000, startDate: '2025-01-15', endDate: '2026-01-31', scope: 'Cleaning services' });
+    });
+  });
+
+  describe('termsAtVersion', () => {
+    it('should fold versions in order with later terms overriding earlier ones', () => {
+      expect(termsAtVersion(lineage, 1)).toEqual({
+        value: 130000,
+        startDate: '2025-01-01',
+        endDate: '2026-12-31',
+        scope: 'Support for 100 seats',
+        pricing: '$1,300 per seat per year',
+      });
+    });
+
+    it('should include a draft only when it is the version being looked at', () => {
+      expect(termsAtVersion(lineage, 3).scope).toBe('Support for 150 seats');
+      expect(termsAtVersion([...lineage, { ...draftScope, versionNumber: 4, terms: { value: 1 } }], 4).scope).toBe('Support for 100 seats');
+    });
+
+    it('should skip void versions', () => {
+      const voided = lineage.map(version => version.versionNumber === 1 ? { ...version, status: 'void' as const } : version);
+      expect(termsAtVersion(voided, 2).value).toBe(100000);
+    });
+  });
+
+  describe('currentEffectiveTerms', () => {
+    it('should only apply versions that have taken effect', () => {
+      expect(currentEffectiveTerms(lineage)).toMatchObject({ value: 130000, endDate: '2026-12-31', scope: 'Support for 100 seats' });
+    });
+  });
+
+  describe('isDueToTakeEffect', () => {
+    it('should take effect on the effective date once executed', () => {
+      expect(isDueToTakeEffect(extension, new Date('2026-12-31T23:00:00.000Z'))).toBe(false);
+      expect(isDueToTakeEffect(extension, new Date('2027-01-01T00:30:00.000Z'))).toBe(true);
+      expect(isDueToTakeEffect(draftScope, new Date('2027-06-01T00:00:00.000Z'))).toBe(false);
+    });
+  });
+
+  describe('diffTerms', () => {
+    it('should list added, removed and changed terms in display order', () => {
+      expect(diffTerms({ value: 100, scope: 'A', pricing: 'Fixed' }, { value: 120, scope: 'A', endDate: '2027-01-01' })).toEqual([
+        { field: 'value', label: 'Contract value', from: 100, to: 120, type: 'changed' },
+        { field: 'endDate', label: 'End date', to: '2027-01-01', type: 'added' },
+        { field: 'pricing', label: 'Pricing', from: 'Fixed', type: 'removed' },
+      ]);
+    });
+  });
+
+  describe('assessAmendmentChanges', () => {
+    it('should rate a large price increase with changed pricing as high impact', () => {
+      const assessment = assessAmendmentChanges(diffTerms(termsAtVersion(lineage, 0), termsAtVersion(lineage, 1)));
+
+      expect(assessment.legalImpact).toBe('high');
+      expect(assessment.risks[0]).toContain('30%');
+      expect(assessment.recommendations).toContain('Confirm budget approval for the increased contract value');
+    });
+
+    it('should flag long extensions and shortened terms', () => {
+      expect(assessAmendmentChanges(diffTerms(termsAtVersion(lineage, 1), termsAtVersion(lineage, 2))).risks[0]).toContain('extended by about 24 months');
+      expect(assessAmendmentChanges(diffTerms({ endDate: '2026-12-31' }, { endDate: '2026-06-30' })).risks[0]).toContain('shortened');
+    });
+
+    it('should rate a short extension as low impact', () => {
+      expect(assessAmendmentChanges(diffTerms({ endDate: '2026-12-31' }, { endDate: '2027-03-31' }))).toEqual({
+        legalImpact: 'low',
+        risks: [],
+        recommendations: ['Ensure amendment aligns with organizational policies'],
+      });
+    });
+  });
+
+  describe('normalizeAmendmentTerms', () => {
+    it('should trim text, drop blank terms and keep dates to the day', () => {
+      expect(normalizeAmendmentTerms({ scope: '  New scope ', pricing: '  ', endDate: '2027-06-30T12:00:00.000Z' }))
+        .toEqual({ scope: 'New scope', endDate: '2027-06-30' });
+    });
+
+    it('should reject amendments that change nothing or carry invalid terms', () => {
+      expect(() => normalizeAmendmentTerms({ pricing: ' ' })).toThrow();
+      expect(() => normalizeAmendmentTerms({ value: -5 })).toThrow();
+      expect(() => normalizeAmendmentTerms({ endDate: 'next year' })).toThrow();
+      expect(() => normalizeAmendmentTerms({ startDate: '2027-01-01', endDate: '2026-01-01' })).toThrow();
+    });
+  });
+});
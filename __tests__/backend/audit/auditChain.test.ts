@@ -0,0 +1,171 @@
+import {
+  AUDIT_CHAIN_GENESIS_HASH,
+  AuditExportManifest,
+  canonicalJson,
+  ChainedAuditEntry,
+  computeAuditEntryHash,
+  sha256Hex,
+  signAuditExport,
+  toAuditCsv,
+  toAuditJsonl,
+  verifyAuditChain,
+  verifyAuditExport,
+} from '../../../convex/audit/auditChain';
+
+async function buildChain(count: number): Promise<ChainedAuditEntry[]> {
+  const entries: ChainedAuditEntry[] = [];
+  let previousHash = AUDIT_CHAIN_GENESIS_HASH;
+  for (let sequence = 1; sequence <= count; sequence++) {
+    const content = {
+      _id: `log_${sequence}`,
+      _creationTime: 1700000000000 + sequence,
+      userId: 'user_1',
+      enterpriseId: 'enterprise_1',
+      operation: 'updateContract',
+      resourceType: 'contracts',
+      resourceId: `contract_${sequence}`,
+      action: 'update',
+      status: 'success',
+      timestamp: `2026-01-0${sequence}T00:00:00.000Z`,
+      changes: { before: { status: 'draft' }, after: { status: 'active' } },
+      sequence,
+      previousHash,
+    };
+    const hash = await computeAuditEntryHash(content);
+    entries.push({ ...content, hash });
+    previousHash = hash;
+  }
+  return entries;
+}
+
+describe('Audit Chain', () => {
+  describe('canonicalJson', () => {
+    it('should sort keys at every level and drop undefined fields', () => {
+      expect(canonicalJson({ b: 1, a: { d: undefined, c: [2, { f: 1, e: 0 }] } }))
+        .toBe('{"a":{"c":[2,{"e":0,"f":1}]},"b":1}');
+    });
+  });
+
+  describe('computeAuditEntryHash', () => {
+    it('should not depend on field order or system fields', async () => {
+      const first = await computeAuditEntryHash({ sequence: 1, operation: 'a', _id: 'x', hash: 'old' });
+      const second = await computeAuditEntryHash({ operation: 'a', sequence: 1, _creationTime: 5 });
+
+      expect(first).toMatch(/^[0-9a-f]{64}$/);
+      expect(first).toBe(second);
+    });
+  });
+
+  describe('verifyAuditChain', () => {
+    it('should accept an intact chain', async () => {
+      const entries = await buildChain(4);
+
+      const result = await verifyAuditChain(entries, { head: { sequence: 4, hash: entries[3]!.hash } });
+
+      expect(result).toEqual({ valid: true, checkedEntries: 4, firstSequence: 1, lastSequence: 4, issues: [] });
+    });
+
+    it('should detect an edited entry', async () => {
+      const entries = await buildChain(3);
+      entries[1] = { ...entries[1]!, status: 'failure' };
+
+      const result = await verifyAuditChain(entries);
+
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        { sequence: 2, entryId: 'log_2', problem: 'edited', detail: 'Entry 2 was changed after it was written' },
+      ]);
+    });
+
+    it('should detect a deleted entry', async () => {
+      const entries = await buildChain(4);
+
+      const result = await verifyAuditChain([entries[0]!, entries[2]!, entries[3]!]);
+
+      expect(result.issues.map(issue => [issue.sequence, issue.problem])).toEqual([[2, 'missing_entries']]);
+    });
+
+    it('should detect a deleted entry that was re-hashed to hide the gap', async () => {
+      const entries = await buildChain(3);
+      const forged = { ...entries[2]!, sequence: 2 };
+      forged.hash = await computeAuditEntryHash(forged);
+
+      const result = await verifyAuditChain([entries[0]!, forged]);
+
+      expect(result.issues.map(issue => issue.problem)).toEqual(['broken_link']);
+    });
+
+    it('should detect truncation against the chain head', async () => {
+      const entries = await buildChain(3);
+
+      const result = await verifyAuditChain(entries.slice(0, 2), { head: { sequence: 3, hash: entries[2]!.hash } });
+
+      expect(result.issues).toEqual([expect.objectContaining({ sequence: 3, problem: 'missing_entries' })]);
+    });
+
+    it('should detect a replaced newest entry', async () => {
+      const entries = await buildChain(2);
+
+      const result = await verifyAuditChain(entries, { head: { sequence: 2, hash: 'f'.repeat(64) } });
+
+      expect(result.issues.map(issue => issue.problem)).toEqual(['head_mismatch']);
+    });
+
+    it('should continue from a previous batch', async () => {
+      const entries = await buildChain(4);
+
+      const linked = await verifyAuditChain(entries.slice(2), { previous: { sequence: 2, hash: entries[1]!.hash } });
+      const unlinked = await verifyAuditChain(entries.slice(2), { previous: { sequence: 2, hash: entries[0]!.hash } });
+
+      expect(linked.valid).toBe(true);
+      expect(unlinked.issues.map(issue => [issue.sequence, issue.problem])).toEqual([[3, 'broken_link']]);
+    });
+  });
+
+  describe('exports', () => {
+    it('should write JSONL that re-verifies', async () => {
+      const entries = await buildChain(2);
+
+      const lines = toAuditJsonl(entries).split('\n').map(line => JSON.parse(line));
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]._creationTime).toBeUndefined();
+      expect((await verifyAuditChain(lines)).valid).toBe(true);
+    });
+
+    it('should escape CSV values', async () => {
+      const [entry] = await buildChain(1);
+
+      const [header, row] = toAuditCsv([{ ...entry!, errorMessage: 'Denied, "quota"' }]).split('\n');
+
+      expect(header).toBe('sequence,timestamp,userId,operation,resourceType,resourceId,action,status,errorMessage,ipAddress,userAgent,changes,metadata,previousHash,hash');
+      expect(row).toContain('"Denied, ""quota"""');
+      expect(row).toContain('"{""after"":{""status"":""active""},""before"":{""status"":""draft""}}"');
+    });
+
+    it('should sign and verify the manifest', async () => {
+      const content = toAuditJsonl(await buildChain(2));
+      const manifest: AuditExportManifest = {
+        enterpriseId: 'enterprise_1',
+        format: 'jsonl',
+        filters: { resourceType: 'contracts' },
+        entryCount: 2,
+        firstSequence: 1,
+        lastSequence: 2,
+        chainHead: null,
+        contentSha256: await sha256Hex(content),
+        exportedAt: '2026-01-10T00:00:00.000Z',
+        exportedBy: 'user_1',
+      };
+      const signature = await signAuditExport('audit_secret', manifest);
+
+      expect(await verifyAuditExport('audit_secret', { content, manifest, signature })).toEqual({ valid: true });
+      expect(await verifyAuditExport('other_secret', { content, manifest, signature }))
+        .toEqual({ valid: false, error: 'Signature does not match' });
+      expect(await verifyAuditExport('audit_secret', { content: `${content}\n`, manifest, signature }))
+        .toEqual({ valid: false, error: 'Content does not match the export manifest' });
+      expect(await verifyAuditExport('audit_secret', { content, manifest: { ...manifest, entryCount: 1 }, signature }))
+        .toEqual({ valid: false, error: 'Signature does not match' });
+    });
+  });
+});
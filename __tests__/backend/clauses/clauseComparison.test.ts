@@ -0,0 +1,117 @@
+import {
+  clauseSimilarity,
+  compareClause,
+  locateClause,
+  getClauseKeywords,
+  isCriticalClause,
+  rulesForContractType,
+  validateClauseLibraryEntry,
+  DEFAULT_CLAUSE_LIBRARY,
+  ClauseLibraryRule,
+} from '../../../convex/clauses/clauseComparison';
+
+describe('Clause Library Comparison', () => {
+  const liability = DEFAULT_CLAUSE_LIBRARY.find(rule => rule.clauseType === 'limitation_of_liability')!;
+  const termination = DEFAULT_CLAUSE_LIBRARY.find(rule => rule.clauseType === 'termination')!;
+
+  describe('clauseSimilarity', () => {
+    it('should ignore case, punctuation and spelled-out numbers', () => {
+      expect(
+        clauseSimilarity('Notice of thirty (30) days.', 'NOTICE OF 30 DAYS')
+      ).toBe(1);
+    });
+
+    it('should not treat language with different figures as a match', () => {
+      const changed = termination.standardText.replace(/thirty \(30\) days' written notice/, "ninety (90) days' written notice");
+      expect(clauseSimilarity(changed, termination.standardText)).toBeLessThanOrEqual(0.7);
+    });
+  });
+
+  describe('compareClause', () => {
+    it('should accept the standard language as low risk', () => {
+      const result = compareClause(liability.standardText, liability);
+
+      expect(result.status).toBe('standard');
+      expect(result.riskLevel).toBe('low');
+      expect(result.suggestedFallback).toBeUndefined();
+    });
+
+    it('should recognise an approved fallback and take its risk level', () => {
+      const result = compareClause(liability.fallbacks[1]!.text, liability);
+
+      expect(result.status).toBe('fallback');
+      expect(result.matchedFallbackRank).toBe(2);
+      expect(result.riskLevel).toBe('medium');
+    });
+
+    it('should flag deviations and suggest the most preferred fallback', () => {
+      const result = compareClause(
+        'Vendor shall have unlimited liability for all direct and indirect damages of any kind.',
+        liability
+      );
+
+      expect(result.status).toBe('deviation');
+      expect(result.riskLevel).toBe('high');
+      expect(result.suggestedFallback?.rank).toBe(1);
+      expect(result.recommendations[0]).toContain('fallback position 1');
+    });
+
+    it('should report missing clauses by criticality', () => {
+      expect(compareClause(null, liability)).toMatchObject({ status: 'missing', riskLevel: 'high' });
+      expect(compareClause('', { ...liability, isCritical: false })).toMatchObject({ status: 'missing', riskLevel: 'medium' });
+    });
+  });
+
+  describe('locateClause', () => {
+    it('should pick the paragraph closest to the library language', () => {
+      const text = [
+        '1. Services. Vendor shall provide the services described in each order.',
+        '2. Fees. Liability for late payment interest is set out in the order.',
+        `3. Limitation of Liability. ${liability.standardText}`,
+      ].join('\n\n');
+
+      expect(locateClause(text, liability)).toBe(`3. Limitation of Liability. ${liability.standardText}`);
+    });
+
+    it('should return null when no paragraph mentions the clause', () => {
+      expect(locateClause('1. Services.\n\n2. Fees.', liability)).toBeNull();
+    });
+  });
+
+  describe('library lookups', () => {
+    const library: ClauseLibraryRule[] = [
+      { ...liability, keywords: ['Liability Cap'], isCritical: false },
+      { ...termination, isActive: false },
+    ];
+
+    it('should prefer active library entries over the defaults', () => {
+      expect(getClauseKeywords('limitation_of_liability', library)).toEqual(['liability cap']);
+      expect(isCriticalClause('limitation_of_liability', library)).toBe(false);
+      expect(isCriticalClause('termination', library)).toBe(true);
+      expect(getClauseKeywords('unknown_clause')).toEqual(['unknown_clause']);
+    });
+
+    it('should select the entries a contract type requires', () => {
+      const rules = DEFAULT_CLAUSE_LIBRARY.map(rule => ({ ...rule, isActive: true }));
+
+      expect(rulesForContractType(rules, 'nda').map(rule => rule.clauseType)).toEqual(['termination']);
+      expect(rulesForContractType(rules, 'saas')).toHaveLength(4);
+    });
+  });
+
+  describe('validateClauseLibraryEntry', () => {
+    it('should accept the default library', () => {
+      DEFAULT_CLAUSE_LIBRARY.forEach(rule => expect(() => validateClauseLibraryEntry(rule)).not.toThrow());
+    });
+
+    it('should reject duplicate fallback ranks and malformed clause types', () => {
+      expect(() =>
+        validateClauseLibraryEntry({
+          ...liability,
+          fallbacks: [liability.fallbacks[0]!, { ...liability.fallbacks[1]!, rank: 1 }],
+        })
+      ).toThrow('Duplicate fallback rank: 1');
+      expect(() => validateClauseLibraryEntry({ ...liability, clauseType: 'Limitation Of Liability' })).toThrow();
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  effectiveNotificationRules,
+  findVendorOverlap,
+  grantAllows,
+  inheritWorkflow,
+  normalizeGrantScopes,
+  normalizeNotificationRules,
+  VendorSpendEntry,
+} from '../../../convex/consolidation/consolidationRules';
+import { WorkflowStepDefinition } from '../../../convex/workflows/approvalWorkflowEngine';
+
+const entry = (enterpriseId: string, vendorName: string, contractValue: number, spend = 0): VendorSpendEntry => ({
+  enterpriseId,
+  enterpriseName: `Enterprise ${enterpriseId}`,
+  vendorName,
+  contracts: 1,
+  contractValue,
+  spend,
+});
+
+describe('Consolidation Rules', () => {
+  describe('grantAllows', () => {
+    const grant = { parentEnterpriseId: 'parent', scopes: ['reporting' as const] };
+
+    it('should allow only granted scopes to the granted parent', () => {
+      expect(grantAllows(grant, 'parent', 'reporting')).toBe(true);
+      expect(grantAllows(grant, 'parent', 'policies')).toBe(false);
+      expect(grantAllows(grant, 'other', 'reporting')).toBe(false);
+      expect(grantAllows(null, 'parent', 'reporting')).toBe(false);
+    });
+
+    it('should allow nothing once revoked', () => {
+      expect(grantAllows({ ...grant, revokedAt: '2026-10-01T00:00:00Z' }, 'parent', 'reporting')).toBe(false);
+    });
+  });
+
+  describe('normalizeGrantScopes', () => {
+    it('should deduplicate and order scopes', () => {
+      expect(normalizeGrantScopes(['policies', 'reporting', 'policies'])).toEqual(['reporting', 'policies']);
+    });
+
+    it('should reject empty and unknown scopes', () => {
+      expect(() => normalizeGrantScopes([])).toThrow('at least one');
+      expect(() => normalizeGrantScopes(['billing'])).toThrow('Unknown access scope');
+    });
+  });
+
+  describe('findVendorOverlap', () => {
+    it('should group normalized vendor names across enterprises', () => {
+      const overlaps = findVendorOverlap([
+        entry('a', 'Acme Inc.', 1000, 200),
+        entry('b', 'ACME', 3000, 100),
+        entry('b', 'Acme', 500),
+        entry('a', 'Globex LLC', 9000),
+      ]);
+
+      expect(overlaps).toHaveLength(1);
+      const acme = overlaps[0]!;
+      expect(acme.vendorKey).toBe('acme');
+      expect(acme.contracts).toBe(3);
+      expect(acme.contractValue).toBe(4500);
+      expect(acme.spend).toBe(300);
+      // Enterprise b's two contracts are combined and it leads by value
+      expect(acme.enterprises.map(e => [e.enterpriseId, e.contractValue])).toEqual([['b', 3500], ['a', 1000]]);
+    });
+
+    it('should sort by combined contract value', () => {
+      const overlaps = findVendorOverlap([
+        entry('a', 'Small Co', 10),
+        entry('b', 'Small Co', 10),
+        entry('a', 'Big Corp', 500),
+        entry('c', 'Big Corporation', 500),
+      ]);
+      expect(overlaps.map(overlap => overlap.vendorKey)).toEqual(['big', 'small']);
+    });
+  });
+
+  describe('inheritWorkflow', () => {
+    const steps: WorkflowStepDefinition[] = [{
+      id: 'finance',
+      name: 'Finance review',
+      order: 1,
+      approvers: [
+        { type: 'user', userId: 'user1' as never },
+        { type: 'role', role: 'admin' },
+        { type: 'role', role: 'manager' },
+      ],
+      escalateTo: [{ type: 'user', userId: 'user2' as never }],
+    }];
+
+    it('should hand user approvers to the child admins', () => {
+      const inherited = inheritWorkflow({ conditions: [{ field: 'contractValue', operator: 'gte', value: 50000 }], steps })!;
+
+      expect(inherited.conditions).toHaveLength(1);
+      expect(inherited.steps[0]!.approvers).toEqual([
+        { type: 'role', role: 'admin' },
+        { type: 'role', role: 'manager' },
+      ]);
+      expect(inherited.steps[0]!.escalateTo).toEqual([{ type: 'role', role: 'admin' }]);
+    });
+
+    it('should not inherit department conditioned workflows', () => {
+      expect(inheritWorkflow({ conditions: [{ field: 'departmentId', operator: 'eq', value: 'd1' }], steps })).toBeNull();
+      expect(inheritWorkflow({
+        conditions: [],
+        steps: [{ ...steps[0]!, conditions: [{ field: 'departmentId', operator: 'eq', value: 'd1' }] }],
+      })).toBeNull();
+    });
+  });
+
+  describe('notification rules', () => {
+    it('should fill in the built-in defaults', () => {
+      expect(effectiveNotificationRules(undefined)).toEqual({
+        renewalReminderOffsets: [90, 60, 30, 14, 7, 1],
+        obligationReminderDaysBefore: 7,
+      });
+      expect(effectiveNotificationRules({ obligationReminderDaysBefore: 14 }).obligationReminderDaysBefore).toBe(14);
+    });
+
+    it('should validate and sort the rules given', () => {
+      expect(normalizeNotificationRules({ renewalReminderOffsets: [30, 90, 30] })).toEqual({ renewalReminderOffsets: [90, 30] });
+      expect(() => normalizeNotificationRules({ obligationReminderDaysBefore: 90 })).toThrow('between 0 and 60');
+      expect(() => normalizeNotificationRules({ renewalReminderOffsets: [] })).toThrow();
+    });
+  });
+});
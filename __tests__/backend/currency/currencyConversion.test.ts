@@ -0,0 +1,124 @@
+import {
+  normalizeCurrency,
+  detectCurrency,
+  parseMoney,
+  contractCurrency,
+  findRate,
+  convertAmount,
+  parseFxRatesCsv,
+  providerStubRates,
+  FxRate,
+} from '../../../convex/currency/currencyConversion';
+
+describe('Currency Conversion', () => {
+  const rates: FxRate[] = [
+    { baseCurrency: 'EUR', quoteCurrency: 'USD', rate: 1.1, rateDate: '2026-01-01' },
+    { baseCurrency: 'EUR', quoteCurrency: 'USD', rate: 1.2, rateDate: '2026-06-01' },
+    { baseCurrency: 'USD', quoteCurrency: 'GBP', rate: 0.8, rateDate: '2026-03-01' },
+  ];
+
+  describe('normalizeCurrency', () => {
+    it('should upper-case supported codes and reject others', () => {
+      expect(normalizeCurrency(' eur ')).toBe('EUR');
+      expect(() => normalizeCurrency('XYZ')).toThrow('Unsupported currency');
+    });
+  });
+
+  describe('detectCurrency', () => {
+    it('should recognise symbols and ISO codes but not a bare dollar sign', () => {
+      expect(detectCurrency('€12.000,50 per year')).toBe('EUR');
+      expect(detectCurrency('CA$ 5,000')).toBe('CAD');
+      expect(detectCurrency('Fee of 1,000 GBP monthly')).toBe('GBP');
+      expect(detectCurrency('$5,000')).toBeUndefined();
+    });
+  });
+
+  describe('parseMoney', () => {
+    it('should parse the amount and fall back to the given currency', () => {
+      expect(parseMoney('£1,250.75')).toEqual({ amount: 1250.75, currency: 'GBP' });
+      expect(parseMoney('1.500,5', 'EUR')).toEqual({ amount: 1500.5, currency: 'EUR' });
+      expect(parseMoney('$120,000', 'CHF')).toEqual({ amount: 120000, currency: 'CHF' });
+    });
+  });
+
+  describe('contractCurrency', () => {
+    it('should prefer the contract currency, then the pricing text, then the fallback', () => {
+      expect(contractCurrency({ currency: 'JPY', extractedPricing: '€100' }, 'USD')).toBe('JPY');
+      expect(contractCurrency({ extractedPricing: '€100' }, 'USD')).toBe('EUR');
+      expect(contractCurrency({}, 'GBP')).toBe('GBP');
+    });
+  });
+
+  describe('findRate', () => {
+    it('should use the latest rate on or before the date', () => {
+      expect(findRate(rates, 'EUR', 'USD', '2026-05-31')).toEqual({ rate: 1.1, rateDate: '2026-01-01', method: 'direct' });
+      expect(findRate(rates, 'EUR', 'USD', '2026-07-15T10:00:00.000Z')?.rate).toBe(1.2);
+      expect(findRate(rates, 'EUR', 'USD', '2025-12-31')).toBeNull();
+    });
+
+    it('should invert the reverse pair and cross through a third currency', () => {
+      expect(findRate(rates, 'GBP', 'USD', '2026-04-01')).toMatchObject({ rate: 1.25, method: 'inverse' });
+
+      const cross = findRate(rates, 'EUR', 'GBP', '2026-07-01', 'USD');
+      expect(cross?.method).toBe('cross');
+      expect(cross?.rate).toBeCloseTo(0.96);
+      expect(cross?.rateDate).toBe('2026-03-01');
+      expect(findRate(rates, 'EUR', 'GBP', '2026-07-01')).toBeNull();
+    });
+  });
+
+  describe('convertAmount', () => {
+    it('should convert and keep the original amount', () => {
+      expect(convertAmount(1000, 'EUR', 'USD', rates, '2026-07-01')).toEqual({
+        amount: 1200,
+        currency: 'USD',
+        originalAmount: 1000,
+        originalCurrency: 'EUR',
+        rate: 1.2,
+        rateDate: '2026-06-01',
+      });
+      expect(convertAmount(50, 'USD', 'USD', [], '2026-07-01')).toEqual({
+        amount: 50,
+        currency: 'USD',
+        originalAmount: 50,
+        originalCurrency: 'USD',
+        rate: 1,
+      });
+      expect(convertAmount(50, 'JPY', 'USD', rates, '2026-07-01')).toBeNull();
+    });
+  });
+
+  describe('parseFxRatesCsv', () => {
+    it('should read rows in any column order and report bad rows', () => {
+      const result = parseFxRatesCsv([
+        'date,from,to,rate',
+        '2026-10-01,eur,usd,1.087',
+        '2026-10-01,EUR,XYZ,2',
+        '2026-10-01,GBP,USD,-1',
+        '01/10/2026,GBP,USD,1.26',
+        '',
+      ].join('\n'));
+
+      expect(result.rates).toEqual([{ baseCurrency: 'EUR', quoteCurrency: 'USD', rate: 1.087, rateDate: '2026-10-01' }]);
+      expect(result.errors).toEqual([
+        'Row 3: unsupported currency pair EUR/XYZ',
+        'Row 4: rate must be a positive number',
+        'Row 5: date must be YYYY-MM-DD',
+      ]);
+    });
+
+    it('should reject a CSV without the required columns', () => {
+      expect(parseFxRatesCsv('base,quote,value\nEUR,USD,1.1').errors[0]).toBe('CSV header is missing: rate, date');
+    });
+  });
+
+  describe('providerStubRates', () => {
+    it('should quote every other supported currency from the base', () => {
+      const stub = providerStubRates('EUR', '2026-10-19T08:00:00.000Z');
+
+      expect(stub.every(rate => rate.baseCurrency === 'EUR' && rate.rateDate === '2026-10-19')).toBe(true);
+      expect(stub.find(rate => rate.quoteCurrency === 'USD')?.rate).toBeCloseTo(1 / 0.92, 5);
+      expect(stub.some(rate => rate.quoteCurrency === 'EUR')).toBe(false);
+    });
+  });
+});
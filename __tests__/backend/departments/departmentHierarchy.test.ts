@@ -0,0 +1,94 @@
+import {
+  departmentSubtree,
+  wouldCreateCycle,
+  departmentPath,
+  normalizeDepartmentName,
+  normalizeCostCenterCode,
+  legacyDepartmentName,
+  findDepartmentByName,
+  DepartmentNode,
+} from '../../../convex/lib/departmentHierarchy';
+
+// Finance
+// ├── Payables
+// │   └── Vendor Payments
+// └── Treasury
+// Engineering
+const departments: DepartmentNode[] = [
+  { _id: 'finance', name: 'Finance' },
+  { _id: 'payables', name: 'Payables', parentDepartmentId: 'finance' },
+  { _id: 'vendor-payments', name: 'Vendor Payments', parentDepartmentId: 'payables' },
+  { _id: 'treasury', name: 'Treasury', parentDepartmentId: 'finance' },
+  { _id: 'engineering', name: 'Engineering' },
+];
+
+describe('Department Hierarchy', () => {
+  describe('departmentSubtree', () => {
+    it('should include the department and everything below it', () => {
+      expect([...departmentSubtree(departments, 'finance')].sort()).toEqual(
+        ['finance', 'payables', 'treasury', 'vendor-payments']
+      );
+      expect([...departmentSubtree(departments, 'payables')].sort()).toEqual(['payables', 'vendor-payments']);
+      expect([...departmentSubtree(departments, 'engineering')]).toEqual(['engineering']);
+    });
+
+    it('should stop on corrupted cycles', () => {
+      const cyclic: DepartmentNode[] = [
+        { _id: 'a', name: 'A', parentDepartmentId: 'b' },
+        { _id: 'b', name: 'B', parentDepartmentId: 'a' },
+      ];
+      expect([...departmentSubtree(cyclic, 'a')].sort()).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('wouldCreateCycle', () => {
+    it('should refuse moving a department under itself or a descendant', () => {
+      expect(wouldCreateCycle(departments, 'finance', 'finance')).toBe(true);
+      expect(wouldCreateCycle(departments, 'finance', 'vendor-payments')).toBe(true);
+      expect(wouldCreateCycle(departments, 'payables', 'treasury')).toBe(false);
+      expect(wouldCreateCycle(departments, 'engineering', 'finance')).toBe(false);
+    });
+  });
+
+  describe('departmentPath', () => {
+    it('should list names from the root down', () => {
+      expect(departmentPath(departments, 'vendor-payments')).toEqual(['Finance', 'Payables', 'Vendor Payments']);
+      expect(departmentPath(departments, 'engineering')).toEqual(['Engineering']);
+      expect(departmentPath(departments, 'missing')).toEqual([]);
+    });
+  });
+
+  describe('normalizeDepartmentName', () => {
+    it('should collapse whitespace and reject blank or long names', () => {
+      expect(normalizeDepartmentName('  Human   Resources ')).toBe('Human Resources');
+      expect(() => normalizeDepartmentName('   ')).toThrow();
+      expect(() => normalizeDepartmentName('x'.repeat(101))).toThrow();
+    });
+  });
+
+  describe('normalizeCostCenterCode', () => {
+    it('should upper-case valid codes and reject others', () => {
+      expect(normalizeCostCenterCode(' cc-4100 ')).toBe('CC-4100');
+      expect(normalizeCostCenterCode('fin.ap_01')).toBe('FIN.AP_01');
+      expect(() => normalizeCostCenterCode('-4100')).toThrow();
+      expect(() => normalizeCostCenterCode('CC 4100')).toThrow();
+      expect(() => normalizeCostCenterCode('X'.repeat(21))).toThrow();
+    });
+  });
+
+  describe('legacyDepartmentName', () => {
+    it('should map the old picker ids and keep free text', () => {
+      expect(legacyDepartmentName('dept1')).toBe('Engineering');
+      expect(legacyDepartmentName('dept6')).toBe('Human Resources');
+      expect(legacyDepartmentName(' Procurement ')).toBe('Procurement');
+      expect(legacyDepartmentName('  ')).toBeNull();
+    });
+  });
+
+  describe('findDepartmentByName', () => {
+    it('should match ignoring case and spacing', () => {
+      expect(findDepartmentByName(departments, ' vendor  payments')?._id).toBe('vendor-payments');
+      expect(findDepartmentByName(departments, 'Legal')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  CHUNK_TARGET_LENGTH,
+  MAX_CHUNKS_PER_DOCUMENT,
+  chunkDocument,
+  isSectionHeading,
+  locateQuote,
+  passageExcerpt,
+} from '../../../convex/documents/chunking';
+import { buildTextLayout } from '../../../convex/documents/textExtraction';
+
+describe('Document Chunking', () => {
+  describe('isSectionHeading', () => {
+    it('should recognise numbered and capitalised headings', () => {
+      expect(isSectionHeading('12. Termination')).toBe(true);
+      expect(isSectionHeading('Article IV Confidentiality')).toBe(true);
+      expect(isSectionHeading('SCHEDULE 2 - FEES')).toBe(true);
+      expect(isSectionHeading('LIMITATION OF LIABILITY')).toBe(true);
+    });
+
+    it('should not treat clauses and sentences as headings', () => {
+      expect(isSectionHeading('12.1 Either party may terminate this Agreement on 30 days notice.')).toBe(false);
+      expect(isSectionHeading('The Supplier shall invoice monthly in arrears')).toBe(false);
+      expect(isSectionHeading('NDA')).toBe(false);
+    });
+  });
+
+  describe('chunkDocument', () => {
+    it('should anchor passages to their page and section', () => {
+      const layout = buildTextLayout([
+        '1. Services\n\nThe Supplier provides hosting.',
+        '2. Termination\n\nEither party may terminate on 30 days notice.\n\nFees paid are not refunded.',
+      ]);
+
+      const { chunks, truncated } = chunkDocument(layout);
+
+      expect(truncated).toBe(false);
+      expect(chunks.map(chunk => [chunk.page, chunk.section])).toEqual([
+        [1, '1. Services'],
+        [2, '2. Termination'],
+      ]);
+      expect(chunks[1]!.text).toBe('2. Termination\n\nEither party may terminate on 30 days notice.\n\nFees paid are not refunded.');
+      for (const chunk of chunks) {
+        expect(layout.text.slice(chunk.start, chunk.end)).toBe(chunk.text);
+      }
+    });
+
+    it('should never let a passage cross a page', () => {
+      const layout = buildTextLayout(['Short first page.', 'Short second page.']);
+
+      expect(chunkDocument(layout).chunks.map(chunk => chunk.text)).toEqual(['Short first page.', 'Short second page.']);
+    });
+
+    it('should split long paragraphs at sentence ends', () => {
+      const sentence = 'The Customer shall pay every invoice within thirty days of receipt. ';
+      const text = sentence.repeat(60).trim();
+
+      const { chunks } = chunkDocument({ text });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.text.length).toBeLessThanOrEqual(CHUNK_TARGET_LENGTH);
+        expect(chunk.text.endsWith('receipt.')).toBe(true);
+        expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text);
+      }
+    });
+
+    it('should stop at the passage limit and mark the result truncated', () => {
+      const pages = Array.from({ length: MAX_CHUNKS_PER_DOCUMENT + 5 }, (_, i) => `Page ${i + 1} text.`);
+
+      const { chunks, truncated } = chunkDocument(buildTextLayout(pages));
+
+      expect(chunks).toHaveLength(MAX_CHUNKS_PER_DOCUMENT);
+      expect(truncated).toBe(true);
+    });
+
+    it('should return nothing for an empty document', () => {
+      expect(chunkDocument({ text: '  ' })).toEqual({ chunks: [], truncated: false });
+    });
+  });
+
+  describe('locateQuote', () => {
+    const text = 'Either party may terminate\nthis Agreement on “thirty days” written notice.';
+
+    it('should find quotes regardless of case, line breaks and typographic quotes', () => {
+      const span = locateQuote(text, 'this agreement on "thirty days" written notice');
+
+      expect(span).not.toBeNull();
+      expect(text.slice(span!.start, span!.end)).toBe('this Agreement on “thirty days” written notice');
+    });
+
+    it('should match the longest part of an elided quote', () => {
+      const span = locateQuote(text, 'Either party ... may terminate this Agreement');
+
+      expect(text.slice(span!.start, span!.end)).toBe('may terminate\nthis Agreement');
+    });
+
+    it('should return null for quotes the passage does not contain', () => {
+      expect(locateQuote(text, 'ninety days written notice')).toBeNull();
+      expect(locateQuote(text, 'notice')).toBeNull();
+    });
+  });
+
+  describe('passageExcerpt', () => {
+    it('should cut long passages at a word boundary', () => {
+      const text = '  ' + 'word '.repeat(100);
+      const span = passageExcerpt(text, 50);
+
+      expect(span.start).toBe(2);
+      expect(text.slice(span.start, span.end)).toBe('word '.repeat(10).trim());
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  detectDocumentFormat,
+  normalizeExtractedText,
+  pdfItemsToPageText,
+  buildTextLayout,
+  isExtractionRetryDue,
+  MAX_EXTRACTION_ATTEMPTS,
+  MAX_STORED_TEXT_BYTES,
+  PdfTextItem,
+} from '../../../convex/documents/textExtraction';
+
+describe('Contract Text Extraction', () => {
+  describe('detectDocumentFormat', () => {
+    it('should detect the format from the MIME type', () => {
+      expect(detectDocumentFormat('upload', 'application/pdf')).toBe('pdf');
+      expect(
+        detectDocumentFormat('upload', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')
+      ).toBe('docx');
+      expect(detectDocumentFormat('upload', 'text/plain; charset=utf-8')).toBe('text');
+    });
+
+    it('should fall back to the file extension', () => {
+      expect(detectDocumentFormat('MSA.PDF', 'application/octet-stream')).toBe('pdf');
+      expect(detectDocumentFormat('terms.docx', '')).toBe('docx');
+    });
+
+    it('should reject formats it cannot extract', () => {
+      expect(detectDocumentFormat('legacy.doc', 'application/msword')).toBeNull();
+      expect(detectDocumentFormat('scan.png', 'image/png')).toBeNull();
+    });
+  });
+
+  describe('normalizeExtractedText', () => {
+    it('should normalize whitespace, ligatures and line endings', () => {
+      expect(normalizeExtractedText('  The Supplier   shall\r\nfulﬁl  \t orders.\r\n\r\n\r\n\r\nNext  ')).toBe(
+        'The Supplier shall\nfulfil orders.\n\nNext'
+      );
+    });
+
+    it('should rejoin words hyphenated across lines', () => {
+      expect(normalizeExtractedText('early termi-\nnation fee')).toBe('early termination fee');
+      expect(normalizeExtractedText('Non-\nCompete')).toBe('Non-\nCompete');
+    });
+  });
+
+  describe('pdfItemsToPageText', () => {
+    const item = (str: string, x: number, y: number, overrides: Partial<PdfTextItem> = {}): PdfTextItem => ({
+      str,
+      x,
+      y,
+      width: str.length * 6,
+      height: 12,
+      hasEOL: false,
+      ...overrides,
+    });
+
+    it('should join items on a line and break paragraphs on wide line gaps', () => {
+      const text = pdfItemsToPageText([
+        item('1. Governing', 72, 720),
+        item('law', 150, 720, { hasEOL: true }),
+        item('This Agreement is governed by', 72, 706, { hasEOL: true }),
+        item('the laws of Delaware.', 72, 692, { hasEOL: true }),
+        item('2. Confidentiality', 72, 660, { hasEOL: true }),
+      ]);
+
+      expect(text).toBe('1. Governing law\nThis Agreement is governed by\nthe laws of Delaware.\n\n2. Confidentiality');
+    });
+
+    it('should not insert spaces between touching items', () => {
+      expect(pdfItemsToPageText([item('Agree', 72, 720), item('ment', 102, 720)])).toBe('Agreement');
+    });
+  });
+
+  describe('buildTextLayout', () => {
+    it('should record page and paragraph offsets into the full text', () => {
+      const layout = buildTextLayout(['First clause.\n\nSecond clause.', 'Third clause.']);
+
+      expect(layout.text).toBe('First clause.\n\nSecond clause.\n\nThird clause.');
+      expect(layout.pages).toEqual([
+        { number: 1, start: 0, end: 29 },
+        { number: 2, start: 31, end: 44 },
+      ]);
+      expect(layout.paragraphs.map(p => [p.page, layout.text.slice(p.start, p.end)])).toEqual([
+        [1, 'First clause.'],
+        [1, 'Second clause.'],
+        [2, 'Third clause.'],
+      ]);
+      expect(layout.truncated).toBe(false);
+    });
+
+    it('should keep page numbering for empty pages', () => {
+      const layout = buildTextLayout(['Cover', '   ', 'Body']);
+
+      expect(layout.pages.map(p => p.number)).toEqual([1, 2, 3]);
+      expect(layout.paragraphs.map(p => p.page)).toEqual([1, 3]);
+    });
+
+    it('should stop at the stored text limit and mark the layout truncated', () => {
+      const page = 'x'.repeat(MAX_STORED_TEXT_BYTES / 2);
+      const layout = buildTextLayout([page, page, page]);
+
+      expect(layout.pages).toHaveLength(1);
+      expect(new TextEncoder().encode(layout.text).length).toBeLessThanOrEqual(MAX_STORED_TEXT_BYTES);
+      expect(layout.truncated).toBe(true);
+    });
+
+    it('should measure the stored text limit in UTF-8 bytes', () => {
+      const page = '\u6587'.repeat(MAX_STORED_TEXT_BYTES / 4);
+      const layout = buildTextLayout([page, page]);
+
+      expect(layout.pages).toHaveLength(1);
+      expect(new TextEncoder().encode(layout.text).length).toBeLessThanOrEqual(MAX_STORED_TEXT_BYTES);
+      expect(layout.truncated).toBe(true);
+    });
+  });
+
+  describe('isExtractionRetryDue', () => {
+    const failedAt = '2026-03-01T12:00:00.000Z';
+
+    it('should back off exponentially between attempts', () => {
+      expect(isExtractionRetryDue({ attempts: 1, updatedAt: failedAt }, new Date('2026-03-01T12:04:00.000Z'))).toBe(false);
+      expect(isExtractionRetryDue({ attempts: 1, updatedAt: failedAt }, new Date('2026-03-01T12:05:00.000Z'))).toBe(true);
+      expect(isExtractionRetryDue({ attempts: 2, updatedAt: failedAt }, new Date('2026-03-01T12:05:00.000Z'))).toBe(false);
+    });
+
+    it('should not retry permanent failures or exhausted attempts', () => {
+      const later = new Date('2026-03-02T12:00:00.000Z');
+      expect(isExtractionRetryDue({ attempts: 1, retryable: false, updatedAt: failedAt }, later)).toBe(false);
+      expect(isExtractionRetryDue({ attempts: MAX_EXTRACTION_ATTEMPTS, updatedAt: failedAt }, later)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  forecastBudget,
+  seasonalIndexes,
+  addMonths,
+  ForecastBudget,
+  MonthlySpend,
+} from '../../../convex/forecasting/budgetForecast';
+import { parsePaymentSchedule } from '../../../convex/agents/paymentSchedule';
+
+const annualBudget: ForecastBudget = {
+  totalBudget: 120000,
+  spentAmount: 50000,
+  committedAmount: 0,
+  startDate: '2026-01-01',
+  endDate: '2026-12-31',
+};
+
+// Jan-May at 10k a month
+const steadyHistory: MonthlySpend[] = ['01', '02', '03', '04', '05'].map(month => ({
+  month: `2026-${month}`,
+  amount: 10000,
+}));
+
+describe('Budget Forecast', () => {
+  describe('addMonths', () => {
+    it('should roll over years in both directions', () => {
+      expect(addMonths('2026-11', 3)).toBe('2027-02');
+      expect(addMonths('2026-01', -1)).toBe('2025-12');
+      expect(addMonths('2026-05', -24)).toBe('2024-05');
+    });
+  });
+
+  describe('forecastBudget', () => {
+    it('should project the run rate to the end of the period', () => {
+      const forecast = forecastBudget(annualBudget, steadyHistory, [], '2026-06-01');
+
+      expect(forecast.monthlyRunRate).toBe(10000);
+      // 50k spent plus roughly seven more months at 10k
+      expect(forecast.projectedTotal).toBeGreaterThan(115000);
+      expect(forecast.projectedTotal).toBeLessThan(121000);
+      expect(forecast.seasonalityApplied).toBe(false);
+      expect(forecast.confidence).toBe('medium');
+      expect(forecast.points[0]).toEqual({ month: '2026-01', actual: 10000 });
+      expect(forecast.points[forecast.points.length - 1]!.month).toBe('2026-12');
+    });
+
+    it('should count scheduled payments larger than the burn in their month', () => {
+      const forecast = forecastBudget(annualBudget, steadyHistory, [
+        { amount: 45000, dueDate: '2026-09-15' },
+        { amount: 5000, dueDate: '2027-01-15' }, // after the period
+        { amount: 5000, dueDate: '2026-05-15' }, // already past
+      ], '2026-06-01');
+
+      expect(forecast.scheduledRemaining).toBe(45000);
+      expect(forecast.projectedTotal).toBeGreaterThan(150000);
+      expect(forecast.expectedOverrun).not.toBeNull();
+      expect(forecast.expectedOverrun!.date.slice(0, 7)).toBe('2026-09');
+      expect(forecast.expectedOverrun!.amount).toBeCloseTo(forecast.projectedTotal - 120000, 2);
+    });
+
+    it('should date an overrun inside the month the budget runs out', () => {
+      const forecast = forecastBudget(
+        { ...annualBudget, totalBudget: 100000 },
+        steadyHistory,
+        [],
+        '2026-06-01'
+      );
+
+      // 50k left at 10k a month runs out around the end of October
+      expect(forecast.expectedOverrun!.date >= '2026-10-15').toBe(true);
+      expect(forecast.expectedOverrun!.date <= '2026-11-05').toBe(true);
+    });
+
+    it('should not report an overrun when the projection fits', () => {
+      const forecast = forecastBudget({ ...annualBudget, totalBudget: 200000 }, steadyHistory, [], '2026-06-01');
+      expect(forecast.expectedOverrun).toBeNull();
+    });
+
+    it('should keep open purchase orders as a floor', () => {
+      const forecast = forecastBudget(
+        { ...annualBudget, committedAmount: 90000 },
+        [],
+        [],
+        '2026-12-20'
+      );
+      expect(forecast.projectedTotal).toBeGreaterThanOrEqual(140000);
+      expect(forecast.lowerBound).toBeGreaterThanOrEqual(140000);
+    });
+
+    it('should widen the band with volatile history', () => {
+      const volatile = steadyHistory.map((entry, index) => ({ ...entry, amount: index % 2 ? 2000 : 18000 }));
+      const steady = forecastBudget(annualBudget, steadyHistory, [], '2026-06-01');
+      const noisy = forecastBudget(annualBudget, volatile, [], '2026-06-01');
+
+      const width = (forecast: typeof steady) => forecast.upperBound - forecast.lowerBound;
+      expect(width(noisy)).toBeGreaterThan(width(steady));
+      expect(noisy.lowerBound).toBeLessThanOrEqual(noisy.projectedTotal);
+      expect(noisy.upperBound).toBeGreaterThanOrEqual(noisy.projectedTotal);
+    });
+
+    it('should fall back to the spend so far without monthly history', () => {
+      const forecast = forecastBudget(annualBudget, [], [], '2026-07-01');
+      expect(forecast.monthlyRunRate).toBeGreaterThan(8000);
+      expect(forecast.monthlyRunRate).toBeLessThan(9000);
+      expect(forecast.confidence).toBe('low');
+    });
+
+    it('should stop projecting once the period is over', () => {
+      const forecast = forecastBudget(annualBudget, steadyHistory, [], '2027-02-01');
+      expect(forecast.projectedTotal).toBe(50000);
+      expect(forecast.points.every(point => point.projected === undefined)).toBe(true);
+    });
+  });
+
+  describe('seasonalIndexes', () => {
+    it('should need a full year and scale each calendar month', () => {
+      expect(seasonalIndexes(steadyHistory)).toBeNull();
+
+      // December spend is double the rest of the year
+      const year = Array.from({ length: 12 }, (_, index) => ({
+        month: addMonths('2025-01', index),
+        amount: index === 11 ? 22000 : 11000,
+      }));
+      const indexes = seasonalIndexes(year)!;
+      expect(indexes.get('12')).toBeCloseTo(22000 / 11916.67, 2);
+      expect(indexes.get('06')).toBeCloseTo(11000 / 11916.67, 2);
+    });
+
+    it('should raise projected spend in seasonally heavy months', () => {
+      const history = Array.from({ length: 17 }, (_, index) => ({
+        month: addMonths('2025-01', index),
+        amount: index % 12 === 11 ? 30000 : 10000,
+      }));
+      const forecast = forecastBudget(annualBudget, history, [], '2026-06-01');
+      const november = forecast.points.find(point => point.month === '2026-11')!;
+      const december = forecast.points.find(point => point.month === '2026-12')!;
+
+      expect(forecast.seasonalityApplied).toBe(true);
+      expect(december.projected! - november.projected!).toBeGreaterThan(15000);
+    });
+  });
+
+  describe('parsePaymentSchedule', () => {
+    it('should keep thousands separators and dated entries together', () => {
+      const payments = parsePaymentSchedule('$5,000 due on 2026-09-15; $12,500.00 due on Oct 1, 2026');
+      expect(payments.map(payment => payment.amount)).toEqual([5000, 12500]);
+      expect(payments[0]!.dueDate.toISOString().slice(0, 10)).toBe('2026-09-15');
+    });
+
+    it('should expand recurring payments from the given date', () => {
+      const payments = parsePaymentSchedule('Monthly payment: $2,000', new Date('2026-06-01T00:00:00Z'));
+      expect(payments).toHaveLength(12);
+      expect(payments.every(payment => payment.amount === 2000)).toBe(true);
+      expect(payments[0]!.dueDate.toISOString().slice(0, 7)).toBe('2026-07');
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  buildOpenApiDocument,
+  matchRestApiRoute,
+  parsePaginationParams,
+  MAX_PAGE_SIZE,
+  DEFAULT_PAGE_SIZE,
+  RestApiRouteSpec,
+} from '../../../convex/integrations/restApiSpec';
+
+describe('REST API Spec', () => {
+  const routes: RestApiRouteSpec[] = [
+    {
+      method: 'GET',
+      path: '/contracts',
+      operationId: 'listContracts',
+      summary: 'List contracts',
+      tag: 'Contracts',
+      scope: 'read:contracts',
+      paginated: true,
+      queryParameters: [{ name: 'status', description: 'Filter by status', schema: { type: 'string' } }],
+      responseSchema: { type: 'object' },
+    },
+    {
+      method: 'GET',
+      path: '/contracts/{id}',
+      operationId: 'getContract',
+      summary: 'Get a contract',
+      tag: 'Contracts',
+      scope: 'read:contracts',
+      responseSchema: { type: 'object' },
+    },
+    {
+      method: 'PATCH',
+      path: '/contracts/{id}',
+      operationId: 'updateContract',
+      summary: 'Update a contract',
+      tag: 'Contracts',
+      scope: 'write:contracts',
+      requestBody: { type: 'object', properties: { title: { type: 'string' } } },
+      responseSchema: { type: 'object' },
+    },
+  ];
+
+  describe('matchRestApiRoute', () => {
+    it('should match a route and extract path parameters', () => {
+      const match = matchRestApiRoute(routes, 'GET', '/api/v1/contracts/abc123');
+
+      expect(match.type).toBe('match');
+      if (match.type === 'match') {
+        expect(match.route.operationId).toBe('getContract');
+        expect(match.params).toEqual({ id: 'abc123' });
+      }
+    });
+
+    it('should prefer the route matching the request method', () => {
+      const match = matchRestApiRoute(routes, 'patch', '/api/v1/contracts/abc123');
+
+      expect(match.type === 'match' && match.route.operationId).toBe('updateContract');
+    });
+
+    it('should report allowed methods when only the path matches', () => {
+      const match = matchRestApiRoute(routes, 'DELETE', '/api/v1/contracts/abc123');
+
+      expect(match).toEqual({ type: 'method_not_allowed', allowedMethods: ['GET', 'PATCH'] });
+    });
+
+    it('should return not_found for unknown paths', () => {
+      expect(matchRestApiRoute(routes, 'GET', '/api/v1/contracts/abc/extra').type).toBe('not_found');
+      expect(matchRestApiRoute(routes, 'GET', '/api/v1/unknown').type).toBe('not_found');
+    });
+  });
+
+  describe('parsePaginationParams', () => {
+    it('should default the page size and cursor', () => {
+      expect(parsePaginationParams(new URLSearchParams())).toEqual({ limit: DEFAULT_PAGE_SIZE, cursor: null });
+    });
+
+    it('should clamp the page size', () => {
+      expect(parsePaginationParams(new URLSearchParams('limit=5000')).limit).toBe(MAX_PAGE_SIZE);
+      expect(parsePaginationParams(new URLSearchParams('limit=0')).limit).toBe(1);
+      expect(parsePaginationParams(new URLSearchParams('limit=abc')).limit).toBe(DEFAULT_PAGE_SIZE);
+    });
+
+    it('should pass the cursor through', () => {
+      expect(parsePaginationParams(new URLSearchParams('cursor=next_page')).cursor).toBe('next_page');
+    });
+  });
+
+  describe('buildOpenApiDocument', () => {
+    const document = buildOpenApiDocument(routes, { serverUrl: 'https://example.convex.site' });
+
+    it('should produce an OpenAPI 3.1 document with every route', () => {
+      expect(document.openapi).toBe('3.1.0');
+      expect(document.servers).toEqual([{ url: 'https://example.convex.site' }]);
+      expect(Object.keys(document.paths)).toEqual(['/api/v1/contracts', '/api/v1/contracts/{id}']);
+      expect(Object.keys(document.paths['/api/v1/contracts/{id}']!)).toEqual(['get', 'patch']);
+    });
+
+    it('should document scopes, auth errors and rate limits', () => {
+      const operation = document.paths['/api/v1/contracts/{id}']!.patch!;
+
+      expect(operation['x-required-scope']).toBe('write:contracts');
+      expect(operation.security).toEqual([{ bearerAuth: [] }, { apiKeyHeader: [] }]);
+      expect(Object.keys(operation.responses)).toEqual(expect.arrayContaining(['200', '400', '401', '403', '404', '429']));
+      expect(operation.requestBody!.content['application/json']!.schema.properties).toHaveProperty('title');
+    });
+
+    it('should add cursor pagination to paginated routes', () => {
+      const operation = document.paths['/api/v1/contracts']!.get!;
+      const parameterNames = operation.parameters!.map(p => p.name);
+
+      expect(parameterNames).toEqual(['status', 'limit', 'cursor']);
+      expect(operation.responses['200']).toMatchObject({
+        content: {
+          'application/json': {
+            schema: { properties: { pagination: { $ref: '#/components/schemas/Pagination' } } },
+          },
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  DEFAULT_AUTO_DISABLE_THRESHOLD,
+  getDeliveryAttemptOutcome,
+  getRetryDelay,
+  getWebhookHealthUpdate,
+  isRetryableStatus,
+} from '../../../convex/integrations/webhookDelivery';
+
+describe('Webhook Delivery Policy', () => {
+  const retryConfig = { maxRetries: 3, initialDelay: 1000, maxDelay: 5000 };
+
+  describe('isRetryableStatus', () => {
+    it('should retry network errors, timeouts, rate limiting and server errors', () => {
+      expect(isRetryableStatus(undefined)).toBe(true);
+      expect(isRetryableStatus(408)).toBe(true);
+      expect(isRetryableStatus(429)).toBe(true);
+      expect(isRetryableStatus(500)).toBe(true);
+      expect(isRetryableStatus(503)).toBe(true);
+    });
+
+    it('should not retry other client errors', () => {
+      expect(isRetryableStatus(400)).toBe(false);
+      expect(isRetryableStatus(401)).toBe(false);
+      expect(isRetryableStatus(404)).toBe(false);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double the delay for each retry up to the maximum', () => {
+      expect([0, 1, 2, 3, 4].map(retryCount => getRetryDelay(retryConfig, retryCount))).toEqual([
+        1000, 2000, 4000, 5000, 5000,
+      ]);
+    });
+  });
+
+  describe('getDeliveryAttemptOutcome', () => {
+    it('should mark successful attempts succeeded', () => {
+      expect(getDeliveryAttemptOutcome({ success: true, retryable: true }, 0, retryConfig)).toEqual({
+        status: 'succeeded',
+      });
+    });
+
+    it('should schedule a retry with backoff while retries remain', () => {
+      expect(getDeliveryAttemptOutcome({ success: false, retryable: true }, 1, retryConfig)).toEqual({
+        status: 'retrying',
+        delay: 2000,
+      });
+    });
+
+    it('should dead-letter once retries are used up', () => {
+      expect(getDeliveryAttemptOutcome({ success: false, retryable: true }, 3, retryConfig)).toEqual({
+        status: 'dead_letter',
+      });
+    });
+
+    it('should dead-letter non-retryable failures straight away', () => {
+      expect(getDeliveryAttemptOutcome({ success: false, retryable: false }, 0, retryConfig)).toEqual({
+        status: 'dead_letter',
+      });
+    });
+  });
+
+  describe('getWebhookHealthUpdate', () => {
+    const webhook = { isActive: true, failureCount: 0 };
+
+    it('should leave health unchanged while a delivery is retrying', () => {
+      expect(getWebhookHealthUpdate(webhook, { status: 'retrying', delay: 1000 })).toBeNull();
+    });
+
+    it('should reset consecutive dead letters on success', () => {
+      expect(getWebhookHealthUpdate({ ...webhook, failureCount: 3 }, { status: 'succeeded' })).toEqual({
+        failureCount: 0,
+        disable: false,
+      });
+    });
+
+    it('should disable the endpoint at the default threshold of dead letters', () => {
+      const belowThreshold = { ...webhook, failureCount: DEFAULT_AUTO_DISABLE_THRESHOLD - 2 };
+      const atThreshold = { ...webhook, failureCount: DEFAULT_AUTO_DISABLE_THRESHOLD - 1 };
+
+      expect(getWebhookHealthUpdate(belowThreshold, { status: 'dead_letter' })?.disable).toBe(false);
+      expect(getWebhookHealthUpdate(atThreshold, { status: 'dead_letter' })).toEqual({
+        failureCount: DEFAULT_AUTO_DISABLE_THRESHOLD,
+        disable: true,
+      });
+    });
+
+    it('should use the threshold configured on the webhook', () => {
+      expect(getWebhookHealthUpdate({ ...webhook, autoDisableThreshold: 1 }, { status: 'dead_letter' })?.disable).toBe(true);
+      expect(getWebhookHealthUpdate(
+        { ...webhook, failureCount: 10, autoDisableThreshold: 20 },
+        { status: 'dead_letter' }
+      )?.disable).toBe(false);
+    });
+
+    it('should not disable an endpoint that is already disabled', () => {
+      expect(getWebhookHealthUpdate(
+        { isActive: false, failureCount: 50 },
+        { status: 'dead_letter' }
+      )).toEqual({ failureCount: 51, disable: false });
+    });
+  });
+});
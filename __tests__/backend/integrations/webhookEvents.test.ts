@@ -0,0 +1,128 @@
+import {
+  createWebhookEventEnvelope,
+  emitWebhookEvent,
+  getPreviousValues,
+  WebhookEventCtx,
+} from '../../../convex/integrations/webhookEvents';
+import { Doc, Id } from '../../../convex/_generated/dataModel';
+
+jest.mock('../../../convex/_generated/api', () => ({
+  internal: { integrations: { webhooks: { attemptDelivery: 'integrations/webhooks:attemptDelivery' } } },
+}));
+
+describe('Webhook Events', () => {
+  const enterpriseId = 'enterprise_123' as Id<'enterprises'>;
+
+  describe('createWebhookEventEnvelope', () => {
+    it('should build an envelope with a unique id and timestamp', () => {
+      const first = createWebhookEventEnvelope({
+        type: 'contract.created',
+        enterpriseId,
+        data: { contractId: 'contract_1' },
+      });
+      const second = createWebhookEventEnvelope({
+        type: 'contract.created',
+        enterpriseId,
+        data: { contractId: 'contract_1' },
+      });
+
+      expect(first.id).toMatch(/^evt_[0-9a-f]{32}$/);
+      expect(first.id).not.toBe(second.id);
+      expect(first.type).toBe('contract.created');
+      expect(first.enterpriseId).toBe(enterpriseId);
+      expect(new Date(first.occurredAt).toISOString()).toBe(first.occurredAt);
+    });
+
+    it('should omit previous when nothing changed', () => {
+      const envelope = createWebhookEventEnvelope({
+        type: 'contract.updated',
+        enterpriseId,
+        data: {},
+        previous: {},
+      });
+
+      expect(envelope).not.toHaveProperty('previous');
+    });
+  });
+
+  describe('getPreviousValues', () => {
+    it('should return only the fields that changed', () => {
+      const previous = getPreviousValues(
+        { title: 'Old title', status: 'active', notes: 'same' },
+        { title: 'New title', status: 'active', notes: 'same', updatedAt: 123 }
+      );
+
+      expect(previous).toEqual({ title: 'Old title' });
+    });
+
+    it('should report newly set fields as null', () => {
+      expect(getPreviousValues({}, { vendorId: 'vendor_1' })).toEqual({ vendorId: null });
+    });
+  });
+
+  describe('emitWebhookEvent', () => {
+    const createCtx = (webhooks: Array<Pick<Doc<'webhooks'>, '_id' | 'events'>>) => {
+      const inserts: Array<{ table: string; doc: Record<string, unknown> }> = [];
+      const ctx = {
+        db: {
+          query: jest.fn().mockReturnValue({
+            withIndex: jest.fn().mockReturnValue({ collect: jest.fn().mockResolvedValue(webhooks) }),
+          }),
+          insert: jest.fn().mockImplementation(async (table: string, doc: Record<string, unknown>) => {
+            inserts.push({ table, doc });
+            return `${table}_${inserts.length}`;
+          }),
+          get: jest.fn(),
+          patch: jest.fn(),
+          replace: jest.fn(),
+          delete: jest.fn(),
+          normalizeId: jest.fn(),
+          system: { get: jest.fn(), query: jest.fn(), normalizeId: jest.fn() },
+        },
+        scheduler: { runAfter: jest.fn(), runAt: jest.fn(), cancel: jest.fn() },
+      } satisfies WebhookEventCtx;
+      return { ctx, inserts };
+    };
+
+    it('should enqueue a delivery for each subscribed webhook and record the event', async () => {
+      const { ctx, inserts } = createCtx([
+        { _id: 'webhook_1' as Id<'webhooks'>, events: ['vendor.created'] },
+        { _id: 'webhook_2' as Id<'webhooks'>, events: ['vendor.deleted'] },
+      ]);
+
+      const eventId = await emitWebhookEvent(ctx, {
+        type: 'vendor.created',
+        enterpriseId,
+        data: { vendorId: 'vendor_1' },
+      });
+
+      const deliveries = inserts.filter(i => i.table === 'webhookDeliveries');
+      expect(deliveries).toHaveLength(1);
+      expect(deliveries[0]!.doc).toMatchObject({
+        webhookId: 'webhook_1',
+        eventId,
+        event: 'vendor.created',
+        status: 'pending',
+      });
+      expect(deliveries[0]!.doc['payload']).toMatchObject({ id: eventId });
+      expect(ctx.scheduler.runAfter).toHaveBeenCalledTimes(1);
+
+      const events = inserts.filter(i => i.table === 'webhookEvents');
+      expect(events).toHaveLength(1);
+      expect(events[0]!.doc).toMatchObject({ eventId, type: 'vendor.created', deliveryCount: 1 });
+    });
+
+    it('should still record the event when no webhook is subscribed', async () => {
+      const { ctx, inserts } = createCtx([]);
+
+      await emitWebhookEvent(ctx, {
+        type: 'user.deleted',
+        enterpriseId,
+        data: { userId: 'user_1' },
+      });
+
+      expect(inserts.map(i => i.table)).toEqual(['webhookEvents']);
+      expect(ctx.scheduler.runAfter).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  computeWebhookSignature,
+  createWebhookSignatureHeader,
+  parseWebhookSignatureHeader,
+  verifyWebhookSignature,
+} from '../../../convex/integrations/webhookSignature';
+
+describe('Webhook Signatures', () => {
+  const payload = JSON.stringify({ event: 'contract.created', data: { id: 'contract_123' } });
+  const timestamp = 1700000000;
+
+  describe('computeWebhookSignature', () => {
+    it('should produce a deterministic HMAC-SHA256 hex digest', async () => {
+      const first = await computeWebhookSignature('whsec_test', timestamp, payload);
+      const second = await computeWebhookSignature('whsec_test', timestamp, payload);
+
+      expect(first).toMatch(/^[0-9a-f]{64}$/);
+      expect(first).toBe(second);
+    });
+
+    it('should change when the timestamp changes', async () => {
+      const first = await computeWebhookSignature('whsec_test', timestamp, payload);
+      const second = await computeWebhookSignature('whsec_test', timestamp + 1, payload);
+
+      expect(first).not.toBe(second);
+    });
+  });
+
+  describe('createWebhookSignatureHeader', () => {
+    it('should include one v1 entry per active secret', async () => {
+      const header = await createWebhookSignatureHeader(['whsec_new', 'whsec_old'], payload, timestamp);
+      const parsed = parseWebhookSignatureHeader(header);
+
+      expect(header.startsWith(`t=${timestamp},v1=`)).toBe(true);
+      expect(parsed?.timestamp).toBe(timestamp);
+      expect(parsed?.signatures).toHaveLength(2);
+    });
+
+    it('should require at least one secret', async () => {
+      await expect(createWebhookSignatureHeader([], payload, timestamp))
+        .rejects.toThrow('At least one signing secret is required');
+    });
+  });
+
+  describe('parseWebhookSignatureHeader', () => {
+    it('should reject headers without a timestamp or signature', () => {
+      expect(parseWebhookSignatureHeader('v1=abc')).toBeNull();
+      expect(parseWebhookSignatureHeader('t=1700000000')).toBeNull();
+      expect(parseWebhookSignatureHeader('sha256=abc')).toBeNull();
+    });
+  });
+
+  describe('verifyWebhookSignature', () => {
+    it('should accept a valid signature within tolerance', async () => {
+      const header = await createWebhookSignatureHeader(['whsec_test'], payload, timestamp);
+
+      const result = await verifyWebhookSignature({
+        payload,
+        header,
+        secret: 'whsec_test',
+        now: timestamp + 60,
+      });
+
+      expect(result).toEqual({ valid: true, timestamp });
+    });
+
+    it('should accept either secret during a rotation grace window', async () => {
+      const header = await createWebhookSignatureHeader(['whsec_new', 'whsec_old'], payload, timestamp);
+
+      const withOld = await verifyWebhookSignature({ payload, header, secret: 'whsec_old', now: timestamp });
+      const withNew = await verifyWebhookSignature({ payload, header, secret: ['whsec_new'], now: timestamp });
+
+      expect(withOld.valid).toBe(true);
+      expect(withNew.valid).toBe(true);
+    });
+
+    it('should reject a tampered payload', async () => {
+      const header = await createWebhookSignatureHeader(['whsec_test'], payload, timestamp);
+
+      const result = await verifyWebhookSignature({
+        payload: payload.replace('contract_123', 'contract_999'),
+        header,
+        secret: 'whsec_test',
+        now: timestamp,
+      });
+
+      expect(result).toEqual({ valid: false, error: 'No matching signature' });
+    });
+
+    it('should reject replayed deliveries outside the tolerance window', async () => {
+      const header = await createWebhookSignatureHeader(['whsec_test'], payload, timestamp);
+
+      const result = await verifyWebhookSignature({
+        payload,
+        header,
+        secret: 'whsec_test',
+        now: timestamp + 301,
+      });
+
+      expect(result).toEqual({ valid: false, error: 'Signature timestamp outside tolerance' });
+    });
+
+    it('should reject a missing header', async () => {
+      const result = await verifyWebhookSignature({ payload, header: null, secret: 'whsec_test' });
+
+      expect(result).toEqual({ valid: false, error: 'Missing signature header' });
+    });
+  });
+});
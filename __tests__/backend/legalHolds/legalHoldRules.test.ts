@@ -0,0 +1,94 @@
+import {
+  contractHoldSubject,
+  describeBlockingHolds,
+  findBlockingHolds,
+  LegalHoldTerms,
+  validateLegalHoldTerms,
+} from '../../../convex/legalHolds/legalHoldRules';
+
+const contractHold: LegalHoldTerms = { _id: 'hold_1', name: 'Acme dispute', scope: 'contracts', resourceIds: ['contract_1'] };
+const vendorHold: LegalHoldTerms = { _id: 'hold_2', name: 'Vendor audit', scope: 'vendors', resourceIds: ['vendor_1'] };
+const userHold: LegalHoldTerms = { _id: 'hold_3', name: 'Custodian', scope: 'users', resourceIds: ['user_1'] };
+const rangeHold: LegalHoldTerms = {
+  _id: 'hold_4',
+  name: 'Q1 investigation',
+  scope: 'dateRange',
+  resourceIds: [],
+  startDate: '2026-01-01',
+  endDate: '2026-03-31',
+};
+
+const contract = {
+  _id: 'contract_2',
+  vendorId: 'vendor_2',
+  ownerId: 'user_2',
+  createdAt: '2025-06-01T10:00:00.000Z',
+};
+
+describe('Legal Hold Rules', () => {
+  describe('findBlockingHolds', () => {
+    it('should hold a contract through itself, its vendor and its owner', () => {
+      const holds = [contractHold, vendorHold, userHold];
+
+      expect(findBlockingHolds(holds, contractHoldSubject({ ...contract, _id: 'contract_1' }))).toEqual([contractHold]);
+      expect(findBlockingHolds(holds, contractHoldSubject({ ...contract, vendorId: 'vendor_1' }))).toEqual([vendorHold]);
+      expect(findBlockingHolds(holds, contractHoldSubject({ ...contract, ownerId: 'user_1' }))).toEqual([userHold]);
+      expect(findBlockingHolds(holds, contractHoldSubject(contract))).toEqual([]);
+    });
+
+    it('should hold contracts whose term overlaps a date range', () => {
+      const inForce = contractHoldSubject({ ...contract, startDate: '2025-01-01', endDate: '2026-01-01' });
+      const ended = contractHoldSubject({ ...contract, startDate: '2024-01-01', endDate: '2025-12-31' });
+      const openEnded = contractHoldSubject(contract);
+      const startsLater = contractHoldSubject({ ...contract, extractedStartDate: '2026-04-01' });
+
+      expect(findBlockingHolds([rangeHold], inForce)).toEqual([rangeHold]);
+      expect(findBlockingHolds([rangeHold], ended)).toEqual([]);
+      expect(findBlockingHolds([rangeHold], openEnded)).toEqual([rangeHold]);
+      expect(findBlockingHolds([rangeHold], startsLater)).toEqual([]);
+    });
+
+    it('should include both ends of a range by day', () => {
+      const at = (timestamp: string) => ({ period: { start: timestamp, end: timestamp } });
+
+      expect(findBlockingHolds([rangeHold], at('2026-03-31T23:59:59.000Z'))).toEqual([rangeHold]);
+      expect(findBlockingHolds([rangeHold], at('2026-01-01T00:00:00.000Z'))).toEqual([rangeHold]);
+      expect(findBlockingHolds([rangeHold], at('2025-12-31T23:59:59.000Z'))).toEqual([]);
+    });
+
+    it('should ignore unset ids', () => {
+      expect(findBlockingHolds([vendorHold], { vendorIds: [undefined], contractIds: ['contract_1'] })).toEqual([]);
+    });
+
+    it('should hold backups taken once a range began or while anything is held', () => {
+      expect(findBlockingHolds([rangeHold], { snapshotAt: '2026-02-15T00:00:00.000Z' })).toEqual([rangeHold]);
+      expect(findBlockingHolds([rangeHold], { snapshotAt: '2027-01-01T00:00:00.000Z' })).toEqual([rangeHold]);
+      expect(findBlockingHolds([rangeHold], { snapshotAt: '2025-12-31T00:00:00.000Z' })).toEqual([]);
+      expect(findBlockingHolds([contractHold], { snapshotAt: '2020-01-01T00:00:00.000Z' })).toEqual([contractHold]);
+    });
+  });
+
+  describe('validateLegalHoldTerms', () => {
+    it('should accept complete terms', () => {
+      expect(validateLegalHoldTerms(contractHold)).toBeNull();
+      expect(validateLegalHoldTerms(rangeHold)).toBeNull();
+    });
+
+    it('should reject incomplete or mixed terms', () => {
+      expect(validateLegalHoldTerms({ ...contractHold, name: ' ' })).toBe('A legal hold needs a name');
+      expect(validateLegalHoldTerms({ ...vendorHold, resourceIds: [] })).toBe('Select the vendors the hold covers');
+      expect(validateLegalHoldTerms({ ...userHold, startDate: '2026-01-01' })).toBe('Only date range holds take dates');
+      expect(validateLegalHoldTerms({ ...rangeHold, endDate: '31/03/2026' }))
+        .toBe('A date range hold needs a start and end date (YYYY-MM-DD)');
+      expect(validateLegalHoldTerms({ ...rangeHold, startDate: '2026-04-01' }))
+        .toBe("The hold's start date must not be after its end date");
+      expect(validateLegalHoldTerms({ ...rangeHold, resourceIds: ['contract_1'] }))
+        .toBe('A date range hold cannot also name records');
+    });
+  });
+
+  it('should name every blocking hold in the refusal', () => {
+    expect(describeBlockingHolds('delete this contract', [contractHold, rangeHold]))
+      .toBe('Cannot delete this contract: under legal hold "Acme dispute", "Q1 investigation"');
+  });
+});
@@ -0,0 +1,198 @@
+import {
+  copyAgentSystems,
+  MigrationCtx,
+  scopeInsights,
+  scopeTasks,
+} from '../../../convex/migrations/scopeAgentsToEnterprises';
+import { Doc, Id } from '../../../convex/_generated/dataModel';
+
+jest.mock('../../../convex/_generated/server', () => ({
+  internalMutation: (definition: unknown) => definition,
+}));
+jest.mock('../../../convex/_generated/api', () => ({ internal: {} }));
+
+type Row = { _id: string } & Record<string, unknown>;
+
+// In-memory tables with the index equality lookups the migration uses
+const createCtx = (tables: Record<string, Row[]>) => {
+  let nextId = 0;
+  const rowsOf = (table: string) => (tables[table] ??= []);
+  const find = (id: string) => Object.values(tables).flat().find(row => row._id === id) ?? null;
+
+  const query = (table: string) => {
+    const filters: Array<[string, unknown]> = [];
+    const indexQuery = { eq: (field: string, value: unknown) => { filters.push([field, value]); return indexQuery; } };
+    const matching = () => rowsOf(table).filter(row => filters.every(([field, value]) => row[field] === value));
+    const results = {
+      first: async () => matching()[0] ?? null,
+      collect: async () => matching(),
+    };
+    return {
+      ...results,
+      withIndex: (_index: string, range: (q: typeof indexQuery) => unknown) => {
+        range(indexQuery);
+        return results;
+      },
+    };
+  };
+
+  const ctx = {
+    db: {
+      query: jest.fn().mockImplementation(query),
+      get: jest.fn().mockImplementation(async (id: string) => find(id)),
+      insert: jest.fn().mockImplementation(async (table: string, doc: Record<string, unknown>) => {
+        const id = `${table}_new_${++nextId}`;
+        rowsOf(table).push({ ...doc, _id: id });
+        return id;
+      }),
+      patch: jest.fn().mockImplementation(async (id: string, fields: Record<string, unknown>) => {
+        Object.assign(find(id)!, fields);
+      }),
+      replace: jest.fn(),
+      delete: jest.fn(),
+      normalizeId: jest.fn(),
+      system: { get: jest.fn(), query: jest.fn(), normalizeId: jest.fn() },
+    },
+  } satisfies MigrationCtx;
+  return ctx;
+};
+
+describe('scopeAgentsToEnterprises migration', () => {
+  const enterpriseA = 'enterprise_a' as Id<'enterprises'>;
+  const enterpriseB = 'enterprise_b' as Id<'enterprises'>;
+
+  const legacyAgent = (id: string, type: Doc<'agents'>['type'], extra: Record<string, unknown> = {}): Row => ({
+    _id: id,
+    _creationTime: 0,
+    name: `${type} agent`,
+    type,
+    status: 'active',
+    isEnabled: true,
+    runCount: 42,
+    errorCount: 3,
+    lastRun: '2026-01-01T00:00:00.000Z',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    ...extra,
+  });
+
+  const createTables = (): Record<string, Row[]> => ({
+    enterprises: [{ _id: enterpriseA }, { _id: enterpriseB }],
+    agentSystem: [{
+      _id: 'system_legacy',
+      isRunning: true,
+      status: 'running',
+      config: { maxConcurrentTasks: 5, taskTimeoutMinutes: 10, logRetentionDays: 7 },
+    }],
+    agents: [
+      legacyAgent('agent_manager', 'manager'),
+      legacyAgent('agent_legal', 'legal', { config: { dependencies: ['agent_manager'] } }),
+    ],
+    contracts: [{ _id: 'contract_a', enterpriseId: enterpriseA }],
+    vendors: [{ _id: 'vendor_b', enterpriseId: enterpriseB }],
+  });
+
+  describe('copyAgentSystems', () => {
+    it('should give each enterprise a system and a fresh copy of every global agent', async () => {
+      const tables = createTables();
+      const ctx = createCtx(tables);
+
+      const result = await copyAgentSystems(ctx, false);
+
+      expect(result).toEqual({ enterprises: 2, systemsCreated: 2, agentsCopied: 4 });
+      const systems = tables['agentSystem']!.filter(system => system['enterpriseId'] === enterpriseA);
+      expect(systems).toEqual([expect.objectContaining({
+        isRunning: true,
+        status: 'running',
+        config: { maxConcurrentTasks: 5, taskTimeoutMinutes: 10, logRetentionDays: 7 },
+      })]);
+
+      const copies = tables['agents']!.filter(agent => agent['enterpriseId'] === enterpriseA);
+      expect(copies).toHaveLength(2);
+      for (const copy of copies) {
+        expect(copy).toMatchObject({ status: 'active', runCount: 0, errorCount: 0 });
+        expect(copy).not.toHaveProperty('lastRun');
+      }
+    });
+
+    it('should point dependencies at the enterprise copies', async () => {
+      const tables = createTables();
+      await copyAgentSystems(createCtx(tables), false);
+
+      const copies = tables['agents']!.filter(agent => agent['enterpriseId'] === enterpriseB);
+      const manager = copies.find(agent => agent['type'] === 'manager')!;
+      const legal = copies.find(agent => agent['type'] === 'legal')!;
+      expect(legal['config']).toEqual({ dependencies: [manager._id] });
+    });
+
+    it('should keep systems and agents an enterprise already has', async () => {
+      const tables = createTables();
+      tables['agentSystem']!.push({ _id: 'system_a', enterpriseId: enterpriseA });
+      tables['agents']!.push(legacyAgent('agent_manager_a', 'manager', { enterpriseId: enterpriseA }));
+
+      const result = await copyAgentSystems(createCtx(tables), false);
+
+      expect(result).toEqual({ enterprises: 2, systemsCreated: 1, agentsCopied: 3 });
+    });
+
+    it('should only count changes in a dry run', async () => {
+      const tables = createTables();
+      const ctx = createCtx(tables);
+
+      const result = await copyAgentSystems(ctx, true);
+
+      expect(result).toEqual({ enterprises: 2, systemsCreated: 2, agentsCopied: 4 });
+      expect(ctx.db.insert).not.toHaveBeenCalled();
+      expect(ctx.db.patch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('scopeInsights and scopeTasks', () => {
+    const migratedTables = async () => {
+      const tables = createTables();
+      await copyAgentSystems(createCtx(tables), false);
+      const copyIn = (enterpriseId: Id<'enterprises'>, type: string) =>
+        tables['agents']!.find(agent => agent['enterpriseId'] === enterpriseId && agent['type'] === type)!._id;
+      return { tables, copyIn };
+    };
+
+    it('should attribute insights through their contract or vendor', async () => {
+      const { tables, copyIn } = await migratedTables();
+      tables['agentInsights'] = [
+        { _id: 'insight_contract', agentId: 'agent_legal', contractId: 'contract_a' },
+        { _id: 'insight_vendor', agentId: 'agent_legal', vendorId: 'vendor_b' },
+        { _id: 'insight_orphan', agentId: 'agent_legal' },
+      ];
+
+      const result = await scopeInsights(createCtx(tables), tables['agentInsights'] as unknown as Doc<'agentInsights'>[]);
+
+      expect(result).toEqual({ scoped: 2, unattributed: 1 });
+      expect(tables['agentInsights']).toEqual([
+        expect.objectContaining({ enterpriseId: enterpriseA, agentId: copyIn(enterpriseA, 'legal') }),
+        expect.objectContaining({ enterpriseId: enterpriseB, agentId: copyIn(enterpriseB, 'legal') }),
+        { _id: 'insight_orphan', agentId: 'agent_legal' },
+      ]);
+    });
+
+    it('should point tasks at the enterprise copies of their agents', async () => {
+      const { tables, copyIn } = await migratedTables();
+      tables['agentTasks'] = [
+        { _id: 'task_1', assignedAgentId: 'agent_legal', createdByAgentId: 'agent_manager', contractId: 'contract_a' },
+        { _id: 'task_2', assignedAgentId: 'agent_legal', vendorId: 'vendor_b' },
+      ];
+
+      const result = await scopeTasks(createCtx(tables), tables['agentTasks'] as unknown as Doc<'agentTasks'>[]);
+
+      expect(result).toEqual({ scoped: 2, unattributed: 0 });
+      expect(tables['agentTasks']![0]).toMatchObject({
+        enterpriseId: enterpriseA,
+        assignedAgentId: copyIn(enterpriseA, 'legal'),
+        createdByAgentId: copyIn(enterpriseA, 'manager'),
+      });
+      expect(tables['agentTasks']![1]).toMatchObject({
+        enterpriseId: enterpriseB,
+        assignedAgentId: copyIn(enterpriseB, 'legal'),
+      });
+      expect(tables['agentTasks']![1]).not.toHaveProperty('createdByAgentId');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  extractObligations,
+  computeObligationStatus,
+  isObligationReminderDue,
+  nextOccurrenceDate,
+  applyCompliancePenalty,
+  OVERDUE_COMPLIANCE_PENALTY,
+} from '../../../convex/obligations/obligationExtraction';
+
+describe('Contract Obligations', () => {
+  const now = new Date('2026-03-10T09:00:00.000Z');
+
+  describe('extractObligations', () => {
+    const text = [
+      '7.1 Vendor shall deliver a certificate of insurance within thirty (30) days after the Effective Date.',
+      '7.2 Supplier shall provide a monthly service level report within 10 days after the end of each month.',
+      'Customer must give written notice of non-renewal at least sixty (60) days prior to the expiration of the Initial Term.',
+      'Vendor shall not disclose Confidential Information to any third party.',
+      'This Agreement is governed by the laws of Delaware.',
+    ].join('\n\n');
+
+    const obligations = extractObligations(
+      { text, startDate: '2026-03-01', endDate: '2027-02-28' },
+      now
+    );
+
+    it('should type obligations and attribute them to the owing party', () => {
+      expect(obligations.map(o => [o.type, o.ownerParty])).toEqual([
+        ['insurance_certificate', 'counterparty'],
+        ['reporting', 'counterparty'],
+        ['notice', 'enterprise'],
+      ]);
+    });
+
+    it('should resolve due dates from the contract dates', () => {
+      expect(obligations[0]!.dueDate).toBe('2026-03-31');
+      expect(obligations[2]!.dueDate).toBe('2026-12-30');
+    });
+
+    it('should detect recurrence and set the first occurrence', () => {
+      expect(obligations[1]!.recurrence).toBe('monthly');
+      expect(obligations[1]!.dueDate).toBe('2026-04-11');
+    });
+
+    it('should record the evidence that proves fulfilment', () => {
+      expect(obligations[0]!.evidenceRequired).toBe('Certificate of insurance');
+      expect(obligations[0]!.sourceText).toContain('certificate of insurance');
+    });
+
+    it('should add the analyzed payment schedule when the text has no payment obligation', () => {
+      const [payment] = extractObligations(
+        { text: '', paymentSchedule: 'Quarterly payments in advance', startDate: '2026-01-01' },
+        now
+      );
+
+      expect(payment).toMatchObject({ type: 'payment', ownerParty: 'enterprise', recurrence: 'quarterly', dueDate: '2026-04-01' });
+    });
+  });
+
+  describe('computeObligationStatus', () => {
+    const open = { status: 'upcoming' as const, reminderDaysBefore: 7 };
+
+    it('should move through upcoming, due and overdue', () => {
+      expect(computeObligationStatus({ ...open, dueDate: '2026-03-20' }, now)).toBe('upcoming');
+      expect(computeObligationStatus({ ...open, dueDate: '2026-03-15' }, now)).toBe('due');
+      expect(computeObligationStatus({ ...open, dueDate: '2026-03-10' }, now)).toBe('due');
+      expect(computeObligationStatus({ ...open, dueDate: '2026-03-09' }, now)).toBe('overdue');
+    });
+
+    it('should keep closed statuses and treat undated obligations as upcoming', () => {
+      expect(computeObligationStatus({ ...open, status: 'waived', dueDate: '2026-01-01' }, now)).toBe('waived');
+      expect(computeObligationStatus(open, now)).toBe('upcoming');
+    });
+  });
+
+  describe('isObligationReminderDue', () => {
+    it('should remind once when due and repeatedly while overdue', () => {
+      expect(isObligationReminderDue({ status: 'due' }, now)).toBe(true);
+      expect(isObligationReminderDue({ status: 'due', lastReminderStatus: 'due', lastReminderAt: '2026-03-09T09:00:00Z' }, now)).toBe(false);
+      expect(isObligationReminderDue({ status: 'overdue', lastReminderStatus: 'due', lastReminderAt: '2026-03-09T09:00:00Z' }, now)).toBe(true);
+      expect(isObligationReminderDue({ status: 'overdue', lastReminderStatus: 'overdue', lastReminderAt: '2026-03-05T09:00:00Z' }, now)).toBe(false);
+      expect(isObligationReminderDue({ status: 'overdue', lastReminderStatus: 'overdue', lastReminderAt: '2026-03-03T09:00:00Z' }, now)).toBe(true);
+      expect(isObligationReminderDue({ status: 'upcoming' }, now)).toBe(false);
+    });
+  });
+
+  describe('nextOccurrenceDate', () => {
+    it('should advance by the recurrence, clamping to the end of short months', () => {
+      expect(nextOccurrenceDate('2026-01-31', 'monthly')).toBe('2026-02-28');
+      expect(nextOccurrenceDate('2026-11-15', 'quarterly')).toBe('2027-02-15');
+      expect(nextOccurrenceDate('2026-03-10', 'weekly')).toBe('2026-03-17');
+      expect(nextOccurrenceDate('2028-02-29', 'annually')).toBe('2029-02-28');
+    });
+  });
+
+  describe('applyCompliancePenalty', () => {
+    it('should take the penalty off and report how much was applied', () => {
+      expect(applyCompliancePenalty(85)).toEqual({ score: 85 - OVERDUE_COMPLIANCE_PENALTY, applied: OVERDUE_COMPLIANCE_PENALTY });
+      expect(applyCompliancePenalty(undefined)).toEqual({ score: 100 - OVERDUE_COMPLIANCE_PENALTY, applied: OVERDUE_COMPLIANCE_PENALTY });
+      expect(applyCompliancePenalty(4)).toEqual({ score: 0, applied: 4 });
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  extractRenewalTerms,
+  computeCancellationDeadline,
+  nextTermEndDate,
+  daysUntilDeadline,
+  dueRenewalReminder,
+  renewalReminderEscalation,
+  normalizeReminderOffsets,
+  DEFAULT_RENEWAL_REMINDER_OFFSETS,
+} from '../../../convex/renewals/renewalTerms';
+
+describe('Contract Renewal Terms', () => {
+  describe('extractRenewalTerms', () => {
+    it('should read auto-renewal, the renewal term and the notice period', () => {
+      const text = [
+        '12.1 Term. This Agreement commences on the Effective Date and continues for an initial term of one (1) year.',
+        '12.2 Renewal. Thereafter this Agreement shall automatically renew for successive one (1) year periods unless either party gives written notice of non-renewal at least ninety (90) days prior to the end of the then-current term.',
+      ].join('\n\n');
+
+      const terms = extractRenewalTerms(text);
+
+      expect(terms).toMatchObject({ isAutoRenew: true, renewalTermMonths: 12, noticePeriodDays: 90 });
+      expect(terms.sourceText).toContain('ninety (90) days');
+    });
+
+    it('should convert notice given in months', () => {
+      const terms = extractRenewalTerms('Customer may terminate this Agreement by giving three months\' written notice.');
+
+      expect(terms.noticePeriodDays).toBe(90);
+      expect(terms.isAutoRenew).toBeUndefined();
+    });
+
+    it('should ignore notice periods unrelated to ending the contract', () => {
+      expect(extractRenewalTerms('Vendor shall give 30 days\' notice of any price change to the Services.')).toEqual({});
+    });
+  });
+
+  describe('deadlines', () => {
+    it('should put the cancellation deadline a notice period before the term end', () => {
+      expect(computeCancellationDeadline('2027-01-31', 90)).toBe('2026-11-02');
+      expect(computeCancellationDeadline('2027-01-31T00:00:00.000Z')).toBe('2027-01-31');
+    });
+
+    it('should roll the term end forward, clamping to short months', () => {
+      expect(nextTermEndDate('2026-12-31')).toBe('2027-12-31');
+      expect(nextTermEndDate('2026-08-31', 6)).toBe('2027-02-28');
+    });
+
+    it('should count whole days to the deadline', () => {
+      const now = new Date('2026-10-19T23:30:00.000Z');
+      expect(daysUntilDeadline('2026-10-19', now)).toBe(0);
+      expect(daysUntilDeadline('2026-10-26', now)).toBe(7);
+      expect(daysUntilDeadline('2026-10-18', now)).toBe(-1);
+    });
+  });
+
+  describe('dueRenewalReminder', () => {
+    const now = new Date('2026-10-19T09:00:00.000Z');
+    const renewal = { cancellationDeadline: '2026-11-10', reminderOffsets: DEFAULT_RENEWAL_REMINDER_OFFSETS, remindersSent: [] as number[] };
+
+    it('should send only the most urgent reminder reached', () => {
+      expect(dueRenewalReminder(renewal, now)).toEqual({ offset: 30, daysLeft: 22, reached: [90, 60, 30] });
+    });
+
+    it('should not repeat a reminder already sent', () => {
+      expect(dueRenewalReminder({ ...renewal, remindersSent: [90, 60, 30] }, now)).toBeNull();
+      expect(dueRenewalReminder({ ...renewal, remindersSent: [90, 60, 30] }, new Date('2026-10-27T09:00:00.000Z'))?.offset).toBe(14);
+    });
+
+    it('should stop once the deadline has passed', () => {
+      expect(dueRenewalReminder(renewal, new Date('2026-11-11T09:00:00.000Z'))).toBeNull();
+    });
+  });
+
+  describe('renewalReminderEscalation', () => {
+    it('should raise priority and copy managers in the final week', () => {
+      expect(renewalReminderEscalation(60)).toEqual({ priority: 'low', escalate: false });
+      expect(renewalReminderEscalation(14)).toEqual({ priority: 'medium', escalate: false });
+      expect(renewalReminderEscalation(7)).toEqual({ priority: 'high', escalate: true });
+      expect(renewalReminderEscalation(0)).toEqual({ priority: 'critical', escalate: true });
+    });
+  });
+
+  describe('normalizeReminderOffsets', () => {
+    it('should de-duplicate and order offsets most distant first', () => {
+      expect(normalizeReminderOffsets([7, 30, 7, 120])).toEqual([120, 30, 7]);
+    });
+
+    it('should reject empty, fractional or out-of-range offsets', () => {
+      expect(() => normalizeReminderOffsets([])).toThrow();
+      expect(() => normalizeReminderOffsets([1.5])).toThrow();
+      expect(() => normalizeReminderOffsets([400])).toThrow();
+    });
+  });
+});
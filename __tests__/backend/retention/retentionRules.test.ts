@@ -0,0 +1,84 @@
+import {
+  contractRetentionStart,
+  DEFAULT_RETENTION_RULES,
+  describeRetentionRule,
+  isPastRetention,
+  retentionCutoff,
+  splitRemovablePrefix,
+  validateRetentionRules,
+} from '../../../convex/retention/retentionRules';
+
+describe('Retention Rules', () => {
+  describe('validateRetentionRules', () => {
+    it('should accept the default rules and no rules', () => {
+      expect(validateRetentionRules(DEFAULT_RETENTION_RULES)).toBeNull();
+      expect(validateRetentionRules([])).toBeNull();
+    });
+
+    it('should reject duplicate data types and unsupported actions', () => {
+      expect(validateRetentionRules([
+        { dataType: 'memories', action: 'delete', retentionDays: 30 },
+        { dataType: 'memories', action: 'delete', retentionDays: 60 },
+      ])).toBe('Memories can only have one retention rule');
+      expect(validateRetentionRules([{ dataType: 'auditLogs', action: 'anonymize', retentionDays: 400 }]))
+        .toBe('Audit logs cannot be anonymized');
+    });
+
+    it('should keep audit logs at least a year', () => {
+      expect(validateRetentionRules([{ dataType: 'auditLogs', action: 'delete', retentionDays: 364 }]))
+        .toBe('Audit logs must be kept between 365 and 36500 days');
+      expect(validateRetentionRules([{ dataType: 'auditLogs', action: 'delete', retentionDays: 365 }])).toBeNull();
+    });
+
+    it('should reject fractional or out of range days', () => {
+      expect(validateRetentionRules([{ dataType: 'agentLogs', action: 'delete', retentionDays: 1.5 }]))
+        .toBe('Agent logs must be kept between 1 and 36500 days');
+      expect(validateRetentionRules([{ dataType: 'contracts', action: 'archive', retentionDays: 0 }])).toBeNull();
+      expect(validateRetentionRules([{ dataType: 'contracts', action: 'archive', retentionDays: -1 }]))
+        .toBe('Contracts must be kept between 0 and 36500 days');
+    });
+  });
+
+  it('should put the cutoff retentionDays before now', () => {
+    const now = new Date('2026-10-19T12:00:00.000Z');
+
+    expect(retentionCutoff({ dataType: 'agentLogs', action: 'delete', retentionDays: 90 }, now))
+      .toBe('2026-07-21T12:00:00.000Z');
+  });
+
+  describe('contractRetentionStart', () => {
+    it('should count from the end date once a contract has expired', () => {
+      expect(contractRetentionStart({ status: 'expired', endDate: '2025-12-31', extractedEndDate: '2025-06-30' }))
+        .toBe('2025-12-31');
+      expect(contractRetentionStart({ status: 'terminated', extractedEndDate: '2025-06-30' })).toBe('2025-06-30');
+    });
+
+    it('should leave live or undated contracts alone', () => {
+      expect(contractRetentionStart({ status: 'active', endDate: '2020-01-01' })).toBeNull();
+      expect(contractRetentionStart({ status: 'archived' })).toBeNull();
+      expect(contractRetentionStart({})).toBeNull();
+    });
+  });
+
+  it('should compare dates by day', () => {
+    const cutoff = '2026-01-10T15:00:00.000Z';
+
+    expect(isPastRetention('2026-01-09', cutoff)).toBe(true);
+    expect(isPastRetention('2026-01-09T23:59:59.000Z', cutoff)).toBe(true);
+    expect(isPastRetention('2026-01-10', cutoff)).toBe(false);
+    expect(isPastRetention('2026-01-10T01:00:00.000Z', cutoff)).toBe(false);
+  });
+
+  it('should stop removal at the first entry that has to be kept', () => {
+    expect(splitRemovablePrefix([1, 2, 3, 4], n => n < 3)).toEqual({ removable: [1, 2], stoppedAt: 3 });
+    expect(splitRemovablePrefix([1, 2], () => true)).toEqual({ removable: [1, 2], stoppedAt: null });
+    expect(splitRemovablePrefix([5, 1], n => n < 3)).toEqual({ removable: [], stoppedAt: 5 });
+  });
+
+  it('should describe rules in plain language', () => {
+    expect(describeRetentionRule({ dataType: 'contracts', action: 'archive', retentionDays: 3650 }))
+      .toBe('Contracts are archived 3650 days after expiry');
+    expect(describeRetentionRule({ dataType: 'chatSessions', action: 'anonymize', retentionDays: 365 }))
+      .toBe('Chat sessions are anonymized 365 days after creation');
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  applyGroupPatch,
+  applyUserPatch,
+  generateScimToken,
+  hashScimToken,
+  parseFilter,
+  parsePagination,
+  parsePatchOperations,
+  parseScimUser,
+  resolveGroupAssignments,
+  ScimError,
+  ScimUserFields,
+} from '../../../convex/scim/scimProtocol';
+
+describe('SCIM Protocol', () => {
+  const alice: ScimUserFields = {
+    userName: 'alice@acme.com',
+    givenName: 'Alice',
+    familyName: 'Ng',
+    active: true,
+  };
+
+  describe('parseScimUser', () => {
+    it('should lowercase the userName and default active to true', () => {
+      const user = parseScimUser({ userName: ' Alice@Acme.com ', name: { givenName: 'Alice' } });
+
+      expect(user).toEqual({ userName: 'alice@acme.com', givenName: 'Alice', active: true });
+    });
+
+    it('should take the primary phone number', () => {
+      const user = parseScimUser({
+        userName: 'alice@acme.com',
+        phoneNumbers: [{ value: '+1 555 0101' }, { value: '+1 555 0100', primary: true }],
+      });
+
+      expect(user.phoneNumber).toBe('+1 555 0100');
+    });
+
+    it('should require an email address as userName', () => {
+      expect(() => parseScimUser({ userName: 'alice' })).toThrow('userName must be an email address');
+      expect(() => parseScimUser({})).toThrow(ScimError);
+    });
+  });
+
+  describe('parsePagination', () => {
+    it('should default and cap the page size', () => {
+      expect(parsePagination(new URLSearchParams())).toEqual({ startIndex: 1, count: 100 });
+      expect(parsePagination(new URLSearchParams('startIndex=0&count=10000'))).toEqual({ startIndex: 1, count: 500 });
+    });
+  });
+
+  describe('parseFilter', () => {
+    it('should parse eq filters with case-insensitive attribute names', () => {
+      expect(parseFilter('UserName eq "alice@acme.com"', 'user')).toEqual({ attribute: 'userName', value: 'alice@acme.com' });
+      expect(parseFilter('displayName eq "Finance \\"Ops\\""', 'group')).toEqual({ attribute: 'displayName', value: 'Finance "Ops"' });
+    });
+
+    it('should return null without a filter', () => {
+      expect(parseFilter(null, 'user')).toBeNull();
+      expect(parseFilter('  ', 'group')).toBeNull();
+    });
+
+    it('should reject other operators and attributes', () => {
+      expect(() => parseFilter('userName sw "alice"', 'user')).toThrow('Unsupported filter');
+      expect(() => parseFilter('displayName eq "Finance"', 'user')).toThrow('Cannot filter on displayName');
+    });
+  });
+
+  describe('applyUserPatch', () => {
+    it('should apply pathless Okta operations', () => {
+      const operations = parsePatchOperations({ Operations: [{ op: 'replace', value: { active: false } }] });
+
+      expect(applyUserPatch(alice, operations)).toEqual({ ...alice, active: false });
+    });
+
+    it('should apply Azure AD operations with paths and string booleans', () => {
+      const operations = parsePatchOperations({
+        Operations: [
+          { op: 'Replace', path: 'name.familyName', value: 'Jones' },
+          { op: 'Replace', path: 'active', value: 'False' },
+          { op: 'Add', path: 'title', value: 'Controller' },
+        ],
+      });
+
+      expect(applyUserPatch(alice, operations)).toEqual({ ...alice, familyName: 'Jones', title: 'Controller', active: false });
+    });
+
+    it('should clear removed attributes', () => {
+      const operations = parsePatchOperations({ Operations: [{ op: 'remove', path: 'name.givenName' }] });
+
+      expect(applyUserPatch(alice, operations).givenName).toBeUndefined();
+    });
+
+    it('should reject unknown operations', () => {
+      expect(() => parsePatchOperations({ Operations: [{ op: 'move', path: 'title' }] })).toThrow('Unsupported operation');
+      expect(() => parsePatchOperations({ Operations: [] })).toThrow('Operations are required');
+    });
+  });
+
+  describe('applyGroupPatch', () => {
+    const group = { displayName: 'Finance', memberIds: ['user_1'] };
+
+    it('should add members without duplicates', () => {
+      const operations = parsePatchOperations({
+        Operations: [{ op: 'add', path: 'members', value: [{ value: 'user_1' }, { value: 'user_2' }] }],
+      });
+
+      expect(applyGroupPatch(group, operations).memberIds).toEqual(['user_1', 'user_2']);
+    });
+
+    it('should remove members by value filter or by value list', () => {
+      const byFilter = parsePatchOperations({ Operations: [{ op: 'remove', path: 'members[value eq "user_1"]' }] });
+      const byValue = parsePatchOperations({ Operations: [{ op: 'remove', path: 'members', value: [{ value: 'user_1' }] }] });
+
+      expect(applyGroupPatch(group, byFilter).memberIds).toEqual([]);
+      expect(applyGroupPatch(group, byValue).memberIds).toEqual([]);
+    });
+
+    it('should rename the group with a pathless replace', () => {
+      const operations = parsePatchOperations({ Operations: [{ op: 'replace', value: { displayName: 'Finance Team' } }] });
+
+      expect(applyGroupPatch(group, operations)).toEqual({ displayName: 'Finance Team', memberIds: ['user_1'] });
+    });
+
+    it('should not allow removing the display name', () => {
+      const operations = parsePatchOperations({ Operations: [{ op: 'remove', path: 'displayName' }] });
+
+      expect(() => applyGroupPatch(group, operations)).toThrow('displayName is required');
+    });
+  });
+
+  describe('resolveGroupAssignments', () => {
+    it('should default to the user role', () => {
+      expect(resolveGroupAssignments([])).toEqual({ role: 'user', customRoleId: null, departmentId: null });
+    });
+
+    it('should take the highest role across groups', () => {
+      const assignments = resolveGroupAssignments([
+        { displayName: 'Viewers', role: 'viewer' },
+        { displayName: 'Managers', role: 'manager' },
+      ]);
+
+      expect(assignments.role).toBe('manager');
+    });
+
+    it('should take the custom role and department of the first group by name', () => {
+      const assignments = resolveGroupAssignments([
+        { displayName: 'Procurement', customRoleId: 'role_b', departmentId: 'dept_b' },
+        { displayName: 'Finance', customRoleId: 'role_a' },
+      ]);
+
+      expect(assignments).toEqual({ role: 'user', customRoleId: 'role_a', departmentId: 'dept_b' });
+    });
+  });
+
+  describe('tokens', () => {
+    it('should generate prefixed random tokens', () => {
+      const token = generateScimToken();
+
+      expect(token).toMatch(/^scim_[0-9a-f]{64}$/);
+      expect(generateScimToken()).not.toBe(token);
+    });
+
+    it('should hash tokens deterministically', async () => {
+      const hash = await hashScimToken('scim_test');
+
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(await hashScimToken('scim_test')).toBe(hash);
+      expect(await hashScimToken('scim_other')).not.toBe(hash);
+    });
+  });
+});
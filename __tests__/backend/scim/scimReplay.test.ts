@@ -0,0 +1,31 @@
+import { handleScimRequest } from '../../../convex/scim/scimServer';
+import { InMemoryScimStore, replayScimFixture, ScimFixture } from './scimReplay';
+import azureAd from './fixtures/azure-ad.json';
+import okta from './fixtures/okta.json';
+
+describe('SCIM Replay', () => {
+  it.each([okta, azureAd] as ScimFixture[])('should replay $name', async (fixture) => {
+    const store = new InMemoryScimStore();
+
+    const results = await replayScimFixture(fixture, (request) =>
+      handleScimRequest(store, { ...request, baseUrl: 'https://example.convex.site/scim/v2' }));
+
+    expect(results.filter(result => result.failures.length > 0)).toEqual([]);
+  });
+
+  it('should report mismatches', async () => {
+    const fixture: ScimFixture = {
+      name: 'Mismatch',
+      steps: [{
+        description: 'Expects a user that does not exist',
+        request: { method: 'GET', path: '/Users/user_1' },
+        expect: { status: 200 },
+      }],
+    };
+
+    const results = await replayScimFixture(fixture, (request) =>
+      handleScimRequest(new InMemoryScimStore(), { ...request, baseUrl: 'https://example.convex.site/scim/v2' }));
+
+    expect(results[0]!.failures[0]).toMatch(/^status: expected 200, got 404/);
+  });
+});
@@ -0,0 +1,236 @@
+import { ScimStore } from '../../../convex/scim/scimServer';
+import {
+  ScimError,
+  ScimGroupFields,
+  ScimGroupRecord,
+  ScimUserFields,
+  ScimUserRecord,
+} from '../../../convex/scim/scimProtocol';
+
+/**
+ * SCIM replay harness
+ *
+ * Replays recorded identity provider traffic (see fixtures/) step by step.
+ * Each step sends a request and checks the response against the recorded
+ * expectation: the status must match and every expected body field must be
+ * present with the same value; fields the fixture leaves out are ignored.
+ * Values can be captured from a response ("capture": { "alice": "id" }) and
+ * used in later paths and bodies as {{alice}}.
+ *
+ * The Jest suite replays fixtures against an in-memory store; the
+ * scripts/scim-replay.ts CLI replays them against a running deployment.
+ */
+
+export interface ScimFixtureStep {
+  description: string;
+  request: { method: string; path: string; body?: unknown };
+  expect: { status: number; body?: unknown };
+  capture?: Record<string, string>;
+}
+
+export interface ScimFixture {
+  name: string;
+  steps: ScimFixtureStep[];
+}
+
+export interface ScimReplayRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+export type ScimSender = (request: ScimReplayRequest) => Promise<{ status: number; body: unknown }>;
+
+export interface ScimStepResult {
+  description: string;
+  failures: string[];
+}
+
+export async function replayScimFixture(fixture: ScimFixture, send: ScimSender): Promise<ScimStepResult[]> {
+  const variables: Record<string, string> = {};
+  const results: ScimStepResult[] = [];
+
+  for (const step of fixture.steps) {
+    const [path, queryString] = substitute(step.request.path, variables).split('?');
+    const response = await send({
+      method: step.request.method,
+      path: path!,
+      query: new URLSearchParams(queryString ?? ''),
+      body: step.request.body === undefined ? null : substitute(step.request.body, variables),
+    });
+
+    const failures: string[] = [];
+    if (response.status !== step.expect.status) {
+      failures.push(`status: expected ${step.expect.status}, got ${response.status} ${JSON.stringify(response.body)}`);
+    }
+    if (step.expect.body !== undefined) {
+      failures.push(...findMismatches(response.body, substitute(step.expect.body, variables)));
+    }
+
+    for (const [name, field] of Object.entries(step.capture ?? {})) {
+      const value = (response.body as Record<string, unknown> | null)?.[field];
+      if (typeof value === 'string') {
+        variables[name] = value;
+      } else {
+        failures.push(`capture ${name}: response has no ${field}`);
+      }
+    }
+
+    results.push({ description: step.description, failures });
+  }
+
+  return results;
+}
+
+/**
+ * Paths where actual differs from expected. Objects only need the expected
+ * keys; arrays must have the same length.
+ */
+export function findMismatches(actual: unknown, expected: unknown, path = 'body'): string[] {
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      return [`${path}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+    }
+    return expected.flatMap((item, index) => findMismatches(actual[index], item, `${path}[${index}]`));
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object') {
+      return [`${path}: expected an object, got ${JSON.stringify(actual)}`];
+    }
+    return Object.entries(expected).flatMap(([key, value]) =>
+      findMismatches((actual as Record<string, unknown>)[key], value, `${path}.${key}`));
+  }
+  return actual === expected ? [] : [`${path}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+}
+
+function substitute<T>(value: T, variables: Record<string, string>): T {
+  return JSON.parse(JSON.stringify(value).replace(/\{\{(\w+)\}\}/g, (match, name: string) => variables[name] ?? match));
+}
+
+/**
+ * ScimStore keeping users and groups in memory, with the same uniqueness,
+ * deprovisioning and membership rules as convex/scim/scimData.ts
+ */
+export class InMemoryScimStore implements ScimStore {
+  private users = new Map<string, ScimUserFields & { id: string; deprovisioned: boolean; createdAt: string; updatedAt?: string }>();
+  private groups = new Map<string, ScimGroupFields & { id: string; createdAt: string; updatedAt: string }>();
+  private nextId = 1;
+
+  async listUsers() {
+    return [...this.users.values()].filter(user => !user.deprovisioned).map(user => this.toUserRecord(user.id));
+  }
+
+  async getUser(id: string) {
+    return this.users.get(id)?.deprovisioned === false ? this.toUserRecord(id) : null;
+  }
+
+  async createUser(fields: ScimUserFields) {
+    const existing = [...this.users.values()].find(user => user.userName === fields.userName);
+    if (existing && !existing.deprovisioned) {
+      throw new ScimError(409, `User ${fields.userName} already exists`, 'uniqueness');
+    }
+    const id = existing?.id ?? this.newId('user');
+    this.users.set(id, { ...fields, id, deprovisioned: false, createdAt: existing?.createdAt ?? this.now() });
+    return this.toUserRecord(id);
+  }
+
+  async replaceUser(id: string, fields: ScimUserFields) {
+    const user = this.users.get(id);
+    if (!user || user.deprovisioned) return null;
+    if ([...this.users.values()].some(other => other.id !== id && other.userName === fields.userName)) {
+      throw new ScimError(409, `User ${fields.userName} already exists`, 'uniqueness');
+    }
+    this.users.set(id, { ...fields, id, deprovisioned: false, createdAt: user.createdAt, updatedAt: this.now() });
+    return this.toUserRecord(id);
+  }
+
+  async deleteUser(id: string) {
+    const user = this.users.get(id);
+    if (!user || user.deprovisioned) return false;
+    this.users.set(id, { ...user, active: false, deprovisioned: true });
+    for (const group of this.groups.values()) {
+      group.memberIds = group.memberIds.filter(memberId => memberId !== id);
+    }
+    return true;
+  }
+
+  async listGroups() {
+    return [...this.groups.keys()].map(id => this.toGroupRecord(id));
+  }
+
+  async getGroup(id: string) {
+    return this.groups.has(id) ? this.toGroupRecord(id) : null;
+  }
+
+  async createGroup(fields: ScimGroupFields) {
+    this.assertUniqueDisplayName(fields.displayName);
+    this.assertMembers(fields.memberIds);
+    const id = this.newId('group');
+    this.groups.set(id, { ...fields, id, createdAt: this.now(), updatedAt: this.now() });
+    return this.toGroupRecord(id);
+  }
+
+  async replaceGroup(id: string, fields: ScimGroupFields) {
+    const group = this.groups.get(id);
+    if (!group) return null;
+    if (fields.displayName.toLowerCase() !== group.displayName.toLowerCase()) {
+      this.assertUniqueDisplayName(fields.displayName);
+    }
+    this.assertMembers(fields.memberIds);
+    this.groups.set(id, { ...fields, id, createdAt: group.createdAt, updatedAt: this.now() });
+    return this.toGroupRecord(id);
+  }
+
+  async deleteGroup(id: string) {
+    return this.groups.delete(id);
+  }
+
+  private toUserRecord(id: string): ScimUserRecord {
+    const { userName, externalId, givenName, familyName, title, phoneNumber, active, createdAt, updatedAt } = this.users.get(id)!;
+    return {
+      id,
+      userName,
+      active,
+      createdAt,
+      ...(externalId ? { externalId } : {}),
+      ...(givenName ? { givenName } : {}),
+      ...(familyName ? { familyName } : {}),
+      ...(title ? { title } : {}),
+      ...(phoneNumber ? { phoneNumber } : {}),
+      ...(updatedAt ? { updatedAt } : {}),
+      groups: [...this.groups.values()]
+        .filter(group => group.memberIds.includes(id))
+        .map(group => ({ id: group.id, displayName: group.displayName })),
+    };
+  }
+
+  private toGroupRecord(id: string): ScimGroupRecord {
+    const { memberIds, ...group } = this.groups.get(id)!;
+    return {
+      ...group,
+      members: memberIds.map(memberId => ({ id: memberId, display: this.users.get(memberId)!.userName })),
+    };
+  }
+
+  private assertUniqueDisplayName(displayName: string) {
+    if ([...this.groups.values()].some(group => group.displayName.toLowerCase() === displayName.toLowerCase())) {
+      throw new ScimError(409, `Group ${displayName} already exists`, 'uniqueness');
+    }
+  }
+
+  private assertMembers(memberIds: string[]) {
+    const unknown = memberIds.find(memberId => this.users.get(memberId)?.deprovisioned !== false);
+    if (unknown) {
+      throw new ScimError(400, `Member ${unknown} is not a user of this organization`, 'invalidValue');
+    }
+  }
+
+  private newId(prefix: string) {
+    return `${prefix}_${this.nextId++}`;
+  }
+
+  private now() {
+    return new Date().toISOString();
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  apiKeyAllows,
+  BUILT_IN_ROLE_PERMISSIONS,
+  hasPermission,
+  normalizeGrantPermissions,
+  normalizePermissions,
+  PermissionHolder,
+} from '../../../convex/security/permissions';
+
+const NOW = '2026-10-19T12:00:00.000Z';
+
+describe('Permissions', () => {
+  describe('hasPermission', () => {
+    it('should follow the built-in role permissions', () => {
+      const viewer: PermissionHolder = { permissions: BUILT_IN_ROLE_PERMISSIONS.viewer };
+      const owner: PermissionHolder = { permissions: BUILT_IN_ROLE_PERMISSIONS.owner };
+
+      expect(hasPermission(viewer, 'contracts.read')).toBe(true);
+      expect(hasPermission(viewer, 'contracts.approve')).toBe(false);
+      expect(hasPermission(owner, 'vendors.merge')).toBe(true);
+    });
+
+    it('should keep the built-in roles\' access to obligations and backups', () => {
+      const holder = (role: keyof typeof BUILT_IN_ROLE_PERMISSIONS): PermissionHolder => ({
+        permissions: BUILT_IN_ROLE_PERMISSIONS[role],
+      });
+
+      expect(hasPermission(holder('user'), 'obligations.manage')).toBe(true);
+      expect(hasPermission(holder('user'), 'obligations.waive')).toBe(false);
+      expect(hasPermission(holder('manager'), 'obligations.waive')).toBe(true);
+      expect(hasPermission(holder('viewer'), 'obligations.manage')).toBe(false);
+      expect(hasPermission(holder('manager'), 'backups.manage')).toBe(false);
+      expect(hasPermission(holder('admin'), 'backups.manage')).toBe(true);
+    });
+
+    it('should limit a scoped role to its departments and contract types', () => {
+      const holder: PermissionHolder = {
+        permissions: ['contracts.read', 'budgets.edit'],
+        scope: { departmentIds: ['finance', 'payables'], contractTypes: ['saas'] },
+      };
+
+      expect(hasPermission(holder, 'contracts.read', { type: 'contract', id: 'c1', departmentId: 'payables', contractType: 'saas' })).toBe(true);
+      expect(hasPermission(holder, 'contracts.read', { type: 'contract', id: 'c2', departmentId: 'legal', contractType: 'saas' })).toBe(false);
+      expect(hasPermission(holder, 'contracts.read', { type: 'contract', id: 'c3', departmentId: 'finance', contractType: 'nda' })).toBe(false);
+      expect(hasPermission(holder, 'contracts.read', { type: 'contract', id: 'c4', departmentId: 'finance' })).toBe(false);
+      expect(hasPermission(holder, 'budgets.edit', { type: 'budget', id: 'b1', departmentId: 'finance' })).toBe(true);
+    });
+
+    it('should keep records without a department in every department scope', () => {
+      const holder: PermissionHolder = { permissions: ['budgets.edit'], scope: { departmentIds: ['finance'] } };
+
+      expect(hasPermission(holder, 'budgets.edit', { type: 'budget', id: 'b1' })).toBe(true);
+    });
+
+    it('should allow a shared record whatever the role says', () => {
+      const holder: PermissionHolder = {
+        permissions: [],
+        resourceGrants: [{ resourceType: 'contract', resourceId: 'c1', permissions: ['contracts.read'] }],
+      };
+
+      expect(hasPermission(holder, 'contracts.read', { type: 'contract', id: 'c1', departmentId: 'legal' }, NOW)).toBe(true);
+      expect(hasPermission(holder, 'contracts.update', { type: 'contract', id: 'c1' }, NOW)).toBe(false);
+      expect(hasPermission(holder, 'contracts.read', { type: 'contract', id: 'c2' }, NOW)).toBe(false);
+      expect(hasPermission(holder, 'contracts.read', { type: 'vendor', id: 'c1' }, NOW)).toBe(false);
+    });
+
+    it('should ignore expired and revoked grants', () => {
+      const holder: PermissionHolder = {
+        permissions: [],
+        resourceGrants: [
+          { resourceType: 'contract', resourceId: 'c1', permissions: ['contracts.read'], expiresAt: '2026-10-01T00:00:00.000Z' },
+          { resourceType: 'contract', resourceId: 'c2', permissions: ['contracts.read'], revokedAt: '2026-10-02T00:00:00.000Z' },
+        ],
+      };
+
+      expect(hasPermission(holder, 'contracts.read', { type: 'contract', id: 'c1' }, NOW)).toBe(false);
+      expect(hasPermission(holder, 'contracts.read', { type: 'contract', id: 'c2' }, NOW)).toBe(false);
+    });
+  });
+
+  describe('apiKeyAllows', () => {
+    it('should allow routes whose scope the key holds', () => {
+      expect(apiKeyAllows(['read:contracts'], 'read:contracts')).toBe(true);
+      expect(apiKeyAllows(['read:contracts'], 'write:contracts')).toBe(false);
+      expect(apiKeyAllows(['read:vendors', 'write:contracts'], 'write:contracts')).toBe(true);
+    });
+
+    it('should fall back to exact matching for scopes outside the catalog', () => {
+      expect(apiKeyAllows(['custom:scope'], 'custom:scope')).toBe(true);
+      expect(apiKeyAllows(['read:contracts'], 'custom:scope')).toBe(false);
+    });
+  });
+
+  describe('normalizePermissions', () => {
+    it('should deduplicate permissions in catalog order', () => {
+      expect(normalizePermissions(['vendors.merge', 'contracts.approve', 'vendors.merge'])).toEqual(['contracts.approve', 'vendors.merge']);
+    });
+
+    it('should reject unknown and empty permission lists', () => {
+      expect(() => normalizePermissions(['contracts.teleport'])).toThrow('Unknown permission: contracts.teleport');
+      expect(() => normalizePermissions([])).toThrow('Select at least one permission');
+    });
+  });
+
+  describe('normalizeGrantPermissions', () => {
+    it('should only share permissions that apply to the record type', () => {
+      expect(normalizeGrantPermissions('contract', ['contracts.approve', 'contracts.read'])).toEqual(['contracts.read', 'contracts.approve']);
+      expect(() => normalizeGrantPermissions('vendor', ['contracts.read'])).toThrow('Cannot share a vendor with: contracts.read');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  checkSignIn,
+  domainVerificationRecordName,
+  getSignInPolicy,
+  hasDomainVerificationRecord,
+  isDomainVerified,
+  isSsoIdentity,
+} from '../../../convex/security/ssoPolicy';
+
+describe('SSO Policy', () => {
+  const settings = {
+    required: true,
+    protocol: 'saml' as const,
+    verificationToken: 'token123',
+    verifiedDomain: 'acme.com',
+  };
+  const enterprise = { domain: 'Acme.com', ssoSettings: settings };
+
+  describe('isDomainVerified', () => {
+    it('should require the verified domain to match the current domain', () => {
+      expect(isDomainVerified(enterprise)).toBe(true);
+      expect(isDomainVerified({ ...enterprise, domain: 'acme.io' })).toBe(false);
+      expect(isDomainVerified({ domain: 'acme.com' })).toBe(false);
+    });
+  });
+
+  describe('getSignInPolicy', () => {
+    it('should require SSO for addresses on the verified domain', () => {
+      expect(getSignInPolicy(enterprise, 'alice@ACME.com')).toEqual({ ssoRequired: true, protocol: 'saml' });
+    });
+
+    it('should not apply to other domains or unverified domains', () => {
+      expect(getSignInPolicy(enterprise, 'contractor@gmail.com')).toEqual({ ssoRequired: false });
+      expect(getSignInPolicy({ domain: 'acme.com', ssoSettings: { ...settings, verifiedDomain: undefined } }, 'alice@acme.com'))
+        .toEqual({ ssoRequired: false });
+    });
+
+    it('should not apply when SSO is optional', () => {
+      expect(getSignInPolicy({ ...enterprise, ssoSettings: { ...settings, required: false } }, 'alice@acme.com'))
+        .toEqual({ ssoRequired: false });
+    });
+  });
+
+  describe('checkSignIn', () => {
+    it('should block password sessions on the verified domain', () => {
+      expect(checkSignIn(enterprise, { email: 'alice@acme.com', auth_method: 'password' }))
+        .toBe('Single sign-on required: sign in to acme.com through your SAML identity provider');
+    });
+
+    it('should allow SSO sessions and other domains', () => {
+      expect(checkSignIn(enterprise, { email: 'alice@acme.com', auth_method: 'SAML' })).toBeNull();
+      expect(checkSignIn(enterprise, { email: 'auditor@kpmg.com' })).toBeNull();
+    });
+  });
+
+  describe('isSsoIdentity', () => {
+    it('should recognize identity provider sessions', () => {
+      expect(isSsoIdentity({ auth_method: 'oidc' })).toBe(true);
+      expect(isSsoIdentity({ auth_method: 'enterprise_sso' })).toBe(true);
+      expect(isSsoIdentity({ auth_method: 'password' })).toBe(false);
+      expect(isSsoIdentity({})).toBe(false);
+    });
+  });
+
+  describe('domain verification', () => {
+    it('should name the record under the domain', () => {
+      expect(domainVerificationRecordName('Acme.com.')).toBe('_pactwise.acme.com');
+    });
+
+    it('should find the token in quoted and split TXT values', () => {
+      expect(hasDomainVerificationRecord(['"v=spf1 -all"', '"pactwise-domain-verification=token123"'], 'token123')).toBe(true);
+      expect(hasDomainVerificationRecord(['"pactwise-domain-" "verification=token123"'], 'token123')).toBe(true);
+      expect(hasDomainVerificationRecord(['"pactwise-domain-verification=other"'], 'token123')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import {
+  normalizeSpendType,
+  parseSpendCsv,
+  contractTermBounds,
+  isWithinContractTerm,
+  selectContractForSpend,
+  spendFlags,
+  spendMatchStatus,
+  SpendContractTerms,
+} from '../../../convex/spend/spendMatching';
+import { bestVendorMatch } from '../../../convex/agents/vendorMatching';
+
+describe('Spend Matching', () => {
+  describe('normalizeSpendType', () => {
+    it('should read common spellings of invoices and purchase orders', () => {
+      expect(normalizeSpendType('Invoice')).toBe('invoice');
+      expect(normalizeSpendType('PO')).toBe('purchase_order');
+      expect(normalizeSpendType('purchase order')).toBe('purchase_order');
+      expect(normalizeSpendType('credit note')).toBeNull();
+    });
+  });
+
+  describe('parseSpendCsv', () => {
+    it('should parse rows in any column order, keeping quoted commas', () => {
+      const result = parseSpendCsv([
+        'Vendor,Amount,Date,Invoice Number,PO Number,Description',
+        '"Acme, Inc.","1,250.50",2026-10-01,INV-1,PO-9,"Licences, October"',
+        'Globex,€900,2026-10-02,INV-2,,',
+      ].join('\n'), 'USD');
+
+      expect(result.errors).toEqual([]);
+      expect(result.records).toEqual([
+        {
+          type: 'invoice',
+          documentNumber: 'INV-1',
+          poNumber: 'PO-9',
+          vendorName: 'Acme, Inc.',
+          amount: 1250.5,
+          currency: 'USD',
+          spendDate: '2026-10-01',
+          description: 'Licences, October',
+        },
+        {
+          type: 'invoice',
+          documentNumber: 'INV-2',
+          vendorName: 'Globex',
+          amount: 900,
+          currency: 'EUR',
+          spendDate: '2026-10-02',
+        },
+      ]);
+    });
+
+    it('should use the PO number as the document number for purchase orders', () => {
+      const result = parseSpendCsv('type,po_number,supplier,total,order_date\npo,PO-9,Acme,5000,2026-09-15', 'GBP');
+
+      expect(result.records).toEqual([{
+        type: 'purchase_order',
+        documentNumber: 'PO-9',
+        vendorName: 'Acme',
+        amount: 5000,
+        currency: 'GBP',
+        spendDate: '2026-09-15',
+      }]);
+    });
+
+    it('should report bad rows and a missing header', () => {
+      const result = parseSpendCsv([
+        'type,number,vendor,amount,currency,date',
+        'refund,R-1,Acme,10,USD,2026-10-01',
+        'invoice,INV-3,,10,USD,2026-10-01',
+        'invoice,INV-4,Acme,-10,USD,2026-10-01',
+        'invoice,INV-5,Acme,10,XYZ,2026-10-01',
+        'invoice,INV-6,Acme,10,USD,01/10/2026',
+      ].join('\n'), 'USD');
+
+      expect(result.records).toEqual([]);
+      expect(result.errors).toEqual([
+        'Row 2: unknown document type refund',
+        'Row 3: vendor is required',
+        'Row 4: amount must be a positive number',
+        'Row 5: unsupported currency XYZ',
+        'Row 6: date must be YYYY-MM-DD',
+      ]);
+      expect(parseSpendCsv('vendor,amount\nAcme,10', 'USD').errors[0]).toBe('CSV header is missing: date, number');
+    });
+  });
+
+  describe('contract term', () => {
+    const contract: SpendContractTerms = {
+      status: 'active',
+      startDate: '2026-01-01',
+      extractedStartDate: '2025-06-01',
+      extractedEndDate: 'December 31, 2026',
+    };
+
+    it('should prefer entered dates over extracted ones', () => {
+      expect(contractTermBounds(contract)).toEqual({ start: '2026-01-01', end: '2026-12-31' });
+    });
+
+    it('should treat unknown bounds as open', () => {
+      expect(isWithinContractTerm(contract, '2026-12-31')).toBe(true);
+      expect(isWithinContractTerm(contract, '2025-12-31')).toBe(false);
+      expect(isWithinContractTerm({ status: 'active' }, '1999-01-01')).toBe(true);
+    });
+  });
+
+  describe('selectContractForSpend', () => {
+    const previous = { id: 'previous', status: 'expired', startDate: '2025-01-01', endDate: '2025-12-31' };
+    const current = { id: 'current', status: 'active', startDate: '2026-01-01', endDate: '2026-12-31' };
+    const draft = { id: 'draft', status: 'draft', startDate: '2026-01-01' };
+
+    it('should pick the contract in force on the document date', () => {
+      expect(selectContractForSpend([previous, current, draft], '2025-11-20')?.id).toBe('previous');
+      expect(selectContractForSpend([previous, current, draft], '2026-03-01')?.id).toBe('current');
+    });
+
+    it('should fall back to an active contract and ignore drafts', () => {
+      expect(selectContractForSpend([previous, current], '2027-02-01')?.id).toBe('current');
+      expect(selectContractForSpend([previous, draft], '2027-02-01')).toBeNull();
+    });
+  });
+
+  describe('spendFlags', () => {
+    const contract: SpendContractTerms = { status: 'active', startDate: '2026-01-01', endDate: '2026-12-31' };
+
+    it('should flag invoices that take the contract over its value', () => {
+      expect(spendFlags({ type: 'invoice', amount: 400, spendDate: '2026-05-01' }, contract, 1000, 600)).toEqual([]);
+      expect(spendFlags({ type: 'invoice', amount: 400.01, spendDate: '2026-05-01' }, contract, 1000, 600))
+        .toEqual(['exceeds_contract_pricing']);
+    });
+
+    it('should flag documents outside the term and not price-check purchase orders', () => {
+      expect(spendFlags({ type: 'purchase_order', amount: 5000, spendDate: '2027-01-05' }, contract, 1000, 0))
+        .toEqual(['outside_contract_term']);
+      expect(spendFlags({ type: 'invoice', amount: 5000, spendDate: '2027-01-05' }, contract, undefined, 0))
+        .toEqual(['outside_contract_term']);
+    });
+  });
+
+  describe('matching', () => {
+    it('should match vendor names the way the vendor agent does', () => {
+      const vendors = [{ name: 'Acme Corporation' }, { name: 'Globex LLC' }];
+
+      expect(bestVendorMatch('ACME Corp.', vendors)?.vendor.name).toBe('Acme Corporation');
+      expect(bestVendorMatch('Initech', vendors)).toBeNull();
+    });
+
+    it('should report how far a document was matched', () => {
+      expect(spendMatchStatus('vendor', 'contract')).toBe('matched');
+      expect(spendMatchStatus('vendor', undefined)).toBe('vendor_only');
+      expect(spendMatchStatus(undefined, undefined)).toBe('unmatched');
+    });
+  });
+});
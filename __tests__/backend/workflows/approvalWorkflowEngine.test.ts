@@ -0,0 +1,220 @@
+import {
+  evaluateCondition,
+  selectWorkflow,
+  validateWorkflowSteps,
+  planWorkflowSteps,
+  resolveStepActor,
+  planWorkflowAdvance,
+  getContractStatusTransition,
+  assertManualStatusChangeAllowed,
+  computeStepDueAt,
+  WorkflowCondition,
+  WorkflowStepDefinition,
+  WorkflowStepState,
+} from '../../../convex/workflows/approvalWorkflowEngine';
+import { Id } from '../../../convex/_generated/dataModel';
+
+describe('Approval Workflow Engine', () => {
+  const alice = 'user_alice' as Id<'users'>;
+  const bob = 'user_bob' as Id<'users'>;
+  const carol = 'user_carol' as Id<'users'>;
+
+  const step = (overrides: Partial<WorkflowStepDefinition> = {}): WorkflowStepDefinition => ({
+    id: 'legal',
+    name: 'Legal review',
+    order: 0,
+    approvers: [{ type: 'role', role: 'manager' }],
+    ...overrides,
+  });
+
+  const stepState = (overrides: Partial<WorkflowStepState> = {}): WorkflowStepState => ({
+    stepId: 'legal',
+    order: 0,
+    status: 'pending',
+    approvers: [{ type: 'user', userId: alice }],
+    requiredApprovals: 1,
+    decisions: [],
+    delegations: [],
+    ...overrides,
+  });
+
+  describe('evaluateCondition', () => {
+    const facts = { contractValue: 150000, contractType: 'saas', vendorCategory: 'technology' };
+
+    it('should compare numeric facts', () => {
+      expect(evaluateCondition({ field: 'contractValue', operator: 'gt', value: 100000 }, facts)).toBe(true);
+      expect(evaluateCondition({ field: 'contractValue', operator: 'lte', value: 100000 }, facts)).toBe(false);
+    });
+
+    it('should match list membership', () => {
+      expect(evaluateCondition({ field: 'contractType', operator: 'in', value: ['saas', 'msa'] }, facts)).toBe(true);
+      expect(evaluateCondition({ field: 'vendorCategory', operator: 'not_in', value: ['technology'] }, facts)).toBe(false);
+    });
+
+    it('should never match a missing fact', () => {
+      expect(evaluateCondition({ field: 'departmentId', operator: 'neq', value: 'legal' }, facts)).toBe(false);
+    });
+  });
+
+  describe('selectWorkflow', () => {
+    const workflow = (name: string, priority: number, conditions: WorkflowCondition[] = [], createdAt = '2026-01-01T00:00:00.000Z') => ({
+      name,
+      approvalType: 'new_contract' as const,
+      conditions,
+      priority,
+      isActive: true,
+      createdAt,
+    });
+
+    it('should pick the highest priority matching workflow', () => {
+      const selected = selectWorkflow(
+        [
+          workflow('default', 0),
+          workflow('high value', 10, [{ field: 'contractValue', operator: 'gte', value: 100000 }]),
+          workflow('legal', 20, [{ field: 'contractType', operator: 'eq', value: 'nda' }]),
+        ],
+        'new_contract',
+        { contractValue: 250000, contractType: 'saas' }
+      );
+
+      expect(selected?.name).toBe('high value');
+    });
+
+    it('should ignore inactive workflows and other approval types', () => {
+      const selected = selectWorkflow(
+        [
+          { ...workflow('inactive', 5), isActive: false },
+          { ...workflow('renewals', 5), approvalType: 'renewal' as const },
+        ],
+        'new_contract',
+        {}
+      );
+
+      expect(selected).toBeNull();
+    });
+  });
+
+  describe('validateWorkflowSteps', () => {
+    it('should accept a valid definition', () => {
+      expect(() => validateWorkflowSteps([step(), step({ id: 'finance', order: 1, slaHours: 48 })])).not.toThrow();
+    });
+
+    it('should reject empty workflows, duplicate ids and unsatisfiable steps', () => {
+      expect(() => validateWorkflowSteps([])).toThrow('at least one step');
+      expect(() => validateWorkflowSteps([step(), step()])).toThrow('Duplicate step id');
+      expect(() => validateWorkflowSteps([step({ approvers: [] })])).toThrow('at least one approver');
+      expect(() =>
+        validateWorkflowSteps([step({ approvers: [{ type: 'user', userId: alice }], requiredApprovals: 2 })])
+      ).toThrow('more approvals than it has approvers');
+    });
+  });
+
+  describe('planWorkflowSteps', () => {
+    it('should order steps and skip those whose conditions do not match', () => {
+      const planned = planWorkflowSteps(
+        [
+          step({ id: 'cfo', order: 2, conditions: [{ field: 'contractValue', operator: 'gt', value: 500000 }] }),
+          step({ id: 'legal', order: 1 }),
+        ],
+        { contractValue: 1000 }
+      );
+
+      expect(planned.map(s => [s.id, s.status])).toEqual([
+        ['legal', 'waiting'],
+        ['cfo', 'skipped'],
+      ]);
+    });
+  });
+
+  describe('resolveStepActor', () => {
+    it('should allow listed users and users with a sufficient role', () => {
+      expect(resolveStepActor(stepState(), { userId: alice, role: 'user' })).toEqual({ allowed: true });
+      expect(
+        resolveStepActor(stepState({ approvers: [{ type: 'role', role: 'manager' }] }), { userId: bob, role: 'admin' })
+      ).toEqual({ allowed: true });
+      expect(
+        resolveStepActor(stepState({ approvers: [{ type: 'role', role: 'manager' }] }), { userId: bob, role: 'user' }).allowed
+      ).toBe(false);
+    });
+
+    it('should let a delegate act on behalf of the delegator', () => {
+      const delegated = stepState({ delegations: [{ fromUserId: alice, toUserId: bob }] });
+
+      expect(resolveStepActor(delegated, { userId: bob, role: 'user' })).toEqual({ allowed: true, onBehalfOf: alice });
+      expect(resolveStepActor(delegated, { userId: alice, role: 'user' })).toMatchObject({ allowed: false });
+    });
+
+    it('should refuse a second decision from the same approver', () => {
+      const decided = stepState({
+        approvers: [{ type: 'user', userId: alice }, { type: 'user', userId: carol }],
+        requiredApprovals: 2,
+        decisions: [{ userId: alice, decision: 'approved' }],
+      });
+
+      expect(resolveStepActor(decided, { userId: alice, role: 'user' })).toMatchObject({ allowed: false });
+      expect(resolveStepActor(decided, { userId: carol, role: 'user' })).toEqual({ allowed: true });
+    });
+
+    it('should refuse steps that are not pending', () => {
+      expect(resolveStepActor(stepState({ status: 'waiting' }), { userId: alice, role: 'owner' }).allowed).toBe(false);
+    });
+  });
+
+  describe('planWorkflowAdvance', () => {
+    it('should wait while parallel steps are pending', () => {
+      expect(
+        planWorkflowAdvance([
+          { order: 0, status: 'approved' },
+          { order: 0, status: 'pending' },
+          { order: 1, status: 'waiting' },
+        ])
+      ).toEqual({ type: 'wait' });
+    });
+
+    it('should activate the next order once the current one is done', () => {
+      expect(
+        planWorkflowAdvance([
+          { order: 0, status: 'approved' },
+          { order: 1, status: 'skipped' },
+          { order: 2, status: 'waiting' },
+          { order: 3, status: 'waiting' },
+        ])
+      ).toEqual({ type: 'activate', order: 2 });
+    });
+
+    it('should complete when nothing is left', () => {
+      expect(planWorkflowAdvance([{ order: 0, status: 'approved' }, { order: 1, status: 'skipped' }])).toEqual({ type: 'complete' });
+    });
+  });
+
+  describe('getContractStatusTransition', () => {
+    it('should hold new contracts in pending_approval until decided', () => {
+      expect(getContractStatusTransition('new_contract', 'started', 'draft', 'draft')).toBe('pending_approval');
+      expect(getContractStatusTransition('new_contract', 'approved', 'pending_approval', 'draft')).toBe('active');
+      expect(getContractStatusTransition('new_contract', 'rejected', 'pending_approval', 'draft')).toBe('draft');
+      expect(getContractStatusTransition('new_contract', 'cancelled', 'pending_approval', 'pending_analysis')).toBe('pending_analysis');
+    });
+
+    it('should only change status for approved renewals and terminations', () => {
+      expect(getContractStatusTransition('termination', 'started', 'active', 'active')).toBeNull();
+      expect(getContractStatusTransition('termination', 'approved', 'active', 'active')).toBe('terminated');
+      expect(getContractStatusTransition('renewal', 'approved', 'expired', 'expired')).toBe('active');
+      expect(getContractStatusTransition('amendment', 'approved', 'active', 'active')).toBeNull();
+    });
+  });
+
+  describe('assertManualStatusChangeAllowed', () => {
+    it('should keep pending_approval under workflow control', () => {
+      expect(() => assertManualStatusChangeAllowed('pending_approval', 'active')).toThrow('approval workflow');
+      expect(() => assertManualStatusChangeAllowed('draft', 'pending_approval')).toThrow('approval workflow');
+      expect(() => assertManualStatusChangeAllowed('draft', 'active')).not.toThrow();
+    });
+  });
+
+  describe('computeStepDueAt', () => {
+    it('should add the SLA to the activation time', () => {
+      expect(computeStepDueAt(new Date('2026-03-01T00:00:00.000Z'), 36)).toBe('2026-03-02T12:00:00.000Z');
+      expect(computeStepDueAt(new Date(), undefined)).toBeUndefined();
+    });
+  });
+});
@@ -14,22 +14,41 @@ import type {
   FunctionReference,
 } from "convex/server";
 import type * as agentMemorySharing from "../agentMemorySharing.js";
+import type * as agents_agentRuntime from "../agents/agentRuntime.js";
 import type * as agents_analytics from "../agents/analytics.js";
+import type * as agents_audit from "../agents/audit.js";
+import type * as agents_auditSampling from "../agents/auditSampling.js";
+import type * as agents_compliance from "../agents/compliance.js";
+import type * as agents_complianceRules from "../agents/complianceRules.js";
 import type * as agents_financial from "../agents/financial.js";
+import type * as agents_initializeOversightAgents from "../agents/initializeOversightAgents.js";
 import type * as agents_initializeVendorAgent from "../agents/initializeVendorAgent.js";
 import type * as agents_legal from "../agents/legal.js";
 import type * as agents_manager from "../agents/manager.js";
 import type * as agents_notifications from "../agents/notifications.js";
+import type * as agents_paymentSchedule from "../agents/paymentSchedule.js";
+import type * as agents_risk from "../agents/risk.js";
+import type * as agents_riskScoring from "../agents/riskScoring.js";
 import type * as agents_secretary from "../agents/secretary.js";
 import type * as agents_vendor from "../agents/vendor.js";
+import type * as agents_vendorMatching from "../agents/vendorMatching.js";
+import type * as ai_assistant from "../ai/assistant.js";
+import type * as ai_assistantTools from "../ai/assistantTools.js";
 import type * as ai_chat from "../ai/chat.js";
 import type * as ai_contractAnalyzer from "../ai/contractAnalyzer.js";
+import type * as ai_contractQA from "../ai/contractQA.js";
 import type * as ai_enhancedMemoryRetrieval from "../ai/enhancedMemoryRetrieval.js";
 import type * as ai_insights from "../ai/insights.js";
-import type * as ai_openai_config from "../ai/openai-config.js";
+import type * as ai_llm from "../ai/llm.js";
+import type * as ai_llmProviders from "../ai/llmProviders.js";
+import type * as ai_passageCitations from "../ai/passageCitations.js";
 import type * as ai_search from "../ai/search.js";
 import type * as ai_workingMemory from "../ai/workingMemory.js";
+import type * as amendments_amendments from "../amendments/amendments.js";
+import type * as amendments_contractLineage from "../amendments/contractLineage.js";
 import type * as analytics from "../analytics.js";
+import type * as audit_auditChain from "../audit/auditChain.js";
+import type * as audit_auditIntegrity from "../audit/auditIntegrity.js";
 import type * as audit_auditLogs from "../audit/auditLogs.js";
 import type * as auditLogging from "../auditLogging.js";
 import type * as backup_backupFunctions from "../backup/backupFunctions.js";
@@ -38,7 +57,12 @@ import type * as backup_backupToS3 from "../backup/backupToS3.js";
 import type * as backup_monitoring from "../backup/monitoring.js";
 import type * as budgets from "../budgets.js";
 import type * as cache from "../cache.js";
+import type * as clauses_clauseComparison from "../clauses/clauseComparison.js";
+import type * as clauses_clauseLibrary from "../clauses/clauseLibrary.js";
 import type * as collaborativeDocuments from "../collaborativeDocuments.js";
+import type * as consolidation_consolidation from "../consolidation/consolidation.js";
+import type * as consolidation_consolidationRules from "../consolidation/consolidationRules.js";
+import type * as consolidation_policies from "../consolidation/policies.js";
 import type * as contracts_optimized from "../contracts-optimized.js";
 import type * as contracts_with_monitoring from "../contracts-with-monitoring.js";
 import type * as contracts from "../contracts.js";
@@ -47,10 +71,18 @@ import type * as core_index from "../core/index.js";
 import type * as core_vendors_vendors from "../core/vendors/vendors.js";
 import type * as coreUsers from "../coreUsers.js";
 import type * as crons from "../crons.js";
+import type * as currency_currencyConversion from "../currency/currencyConversion.js";
+import type * as currency_fxRates from "../currency/fxRates.js";
 import type * as dashboard_batchedQueries from "../dashboard/batchedQueries.js";
 import type * as dashboardPreferences from "../dashboardPreferences.js";
 import type * as demo from "../demo.js";
 import type * as departments from "../departments.js";
+import type * as documents_chunking from "../documents/chunking.js";
+import type * as documents_contractIndex from "../documents/contractIndex.js";
+import type * as documents_contractTexts from "../documents/contractTexts.js";
+import type * as documents_extractContractText from "../documents/extractContractText.js";
+import type * as documents_indexContractDocuments from "../documents/indexContractDocuments.js";
+import type * as documents_textExtraction from "../documents/textExtraction.js";
 import type * as enhancedMemoryIntegration from "../enhancedMemoryIntegration.js";
 import type * as enterprises from "../enterprises.js";
 import type * as events from "../events.js";
@@ -59,11 +91,24 @@ import type * as features_collaborative_collaborativeDocuments from "../features
 import type * as features_demo from "../features/demo.js";
 import type * as features_index from "../features/index.js";
 import type * as features_search_search from "../features/search/search.js";
+import type * as forecasting_budgetForecast from "../forecasting/budgetForecast.js";
+import type * as forecasting_forecasts from "../forecasting/forecasts.js";
 import type * as gdpr_dataExport from "../gdpr/dataExport.js";
 import type * as http from "../http.js";
 import type * as integrations_apiKeys from "../integrations/apiKeys.js";
+import type * as integrations_restApi from "../integrations/restApi.js";
+import type * as integrations_restApiData from "../integrations/restApiData.js";
+import type * as integrations_restApiSpec from "../integrations/restApiSpec.js";
+import type * as integrations_webhookDelivery from "../integrations/webhookDelivery.js";
+import type * as integrations_webhookEvents from "../integrations/webhookEvents.js";
+import type * as integrations_webhookSignature from "../integrations/webhookSignature.js";
 import type * as integrations_webhooks from "../integrations/webhooks.js";
+import type * as legalHolds_legalHoldRules from "../legalHolds/legalHoldRules.js";
+import type * as legalHolds_legalHolds from "../legalHolds/legalHolds.js";
 import type * as lib_convexCache from "../lib/convexCache.js";
+import type * as lib_departmentHierarchy from "../lib/departmentHierarchy.js";
+import type * as lib_crypto from "../lib/crypto.js";
+import type * as lib_documentFields from "../lib/documentFields.js";
 import type * as lib_dataLoader from "../lib/dataLoader.js";
 import type * as lib_queryPerformance from "../lib/queryPerformance.js";
 import type * as maintenance_contractMaintenance from "../maintenance/contractMaintenance.js";
@@ -77,11 +122,15 @@ import type * as memoryMaintenance from "../memoryMaintenance.js";
 import type * as memoryShortTerm from "../memoryShortTerm.js";
 import type * as memoryTest from "../memoryTest.js";
 import type * as migrations_addContractOwnership from "../migrations/addContractOwnership.js";
+import type * as migrations_migrateDepartments from "../migrations/migrateDepartments.js";
 import type * as migrations_schemaOptimization from "../migrations/schemaOptimization.js";
+import type * as migrations_scopeAgentsToEnterprises from "../migrations/scopeAgentsToEnterprises.js";
 import type * as monitoring_performanceMonitoring from "../monitoring/performanceMonitoring.js";
 import type * as monitoring_systemHealth from "../monitoring/systemHealth.js";
 import type * as monitoring from "../monitoring.js";
 import type * as notifications from "../notifications.js";
+import type * as obligations_obligationExtraction from "../obligations/obligationExtraction.js";
+import type * as obligations_obligations from "../obligations/obligations.js";
 import type * as onboarding from "../onboarding.js";
 import type * as onboardingActions from "../onboardingActions.js";
 import type * as onboardingConstants from "../onboardingConstants.js";
@@ -98,6 +147,11 @@ import type * as realtime_realtime from "../realtime/realtime.js";
 import type * as realtime_realtimeHelpers from "../realtime/realtimeHelpers.js";
 import type * as realtime_userEvents from "../realtime/userEvents.js";
 import type * as realtime from "../realtime.js";
+import type * as renewals_renewalTerms from "../renewals/renewalTerms.js";
+import type * as renewals_renewals from "../renewals/renewals.js";
+import type * as retention_retentionEnforcement from "../retention/retentionEnforcement.js";
+import type * as retention_retentionPolicies from "../retention/retentionPolicies.js";
+import type * as retention_retentionRules from "../retention/retentionRules.js";
 import type * as schema_optimized from "../schema_optimized.js";
 import type * as schemas_agent_schema from "../schemas/agent_schema.js";
 import type * as schemas_collaborative_documents_schema from "../schemas/collaborative_documents_schema.js";
@@ -105,23 +159,34 @@ import type * as schemas_episodic_memory_schema from "../schemas/episodic_memory
 import type * as schemas_memory_schema from "../schemas/memory_schema.js";
 import type * as schemas_memory_sharing_schema from "../schemas/memory_sharing_schema.js";
 import type * as schemas_notification_schema from "../schemas/notification_schema.js";
+import type * as scim_provisioning from "../scim/provisioning.js";
+import type * as scim_scim from "../scim/scim.js";
+import type * as scim_scimData from "../scim/scimData.js";
+import type * as scim_scimProtocol from "../scim/scimProtocol.js";
+import type * as scim_scimServer from "../scim/scimServer.js";
 import type * as search from "../search.js";
 import type * as security_applyRateLimit from "../security/applyRateLimit.js";
 import type * as security_inputSanitization from "../security/inputSanitization.js";
 import type * as security_monitoring from "../security/monitoring.js";
+import type * as security_permissions from "../security/permissions.js";
 import type * as security_rateLimitStatus from "../security/rateLimitStatus.js";
 import type * as security_rateLimitedExamples from "../security/rateLimitedExamples.js";
 import type * as security_rateLimitedWrapper from "../security/rateLimitedWrapper.js";
 import type * as security_rateLimiting from "../security/rateLimiting.js";
+import type * as security_roles from "../security/roles.js";
 import type * as security_rowLevelSecurity from "../security/rowLevelSecurity.js";
 import type * as security_secureContractOperations from "../security/secureContractOperations.js";
 import type * as security_secureWrapper from "../security/secureWrapper.js";
+import type * as security_sso from "../security/sso.js";
+import type * as security_ssoPolicy from "../security/ssoPolicy.js";
 import type * as server from "../server.js";
 import type * as shared_agent_types from "../shared/agent_types.js";
 import type * as shared_index from "../shared/index.js";
 import type * as shared_monitoring from "../shared/monitoring.js";
 import type * as shared_notifications from "../shared/notifications.js";
 import type * as shared_types from "../shared/types.js";
+import type * as spend_spend from "../spend/spend.js";
+import type * as spend_spendMatching from "../spend/spendMatching.js";
 import type * as stripe_checkout from "../stripe/checkout.js";
 import type * as stripe_config from "../stripe/config.js";
 import type * as stripe_customers from "../stripe/customers.js";
@@ -139,6 +204,8 @@ import type * as users from "../users.js";
 import type * as vectorEmbeddings from "../vectorEmbeddings.js";
 import type * as vendors_optimized from "../vendors-optimized.js";
 import type * as vendors from "../vendors.js";
+import type * as workflows_approvalWorkflowEngine from "../workflows/approvalWorkflowEngine.js";
+import type * as workflows_approvalWorkflows from "../workflows/approvalWorkflows.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -150,22 +217,41 @@ import type * as vendors from "../vendors.js";
  */
 declare const fullApi: ApiFromModules<{
   agentMemorySharing: typeof agentMemorySharing;
+  "agents/agentRuntime": typeof agents_agentRuntime;
   "agents/analytics": typeof agents_analytics;
+  "agents/audit": typeof agents_audit;
+  "agents/auditSampling": typeof agents_auditSampling;
+  "agents/compliance": typeof agents_compliance;
+  "agents/complianceRules": typeof agents_complianceRules;
   "agents/financial": typeof agents_financial;
+  "agents/initializeOversightAgents": typeof agents_initializeOversightAgents;
   "agents/initializeVendorAgent": typeof agents_initializeVendorAgent;
   "agents/legal": typeof agents_legal;
   "agents/manager": typeof agents_manager;
   "agents/notifications": typeof agents_notifications;
+  "agents/paymentSchedule": typeof agents_paymentSchedule;
+  "agents/risk": typeof agents_risk;
+  "agents/riskScoring": typeof agents_riskScoring;
   "agents/secretary": typeof agents_secretary;
   "agents/vendor": typeof agents_vendor;
+  "agents/vendorMatching": typeof agents_vendorMatching;
+  "ai/assistant": typeof ai_assistant;
+  "ai/assistantTools": typeof ai_assistantTools;
   "ai/chat": typeof ai_chat;
   "ai/contractAnalyzer": typeof ai_contractAnalyzer;
+  "ai/contractQA": typeof ai_contractQA;
   "ai/enhancedMemoryRetrieval": typeof ai_enhancedMemoryRetrieval;
   "ai/insights": typeof ai_insights;
-  "ai/openai-config": typeof ai_openai_config;
+  "ai/llm": typeof ai_llm;
+  "ai/llmProviders": typeof ai_llmProviders;
+  "ai/passageCitations": typeof ai_passageCitations;
   "ai/search": typeof ai_search;
   "ai/workingMemory": typeof ai_workingMemory;
+  "amendments/amendments": typeof amendments_amendments;
+  "amendments/contractLineage": typeof amendments_contractLineage;
   analytics: typeof analytics;
+  "audit/auditChain": typeof audit_auditChain;
+  "audit/auditIntegrity": typeof audit_auditIntegrity;
   "audit/auditLogs": typeof audit_auditLogs;
   auditLogging: typeof auditLogging;
   "backup/backupFunctions": typeof backup_backupFunctions;
@@ -174,7 +260,12 @@ declare const fullApi: ApiFromModules<{
   "backup/monitoring": typeof backup_monitoring;
   budgets: typeof budgets;
   cache: typeof cache;
+  "clauses/clauseComparison": typeof clauses_clauseComparison;
+  "clauses/clauseLibrary": typeof clauses_clauseLibrary;
   collaborativeDocuments: typeof collaborativeDocuments;
+  "consolidation/consolidation": typeof consolidation_consolidation;
+  "consolidation/consolidationRules": typeof consolidation_consolidationRules;
+  "consolidation/policies": typeof consolidation_policies;
   "contracts-optimized": typeof contracts_optimized;
   "contracts-with-monitoring": typeof contracts_with_monitoring;
   contracts: typeof contracts;
@@ -183,10 +274,18 @@ declare const fullApi: ApiFromModules<{
   "core/vendors/vendors": typeof core_vendors_vendors;
   coreUsers: typeof coreUsers;
   crons: typeof crons;
+  "currency/currencyConversion": typeof currency_currencyConversion;
+  "currency/fxRates": typeof currency_fxRates;
   "dashboard/batchedQueries": typeof dashboard_batchedQueries;
   dashboardPreferences: typeof dashboardPreferences;
   demo: typeof demo;
   departments: typeof departments;
+  "documents/chunking": typeof documents_chunking;
+  "documents/contractIndex": typeof documents_contractIndex;
+  "documents/contractTexts": typeof documents_contractTexts;
+  "documents/extractContractText": typeof documents_extractContractText;
+  "documents/indexContractDocuments": typeof documents_indexContractDocuments;
+  "documents/textExtraction": typeof documents_textExtraction;
   enhancedMemoryIntegration: typeof enhancedMemoryIntegration;
   enterprises: typeof enterprises;
   events: typeof events;
@@ -195,11 +294,24 @@ declare const fullApi: ApiFromModules<{
   "features/demo": typeof features_demo;
   "features/index": typeof features_index;
   "features/search/search": typeof features_search_search;
+  "forecasting/budgetForecast": typeof forecasting_budgetForecast;
+  "forecasting/forecasts": typeof forecasting_forecasts;
   "gdpr/dataExport": typeof gdpr_dataExport;
   http: typeof http;
   "integrations/apiKeys": typeof integrations_apiKeys;
+  "integrations/restApi": typeof integrations_restApi;
+  "integrations/restApiData": typeof integrations_restApiData;
+  "integrations/restApiSpec": typeof integrations_restApiSpec;
+  "integrations/webhookDelivery": typeof integrations_webhookDelivery;
+  "integrations/webhookEvents": typeof integrations_webhookEvents;
+  "integrations/webhookSignature": typeof integrations_webhookSignature;
   "integrations/webhooks": typeof integrations_webhooks;
+  "legalHolds/legalHoldRules": typeof legalHolds_legalHoldRules;
+  "legalHolds/legalHolds": typeof legalHolds_legalHolds;
   "lib/convexCache": typeof lib_convexCache;
+  "lib/departmentHierarchy": typeof lib_departmentHierarchy;
+  "lib/crypto": typeof lib_crypto;
+  "lib/documentFields": typeof lib_documentFields;
   "lib/dataLoader": typeof lib_dataLoader;
   "lib/queryPerformance": typeof lib_queryPerformance;
   "maintenance/contractMaintenance": typeof maintenance_contractMaintenance;
@@ -213,11 +325,15 @@ declare const fullApi: ApiFromModules<{
   memoryShortTerm: typeof memoryShortTerm;
   memoryTest: typeof memoryTest;
   "migrations/addContractOwnership": typeof migrations_addContractOwnership;
+  "migrations/migrateDepartments": typeof migrations_migrateDepartments;
   "migrations/schemaOptimization": typeof migrations_schemaOptimization;
+  "migrations/scopeAgentsToEnterprises": typeof migrations_scopeAgentsToEnterprises;
   "monitoring/performanceMonitoring": typeof monitoring_performanceMonitoring;
   "monitoring/systemHealth": typeof monitoring_systemHealth;
   monitoring: typeof monitoring;
   notifications: typeof notifications;
+  "obligations/obligationExtraction": typeof obligations_obligationExtraction;
+  "obligations/obligations": typeof obligations_obligations;
   onboarding: typeof onboarding;
   onboardingActions: typeof onboardingActions;
   onboardingConstants: typeof onboardingConstants;
@@ -234,6 +350,11 @@ declare const fullApi: ApiFromModules<{
   "realtime/realtimeHelpers": typeof realtime_realtimeHelpers;
   "realtime/userEvents": typeof realtime_userEvents;
   realtime: typeof realtime;
+  "renewals/renewalTerms": typeof renewals_renewalTerms;
+  "renewals/renewals": typeof renewals_renewals;
+  "retention/retentionEnforcement": typeof retention_retentionEnforcement;
+  "retention/retentionPolicies": typeof retention_retentionPolicies;
+  "retention/retentionRules": typeof retention_retentionRules;
   schema_optimized: typeof schema_optimized;
   "schemas/agent_schema": typeof schemas_agent_schema;
   "schemas/collaborative_documents_schema": typeof schemas_collaborative_documents_schema;
@@ -241,23 +362,34 @@ declare const fullApi: ApiFromModules<{
   "schemas/memory_schema": typeof schemas_memory_schema;
   "schemas/memory_sharing_schema": typeof schemas_memory_sharing_schema;
   "schemas/notification_schema": typeof schemas_notification_schema;
+  "scim/provisioning": typeof scim_provisioning;
+  "scim/scim": typeof scim_scim;
+  "scim/scimData": typeof scim_scimData;
+  "scim/scimProtocol": typeof scim_scimProtocol;
+  "scim/scimServer": typeof scim_scimServer;
   search: typeof search;
   "security/applyRateLimit": typeof security_applyRateLimit;
   "security/inputSanitization": typeof security_inputSanitization;
   "security/monitoring": typeof security_monitoring;
+  "security/permissions": typeof security_permissions;
   "security/rateLimitStatus": typeof security_rateLimitStatus;
   "security/rateLimitedExamples": typeof security_rateLimitedExamples;
   "security/rateLimitedWrapper": typeof security_rateLimitedWrapper;
   "security/rateLimiting": typeof security_rateLimiting;
+  "security/roles": typeof security_roles;
   "security/rowLevelSecurity": typeof security_rowLevelSecurity;
   "security/secureContractOperations": typeof security_secureContractOperations;
   "security/secureWrapper": typeof security_secureWrapper;
+  "security/sso": typeof security_sso;
+  "security/ssoPolicy": typeof security_ssoPolicy;
   server: typeof server;
   "shared/agent_types": typeof shared_agent_types;
   "shared/index": typeof shared_index;
   "shared/monitoring": typeof shared_monitoring;
   "shared/notifications": typeof shared_notifications;
   "shared/types": typeof shared_types;
+  "spend/spend": typeof spend_spend;
+  "spend/spendMatching": typeof spend_spendMatching;
   "stripe/checkout": typeof stripe_checkout;
   "stripe/config": typeof stripe_config;
   "stripe/customers": typeof stripe_customers;
@@ -275,6 +407,8 @@ declare const fullApi: ApiFromModules<{
   vectorEmbeddings: typeof vectorEmbeddings;
   "vendors-optimized": typeof vendors_optimized;
   vendors: typeof vendors;
+  "workflows/approvalWorkflowEngine": typeof workflows_approvalWorkflowEngine;
+  "workflows/approvalWorkflows": typeof workflows_approvalWorkflows;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
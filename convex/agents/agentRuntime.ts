@@ -0,0 +1,144 @@
+import { ConvexError } from "convex/values";
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import type { AgentType } from "../schemas/agent_schema";
+
+/**
+ * Agent runtime scoping
+ *
+ * Every enterprise runs its own agent system: a system row, agents, task
+ * queue, insights and logs, all carrying the enterprise's id. Agents find
+ * each other, and the data they work on, within their own enterprise only, so
+ * starting, stopping or reconfiguring agents affects a single tenant.
+ */
+
+export const DEFAULT_AGENT_SYSTEM_CONFIG = {
+  maxConcurrentTasks: 10,
+  taskTimeoutMinutes: 30,
+  logRetentionDays: 30,
+};
+
+export async function getAgentSystem(
+  ctx: Pick<QueryCtx, "db">,
+  enterpriseId: Id<"enterprises">
+): Promise<Doc<"agentSystem"> | null> {
+  return await ctx.db
+    .query("agentSystem")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+    .first();
+}
+
+/**
+ * The enterprise's agent of a type, preferring an enabled one
+ */
+export async function getEnterpriseAgent(
+  ctx: Pick<QueryCtx, "db">,
+  enterpriseId: Id<"enterprises">,
+  type: AgentType
+): Promise<Doc<"agents"> | null> {
+  const agents = await ctx.db
+    .query("agents")
+    .withIndex("by_enterprise_type", (q) => q.eq("enterpriseId", enterpriseId).eq("type", type))
+    .collect();
+  return agents.find(agent => agent.isEnabled) ?? agents[0] ?? null;
+}
+
+/**
+ * The enterprise an agent works for. Agents created before agents were
+ * per-enterprise have none and must be migrated before they can run.
+ */
+export async function getAgentEnterpriseId(
+  ctx: QueryCtx,
+  agentId: Id<"agents">
+): Promise<Id<"enterprises">> {
+  const agent = await ctx.db.get(agentId);
+  if (!agent) {
+    throw new ConvexError("Agent not found");
+  }
+  if (!agent.enterpriseId) {
+    throw new ConvexError(`Agent ${agent.name} belongs to no enterprise; run migrations/scopeAgentsToEnterprises`);
+  }
+  return agent.enterpriseId;
+}
+
+export interface AgentRunResult {
+  dataProcessed: number; // Records the run looked at
+  insightsGenerated: number;
+}
+
+/**
+ * Run an agent's work with the bookkeeping every run shares: start and
+ * failure logs, busy / active / error status, run counts and metrics.
+ * Failures are recorded and returned rather than rethrown so the log and
+ * error status are kept; agents run this way must leave consistent data when
+ * stopped partway.
+ */
+export async function runAgent<T extends AgentRunResult>(
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  label: string,
+  work: (enterpriseId: Id<"enterprises">) => Promise<T>
+): Promise<({ success: true } & T) | { success: false; error: string }> {
+  const startTime = Date.now();
+  const enterpriseId = await getAgentEnterpriseId(ctx, agentId);
+
+  await ctx.db.insert("agentLogs", {
+    agentId,
+    enterpriseId,
+    level: "info",
+    message: `${label} starting run`,
+    timestamp: new Date().toISOString(),
+    category: "agent_execution",
+  });
+  await ctx.db.patch(agentId, { status: "busy", lastRun: new Date().toISOString() });
+
+  let result: T;
+  try {
+    result = await work(enterpriseId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await ctx.db.insert("agentLogs", {
+      agentId,
+      enterpriseId,
+      level: "error",
+      message: `${label} failed`,
+      data: { error: message },
+      timestamp: new Date().toISOString(),
+      category: "agent_execution",
+    });
+
+    const agent = await ctx.db.get(agentId);
+    if (agent) {
+      const metrics = agent.metrics ?? { totalRuns: 0, successfulRuns: 0, failedRuns: 0, averageRunTime: 0 };
+      await ctx.db.patch(agentId, {
+        status: "error",
+        errorCount: agent.errorCount + 1,
+        lastError: message,
+        metrics: { ...metrics, totalRuns: metrics.totalRuns + 1, failedRuns: metrics.failedRuns + 1 },
+      });
+    }
+    return { success: false, error: message };
+  }
+
+  const agent = await ctx.db.get(agentId);
+  if (agent) {
+    const runTime = Date.now() - startTime;
+    const metrics = agent.metrics ?? { totalRuns: 0, successfulRuns: 0, failedRuns: 0, averageRunTime: 0 };
+    await ctx.db.patch(agentId, {
+      status: "active",
+      lastSuccess: new Date().toISOString(),
+      runCount: agent.runCount + 1,
+      metrics: {
+        ...metrics,
+        totalRuns: metrics.totalRuns + 1,
+        successfulRuns: metrics.successfulRuns + 1,
+        averageRunTime: (metrics.averageRunTime * metrics.successfulRuns + runTime) / (metrics.successfulRuns + 1),
+        lastRunDuration: runTime,
+        dataProcessed: (metrics.dataProcessed ?? 0) + result.dataProcessed,
+        insightsGenerated: (metrics.insightsGenerated ?? 0) + result.insightsGenerated,
+      },
+    });
+  }
+
+  return { success: true, ...result };
+}
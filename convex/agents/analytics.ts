@@ -1,8 +1,13 @@
 // convex/agents/analytics.ts
-import { internalMutation, internalQuery, type MutationCtx } from "../_generated/server";
+import { internalMutation, internalQuery, type MutationCtx, type QueryCtx } from "../_generated/server";
 import { v } from "convex/values";
 import { Id, Doc } from "../_generated/dataModel";
 import { ContractAnalytics, VendorAnalytics, MonthlyTrend, VendorMetric, ContractStatus, VendorCategory } from "../shared/types";
+import { emitWebhookEvent } from "../integrations/webhookEvents";
+import { CurrencyConverter } from "../currency/fxRates";
+import { DEFAULT_CURRENCY, parseAmount } from "../currency/currencyConversion";
+import { UNASSIGNED_DEPARTMENT } from "../lib/departmentHierarchy";
+import { getAgentEnterpriseId } from "./agentRuntime";
 
 /**
  * Analytics Agent
@@ -103,10 +108,12 @@ export const run = internalMutation({
   },
   handler: async (ctx, args) => {
     const startTime = Date.now();
+    const enterpriseId = await getAgentEnterpriseId(ctx, args.agentId);
     
     try {
       await ctx.db.insert("agentLogs", {
         agentId: args.agentId,
+        enterpriseId,
         level: "info",
         message: "Analytics agent starting run",
         timestamp: new Date().toISOString(),
@@ -119,28 +126,28 @@ export const run = internalMutation({
       });
 
       // Calculate KPIs
-      const kpisCalculated = await calculateKPIs(ctx, args.agentId);
+      const kpisCalculated = await calculateKPIs(ctx, args.agentId, enterpriseId);
       
       // Analyze contract metrics
-      const contractInsights = await analyzeContractMetrics(ctx, args.agentId);
+      const contractInsights = await analyzeContractMetrics(ctx, args.agentId, enterpriseId);
       
       // Analyze vendor performance
-      const vendorInsights = await analyzeVendorPerformance(ctx, args.agentId);
+      const vendorInsights = await analyzeVendorPerformance(ctx, args.agentId, enterpriseId);
       
       // Analyze financial trends
-      const financialInsights = await analyzeFinancialTrends(ctx, args.agentId);
+      const financialInsights = await analyzeFinancialTrends(ctx, args.agentId, enterpriseId);
       
       // Detect anomalies
-      const anomaliesDetected = await detectAnomalies(ctx, args.agentId);
+      const anomaliesDetected = await detectAnomalies(ctx, args.agentId, enterpriseId);
       
       // Generate predictive analytics
-      const forecastsCreated = await generatePredictiveAnalytics(ctx, args.agentId);
+      const forecastsCreated = await generatePredictiveAnalytics(ctx, args.agentId, enterpriseId);
       
       // Create executive dashboard data
-      await createExecutiveDashboard(ctx, args.agentId);
+      await createExecutiveDashboard(ctx, args.agentId, enterpriseId);
       
       // Generate automated reports
-      const reportsGenerated = await generateAutomatedReports(ctx, args.agentId);
+      const reportsGenerated = await generateAutomatedReports(ctx, args.agentId, enterpriseId);
 
       // Update metrics
       await updateAgentMetrics(ctx, args.agentId, {
@@ -162,7 +169,7 @@ export const run = internalMutation({
       };
 
     } catch (error) {
-      await handleAgentError(ctx, args.agentId, error);
+      await handleAgentError(ctx, args.agentId, enterpriseId, error);
       throw error;
     }
   },
@@ -181,11 +188,14 @@ interface KPIMetrics {
   savingsRate: number;
   totalActiveContractValue: number;
   contractsByType: Record<string, number>;
+  currency: string; // Currency of the spend and value figures
+  unconvertedContracts: number; // Active contracts left out for lack of an FX rate
 }
 
 async function calculateKPIs(
   ctx: MutationCtx,
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   const kpis: KPIMetrics = {
     contractRenewalRate: 0,
@@ -196,6 +206,8 @@ async function calculateKPIs(
     savingsRate: 0,
     totalActiveContractValue: 0,
     contractsByType: {},
+    currency: DEFAULT_CURRENCY,
+    unconvertedContracts: 0,
   };
   const now = new Date();
   const oneYearAgo = new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
@@ -203,6 +215,7 @@ async function calculateKPIs(
   // Get all contracts for analysis
   const contracts = await ctx.db
     .query("contracts")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
     .collect();
     
   const activeContracts = contracts.filter((c: Doc<"contracts">) => c.status === "active");
@@ -267,11 +280,25 @@ async function calculateKPIs(
   kpis.contractCycleTime = cycleTimeCount > 0 ? Math.round(totalCycleTime / cycleTimeCount * 10) / 10 : 0;
 
   // 3. Vendor Concentration
+  // Contract values are converted to one currency with each enterprise's FX
+  // rates so spend in different currencies can be added up
+  const converter = new CurrencyConverter(ctx);
+  const activeValues = new Map<Id<"contracts">, number>();
+  for (const contract of activeContracts) {
+    const amount = parseAmount(contract.extractedPricing || "0");
+    const converted = await converter.convert(contract.enterpriseId, amount, await converter.contractCurrency(contract), kpis.currency);
+    if (converted) {
+      activeValues.set(contract._id, converted.amount);
+    } else {
+      kpis.unconvertedContracts++;
+    }
+  }
+
   const vendorSpend: Record<string, number> = {};
   let totalSpend = 0;
   
   for (const contract of activeContracts) {
-    const value = parseFloat(contract.extractedPricing?.replace(/[^0-9.-]/g, '') || '0');
+    const value = activeValues.get(contract._id) ?? 0;
     if (value > 0) {
       const vendorId = contract.vendorId ? contract.vendorId.toString() : 'unassigned';
       vendorSpend[vendorId] = (vendorSpend[vendorId] || 0) + value;
@@ -294,12 +321,10 @@ async function calculateKPIs(
   // Calculate based on renegotiated contracts or identified savings opportunities
   const savingsInsights = await ctx.db
     .query("agentInsights")
-    .filter((q) => 
-      q.and(
-        q.eq(q.field("type"), "cost_optimization"),
-        q.gte(q.field("createdAt"), oneYearAgo.toISOString())
-      )
+    .withIndex("by_enterprise_created", (q) =>
+      q.eq("enterpriseId", enterpriseId).gte("createdAt", oneYearAgo.toISOString())
     )
+    .filter((q) => q.eq(q.field("type"), "cost_optimization"))
     .collect();
   
   const totalSavings = savingsInsights.reduce((sum: number, insight: Doc<"agentInsights">) => 
@@ -310,7 +335,7 @@ async function calculateKPIs(
 
   // 6. Active Contract Value
   kpis.totalActiveContractValue = activeContracts.reduce((sum: number, c: Doc<"contracts">) => 
-    sum + parseFloat(c.extractedPricing?.replace(/[^0-9.-]/g, '') || '0'), 0
+    sum + (activeValues.get(c._id) ?? 0), 0
   );
   
   // 7. Contract Distribution
@@ -323,6 +348,7 @@ async function calculateKPIs(
   // Store KPIs
   await ctx.db.insert("agentInsights", {
     agentId,
+    enterpriseId,
     type: "report",
     title: "Key Performance Indicators Update",
     description: "Latest KPI calculations for contract management",
@@ -345,6 +371,7 @@ async function calculateKPIs(
     alertsCreated++;
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "alert",
       title: "Low Contract Renewal Rate",
       description: `Contract renewal rate (${(kpis.contractRenewalRate * 100).toFixed(1)}%) is below target (${(ANALYTICS_CONFIG.kpiThresholds.contractRenewalRate * 100)}%)`,
@@ -365,6 +392,7 @@ async function calculateKPIs(
     alertsCreated++;
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "vendor_risk",
       title: "High Vendor Concentration Risk",
       description: `${(kpis.vendorConcentrationRisk * 100).toFixed(1)}% of spend is concentrated with a single vendor`,
@@ -384,14 +412,16 @@ async function calculateKPIs(
 }
 
 async function analyzeContractMetrics(
-  ctx: any,
-  agentId: Id<"agents">
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   let insightsCreated = 0;
   
   // Get contracts grouped by time periods
   const contracts = await ctx.db
     .query("contracts")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
     .collect();
   
   // Analyze contract volume trends
@@ -401,6 +431,7 @@ async function analyzeContractMetrics(
     insightsCreated++;
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "trend_analysis",
       title: `Contract Volume ${volumeTrends.trend === "increasing" ? "Increasing" : "Decreasing"}`,
       description: `Contract creation volume has ${volumeTrends.trend === "increasing" ? "increased" : "decreased"} by ${(volumeTrends.changeRate * 100).toFixed(1)}% over the last quarter`,
@@ -420,6 +451,7 @@ async function analyzeContractMetrics(
     insightsCreated++;
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "anomaly_detection",
       title: "Uneven Contract Value Distribution",
       description: `Contract values are heavily skewed - ${valueDistribution.top20PercentValue}% of value comes from top 20% of contracts`,
@@ -439,6 +471,7 @@ async function analyzeContractMetrics(
     insightsCreated++;
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "alert",
       title: "Multiple Contracts Expiring Soon",
       description: `${lifecycleMetrics.expiringIn90Days} contracts are expiring within 90 days, representing ${formatCurrency(lifecycleMetrics.expiringValue)} in value`,
@@ -455,17 +488,20 @@ async function analyzeContractMetrics(
 }
 
 async function analyzeVendorPerformance(
-  ctx: any,
-  agentId: Id<"agents">
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   let insightsCreated = 0;
   
   const vendors = await ctx.db
     .query("vendors")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
     .collect();
     
   const contracts = await ctx.db
     .query("contracts")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
     .collect();
 
   // Calculate vendor performance metrics
@@ -516,6 +552,7 @@ async function analyzeVendorPerformance(
   insightsCreated++;
   await ctx.db.insert("agentInsights", {
     agentId,
+    enterpriseId,
     type: "report",
     title: "Top Vendor Performance Analysis",
     description: `Analysis of top ${top5Vendors.length} vendors representing ${((top5Vendors.reduce((sum, v) => sum + v.totalValue, 0) / totalValue) * 100).toFixed(1)}% of total spend`,
@@ -540,6 +577,7 @@ async function analyzeVendorPerformance(
     insightsCreated++;
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "vendor_risk",
       title: "High Risk Vendor Relationships Identified",
       description: `${highRiskVendors.length} vendor(s) have elevated risk scores due to high concentration or value`,
@@ -559,13 +597,15 @@ async function analyzeVendorPerformance(
 }
 
 async function analyzeFinancialTrends(
-  ctx: any,
-  agentId: Id<"agents">
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   let insightsCreated = 0;
   
   const contracts = await ctx.db
     .query("contracts")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
     .collect();
   
   // Group spending by month
@@ -580,6 +620,7 @@ async function analyzeFinancialTrends(
     const isIncrease = yoyGrowth > 0;
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "financial_risk",
       title: `Significant Spend ${isIncrease ? "Increase" : "Decrease"} Detected`,
       description: `Contract spending has ${isIncrease ? "increased" : "decreased"} by ${(Math.abs(yoyGrowth) * 100).toFixed(1)}% year-over-year`,
@@ -603,6 +644,7 @@ async function analyzeFinancialTrends(
     insightsCreated++;
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "trend_analysis",
       title: "Seasonal Spending Pattern Detected",
       description: `Contract spending shows seasonal patterns with peak in ${spendingPatterns.seasonality.peakMonth}`,
@@ -623,6 +665,7 @@ async function analyzeFinancialTrends(
     const isOver = budgetVariance.variancePercent > 0;
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "financial_risk",
       title: `Budget ${isOver ? "Overrun" : "Underutilization"} Alert`,
       description: `Current spending is ${Math.abs(budgetVariance.variancePercent).toFixed(1)}% ${isOver ? "over" : "under"} budget`,
@@ -639,13 +682,15 @@ async function analyzeFinancialTrends(
 }
 
 async function detectAnomalies(
-  ctx: any,
-  agentId: Id<"agents">
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   let anomaliesDetected = 0;
   
   const contracts = await ctx.db
     .query("contracts")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
     .collect();
   
   // Detect pricing anomalies
@@ -655,6 +700,7 @@ async function detectAnomalies(
     anomaliesDetected++;
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "anomaly_detection",
       title: `Unusual Pricing Detected: ${anomaly.contractTitle}`,
       description: `Contract value (${formatCurrency(anomaly.value)}) is ${anomaly.standardDeviations.toFixed(1)} standard deviations from the mean for ${anomaly.contractType} contracts`,
@@ -670,12 +716,13 @@ async function detectAnomalies(
   }
 
   // Detect unusual vendor activity
-  const vendorActivityAnomalies = await detectVendorActivityAnomalies(ctx);
+  const vendorActivityAnomalies = await detectVendorActivityAnomalies(ctx, enterpriseId);
   
   for (const anomaly of vendorActivityAnomalies) {
     anomaliesDetected++;
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "anomaly_detection",
       title: "Unusual Vendor Activity Pattern",
       description: anomaly.description,
@@ -696,6 +743,7 @@ async function detectAnomalies(
     anomaliesDetected++;
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "anomaly_detection",
       title: "Unusual Contract Terms",
       description: anomaly.description,
@@ -713,13 +761,15 @@ async function detectAnomalies(
 }
 
 async function generatePredictiveAnalytics(
-  ctx: any,
-  agentId: Id<"agents">
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   let forecastsCreated = 0;
   
   const contracts = await ctx.db
     .query("contracts")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
     .collect();
   
   // Forecast contract volume
@@ -728,6 +778,7 @@ async function generatePredictiveAnalytics(
   forecastsCreated++;
   await ctx.db.insert("agentInsights", {
     agentId,
+    enterpriseId,
     type: "trend_analysis",
     title: "Contract Volume Forecast",
     description: `Projected ${volumeForecast.nextQuarter} new contracts in the next quarter based on historical trends`,
@@ -745,6 +796,7 @@ async function generatePredictiveAnalytics(
   forecastsCreated++;
   await ctx.db.insert("agentInsights", {
     agentId,
+    enterpriseId,
     type: "trend_analysis",
     title: "Spending Forecast",
     description: `Projected spending of ${formatCurrency(spendForecast.nextQuarterSpend)} in the next quarter (${spendForecast.confidence}% confidence)`,
@@ -763,6 +815,7 @@ async function generatePredictiveAnalytics(
     forecastsCreated++;
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "renewal_opportunity",
       title: "High-Value Renewal Opportunities",
       description: `${renewalOpportunities.highValueRenewals.length} high-value contracts worth ${formatCurrency(renewalOpportunities.totalValue)} are up for renewal`,
@@ -782,6 +835,7 @@ async function generatePredictiveAnalytics(
     forecastsCreated++;
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "financial_risk",
       title: "Predicted Contract Risks",
       description: `${riskPredictions.highRiskContracts.length} contracts show indicators of potential issues`,
@@ -798,15 +852,18 @@ async function generatePredictiveAnalytics(
 }
 
 async function createExecutiveDashboard(
-  ctx: any,
-  agentId: Id<"agents">
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<void> {
   const contracts = await ctx.db
     .query("contracts")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
     .collect();
     
   const vendors = await ctx.db
     .query("vendors")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
     .collect();
 
   // Calculate active contract value and financial metrics
@@ -823,7 +880,7 @@ async function createExecutiveDashboard(
   const savingsOpportunities = calculateSavingsOpportunities(contracts, vendors);
   
   // Get latest KPIs
-  const latestKPIs = await getLatestKPIs(ctx);
+  const latestKPIs = await getLatestKPIs(ctx, enterpriseId);
   
   // Calculate month-over-month trends
   const trends = calculateMonthOverMonthTrends(contracts, vendors);
@@ -885,6 +942,7 @@ async function createExecutiveDashboard(
   // Store dashboard data
   await ctx.db.insert("agentInsights", {
     agentId,
+    enterpriseId,
     type: "report",
     title: "Executive Dashboard Update",
     description: "Real-time executive dashboard metrics",
@@ -898,27 +956,28 @@ async function createExecutiveDashboard(
 }
 
 async function generateAutomatedReports(
-  ctx: any,
-  agentId: Id<"agents">
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   let reportsGenerated = 0;
   const now = new Date();
   
   // Check if it's time for weekly report (Monday)
   if (now.getDay() === 1) {
-    await generateWeeklyReport(ctx, agentId);
+    await generateWeeklyReport(ctx, agentId, enterpriseId);
     reportsGenerated++;
   }
   
   // Check if it's time for monthly report (1st of month)
   if (now.getDate() === 1) {
-    await generateMonthlyReport(ctx, agentId);
+    await generateMonthlyReport(ctx, agentId, enterpriseId);
     reportsGenerated++;
   }
   
   // Check if it's time for quarterly report
   if (now.getDate() === 1 && [0, 3, 6, 9].includes(now.getMonth())) {
-    await generateQuarterlyReport(ctx, agentId);
+    await generateQuarterlyReport(ctx, agentId, enterpriseId);
     reportsGenerated++;
   }
   
@@ -1187,25 +1246,27 @@ function calculateSavingsOpportunities(contracts: any[], vendors: any[]): {
   };
 }
 
-async function getLatestKPIs(ctx: any): Promise<{
+async function getLatestKPIs(ctx: QueryCtx, enterpriseId: Id<"enterprises">): Promise<{
   contractRenewalRate: number;
   vendorSatisfaction: number;
   complianceRate: number;
   avgContractCycleTime: number;
 }> {
-  // Get the most recent KPI calculation
+  // Get the most recent KPI calculation, stored by calculateKPIs as a report
   const latestKPI = await ctx.db
     .query("agentInsights")
-    .filter((q: any) => q.eq(q.field("type"), "kpi_report"))
+    .withIndex("by_enterprise_type", (q) => q.eq("enterpriseId", enterpriseId).eq("type", "report"))
+    .filter((q) => q.eq(q.field("title"), "Key Performance Indicators Update"))
     .order("desc")
     .first();
   
-  if (latestKPI && latestKPI.data) {
+  if (latestKPI && latestKPI.data?.kpis) {
+    const kpis = latestKPI.data.kpis;
     return {
-      contractRenewalRate: latestKPI.data.contractRenewalRate || 0,
-      vendorSatisfaction: latestKPI.data.vendorSatisfaction || 0,
-      complianceRate: latestKPI.data.complianceRate || 0,
-      avgContractCycleTime: latestKPI.data.avgContractCycleTime || 0,
+      contractRenewalRate: kpis.contractRenewalRate || 0,
+      vendorSatisfaction: kpis.vendorSatisfaction || 0,
+      complianceRate: kpis.contractComplianceRate || 0,
+      avgContractCycleTime: kpis.contractCycleTime || 0,
     };
   }
   
@@ -1586,7 +1647,7 @@ function detectPricingAnomalies(contracts: any[]): any[] {
   return anomalies;
 }
 
-async function detectVendorActivityAnomalies(ctx: any): Promise<any[]> {
+async function detectVendorActivityAnomalies(ctx: QueryCtx, enterpriseId: Id<"enterprises">): Promise<any[]> {
   const anomalies: any[] = [];
   
   // Get recent vendor activity
@@ -1594,7 +1655,8 @@ async function detectVendorActivityAnomalies(ctx: any): Promise<any[]> {
   
   const recentContracts = await ctx.db
     .query("contracts")
-    .filter((q: any) => q.gte(q.field("_creationTime"), thirtyDaysAgo.getTime()))
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+    .filter((q) => q.gte(q.field("_creationTime"), thirtyDaysAgo.getTime()))
     .collect();
   
   // Count contracts per vendor
@@ -1837,14 +1899,15 @@ function generateRiskMitigationActions(risks: string[]): string[] {
 // REPORT GENERATION FUNCTIONS
 // ============================================================================
 
-async function generateWeeklyReport(ctx: any, agentId: Id<"agents">): Promise<void> {
+async function generateWeeklyReport(ctx: MutationCtx, agentId: Id<"agents">, enterpriseId: Id<"enterprises">): Promise<void> {
   const oneWeekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
   
   // Gather weekly metrics
-  const weeklyMetrics = await gatherWeeklyMetrics(ctx, oneWeekAgo);
+  const weeklyMetrics = await gatherWeeklyMetrics(ctx, enterpriseId, oneWeekAgo);
   
-  await ctx.db.insert("agentInsights", {
+  const insightId = await ctx.db.insert("agentInsights", {
     agentId,
+    enterpriseId,
     type: "report",
     title: "Weekly Analytics Report",
     description: `Weekly summary: ${weeklyMetrics.newContracts} new contracts, ${formatCurrency(weeklyMetrics.totalValue)} in value`,
@@ -1855,15 +1918,18 @@ async function generateWeeklyReport(ctx: any, agentId: Id<"agents">): Promise<vo
     createdAt: new Date().toISOString(),
     data: weeklyMetrics,
   });
+
+  await emitReportReadyEvents(ctx, enterpriseId, insightId, "weekly", "Weekly Analytics Report");
 }
 
-async function generateMonthlyReport(ctx: any, agentId: Id<"agents">): Promise<void> {
+async function generateMonthlyReport(ctx: MutationCtx, agentId: Id<"agents">, enterpriseId: Id<"enterprises">): Promise<void> {
   const oneMonthAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
   
-  const monthlyMetrics = await gatherMonthlyMetrics(ctx, oneMonthAgo);
+  const monthlyMetrics = await gatherMonthlyMetrics(ctx, enterpriseId, oneMonthAgo);
   
-  await ctx.db.insert("agentInsights", {
+  const insightId = await ctx.db.insert("agentInsights", {
     agentId,
+    enterpriseId,
     type: "report",
     title: "Monthly Analytics Report",
     description: `Monthly performance summary with ${monthlyMetrics.highlights.length} key highlights`,
@@ -1874,15 +1940,18 @@ async function generateMonthlyReport(ctx: any, agentId: Id<"agents">): Promise<v
     createdAt: new Date().toISOString(),
     data: monthlyMetrics,
   });
+
+  await emitReportReadyEvents(ctx, enterpriseId, insightId, "monthly", "Monthly Analytics Report");
 }
 
-async function generateQuarterlyReport(ctx: any, agentId: Id<"agents">): Promise<void> {
+async function generateQuarterlyReport(ctx: MutationCtx, agentId: Id<"agents">, enterpriseId: Id<"enterprises">): Promise<void> {
   const threeMonthsAgo = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
   
-  const quarterlyMetrics = await gatherQuarterlyMetrics(ctx, threeMonthsAgo);
+  const quarterlyMetrics = await gatherQuarterlyMetrics(ctx, enterpriseId, threeMonthsAgo);
   
-  await ctx.db.insert("agentInsights", {
+  const insightId = await ctx.db.insert("agentInsights", {
     agentId,
+    enterpriseId,
     type: "report",
     title: "Quarterly Business Review",
     description: "Comprehensive quarterly analysis with strategic recommendations",
@@ -1893,12 +1962,30 @@ async function generateQuarterlyReport(ctx: any, agentId: Id<"agents">): Promise
     createdAt: new Date().toISOString(),
     data: quarterlyMetrics,
   });
+
+  await emitReportReadyEvents(ctx, enterpriseId, insightId, "quarterly", "Quarterly Business Review");
+}
+
+// The payload only points at the insight
+async function emitReportReadyEvents(
+  ctx: MutationCtx,
+  enterpriseId: Id<"enterprises">,
+  insightId: Id<"agentInsights">,
+  period: "weekly" | "monthly" | "quarterly",
+  title: string
+): Promise<void> {
+  await emitWebhookEvent(ctx, {
+    type: "analytics.report_ready",
+    enterpriseId,
+    data: { insightId, period, title, generatedAt: new Date().toISOString() },
+  });
 }
 
-async function gatherWeeklyMetrics(ctx: any, since: Date): Promise<any> {
+async function gatherWeeklyMetrics(ctx: QueryCtx, enterpriseId: Id<"enterprises">, since: Date): Promise<any> {
   const contracts = await ctx.db
     .query("contracts")
-    .filter((q: any) => q.gte(q.field("_creationTime"), since.getTime()))
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+    .filter((q) => q.gte(q.field("_creationTime"), since.getTime()))
     .collect();
   
   return {
@@ -1918,18 +2005,19 @@ async function gatherWeeklyMetrics(ctx: any, since: Date): Promise<any> {
   };
 }
 
-async function gatherMonthlyMetrics(ctx: any, since: Date): Promise<any> {
+async function gatherMonthlyMetrics(ctx: QueryCtx, enterpriseId: Id<"enterprises">, since: Date): Promise<any> {
   const now = new Date();
   
   // Get all relevant data
   const [contracts, vendors, insights, tasks] = await Promise.all([
-    ctx.db.query("contracts").collect(),
-    ctx.db.query("vendors").collect(),
+    ctx.db.query("contracts").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId)).collect(),
+    ctx.db.query("vendors").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId)).collect(),
     ctx.db.query("agentInsights")
-      .filter((q: any) => q.gte(q.field("createdAt"), since.toISOString()))
+      .withIndex("by_enterprise_created", (q) => q.eq("enterpriseId", enterpriseId).gte("createdAt", since.toISOString()))
       .collect(),
     ctx.db.query("agentTasks")
-      .filter((q: any) => q.gte(q.field("createdAt"), since.toISOString()))
+      .withIndex("by_enterprise_status", (q) => q.eq("enterpriseId", enterpriseId))
+      .filter((q) => q.gte(q.field("createdAt"), since.toISOString()))
       .collect(),
   ]);
 
@@ -1976,7 +2064,7 @@ async function gatherMonthlyMetrics(ctx: any, since: Date): Promise<any> {
   for (const contract of periodContracts.filter((c: any) => c.status === "active" || c.status === "expired")) {
     const statusHistory = await ctx.db
       .query("contractStatusHistory")
-      .withIndex("by_contract_time", (q: any) => q.eq("contractId", contract._id))
+      .withIndex("by_contract_time", (q) => q.eq("contractId", contract._id))
       .collect();
     
     const activationEntry = statusHistory.find((entry: any) => 
@@ -2142,23 +2230,25 @@ async function gatherMonthlyMetrics(ctx: any, since: Date): Promise<any> {
   };
 }
 
-async function gatherQuarterlyMetrics(ctx: any, since: Date): Promise<any> {
+async function gatherQuarterlyMetrics(ctx: QueryCtx, enterpriseId: Id<"enterprises">, since: Date): Promise<any> {
   const now = new Date();
   const quarterStart = since;
   const previousQuarterStart = new Date(quarterStart.getTime() - 90 * 24 * 60 * 60 * 1000);
   const yearAgoStart = new Date(quarterStart.getTime() - 365 * 24 * 60 * 60 * 1000);
   
   // Get comprehensive data
-  const [contracts, vendors, insights, tasks, users, agentLogs] = await Promise.all([
-    ctx.db.query("contracts").collect(),
-    ctx.db.query("vendors").collect(),
-    ctx.db.query("agentInsights").collect(),
-    ctx.db.query("agentTasks").collect(),
-    ctx.db.query("users").collect(),
+  const [contracts, vendors, insights, tasks, users, agentLogs, departments] = await Promise.all([
+    ctx.db.query("contracts").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId)).collect(),
+    ctx.db.query("vendors").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId)).collect(),
+    ctx.db.query("agentInsights").withIndex("by_enterprise_created", (q) => q.eq("enterpriseId", enterpriseId)).collect(),
+    ctx.db.query("agentTasks").withIndex("by_enterprise_status", (q) => q.eq("enterpriseId", enterpriseId)).collect(),
+    ctx.db.query("users").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId)).collect(),
     ctx.db.query("agentLogs")
-      .filter((q: any) => q.gte(q.field("timestamp"), quarterStart.toISOString()))
+      .withIndex("by_enterprise_timestamp", (q) => q.eq("enterpriseId", enterpriseId).gte("timestamp", quarterStart.toISOString()))
       .collect(),
+    ctx.db.query("departments").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId)).collect(),
   ]);
+  const departmentNames = new Map<string, string>(departments.map((d: any) => [d._id, d.name]));
 
   // Period filtering
   const quarterContracts = contracts.filter((c: any) => 
@@ -2190,7 +2280,7 @@ async function gatherQuarterlyMetrics(ctx: any, since: Date): Promise<any> {
   
   // Financial analysis
   const financialAnalysis = performQuarterlyFinancialAnalysis(
-    contracts, quarterContracts, previousQuarterContracts, yearAgoQuarterContracts
+    contracts, quarterContracts, previousQuarterContracts, yearAgoQuarterContracts, departmentNames
   );
 
   // Risk and compliance
@@ -2357,7 +2447,8 @@ function performQuarterlyFinancialAnalysis(
   allContracts: any[], 
   quarter: any[], 
   previousQuarter: any[], 
-  yearAgoQuarter: any[]
+  yearAgoQuarter: any[],
+  departmentNames: Map<string, string>
 ): any {
   const activeContracts = allContracts.filter(c => c.status === "active");
   
@@ -2380,7 +2471,7 @@ function performQuarterlyFinancialAnalysis(
     annualProjection,
     
     spendByCategory: groupSpendByCategory(quarter),
-    spendByDepartment: groupSpendByDepartment(quarter),
+    spendByDepartment: groupSpendByDepartment(quarter, departmentNames),
     spendTrend: analyzeSpendTrend(allContracts),
     
     budgetAnalysis: {
@@ -3082,32 +3173,14 @@ function groupSpendByCategory(contracts: any[]): Record<string, number> {
   }, {} as Record<string, number>);
 }
 
-function groupSpendByDepartment(contracts: any[]): Record<string, number> {
+function groupSpendByDepartment(contracts: any[], departmentNames: Map<string, string>): Record<string, number> {
   const departmentSpend: Record<string, number> = {};
   
-  // Department mapping based on contract type and actual department field
-  const contractTypeToDepartment: Record<string, string> = {
-    "saas": "IT",
-    "technology": "IT",
-    "software": "IT",
-    "hardware": "IT",
-    "legal": "Legal",
-    "employment": "HR",
-    "consulting": "Operations",
-    "lease": "Facilities",
-    "facilities": "Facilities",
-    "marketing": "Marketing",
-    "sales": "Sales",
-    "finance": "Finance",
-    "insurance": "Risk Management",
-    "other": "Other"
-  };
-  
   for (const contract of contracts) {
-    // Use department field if available, otherwise map from contract type
-    const department = contract.departmentId || 
-                      contractTypeToDepartment[contract.contractType || "other"] || 
-                      "Other";
+    // Contracts without a department, or still holding legacy free text,
+    // are reported as unassigned rather than guessed from the contract type
+    const department = (contract.departmentId && departmentNames.get(contract.departmentId)) ||
+                      UNASSIGNED_DEPARTMENT;
     
     const value = parseFloat(contract.extractedPricing?.replace(/[^0-9.-]/g, '') || '0');
     departmentSpend[department] = (departmentSpend[department] || 0) + value;
@@ -3598,9 +3671,10 @@ async function updateAgentMetrics(
   });
 }
 
-async function handleAgentError(ctx: any, agentId: Id<"agents">, error: any): Promise<void> {
+async function handleAgentError(ctx: MutationCtx, agentId: Id<"agents">, enterpriseId: Id<"enterprises">, error: any): Promise<void> {
   await ctx.db.insert("agentLogs", {
     agentId,
+    enterpriseId,
     level: "error",
     message: "Analytics agent failed",
     data: { error: error instanceof Error ? error.message : String(error) },
@@ -3636,6 +3710,7 @@ async function handleAgentError(ctx: any, agentId: Id<"agents">, error: any): Pr
 
 export const getAnalyticsReport = internalQuery({
   args: {
+    enterpriseId: v.id("enterprises"),
     reportType: v.union(
       v.literal("executive"),
       v.literal("financial"),
@@ -3666,12 +3741,8 @@ export const getAnalyticsReport = internalQuery({
     // Get latest report of the specified type
     const reports = await ctx.db
       .query("agentInsights")
-      .filter((q: any) => 
-        q.and(
-          q.eq(q.field("type"), "report"),
-          q.gte(q.field("createdAt"), since.toISOString())
-        )
-      )
+      .withIndex("by_enterprise_type", (q) => q.eq("enterpriseId", args.enterpriseId).eq("type", "report"))
+      .filter((q) => q.gte(q.field("createdAt"), since.toISOString()))
       .order("desc")
       .collect();
     
@@ -3693,17 +3764,15 @@ export const getAnalyticsReport = internalQuery({
 });
 
 export const getKPIs = internalQuery({
-  args: {},
-  handler: async (ctx) => {
+  args: {
+    enterpriseId: v.id("enterprises"),
+  },
+  handler: async (ctx, args) => {
     // Get the latest KPI insight
     const kpiInsight = await ctx.db
       .query("agentInsights")
-      .filter((q: any) => 
-        q.and(
-          q.eq(q.field("type"), "report"),
-          q.eq(q.field("title"), "Key Performance Indicators Update")
-        )
-      )
+      .withIndex("by_enterprise_type", (q) => q.eq("enterpriseId", args.enterpriseId).eq("type", "report"))
+      .filter((q) => q.eq(q.field("title"), "Key Performance Indicators Update"))
       .order("desc")
       .first();
     
@@ -3713,6 +3782,7 @@ export const getKPIs = internalQuery({
 
 export const getTrends = internalQuery({
   args: {
+    enterpriseId: v.id("enterprises"),
     trendType: v.optional(v.union(
       v.literal("contract_volume"),
       v.literal("spending"),
@@ -3724,7 +3794,7 @@ export const getTrends = internalQuery({
   handler: async (ctx, args) => {
     let query = ctx.db
       .query("agentInsights")
-      .filter((q: any) => q.eq(q.field("type"), "trend_analysis"));
+      .withIndex("by_enterprise_type", (q) => q.eq("enterpriseId", args.enterpriseId).eq("type", "trend_analysis"));
     
     const insights = await query
       .order("desc")
@@ -3742,6 +3812,7 @@ export const getTrends = internalQuery({
 
 export const getAnomalies = internalQuery({
   args: {
+    enterpriseId: v.id("enterprises"),
     status: v.optional(v.union(
       v.literal("unresolved"),
       v.literal("resolved"),
@@ -3752,7 +3823,7 @@ export const getAnomalies = internalQuery({
   handler: async (ctx, args) => {
     let insights = await ctx.db
       .query("agentInsights")
-      .filter((q: any) => q.eq(q.field("type"), "anomaly_detection"))
+      .withIndex("by_enterprise_type", (q) => q.eq("enterpriseId", args.enterpriseId).eq("type", "anomaly_detection"))
       .order("desc")
       .take(args.limit || 20);
     
@@ -3768,6 +3839,7 @@ export const getAnomalies = internalQuery({
 
 export const getFinancialMetrics = internalQuery({
   args: {
+    enterpriseId: v.id("enterprises"),
     timeRange: v.optional(v.union(
       v.literal("30days"),
       v.literal("90days"),
@@ -3777,6 +3849,7 @@ export const getFinancialMetrics = internalQuery({
   handler: async (ctx, args) => {
     const contracts = await ctx.db
       .query("contracts")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", args.enterpriseId))
       .collect();
     
     const timeRange = args.timeRange || "30days";
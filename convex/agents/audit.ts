@@ -0,0 +1,237 @@
+import { internalMutation, MutationCtx } from "../_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "../_generated/dataModel";
+import { runAgent } from "./agentRuntime";
+import { AuditAnomaly, FindingSeverity, detectAuditAnomalies, findContractExceptions, sampleIds } from "./auditSampling";
+
+/**
+ * Audit Agent
+ *
+ * Responsibilities:
+ * - Review a rotating sample of the enterprise's contracts for records that
+ *   contradict themselves or break policy (see auditSampling.ts)
+ * - Review the newest audit log entries for bursts of failures, bulk
+ *   deletions and exports, and gaps in the hash chain
+ * - Raise one finding per contract, kept up to date on later samples and
+ *   closed once the contract checks out, and one insight per anomaly
+ */
+
+const AUDIT_CONFIG = {
+  contractSampleSize: 20,
+  // Newest audit log entries reviewed per run
+  auditLogWindow: 500,
+  // Anomalies already reported within this many days are not reported again
+  anomalyLookbackDays: 7,
+};
+
+const SEVERITY_RANK: Record<FindingSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const run = internalMutation({
+  args: {
+    agentId: v.id("agents"),
+  },
+  handler: async (ctx, args) => {
+    return await runAgent(ctx, args.agentId, "Audit agent", async (enterpriseId) => {
+      const agent = await ctx.db.get(args.agentId);
+      const now = new Date();
+
+      const contracts = await auditContractSample(ctx, args.agentId, enterpriseId, agent?.runCount ?? 0, now);
+      const logs = await auditRecentLogs(ctx, args.agentId, enterpriseId, now);
+
+      await ctx.db.insert("agentLogs", {
+        agentId: args.agentId,
+        enterpriseId,
+        level: "info",
+        message: `Audited ${contracts.sampled} contract(s) and ${logs.entries} audit log entr${logs.entries === 1 ? "y" : "ies"}`,
+        timestamp: now.toISOString(),
+        category: "audit",
+        data: { contractFindings: contracts.findings, anomalies: logs.anomalies },
+      });
+
+      return {
+        dataProcessed: contracts.sampled + logs.entries,
+        insightsGenerated: contracts.insights + logs.insights,
+        contractsSampled: contracts.sampled,
+        contractFindings: contracts.findings,
+        auditLogEntries: logs.entries,
+        anomalies: logs.anomalies,
+      };
+    });
+  },
+});
+
+// ============================================================================
+// CONTRACT SAMPLE
+// ============================================================================
+
+async function auditContractSample(
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">,
+  seed: number,
+  now: Date
+): Promise<{ sampled: number; findings: number; insights: number }> {
+  const contracts = await ctx.db
+    .query("contracts")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+    .collect();
+  const byId = new Map(contracts.map(contract => [contract._id as string, contract]));
+  const sample = sampleIds(contracts.map(contract => contract._id as string), AUDIT_CONFIG.contractSampleSize, seed);
+
+  let findings = 0;
+  let insights = 0;
+  for (const id of sample) {
+    const contract = byId.get(id)!;
+    const exceptions = findContractExceptions({
+      status: contract.status,
+      value: contract.value,
+      startDate: contract.startDate ?? contract.extractedStartDate,
+      endDate: contract.endDate ?? contract.extractedEndDate,
+      hasOwner: !!contract.ownerId,
+      hasVendor: !!contract.vendorId,
+      analysisStatus: contract.analysisStatus,
+    }, now);
+
+    const existing = await ctx.db
+      .query("agentInsights")
+      .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+      .filter((q) => q.and(q.eq(q.field("type"), "audit_finding"), q.eq(q.field("actionTaken"), false)))
+      .first();
+
+    if (!exceptions.length) {
+      if (existing) {
+        await ctx.db.patch(existing._id, {
+          actionTaken: true,
+          actionDetails: `No exceptions found when re-sampled on ${now.toISOString().slice(0, 10)}`,
+        });
+      }
+      continue;
+    }
+
+    findings++;
+    const worst = exceptions.reduce((max, exception) =>
+      SEVERITY_RANK[exception.severity] > SEVERITY_RANK[max] ? exception.severity : max, exceptions[0]!.severity);
+    const description = exceptions.map(exception => exception.description).join("; ");
+    const data = { exceptions, sampledAt: now.toISOString() };
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { description, priority: worst, data });
+      continue;
+    }
+
+    await ctx.db.insert("agentInsights", {
+      agentId,
+      enterpriseId,
+      type: "audit_finding",
+      title: `Audit exceptions: ${contract.title}`,
+      description,
+      priority: worst,
+      contractId: contract._id,
+      ...(contract.vendorId ? { vendorId: contract.vendorId } : {}),
+      actionRequired: exceptions.some(exception => exception.severity !== "low"),
+      actionTaken: false,
+      isRead: false,
+      createdAt: now.toISOString(),
+      data,
+    });
+    insights++;
+  }
+
+  return { sampled: sample.length, findings, insights };
+}
+
+// ============================================================================
+// AUDIT LOG
+// ============================================================================
+
+async function auditRecentLogs(
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">,
+  now: Date
+): Promise<{ entries: number; anomalies: number; insights: number }> {
+  const entries = await ctx.db
+    .query("auditLogs")
+    .withIndex("by_enterprise_sequence", (q) => q.eq("enterpriseId", enterpriseId))
+    .order("desc")
+    .take(AUDIT_CONFIG.auditLogWindow);
+
+  const anomalies = detectAuditAnomalies(entries.map(entry => ({
+    id: entry._id,
+    userId: entry.userId,
+    action: entry.action,
+    status: entry.status,
+    timestamp: entry.timestamp,
+    sequence: entry.sequence,
+  })));
+  if (!anomalies.length) {
+    return { entries: entries.length, anomalies: 0, insights: 0 };
+  }
+
+  // Later runs see the same entries again; skip anomalies already reported
+  const since = new Date(now.getTime() - AUDIT_CONFIG.anomalyLookbackDays * DAY_MS).toISOString();
+  const reported = new Set<string>();
+  for (const type of ["anomaly_detection", "audit_finding"] as const) {
+    const recent = await ctx.db
+      .query("agentInsights")
+      .withIndex("by_enterprise_type", (q) => q.eq("enterpriseId", enterpriseId).eq("type", type))
+      .filter((q) => q.gt(q.field("createdAt"), since))
+      .collect();
+    for (const insight of recent) {
+      for (const entryId of insight.data?.entryIds ?? []) {
+        reported.add(`${insight.data?.anomalyKind}:${entryId}`);
+      }
+    }
+  }
+
+  let insights = 0;
+  for (const anomaly of anomalies) {
+    if (anomaly.entryIds.some(entryId => reported.has(`${anomaly.kind}:${entryId}`))) continue;
+
+    await ctx.db.insert("agentInsights", {
+      agentId,
+      enterpriseId,
+      // A gap in the chain is a finding about the log itself, not about activity
+      type: anomaly.kind === "sequence_gap" ? "audit_finding" : "anomaly_detection",
+      title: await anomalyTitle(ctx, anomaly),
+      description: anomaly.description,
+      priority: anomaly.severity,
+      actionRequired: true,
+      actionTaken: false,
+      isRead: false,
+      createdAt: now.toISOString(),
+      data: {
+        anomalyKind: anomaly.kind,
+        userId: anomaly.userId,
+        entryIds: anomaly.entryIds,
+        from: anomaly.from,
+      },
+    });
+    insights++;
+  }
+
+  return { entries: entries.length, anomalies: anomalies.length, insights };
+}
+
+async function anomalyTitle(ctx: MutationCtx, anomaly: AuditAnomaly): Promise<string> {
+  if (anomaly.kind === "sequence_gap") {
+    return "Audit log entries missing from the hash chain";
+  }
+
+  const user = anomaly.userId ? await ctx.db.get(anomaly.userId as Id<"users">) : null;
+  const actor = user ? userLabel(user) : "an unknown user";
+  switch (anomaly.kind) {
+    case "failure_burst":
+      return `Repeated failed operations by ${actor}`;
+    case "bulk_deletion":
+      return `Bulk deletion by ${actor}`;
+    case "bulk_export":
+      return `Bulk export by ${actor}`;
+  }
+}
+
+function userLabel(user: Doc<"users">): string {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return name || user.email;
+}
@@ -0,0 +1,215 @@
+/**
+ * Audit sampling
+ *
+ * What the audit agent (agents/audit.ts) looks at and what it flags. Each run
+ * reviews a rotating sample of contracts for records that contradict
+ * themselves or break policy, and the audit log entries written since the
+ * previous run for bursts of failures, bulk deletions and exports, and gaps
+ * in the hash chain. Everything here is pure.
+ */
+
+export type FindingSeverity = "critical" | "high" | "medium" | "low";
+
+export interface ContractAuditRecord {
+  status: string;
+  value?: number | undefined;
+  startDate?: string | undefined;
+  endDate?: string | undefined;
+  hasOwner: boolean;
+  hasVendor: boolean;
+  analysisStatus?: string | undefined;
+}
+
+export interface ContractException {
+  code: string;
+  severity: FindingSeverity;
+  description: string;
+}
+
+export interface AuditEntrySample {
+  id: string;
+  userId: string;
+  action: string;
+  status: "success" | "failure";
+  timestamp: string;
+  sequence?: number | undefined;
+}
+
+export type AuditAnomalyKind = "failure_burst" | "bulk_deletion" | "bulk_export" | "sequence_gap";
+
+export interface AuditAnomaly {
+  kind: AuditAnomalyKind;
+  severity: FindingSeverity;
+  userId?: string;
+  description: string;
+  entryIds: string[];
+  from: string; // Timestamp of the first entry involved
+}
+
+// How much of an activity from one user within the window counts as an anomaly
+export const ANOMALY_RULES: Record<Exclude<AuditAnomalyKind, "sequence_gap">, {
+  threshold: number;
+  windowMinutes: number;
+  severity: FindingSeverity;
+}> = {
+  failure_burst: { threshold: 5, windowMinutes: 15, severity: "high" },
+  bulk_deletion: { threshold: 20, windowMinutes: 60, severity: "high" },
+  bulk_export: { threshold: 10, windowMinutes: 60, severity: "medium" },
+};
+
+const ACTIVE_STATUSES = ["active"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A deterministic sample of ids. Each seed orders the ids differently, so
+ * successive runs with increasing seeds cover different records.
+ */
+export function sampleIds<T extends string>(ids: T[], size: number, seed: number): T[] {
+  return ids
+    .map(id => ({ id, rank: hash(`${seed}:${id}`) }))
+    .sort((a, b) => a.rank - b.rank || a.id.localeCompare(b.id))
+    .slice(0, Math.max(0, size))
+    .map(entry => entry.id);
+}
+
+/**
+ * What is wrong with a contract record, if anything
+ */
+export function findContractExceptions(contract: ContractAuditRecord, now: Date): ContractException[] {
+  const exceptions: ContractException[] = [];
+  const start = parseDate(contract.startDate);
+  const end = parseDate(contract.endDate);
+  const active = ACTIVE_STATUSES.includes(contract.status);
+
+  if (active && end && end.getTime() < now.getTime() - DAY_MS) {
+    exceptions.push({ code: "active_past_end", severity: "high", description: "Marked active but its end date has passed" });
+  }
+  if (contract.status === "expired" && end && end.getTime() > now.getTime() + DAY_MS) {
+    exceptions.push({ code: "expired_before_end", severity: "medium", description: "Marked expired before its end date" });
+  }
+  if (start && end && start.getTime() > end.getTime()) {
+    exceptions.push({ code: "dates_inverted", severity: "medium", description: "Start date is after the end date" });
+  }
+  if (active && !contract.hasOwner) {
+    exceptions.push({ code: "missing_owner", severity: "medium", description: "Active without an owner" });
+  }
+  if (active && !contract.hasVendor) {
+    exceptions.push({ code: "missing_vendor", severity: "low", description: "Active without a vendor" });
+  }
+  if (active && contract.value === undefined) {
+    exceptions.push({ code: "missing_value", severity: "low", description: "Active without a recorded value" });
+  }
+  if (contract.value !== undefined && contract.value < 0) {
+    exceptions.push({ code: "negative_value", severity: "high", description: "Value is negative" });
+  }
+  if (contract.analysisStatus === "failed") {
+    exceptions.push({ code: "analysis_failed", severity: "low", description: "Analysis failed and has not been rerun" });
+  }
+
+  return exceptions;
+}
+
+/**
+ * Anomalies in a run of audit log entries, in any order
+ */
+export function detectAuditAnomalies(entries: AuditEntrySample[]): AuditAnomaly[] {
+  const sorted = [...entries].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const anomalies: AuditAnomaly[] = [];
+
+  const candidates: Array<[Exclude<AuditAnomalyKind, "sequence_gap">, (entry: AuditEntrySample) => boolean]> = [
+    ["failure_burst", entry => entry.status === "failure"],
+    ["bulk_deletion", entry => entry.action === "delete" && entry.status === "success"],
+    ["bulk_export", entry => entry.action === "export" && entry.status === "success"],
+  ];
+
+  for (const [kind, matches] of candidates) {
+    const rule = ANOMALY_RULES[kind];
+    const byUser = new Map<string, AuditEntrySample[]>();
+    for (const entry of sorted.filter(matches)) {
+      byUser.set(entry.userId, [...(byUser.get(entry.userId) ?? []), entry]);
+    }
+
+    for (const [userId, userEntries] of byUser) {
+      for (const burst of findBursts(userEntries, rule.threshold, rule.windowMinutes)) {
+        anomalies.push({
+          kind,
+          severity: rule.severity,
+          userId,
+          description: `${burst.length} ${ANOMALY_NOUNS[kind]} within ${rule.windowMinutes} minutes`,
+          entryIds: burst.map(entry => entry.id),
+          from: burst[0]!.timestamp,
+        });
+      }
+    }
+  }
+
+  // Consecutive entries in the chain differ by one; entries written before
+  // the chain have no sequence and are not checked
+  const chained = entries
+    .filter((entry): entry is AuditEntrySample & { sequence: number } => entry.sequence !== undefined)
+    .sort((a, b) => a.sequence - b.sequence);
+  for (let i = 1; i < chained.length; i++) {
+    const previous = chained[i - 1]!;
+    const current = chained[i]!;
+    const missing = current.sequence - previous.sequence - 1;
+    if (missing > 0) {
+      anomalies.push({
+        kind: "sequence_gap",
+        severity: "critical",
+        description: `${missing} audit log entr${missing === 1 ? "y is" : "ies are"} missing between sequence ${previous.sequence} and ${current.sequence}`,
+        entryIds: [previous.id, current.id],
+        from: previous.timestamp,
+      });
+    }
+  }
+
+  return anomalies;
+}
+
+const ANOMALY_NOUNS: Record<Exclude<AuditAnomalyKind, "sequence_gap">, string> = {
+  failure_burst: "failed operations",
+  bulk_deletion: "deletions",
+  bulk_export: "exports",
+};
+
+/**
+ * Non-overlapping runs of at least `threshold` entries that each fit in the
+ * window. Entries must be in time order.
+ */
+function findBursts(entries: AuditEntrySample[], threshold: number, windowMinutes: number): AuditEntrySample[][] {
+  const bursts: AuditEntrySample[][] = [];
+  const windowMs = windowMinutes * 60 * 1000;
+  let start = 0;
+
+  while (start < entries.length) {
+    const startTime = Date.parse(entries[start]!.timestamp);
+    let end = start;
+    while (end + 1 < entries.length && Date.parse(entries[end + 1]!.timestamp) - startTime <= windowMs) {
+      end++;
+    }
+    if (end - start + 1 >= threshold) {
+      bursts.push(entries.slice(start, end + 1));
+      start = end + 1;
+    } else {
+      start++;
+    }
+  }
+
+  return bursts;
+}
+
+// FNV-1a
+function hash(value: string): number {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,434 @@
+import { internalMutation, query, MutationCtx } from "../_generated/server";
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { Doc, Id } from "../_generated/dataModel";
+import type { ComplianceCheckType } from "../schema";
+import { getSecurityContext, getDepartmentScope, hasScopedPermission, contractResource } from "../security/rowLevelSecurity";
+import { withoutFields } from "../lib/documentFields";
+import { runAgent } from "./agentRuntime";
+import { sampleIds } from "./auditSampling";
+import {
+  ComplianceIssue,
+  ComplianceSubject,
+  checkStatusFor,
+  checkTypesFor,
+  evaluateComplianceCheck,
+  isAutomatedCheck,
+  mergeIssues,
+  nextCheckDue,
+  REVIEW_CHECK_INTERVAL_DAYS,
+} from "./complianceRules";
+
+/**
+ * Compliance Agent
+ *
+ * Responsibilities:
+ * - Keep a compliance check of each applicable type for every active contract
+ * - Evaluate checks as they fall due (nextCheckDue) and schedule the next one
+ * - Put regulatory and security checks up for review when they fall due
+ * - Stop scheduling checks for contracts that are no longer active
+ * - Raise compliance alerts for new issues and close them once resolved
+ * - Keep each vendor's compliance score
+ */
+
+const COMPLIANCE_CONFIG = {
+  // Due checks evaluated per run
+  batchSize: 25,
+  // Active contracts looked at per run for checks they are missing
+  scheduleSampleSize: 100,
+};
+
+const SEVERITY_RANK = { low: 0, medium: 1, high: 2, critical: 3 } as const;
+
+interface CheckRunContext {
+  agentId: Id<"agents">;
+  enterpriseId: Id<"enterprises">;
+  now: Date;
+  criticalClauses: Array<Pick<Doc<"clauseLibrary">, "clauseType" | "contractTypes">>;
+}
+
+export const run = internalMutation({
+  args: {
+    agentId: v.id("agents"),
+  },
+  handler: async (ctx, args) => {
+    return await runAgent(ctx, args.agentId, "Compliance agent", async (enterpriseId) => {
+      const agent = await ctx.db.get(args.agentId);
+      const now = new Date();
+      const criticalClauses = (await ctx.db
+        .query("clauseLibrary")
+        .withIndex("by_enterprise_active", (q) => q.eq("enterpriseId", enterpriseId).eq("isActive", true))
+        .collect())
+        .filter(entry => entry.isCritical);
+      const context: CheckRunContext = { agentId: args.agentId, enterpriseId, now, criticalClauses };
+
+      const scheduled = await scheduleMissingChecks(ctx, context, agent?.runCount ?? 0);
+      const evaluated = await evaluateDueChecks(ctx, context);
+      await updateVendorComplianceScores(ctx, enterpriseId, evaluated.vendorIds);
+
+      return {
+        dataProcessed: evaluated.checks,
+        insightsGenerated: evaluated.insights,
+        checksScheduled: scheduled,
+        checksEvaluated: evaluated.checks,
+      };
+    });
+  },
+});
+
+// ============================================================================
+// SCHEDULING
+// ============================================================================
+
+/**
+ * Give a sample of active contracts the checks they are missing, due now.
+ * Checks from before the agent are taken over, and checks left unscheduled
+ * while their contract was inactive are scheduled again.
+ */
+async function scheduleMissingChecks(ctx: MutationCtx, run: CheckRunContext, seed: number): Promise<number> {
+  const active = await ctx.db
+    .query("contracts")
+    .withIndex("by_status_and_enterpriseId", (q) => q.eq("enterpriseId", run.enterpriseId).eq("status", "active"))
+    .collect();
+  const byId = new Map(active.map(contract => [contract._id as string, contract]));
+  const sample = sampleIds(active.map(contract => contract._id as string), COMPLIANCE_CONFIG.scheduleSampleSize, seed);
+
+  const now = run.now.toISOString();
+  let scheduled = 0;
+
+  for (const id of sample) {
+    const contract = byId.get(id)!;
+    const checks = await ctx.db
+      .query("complianceChecks")
+      .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+      .collect();
+
+    for (const check of checks) {
+      if (!check.enterpriseId || !check.nextCheckDue) {
+        await ctx.db.patch(check._id, { enterpriseId: run.enterpriseId, nextCheckDue: check.nextCheckDue ?? now });
+      }
+    }
+
+    const existing = new Set(checks.map(check => check.checkType));
+    for (const checkType of checkTypesFor(contract.contractType)) {
+      if (existing.has(checkType)) continue;
+      await ctx.db.insert("complianceChecks", {
+        contractId: contract._id,
+        enterpriseId: run.enterpriseId,
+        checkType,
+        status: "pending_review",
+        checkedAt: now,
+        nextCheckDue: now,
+      });
+      scheduled++;
+    }
+  }
+
+  if (scheduled > 0) {
+    await ctx.db.insert("agentLogs", {
+      agentId: run.agentId,
+      enterpriseId: run.enterpriseId,
+      level: "info",
+      message: `Scheduled ${scheduled} compliance check(s)`,
+      timestamp: now,
+      category: "compliance",
+    });
+  }
+
+  return scheduled;
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+async function evaluateDueChecks(
+  ctx: MutationCtx,
+  run: CheckRunContext
+): Promise<{ checks: number; insights: number; vendorIds: Set<Id<"vendors">> }> {
+  const now = run.now.toISOString();
+  const due = await ctx.db
+    .query("complianceChecks")
+    .withIndex("by_enterprise_next_check", (q) => q
+      .eq("enterpriseId", run.enterpriseId)
+      .gt("nextCheckDue", "")
+      .lte("nextCheckDue", now))
+    .take(COMPLIANCE_CONFIG.batchSize);
+
+  const vendorIds = new Set<Id<"vendors">>();
+  const subjects = new Map<Id<"contracts">, ComplianceSubject>();
+  let insights = 0;
+
+  for (const check of due) {
+    const contract = await ctx.db.get(check.contractId);
+    if (!contract) {
+      await ctx.db.delete(check._id);
+      continue;
+    }
+    if (contract.status !== "active") {
+      // Scheduled again if the contract becomes active
+      await ctx.db.replace(check._id, withoutFields(check, ["nextCheckDue"]));
+      continue;
+    }
+    if (contract.vendorId) {
+      vendorIds.add(contract.vendorId);
+    }
+
+    if (!isAutomatedCheck(check.checkType)) {
+      await ctx.db.patch(check._id, {
+        status: "pending_review",
+        nextCheckDue: new Date(run.now.getTime() + REVIEW_CHECK_INTERVAL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      });
+      if (await raiseReviewAlert(ctx, run, contract, check.checkType)) {
+        insights++;
+      }
+      continue;
+    }
+
+    let subject = subjects.get(contract._id);
+    if (!subject) {
+      subject = await loadComplianceSubject(ctx, contract, run);
+      subjects.set(contract._id, subject);
+    }
+
+    const found = evaluateComplianceCheck(check.checkType, subject, run.now);
+    const { issues, opened } = mergeIssues(check.issues ?? [], found, now);
+    const status = checkStatusFor(issues);
+
+    // Replaced rather than patched: the agent, not a person, made this check
+    await ctx.db.replace(check._id, {
+      ...withoutFields(check, ["checkedBy"]),
+      status,
+      issues,
+      checkedAt: now,
+      checkedByAgentId: run.agentId,
+      nextCheckDue: nextCheckDue(check.checkType, status, run.now),
+    });
+
+    if (await syncComplianceAlert(ctx, run, contract, check.checkType, issues, opened)) {
+      insights++;
+    }
+  }
+
+  if (due.length > 0) {
+    await ctx.db.insert("agentLogs", {
+      agentId: run.agentId,
+      enterpriseId: run.enterpriseId,
+      level: "info",
+      message: `Evaluated ${due.length} due compliance check(s)`,
+      timestamp: now,
+      category: "compliance",
+    });
+  }
+
+  return { checks: due.length, insights, vendorIds };
+}
+
+async function loadComplianceSubject(
+  ctx: MutationCtx,
+  contract: Doc<"contracts">,
+  run: CheckRunContext
+): Promise<ComplianceSubject> {
+  const [clauses, overdue] = await Promise.all([
+    ctx.db
+      .query("contractClauses")
+      .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+      .collect(),
+    ctx.db
+      .query("obligations")
+      .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+      .filter((q) => q.eq(q.field("status"), "overdue"))
+      .collect(),
+  ]);
+
+  return {
+    contractType: contract.contractType,
+    status: contract.status,
+    value: contract.value,
+    startDate: contract.startDate ?? contract.extractedStartDate,
+    endDate: contract.endDate ?? contract.extractedEndDate,
+    hasOwner: !!contract.ownerId,
+    hasVendor: !!contract.vendorId,
+    paymentSchedule: contract.extractedPaymentSchedule,
+    clauses: clauses.map(clause => ({
+      clauseType: clause.clauseType,
+      present: clause.present,
+      deviationStatus: clause.deviationStatus,
+    })),
+    criticalClauseTypes: run.criticalClauses
+      .filter(entry => !entry.contractTypes.length || (!!contract.contractType && entry.contractTypes.includes(contract.contractType)))
+      .map(entry => entry.clauseType),
+    overdueObligations: overdue.length,
+  };
+}
+
+// ============================================================================
+// INSIGHTS
+// ============================================================================
+
+/**
+ * Keep one open compliance alert per contract and check type: raise it when
+ * an issue that needs attention opens, update it while issues remain, and
+ * close it once they are all resolved. Returns true when an alert was raised.
+ */
+async function syncComplianceAlert(
+  ctx: MutationCtx,
+  run: CheckRunContext,
+  contract: Doc<"contracts">,
+  checkType: ComplianceCheckType,
+  issues: ComplianceIssue[],
+  opened: ComplianceIssue[]
+): Promise<boolean> {
+  const existing = await findOpenAlert(ctx, contract._id, checkType);
+  const open = issues.filter(issue => !issue.resolvedAt && issue.severity !== "low");
+  const now = run.now.toISOString();
+
+  if (!open.length) {
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        actionTaken: true,
+        actionDetails: `Issues resolved; confirmed by the compliance agent on ${now.slice(0, 10)}`,
+      });
+    }
+    return false;
+  }
+
+  const worst = open.reduce((max, issue) => SEVERITY_RANK[issue.severity] > SEVERITY_RANK[max] ? issue.severity : max, open[0]!.severity);
+  const description = open.map(issue => `${issue.description} (${issue.severity})`).join("; ");
+  const data = { checkType, issues: open, contractTitle: contract.title };
+
+  if (existing) {
+    await ctx.db.patch(existing._id, { description, priority: worst, data });
+    return false;
+  }
+  if (!opened.some(issue => issue.severity !== "low")) {
+    return false;
+  }
+
+  await ctx.db.insert("agentInsights", {
+    agentId: run.agentId,
+    enterpriseId: run.enterpriseId,
+    type: "compliance_alert",
+    title: `${checkLabel(checkType)} compliance issues: ${contract.title}`,
+    description,
+    priority: worst,
+    contractId: contract._id,
+    ...(contract.vendorId ? { vendorId: contract.vendorId } : {}),
+    actionRequired: open.some(issue => issue.remediationRequired),
+    actionTaken: false,
+    isRead: false,
+    createdAt: now,
+    data,
+  });
+  return true;
+}
+
+async function raiseReviewAlert(
+  ctx: MutationCtx,
+  run: CheckRunContext,
+  contract: Doc<"contracts">,
+  checkType: ComplianceCheckType
+): Promise<boolean> {
+  if (await findOpenAlert(ctx, contract._id, checkType)) {
+    return false;
+  }
+
+  await ctx.db.insert("agentInsights", {
+    agentId: run.agentId,
+    enterpriseId: run.enterpriseId,
+    type: "compliance_alert",
+    title: `${checkLabel(checkType)} review due: ${contract.title}`,
+    description: `The ${checkLabel(checkType).toLowerCase()} compliance review of this contract is due and needs a reviewer.`,
+    priority: "medium",
+    contractId: contract._id,
+    ...(contract.vendorId ? { vendorId: contract.vendorId } : {}),
+    actionRequired: true,
+    actionTaken: false,
+    isRead: false,
+    createdAt: run.now.toISOString(),
+    data: { checkType, contractTitle: contract.title },
+  });
+  return true;
+}
+
+async function findOpenAlert(ctx: MutationCtx, contractId: Id<"contracts">, checkType: ComplianceCheckType) {
+  const alerts = await ctx.db
+    .query("agentInsights")
+    .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+    .filter((q) => q.and(
+      q.eq(q.field("type"), "compliance_alert"),
+      q.eq(q.field("actionTaken"), false)
+    ))
+    .collect();
+  return alerts.find(alert => alert.data?.checkType === checkType) ?? null;
+}
+
+// ============================================================================
+// VENDOR SCORES
+// ============================================================================
+
+/**
+ * Share of compliant checks across each vendor's active contracts, 0-100
+ */
+async function updateVendorComplianceScores(
+  ctx: MutationCtx,
+  enterpriseId: Id<"enterprises">,
+  vendorIds: Set<Id<"vendors">>
+): Promise<void> {
+  for (const vendorId of vendorIds) {
+    const contracts = await ctx.db
+      .query("contracts")
+      .withIndex("by_enterprise_vendor_status", (q) => q.eq("enterpriseId", enterpriseId).eq("vendorId", vendorId).eq("status", "active"))
+      .collect();
+
+    let total = 0;
+    let compliant = 0;
+    for (const contract of contracts) {
+      const checks = await ctx.db
+        .query("complianceChecks")
+        .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+        .collect();
+      // Checks not yet evaluated say nothing either way
+      const evaluated = checks.filter(check => check.checkedByAgentId || check.checkedBy);
+      total += evaluated.length;
+      compliant += evaluated.filter(check => check.status === "compliant").length;
+    }
+
+    if (total > 0) {
+      await ctx.db.patch(vendorId, { complianceScore: Math.round((compliant / total) * 100), updatedAt: Date.now() });
+    }
+  }
+}
+
+function checkLabel(checkType: ComplianceCheckType): string {
+  const label = checkType.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * A contract's compliance checks, most recently checked first
+ */
+export const getContractComplianceChecks = query({
+  args: {
+    contractId: v.id("contracts"),
+  },
+  handler: async (ctx, args) => {
+    const security = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== security.enterpriseId
+      || !hasScopedPermission(security, await getDepartmentScope(ctx, security), "contracts.read", contractResource(contract))) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+
+    const checks = await ctx.db
+      .query("complianceChecks")
+      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+      .collect();
+    return checks.sort((a, b) => b.checkedAt.localeCompare(a.checkedAt));
+  },
+});
@@ -0,0 +1,243 @@
+import type { ComplianceCheckStatus, ComplianceCheckType, ComplianceIssueSeverity } from "../schema";
+
+/**
+ * Compliance rules
+ *
+ * Which checks the compliance agent keeps for a contract, how it evaluates
+ * them from the contract's data and when each is next due. Financial,
+ * operational, internal policy and data privacy checks are evaluated here;
+ * regulatory and security checks need a person, so when they come due they
+ * are put up for review instead. Everything here is pure.
+ */
+
+export interface ComplianceIssue {
+  description: string;
+  severity: ComplianceIssueSeverity;
+  remediationRequired: boolean;
+  resolvedAt?: string | undefined;
+}
+
+export interface ComplianceSubject {
+  contractType?: string | undefined;
+  status: string;
+  value?: number | undefined;
+  startDate?: string | undefined;
+  endDate?: string | undefined;
+  hasOwner: boolean;
+  hasVendor: boolean;
+  paymentSchedule?: string | undefined;
+  clauses: Array<{
+    clauseType: string;
+    present: boolean;
+    deviationStatus?: string | undefined;
+  }>;
+  // Library clause types whose absence is high risk
+  criticalClauseTypes: string[];
+  overdueObligations: number;
+}
+
+// Days between passing checks of each type
+export const CHECK_INTERVAL_DAYS: Record<ComplianceCheckType, number> = {
+  regulatory: 365,
+  internal_policy: 90,
+  security: 180,
+  data_privacy: 180,
+  financial: 90,
+  operational: 30,
+};
+
+// Failing checks are looked at again sooner
+export const FAILED_CHECK_INTERVAL_DAYS = 7;
+export const REVIEW_CHECK_INTERVAL_DAYS = 14;
+
+// Resolved issues kept on a check, most recently resolved first
+const MAX_RESOLVED_ISSUES = 20;
+
+export const AUTOMATED_CHECK_TYPES: ComplianceCheckType[] = ["internal_policy", "financial", "operational", "data_privacy"];
+
+// Contract types that process or host the enterprise's data
+const DATA_PROCESSING_CONTRACT_TYPES = ["saas", "msa"];
+// Contract types subject to employment or partnership law
+const REGULATED_CONTRACT_TYPES = ["employment", "partnership"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The checks a contract of this type should have
+ */
+export function checkTypesFor(contractType: string | undefined): ComplianceCheckType[] {
+  const types: ComplianceCheckType[] = ["internal_policy", "financial", "operational"];
+  if (contractType && DATA_PROCESSING_CONTRACT_TYPES.includes(contractType)) {
+    types.push("data_privacy", "security");
+  }
+  if (contractType && REGULATED_CONTRACT_TYPES.includes(contractType)) {
+    types.push("regulatory");
+  }
+  return types;
+}
+
+export function isAutomatedCheck(checkType: ComplianceCheckType): boolean {
+  return AUTOMATED_CHECK_TYPES.includes(checkType);
+}
+
+/**
+ * Open issues an automated check finds in a contract. Regulatory and security
+ * checks always return none.
+ */
+export function evaluateComplianceCheck(
+  checkType: ComplianceCheckType,
+  subject: ComplianceSubject,
+  now: Date
+): ComplianceIssue[] {
+  const issues: ComplianceIssue[] = [];
+  const issue = (description: string, severity: ComplianceIssueSeverity, remediationRequired: boolean) =>
+    issues.push({ description, severity, remediationRequired });
+
+  switch (checkType) {
+    case "internal_policy": {
+      if (!subject.hasOwner) {
+        issue("No contract owner is assigned", "medium", true);
+      }
+      if (!subject.hasVendor) {
+        issue("No vendor is linked to the contract", "low", false);
+      }
+      // Clause rules wait until the contract's clauses have been extracted
+      const present = new Set(subject.clauses.filter(clause => clause.present).map(clause => clause.clauseType));
+      for (const clauseType of subject.clauses.length ? subject.criticalClauseTypes : []) {
+        if (!present.has(clauseType)) {
+          issue(`Required ${clauseLabel(clauseType)} clause is missing`, "high", true);
+        }
+      }
+      break;
+    }
+
+    case "financial":
+      if (subject.value === undefined) {
+        issue("Contract value is not recorded", "medium", true);
+      } else if (subject.value < 0) {
+        issue("Contract value is negative", "high", true);
+      }
+      if (!subject.paymentSchedule) {
+        issue("No payment schedule has been extracted or entered", "low", false);
+      }
+      break;
+
+    case "operational": {
+      const start = parseDate(subject.startDate);
+      const end = parseDate(subject.endDate);
+      if (subject.status === "active" && end && end.getTime() < now.getTime() - DAY_MS) {
+        issue("Contract is active past its end date", "high", true);
+      }
+      if (start && end && start.getTime() > end.getTime()) {
+        issue("Contract starts after it ends", "medium", true);
+      }
+      if (!end) {
+        issue("Contract has no end date", "low", false);
+      }
+      if (subject.overdueObligations > 0) {
+        issue(
+          `${subject.overdueObligations} obligation${subject.overdueObligations === 1 ? " is" : "s are"} overdue`,
+          subject.overdueObligations >= 3 ? "high" : "medium",
+          true
+        );
+      }
+      break;
+    }
+
+    case "data_privacy": {
+      const clause = subject.clauses.find(candidate => candidate.clauseType === "data_protection");
+      if (!subject.clauses.length) {
+        issue("Clauses have not been extracted, so data protection terms are unverified", "medium", false);
+      } else if (!clause?.present) {
+        issue("No data protection clause was found", "critical", true);
+      } else if (clause.deviationStatus === "deviation") {
+        issue("Data protection clause deviates from the standard and approved fallbacks", "high", true);
+      }
+      break;
+    }
+
+    case "regulatory":
+    case "security":
+      break;
+  }
+
+  return issues;
+}
+
+/**
+ * Outcome of a check from its open issues. Low-severity findings that need no
+ * remediation do not stop a contract being compliant; other findings that
+ * need none still want a person to look.
+ */
+export function checkStatusFor(issues: ComplianceIssue[]): ComplianceCheckStatus {
+  const open = issues.filter(issue => !issue.resolvedAt);
+  if (open.some(issue => issue.severity === "critical")) return "non_compliant";
+  if (open.some(issue => issue.remediationRequired)) return "remediation_required";
+  if (open.some(issue => issue.severity !== "low")) return "pending_review";
+  return "compliant";
+}
+
+/**
+ * When a check is next due after an evaluation with this outcome
+ */
+export function nextCheckDue(checkType: ComplianceCheckType, status: ComplianceCheckStatus, checkedAt: Date): string {
+  const days = status === "compliant"
+    ? CHECK_INTERVAL_DAYS[checkType]
+    : status === "pending_review" ? REVIEW_CHECK_INTERVAL_DAYS : FAILED_CHECK_INTERVAL_DAYS;
+  return new Date(checkedAt.getTime() + days * DAY_MS).toISOString();
+}
+
+/**
+ * Combine a check's previous issues with a new evaluation. Issues found again
+ * keep their entry, issues no longer found are marked resolved, and already
+ * resolved issues that reappear are opened again as new entries. Only the
+ * most recently resolved issues are kept.
+ */
+export function mergeIssues(previous: ComplianceIssue[], found: ComplianceIssue[], now: string): {
+  issues: ComplianceIssue[];
+  opened: ComplianceIssue[];
+  resolved: ComplianceIssue[];
+} {
+  const foundByDescription = new Map(found.map(issue => [issue.description, issue]));
+  const issues: ComplianceIssue[] = [];
+  const resolved: ComplianceIssue[] = [];
+  const stillOpen = new Set<string>();
+
+  for (const issue of previous) {
+    if (issue.resolvedAt) {
+      issues.push(issue);
+      continue;
+    }
+    const current = foundByDescription.get(issue.description);
+    if (current) {
+      issues.push({ ...current });
+      stillOpen.add(issue.description);
+    } else {
+      const closed = { ...issue, resolvedAt: now };
+      issues.push(closed);
+      resolved.push(closed);
+    }
+  }
+
+  const opened = found.filter(issue => !stillOpen.has(issue.description));
+  issues.push(...opened);
+
+  const keptResolved = new Set(
+    issues
+      .filter(issue => issue.resolvedAt)
+      .sort((a, b) => b.resolvedAt!.localeCompare(a.resolvedAt!))
+      .slice(0, MAX_RESOLVED_ISSUES)
+  );
+
+  return { issues: issues.filter(issue => !issue.resolvedAt || keptResolved.has(issue)), opened, resolved };
+}
+
+function clauseLabel(clauseType: string): string {
+  return clauseType.replace(/_/g, " ");
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
@@ -11,6 +11,10 @@ import {
   AgentMetrics,
   isFinancialTask 
 } from "../shared/agent_types";
+import { CurrencyConverter } from "../currency/fxRates";
+import { DEFAULT_CURRENCY, formatMoney, parseAmount } from "../currency/currencyConversion";
+import { parsePaymentSchedule } from "./paymentSchedule";
+import { getAgentEnterpriseId, getEnterpriseAgent } from "./agentRuntime";
 
 /**
  * Financial Agent
@@ -101,10 +105,12 @@ export const run = internalMutation({
   },
   handler: async (ctx, args) => {
     const startTime = Date.now();
+    const enterpriseId = await getAgentEnterpriseId(ctx, args.agentId);
     
     try {
       await ctx.db.insert("agentLogs", {
         agentId: args.agentId,
+        enterpriseId,
         level: "info",
         message: "Financial agent starting run",
         timestamp: new Date().toISOString(),
@@ -117,22 +123,22 @@ export const run = internalMutation({
       });
 
       // Process assigned analysis tasks
-      const tasksProcessed = await processFinancialTasks(ctx, args.agentId);
+      const tasksProcessed = await processFinancialTasks(ctx, args.agentId, enterpriseId);
       
       // Analyze contract portfolio
-      const portfolioInsights = await analyzeContractPortfolio(ctx, args.agentId);
+      const portfolioInsights = await analyzeContractPortfolio(ctx, args.agentId, enterpriseId);
       
       // Check payment schedules
-      const paymentAlerts = await checkPaymentSchedules(ctx, args.agentId);
+      const paymentAlerts = await checkPaymentSchedules(ctx, args.agentId, enterpriseId);
       
       // Identify cost optimization opportunities
-      const savingsFound = await findCostOptimizations(ctx, args.agentId);
+      const savingsFound = await findCostOptimizations(ctx, args.agentId, enterpriseId);
       
       // Detect pricing anomalies
-      const anomaliesDetected = await detectPricingAnomalies(ctx, args.agentId);
+      const anomaliesDetected = await detectPricingAnomalies(ctx, args.agentId, enterpriseId);
       
       // Generate financial forecast
-      await generateFinancialForecast(ctx, args.agentId);
+      await generateFinancialForecast(ctx, args.agentId, enterpriseId);
 
       // Update metrics
       await updateAgentMetrics(ctx, args.agentId, {
@@ -161,11 +167,12 @@ export const run = internalMutation({
         timestamp: new Date().toISOString()
       };
       
-      await handleAgentError(ctx, args.agentId, error);
+      await handleAgentError(ctx, args.agentId, enterpriseId, error);
       
       // Log detailed error for debugging
       await ctx.db.insert("agentLogs", {
         agentId: args.agentId,
+        enterpriseId,
         level: "error",
         message: `Financial agent run failed: ${errorMessage}`,
         data: errorDetails,
@@ -190,13 +197,14 @@ export const run = internalMutation({
 
 async function processFinancialTasks(
   ctx: AgentMutationCtx,
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   // Get pending tasks assigned to this agent
   const tasks = await ctx.db
     .query("agentTasks")
     .withIndex("by_assigned_agent", (q) => q.eq("assignedAgentId", agentId))
-    .filter((q) => q.eq(q.field("status"), "pending"))
+    .filter((q) => q.and(q.eq(q.field("status"), "pending"), q.eq(q.field("enterpriseId"), enterpriseId)))
     .take(FINANCIAL_CONFIG.batchSize);
 
   let processed = 0;
@@ -264,6 +272,7 @@ async function processFinancialTasks(
 
       await ctx.db.insert("agentLogs", {
         agentId,
+        enterpriseId,
         level: "error",
         message: `Failed to process ${taskType} task ${task._id}`,
         data: { 
@@ -299,7 +308,7 @@ async function analyzeContract(
   }
   
   const contract = await ctx.db.get(task.contractId);
-  if (!contract) {
+  if (!contract || contract.enterpriseId !== task.enterpriseId) {
     throw new Error("Not Found: Contract does not exist");
   }
 
@@ -313,6 +322,7 @@ async function analyzeContract(
   // Extract and analyze pricing
   if (contract.extractedPricing) {
     const value = parseContractValue(contract.extractedPricing);
+    const currency = await new CurrencyConverter(ctx).contractCurrency(contract);
     analysis.financialSummary.totalValue = value;
     analysis.financialSummary.valueCategory = categorizeValue(value);
     
@@ -321,7 +331,7 @@ async function analyzeContract(
       analysis.risks.push({
         type: "high_value_exposure",
         severity: "medium",
-        description: `High value contract (${formatCurrency(value)}) represents significant financial commitment`,
+        description: `High value contract (${formatCurrency(value, currency)}) represents significant financial commitment`,
         mitigationStrategy: "Ensure proper approval chain and payment milestones",
       });
     }
@@ -367,6 +377,7 @@ async function analyzeContract(
   if (analysis.risks.length > 0) {
     const insightData: {
       agentId: Id<"agents">;
+      enterpriseId: Id<"enterprises">;
       type: "financial_risk";
       title: string;
       description: string;
@@ -380,6 +391,7 @@ async function analyzeContract(
       vendorId?: Id<"vendors">;
     } = {
       agentId,
+      enterpriseId: contract.enterpriseId,
       type: "financial_risk",
       title: `Financial Risks Identified: ${contract.title}`,
       description: `${analysis.risks.length} financial risk(s) identified requiring attention`,
@@ -409,21 +421,27 @@ async function analyzeContract(
 
 async function analyzeContractPortfolio(
   ctx: AgentMutationCtx,
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   let insightsCreated = 0;
 
   // Get all active contracts
   const activeContracts = await ctx.db
     .query("contracts")
-    .withIndex("by_status_and_enterpriseId")
-    .filter((q) => q.eq(q.field("status"), "active"))
+    .withIndex("by_status_and_enterpriseId", (q) => q.eq("enterpriseId", enterpriseId).eq("status", "active"))
     .collect();
 
   if (activeContracts.length === 0) return 0;
 
+  // Values are converted to one currency so contracts can be summed; those
+  // without a rate are counted rather than added at face value
+  const converter = new CurrencyConverter(ctx);
+
   // Calculate portfolio metrics
   const portfolioMetrics = {
+    currency: DEFAULT_CURRENCY,
+    unconvertedContracts: 0,
     totalValue: 0,
     totalAnnualValue: 0,
     contractsByType: {} as Record<string, number>,
@@ -435,11 +453,13 @@ async function analyzeContractPortfolio(
 
   // Analyze each contract
   for (const contract of activeContracts) {
-    const value = parseContractValue(contract.extractedPricing || "0");
-    const annualValue = calculateAnnualizedValue(contract);
-    
-    portfolioMetrics.totalValue += value;
-    portfolioMetrics.totalAnnualValue += annualValue;
+    const rate = await contractConversionRate(converter, contract);
+    if (rate === null) {
+      portfolioMetrics.unconvertedContracts++;
+    } else {
+      portfolioMetrics.totalValue += parseContractValue(contract.extractedPricing || "0") * rate;
+      portfolioMetrics.totalAnnualValue += calculateAnnualizedValue(contract) * rate;
+    }
     
     // Group by type
     const type = contract.contractType || "other";
@@ -462,7 +482,8 @@ async function analyzeContractPortfolio(
     }
   }
 
-  portfolioMetrics.averageContractValue = portfolioMetrics.totalValue / activeContracts.length;
+  const convertedCount = activeContracts.length - portfolioMetrics.unconvertedContracts;
+  portfolioMetrics.averageContractValue = convertedCount > 0 ? portfolioMetrics.totalValue / convertedCount : 0;
 
   // Check for concentration risk
   const vendorConcentration = Object.entries(portfolioMetrics.contractsByVendor)
@@ -472,6 +493,7 @@ async function analyzeContractPortfolio(
     insightsCreated++;
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "vendor_risk",
       title: "Vendor Concentration Risk Detected",
       description: `${vendorConcentration.length} vendor(s) have multiple active contracts, creating dependency risk`,
@@ -491,6 +513,7 @@ async function analyzeContractPortfolio(
   insightsCreated++;
   await ctx.db.insert("agentInsights", {
     agentId,
+    enterpriseId,
     type: "report",
     title: "Contract Portfolio Financial Summary",
     description: `Total portfolio value: ${formatCurrency(portfolioMetrics.totalAnnualValue)}/year across ${activeContracts.length} contracts`,
@@ -507,14 +530,14 @@ async function analyzeContractPortfolio(
 
 async function checkPaymentSchedules(
   ctx: AgentMutationCtx,
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   let alertsCreated = 0;
   
   const contracts = await ctx.db
     .query("contracts")
-    .withIndex("by_status_and_enterpriseId")
-    .filter((q) => q.eq(q.field("status"), "active"))
+    .withIndex("by_status_and_enterpriseId", (q) => q.eq("enterpriseId", enterpriseId).eq("status", "active"))
     .collect();
 
   const upcomingPayments: any[] = [];
@@ -550,6 +573,7 @@ async function checkPaymentSchedules(
     
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "alert",
       title: "Upcoming Payment Obligations",
       description: `${upcomingPayments.length} payment(s) totaling ${formatCurrency(totalDue)} due within ${FINANCIAL_CONFIG.alerts.paymentDueDays} days`,
@@ -565,15 +589,13 @@ async function checkPaymentSchedules(
     });
 
     // Create notification task
-    const notificationsAgent = await ctx.db
-      .query("agents")
-      .withIndex("by_type", (q: any) => q.eq("type", "notifications"))
-      .first();
+    const notificationsAgent = await getEnterpriseAgent(ctx, enterpriseId, "notifications");
 
     if (notificationsAgent) {
       await ctx.db.insert("agentTasks", {
         assignedAgentId: notificationsAgent._id,
         createdByAgentId: agentId,
+        enterpriseId,
         taskType: "send_notification",
         status: "pending",
         priority: "high",
@@ -595,17 +617,18 @@ async function checkPaymentSchedules(
 
 async function findCostOptimizations(
   ctx: AgentMutationCtx,
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   let opportunitiesFound = 0;
 
   // Analyze contracts by vendor for bundling opportunities
   const contractsByVendor = await ctx.db
     .query("contracts")
-    .withIndex("by_status_and_enterpriseId")
-    .filter((q) => q.eq(q.field("status"), "active"))
+    .withIndex("by_status_and_enterpriseId", (q) => q.eq("enterpriseId", enterpriseId).eq("status", "active"))
     .collect();
 
+  const converter = new CurrencyConverter(ctx);
   const vendorGroups: Record<string, any[]> = {};
   
   for (const contract of contractsByVendor) {
@@ -621,7 +644,7 @@ async function findCostOptimizations(
   // Check for bundling opportunities
   for (const [vendorId, contracts] of Object.entries(vendorGroups)) {
     if (contracts.length >= 2) {
-      const totalValue = contracts.reduce((sum, c) => sum + parseContractValue(c.extractedPricing || "0"), 0);
+      const totalValue = await sumConvertedValues(converter, contracts);
       const potentialSavings = totalValue * 0.1; // Assume 10% bundling discount
       
       if (potentialSavings >= FINANCIAL_CONFIG.alerts.savingsOpportunityMin) {
@@ -629,6 +652,7 @@ async function findCostOptimizations(
         
         await ctx.db.insert("agentInsights", {
           agentId,
+          enterpriseId,
           type: "cost_optimization",
           title: "Contract Bundling Opportunity",
           description: `Potential savings of ${formatCurrency(potentialSavings)} by bundling ${contracts.length} contracts with the same vendor`,
@@ -640,6 +664,7 @@ async function findCostOptimizations(
           createdAt: new Date().toISOString(),
           data: {
             vendorId,
+            currency: DEFAULT_CURRENCY,
             contractCount: contracts.length,
             totalValue,
             potentialSavings,
@@ -666,10 +691,11 @@ async function findCostOptimizations(
     if (contracts.length >= 3 && type !== "other") {
       opportunitiesFound++;
       
-      const totalValue = contracts.reduce((sum, c) => sum + parseContractValue(c.extractedPricing || "0"), 0);
+      const totalValue = await sumConvertedValues(converter, contracts);
       
       await ctx.db.insert("agentInsights", {
         agentId,
+        enterpriseId,
         type: "cost_optimization",
         title: `Multiple ${type} Contracts Detected`,
         description: `${contracts.length} active ${type} contracts worth ${formatCurrency(totalValue)}. Review for potential consolidation.`,
@@ -680,6 +706,7 @@ async function findCostOptimizations(
         createdAt: new Date().toISOString(),
         data: {
           contractType: type,
+          currency: DEFAULT_CURRENCY,
           contractCount: contracts.length,
           totalValue,
           averageValue: totalValue / contracts.length,
@@ -693,26 +720,32 @@ async function findCostOptimizations(
 
 async function detectPricingAnomalies(
   ctx: AgentMutationCtx,
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   let anomaliesFound = 0;
 
   // Get contracts grouped by type for comparison
   const contractsByType = await ctx.db
     .query("contracts")
-    .withIndex("by_contractType_and_enterpriseId")
+    .withIndex("by_contractType_and_enterpriseId", (q) => q.eq("enterpriseId", enterpriseId))
     .collect();
 
-  const typeGroups: Record<string, any[]> = {};
+  // Compare values in one currency; contracts without a rate are left out
+  const converter = new CurrencyConverter(ctx);
+  const typeGroups: Record<string, Array<{ contract: Doc<"contracts">; value: number }>> = {};
   
   for (const contract of contractsByType) {
     if (!contract.extractedPricing) continue;
+
+    const rate = await contractConversionRate(converter, contract);
+    if (rate === null) continue;
     
     const type = contract.contractType || "other";
     if (!typeGroups[type]) {
       typeGroups[type] = [];
     }
-    typeGroups[type].push(contract);
+    typeGroups[type].push({ contract, value: parseContractValue(contract.extractedPricing) * rate });
   }
 
   // Analyze each type group for anomalies
@@ -720,7 +753,7 @@ async function detectPricingAnomalies(
     if (contracts.length < FINANCIAL_CONFIG.analysis.minDataPointsForTrend) continue;
 
     const values = contracts
-      .map(c => parseContractValue(c.extractedPricing))
+      .map(c => c.value)
       .filter(v => v > 0);
 
     if (values.length === 0) continue;
@@ -728,8 +761,7 @@ async function detectPricingAnomalies(
     const stats = calculateStatistics(values);
     
     // Check each contract for anomalies
-    for (const contract of contracts) {
-      const value = parseContractValue(contract.extractedPricing);
+    for (const { contract, value } of contracts) {
       const zScore = Math.abs((value - stats.mean) / stats.stdDev);
       
       if (zScore > 2) { // More than 2 standard deviations from mean
@@ -737,18 +769,20 @@ async function detectPricingAnomalies(
         
         await ctx.db.insert("agentInsights", {
           agentId,
+          enterpriseId,
           type: "anomaly_detection",
           title: `Unusual Pricing Detected: ${contract.title}`,
           description: `Contract value (${formatCurrency(value)}) is ${zScore.toFixed(1)} standard deviations from typical ${type} contracts`,
           priority: "medium",
           contractId: contract._id,
-          vendorId: contract.vendorId || undefined,
+          ...(contract.vendorId ? { vendorId: contract.vendorId } : {}),
           actionRequired: true,
           actionTaken: false,
           isRead: false,
           createdAt: new Date().toISOString(),
           data: {
             contractValue: value,
+            currency: DEFAULT_CURRENCY,
             typeAverage: stats.mean,
             typeStdDev: stats.stdDev,
             zScore,
@@ -759,30 +793,119 @@ async function detectPricingAnomalies(
     }
   }
 
+  anomaliesFound += await reportFlaggedSpend(ctx, agentId, enterpriseId, converter);
+
   return anomaliesFound;
 }
 
+/**
+ * One insight per contract for invoices that exceed its pricing or fall
+ * outside its term, covering flagged spend not reported on an earlier run
+ */
+async function reportFlaggedSpend(
+  ctx: AgentMutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">,
+  converter: CurrencyConverter
+): Promise<number> {
+  const unreported = (await ctx.db
+    .query("spendRecords")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+    .collect())
+    .filter(record => record.contractId && record.flags.length > 0 && !record.anomalyReportedAt);
+
+  const byContract = new Map<Id<"contracts">, Doc<"spendRecords">[]>();
+  for (const record of unreported) {
+    byContract.set(record.contractId!, [...(byContract.get(record.contractId!) ?? []), record]);
+  }
+
+  let reported = 0;
+  for (const [contractId, records] of byContract) {
+    const contract = await ctx.db.get(contractId);
+    if (!contract) continue;
+
+    const currency = await converter.contractCurrency(contract);
+    const invoices = await ctx.db
+      .query("spendRecords")
+      .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+      .collect();
+
+    let invoiced = 0;
+    for (const invoice of invoices) {
+      if (invoice.type !== "invoice") continue;
+      const converted = await converter.convert(contract.enterpriseId, invoice.amount, invoice.currency, currency, invoice.spendDate);
+      if (converted) invoiced += converted.amount;
+    }
+
+    const contractValue = contract.value ?? (contract.extractedPricing ? parseContractValue(contract.extractedPricing) : 0);
+    const overPricing = records.filter(record => record.flags.includes("exceeds_contract_pricing"));
+    const outsideTerm = records.filter(record => record.flags.includes("outside_contract_term"));
+    const findings = [
+      ...(overPricing.length > 0 ? [`invoiced ${formatCurrency(invoiced, currency)} against a contract value of ${formatCurrency(contractValue, currency)}`] : []),
+      ...(outsideTerm.length > 0 ? [`${outsideTerm.length} document(s) dated outside the contract term`] : []),
+    ];
+
+    await ctx.db.insert("agentInsights", {
+      agentId,
+      enterpriseId,
+      type: "anomaly_detection",
+      title: `Spend Outside Contract Terms: ${contract.title}`,
+      description: `Supplier spend ${findings.join(" and ")}`,
+      priority: overPricing.length > 0 ? "high" : "medium",
+      contractId,
+      ...(contract.vendorId ? { vendorId: contract.vendorId } : {}),
+      actionRequired: true,
+      actionTaken: false,
+      isRead: false,
+      createdAt: new Date().toISOString(),
+      data: {
+        currency,
+        contractValue,
+        invoicedAmount: invoiced,
+        spendRecordIds: records.map(record => record._id),
+        documentNumbers: records.map(record => record.documentNumber),
+        exceedsContractPricing: overPricing.length,
+        outsideContractTerm: outsideTerm.length,
+      },
+    });
+
+    const now = new Date().toISOString();
+    for (const record of records) {
+      await ctx.db.patch(record._id, { anomalyReportedAt: now });
+    }
+    reported++;
+  }
+
+  return reported;
+}
+
 async function generateFinancialForecast(
   ctx: AgentMutationCtx,
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<void> {
   // Get historical contract data
   const historicalContracts = await ctx.db
     .query("contracts")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
     .collect();
 
   if (historicalContracts.length < 10) return; // Need sufficient data
 
   // Calculate monthly spend trends
+  const converter = new CurrencyConverter(ctx);
   const monthlySpend: Record<string, number> = {};
   const now = new Date();
   
   for (const contract of historicalContracts) {
     if (!contract._creationTime) continue;
+
+    const rate = await contractConversionRate(converter, contract);
+    if (rate === null) continue;
     
     const contractDate = new Date(contract._creationTime);
     const monthKey = `${contractDate.getFullYear()}-${(contractDate.getMonth() + 1).toString().padStart(2, '0')}`;
-    const value = parseContractValue(contract.extractedPricing || "0");
+    const value = parseContractValue(contract.extractedPricing || "0") * rate;
     
     monthlySpend[monthKey] = (monthlySpend[monthKey] || 0) + value;
   }
@@ -811,6 +934,7 @@ async function generateFinancialForecast(
 
   await ctx.db.insert("agentInsights", {
     agentId,
+    enterpriseId,
     type: "trend_analysis",
     title: "Quarterly Spend Forecast",
     description: `Projected contract spend for next quarter: ${formatCurrency(totalProjected)} based on ${growthRate > 0 ? 'increasing' : 'decreasing'} trend`,
@@ -820,6 +944,7 @@ async function generateFinancialForecast(
     isRead: false,
     createdAt: new Date().toISOString(),
     data: {
+      currency: DEFAULT_CURRENCY,
       historicalAverage: averageMonthlySpend,
       growthRate: (growthRate * 100).toFixed(1) + '%',
       projectedMonths: projectedSpend,
@@ -860,29 +985,25 @@ function categorizeError(error: unknown): 'validation' | 'permission' | 'not_fou
 // ============================================================================
 
 function parseContractValue(priceString: string): number {
-  if (!priceString) return 0;
-  
-  // Remove currency symbols and clean the string
-  const cleaned = priceString.replace(/[^0-9.,]/g, '');
-  
-  // Handle different number formats
-  let normalized = cleaned;
-  
-  // If there's both comma and period, assume comma is thousands separator
-  if (cleaned.includes(',') && cleaned.includes('.')) {
-    normalized = cleaned.replace(/,/g, '');
-  } else if (cleaned.includes(',')) {
-    // Check if comma is decimal separator (European format)
-    const parts = cleaned.split(',');
-    if (parts && parts.length === 2 && parts[1] && parts[1]!.length <= 2) {
-      normalized = cleaned.replace(',', '.');
-    } else {
-      normalized = cleaned.replace(/,/g, '');
-    }
+  return parseAmount(priceString);
+}
+
+/**
+ * Rate converting a contract's amounts into the portfolio currency using its
+ * enterprise's FX rates; null when there is no rate
+ */
+async function contractConversionRate(converter: CurrencyConverter, contract: Doc<"contracts">): Promise<number | null> {
+  const conversion = await converter.convert(contract.enterpriseId, 1, await converter.contractCurrency(contract), DEFAULT_CURRENCY);
+  return conversion ? conversion.rate : null;
+}
+
+async function sumConvertedValues(converter: CurrencyConverter, contracts: Doc<"contracts">[]): Promise<number> {
+  let total = 0;
+  for (const contract of contracts) {
+    const rate = await contractConversionRate(converter, contract);
+    if (rate !== null) total += parseContractValue(contract.extractedPricing || "0") * rate;
   }
-  
-  const value = parseFloat(normalized);
-  return isNaN(value) ? 0 : value;
+  return total;
 }
 
 function categorizeValue(value: number): string {
@@ -893,13 +1014,8 @@ function categorizeValue(value: number): string {
   return "minimal";
 }
 
-function formatCurrency(value: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(value);
+function formatCurrency(value: number, currency: string = DEFAULT_CURRENCY): string {
+  return formatMoney(value, currency);
 }
 
 function analyzePaymentTerms(scheduleText: string): {
@@ -952,23 +1068,27 @@ async function compareWithSimilarContracts(ctx: AgentMutationCtx, contract: Doc<
   // Get similar contracts
   const similarContracts = await ctx.db
     .query("contracts")
-    .withIndex("by_contractType_and_enterpriseId")
-    .filter((q) => 
-      q.and(
-        q.eq(q.field("contractType"), contract.contractType),
-        q.neq(q.field("_id"), contract._id)
-      )
+    .withIndex("by_contractType_and_enterpriseId", (q) =>
+      q.eq("enterpriseId", contract.enterpriseId).eq("contractType", contract.contractType)
     )
+    .filter((q) => q.neq(q.field("_id"), contract._id))
     .take(FINANCIAL_CONFIG.analysis.benchmarkSampleSize);
 
   if (similarContracts.length === 0) {
     return { priceVariance: 0, potentialSavings: 0 };
   }
 
+  // Benchmarks are converted into this contract's currency
+  const converter = new CurrencyConverter(ctx);
+  const currency = await converter.contractCurrency(contract);
   const currentValue = parseContractValue(contract.extractedPricing || "0");
-  const similarValues = similarContracts
-    .map((c) => parseContractValue(c.extractedPricing || "0"))
-    .filter((v) => v > 0);
+  const similarValues: number[] = [];
+  for (const similar of similarContracts) {
+    const value = parseContractValue(similar.extractedPricing || "0");
+    if (value <= 0) continue;
+    const converted = await converter.convert(similar.enterpriseId, value, await converter.contractCurrency(similar), currency);
+    if (converted) similarValues.push(converted.amount);
+  }
 
   if (similarValues.length === 0 || currentValue === 0) {
     return { priceVariance: 0, potentialSavings: 0 };
@@ -1171,9 +1291,15 @@ async function updateAgentMetrics(
   });
 }
 
-async function handleAgentError(ctx: AgentMutationCtx, agentId: Id<"agents">, error: unknown): Promise<void> {
+async function handleAgentError(
+  ctx: AgentMutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">,
+  error: unknown
+): Promise<void> {
   await ctx.db.insert("agentLogs", {
     agentId,
+    enterpriseId,
     level: "error",
     message: "Financial agent failed",
     data: { error: error instanceof Error ? error.message : String(error) },
@@ -1520,151 +1646,6 @@ function calculateGrowthRate(values: number[]): number {
   return avgValue > 0 ? slope / avgValue : 0; // Growth rate as percentage
 }
 
-function parsePaymentSchedule(scheduleText: string): Array<{ amount: number; dueDate: Date }> {
-  const payments: Array<{ amount: number; dueDate: Date }> = [];
-  
-  // Comprehensive payment schedule parsing with multiple patterns
-  const lines = scheduleText.split(/[\n;,]/);
-  
-  // Common payment patterns to match
-  const patterns = [
-    // Pattern 1: "$1,000 due on 2024-01-15" or "1000 USD by Jan 15, 2024"
-    /\$?([\d,]+(?:\.\d{2})?)\s*(?:USD)?\s*(?:due|by|on)?\s*(\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4}|[A-Za-z]+\s+\d{1,2},?\s+\d{4})/i,
-    // Pattern 2: "Payment of $5,000 on January 15th, 2024"
-    /payment\s+of\s+\$?([\d,]+(?:\.\d{2})?)\s*(?:on|by)?\s*(\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4}|[A-Za-z]+\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4})/i,
-    // Pattern 3: "15/01/2024: $1,000" or "2024-01-15 - 1000"
-    /(\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4})[:\s-]+\$?([\d,]+(?:\.\d{2})?)/i,
-    // Pattern 4: "Monthly payment: $1,000" (for recurring)
-    /(monthly|quarterly|annual|yearly)\s+payment[:\s]+\$?([\d,]+(?:\.\d{2})?)/i,
-    // Pattern 5: Milestone payments "Upon completion: $10,000"
-    /(?:upon|after|on)\s+([\w\s]+):\s*\$?([\d,]+(?:\.\d{2})?)/i,
-  ];
-  
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    if (!trimmedLine) continue;
-    
-    // Try each pattern
-    for (const pattern of patterns) {
-      const match = trimmedLine.match(pattern);
-      
-      if (match) {
-        let amount: number = 0;
-        let dateStr: string = '';
-        let isRecurring = false;
-        
-        // Handle different capture group positions based on pattern
-        if (pattern.source.includes('monthly|quarterly')) {
-          // Recurring payment pattern
-          const frequency = match[1]!.toLowerCase();
-          amount = parseFloat(match[2]!.replace(/[,$]/g, ''));
-          
-          // Generate dates based on frequency
-          const now = new Date();
-          const dates = generateRecurringDates(frequency, now, 12); // Next 12 occurrences
-          
-          dates.forEach(date => {
-            payments.push({ amount, dueDate: date });
-          });
-          isRecurring = true;
-        } else if (match[1] && match[1].match(/\d/)) {
-          // Date comes first
-          dateStr = match[1]!;
-          amount = parseFloat(match[2]!.replace(/[,$]/g, ''));
-        } else {
-          // Amount comes first
-          amount = parseFloat(match[1]!.replace(/[,$]/g, ''));
-          dateStr = match[2]!;
-        }
-        
-        if (!isRecurring && dateStr) {
-          const parsedDate = parseDate(dateStr);
-          if (parsedDate && !isNaN(parsedDate.getTime()) && amount > 0) {
-            payments.push({ amount, dueDate: parsedDate });
-          }
-        }
-        
-        break; // Move to next line after successful match
-      }
-    }
-  }
-  
-  // Sort payments by due date
-  return payments.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
-}
-
-// Helper function to parse various date formats
-function parseDate(dateStr: string): Date | null {
-  // Try standard formats first
-  let date = new Date(dateStr);
-  if (!isNaN(date.getTime())) return date;
-  
-  // Convert MM/DD/YYYY to YYYY-MM-DD
-  if (dateStr.includes('/')) {
-    const parts = dateStr.split('/');
-    if (parts.length === 3) {
-      const [month, day, year] = parts;
-      date = new Date(`${year}-${month!.padStart(2, '0')}-${day!.padStart(2, '0')}`);
-      if (!isNaN(date.getTime())) return date;
-    }
-  }
-  
-  // Try parsing month names "January 15, 2024" or "15 Jan 2024"
-  const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
-  const monthMatch = dateStr.toLowerCase().match(new RegExp(`(\\d{1,2})\\s*(${monthNames.join('|')})[a-z]*\\s*(\\d{4})|` +
-    `(${monthNames.join('|')})[a-z]*\\s*(\\d{1,2}),?\\s*(\\d{4})`, 'i'));
-  
-  if (monthMatch) {
-    let day: string, month: string, year: string;
-    if (monthMatch[1]) {
-      // Format: "15 Jan 2024"
-      day = monthMatch[1];
-      month = monthMatch[2]!;
-      year = monthMatch[3]!;
-    } else {
-      // Format: "Jan 15, 2024"
-      month = monthMatch[4]!;
-      day = monthMatch[5]!;
-      year = monthMatch[6]!;
-    }
-    
-    const monthIndex = monthNames.indexOf(month.toLowerCase().slice(0, 3)) + 1;
-    date = new Date(`${year}-${monthIndex.toString().padStart(2, '0')}-${day.padStart(2, '0')}`);
-    if (!isNaN(date.getTime())) return date;
-  }
-  
-  return null;
-}
-
-// Generate recurring payment dates based on frequency
-function generateRecurringDates(frequency: string, startDate: Date, count: number): Date[] {
-  const dates: Date[] = [];
-  const date = new Date(startDate);
-  
-  for (let i = 0; i < count; i++) {
-    switch (frequency.toLowerCase()) {
-      case 'monthly':
-        date.setMonth(date.getMonth() + 1);
-        break;
-      case 'quarterly':
-        date.setMonth(date.getMonth() + 3);
-        break;
-      case 'annual':
-      case 'yearly':
-        date.setFullYear(date.getFullYear() + 1);
-        break;
-      case 'weekly':
-        date.setDate(date.getDate() + 7);
-        break;
-      default:
-        date.setMonth(date.getMonth() + 1); // Default to monthly
-    }
-    dates.push(new Date(date));
-  }
-  
-  return dates;
-}
-
 function generateRiskRecommendations(riskFactors: string[], riskLevel: string): string[] {
   const recommendations: string[] = [];
   
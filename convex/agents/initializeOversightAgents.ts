@@ -0,0 +1,107 @@
+import { mutation } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
+import { getEnterpriseAgent } from "./agentRuntime";
+
+/**
+ * Initialize the compliance, risk and audit agents
+ * Creates whichever of the caller's enterprise's oversight agents are missing
+ */
+
+const OVERSIGHT_AGENTS = [
+  {
+    type: "compliance" as const,
+    name: "Compliance Agent",
+    description: "Keeps compliance checks for every active contract, evaluates them as they fall due and raises alerts for new issues.",
+    runIntervalMinutes: 60,
+  },
+  {
+    type: "risk" as const,
+    name: "Risk Agent",
+    description: "Keeps the risk register: a composite risk score for each active contract and each vendor, with alerts when risk turns high.",
+    runIntervalMinutes: 60,
+  },
+  {
+    type: "audit" as const,
+    name: "Audit Agent",
+    description: "Samples contracts for inconsistent or incomplete records and reviews the audit log for failure bursts, bulk deletions and exports, and chain gaps.",
+    runIntervalMinutes: 240,
+  },
+];
+
+export const initializeOversightAgents = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required");
+    }
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "agents.manage");
+    const enterpriseId = securityContext.enterpriseId;
+
+    const agentIds: Partial<Record<(typeof OVERSIGHT_AGENTS)[number]["type"], Id<"agents">>> = {};
+    const created: string[] = [];
+
+    for (const definition of OVERSIGHT_AGENTS) {
+      const existingAgent = await getEnterpriseAgent(ctx, enterpriseId, definition.type);
+      if (existingAgent) {
+        agentIds[definition.type] = existingAgent._id;
+        continue;
+      }
+
+      const config = {
+        runIntervalMinutes: definition.runIntervalMinutes,
+        retryAttempts: 3,
+        timeoutMinutes: 15,
+        enabled: true,
+        priority: "medium" as const,
+      };
+
+      const agentId = await ctx.db.insert("agents", {
+        enterpriseId,
+        name: definition.name,
+        type: definition.type,
+        status: "inactive",
+        description: definition.description,
+        isEnabled: true,
+        runCount: 0,
+        errorCount: 0,
+        config,
+        metrics: {
+          totalRuns: 0,
+          successfulRuns: 0,
+          failedRuns: 0,
+          averageRunTime: 0,
+          dataProcessed: 0,
+          insightsGenerated: 0,
+        },
+        createdAt: new Date().toISOString(),
+      });
+
+      await ctx.db.insert("agentLogs", {
+        agentId,
+        enterpriseId,
+        level: "info",
+        message: `${definition.name} initialized successfully`,
+        timestamp: new Date().toISOString(),
+        category: "agent_lifecycle",
+        data: {
+          initializedBy: identity.email || identity.nickname || identity.subject,
+          config,
+        },
+      });
+
+      agentIds[definition.type] = agentId;
+      created.push(definition.name);
+    }
+
+    return {
+      success: true,
+      message: created.length
+        ? `Initialized ${created.join(", ")}`
+        : "Compliance, risk and audit agents already exist",
+      agentIds,
+    };
+  },
+});
@@ -1,9 +1,11 @@
 import { mutation } from "../_generated/server";
 import { v } from "convex/values";
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
+import { getEnterpriseAgent } from "./agentRuntime";
 
 /**
  * Initialize the Vendor Agent
- * This function creates the vendor agent in the database with default configuration
+ * This function creates the caller's enterprise's vendor agent with default configuration
  */
 export const initializeVendorAgent = mutation({
   args: {},
@@ -12,12 +14,12 @@ export const initializeVendorAgent = mutation({
     if (!identity) {
       throw new Error("Authentication required");
     }
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "agents.manage");
+    const enterpriseId = securityContext.enterpriseId;
 
     // Check if vendor agent already exists
-    const existingAgent = await ctx.db
-      .query("agents")
-      .withIndex("by_type", (q) => q.eq("type", "vendor"))
-      .first();
+    const existingAgent = await getEnterpriseAgent(ctx, enterpriseId, "vendor");
 
     if (existingAgent) {
       return {
@@ -50,6 +52,7 @@ export const initializeVendorAgent = mutation({
 
     // Create the vendor agent
     const agentId = await ctx.db.insert("agents", {
+      enterpriseId,
       name: "Vendor Agent",
       type: "vendor",
       status: "inactive",
@@ -65,6 +68,7 @@ export const initializeVendorAgent = mutation({
     // Log the initialization
     await ctx.db.insert("agentLogs", {
       agentId,
+      enterpriseId,
       level: "info",
       message: "Vendor agent initialized successfully",
       timestamp: new Date().toISOString(),
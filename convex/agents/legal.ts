@@ -1,7 +1,13 @@
 // convex/agents/legal.ts
-import { internalMutation, internalQuery } from "../_generated/server";
+import { internalMutation, internalQuery, MutationCtx, QueryCtx } from "../_generated/server";
 import { v } from "convex/values";
 import { Id } from "../_generated/dataModel";
+import { emitWebhookEvent } from "../integrations/webhookEvents";
+import { getContractDocumentText } from "../documents/contractTexts";
+import { compareContractToLibrary, getActiveClauseLibrary } from "../clauses/clauseLibrary";
+import { getClauseKeywords, isCriticalClause } from "../clauses/clauseComparison";
+import { assessAmendmentChanges, diffTerms, termsAtVersion } from "../amendments/contractLineage";
+import { getAgentEnterpriseId, getEnterpriseAgent } from "./agentRuntime";
 
 /**
  * Legal Agent
@@ -117,10 +123,12 @@ export const run = internalMutation({
   },
   handler: async (ctx, args) => {
     const startTime = Date.now();
+    const enterpriseId = await getAgentEnterpriseId(ctx, args.agentId);
     
     try {
       await ctx.db.insert("agentLogs", {
         agentId: args.agentId,
+        enterpriseId,
         level: "info",
         message: "Legal agent starting run",
         timestamp: new Date().toISOString(),
@@ -133,25 +141,25 @@ export const run = internalMutation({
       });
 
       // Process assigned legal review tasks
-      const tasksProcessed = await processLegalTasks(ctx, args.agentId);
+      const tasksProcessed = await processLegalTasks(ctx, args.agentId, enterpriseId);
       
       // Review contracts for legal compliance
-      const complianceReviews = await reviewContractCompliance(ctx, args.agentId);
+      const complianceReviews = await reviewContractCompliance(ctx, args.agentId, enterpriseId);
       
       // Analyze contract clauses and terms
-      const clauseAnalysis = await analyzeContractClauses(ctx, args.agentId);
+      const clauseAnalysis = await analyzeContractClauses(ctx, args.agentId, enterpriseId);
       
       // Monitor legal deadlines
-      const deadlineAlerts = await monitorLegalDeadlines(ctx, args.agentId);
+      const deadlineAlerts = await monitorLegalDeadlines(ctx, args.agentId, enterpriseId);
       
       // Check for regulatory compliance
-      const regulatoryChecks = await checkRegulatoryCompliance(ctx, args.agentId);
+      const regulatoryChecks = await checkRegulatoryCompliance(ctx, args.agentId, enterpriseId);
       
       // Identify high-risk contract terms
-      const riskTermsFound = await identifyHighRiskTerms(ctx, args.agentId);
+      const riskTermsFound = await identifyHighRiskTerms(ctx, args.agentId, enterpriseId);
       
       // Generate legal trend analysis
-      await generateLegalTrendAnalysis(ctx, args.agentId);
+      await generateLegalTrendAnalysis(ctx, args.agentId, enterpriseId);
 
       // Update metrics
       await updateAgentMetrics(ctx, args.agentId, {
@@ -171,7 +179,7 @@ export const run = internalMutation({
       };
 
     } catch (error) {
-      await handleAgentError(ctx, args.agentId, error);
+      await handleAgentError(ctx, args.agentId, enterpriseId, error);
       throw error;
     }
   },
@@ -182,13 +190,14 @@ export const run = internalMutation({
 // ============================================================================
 
 async function processLegalTasks(
-  ctx: any,
-  agentId: Id<"agents">
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   const tasks = await ctx.db
     .query("agentTasks")
-    .withIndex("by_assigned_agent", (q: any) => q.eq("assignedAgentId", agentId))
-    .filter((q: any) => q.eq(q.field("status"), "pending"))
+    .withIndex("by_assigned_agent", (q) => q.eq("assignedAgentId", agentId))
+    .filter((q) => q.and(q.eq(q.field("status"), "pending"), q.eq(q.field("enterpriseId"), enterpriseId)))
     .take(LEGAL_CONFIG.batchSize);
 
   let processed = 0;
@@ -238,6 +247,7 @@ async function processLegalTasks(
 
       await ctx.db.insert("agentLogs", {
         agentId,
+        enterpriseId,
         level: "error",
         message: `Failed to process legal task ${task._id}`,
         data: { taskId: task._id, error: error instanceof Error ? error.message : String(error) },
@@ -251,22 +261,20 @@ async function processLegalTasks(
 }
 
 async function reviewContractCompliance(
-  ctx: any,
-  agentId: Id<"agents">
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   let reviewsCreated = 0;
 
   // Get contracts needing legal review
   const contractsToReview = await ctx.db
     .query("contracts")
-    .withIndex("by_status_and_enterpriseId")
-    .filter((q: any) => 
-      q.and(
-        q.eq(q.field("status"), "active"),
-        q.or(
-          q.eq(q.field("analysisStatus"), "completed"),
-          q.eq(q.field("analysisStatus"), undefined)
-        )
+    .withIndex("by_status_and_enterpriseId", (q) => q.eq("enterpriseId", enterpriseId).eq("status", "active"))
+    .filter((q) => 
+      q.or(
+        q.eq(q.field("analysisStatus"), "completed"),
+        q.eq(q.field("analysisStatus"), undefined)
       )
     )
     .take(LEGAL_CONFIG.batchSize);
@@ -275,8 +283,8 @@ async function reviewContractCompliance(
     // Check if already has recent legal review
     const existingReview = await ctx.db
       .query("agentInsights")
-      .withIndex("by_contract", (q: any) => q.eq("contractId", contract._id))
-      .filter((q: any) => 
+      .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+      .filter((q) => 
         q.and(
           q.eq(q.field("type"), "legal_review"),
           q.gt(q.field("createdAt"), new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString())
@@ -296,6 +304,7 @@ async function reviewContractCompliance(
 
       await ctx.db.insert("agentInsights", {
         agentId,
+        enterpriseId,
         type: "legal_review",
         title: `Legal Review: ${contract.title || contract._id}`,
         description: `${legalReview.issues.length} legal issue(s) identified. Risk score: ${legalReview.riskScore}/100`,
@@ -320,15 +329,15 @@ async function reviewContractCompliance(
 }
 
 async function analyzeContractClauses(
-  ctx: any,
-  agentId: Id<"agents">
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   let analysisCreated = 0;
 
   const contracts = await ctx.db
     .query("contracts")
-    .withIndex("by_status_and_enterpriseId")
-    .filter((q: any) => q.eq(q.field("status"), "active"))
+    .withIndex("by_status_and_enterpriseId", (q) => q.eq("enterpriseId", enterpriseId).eq("status", "active"))
     .take(LEGAL_CONFIG.batchSize);
 
   for (const contract of contracts) {
@@ -347,6 +356,7 @@ async function analyzeContractClauses(
 
       await ctx.db.insert("agentInsights", {
         agentId,
+        enterpriseId,
         type: "compliance_alert",
         title: `Clause Analysis: ${contract.title || contract._id}`,
         description: `${clauseAnalysis.missingClauses.length} missing clause(s) and ${clauseAnalysis.problematicClauses.length} problematic clause(s) found`,
@@ -366,15 +376,15 @@ async function analyzeContractClauses(
 }
 
 async function monitorLegalDeadlines(
-  ctx: any,
-  agentId: Id<"agents">
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   let alertsCreated = 0;
 
   const activeContracts = await ctx.db
     .query("contracts")
-    .withIndex("by_status_and_enterpriseId")
-    .filter((q: any) => q.eq(q.field("status"), "active"))
+    .withIndex("by_status_and_enterpriseId", (q) => q.eq("enterpriseId", enterpriseId).eq("status", "active"))
     .collect();
 
   for (const contract of activeContracts) {
@@ -385,8 +395,8 @@ async function monitorLegalDeadlines(
         // Check if alert already exists
         const existingAlert = await ctx.db
           .query("agentInsights")
-          .withIndex("by_contract", (q: any) => q.eq("contractId", contract._id))
-          .filter((q: any) => 
+          .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+          .filter((q) => 
             q.and(
               q.eq(q.field("type"), "alert"),
               q.eq(q.field("actionTaken"), false),
@@ -400,6 +410,7 @@ async function monitorLegalDeadlines(
           
           await ctx.db.insert("agentInsights", {
             agentId,
+            enterpriseId,
             type: "alert",
             title: `Legal Deadline Approaching: ${deadline.type}`,
             description: `${deadline.description} for contract "${contract.title}" is due in ${deadline.daysUntil} days`,
@@ -426,28 +437,56 @@ async function monitorLegalDeadlines(
 }
 
 async function checkRegulatoryCompliance(
-  ctx: any,
-  agentId: Id<"agents">
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   let complianceIssues = 0;
 
   const contracts = await ctx.db
     .query("contracts")
-    .withIndex("by_status_and_enterpriseId")
-    .filter((q: any) => q.eq(q.field("status"), "active"))
+    .withIndex("by_status_and_enterpriseId", (q) => q.eq("enterpriseId", enterpriseId).eq("status", "active"))
     .take(LEGAL_CONFIG.batchSize);
 
   for (const contract of contracts) {
-    const complianceCheck = await performRegulatoryComplianceCheck(contract);
-    
+    const complianceCheck = await performRegulatoryComplianceCheck(ctx, contract);
+
+    // An unresolved alert means this contract's issue has already been raised
+    const openAlert = await ctx.db
+      .query("agentInsights")
+      .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+      .filter((q) => q.and(
+        q.eq(q.field("type"), "compliance_alert"),
+        q.eq(q.field("actionTaken"), false)
+      ))
+      .first();
+
+    if (complianceCheck.violations.length === 0) {
+      if (openAlert) {
+        await ctx.db.patch(openAlert._id, { actionTaken: true });
+        await emitWebhookEvent(ctx, {
+          type: "compliance.resolved",
+          enterpriseId: contract.enterpriseId,
+          data: {
+            contractId: contract._id,
+            title: contract.title,
+            insightId: openAlert._id,
+          },
+        });
+      }
+      continue;
+    }
+
     if (complianceCheck.violations.length > 0) {
       complianceIssues++;
+      if (openAlert) continue;
       
       const severity = complianceCheck.violations.some((v:any) => v.severity === "critical") ? "critical" :
                       complianceCheck.violations.some((v:any) => v.severity === "high") ? "high" : "medium";
 
-      await ctx.db.insert("agentInsights", {
+      const insightId = await ctx.db.insert("agentInsights", {
         agentId,
+        enterpriseId,
         type: "compliance_alert",
         title: `Regulatory Compliance Issues: ${contract.title || contract._id}`,
         description: `${complianceCheck.violations.length} compliance violation(s) detected`,
@@ -461,6 +500,19 @@ async function checkRegulatoryCompliance(
         data: complianceCheck,
       });
 
+      await emitWebhookEvent(ctx, {
+        type: "compliance.issue",
+        enterpriseId: contract.enterpriseId,
+        data: {
+          contractId: contract._id,
+          title: contract.title,
+          vendorId: contract.vendorId,
+          insightId,
+          severity,
+          violations: complianceCheck.violations,
+        },
+      });
+
       // Create compliance remediation task
       await createComplianceTask(ctx, agentId, contract, complianceCheck);
     }
@@ -470,19 +522,19 @@ async function checkRegulatoryCompliance(
 }
 
 async function identifyHighRiskTerms(
-  ctx: any,
-  agentId: Id<"agents">
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   let riskTermsFound = 0;
 
   const contracts = await ctx.db
     .query("contracts")
-    .withIndex("by_status_and_enterpriseId")
-    .filter((q: any) => q.eq(q.field("status"), "active"))
+    .withIndex("by_status_and_enterpriseId", (q) => q.eq("enterpriseId", enterpriseId).eq("status", "active"))
     .take(LEGAL_CONFIG.batchSize);
 
   for (const contract of contracts) {
-    const riskAnalysis = await analyzeHighRiskTerms(contract);
+    const riskAnalysis = await analyzeHighRiskTerms(ctx, contract);
     
     if (riskAnalysis.highRiskTerms.length > 0) {
       riskTermsFound++;
@@ -491,6 +543,7 @@ async function identifyHighRiskTerms(
 
       await ctx.db.insert("agentInsights", {
         agentId,
+        enterpriseId,
         type: "legal_review",
         title: `High-Risk Terms Detected: ${contract.title || contract._id}`,
         description: `${riskAnalysis.highRiskTerms.length} high-risk legal term(s) require review`,
@@ -510,20 +563,17 @@ async function identifyHighRiskTerms(
 }
 
 async function generateLegalTrendAnalysis(
-  ctx: any,
-  agentId: Id<"agents">
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<void> {
   const sixMonthsAgo = new Date(Date.now() - 180 * 24 * 60 * 60 * 1000).toISOString();
   
   // Get recent legal insights
   const recentInsights = await ctx.db
     .query("agentInsights")
-    .filter((q: any) => 
-      q.and(
-        q.eq(q.field("agentId"), agentId),
-        q.gt(q.field("createdAt"), sixMonthsAgo)
-      )
-    )
+    .withIndex("by_enterprise_created", (q) => q.eq("enterpriseId", enterpriseId).gt("createdAt", sixMonthsAgo))
+    .filter((q) => q.eq(q.field("agentId"), agentId))
     .collect();
 
   if (recentInsights.length < 10) return;
@@ -561,6 +611,7 @@ async function generateLegalTrendAnalysis(
 
   await ctx.db.insert("agentInsights", {
     agentId,
+    enterpriseId,
     type: "trend_analysis",
     title: "Legal Risk Trends (6-Month Analysis)",
     description: `Analysis of ${recentInsights.length} legal insights reveals key risk patterns and improvement opportunities`,
@@ -617,7 +668,7 @@ async function conductLegalReview(ctx: any, contract: any): Promise<any> {
 
   // Check for required legal elements based on contract type
   const contractType = contract.contractType || "other";
-  const missingElements = await checkRequiredLegalElements(contract, contractType);
+  const missingElements = await checkRequiredLegalElements(ctx, contract, contractType);
   
   if (missingElements.length > 0) {
     review.riskScore += missingElements.length * 10;
@@ -655,13 +706,8 @@ async function analyzeContractForClauses(ctx: any, contract: any, requiredClause
   };
 
   // AI-powered clause detection and analysis
-  const contractText = [
-    contract.extractedScope || '',
-    contract.extractedPaymentSchedule || '',
-    contract.notes || '',
-    contract.title || '',
-    contract.description || ''
-  ].join(' ');
+  const contractText = await getReviewText(ctx, contract, ['extractedScope', 'extractedPaymentSchedule', 'notes', 'title', 'description']);
+  const library = await getActiveClauseLibrary(ctx, contract.enterpriseId);
 
   try {
     // Import AI contract analyzer actions
@@ -670,14 +716,15 @@ async function analyzeContractForClauses(ctx: any, contract: any, requiredClause
     // Perform AI-powered contract analysis using ctx.runAction
     const aiAnalysis = await ctx.runAction(analyzeContractClauses, {
       contractText,
-      requiredClauses
+      requiredClauses,
+      enterpriseId: contract.enterpriseId
     });
     
     // Process AI results into existing format
     for (const clause of aiAnalysis.clauses) {
       if (!clause.present) {
         analysis.missingClauses.push(clause.clauseType);
-        if (isCriticalClause(clause.clauseType)) {
+        if (isCriticalClause(clause.clauseType, library)) {
           analysis.criticalMissing++;
         }
       }
@@ -714,12 +761,12 @@ async function analyzeContractForClauses(ctx: any, contract: any, requiredClause
     
     // Check for required clauses
     for (const clause of requiredClauses) {
-      const clauseKeywords = getClauseKeywords(clause);
+      const clauseKeywords = getClauseKeywords(clause, library);
       const hasClause = clauseKeywords.some(keyword => contractTextLower.includes(keyword));
       
       if (!hasClause) {
         analysis.missingClauses.push(clause);
-        if (isCriticalClause(clause)) {
+        if (isCriticalClause(clause, library)) {
           analysis.criticalMissing++;
         }
       }
@@ -748,18 +795,33 @@ async function analyzeContractForClauses(ctx: any, contract: any, requiredClause
     analysis.recommendations.push("AI analysis unavailable - manual legal review recommended");
   }
 
+  // Compare the contract's language with the enterprise clause library
+  const libraryComparison = await compareContractToLibrary(ctx, contract);
+  for (const clause of libraryComparison ?? []) {
+    if (clause.status === "missing" && !analysis.missingClauses.includes(clause.clauseType)) {
+      analysis.missingClauses.push(clause.clauseType);
+      if (clause.riskLevel === "high") {
+        analysis.criticalMissing++;
+      }
+    }
+    if (clause.status === "deviation") {
+      analysis.problematicClauses.push({
+        term: clause.clauseType,
+        severity: clause.riskLevel,
+        concern: `${clause.title} deviates from the approved clause library (${Math.round(clause.similarity * 100)}% match)`,
+        recommendation: clause.recommendations.join("; "),
+        extractedText: clause.extractedText,
+        suggestedFallback: clause.suggestedFallback
+      });
+    }
+  }
+
   return analysis;
 }
 
 // Enhanced clause analysis with semantic search
 async function enhancedClauseAnalysis(ctx: any, contract: any, templateClauses: string[]): Promise<any> {
-  const contractText = [
-    contract.extractedScope || '',
-    contract.extractedPaymentSchedule || '',
-    contract.notes || '',
-    contract.title || '',
-    contract.description || ''
-  ].join(' ');
+  const contractText = await getReviewText(ctx, contract, ['extractedScope', 'extractedPaymentSchedule', 'notes', 'title', 'description']);
 
   try {
     const { findSimilarClauses, assessClauseRisk } = await import("../ai/contractAnalyzer");
@@ -771,7 +833,8 @@ async function enhancedClauseAnalysis(ctx: any, contract: any, templateClauses:
       const similarClauses = await ctx.runAction(findSimilarClauses, {
         clauseText: templateClause,
         contractText,
-        threshold: 0.6
+        threshold: 0.6,
+        enterpriseId: contract.enterpriseId
       });
       
       if (similarClauses.length > 0) {
@@ -779,7 +842,8 @@ async function enhancedClauseAnalysis(ctx: any, contract: any, templateClauses:
         const topMatch = similarClauses[0]!;
         const riskAssessment = await ctx.runAction(assessClauseRisk, {
           clauseText: topMatch.text,
-          clauseType: "general"
+          clauseType: "general",
+          enterpriseId: contract.enterpriseId
         });
         
         results.push({
@@ -874,18 +938,14 @@ function calculateLegalDeadlines(contract: any): any[] {
   return deadlines;
 }
 
-async function performRegulatoryComplianceCheck(contract: any): Promise<any> {
+async function performRegulatoryComplianceCheck(ctx: QueryCtx, contract: any): Promise<any> {
   const complianceCheck = {
     violations: [] as any[],
     frameworks: [] as string[],
     recommendations: [] as string[],
   };
 
-  const contractText = [
-    contract.extractedScope || '',
-    contract.notes || '',
-    contract.title || ''
-  ].join(' ').toLowerCase();
+  const contractText = (await getReviewText(ctx, contract, ['extractedScope', 'notes', 'title'])).toLowerCase();
 
   // Check GDPR compliance for data processing contracts
   if (contractText.includes('data') || contractText.includes('personal') || contract.contractType === 'saas') {
@@ -924,7 +984,7 @@ async function performRegulatoryComplianceCheck(contract: any): Promise<any> {
   return complianceCheck;
 }
 
-async function analyzeHighRiskTerms(contract: any): Promise<any> {
+async function analyzeHighRiskTerms(ctx: QueryCtx, contract: any): Promise<any> {
   const analysis = {
     highRiskTerms: [] as any[],
     criticalTerms: 0,
@@ -932,11 +992,7 @@ async function analyzeHighRiskTerms(contract: any): Promise<any> {
     recommendations: [] as string[],
   };
 
-  const contractText = [
-    contract.extractedScope || '',
-    contract.extractedPaymentSchedule || '',
-    contract.notes || ''
-  ].join(' ').toLowerCase();
+  const contractText = (await getReviewText(ctx, contract, ['extractedScope', 'extractedPaymentSchedule', 'notes'])).toLowerCase();
 
   // Check for each high-risk term
   for (const term of LEGAL_CONFIG.highRiskTerms) {
@@ -1010,7 +1066,7 @@ async function performComplianceCheck(ctx: any, agentId: Id<"agents">, task: any
     throw new Error("Contract not found for compliance check");
   }
 
-  const complianceCheck = await performRegulatoryComplianceCheck(contract);
+  const complianceCheck = await performRegulatoryComplianceCheck(ctx, contract);
   
   const complianceAssessment = {
     contractId: contract._id,
@@ -1101,44 +1157,71 @@ async function assessLegalRisk(ctx: any, agentId: Id<"agents">, task: any): Prom
   return riskAssessment;
 }
 
-async function reviewAmendment(ctx: any, agentId: Id<"agents">, task: any): Promise<any> {
-  const contract = await ctx.db.get(task.contractId);
-  if (!contract) {
-    throw new Error("Contract not found for amendment review");
+async function reviewAmendment(ctx: MutationCtx, agentId: Id<"agents">, task: any): Promise<any> {
+  const amendmentId = task.data?.parameters?.amendmentId as Id<"contractVersions"> | undefined;
+  const amendment = amendmentId ? await ctx.db.get(amendmentId) : null;
+  if (!amendment) {
+    throw new Error("Amendment not found for amendment review");
   }
 
-  // Simulate amendment review (would need amendment data in practice)
-  const amendmentReview = {
-    contractId: contract._id,
-    reviewDate: new Date().toISOString(),
-    amendmentType: task.data?.amendmentType || "modification",
-    changes: task.data?.changes || [],
-    legalImpact: "medium",
-    approvalRequired: true,
-    risks: [] as string[],
-    recommendations: [] as string[],
-  };
+  const lineage = await ctx.db
+    .query("contractVersions")
+    .withIndex("by_contract_version", (q) => q.eq("contractId", amendment.contractId))
+    .collect();
 
-  // Assess amendment impact
-  if (task.data?.changes) {
-    for (const change of task.data.changes) {
-      if (change.type === "pricing") {
-        amendmentReview.risks.push("Pricing changes may affect budget and financial commitments");
-      } else if (change.type === "scope") {
-        amendmentReview.risks.push("Scope changes may impact deliverables and timeline");
-      } else if (change.type === "termination") {
-        amendmentReview.risks.push("Termination clause changes affect contract exit strategy");
-      }
-    }
-  }
+  // Compare the amendment with the terms it would replace
+  const changes = diffTerms(
+    termsAtVersion(lineage, amendment.versionNumber - 1),
+    termsAtVersion(lineage, amendment.versionNumber)
+  );
+  const assessment = assessAmendmentChanges(changes);
+  const reviewedAt = new Date().toISOString();
+
+  await ctx.db.patch(amendment._id, {
+    legalReview: {
+      reviewedAt,
+      legalImpact: assessment.legalImpact,
+      risks: assessment.risks,
+      recommendations: assessment.recommendations,
+      agentTaskId: task._id,
+    },
+    updatedAt: reviewedAt,
+  });
 
-  // Generate recommendations
-  if (amendmentReview.risks.length > 0) {
-    amendmentReview.recommendations.push("Review amendment impact on overall contract risk profile");
-    amendmentReview.recommendations.push("Ensure amendment aligns with organizational policies");
+  if (assessment.legalImpact === "high") {
+    await ctx.db.insert("agentInsights", {
+      agentId,
+      enterpriseId: amendment.enterpriseId,
+      type: "legal_review",
+      title: `High-Impact Amendment: ${amendment.title}`,
+      description: assessment.risks.join("; "),
+      priority: "high",
+      contractId: amendment.contractId,
+      actionRequired: true,
+      actionTaken: false,
+      isRead: false,
+      createdAt: reviewedAt,
+      data: {
+        amendmentId: amendment._id,
+        versionNumber: amendment.versionNumber,
+        changedTerms: changes.map(change => change.field),
+        recommendations: assessment.recommendations,
+      },
+    });
   }
 
-  return amendmentReview;
+  return {
+    success: true,
+    output: {
+      amendmentId: amendment._id,
+      versionNumber: amendment.versionNumber,
+      amendmentType: amendment.type,
+      legalImpact: assessment.legalImpact,
+      changedTerms: changes.map(change => change.field),
+      risks: assessment.risks,
+      recommendations: assessment.recommendations,
+    },
+  };
 }
 
 // ============================================================================
@@ -1147,15 +1230,13 @@ async function reviewAmendment(ctx: any, agentId: Id<"agents">, task: any): Prom
 
 async function createLegalActionTask(ctx: any, agentId: Id<"agents">, contract: any, legalReview: any): Promise<void> {
   // Create task for legal team or workflow agent
-  const workflowAgent = await ctx.db
-    .query("agents")
-    .withIndex("by_type", (q: any) => q.eq("type", "workflow"))
-    .first();
+  const workflowAgent = await getEnterpriseAgent(ctx, contract.enterpriseId, "workflow");
 
   if (workflowAgent) {
     await ctx.db.insert("agentTasks", {
       assignedAgentId: workflowAgent._id,
       createdByAgentId: agentId,
+      enterpriseId: contract.enterpriseId,
       taskType: "legal_action_required",
       status: "pending",
       priority: legalReview.riskScore > 75 ? "critical" : "high",
@@ -1176,15 +1257,13 @@ async function createLegalActionTask(ctx: any, agentId: Id<"agents">, contract:
 
 async function createComplianceTask(ctx: any, agentId: Id<"agents">, contract: any, complianceCheck: any): Promise<void> {
   // Create task for compliance agent
-  const complianceAgent = await ctx.db
-    .query("agents")
-    .withIndex("by_type", (q: any) => q.eq("type", "compliance"))
-    .first();
+  const complianceAgent = await getEnterpriseAgent(ctx, contract.enterpriseId, "compliance");
 
   if (complianceAgent) {
     await ctx.db.insert("agentTasks", {
       assignedAgentId: complianceAgent._id,
       createdByAgentId: agentId,
+      enterpriseId: contract.enterpriseId,
       taskType: "compliance_remediation",
       status: "pending",
       priority: complianceCheck.violations.some((v: any) => v.severity === "critical") ? "critical" : "high",
@@ -1202,13 +1281,9 @@ async function createComplianceTask(ctx: any, agentId: Id<"agents">, contract: a
   }
 }
 
-async function checkRequiredLegalElements(contract: any, contractType: string): Promise<string[]> {
+async function checkRequiredLegalElements(ctx: QueryCtx, contract: any, contractType: string): Promise<string[]> {
   const missingElements: string[] = [];
-  const contractText = [
-    contract.extractedScope || '',
-    contract.extractedPaymentSchedule || '',
-    contract.notes || ''
-  ].join(' ').toLowerCase();
+  const contractText = (await getReviewText(ctx, contract, ['extractedScope', 'extractedPaymentSchedule', 'notes'])).toLowerCase();
 
   // Basic legal elements every contract should have
   const basicElements = [
@@ -1228,43 +1303,17 @@ async function checkRequiredLegalElements(contract: any, contractType: string):
   return missingElements;
 }
 
-function getClauseKeywords(clause: string): string[] {
-  const keywordMap: Record<string, string[]> = {
-    data_protection: ["data protection", "privacy", "gdpr", "personal data"],
-    service_level: ["service level", "sla", "uptime", "availability"],
-    limitation_of_liability: ["limitation of liability", "liability cap", "damages"],
-    termination: ["termination", "end", "expire", "cancel"],
-    intellectual_property: ["intellectual property", "ip", "copyright", "trademark"],
-    compliance: ["compliance", "regulatory", "standards", "certification"],
-    confidentiality: ["confidentiality", "non-disclosure", "proprietary", "confidential"],
-    return_of_information: ["return", "destroy", "delete", "confidential information"],
-    term_duration: ["term", "duration", "period", "expires"],
-    remedies: ["remedies", "damages", "injunction", "specific performance"],
-    governing_law: ["governing law", "jurisdiction", "applicable law"],
-    compensation: ["compensation", "salary", "wage", "payment"],
-    non_compete: ["non-compete", "non-competition", "restraint of trade"],
-    benefits: ["benefits", "insurance", "vacation", "health"],
-    profit_sharing: ["profit sharing", "profits", "revenue sharing"],
-    decision_making: ["decision making", "voting", "management", "control"],
-    liability: ["liability", "responsible", "damages", "indemnification"],
-    dispute_resolution: ["dispute resolution", "arbitration", "mediation"],
-    scope_of_work: ["scope of work", "deliverables", "services", "work"],
-    payment_terms: ["payment terms", "invoice", "billing", "payment schedule"],
-  };
-
-  return keywordMap[clause] || [clause];
-}
-
-function isCriticalClause(clause: string): boolean {
-  const criticalClauses = [
-    "limitation_of_liability",
-    "termination",
-    "intellectual_property",
-    "data_protection",
-    "governing_law",
-    "confidentiality"
-  ];
-  return criticalClauses.includes(clause);
+/**
+ * Text the legal checks run against: the extracted contract document when
+ * available, otherwise the listed contract metadata fields
+ */
+async function getReviewText(
+  ctx: QueryCtx,
+  contract: { _id: Id<"contracts"> } & Record<string, unknown>,
+  fallbackFields: string[]
+): Promise<string> {
+  const documentText = await getContractDocumentText(ctx, contract._id);
+  return documentText ?? fallbackFields.map(field => contract[field] || '').join(' ');
 }
 
 function checkGDPRCompliance(contractText: string): { compliant: boolean; issue?: string } {
@@ -1540,9 +1589,10 @@ async function updateAgentMetrics(
   });
 }
 
-async function handleAgentError(ctx: any, agentId: Id<"agents">, error: any): Promise<void> {
+async function handleAgentError(ctx: MutationCtx, agentId: Id<"agents">, enterpriseId: Id<"enterprises">, error: any): Promise<void> {
   await ctx.db.insert("agentLogs", {
     agentId,
+    enterpriseId,
     level: "error",
     message: "Legal agent failed",
     data: { error: error instanceof Error ? error.message : String(error) },
@@ -1578,6 +1628,7 @@ async function handleAgentError(ctx: any, agentId: Id<"agents">, error: any): Pr
 
 export const getLegalInsights = internalQuery({
   args: {
+    enterpriseId: v.id("enterprises"),
     contractId: v.optional(v.id("contracts")),
     limit: v.optional(v.number()),
   },
@@ -1591,9 +1642,12 @@ export const getLegalInsights = internalQuery({
     
     const insights = await query
       .filter((q: any) => 
-        q.or(
-          q.eq(q.field("type"), "legal_review"),
-          q.eq(q.field("type"), "compliance_alert")
+        q.and(
+          q.eq(q.field("enterpriseId"), args.enterpriseId),
+          q.or(
+            q.eq(q.field("type"), "legal_review"),
+            q.eq(q.field("type"), "compliance_alert")
+          )
         )
       )
       .order("desc")
@@ -1605,6 +1659,7 @@ export const getLegalInsights = internalQuery({
 
 export const getLegalDeadlines = internalQuery({
   args: {
+    enterpriseId: v.id("enterprises"),
     daysAhead: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
@@ -1613,9 +1668,9 @@ export const getLegalDeadlines = internalQuery({
     
     const deadlineInsights = await ctx.db
       .query("agentInsights")
+      .withIndex("by_enterprise_type", (q) => q.eq("enterpriseId", args.enterpriseId).eq("type", "alert"))
       .filter((q: any) => 
         q.and(
-          q.eq(q.field("type"), "alert"),
           q.lte(q.field("createdAt"), cutoffDate),
           q.eq(q.field("actionTaken"), false)
         )
@@ -1677,6 +1732,7 @@ export const analyzeContractWithAI = internalMutation({
     // Store analysis result in agentInsights table
     await ctx.db.insert("agentInsights", {
       agentId: "legal_agent" as any,
+      enterpriseId: args.enterpriseId,
       contractId: args.contractId,
       type: "contract_analysis",
       title: "AI-Enhanced Legal Analysis",
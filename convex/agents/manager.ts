@@ -1,6 +1,10 @@
 import { query, mutation, internalMutation } from "../_generated/server";
 import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { internal } from "../_generated/api";
 import { Id } from "../_generated/dataModel"; // Keep for potential explicit Id type usage
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
+import { DEFAULT_AGENT_SYSTEM_CONFIG, getAgentSystem, getEnterpriseAgent } from "./agentRuntime";
 
 // ============================================================================
 // AGENT SYSTEM MANAGEMENT
@@ -33,30 +37,28 @@ const insightTypeOptions = [
 ] as const;
 
 
+/**
+ * Set up the caller's enterprise's agent system and its manager agent.
+ */
 export const initializeAgentSystem = mutation({
   args: {},
   handler: async (ctx) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Authentication required: No user identity found.");
-    }
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "agents.manage");
+    const enterpriseId = securityContext.enterpriseId;
 
     // Check if system already exists
-    const existingSystem = await ctx.db.query("agentSystem").first();
+    const existingSystem = await getAgentSystem(ctx, enterpriseId);
     if (existingSystem) {
       return { success: true, message: "Agent system already initialized.", systemId: existingSystem._id };
     }
 
     // Create the agent system record
     const systemId = await ctx.db.insert("agentSystem", {
+      enterpriseId,
       isRunning: false,
       status: "stopped",
-      config: {
-        maxConcurrentTasks: 10,
-        taskTimeoutMinutes: 30,
-        logRetentionDays: 30,
-        // Add other AgentSystemConfig defaults as needed
-      },
+      config: DEFAULT_AGENT_SYSTEM_CONFIG,
       metrics: {
         totalTasksProcessed: 0,
         totalInsightsGenerated: 0,
@@ -89,6 +91,7 @@ export const initializeAgentSystem = mutation({
     };
 
     const managerId = await ctx.db.insert("agents", {
+      enterpriseId,
       name: "System Manager",
       type: "manager", // Make sure "manager" is in your agentTypeOptions in agent-schema.ts
       status: "inactive",
@@ -104,6 +107,7 @@ export const initializeAgentSystem = mutation({
     // Log the initialization
     await ctx.db.insert("agentLogs", {
       agentId: managerId,
+      enterpriseId,
       level: "info", // Make sure "info" is in your logLevelOptions in agent-schema.ts
       message: "Agent system initialized successfully.",
       data: { systemId: systemId.toString(), newManagerId: managerId.toString() },
@@ -121,17 +125,16 @@ export const initializeAgentSystem = mutation({
 });
 
 /**
- * Start the agent system.
+ * Start the caller's enterprise's agent system.
  */
 export const startAgentSystem = mutation({
   args: {},
   handler: async (ctx) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Authentication required.");
-    }
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "agents.manage");
+    const enterpriseId = securityContext.enterpriseId;
 
-    const system = await ctx.db.query("agentSystem").first();
+    const system = await getAgentSystem(ctx, enterpriseId);
     if (!system) {
       throw new Error("Agent system not initialized. Please initialize first.");
     }
@@ -146,10 +149,7 @@ export const startAgentSystem = mutation({
       lastStarted: new Date().toISOString(),
     });
 
-    const manager = await ctx.db
-      .query("agents")
-      .withIndex("by_type", (q) => q.eq("type", "manager"))
-      .first();
+    const manager = await getEnterpriseAgent(ctx, enterpriseId, "manager");
 
     if (manager) {
       await ctx.db.patch(manager._id, {
@@ -160,6 +160,7 @@ export const startAgentSystem = mutation({
 
       await ctx.db.insert("agentLogs", {
         agentId: manager._id,
+        enterpriseId,
         level: "info",
         message: "Agent system started successfully.",
         timestamp: new Date().toISOString(),
@@ -170,6 +171,7 @@ export const startAgentSystem = mutation({
          await ctx.db.insert("agentLogs", {
             agentId: system._id as unknown as Id<"agents">, // This cast might be problematic if agentSystem._id can't be an agentId
                                                  // Consider a dedicated system/log agent ID or null if schema allows
+            enterpriseId,
             level: "warn",
             message: "Agent system started, but Manager agent not found.",
             timestamp: new Date().toISOString(),
@@ -182,17 +184,17 @@ export const startAgentSystem = mutation({
 });
 
 /**
- * Stop the agent system.
+ * Stop the caller's enterprise's agent system. Other enterprises' agents keep
+ * running.
  */
 export const stopAgentSystem = mutation({
   args: {},
   handler: async (ctx) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Authentication required.");
-    }
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "agents.manage");
+    const enterpriseId = securityContext.enterpriseId;
 
-    const system = await ctx.db.query("agentSystem").first();
+    const system = await getAgentSystem(ctx, enterpriseId);
     if (!system) {
       return { success: true, message: "Agent system not found or not initialized." };
     }
@@ -207,7 +209,11 @@ export const stopAgentSystem = mutation({
       lastStopped: new Date().toISOString(),
     });
 
-    const activeAgents = await ctx.db.query("agents").filter(q => q.eq(q.field("status"), "active")).collect();
+    const activeAgents = await ctx.db
+      .query("agents")
+      .withIndex("by_enterprise_type", (q) => q.eq("enterpriseId", enterpriseId))
+      .filter(q => q.eq(q.field("status"), "active"))
+      .collect();
     for (const agent of activeAgents) {
       await ctx.db.patch(agent._id, {
         status: "inactive",
@@ -215,14 +221,12 @@ export const stopAgentSystem = mutation({
       });
     }
 
-    const manager = await ctx.db
-      .query("agents")
-      .withIndex("by_type", (q) => q.eq("type", "manager"))
-      .first();
+    const manager = await getEnterpriseAgent(ctx, enterpriseId, "manager");
 
     if (manager) {
       await ctx.db.insert("agentLogs", {
         agentId: manager._id,
+        enterpriseId,
         level: "info",
         message: "Agent system stopped.",
         timestamp: new Date().toISOString(),
@@ -231,6 +235,7 @@ export const stopAgentSystem = mutation({
     } else {
          await ctx.db.insert("agentLogs", {
             agentId: system._id as unknown as Id<"agents">, 
+            enterpriseId,
             level: "info",
             message: "Agent system stopped. Manager agent not found for detailed logging.",
             timestamp: new Date().toISOString(),
@@ -243,34 +248,35 @@ export const stopAgentSystem = mutation({
 });
 
 /**
- * Get the overall status of the agent system, all agents, and basic statistics.
+ * Get the overall status of the enterprise's agent system, its agents, and basic statistics.
  */
 export const getAgentSystemStatus = query({
   args: {
     refreshKey: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) { throw new Error("Authentication required."); }
+    const { enterpriseId } = await getSecurityContext(ctx);
 
-    const system = await ctx.db.query("agentSystem").first();
-    const allAgents = await ctx.db.query("agents").collect();
+    const system = await getAgentSystem(ctx, enterpriseId);
+    const allAgents = await ctx.db
+      .query("agents")
+      .withIndex("by_enterprise_type", (q) => q.eq("enterpriseId", enterpriseId))
+      .collect();
 
     const twentyFourHoursAgoISO = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
     const recentInsights = await ctx.db
       .query("agentInsights")
-      // Ensure "by_createdAt" index exists on agentInsights for "createdAt" (string) field
-      .withIndex("by_createdAt", q => q.gt("createdAt", twentyFourHoursAgoISO))
+      .withIndex("by_enterprise_created", q => q.eq("enterpriseId", enterpriseId).gt("createdAt", twentyFourHoursAgoISO))
       .collect();
 
     const pendingTasks = await ctx.db
       .query("agentTasks")
-      .withIndex("by_status", (q) => q.eq("status", "pending"))
+      .withIndex("by_enterprise_status", (q) => q.eq("enterpriseId", enterpriseId).eq("status", "pending"))
       .collect();
 
     const inProgressTasks = await ctx.db
       .query("agentTasks")
-      .withIndex("by_status", (q) => q.eq("status", "in_progress"))
+      .withIndex("by_enterprise_status", (q) => q.eq("enterpriseId", enterpriseId).eq("status", "in_progress"))
       .collect();
 
        return {
@@ -296,15 +302,11 @@ export const getRecentInsights = query({
     refreshKey: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity(); // Added auth check for consistency
-    if (!identity) { throw new Error("Authentication required."); }
+    const { enterpriseId } = await getSecurityContext(ctx);
 
-    // Orders by _creationTime descending by default.
-    // If you need to order by your string `createdAt` field, ensure it's indexed
-    // and use .withIndex("by_createdAt").order("desc") if "by_createdAt" is just ["createdAt"]
-    // or simply .order("desc") if relying on _creationTime.
     const insights = await ctx.db
       .query("agentInsights")
+      .withIndex("by_enterprise_created", (q) => q.eq("enterpriseId", enterpriseId))
       .order("desc")
       .take(args.limit || 10);
 
@@ -341,8 +343,14 @@ export const getAgentLogs = query({
     refreshKey: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity(); // Added auth check
-    if (!identity) { throw new Error("Authentication required."); }
+    const { enterpriseId } = await getSecurityContext(ctx);
+
+    if (args.agentId) {
+      const agent = await ctx.db.get(args.agentId);
+      if (agent?.enterpriseId !== enterpriseId) {
+        throw new ConvexError("Agent not found.");
+      }
+    }
 
     const limit = args.limit || 50;
     let queryChain = ctx.db.query("agentLogs");
@@ -359,8 +367,13 @@ export const getAgentLogs = query({
       );
     } else if (args.level) {
        //@ts-ignore
-      queryChain = queryChain.withIndex("by_level", (q) =>
-        q.eq("level", args.level!)
+      queryChain = queryChain.withIndex("by_enterprise_level", (q) =>
+        q.eq("enterpriseId", enterpriseId).eq("level", args.level!)
+      );
+    } else {
+       //@ts-ignore
+      queryChain = queryChain.withIndex("by_enterprise_timestamp", (q) =>
+        q.eq("enterpriseId", enterpriseId)
       );
     }
     // Orders by _creationTime descending if no other order on index specified
@@ -393,9 +406,11 @@ export const toggleAgent = mutation({
     if (!identity) {
       throw new Error("Authentication required.");
     }
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "agents.manage");
 
     const agent = await ctx.db.get(args.agentId);
-    if (!agent) {
+    if (!agent || agent.enterpriseId !== securityContext.enterpriseId) {
       throw new Error("Agent not found.");
     }
 
@@ -407,6 +422,7 @@ export const toggleAgent = mutation({
 
     await ctx.db.insert("agentLogs", {
       agentId: args.agentId,
+      enterpriseId: securityContext.enterpriseId,
       level: "info",
       message: `Agent ${agent.name} ${args.enabled ? "enabled" : "disabled"} by user ${identity.nickname || identity.subject}.`,
       timestamp: new Date().toISOString(),
@@ -434,11 +450,11 @@ export const createTestInsight = mutation({
     if (!identity) {
       throw new Error("Authentication required.");
     }
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "agents.manage");
+    const enterpriseId = securityContext.enterpriseId;
 
-    const manager = await ctx.db
-      .query("agents")
-      .withIndex("by_type", (q) => q.eq("type", "manager"))
-      .first();
+    const manager = await getEnterpriseAgent(ctx, enterpriseId, "manager");
 
     if (!manager) {
       throw new Error("Manager agent not found. Cannot create test insight.");
@@ -456,6 +472,7 @@ export const createTestInsight = mutation({
 
     const insightId = await ctx.db.insert("agentInsights", {
       agentId: manager._id,
+      enterpriseId,
       type: insightTypeToUse,
       title: args.title || "System Health Check (Test)",
       description: args.description || "All systems are operating normally. No critical issues detected. (Test Insight)",
@@ -469,6 +486,7 @@ export const createTestInsight = mutation({
 
     await ctx.db.insert("agentLogs", {
         agentId: manager._id,
+        enterpriseId,
         level: "debug", // Ensure "debug" is in logLevelOptions in agent-schema.ts
         message: `Test insight created by ${identity.nickname || identity.subject}.`,
         timestamp: new Date().toISOString(),
@@ -488,13 +506,10 @@ export const markInsightAsRead = mutation({
     insightId: v.id("agentInsights"),
   },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Authentication required.");
-    }
+    const { enterpriseId } = await getSecurityContext(ctx);
 
     const insight = await ctx.db.get(args.insightId);
-    if (!insight) {
+    if (!insight || insight.enterpriseId !== enterpriseId) {
         throw new Error("Insight not found.");
     }
 
@@ -515,24 +530,56 @@ export const markInsightAsRead = mutation({
 // AGENT ORCHESTRATION
 // ============================================================================
 
+// Enterprises whose orchestration is scheduled per fan-out batch
+const ORCHESTRATION_FAN_OUT_BATCH = 100;
+
+/**
+ * Schedule an orchestration run for every enterprise whose agent system is
+ * running. Each enterprise runs in its own transaction, so a large tenant's
+ * agents can't hold up anyone else's.
+ */
+export const scheduleAgentOrchestration = internalMutation({
+  args: {
+    cursor: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<{ scheduled: number }> => {
+    const page = await ctx.db
+      .query("agentSystem")
+      .withIndex("by_running", (q) => q.eq("isRunning", true))
+      .paginate({ numItems: ORCHESTRATION_FAN_OUT_BATCH, cursor: args.cursor ?? null });
+
+    let scheduled = 0;
+    for (const system of page.page) {
+      // Systems from before agents were per-enterprise wait for the migration
+      if (!system.enterpriseId) continue;
+      await ctx.scheduler.runAfter(0, internal.agents.manager.orchestrateAgents, { enterpriseId: system.enterpriseId });
+      scheduled++;
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.agents.manager.scheduleAgentOrchestration, { cursor: page.continueCursor });
+    }
+
+    return { scheduled };
+  },
+});
+
 /**
  * Run all enabled agents for an enterprise
- * This is the main orchestration function called periodically
+ * Scheduled for each running enterprise by scheduleAgentOrchestration; every
+ * agent run is scheduled as its own transaction
  */
 export const orchestrateAgents = internalMutation({
   args: {
     enterpriseId: v.id("enterprises"),
   },
-  handler: async (ctx, args) => {
-    const system = await ctx.db.query("agentSystem").first();
+  handler: async (ctx, args): Promise<{ success: boolean; message: string; results?: unknown[] }> => {
+    const system = await getAgentSystem(ctx, args.enterpriseId);
     if (!system || !system.isRunning) {
       return { success: false, message: "Agent system is not running" };
     }
 
-    const manager = await ctx.db
-      .query("agents")
-      .withIndex("by_type", (q) => q.eq("type", "manager"))
-      .first();
+    const manager = await getEnterpriseAgent(ctx, args.enterpriseId, "manager");
 
     if (!manager || !manager.isEnabled) {
       return { success: false, message: "Manager agent is not enabled" };
@@ -549,6 +596,7 @@ export const orchestrateAgents = internalMutation({
       // Log orchestration start
       await ctx.db.insert("agentLogs", {
         agentId: manager._id,
+        enterpriseId: args.enterpriseId,
         level: "info",
         message: `Starting agent orchestration for enterprise ${args.enterpriseId}`,
         timestamp: new Date().toISOString(),
@@ -556,9 +604,10 @@ export const orchestrateAgents = internalMutation({
         data: { enterpriseId: args.enterpriseId },
       });
 
-      // Get all enabled agents
+      // Get the enterprise's enabled agents
       const enabledAgents = await ctx.db
         .query("agents")
+        .withIndex("by_enterprise_type", (q) => q.eq("enterpriseId", args.enterpriseId))
         .filter((q) => q.and(
           q.eq(q.field("isEnabled"), true),
           q.neq(q.field("type"), "manager")
@@ -581,41 +630,51 @@ export const orchestrateAgents = internalMutation({
           switch (agent.type) {
             case "secretary":
               // Secretary agent monitors new contracts
-              const { run: runSecretary } = await import("./secretary");
-              result = await (runSecretary as any)(ctx, { agentId: agent._id });
+              await ctx.scheduler.runAfter(0, internal.agents.secretary.run, { agentId: agent._id });
+              result = { scheduled: true };
               break;
               
             case "vendor":
               // Vendor agent processes unassigned contracts
-              const { runVendorAgent } = await import("./vendor");
-              result = await (runVendorAgent as any)(ctx, { enterpriseId: args.enterpriseId });
+              await ctx.scheduler.runAfter(0, internal.agents.vendor.runVendorAgent, { enterpriseId: args.enterpriseId });
+              result = { scheduled: true };
               break;
-              
+
+            case "compliance":
+              // Compliance agent evaluates due compliance checks
+              await ctx.scheduler.runAfter(0, internal.agents.compliance.run, { agentId: agent._id });
+              result = { scheduled: true };
+              break;
+
+            case "risk":
+              // Risk agent keeps the risk register
+              await ctx.scheduler.runAfter(0, internal.agents.risk.run, { agentId: agent._id });
+              result = { scheduled: true };
+              break;
+
+            case "audit":
+              // Audit agent samples contracts and audit logs
+              await ctx.scheduler.runAfter(0, internal.agents.audit.run, { agentId: agent._id });
+              result = { scheduled: true };
+              break;
+
             case "financial":
               // Financial agent analyzes contract costs
-              // const { runFinancialAgent } = await import("./financial");
-              // result = await runFinancialAgent(ctx, { enterpriseId: args.enterpriseId });
               result = { skipped: true, reason: "Financial agent not yet implemented" };
               break;
               
             case "legal":
               // Legal agent checks compliance
-              // const { runLegalAgent } = await import("./legal");
-              // result = await runLegalAgent(ctx, { enterpriseId: args.enterpriseId });
               result = { skipped: true, reason: "Legal agent not yet implemented" };
               break;
               
             case "analytics":
               // Analytics agent generates insights
-              // const { runAnalyticsAgent } = await import("./analytics");
-              // result = await runAnalyticsAgent(ctx, { enterpriseId: args.enterpriseId });
               result = { skipped: true, reason: "Analytics agent not yet implemented" };
               break;
               
             case "notifications":
               // Notification agent sends alerts
-              // const { runNotificationAgent } = await import("./notification");
-              // result = await runNotificationAgent(ctx, { enterpriseId: args.enterpriseId });
               result = { skipped: true, reason: "Notification agent not yet implemented" };
               break;
               
@@ -634,6 +693,7 @@ export const orchestrateAgents = internalMutation({
           // Log agent error
           await ctx.db.insert("agentLogs", {
             agentId: agent._id,
+            enterpriseId: args.enterpriseId,
             level: "error",
             message: `Error running ${agent.type} agent: ${error instanceof Error ? error.message : "Unknown error"}`,
             timestamp: new Date().toISOString(),
@@ -677,6 +737,7 @@ export const orchestrateAgents = internalMutation({
       // Log orchestration completion
       await ctx.db.insert("agentLogs", {
         agentId: manager._id,
+        enterpriseId: args.enterpriseId,
         level: "info",
         message: `Completed agent orchestration: ${successCount} succeeded, ${failureCount} failed`,
         timestamp: new Date().toISOString(),
@@ -702,4 +763,4 @@ export const orchestrateAgents = internalMutation({
       throw error;
     }
   },
-});
\ No newline at end of file
+});
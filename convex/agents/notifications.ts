@@ -1,8 +1,9 @@
 // convex/agents/notifications.ts
 import { internalMutation, internalQuery } from "../_generated/server";
 import { v } from "convex/values";
-import { Id } from "../_generated/dataModel";
+import { Doc, Id } from "../_generated/dataModel";
 import { AgentMutationCtx } from "../shared/agent_types";
+import { getAgentEnterpriseId } from "./agentRuntime";
 
 /**
  * Notifications Agent
@@ -52,6 +53,18 @@ const NOTIFICATIONS_CONFIG = {
       template: "payment_reminder",
       batchable: true,
     },
+    obligation_reminder: {
+      priority: "medium",
+      channels: ["in_app", "email"],
+      template: "obligation_reminder",
+      batchable: true,
+    },
+    renewal_reminder: {
+      priority: "medium",
+      channels: ["in_app", "email"],
+      template: "renewal_reminder",
+      batchable: false,
+    },
     vendor_risk_alert: {
       priority: "high",
       channels: ["in_app", "email"],
@@ -122,10 +135,12 @@ export const run = internalMutation({
   },
   handler: async (ctx, args) => {
     const startTime = Date.now();
+    const enterpriseId = await getAgentEnterpriseId(ctx, args.agentId);
     
     try {
       await ctx.db.insert("agentLogs", {
         agentId: args.agentId,
+        enterpriseId,
         level: "info",
         message: "Notifications agent starting run",
         timestamp: new Date().toISOString(),
@@ -138,22 +153,22 @@ export const run = internalMutation({
       });
 
       // Process notification tasks
-      const tasksProcessed = await processNotificationTasks(ctx, args.agentId);
+      const tasksProcessed = await processNotificationTasks(ctx, args.agentId, enterpriseId);
       
       // Check for scheduled notifications
-      const scheduledSent = await sendScheduledNotifications(ctx, args.agentId);
+      const scheduledSent = await sendScheduledNotifications(ctx, args.agentId, enterpriseId);
       
       // Process notification batches
-      const batchesSent = await processBatchedNotifications(ctx, args.agentId);
+      const batchesSent = await processBatchedNotifications(ctx, args.agentId, enterpriseId);
       
       // Retry failed notifications
-      const retriesProcessed = await retryFailedNotifications(ctx, args.agentId);
+      const retriesProcessed = await retryFailedNotifications(ctx, args.agentId, enterpriseId);
       
       // Clean up old notifications
-      await cleanupOldNotifications(ctx, args.agentId);
+      await cleanupOldNotifications(ctx, args.agentId, enterpriseId);
       
       // Generate notification insights
-      await generateNotificationInsights(ctx, args.agentId);
+      await generateNotificationInsights(ctx, args.agentId, enterpriseId);
 
       // Update metrics
       await updateAgentMetrics(ctx, args.agentId, {
@@ -172,7 +187,7 @@ export const run = internalMutation({
       };
 
     } catch (error) {
-      await handleAgentError(ctx, args.agentId, error);
+      await handleAgentError(ctx, args.agentId, enterpriseId, error);
       throw error;
     }
   },
@@ -184,7 +199,8 @@ export const run = internalMutation({
 
 async function processNotificationTasks(
   ctx: AgentMutationCtx,
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   const tasks = await ctx.db
     .query("agentTasks")
@@ -192,7 +208,8 @@ async function processNotificationTasks(
     .filter((q) => 
       q.and(
         q.eq(q.field("status"), "pending"),
-        q.eq(q.field("taskType"), "send_notification")
+        q.eq(q.field("taskType"), "send_notification"),
+        q.eq(q.field("enterpriseId"), enterpriseId)
       )
     )
     .take(NOTIFICATIONS_CONFIG.batchSize);
@@ -238,6 +255,7 @@ async function processNotificationTasks(
 
       await ctx.db.insert("agentLogs", {
         agentId,
+        enterpriseId,
         level: "error",
         message: `Failed to process notification task ${task._id}`,
         data: { taskId: task._id, error: error instanceof Error ? error.message : String(error) },
@@ -252,20 +270,19 @@ async function processNotificationTasks(
 
 async function sendScheduledNotifications(
   ctx: AgentMutationCtx,
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   const now = new Date();
   
   // Get notifications that are scheduled and due
-  const dueNotifications = await ctx.db
-    .query("notifications")
-    .filter((q) => 
-      q.and(
-        q.eq(q.field("status"), "scheduled"),
-        q.lte(q.field("scheduledFor"), now.toISOString())
-      )
-    )
-    .take(NOTIFICATIONS_CONFIG.batchSize);
+  const dueNotifications = await getEnterpriseNotifications(
+    ctx,
+    enterpriseId,
+    "scheduled",
+    (notification) => !!notification.scheduledFor && notification.scheduledFor <= now.toISOString(),
+    NOTIFICATIONS_CONFIG.batchSize
+  );
 
   let sent = 0;
 
@@ -283,20 +300,18 @@ async function sendScheduledNotifications(
 
 async function processBatchedNotifications(
   ctx: AgentMutationCtx,
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   // Get batched notifications older than batch delay
   const batchCutoff = new Date(Date.now() - NOTIFICATIONS_CONFIG.delivery.batchDelayMinutes * 60 * 1000);
   
-  const batchedNotifications = await ctx.db
-    .query("notifications")
-    .filter((q) => 
-      q.and(
-        q.eq(q.field("status"), "batched"),
-        q.lte(q.field("createdAt"), batchCutoff.toISOString())
-      )
-    )
-    .collect();
+  const batchedNotifications = await getEnterpriseNotifications(
+    ctx,
+    enterpriseId,
+    "batched",
+    (notification) => notification.createdAt <= batchCutoff.toISOString()
+  );
 
   if (batchedNotifications.length === 0) return 0;
 
@@ -311,6 +326,7 @@ async function processBatchedNotifications(
     } catch (error) {
       await ctx.db.insert("agentLogs", {
         agentId,
+        enterpriseId,
         level: "error",
         message: "Failed to send notification batch",
         data: { 
@@ -329,17 +345,16 @@ async function processBatchedNotifications(
 
 async function retryFailedNotifications(
   ctx: AgentMutationCtx,
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
-  const failedNotifications = await ctx.db
-    .query("notifications")
-    .filter((q) => 
-      q.and(
-        q.eq(q.field("status"), "failed"),
-        q.lt(q.field("retryCount"), NOTIFICATIONS_CONFIG.maxRetries)
-      )
-    )
-    .take(NOTIFICATIONS_CONFIG.batchSize);
+  const failedNotifications = await getEnterpriseNotifications(
+    ctx,
+    enterpriseId,
+    "failed",
+    (notification) => notification.retryCount < NOTIFICATIONS_CONFIG.maxRetries,
+    NOTIFICATIONS_CONFIG.batchSize
+  );
 
   let retried = 0;
 
@@ -363,20 +378,23 @@ async function retryFailedNotifications(
 
 async function cleanupOldNotifications(
   ctx: AgentMutationCtx,
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<void> {
   // Archive notifications older than 90 days
   const archiveCutoff = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
   
-  const oldNotifications = await ctx.db
-    .query("notifications")
-    .filter((q) => 
-      q.and(
-        q.lte(q.field("createdAt"), archiveCutoff.toISOString()),
-        q.neq(q.field("status"), "archived")
+  const oldNotifications: Doc<"notifications">[] = [];
+  for (const recipientId of await getEnterpriseRecipients(ctx, enterpriseId)) {
+    if (oldNotifications.length >= 100) break;
+    oldNotifications.push(...await ctx.db
+      .query("notifications")
+      .withIndex("by_recipient_created_desc", (q) =>
+        q.eq("recipientId", recipientId).lte("createdAt", archiveCutoff.toISOString())
       )
-    )
-    .take(100);
+      .filter((q) => q.neq(q.field("status"), "archived"))
+      .take(100 - oldNotifications.length));
+  }
 
   for (const notification of oldNotifications) {
     await ctx.db.patch(notification._id, {
@@ -388,15 +406,21 @@ async function cleanupOldNotifications(
 
 async function generateNotificationInsights(
   ctx: any,
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<void> {
   const last24Hours = new Date(Date.now() - 24 * 60 * 60 * 1000);
   
   // Get notification statistics
-  const recentNotifications = await ctx.db
-    .query("notifications")
-    .filter((q) => q.gte(q.field("createdAt"), last24Hours.toISOString()))
-    .collect();
+  const recentNotifications: Doc<"notifications">[] = [];
+  for (const recipientId of await getEnterpriseRecipients(ctx, enterpriseId)) {
+    recentNotifications.push(...await ctx.db
+      .query("notifications")
+      .withIndex("by_recipient_created_desc", (q: any) =>
+        q.eq("recipientId", recipientId).gte("createdAt", last24Hours.toISOString())
+      )
+      .collect());
+  }
 
   if (recentNotifications.length < 10) return; // Not enough data
 
@@ -440,6 +464,7 @@ async function generateNotificationInsights(
   if (stats.deliveryRate < 0.9) {
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "alert",
       title: "Low Notification Delivery Rate",
       description: `Only ${(stats.deliveryRate * 100).toFixed(1)}% of notifications are being delivered successfully`,
@@ -460,6 +485,7 @@ async function generateNotificationInsights(
   if (highVolumeTypes.length > 0) {
     await ctx.db.insert("agentInsights", {
       agentId,
+      enterpriseId,
       type: "trend_analysis",
       title: "High Volume Notification Types",
       description: `${highVolumeTypes.join(', ')} notifications are unusually high`,
@@ -477,6 +503,36 @@ async function generateNotificationInsights(
 // NOTIFICATION HANDLING FUNCTIONS
 // ============================================================================
 
+// Notifications belong to an enterprise through their recipient
+async function getEnterpriseRecipients(ctx: AgentMutationCtx, enterpriseId: Id<"enterprises">): Promise<Id<"users">[]> {
+  const users = await ctx.db
+    .query("users")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+    .collect();
+  return users.map(user => user._id);
+}
+
+async function getEnterpriseNotifications(
+  ctx: AgentMutationCtx,
+  enterpriseId: Id<"enterprises">,
+  status: Doc<"notifications">["status"],
+  include: (notification: Doc<"notifications">) => boolean,
+  limit?: number
+): Promise<Doc<"notifications">[]> {
+  const notifications: Doc<"notifications">[] = [];
+  for (const recipientId of await getEnterpriseRecipients(ctx, enterpriseId)) {
+    const forRecipient = await ctx.db
+      .query("notifications")
+      .withIndex("by_recipient_and_status", (q) => q.eq("recipientId", recipientId).eq("status", status))
+      .collect();
+    notifications.push(...forRecipient.filter(include));
+    if (limit !== undefined && notifications.length >= limit) {
+      return notifications.slice(0, limit);
+    }
+  }
+  return notifications;
+}
+
 async function createNotificationFromTask(ctx: any, task: any): Promise<any> {
   const notificationType = task.data?.notificationType || "system_alert";
   const config = NOTIFICATIONS_CONFIG.notificationTypes[notificationType as keyof typeof NOTIFICATIONS_CONFIG.notificationTypes];
@@ -611,6 +667,7 @@ async function sendEmailNotification(ctx: any, notification: any): Promise<void>
     console.error("RESEND_API_KEY not configured, email not sent");
     await ctx.db.insert("agentLogs", {
       agentId: notification.agentId || "system",
+      enterpriseId: user.enterpriseId,
       level: "error",
       message: "Email service not configured",
       data: { notificationId: notification._id },
@@ -653,6 +710,7 @@ async function sendEmailNotification(ctx: any, notification: any): Promise<void>
     
     await ctx.db.insert("agentLogs", {
       agentId: notification.agentId || "system",
+      enterpriseId: user.enterpriseId,
       level: "info",
       message: "Email notification sent successfully",
       data: {
@@ -667,6 +725,7 @@ async function sendEmailNotification(ctx: any, notification: any): Promise<void>
   } catch (error) {
     await ctx.db.insert("agentLogs", {
       agentId: notification.agentId || "system",
+      enterpriseId: user.enterpriseId,
       level: "error",
       message: "Failed to send email notification",
       data: {
@@ -691,6 +750,14 @@ function getEmailTemplate(notificationType: string) {
       subject: "Contract Renewal Reminder",
       priority: "medium",
     },
+    obligation_reminder: {
+      subject: "Contract Obligation Reminder",
+      priority: "medium",
+    },
+    renewal_reminder: {
+      subject: "Renewal Decision Due - Cancellation Deadline Approaching",
+      priority: "high",
+    },
     vendor_compliance: {
       subject: "Vendor Compliance Alert",
       priority: "high",
@@ -989,9 +1056,10 @@ async function updateAgentMetrics(
   });
 }
 
-async function handleAgentError(ctx: any, agentId: Id<"agents">, error: any): Promise<void> {
+async function handleAgentError(ctx: any, agentId: Id<"agents">, enterpriseId: Id<"enterprises">, error: any): Promise<void> {
   await ctx.db.insert("agentLogs", {
     agentId,
+    enterpriseId,
     level: "error",
     message: "Notifications agent failed",
     data: { error: error instanceof Error ? error.message : String(error) },
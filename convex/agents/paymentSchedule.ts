@@ -0,0 +1,156 @@
+/**
+ * Payment schedule parsing
+ *
+ * Reads the free-text payment schedule extracted from a contract into dated
+ * payments. Shared by the financial agent's payment reminders and budget
+ * forecasting so both see the same payments.
+ */
+
+export function parsePaymentSchedule(
+  scheduleText: string,
+  from: Date = new Date()
+): Array<{ amount: number; dueDate: Date }> {
+  const payments: Array<{ amount: number; dueDate: Date }> = [];
+  
+  // Comprehensive payment schedule parsing with multiple patterns
+  // Commas separate entries, except thousands separators and the comma
+  // before the year in "Jan 15, 2026"
+  const lines = scheduleText.split(/[\n;]|,(?!\s?\d{3,4}\b)/);
+  
+  // Common payment patterns to match
+  const patterns = [
+    // Pattern 1: "$1,000 due on 2024-01-15" or "1000 USD by Jan 15, 2024"
+    /\$?([\d,]+(?:\.\d{2})?)\s*(?:USD)?\s*(?:(?:due|by|on)\s*)*(\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4}|[A-Za-z]+\s+\d{1,2},?\s+\d{4})/i,
+    // Pattern 2: "Payment of $5,000 on January 15th, 2024"
+    /payment\s+of\s+\$?([\d,]+(?:\.\d{2})?)\s*(?:on|by)?\s*(\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4}|[A-Za-z]+\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4})/i,
+    // Pattern 3: "15/01/2024: $1,000" or "2024-01-15 - 1000"
+    /(\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4})[:\s-]+\$?([\d,]+(?:\.\d{2})?)/i,
+    // Pattern 4: "Monthly payment: $1,000" (for recurring)
+    /(monthly|quarterly|annual|yearly)\s+payment[:\s]+\$?([\d,]+(?:\.\d{2})?)/i,
+    // Pattern 5: Milestone payments "Upon completion: $10,000"
+    /(?:upon|after|on)\s+([\w\s]+):\s*\$?([\d,]+(?:\.\d{2})?)/i,
+  ];
+  
+  for (const line of lines) {
+    const trimmedLine = line.trim();
+    if (!trimmedLine) continue;
+    
+    // Try each pattern
+    for (const pattern of patterns) {
+      const match = trimmedLine.match(pattern);
+      
+      if (match) {
+        let amount: number = 0;
+        let dateStr: string = '';
+        let isRecurring = false;
+        
+        // Handle different capture group positions based on pattern
+        if (pattern.source.includes('monthly|quarterly')) {
+          // Recurring payment pattern
+          const frequency = match[1]!.toLowerCase();
+          amount = parseFloat(match[2]!.replace(/[,$]/g, ''));
+          
+          // Generate dates based on frequency
+          const dates = generateRecurringDates(frequency, from, 12); // Next 12 occurrences
+          
+          dates.forEach(date => {
+            payments.push({ amount, dueDate: date });
+          });
+          isRecurring = true;
+        } else if (match[1] && /^(\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4})$/.test(match[1])) {
+          // Date comes first
+          dateStr = match[1]!;
+          amount = parseFloat(match[2]!.replace(/[,$]/g, ''));
+        } else {
+          // Amount comes first
+          amount = parseFloat(match[1]!.replace(/[,$]/g, ''));
+          dateStr = match[2]!;
+        }
+        
+        if (!isRecurring && dateStr) {
+          const parsedDate = parseDate(dateStr);
+          if (parsedDate && !isNaN(parsedDate.getTime()) && amount > 0) {
+            payments.push({ amount, dueDate: parsedDate });
+          }
+        }
+        
+        break; // Move to next line after successful match
+      }
+    }
+  }
+  
+  // Sort payments by due date
+  return payments.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+}
+
+// Helper function to parse various date formats
+function parseDate(dateStr: string): Date | null {
+  // Try standard formats first
+  let date = new Date(dateStr);
+  if (!isNaN(date.getTime())) return date;
+  
+  // Convert MM/DD/YYYY to YYYY-MM-DD
+  if (dateStr.includes('/')) {
+    const parts = dateStr.split('/');
+    if (parts.length === 3) {
+      const [month, day, year] = parts;
+      date = new Date(`${year}-${month!.padStart(2, '0')}-${day!.padStart(2, '0')}`);
+      if (!isNaN(date.getTime())) return date;
+    }
+  }
+  
+  // Try parsing month names "January 15, 2024" or "15 Jan 2024"
+  const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+  const monthMatch = dateStr.toLowerCase().match(new RegExp(`(\\d{1,2})\\s*(${monthNames.join('|')})[a-z]*\\s*(\\d{4})|` +
+    `(${monthNames.join('|')})[a-z]*\\s*(\\d{1,2}),?\\s*(\\d{4})`, 'i'));
+  
+  if (monthMatch) {
+    let day: string, month: string, year: string;
+    if (monthMatch[1]) {
+      // Format: "15 Jan 2024"
+      day = monthMatch[1];
+      month = monthMatch[2]!;
+      year = monthMatch[3]!;
+    } else {
+      // Format: "Jan 15, 2024"
+      month = monthMatch[4]!;
+      day = monthMatch[5]!;
+      year = monthMatch[6]!;
+    }
+    
+    const monthIndex = monthNames.indexOf(month.toLowerCase().slice(0, 3)) + 1;
+    date = new Date(`${year}-${monthIndex.toString().padStart(2, '0')}-${day.padStart(2, '0')}`);
+    if (!isNaN(date.getTime())) return date;
+  }
+  
+  return null;
+}
+
+// Generate recurring payment dates based on frequency
+function generateRecurringDates(frequency: string, startDate: Date, count: number): Date[] {
+  const dates: Date[] = [];
+  const date = new Date(startDate);
+  
+  for (let i = 0; i < count; i++) {
+    switch (frequency.toLowerCase()) {
+      case 'monthly':
+        date.setMonth(date.getMonth() + 1);
+        break;
+      case 'quarterly':
+        date.setMonth(date.getMonth() + 3);
+        break;
+      case 'annual':
+      case 'yearly':
+        date.setFullYear(date.getFullYear() + 1);
+        break;
+      case 'weekly':
+        date.setDate(date.getDate() + 7);
+        break;
+      default:
+        date.setMonth(date.getMonth() + 1); // Default to monthly
+    }
+    dates.push(new Date(date));
+  }
+  
+  return dates;
+}
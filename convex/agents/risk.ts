@@ -0,0 +1,337 @@
+import { internalMutation, query, MutationCtx } from "../_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "../_generated/dataModel";
+import { riskRegisterLevelOptions, RiskRegisterLevel } from "../schema";
+import { getSecurityContext, getDepartmentScope, hasScopedPermission, contractResource } from "../security/rowLevelSecurity";
+import { runAgent } from "./agentRuntime";
+import { RiskAssessment, riskTrend, scoreContractRisk, scoreVendorRisk } from "./riskScoring";
+
+/**
+ * Risk Agent
+ *
+ * Responsibilities:
+ * - Keep the risk register: a composite score for every active contract and
+ *   every vendor with active contracts (see riskScoring.ts for the factors)
+ * - Reassess the contracts assessed longest ago each run, new ones first,
+ *   then the vendors of the contracts it reassessed
+ * - Drop entries for contracts that are no longer active and vendors left
+ *   without active contracts
+ * - Raise an insight when an entry reaches high or critical risk
+ */
+
+const RISK_CONFIG = {
+  // Contracts reassessed per run
+  batchSize: 50,
+  // Register entries returned to the dashboard
+  registerLimit: 200,
+};
+
+const LEVEL_RANK: Record<RiskRegisterLevel, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const run = internalMutation({
+  args: {
+    agentId: v.id("agents"),
+  },
+  handler: async (ctx, args) => {
+    return await runAgent(ctx, args.agentId, "Risk agent", async (enterpriseId) => {
+      const now = new Date();
+
+      const [active, entries] = await Promise.all([
+        ctx.db
+          .query("contracts")
+          .withIndex("by_status_and_enterpriseId", (q) => q.eq("enterpriseId", enterpriseId).eq("status", "active"))
+          .collect(),
+        ctx.db
+          .query("riskRegister")
+          .withIndex("by_enterprise_subject", (q) => q.eq("enterpriseId", enterpriseId))
+          .collect(),
+      ]);
+
+      const contractEntries = new Map<Id<"contracts">, Doc<"riskRegister">>();
+      const vendorEntries = new Map<Id<"vendors">, Doc<"riskRegister">>();
+      for (const entry of entries) {
+        if (entry.contractId) contractEntries.set(entry.contractId, entry);
+        if (entry.vendorId) vendorEntries.set(entry.vendorId, entry);
+      }
+
+      // Contracts that are no longer active leave the register
+      const activeIds = new Set(active.map(contract => contract._id));
+      let removed = 0;
+      for (const [contractId, entry] of contractEntries) {
+        if (!activeIds.has(contractId)) {
+          await ctx.db.delete(entry._id);
+          contractEntries.delete(contractId);
+          removed++;
+        }
+      }
+
+      const criticalClauseTypes = new Set((await ctx.db
+        .query("clauseLibrary")
+        .withIndex("by_enterprise_active", (q) => q.eq("enterpriseId", enterpriseId).eq("isActive", true))
+        .collect())
+        .filter(entry => entry.isCritical)
+        .map(entry => entry.clauseType));
+
+      // Unassessed contracts first, then the longest since assessment
+      const batch = [...active]
+        .sort((a, b) => (contractEntries.get(a._id)?.assessedAt ?? "").localeCompare(contractEntries.get(b._id)?.assessedAt ?? ""))
+        .slice(0, RISK_CONFIG.batchSize);
+
+      let insights = 0;
+      const vendorIds = new Set<Id<"vendors">>();
+      for (const contract of batch) {
+        const assessment = await assessContract(ctx, contract, criticalClauseTypes, now);
+        const entry = await saveEntry(ctx, args.agentId, enterpriseId, { contractId: contract._id }, contractEntries.get(contract._id), assessment, now);
+        contractEntries.set(contract._id, entry.entry);
+        if (entry.escalated && await raiseRiskInsight(ctx, args.agentId, enterpriseId, entry.entry, contract.title, contract)) {
+          insights++;
+        }
+        if (contract.vendorId) vendorIds.add(contract.vendorId);
+      }
+
+      // Vendors without active contracts leave the register
+      const activeVendorIds = new Set(active.flatMap(contract => contract.vendorId ? [contract.vendorId] : []));
+      for (const [vendorId, entry] of vendorEntries) {
+        if (!activeVendorIds.has(vendorId)) {
+          await ctx.db.delete(entry._id);
+          vendorEntries.delete(vendorId);
+          removed++;
+        }
+      }
+      // Vendors never assessed join the register even if none of their contracts were reassessed
+      for (const vendorId of activeVendorIds) {
+        if (!vendorEntries.has(vendorId)) vendorIds.add(vendorId);
+      }
+
+      const enterpriseValue = active.reduce((sum, contract) => sum + Math.max(0, contract.value ?? 0), 0);
+      for (const vendorId of vendorIds) {
+        const vendor = await ctx.db.get(vendorId);
+        if (!vendor) continue;
+
+        const contracts = active.filter(contract => contract.vendorId === vendorId);
+        const assessment = scoreVendorRisk({
+          contractScores: contracts.flatMap(contract => {
+            const entry = contractEntries.get(contract._id);
+            return entry ? [entry.score] : [];
+          }),
+          vendorValue: contracts.reduce((sum, contract) => sum + Math.max(0, contract.value ?? 0), 0),
+          enterpriseValue,
+          performanceScore: vendor.performanceScore,
+          complianceScore: vendor.complianceScore,
+        });
+        const entry = await saveEntry(ctx, args.agentId, enterpriseId, { vendorId }, vendorEntries.get(vendorId), assessment, now);
+        vendorEntries.set(vendorId, entry.entry);
+        if (entry.escalated && await raiseRiskInsight(ctx, args.agentId, enterpriseId, entry.entry, vendor.name)) {
+          insights++;
+        }
+      }
+
+      await ctx.db.insert("agentLogs", {
+        agentId: args.agentId,
+        enterpriseId,
+        level: "info",
+        message: `Assessed ${batch.length} contract(s) and ${vendorIds.size} vendor(s)`,
+        timestamp: now.toISOString(),
+        category: "risk",
+        data: { removed },
+      });
+
+      return {
+        dataProcessed: batch.length + vendorIds.size,
+        insightsGenerated: insights,
+        contractsAssessed: batch.length,
+        vendorsAssessed: vendorIds.size,
+        entriesRemoved: removed,
+      };
+    });
+  },
+});
+
+async function assessContract(
+  ctx: MutationCtx,
+  contract: Doc<"contracts">,
+  criticalClauseTypes: Set<string>,
+  now: Date
+): Promise<RiskAssessment> {
+  const [clauses, checks, overdue, vendor] = await Promise.all([
+    ctx.db
+      .query("contractClauses")
+      .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+      .collect(),
+    ctx.db
+      .query("complianceChecks")
+      .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+      .collect(),
+    ctx.db
+      .query("obligations")
+      .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+      .filter((q) => q.eq(q.field("status"), "overdue"))
+      .collect(),
+    contract.vendorId ? ctx.db.get(contract.vendorId) : Promise.resolve(null),
+  ]);
+
+  const openIssues = { critical: 0, high: 0, medium: 0, low: 0 };
+  for (const check of checks) {
+    for (const issue of check.issues ?? []) {
+      if (!issue.resolvedAt) openIssues[issue.severity]++;
+    }
+  }
+
+  const endDate = contract.endDate ?? contract.extractedEndDate;
+  return scoreContractRisk({
+    value: contract.value,
+    daysToEnd: daysUntil(endDate, now),
+    daysToCancellationDeadline: daysUntil(contract.cancellationDeadline, now),
+    isAutoRenew: contract.isAutoRenew,
+    highRiskClauses: clauses.filter(clause => clause.present && clause.riskLevel === "high").length,
+    criticalClauseGaps: clauses.filter(clause =>
+      criticalClauseTypes.has(clause.clauseType)
+      && (!clause.present || clause.deviationStatus === "missing" || clause.deviationStatus === "deviation")
+    ).length,
+    openComplianceIssues: openIssues,
+    overdueObligations: overdue.length,
+    vendorPerformanceScore: vendor?.performanceScore,
+  });
+}
+
+/**
+ * Write an assessment to the register. Escalated is true when the entry
+ * reached high or critical from a lower level, or is new at that level.
+ */
+async function saveEntry(
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">,
+  subject: { contractId: Id<"contracts"> } | { vendorId: Id<"vendors"> },
+  existing: Doc<"riskRegister"> | undefined,
+  assessment: RiskAssessment,
+  now: Date
+): Promise<{ entry: Doc<"riskRegister">; escalated: boolean }> {
+  const assessedAt = now.toISOString();
+  const fields = {
+    score: assessment.score,
+    level: assessment.level,
+    trend: riskTrend(existing?.score, assessment.score),
+    factors: assessment.factors,
+    assessedAt,
+    assessedByAgentId: agentId,
+  };
+
+  let id: Id<"riskRegister">;
+  if (existing) {
+    await ctx.db.patch(existing._id, { ...fields, previousScore: existing.score });
+    id = existing._id;
+  } else {
+    id = await ctx.db.insert("riskRegister", {
+      enterpriseId,
+      subjectType: "contractId" in subject ? "contract" : "vendor",
+      ...subject,
+      ...fields,
+      createdAt: assessedAt,
+    });
+  }
+
+  const escalated = LEVEL_RANK[assessment.level] >= LEVEL_RANK.high
+    && (!existing || LEVEL_RANK[existing.level] < LEVEL_RANK[assessment.level]);
+  return { entry: (await ctx.db.get(id))!, escalated };
+}
+
+async function raiseRiskInsight(
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">,
+  entry: Doc<"riskRegister">,
+  name: string,
+  contract?: Doc<"contracts">
+): Promise<boolean> {
+  const type = entry.subjectType === "contract" ? "financial_risk" as const : "vendor_risk" as const;
+  const open = entry.contractId
+    ? await ctx.db
+      .query("agentInsights")
+      .withIndex("by_contract", (q) => q.eq("contractId", entry.contractId))
+      .filter((q) => q.and(q.eq(q.field("type"), type), q.eq(q.field("actionTaken"), false)))
+      .first()
+    : await ctx.db
+      .query("agentInsights")
+      .withIndex("by_vendor", (q) => q.eq("vendorId", entry.vendorId))
+      .filter((q) => q.and(q.eq(q.field("type"), type), q.eq(q.field("actionTaken"), false)))
+      .first();
+  if (open) return false;
+
+  const drivers = [...entry.factors]
+    .sort((a, b) => b.score * b.weight - a.score * a.weight)
+    .slice(0, 3)
+    .filter(factor => factor.score > 0);
+  const vendorId = entry.vendorId ?? contract?.vendorId;
+
+  await ctx.db.insert("agentInsights", {
+    agentId,
+    enterpriseId,
+    type,
+    title: `${entry.level === "critical" ? "Critical" : "High"} risk ${entry.subjectType}: ${name}`,
+    description: `Risk score ${entry.score}/100. Main drivers: ${drivers.map(factor => `${factor.label.toLowerCase()} (${factor.detail})`).join("; ") || "none recorded"}.`,
+    priority: entry.level === "critical" ? "critical" : "high",
+    ...(entry.contractId ? { contractId: entry.contractId } : {}),
+    ...(vendorId ? { vendorId } : {}),
+    actionRequired: true,
+    actionTaken: false,
+    isRead: false,
+    createdAt: entry.assessedAt,
+    data: { riskRegisterId: entry._id, score: entry.score, level: entry.level, factors: entry.factors },
+  });
+  return true;
+}
+
+function daysUntil(date: string | undefined, now: Date): number | undefined {
+  if (!date) return undefined;
+  const time = new Date(date).getTime();
+  return Number.isNaN(time) ? undefined : Math.floor((time - now.getTime()) / DAY_MS);
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * The caller's risk register, riskiest first. Contract entries are limited to
+ * contracts the caller can read and vendor entries to callers who can read
+ * vendors.
+ */
+export const getRiskRegister = query({
+  args: {
+    subjectType: v.optional(v.union(v.literal("contract"), v.literal("vendor"))),
+    minLevel: v.optional(v.union(...riskRegisterLevelOptions.map(option => v.literal(option)))),
+  },
+  handler: async (ctx, args) => {
+    const security = await getSecurityContext(ctx);
+    const scope = await getDepartmentScope(ctx, security);
+    const minRank = LEVEL_RANK[args.minLevel ?? "low"];
+
+    const subjectTypes = args.subjectType ? [args.subjectType] : ["contract", "vendor"] as const;
+    const results: Array<Doc<"riskRegister"> & { name: string }> = [];
+    for (const subjectType of subjectTypes) {
+      const entries = await ctx.db
+        .query("riskRegister")
+        .withIndex("by_enterprise_subject", (q) => q.eq("enterpriseId", security.enterpriseId).eq("subjectType", subjectType))
+        .order("desc")
+        .take(RISK_CONFIG.registerLimit);
+
+      for (const entry of entries) {
+        if (LEVEL_RANK[entry.level] < minRank) continue;
+
+        if (entry.contractId) {
+          const contract = await ctx.db.get(entry.contractId);
+          if (!contract || !hasScopedPermission(security, scope, "contracts.read", contractResource(contract))) continue;
+          results.push({ ...entry, name: contract.title });
+        } else if (entry.vendorId) {
+          const vendor = await ctx.db.get(entry.vendorId);
+          if (!vendor || !hasScopedPermission(security, scope, "vendors.read", { type: "vendor", id: vendor._id })) continue;
+          results.push({ ...entry, name: vendor.name });
+        }
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, RISK_CONFIG.registerLimit);
+  },
+});
@@ -0,0 +1,212 @@
+import type { RiskRegisterLevel } from "../schema";
+
+/**
+ * Risk scoring
+ *
+ * Composite risk for the risk register (agents/risk.ts). Each factor is scored
+ * 0-100 and the composite is their weighted average over the factors that
+ * have data, so a contract without a recorded value is not treated as low
+ * risk on value, only scored without it. A single severe problem is not
+ * averaged away: the composite is at least WORST_FACTOR_SHARE of the worst
+ * factor's score, leaving out factors that measure exposure (value, spend
+ * concentration) rather than something wrong. Everything here is pure.
+ */
+
+export interface RiskFactor {
+  key: string;
+  label: string;
+  score: number; // 0-100
+  weight: number;
+  detail: string;
+}
+
+export interface RiskAssessment {
+  score: number;
+  level: RiskRegisterLevel;
+  factors: RiskFactor[];
+}
+
+export interface ContractRiskInputs {
+  value?: number | undefined;
+  daysToEnd?: number | undefined; // Negative once the end date has passed
+  daysToCancellationDeadline?: number | undefined;
+  isAutoRenew?: boolean | undefined;
+  highRiskClauses: number;
+  criticalClauseGaps: number; // Critical library clauses missing or deviating
+  openComplianceIssues: Record<"critical" | "high" | "medium" | "low", number>;
+  overdueObligations: number;
+  vendorPerformanceScore?: number | undefined; // 0-100
+}
+
+export interface VendorRiskInputs {
+  contractScores: number[]; // Composite scores of the vendor's active contracts
+  vendorValue: number;
+  enterpriseValue: number; // Value of all the enterprise's active contracts
+  performanceScore?: number | undefined; // 0-100
+  complianceScore?: number | undefined; // 0-100
+}
+
+// Contract value at which financial exposure scores 100
+export const HIGH_VALUE_THRESHOLD = 500000;
+// Score change below which a register entry's trend is stable
+export const TREND_THRESHOLD = 5;
+export const WORST_FACTOR_SHARE = 0.6;
+
+const EXPOSURE_FACTORS = ["financial_exposure", "concentration"];
+
+const LEVEL_THRESHOLDS: Array<[number, RiskRegisterLevel]> = [
+  [75, "critical"],
+  [50, "high"],
+  [25, "medium"],
+];
+
+export function riskLevelFor(score: number): RiskRegisterLevel {
+  return LEVEL_THRESHOLDS.find(([threshold]) => score >= threshold)?.[1] ?? "low";
+}
+
+export function riskTrend(previousScore: number | undefined, score: number): "rising" | "falling" | "stable" {
+  if (previousScore === undefined || Math.abs(score - previousScore) < TREND_THRESHOLD) return "stable";
+  return score > previousScore ? "rising" : "falling";
+}
+
+export function scoreContractRisk(inputs: ContractRiskInputs): RiskAssessment {
+  const factors: RiskFactor[] = [];
+
+  if (inputs.value !== undefined) {
+    factors.push({
+      key: "financial_exposure",
+      label: "Financial exposure",
+      score: clamp((inputs.value / HIGH_VALUE_THRESHOLD) * 100),
+      weight: 0.2,
+      detail: `Contract value ${Math.round(inputs.value).toLocaleString("en-US")}`,
+    });
+  }
+
+  factors.push({
+    key: "clause_risk",
+    label: "Clause risk",
+    score: clamp(inputs.highRiskClauses * 25 + inputs.criticalClauseGaps * 40),
+    weight: 0.25,
+    detail: `${inputs.highRiskClauses} high-risk clause(s), ${inputs.criticalClauseGaps} critical clause gap(s)`,
+  });
+
+  const issues = inputs.openComplianceIssues;
+  factors.push({
+    key: "compliance",
+    label: "Compliance",
+    score: clamp(issues.critical * 50 + issues.high * 30 + issues.medium * 15 + issues.low * 5),
+    weight: 0.25,
+    detail: `${issues.critical + issues.high + issues.medium + issues.low} open compliance issue(s), ${issues.critical} critical`,
+  });
+
+  factors.push({
+    key: "obligations",
+    label: "Obligations",
+    score: clamp(inputs.overdueObligations * 35),
+    weight: 0.15,
+    detail: `${inputs.overdueObligations} overdue obligation(s)`,
+  });
+
+  factors.push(termFactor(inputs));
+
+  if (inputs.vendorPerformanceScore !== undefined) {
+    factors.push({
+      key: "vendor_performance",
+      label: "Vendor performance",
+      score: clamp(100 - inputs.vendorPerformanceScore),
+      weight: 0.1,
+      detail: `Vendor performance score ${Math.round(inputs.vendorPerformanceScore)}`,
+    });
+  }
+
+  return composite(factors);
+}
+
+export function scoreVendorRisk(inputs: VendorRiskInputs): RiskAssessment {
+  const factors: RiskFactor[] = [];
+
+  if (inputs.contractScores.length) {
+    const highest = Math.max(...inputs.contractScores);
+    const average = inputs.contractScores.reduce((sum, score) => sum + score, 0) / inputs.contractScores.length;
+    factors.push({
+      key: "contract_risk",
+      label: "Contract risk",
+      // The riskiest contract dominates; the rest still count
+      score: clamp(highest * 0.6 + average * 0.4),
+      weight: 0.4,
+      detail: `${inputs.contractScores.length} active contract(s), highest risk ${Math.round(highest)}`,
+    });
+  }
+
+  if (inputs.enterpriseValue > 0) {
+    const share = inputs.vendorValue / inputs.enterpriseValue;
+    factors.push({
+      key: "concentration",
+      label: "Spend concentration",
+      // Half of the enterprise's contract value with one vendor scores 100
+      score: clamp(share * 200),
+      weight: 0.2,
+      detail: `${Math.round(share * 100)}% of active contract value`,
+    });
+  }
+
+  if (inputs.performanceScore !== undefined) {
+    factors.push({
+      key: "performance",
+      label: "Performance",
+      score: clamp(100 - inputs.performanceScore),
+      weight: 0.2,
+      detail: `Performance score ${Math.round(inputs.performanceScore)}`,
+    });
+  }
+
+  if (inputs.complianceScore !== undefined) {
+    factors.push({
+      key: "compliance",
+      label: "Compliance",
+      score: clamp(100 - inputs.complianceScore),
+      weight: 0.2,
+      detail: `Compliance score ${Math.round(inputs.complianceScore)}`,
+    });
+  }
+
+  return composite(factors);
+}
+
+function termFactor(inputs: ContractRiskInputs): RiskFactor {
+  const factor = (score: number, detail: string): RiskFactor =>
+    ({ key: "term", label: "Term", score, weight: 0.15, detail });
+
+  if (inputs.daysToEnd === undefined) {
+    return factor(20, "No end date recorded");
+  }
+  if (inputs.daysToEnd < 0) {
+    return factor(100, `Still active ${-inputs.daysToEnd} day(s) after its end date`);
+  }
+  const deadline = inputs.daysToCancellationDeadline;
+  if (inputs.isAutoRenew && deadline !== undefined && deadline >= 0 && deadline <= 30) {
+    return factor(80, `Auto-renews unless cancelled within ${deadline} day(s)`);
+  }
+  if (inputs.daysToEnd <= 30) {
+    return factor(60, `Ends in ${inputs.daysToEnd} day(s)`);
+  }
+  if (inputs.daysToEnd <= 90) {
+    return factor(30, `Ends in ${inputs.daysToEnd} day(s)`);
+  }
+  return factor(0, `Ends in ${inputs.daysToEnd} day(s)`);
+}
+
+function composite(factors: RiskFactor[]): RiskAssessment {
+  const totalWeight = factors.reduce((sum, factor) => sum + factor.weight, 0);
+  if (!totalWeight) {
+    return { score: 0, level: "low", factors };
+  }
+  const average = factors.reduce((sum, factor) => sum + factor.score * factor.weight, 0) / totalWeight;
+  const worst = Math.max(0, ...factors.filter(factor => !EXPOSURE_FACTORS.includes(factor.key)).map(factor => factor.score));
+  const score = Math.round(Math.max(average, worst * WORST_FACTOR_SHARE));
+  return { score, level: riskLevelFor(score), factors };
+}
+
+function clamp(score: number): number {
+  return Math.round(Math.min(100, Math.max(0, score)));
+}
@@ -1,13 +1,18 @@
 // convex/agents/secretary.ts
-import { internalMutation, internalQuery } from "../_generated/server";
+import { internalMutation, internalQuery, MutationCtx } from "../_generated/server";
 import { v } from "convex/values";
 import { Id } from "../_generated/dataModel";
+import { scheduleContractTextExtraction } from "../documents/contractTexts";
+import { TEXT_EXTRACTION_ERROR_PREFIX, isExtractionRetryDue } from "../documents/textExtraction";
+import { refreshObligationStatuses } from "../obligations/obligations";
+import { getAgentEnterpriseId, getEnterpriseAgent } from "./agentRuntime";
 // Removed: import { internal } from "../_generated/api"; // Not used in the provided snippet
 
 /**
  * Secretary Agent
  * * Responsibilities:
  * - Monitor new contract uploads and trigger analysis
+ * - Retry failed contract text extraction
  * - Create tasks for other agents based on contract data
  * - Coordinate initial contract processing workflow
  * - Generate insights about contract intake patterns
@@ -71,11 +76,13 @@ export const run = internalMutation({
   },
   handler: async (ctx, args) => {
     const startTime = Date.now();
+    const enterpriseId = await getAgentEnterpriseId(ctx, args.agentId);
     
     try {
       // Log start
       await ctx.db.insert("agentLogs", {
         agentId: args.agentId,
+        enterpriseId,
         level: "info",
         message: "Secretary agent starting run",
         timestamp: new Date().toISOString(),
@@ -89,16 +96,22 @@ export const run = internalMutation({
       });
 
       // Process new contracts
-      const newContractsProcessed = await processNewContracts(ctx, args.agentId);
+      const newContractsProcessed = await processNewContracts(ctx, args.agentId, enterpriseId);
+
+      // Retry contracts whose text extraction failed
+      const extractionRetries = await retryFailedTextExtractions(ctx, args.agentId, enterpriseId);
+
+      // Update obligation statuses and remind owners of due and overdue ones
+      const obligations = await refreshObligationStatuses(ctx, args.agentId, enterpriseId);
       
       // Check for expiring contracts
-      const expiringContractsFound = await checkExpiringContracts(ctx, args.agentId);
+      const expiringContractsFound = await checkExpiringContracts(ctx, args.agentId, enterpriseId);
       
       // Monitor task queue health
-      const queueHealth = await monitorTaskQueue(ctx, args.agentId);
+      const queueHealth = await monitorTaskQueue(ctx, args.agentId, enterpriseId);
       
       // Generate intake insights
-      await generateIntakeInsights(ctx, args.agentId);
+      await generateIntakeInsights(ctx, args.agentId, enterpriseId);
 
       // Update agent metrics
       const agent = await ctx.db.get(args.agentId);
@@ -145,6 +158,8 @@ export const run = internalMutation({
       return { 
         success: true, 
         contractsProcessed: newContractsProcessed,
+        extractionRetries,
+        obligationReminders: obligations.remindersQueued,
         expiringContractsFound,
         queueHealth,
       };
@@ -153,6 +168,7 @@ export const run = internalMutation({
       // Log error
       await ctx.db.insert("agentLogs", {
         agentId: args.agentId,
+        enterpriseId,
         level: "error",
         message: "Secretary agent failed",
         data: { error: error instanceof Error ? error.message : String(error) },
@@ -181,20 +197,19 @@ export const run = internalMutation({
 // ============================================================================
 async function processNewContracts(
   ctx: any, // Consider using MutationCtx from "../_generated/server" for better typing
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   // Get contracts pending analysis
   const contractsPending = await ctx.db
     .query("contracts")
-    .withIndex("by_analysisStatus_and_enterpriseId") // Ensure this index exists and matches your query needs
+    .withIndex("by_analysisStatus_and_enterpriseId", (q: any) => q.eq("enterpriseId", enterpriseId))
     .filter((q: any) => 
       q.or(
         q.eq(q.field("analysisStatus"), "pending"),
         q.eq(q.field("analysisStatus"), undefined) // Include contracts where analysisStatus might not be set
       )
     )
-    // Add enterpriseId filter if contracts are enterprise-specific
-    // .filter((q: any) => q.eq(q.field("enterpriseId"), someEnterpriseId)) 
     .take(SECRETARY_CONFIG.batchSize);
 
   let processed = 0;
@@ -202,10 +217,7 @@ async function processNewContracts(
   for (const contract of contractsPending) {
     try {
       // Determine financial agent ID
-      const financialAgent = await ctx.db
-        .query("agents")
-        .withIndex("by_type", (q: any) => q.eq("type", "financial"))
-        .first();
+      const financialAgent = await getEnterpriseAgent(ctx, enterpriseId, "financial");
 
       if (!financialAgent) {
         // Financial agent not found. Cannot create analysis task.
@@ -217,6 +229,7 @@ async function processNewContracts(
       await ctx.db.insert("agentTasks", {
         assignedAgentId: financialAgent._id, // Use the fetched financial agent's ID
         createdByAgentId: agentId,
+        enterpriseId,
         taskType: "contract_analysis",
         status: "pending",
         priority: determineContractPriority(contract),
@@ -242,6 +255,7 @@ async function processNewContracts(
       // Log the task creation
       await ctx.db.insert("agentLogs", {
         agentId,
+        enterpriseId,
         level: "info",
         message: `Created analysis task for contract ${contract.title || contract._id.toString()}`,
         data: { contractId: contract._id.toString(), assignedAgentId: financialAgent._id.toString() },
@@ -252,6 +266,7 @@ async function processNewContracts(
     } catch (error) {
       await ctx.db.insert("agentLogs", {
         agentId,
+        enterpriseId,
         level: "error",
         message: `Failed to process contract ${contract._id}`,
         data: { contractId: contract._id.toString(), error: error instanceof Error ? error.message : String(error) },
@@ -264,9 +279,48 @@ async function processNewContracts(
   return processed;
 }
 
+async function retryFailedTextExtractions(
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
+): Promise<number> {
+  const failed = await ctx.db
+    .query("contractTexts")
+    .withIndex("by_enterprise_status", (q) => q.eq("enterpriseId", enterpriseId).eq("status", "failed"))
+    .take(SECRETARY_CONFIG.batchSize * 5);
+
+  const now = new Date();
+  let retried = 0;
+
+  for (const record of failed) {
+    if (retried >= SECRETARY_CONFIG.batchSize) break;
+    if (!isExtractionRetryDue(record, now)) continue;
+
+    const contract = await ctx.db.get(record.contractId);
+    // Leave contracts whose failure has since been cleared or replaced
+    if (!contract?.analysisError?.startsWith(TEXT_EXTRACTION_ERROR_PREFIX)) continue;
+
+    await scheduleContractTextExtraction(ctx, record.contractId);
+    retried++;
+
+    await ctx.db.insert("agentLogs", {
+      agentId,
+      enterpriseId,
+      level: "info",
+      message: `Retrying text extraction for contract ${contract.title || record.contractId.toString()}`,
+      data: { contractId: record.contractId.toString(), attempt: record.attempts + 1, previousError: record.error },
+      timestamp: new Date().toISOString(),
+      category: "contract_processing",
+    });
+  }
+
+  return retried;
+}
+
 async function checkExpiringContracts(
   ctx: any, // Consider MutationCtx
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<number> {
   const warningDate = new Date();
   warningDate.setDate(warningDate.getDate() + SECRETARY_CONFIG.expirationWarningDays);
@@ -275,16 +329,12 @@ async function checkExpiringContracts(
   // Query contracts expiring within warning period
   const expiringContracts = await ctx.db
     .query("contracts")
-    // Add appropriate index if you filter by status and extractedEndDate frequently
-    .filter((q: any) => 
-      q.and(
-        q.eq(q.field("status"), "active"), // Only active contracts
-        q.lt(q.field("extractedEndDate"), warningDateStr), // Ends before warning date
-        q.gt(q.field("extractedEndDate"), new Date().toISOString()) // But not already past
-      )
-    )
-    // Add enterpriseId filter if applicable
-    // .filter((q: any) => q.eq(q.field("enterpriseId"), someEnterpriseId))
+    // Active contracts ending before the warning date but not already past
+    .withIndex("by_enterprise_status_endDate", (q: any) => q
+      .eq("enterpriseId", enterpriseId)
+      .eq("status", "active")
+      .gt("extractedEndDate", new Date().toISOString())
+      .lt("extractedEndDate", warningDateStr))
     .collect();
 
   let newWarningsCreated = 0;
@@ -310,6 +360,7 @@ async function checkExpiringContracts(
       // Create expiration warning insight
       await ctx.db.insert("agentInsights", {
         agentId, // Secretary agent ID
+        enterpriseId,
         type: "expiration_warning",
         title: `Contract Expiring Soon: ${contract.title || contract._id.toString()}`,
         description: `This contract expires on ${contract.extractedEndDate ? new Date(contract.extractedEndDate).toLocaleDateString() : 'N/A'}. Action may be required.`,
@@ -330,15 +381,13 @@ async function checkExpiringContracts(
       });
 
       // Create task for notifications agent
-      const notificationsAgent = await ctx.db
-        .query("agents")
-        .withIndex("by_type", (q: any) => q.eq("type", "notifications"))
-        .first();
+      const notificationsAgent = await getEnterpriseAgent(ctx, enterpriseId, "notifications");
 
       if (notificationsAgent) {
         await ctx.db.insert("agentTasks", {
           assignedAgentId: notificationsAgent._id,
           createdByAgentId: agentId,
+          enterpriseId,
           taskType: "send_notification",
           status: "pending",
           priority: "high",
@@ -363,16 +412,17 @@ async function checkExpiringContracts(
 
 async function monitorTaskQueue(
   ctx: any, // Consider MutationCtx
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<any> {
   const pendingTasks = await ctx.db
     .query("agentTasks")
-    .withIndex("by_status", (q: any) => q.eq(q.field("status"), "pending")) // Ensure index exists
+    .withIndex("by_enterprise_status", (q: any) => q.eq("enterpriseId", enterpriseId).eq("status", "pending"))
     .collect();
 
   const inProgressTasks = await ctx.db
     .query("agentTasks")
-    .withIndex("by_status", (q: any) => q.eq(q.field("status"), "in_progress")) // Ensure index exists
+    .withIndex("by_enterprise_status", (q: any) => q.eq("enterpriseId", enterpriseId).eq("status", "in_progress"))
     .collect();
   
   const taskTimeoutMinutes = (SECRETARY_CONFIG as any).taskTimeoutMinutes || 30; // Fallback if not in config
@@ -386,8 +436,8 @@ async function monitorTaskQueue(
   if (stuckTasks.length > 0) {
      // Check if a similar "Stuck Tasks" alert already exists and is recent/unactioned
     const existingAlert = await ctx.db.query("agentInsights")
+      .withIndex("by_enterprise_type", (q: any) => q.eq("enterpriseId", enterpriseId).eq("type", "alert"))
       .filter((q:any) => q.and(
-        q.eq(q.field("type"), "alert"),
         q.eq(q.field("title"), "Stuck Tasks Detected"),
         q.eq(q.field("actionTaken"), false), // Or based on createdAt time
         q.gt(q.field("createdAt"), new Date(Date.now() - 1 * 60 * 60 * 1000).toISOString()) // e.g., only one such alert per hour
@@ -397,6 +447,7 @@ async function monitorTaskQueue(
     if (!existingAlert) {
         await ctx.db.insert("agentInsights", {
             agentId, // Secretary agent ID
+            enterpriseId,
             type: "alert",
             title: "Stuck Tasks Detected",
             description: `${stuckTasks.length} task(s) appear to be stuck (running longer than ${taskTimeoutMinutes} minutes).`,
@@ -423,18 +474,17 @@ async function monitorTaskQueue(
 
 async function generateIntakeInsights(
   ctx: any, 
-  agentId: Id<"agents">
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
 ): Promise<void> {
   const thirtyDaysAgoTimestamp = Date.now() - (30 * 24 * 60 * 60 * 1000);
   
   const recentContracts = await ctx.db
     .query("contracts")
-    // Assuming _creationTime is indexed or you have a createdAt string field that is indexed
+    .withIndex("by_enterprise", (q: any) => q.eq("enterpriseId", enterpriseId))
     .filter((q: any) => 
       q.gte(q.field("_creationTime"), thirtyDaysAgoTimestamp)
     )
-    // Add enterpriseId filter if applicable
-    // .filter((q: any) => q.eq(q.field("enterpriseId"), someEnterpriseId))
     .collect();
 
   if (recentContracts.length >= 10) { // Only generate insight if there's a reasonable amount of data
@@ -452,8 +502,8 @@ async function generateIntakeInsights(
      // Avoid duplicate insights if one was generated recently
     const lastWeekTimestamp = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
     const existingTrendInsight = await ctx.db.query("agentInsights")
+        .withIndex("by_enterprise_type", (q: any) => q.eq("enterpriseId", enterpriseId).eq("type", "trend_analysis"))
         .filter((q:any) => q.and(
-            q.eq(q.field("type"), "trend_analysis"),
             q.eq(q.field("title"), "Contract Intake Pattern (Last 30 Days)"),
             q.gt(q.field("createdAt"), lastWeekTimestamp) 
         )).first();
@@ -461,6 +511,7 @@ async function generateIntakeInsights(
     if (!existingTrendInsight) {
         await ctx.db.insert("agentInsights", {
             agentId, // Secretary agent ID
+            enterpriseId,
             type: "trend_analysis",
             title: "Contract Intake Pattern (Last 30 Days)",
             description: `${recentContracts.length} contracts processed in the last 30 days. Most common type: ${mostCommonType}.`,
@@ -510,42 +561,20 @@ function determineContractPriority(contract: any): "low" | "medium" | "high" | "
   return "low";
 }
 
-async function getAgentId(ctx: any, type: string): Promise<Id<"agents">> {
-  const agent = await ctx.db
-    .query("agents")
-    .withIndex("by_type", (q: any) => q.eq(q.field("type"), type)) // Ensure index exists
-    .filter((q: any) => q.eq(q.field("isEnabled"), true)) // Prefer enabled agents
-    .first();
-
-  if (!agent) {
-    // Fallback or specific error handling if no *enabled* agent of the type is found
-    const anyAgentOfType = await ctx.db
-        .query("agents")
-        .withIndex("by_type", (q: any) => q.eq(q.field("type"), type))
-        .first();
-    if (anyAgentOfType) {
-        // Agent found but is not enabled
-        return anyAgentOfType._id;
-    }
-    throw new Error(`No agent (enabled or otherwise) of type '${type}' found.`);
-  }
-
-  return agent._id;
-}
-
 export const getPendingContractsCount = internalQuery({
-  args: {},
-  handler: async (ctx) => {
+  args: {
+    enterpriseId: v.id("enterprises"),
+  },
+  handler: async (ctx, args) => {
     const pending = await ctx.db
       .query("contracts")
+      .withIndex("by_analysisStatus_and_enterpriseId", (q) => q.eq("enterpriseId", args.enterpriseId))
       .filter((q: any) => 
         q.or(
           q.eq(q.field("analysisStatus"), "pending"),
           q.eq(q.field("analysisStatus"), undefined)
         )
       )
-      // Add enterpriseId filter if applicable
-      // .filter((q: any) => q.eq(q.field("enterpriseId"), someEnterpriseId))
       .collect();
     
     return pending.length;
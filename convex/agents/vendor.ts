@@ -2,72 +2,8 @@ import { v } from "convex/values";
 import { internalMutation, internalQuery } from "../_generated/server";
 import { Id } from "../_generated/dataModel";
 import { AgentTask, AgentMutationCtx } from "../shared/agent_types";
-
-// Vendor matching threshold for fuzzy matching
-const MATCH_THRESHOLD = 0.85;
-
-// Helper function to normalize vendor names for comparison
-function normalizeVendorName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/\s+/g, " ")
-    .replace(/[^\w\s]/g, "")
-    .replace(/\b(inc|incorporated|llc|ltd|limited|corp|corporation|company|co)\b/g, "")
-    .trim();
-}
-
-// Calculate similarity between two strings (Jaro-Winkler distance)
-function calculateSimilarity(str1: string, str2: string): number {
-  if (str1 === str2) return 1;
-  
-  const len1 = str1.length;
-  const len2 = str2.length;
-  
-  if (len1 === 0 || len2 === 0) return 0;
-  
-  const maxDist = Math.floor(Math.max(len1, len2) / 2) - 1;
-  let matches = 0;
-  let transpositions = 0;
-  
-  const str1Matches = new Array(len1).fill(false);
-  const str2Matches = new Array(len2).fill(false);
-  
-  // Find matches
-  for (let i = 0; i < len1; i++) {
-    const start = Math.max(0, i - maxDist);
-    const end = Math.min(i + maxDist + 1, len2);
-    
-    for (let j = start; j < end; j++) {
-      if (str2Matches[j] || str1[i] !== str2[j]) continue;
-      str1Matches[i] = true;
-      str2Matches[j] = true;
-      matches++;
-      break;
-    }
-  }
-  
-  if (matches === 0) return 0;
-  
-  // Count transpositions
-  let k = 0;
-  for (let i = 0; i < len1; i++) {
-    if (!str1Matches[i]) continue;
-    while (!str2Matches[k]) k++;
-    if (str1[i] !== str2[k]) transpositions++;
-    k++;
-  }
-  
-  const jaro = (matches / len1 + matches / len2 + (matches - transpositions / 2) / matches) / 3;
-  
-  // Jaro-Winkler modification
-  let prefixLen = 0;
-  for (let i = 0; i < Math.min(len1, len2, 4); i++) {
-    if (str1[i] === str2[i]) prefixLen++;
-    else break;
-  }
-  
-  return jaro + prefixLen * 0.1 * (1 - jaro);
-}
+import { MATCH_THRESHOLD, bestVendorMatch, calculateSimilarity, normalizeVendorName } from "./vendorMatching";
+import { getEnterpriseAgent } from "./agentRuntime";
 
 // Find matching vendor by name
 const findMatchingVendor = async (
@@ -78,31 +14,18 @@ const findMatchingVendor = async (
     extractedAddress?: string | undefined;
   }
 ) => {
-    const normalizedSearchName = normalizeVendorName(args.vendorName);
-    
     // Get all vendors for the enterprise
     const vendors = await ctx.db
       .query("vendors")
       .withIndex("by_enterprise", (q) => q.eq("enterpriseId", args.enterpriseId))
       .collect();
     
-    let bestMatch: typeof vendors[0] | null = null;
-    let bestScore = 0;
-    
-    for (const vendor of vendors) {
-      const normalizedVendorName = normalizeVendorName(vendor.name);
-      const similarity = calculateSimilarity(normalizedSearchName, normalizedVendorName);
-      
-      if (similarity > bestScore && similarity >= MATCH_THRESHOLD) {
-        bestScore = similarity;
-        bestMatch = vendor;
-      }
-    }
+    const match = bestVendorMatch(args.vendorName, vendors);
     
     return {
-      matchFound: bestMatch !== null,
-      vendor: bestMatch,
-      matchScore: bestScore,
+      matchFound: match !== null,
+      vendor: match?.vendor ?? null,
+      matchScore: match?.matchScore ?? 0,
     };
 };
 
@@ -228,10 +151,11 @@ export const processUnassignedContracts = internalMutation({
       
       // Create insight about vendor processing
       // Get vendor agent for agentId
-      const vendorAgent = await ctx.db.query("agents").withIndex("by_type", (q) => q.eq("type", "vendor")).first();
+      const vendorAgent = await getEnterpriseAgent(ctx, enterpriseId, "vendor");
       if (vendorAgent) {
         await ctx.db.insert("agentInsights", {
           agentId: vendorAgent._id,
+          enterpriseId,
           type: "vendor_assignment" as const,
           title: "Vendor Assignment Completed",
           description: `Processed ${processedCount} contracts: ${vendorsCreated} new vendors created, ${vendorsMatched} existing vendors matched`,
@@ -359,12 +283,13 @@ export const runVendorAgent = internalMutation({
   },
   handler: async (ctx, args) => {
     // Get the vendor agent
-    const vendorAgent = await ctx.db.query("agents").withIndex("by_type", (q: any) => q.eq("type", "vendor")).first();
+    const vendorAgent = await getEnterpriseAgent(ctx, args.enterpriseId, "vendor");
     if (!vendorAgent) throw new Error("Vendor agent not found");
     
     // Create a task for processing unassigned contracts
     const taskId = await ctx.db.insert("agentTasks", {
       assignedAgentId: vendorAgent._id,
+      enterpriseId: args.enterpriseId,
       taskType: "vendor_assignment",
       status: "pending",
       priority: "medium" as const,
@@ -455,6 +380,7 @@ export const runVendorAgent = internalMutation({
       // Create insight about vendor processing
       await ctx.db.insert("agentInsights", {
         agentId: vendorAgent._id,
+        enterpriseId,
         type: "vendor_assignment" as const,
         title: "Vendor Assignment Completed",
         description: `Processed ${processedCount} contracts: ${vendorsCreated} new vendors created, ${vendorsMatched} existing vendors matched`,
@@ -503,6 +429,7 @@ export const runVendorAgent = internalMutation({
       // Create insight about potential duplicates
       await ctx.db.insert("agentInsights", {
         agentId: vendorAgent._id,
+        enterpriseId: args.enterpriseId,
         type: "duplicate_vendors" as const,
         title: "Potential Duplicate Vendors Detected",
         description: `Found ${duplicates.length} potential duplicate vendor pairs that may need merging`,
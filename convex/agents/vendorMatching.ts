@@ -0,0 +1,92 @@
+/**
+ * Vendor name matching
+ *
+ * Fuzzy comparison of vendor names, shared by the vendor agent and spend
+ * ingestion so invoices and contracts resolve to vendors the same way.
+ */
+
+// Vendor matching threshold for fuzzy matching
+export const MATCH_THRESHOLD = 0.85;
+
+// Helper function to normalize vendor names for comparison
+export function normalizeVendorName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[^\w\s]/g, "")
+    .replace(/\b(inc|incorporated|llc|ltd|limited|corp|corporation|company|co)\b/g, "")
+    .trim();
+}
+
+// Calculate similarity between two strings (Jaro-Winkler distance)
+export function calculateSimilarity(str1: string, str2: string): number {
+  if (str1 === str2) return 1;
+  
+  const len1 = str1.length;
+  const len2 = str2.length;
+  
+  if (len1 === 0 || len2 === 0) return 0;
+  
+  const maxDist = Math.floor(Math.max(len1, len2) / 2) - 1;
+  let matches = 0;
+  let transpositions = 0;
+  
+  const str1Matches = new Array(len1).fill(false);
+  const str2Matches = new Array(len2).fill(false);
+  
+  // Find matches
+  for (let i = 0; i < len1; i++) {
+    const start = Math.max(0, i - maxDist);
+    const end = Math.min(i + maxDist + 1, len2);
+    
+    for (let j = start; j < end; j++) {
+      if (str2Matches[j] || str1[i] !== str2[j]) continue;
+      str1Matches[i] = true;
+      str2Matches[j] = true;
+      matches++;
+      break;
+    }
+  }
+  
+  if (matches === 0) return 0;
+  
+  // Count transpositions
+  let k = 0;
+  for (let i = 0; i < len1; i++) {
+    if (!str1Matches[i]) continue;
+    while (!str2Matches[k]) k++;
+    if (str1[i] !== str2[k]) transpositions++;
+    k++;
+  }
+  
+  const jaro = (matches / len1 + matches / len2 + (matches - transpositions / 2) / matches) / 3;
+  
+  // Jaro-Winkler modification
+  let prefixLen = 0;
+  for (let i = 0; i < Math.min(len1, len2, 4); i++) {
+    if (str1[i] === str2[i]) prefixLen++;
+    else break;
+  }
+  
+  return jaro + prefixLen * 0.1 * (1 - jaro);
+}
+
+// Closest vendor at or above the match threshold, if any
+export function bestVendorMatch<T extends { name: string }>(
+  vendorName: string,
+  vendors: T[]
+): { vendor: T; matchScore: number } | null {
+  const normalizedSearchName = normalizeVendorName(vendorName);
+  let bestMatch: T | null = null;
+  let bestScore = 0;
+
+  for (const vendor of vendors) {
+    const similarity = calculateSimilarity(normalizedSearchName, normalizeVendorName(vendor.name));
+    if (similarity > bestScore && similarity >= MATCH_THRESHOLD) {
+      bestScore = similarity;
+      bestMatch = vendor;
+    }
+  }
+
+  return bestMatch ? { vendor: bestMatch, matchScore: bestScore } : null;
+}
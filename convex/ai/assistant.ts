@@ -0,0 +1,867 @@
+// convex/ai/assistant.ts
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { action, internalQuery, internalMutation, QueryCtx } from "../_generated/server";
+import { api, internal } from "../_generated/api";
+import { Doc, Id } from "../_generated/dataModel";
+import {
+  SecurityContext,
+  contractResource,
+  budgetResource,
+  getDepartmentScope,
+  getSecurityContext,
+  hasScopedPermission,
+} from "../security/rowLevelSecurity";
+import type { Permission, PermissionResource } from "../security/permissions";
+import { getLLM } from "./llm";
+import type { LLMMessage } from "./llmProviders";
+import {
+  ASSISTANT_INSTRUCTIONS,
+  ASSISTANT_TOOLS,
+  AssistantSource,
+  AssistantToolResult,
+  MAX_TOOL_ROUNDS,
+  formatToolResult,
+  resolveCitations,
+} from "./assistantTools";
+
+/**
+ * Contract assistant
+ *
+ * Writes the assistant's reply to a chat message. The client posts the
+ * message with chat.sendChatMessage, which adds an empty reply, then calls
+ * streamReply: the model looks up what it needs through the assistant tools,
+ * its text is saved into the reply as it arrives so the chat shows it
+ * streaming, and the records it cites become the reply's attachments. Tool
+ * lookups run as the asking user and only return what they may read.
+ */
+
+// How often streamed text is saved to the reply
+const STREAM_FLUSH_INTERVAL_MS = 250;
+
+const MAX_SEARCH_RESULTS = 20;
+
+const FALLBACK_REPLY = "I apologize, but I'm unable to process your request at the moment. Please try again later.";
+
+const OPEN_OBLIGATION_STATUSES = ["upcoming", "due", "overdue"] as const;
+
+const replyArgs = {
+  sessionId: v.id("chatSessions"),
+  messageId: v.string(),
+};
+
+const citationValidator = v.object({
+  type: v.union(v.literal("contract"), v.literal("vendor"), v.literal("clause")),
+  id: v.string(),
+  title: v.string(),
+  contractId: v.optional(v.string()),
+});
+
+interface ReplyContext {
+  enterpriseId: Id<"enterprises">;
+  systemPrompt: string;
+  history: LLMMessage[];
+  question: string;
+  attachments: Array<{ type: "contract" | "vendor"; id: string; title: string }>;
+}
+
+/**
+ * Stream the assistant's reply into a message added by chat.sendChatMessage
+ */
+export const streamReply = action({
+  args: replyArgs,
+  handler: async (ctx, args): Promise<{ content: string; citations: AssistantSource[] }> => {
+    const startedAt = Date.now();
+    const reply: ReplyContext | null = await ctx.runQuery(internal.ai.assistant.getReplyContext, args);
+    if (!reply) {
+      throw new ConvexError("Chat message not found");
+    }
+
+    const messages: LLMMessage[] = [{ role: "system", content: reply.systemPrompt }, ...reply.history];
+    const sources: AssistantSource[] = [];
+    const toolsUsed: string[] = [];
+    let model: string | undefined;
+    let tokens = 0;
+
+    let result: { content: string; citations: AssistantSource[] };
+    try {
+      const llm = await getLLM(ctx, reply.enterpriseId, "chat");
+
+      let answer = "";
+      for (let round = 0; ; round++) {
+        let streamed = "";
+        let flushedAt = Date.now();
+        const completion = await llm.complete(messages, {
+          temperature: 0.3,
+          maxTokens: 1500,
+          // The last round gets no tools, so the model answers with what it found
+          ...(round < MAX_TOOL_ROUNDS ? { tools: ASSISTANT_TOOLS } : {}),
+          onToken: async (text) => {
+            streamed += text;
+            if (Date.now() - flushedAt >= STREAM_FLUSH_INTERVAL_MS) {
+              flushedAt = Date.now();
+              await ctx.runMutation(internal.ai.assistant.updateReply, { ...args, content: streamed });
+            }
+          },
+        });
+        model = completion.model;
+        tokens += completion.usage.totalTokens;
+
+        if (completion.toolCalls.length === 0) {
+          answer = completion.content;
+          break;
+        }
+
+        messages.push({ role: "assistant", content: completion.content, toolCalls: completion.toolCalls });
+        for (const call of completion.toolCalls) {
+          toolsUsed.push(call.name);
+          let output: string;
+          try {
+            const toolResult: AssistantToolResult = await ctx.runQuery(internal.ai.assistant.runTool, {
+              name: call.name,
+              input: call.arguments,
+            });
+            sources.push(...toolResult.sources);
+            output = formatToolResult(toolResult);
+          } catch (error) {
+            output = formatToolResult({ error: error instanceof Error ? error.message : String(error) });
+          }
+          messages.push({ role: "tool", toolCallId: call.id, content: output });
+        }
+        await ctx.runMutation(internal.ai.assistant.updateReply, { ...args, content: "", tools: [...new Set(toolsUsed)] });
+      }
+
+      if (!answer.trim()) {
+        throw new Error("No response from AI");
+      }
+      result = resolveCitations(answer, sources);
+    } catch (error) {
+      console.error("AI chat failed:", error);
+      await ctx.runMutation(internal.ai.assistant.finishReply, {
+        ...args,
+        content: FALLBACK_REPLY,
+        status: "failed",
+        citations: [],
+        metadata: { processingTime: Date.now() - startedAt, tools: [...new Set(toolsUsed)] },
+      });
+      return { content: FALLBACK_REPLY, citations: [] };
+    }
+
+    await ctx.runMutation(internal.ai.assistant.finishReply, {
+      ...args,
+      content: result.content,
+      status: "complete",
+      citations: result.citations,
+      metadata: {
+        ...(model ? { model } : {}),
+        tokens,
+        processingTime: Date.now() - startedAt,
+        tools: [...new Set(toolsUsed)],
+      },
+    });
+
+    // Store the conversation in the memory system; the reply stands if this fails
+    try {
+      const memoryAnalysis = analyzeConversationForMemory(reply.question, result.content);
+
+      await ctx.runMutation(api.memoryShortTerm.store, {
+        sessionId: args.sessionId,
+        memoryType: memoryAnalysis.memoryType,
+        content: `User asked: "${reply.question}". Assistant responded: "${result.content.substring(0, 200)}..."`,
+        structuredData: {
+          ...memoryAnalysis.extractedInfo,
+          chatSessionId: args.sessionId,
+          timestamp: new Date().toISOString(),
+          attachments: reply.attachments,
+          citations: result.citations,
+        },
+        context: {
+          relatedEntities: [...reply.attachments, ...result.citations].map(entity => ({
+            type: entity.type,
+            id: entity.id,
+            name: entity.title,
+          })),
+        },
+        importance: memoryAnalysis.importance,
+        confidence: 0.8,
+        source: "conversation",
+      });
+
+      if (memoryAnalysis.shouldConsolidate && memoryAnalysis.importance !== "low") {
+        await ctx.runMutation(api.memoryConsolidation.triggerConsolidation, { sessionId: args.sessionId });
+      }
+
+      for (const attachment of reply.attachments) {
+        await ctx.runMutation(api.memoryIntegration.storeInteractionPattern, {
+          sessionId: args.sessionId,
+          action: "chat_about",
+          entityType: attachment.type,
+          entityId: attachment.id,
+          metadata: {
+            messageLength: reply.question.length,
+            hasContext: true,
+          },
+        });
+      }
+    } catch (error) {
+      console.error("Failed to store memory:", error);
+    }
+
+    return result;
+  },
+});
+
+/**
+ * What the model needs to write a reply: the conversation so far and a system
+ * prompt with the attached records and the user's memories. Null unless the
+ * reply belongs to the signed-in user and is still being written.
+ */
+export const getReplyContext = internalQuery({
+  args: replyArgs,
+  handler: async (ctx, args): Promise<ReplyContext | null> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return null;
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
+      .first();
+    const session = await ctx.db.get(args.sessionId);
+    if (!user || !session || session.userId !== user._id) return null;
+
+    const index = session.messages.findIndex(message => message.id === args.messageId);
+    const replyMessage = session.messages[index];
+    if (!replyMessage || replyMessage.role !== "assistant" || replyMessage.status !== "streaming") return null;
+
+    const earlier = session.messages.slice(0, index);
+    const question = [...earlier].reverse().find(message => message.role === "user");
+    const attachments = (question?.attachments ?? []).flatMap(attachment =>
+      attachment.type === "clause" ? [] : [{ type: attachment.type, id: attachment.id, title: attachment.title }]
+    );
+
+    const access = await getReadAccess(ctx);
+
+    // Records the user attached, as far as they may read them
+    let contextInfo = "";
+    for (const attachment of attachments) {
+      if (attachment.type === "contract") {
+        const contractId = ctx.db.normalizeId("contracts", attachment.id);
+        const contract = contractId ? await ctx.db.get(contractId) : null;
+        if (contract && contract.enterpriseId === access.security.enterpriseId
+          && canRead(access, "contracts.read", contractResource(contract))) {
+          contextInfo += `\nContract: ${contract.title} [contract:${contract._id}]\n`;
+          if (contract.extractedScope) {
+            contextInfo += `Scope: ${contract.extractedScope}\n`;
+          }
+          if (contract.extractedParties) {
+            contextInfo += `Parties: ${contract.extractedParties.join(", ")}\n`;
+          }
+        }
+      } else {
+        const vendorId = ctx.db.normalizeId("vendors", attachment.id);
+        const vendor = vendorId ? await ctx.db.get(vendorId) : null;
+        if (vendor && vendor.enterpriseId === access.security.enterpriseId
+          && canRead(access, "vendors.read", { type: "vendor", id: vendor._id })) {
+          contextInfo += `\nVendor: ${vendor.name} [vendor:${vendor._id}]\n`;
+          if (vendor.category) {
+            contextInfo += `Category: ${vendor.category}\n`;
+          }
+        }
+      }
+    }
+
+    const systemPrompt = `You are an AI assistant specializing in contract and vendor management.
+You help users understand contracts, identify risks, suggest improvements, and manage vendor relationships.
+Be concise, professional, and actionable in your responses.
+
+${ASSISTANT_INSTRUCTIONS}
+
+Use the memory context below to personalize your responses.
+Pay special attention to items in working memory as they represent the current context.
+
+Context about the current session:
+${contextInfo}
+${await getMemoryContext(ctx, user._id, args.sessionId)}`;
+
+    return {
+      enterpriseId: session.enterpriseId,
+      systemPrompt,
+      history: earlier
+        .filter(message => message.role !== "system" && message.status !== "failed" && message.content)
+        .map(message => ({ role: message.role as "user" | "assistant", content: message.content })),
+      question: question?.content ?? "",
+      attachments,
+    };
+  },
+});
+
+/**
+ * The user's working memory for the session, preferences and knowledge from
+ * long-term memory, and the session's recent short-term memories
+ */
+async function getMemoryContext(ctx: QueryCtx, userId: Id<"users">, sessionId: Id<"chatSessions">): Promise<string> {
+  let memoryContext = "";
+  try {
+    const workingMemory = await ctx.db
+      .query("workingMemory")
+      .withIndex("by_session", (q) => q.eq("userId", userId).eq("sessionId", sessionId))
+      .first();
+    const activeItems = workingMemory?.items.filter(item => item.activation > 0.5) ?? [];
+    if (activeItems.length > 0) {
+      memoryContext += "\nCurrent Working Memory (Active Context):\n";
+      activeItems.forEach(item => {
+        memoryContext += `- [${item.type}] ${item.content} (activation: ${item.activation.toFixed(2)})\n`;
+      });
+    }
+
+    const longTermMemories = await ctx.db
+      .query("longTermMemory")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(10);
+    if (longTermMemories.length > 0) {
+      memoryContext += "\nRelevant memories and preferences:\n";
+      longTermMemories.forEach(memory => {
+        if (memory.memoryType === "user_preference") {
+          memoryContext += `- User preference: ${memory.content}\n`;
+        } else if (memory.memoryType === "domain_knowledge") {
+          memoryContext += `- Previous knowledge: ${memory.content}\n`;
+        }
+      });
+    }
+
+    const shortTermMemories = await ctx.db
+      .query("shortTermMemory")
+      .withIndex("by_user_session", (q) => q.eq("userId", userId).eq("sessionId", sessionId))
+      .order("desc")
+      .take(5);
+    if (shortTermMemories.length > 0) {
+      memoryContext += "\nRecent context:\n";
+      shortTermMemories.forEach(memory => {
+        if (memory.memoryType === "conversation_context" || memory.memoryType === "feedback") {
+          memoryContext += `- ${memory.content}\n`;
+        }
+      });
+    }
+  } catch (error) {
+    console.log("Could not retrieve memories:", error);
+  }
+  return memoryContext;
+}
+
+/**
+ * Save the text streamed so far, and the tools called, into a reply still
+ * being written
+ */
+export const updateReply = internalMutation({
+  args: {
+    ...replyArgs,
+    content: v.string(),
+    tools: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) return;
+
+    let changed = false;
+    const messages = session.messages.map(message => {
+      if (message.id !== args.messageId || message.status !== "streaming") return message;
+      changed = true;
+      return {
+        ...message,
+        content: args.content,
+        ...(args.tools ? { metadata: { ...message.metadata, tools: args.tools } } : {}),
+      };
+    });
+    if (changed) {
+      await ctx.db.patch(args.sessionId, { messages });
+    }
+  },
+});
+
+/**
+ * Complete a reply with its final text and citations, and note the exchange
+ * in the session's working memory
+ */
+export const finishReply = internalMutation({
+  args: {
+    ...replyArgs,
+    content: v.string(),
+    status: v.union(v.literal("complete"), v.literal("failed")),
+    citations: v.array(citationValidator),
+    metadata: v.object({
+      model: v.optional(v.string()),
+      tokens: v.optional(v.number()),
+      processingTime: v.optional(v.number()),
+      tools: v.optional(v.array(v.string())),
+    }),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) return;
+
+    const index = session.messages.findIndex(message => message.id === args.messageId);
+    const replyMessage = session.messages[index];
+    if (!replyMessage || replyMessage.status !== "streaming") return;
+
+    const now = new Date().toISOString();
+    const messages = [...session.messages];
+    messages[index] = {
+      ...replyMessage,
+      content: args.content,
+      status: args.status,
+      timestamp: now,
+      ...(args.citations.length > 0 ? { attachments: args.citations } : {}),
+      metadata: args.metadata,
+    };
+    await ctx.db.patch(args.sessionId, { messages, updatedAt: now });
+
+    if (args.status !== "complete") return;
+
+    const question = session.messages.slice(0, index).reverse().find(message => message.role === "user");
+    const workingMemory = await ctx.db
+      .query("workingMemory")
+      .withIndex("by_session", (q) => q.eq("userId", session.userId).eq("sessionId", args.sessionId))
+      .first();
+    if (!question || !workingMemory) return;
+
+    const memoryAnalysis = analyzeConversationForMemory(question.content, args.content);
+    const workingMemoryType = memoryAnalysis.memoryType === "user_preference" ? "preference" :
+                              memoryAnalysis.memoryType === "domain_knowledge" ? "concept" :
+                              memoryAnalysis.memoryType === "entity_relation" ? "entity" :
+                              memoryAnalysis.memoryType === "feedback" ? "preference" : "context";
+
+    const items = [...workingMemory.items, {
+      id: crypto.randomUUID(),
+      content: memoryAnalysis.extractedInfo.userQuery || question.content,
+      type: workingMemoryType as "concept" | "entity" | "task" | "preference" | "context",
+      activation: 1.0,
+      lastAccessed: now,
+      accessCount: 1,
+      associations: [],
+      source: "chat" as const,
+      metadata: {
+        aiResponse: args.content.substring(0, 200),
+        memoryType: memoryAnalysis.memoryType,
+        importance: memoryAnalysis.importance,
+      },
+    }];
+
+    // Keep the most active items within capacity
+    if (items.length > workingMemory.capacity) {
+      items.sort((a, b) => b.activation - a.activation);
+      items.splice(workingMemory.capacity);
+    }
+
+    await ctx.db.patch(workingMemory._id, { items, lastUpdate: now });
+  },
+});
+
+/**
+ * Analyze conversation for memory-worthy content
+ */
+function analyzeConversationForMemory(message: string, response: string): {
+  memoryType: "conversation_context" | "user_preference" | "domain_knowledge" | "feedback" | "entity_relation";
+  importance: "critical" | "high" | "medium" | "low" | "temporary";
+  shouldConsolidate: boolean;
+  extractedInfo: Record<string, string>;
+} {
+  // Keywords that indicate preferences
+  const preferenceKeywords = ['prefer', 'like', 'want', 'need', 'always', 'never', 'usually', 'typically'];
+  const feedbackKeywords = ['good', 'bad', 'better', 'worse', 'excellent', 'poor', 'helpful', 'not helpful'];
+  const domainKeywords = ['contract', 'vendor', 'compliance', 'payment', 'deadline', 'obligation', 'risk'];
+
+  const lowerMessage = message.toLowerCase();
+  const lowerResponse = response.toLowerCase();
+
+  // Check for user preferences
+  if (preferenceKeywords.some(keyword => lowerMessage.includes(keyword))) {
+    return {
+      memoryType: 'user_preference',
+      importance: 'high',
+      shouldConsolidate: true,
+      extractedInfo: {
+        preferenceContext: message,
+        responseContext: response
+      }
+    };
+  }
+
+  // Check for feedback
+  if (feedbackKeywords.some(keyword => lowerMessage.includes(keyword))) {
+    return {
+      memoryType: 'feedback',
+      importance: 'medium',
+      shouldConsolidate: false,
+      extractedInfo: {
+        feedbackType: lowerMessage.includes('good') || lowerMessage.includes('excellent') || lowerMessage.includes('helpful') ? 'positive' : 'negative',
+        context: message
+      }
+    };
+  }
+
+  // Check for domain knowledge
+  const topic = domainKeywords.find(keyword => lowerMessage.includes(keyword) || lowerResponse.includes(keyword));
+  if (topic) {
+    return {
+      memoryType: 'domain_knowledge',
+      importance: 'medium',
+      shouldConsolidate: true,
+      extractedInfo: {
+        topic,
+        question: message,
+        answer: response
+      }
+    };
+  }
+
+  // Default to conversation context
+  return {
+    memoryType: 'conversation_context',
+    importance: 'low',
+    shouldConsolidate: false,
+    extractedInfo: {
+      userQuery: message,
+      assistantResponse: response
+    }
+  };
+}
+
+// ============================================================================
+// TOOLS
+// ============================================================================
+
+interface ReadAccess {
+  security: SecurityContext;
+  departmentScope: Set<string> | null;
+}
+
+type ToolInput = Record<string, unknown>;
+
+async function getReadAccess(ctx: QueryCtx): Promise<ReadAccess> {
+  const security = await getSecurityContext(ctx);
+  return { security, departmentScope: await getDepartmentScope(ctx, security) };
+}
+
+function canRead(access: ReadAccess, permission: Permission, resource: PermissionResource): boolean {
+  return hasScopedPermission(access.security, access.departmentScope, permission, resource);
+}
+
+/**
+ * Run one of the assistant's tools as the signed-in user
+ */
+export const runTool = internalQuery({
+  args: {
+    name: v.string(),
+    input: v.any(),
+  },
+  handler: async (ctx, args): Promise<AssistantToolResult> => {
+    const access = await getReadAccess(ctx);
+    const input: ToolInput = args.input && typeof args.input === "object" ? args.input : {};
+
+    switch (args.name) {
+      case "search_contracts":
+        return searchContracts(ctx, access, input);
+      case "get_contract":
+        return getContract(ctx, access, input);
+      case "get_budgets":
+        return getBudgets(ctx, access, input);
+      case "get_vendor_performance":
+        return getVendorPerformance(ctx, access, input);
+      case "get_deadlines":
+        return getDeadlines(ctx, access, input);
+      default:
+        throw new ConvexError(`Unknown tool: ${args.name}`);
+    }
+  },
+});
+
+async function searchContracts(ctx: QueryCtx, access: ReadAccess, input: ToolInput): Promise<AssistantToolResult> {
+  const enterpriseId = access.security.enterpriseId;
+  const [contracts, vendors] = await Promise.all([
+    ctx.db.query("contracts").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId)).collect(),
+    ctx.db.query("vendors").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId)).collect(),
+  ]);
+  const vendorNames = new Map<string, string>(vendors.map(vendor => [vendor._id, vendor.name]));
+
+  const query = textInput(input.query)?.toLowerCase();
+  const statuses = Array.isArray(input.status) ? input.status.filter((status): status is string => typeof status === "string") : [];
+  const contractType = textInput(input.contractType);
+  const endDateFrom = textInput(input.endDateFrom);
+  const endDateTo = textInput(input.endDateTo);
+  const minValue = numberInput(input.minValue);
+  const maxValue = numberInput(input.maxValue);
+
+  const matches = contracts.filter(contract => {
+    if (!canRead(access, "contracts.read", contractResource(contract))) return false;
+    if (statuses.length > 0 && !statuses.includes(contract.status)) return false;
+    if (contractType && contract.contractType !== contractType) return false;
+
+    const endDate = contractEndDate(contract);
+    if (endDateFrom && (!endDate || endDate < endDateFrom)) return false;
+    if (endDateTo && (!endDate || endDate > endDateTo)) return false;
+    if (minValue !== undefined && (contract.value === undefined || contract.value < minValue)) return false;
+    if (maxValue !== undefined && (contract.value === undefined || contract.value > maxValue)) return false;
+
+    if (query) {
+      const vendorName = contract.vendorId ? vendorNames.get(contract.vendorId) ?? "" : "";
+      const searchText = `${contract.title} ${contract.notes ?? ""} ${contract.extractedScope ?? ""} ${vendorName}`.toLowerCase();
+      return query.split(/\s+/).every(word => searchText.includes(word));
+    }
+    return true;
+  });
+
+  const shown = matches.slice(0, MAX_SEARCH_RESULTS);
+  return {
+    data: {
+      total: matches.length,
+      contracts: shown.map(contract => contractSummary(contract, vendorNames)),
+    },
+    sources: shown.map(contractSource),
+  };
+}
+
+async function getContract(ctx: QueryCtx, access: ReadAccess, input: ToolInput): Promise<AssistantToolResult> {
+  const contractId = ctx.db.normalizeId("contracts", textInput(input.contractId) ?? "");
+  const contract = contractId ? await ctx.db.get(contractId) : null;
+  if (!contract || contract.enterpriseId !== access.security.enterpriseId
+    || !canRead(access, "contracts.read", contractResource(contract))) {
+    return { data: { error: "Contract not found" }, sources: [] };
+  }
+
+  const vendor = contract.vendorId ? await ctx.db.get(contract.vendorId) : null;
+  const readableVendor = vendor && canRead(access, "vendors.read", { type: "vendor", id: vendor._id }) ? vendor : null;
+  const clauses = await ctx.db
+    .query("contractClauses")
+    .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+    .collect();
+  const obligations = await ctx.db
+    .query("obligations")
+    .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+    .collect();
+
+  const vendorNames = new Map<string, string>(vendor ? [[vendor._id, vendor.name]] : []);
+  return {
+    data: {
+      ...contractSummary(contract, vendorNames),
+      ...(readableVendor ? { vendorId: readableVendor._id } : {}),
+      parties: contract.extractedParties,
+      scope: contract.extractedScope?.slice(0, 1000),
+      pricing: contract.extractedPricing,
+      paymentSchedule: contract.extractedPaymentSchedule,
+      noticePeriodDays: contract.noticePeriodDays,
+      renewalTermMonths: contract.renewalTermMonths,
+      clauses: clauses.map(clause => ({
+        id: clause._id,
+        type: clause.clauseType,
+        present: clause.present,
+        riskLevel: clause.riskLevel,
+        excerpt: clause.extractedText?.slice(0, 300),
+        deviationStatus: clause.deviationStatus,
+        recommendations: clause.recommendations,
+      })),
+      openObligations: obligations
+        .filter(obligation => (OPEN_OBLIGATION_STATUSES as readonly string[]).includes(obligation.status))
+        .map(obligation => ({
+          title: obligation.title,
+          dueDate: obligation.dueDate,
+          status: obligation.status,
+          ownerParty: obligation.ownerParty,
+        })),
+    },
+    sources: [
+      contractSource(contract),
+      ...(readableVendor ? [vendorSource(readableVendor)] : []),
+      ...clauses.map(clause => ({
+        type: "clause" as const,
+        id: clause._id,
+        title: `${contract.title}: ${clause.clauseType.replace(/_/g, " ")}`,
+        contractId: contract._id,
+      })),
+    ],
+  };
+}
+
+async function getBudgets(ctx: QueryCtx, access: ReadAccess, input: ToolInput): Promise<AssistantToolResult> {
+  const status = textInput(input.status);
+  const budgets = await ctx.db
+    .query("budgets")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", access.security.enterpriseId))
+    .collect();
+
+  return {
+    data: {
+      budgets: budgets
+        .filter(budget =>
+          (!status || (status === "active" ? budget.status !== "closed" : budget.status === status))
+          && canRead(access, "budgets.read", budgetResource(budget))
+        )
+        .map(budget => ({
+          name: budget.name,
+          budgetType: budget.budgetType,
+          status: budget.status,
+          currency: budget.currency,
+          totalBudget: budget.totalBudget,
+          allocatedAmount: budget.allocatedAmount,
+          spentAmount: budget.spentAmount,
+          committedAmount: budget.committedAmount,
+          startDate: budget.startDate,
+          endDate: budget.endDate,
+        })),
+    },
+    sources: [],
+  };
+}
+
+async function getVendorPerformance(ctx: QueryCtx, access: ReadAccess, input: ToolInput): Promise<AssistantToolResult> {
+  const enterpriseId = access.security.enterpriseId;
+  let vendor: Doc<"vendors"> | null = null;
+
+  const vendorId = ctx.db.normalizeId("vendors", textInput(input.vendorId) ?? "");
+  if (vendorId) {
+    vendor = await ctx.db.get(vendorId);
+  } else {
+    const name = textInput(input.vendorName)?.toLowerCase();
+    if (name) {
+      const vendors = await ctx.db
+        .query("vendors")
+        .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+        .collect();
+      vendor = vendors.find(candidate => candidate.name.toLowerCase() === name)
+        ?? vendors.find(candidate => candidate.name.toLowerCase().includes(name))
+        ?? null;
+    }
+  }
+  if (!vendor || vendor.enterpriseId !== enterpriseId || !canRead(access, "vendors.read", { type: "vendor", id: vendor._id })) {
+    return { data: { error: "Vendor not found" }, sources: [] };
+  }
+
+  const foundVendor = vendor;
+  const contracts = (await ctx.db
+    .query("contracts")
+    .withIndex("by_vendorId_and_enterpriseId", (q) => q.eq("enterpriseId", enterpriseId).eq("vendorId", foundVendor._id))
+    .collect())
+    .filter(contract => canRead(access, "contracts.read", contractResource(contract)));
+  const active = contracts.filter(contract => contract.status === "active");
+  const vendorNames = new Map<string, string>([[vendor._id, vendor.name]]);
+
+  return {
+    data: {
+      id: vendor._id,
+      name: vendor.name,
+      category: vendor.category,
+      status: vendor.status,
+      performanceScore: vendor.performanceScore,
+      complianceScore: vendor.complianceScore,
+      totalContracts: contracts.length,
+      activeContracts: active.length,
+      activeContractValue: active.reduce((sum, contract) => sum + (contract.value ?? 0), 0),
+      contracts: contracts.slice(0, MAX_SEARCH_RESULTS).map(contract => contractSummary(contract, vendorNames)),
+    },
+    sources: [vendorSource(vendor), ...contracts.slice(0, MAX_SEARCH_RESULTS).map(contractSource)],
+  };
+}
+
+async function getDeadlines(ctx: QueryCtx, access: ReadAccess, input: ToolInput): Promise<AssistantToolResult> {
+  const enterpriseId = access.security.enterpriseId;
+  const daysAhead = Math.min(Math.max(Math.round(numberInput(input.daysAhead) ?? 30), 1), 365);
+  const today = new Date().toISOString().slice(0, 10);
+  const until = new Date(Date.now() + daysAhead * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const renewals = await ctx.db
+    .query("contractRenewals")
+    .withIndex("by_enterprise_deadline", (q) =>
+      q.eq("enterpriseId", enterpriseId).gte("cancellationDeadline", today).lte("cancellationDeadline", until)
+    )
+    .collect();
+  const obligations = (
+    await Promise.all(
+      OPEN_OBLIGATION_STATUSES.map(status =>
+        ctx.db
+          .query("obligations")
+          .withIndex("by_enterprise_status", (q) => q.eq("enterpriseId", enterpriseId).eq("status", status))
+          .collect()
+      )
+    )
+  ).flat().filter(obligation => obligation.dueDate && obligation.dueDate.slice(0, 10) <= until);
+
+  // Only deadlines of contracts the user may read
+  const contracts = new Map<Id<"contracts">, Doc<"contracts"> | null>();
+  const readableContract = async (contractId: Id<"contracts">) => {
+    if (!contracts.has(contractId)) {
+      const contract = await ctx.db.get(contractId);
+      contracts.set(contractId, contract && canRead(access, "contracts.read", contractResource(contract)) ? contract : null);
+    }
+    return contracts.get(contractId) ?? null;
+  };
+
+  const deadlines: Array<{ date: string; kind: string; contractId: string; contract: string; detail: string; status: string }> = [];
+  for (const renewal of renewals.filter(renewal => renewal.status !== "closed")) {
+    const contract = await readableContract(renewal.contractId);
+    if (!contract) continue;
+    deadlines.push({
+      date: renewal.cancellationDeadline,
+      kind: "cancellation_deadline",
+      contractId: contract._id,
+      contract: contract.title,
+      detail: `Term ends ${renewal.termEndDate}; ${renewal.isAutoRenew ? "renews automatically" : "does not renew automatically"}; decision: ${renewal.decision}`,
+      status: renewal.status,
+    });
+  }
+  for (const obligation of obligations) {
+    const contract = await readableContract(obligation.contractId);
+    if (!contract) continue;
+    deadlines.push({
+      date: obligation.dueDate!,
+      kind: "obligation",
+      contractId: contract._id,
+      contract: contract.title,
+      detail: obligation.title,
+      status: obligation.status,
+    });
+  }
+  deadlines.sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    data: { from: today, until, deadlines },
+    sources: [...contracts.values()]
+      .filter((contract): contract is Doc<"contracts"> => contract !== null)
+      .map(contractSource),
+  };
+}
+
+function contractSummary(contract: Doc<"contracts">, vendorNames: Map<string, string>) {
+  return {
+    id: contract._id,
+    title: contract.title,
+    status: contract.status,
+    contractType: contract.contractType,
+    vendor: contract.vendorId ? vendorNames.get(contract.vendorId) : undefined,
+    value: contract.value,
+    currency: contract.currency,
+    startDate: contract.startDate ?? contract.extractedStartDate,
+    endDate: contractEndDate(contract),
+    cancellationDeadline: contract.cancellationDeadline,
+    isAutoRenew: contract.isAutoRenew,
+  };
+}
+
+function contractEndDate(contract: Doc<"contracts">): string | undefined {
+  return contract.endDate ?? contract.extractedEndDate;
+}
+
+function contractSource(contract: Doc<"contracts">): AssistantSource {
+  return { type: "contract", id: contract._id, title: contract.title };
+}
+
+function vendorSource(vendor: Doc<"vendors">): AssistantSource {
+  return { type: "vendor", id: vendor._id, title: vendor.name };
+}
+
+function textInput(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function numberInput(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
@@ -0,0 +1,141 @@
+// convex/ai/assistantTools.ts
+import type { LLMToolDefinition } from "./llmProviders";
+
+/**
+ * Contract assistant tools
+ *
+ * The chat assistant answers from the enterprise's own records: it calls these
+ * tools to search contracts, read one contract with its clauses, check
+ * budgets, vendor performance and upcoming deadlines, and cites the records
+ * its answer rests on. The lookups run in ai/assistant.ts with the asking
+ * user's permissions; this module holds the tool definitions and citation
+ * handling and makes no database calls.
+ */
+
+export type AssistantSourceType = "contract" | "vendor" | "clause";
+
+/**
+ * A record a tool returned, which the answer may cite
+ */
+export interface AssistantSource {
+  type: AssistantSourceType;
+  id: string;
+  title: string;
+  contractId?: string | undefined; // The contract a clause belongs to
+}
+
+export interface AssistantToolResult {
+  data: unknown;
+  sources: AssistantSource[];
+}
+
+// Tool calling rounds before the model has to answer with what it has
+export const MAX_TOOL_ROUNDS = 5;
+
+// Longest tool result passed back to the model, in characters
+export const MAX_TOOL_RESULT_LENGTH = 12000;
+
+export const ASSISTANT_TOOLS: LLMToolDefinition[] = [
+  {
+    name: "search_contracts",
+    description: "Find contracts the user can see. Returns up to 20 matches with their ids, status, vendor, value and dates.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Words to look for in the title, notes, scope or vendor name" },
+        status: { type: "array", items: { type: "string" }, description: "e.g. active, pending_analysis, expired" },
+        contractType: { type: "string", description: "e.g. nda, msa, sow, saas, lease, employment, partnership" },
+        endDateFrom: { type: "string", description: "Only contracts ending on or after this date (YYYY-MM-DD)" },
+        endDateTo: { type: "string", description: "Only contracts ending on or before this date (YYYY-MM-DD)" },
+        minValue: { type: "number" },
+        maxValue: { type: "number" },
+      },
+    },
+  },
+  {
+    name: "get_contract",
+    description: "One contract in detail: parties, dates, value, renewal terms, its analyzed clauses and open obligations.",
+    parameters: {
+      type: "object",
+      properties: {
+        contractId: { type: "string" },
+      },
+      required: ["contractId"],
+    },
+  },
+  {
+    name: "get_budgets",
+    description: "The budgets the user can see, with total, allocated, spent and committed amounts.",
+    parameters: {
+      type: "object",
+      properties: {
+        status: { type: "string", enum: ["active", "exceeded", "at_risk", "healthy", "closed"] },
+      },
+    },
+  },
+  {
+    name: "get_vendor_performance",
+    description: "A vendor's performance and compliance scores and totals of its contracts. Give the vendor's id or name.",
+    parameters: {
+      type: "object",
+      properties: {
+        vendorId: { type: "string" },
+        vendorName: { type: "string" },
+      },
+    },
+  },
+  {
+    name: "get_deadlines",
+    description: "Cancellation deadlines of contracts up for renewal and open obligations due in the coming days, soonest first.",
+    parameters: {
+      type: "object",
+      properties: {
+        daysAhead: { type: "number", description: "How far ahead to look, 1 to 365 days (default 30)" },
+      },
+    },
+  },
+];
+
+export const ASSISTANT_INSTRUCTIONS = `Use the tools to look up the user's contracts, budgets, vendors and deadlines
+before answering questions about them; never guess figures, dates or terms.
+When a statement rests on a record a tool returned, cite it right after the
+statement as [contract:<id>], [clause:<id>] or [vendor:<id>] with the id the
+tool gave. If the tools find nothing, say so.`;
+
+const CITATION_PATTERN = /\s*\[(contract|clause|vendor):([A-Za-z0-9_-]+)\]/g;
+
+/**
+ * Replace the answer's citation markers with numbered references to the
+ * sources they name, numbered in order of first mention. Markers naming a
+ * record no tool returned are dropped, so an answer only cites records the
+ * user was allowed to see.
+ */
+export function resolveCitations(
+  text: string,
+  sources: AssistantSource[]
+): { content: string; citations: AssistantSource[] } {
+  const citations: AssistantSource[] = [];
+
+  const content = text.replace(CITATION_PATTERN, (marker, type: string, id: string) => {
+    const source = sources.find(candidate => candidate.type === type && candidate.id === id);
+    if (!source) return "";
+
+    let index = citations.indexOf(source);
+    if (index < 0) {
+      index = citations.push(source) - 1;
+    }
+    return `${marker.match(/^\s*/)![0]}[${index + 1}]`;
+  });
+
+  return { content: content.trim(), citations };
+}
+
+/**
+ * Tool results as the model reads them, cut short when very long
+ */
+export function formatToolResult(result: AssistantToolResult | { error: string }): string {
+  const text = JSON.stringify("error" in result ? result : result.data);
+  return text.length > MAX_TOOL_RESULT_LENGTH
+    ? `${text.slice(0, MAX_TOOL_RESULT_LENGTH)}... (truncated)`
+    : text;
+}
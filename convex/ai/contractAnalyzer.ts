@@ -1,6 +1,17 @@
 // convex/ai/contractAnalyzer.ts
 import { action } from "../_generated/server";
 import { v } from "convex/values";
+import { internal } from "../_generated/api";
+import { ClauseDeviationStatus } from "../schema";
+import {
+  ClauseFallback,
+  ClauseLibraryRule,
+  compareClause,
+  findLibraryRule,
+  getClauseKeywords,
+  isCriticalClause,
+  locateClause,
+} from "../clauses/clauseComparison";
 
 // ============================================================================
 // AI CONTRACT ANALYZER
@@ -13,6 +24,16 @@ interface ClauseAnalysisResult {
   extractedText?: string;
   riskLevel: "low" | "medium" | "high";
   recommendations: string[];
+  libraryComparison?: ClauseLibraryComparison;
+}
+
+// How the clause compares with the enterprise's clause library entry
+interface ClauseLibraryComparison {
+  status: ClauseDeviationStatus;
+  similarity: number;
+  libraryVersion: number;
+  matchedFallbackRank?: number;
+  suggestedFallback?: ClauseFallback;
 }
 
 interface ContractAnalysisResult {
@@ -38,8 +59,8 @@ const STANDARD_CLAUSES = [
   "compliance"
 ];
 
-// Import OpenAI helpers
-import { getChatCompletion, generateEmbedding } from "./openai-config";
+import { getLLM } from "./llm";
+import type { LLMMessage } from "./llmProviders";
 
 /**
  * Analyze contract text for specific clauses using AI/NLP
@@ -47,11 +68,18 @@ import { getChatCompletion, generateEmbedding } from "./openai-config";
 export const analyzeContractClauses = action({
   args: {
     contractText: v.string(),
-    requiredClauses: v.optional(v.array(v.string()))
+    requiredClauses: v.optional(v.array(v.string())),
+    enterpriseId: v.optional(v.id("enterprises")) // Compare against this enterprise's clause library
   },
   handler: async (ctx, args): Promise<ContractAnalysisResult> => {
-    const requiredClauses = args.requiredClauses || STANDARD_CLAUSES;
+    const library: Array<ClauseLibraryRule & { version: number }> = args.enterpriseId
+      ? await ctx.runQuery(internal.clauses.clauseLibrary.getLibraryForAnalysis, { enterpriseId: args.enterpriseId })
+      : [];
+    const requiredClauses = [
+      ...new Set([...(args.requiredClauses || STANDARD_CLAUSES), ...library.map(rule => rule.clauseType)])
+    ];
     const contractText = args.contractText;
+    const libraryRules = library.filter(rule => requiredClauses.includes(rule.clauseType));
 
     // Prepare the prompt for clause analysis
     const prompt = `
@@ -64,7 +92,15 @@ ${contractText}
 
 Required Clauses to Analyze:
 ${requiredClauses.map(clause => `- ${clause}`).join('\n')}
-
+${libraryRules.length > 0 ? `
+Approved Clause Library (standard language, then fallbacks in order of preference):
+${libraryRules.map(rule => `- ${rule.clauseType}
+  Standard: ${rule.standardText}
+${rule.fallbacks.map(fallback => `  Fallback ${fallback.rank} (${fallback.riskLevel} risk): ${fallback.text}`).join('\n')}`).join('\n')}
+
+For clauses in the library, quote the contract's language verbatim in extractedText and
+rate risk against the standard and fallback positions rather than in the abstract.
+` : ''}
 For each clause, provide:
 1. Whether it's present (true/false)
 2. Confidence level (0-1)
@@ -96,7 +132,7 @@ Respond in valid JSON format:
 `;
 
     try {
-      const messages = [
+      const messages: LLMMessage[] = [
         {
           role: "system",
           content: "You are a legal expert specializing in contract analysis. Always respond with valid JSON format."
@@ -107,31 +143,24 @@ Respond in valid JSON format:
         }
       ];
 
-      const content = await getChatCompletion(messages, {
-        model: "gpt-4-1106-preview",
+      const llm = await getLLM(ctx, args.enterpriseId, "contract_analysis");
+      const { data: analysis } = await llm.completeJSON<ContractAnalysisResult>(messages, {
         temperature: 0.1, // Low temperature for consistent analysis
-        max_tokens: 4000
+        maxTokens: 4000
       });
       
-      if (!content) {
-        throw new Error("No response from OpenAI");
-      }
-
-      // Parse the JSON response
-      const analysis: ContractAnalysisResult = JSON.parse(content);
-      
       // Validate the response structure
       if (!analysis.clauses || !Array.isArray(analysis.clauses)) {
         throw new Error("Invalid response structure from AI analysis");
       }
 
-      return analysis;
+      return applyClauseLibrary(analysis, contractText, libraryRules);
 
     } catch (error) {
       console.error("AI contract analysis failed:", error);
       
       // Fallback to basic analysis if AI fails
-      return fallbackClauseAnalysis(contractText, requiredClauses);
+      return applyClauseLibrary(fallbackClauseAnalysis(contractText, requiredClauses, library), contractText, libraryRules);
     }
   }
 });
@@ -143,28 +172,24 @@ export const findSimilarClauses = action({
   args: {
     clauseText: v.string(),
     contractText: v.string(),
-    threshold: v.optional(v.number())
+    threshold: v.optional(v.number()),
+    enterpriseId: v.optional(v.id("enterprises")) // Runs on this enterprise's provider
   },
   handler: async (ctx, args): Promise<{ text: string; similarity: number }[]> => {
     const { clauseText, contractText, threshold = 0.7 } = args;
 
     try {
-      // Get embeddings for the clause and contract sections
-      const clauseVector = await generateEmbedding(clauseText);
-
       // Split contract into sections for analysis
       const sections = contractText.split('\n\n').filter(section => section.trim().length > 50);
-      const sectionEmbeddings = await Promise.all(
-        sections.map(async (section) => {
-          const embedding = await generateEmbedding(section);
-          return { text: section, embedding };
-        })
-      );
+
+      // Embed the clause and the sections in one batch
+      const llm = await getLLM(ctx, args.enterpriseId, "clause_matching");
+      const [clauseVector, ...sectionEmbeddings] = await llm.embedBatch([clauseText, ...sections]);
 
       // Calculate similarities
-      const similarities = sectionEmbeddings.map(({ text, embedding }) => ({
+      const similarities = sections.map((text, index) => ({
         text,
-        similarity: cosineSimilarity(clauseVector, embedding)
+        similarity: cosineSimilarity(clauseVector!, sectionEmbeddings[index]!)
       }));
 
       // Return sections above threshold, sorted by similarity
@@ -185,7 +210,8 @@ export const findSimilarClauses = action({
 export const assessClauseRisk = action({
   args: {
     clauseText: v.string(),
-    clauseType: v.string()
+    clauseType: v.string(),
+    enterpriseId: v.optional(v.id("enterprises")) // Runs on this enterprise's provider
   },
   handler: async (ctx, args): Promise<{
     riskScore: number;
@@ -216,7 +242,7 @@ Respond in JSON format:
 `;
 
     try {
-      const messages = [
+      const messages: LLMMessage[] = [
         {
           role: "system",
           content: "You are a legal risk assessment expert. Always respond with valid JSON."
@@ -227,17 +253,17 @@ Respond in JSON format:
         }
       ];
 
-      const content = await getChatCompletion(messages, {
-        model: "gpt-4-1106-preview",
+      const llm = await getLLM(ctx, args.enterpriseId, "clause_risk");
+      const { data } = await llm.completeJSON<{
+        riskScore: number;
+        riskFactors: string[];
+        mitigationStrategies: string[];
+      }>(messages, {
         temperature: 0.1,
-        max_tokens: 1000
+        maxTokens: 1000
       });
-      
-      if (!content) {
-        throw new Error("No response from risk assessment");
-      }
 
-      return JSON.parse(content);
+      return data;
 
     } catch (error) {
       console.error("Risk assessment failed:", error);
@@ -277,11 +303,12 @@ function cosineSimilarity(vec1: number[], vec2: number[]): number {
  */
 function fallbackClauseAnalysis(
   contractText: string,
-  requiredClauses: string[]
+  requiredClauses: string[],
+  library: ClauseLibraryRule[]
 ): ContractAnalysisResult {
   const text = contractText.toLowerCase();
   const clauses: ClauseAnalysisResult[] = requiredClauses.map(clauseType => {
-    const keywords = getClauseKeywords(clauseType);
+    const keywords = getClauseKeywords(clauseType, library);
     const present = keywords.some(keyword => text.includes(keyword.toLowerCase()));
     
     return {
@@ -295,7 +322,7 @@ function fallbackClauseAnalysis(
     };
   });
 
-  const missingCritical = clauses.filter(c => !c.present && isCriticalClause(c.clauseType));
+  const missingCritical = clauses.filter(c => !c.present && isCriticalClause(c.clauseType, library));
   
   return {
     clauses,
@@ -308,32 +335,43 @@ function fallbackClauseAnalysis(
   };
 }
 
-function getClauseKeywords(clauseType: string): string[] {
-  const keywordMap: Record<string, string[]> = {
-    termination: ["terminate", "termination", "end", "expiry", "expire"],
-    indemnification: ["indemnify", "indemnification", "hold harmless", "defend"],
-    limitation_of_liability: ["liability", "limitation", "exclude", "damages"],
-    confidentiality: ["confidential", "non-disclosure", "proprietary", "confidentiality"],
-    intellectual_property: ["intellectual property", "copyright", "trademark", "patent"],
-    payment_terms: ["payment", "invoice", "due", "terms", "billing"],
-    dispute_resolution: ["dispute", "arbitration", "mediation", "litigation"],
-    force_majeure: ["force majeure", "act of god", "unforeseeable"],
-    governing_law: ["governing law", "jurisdiction", "applicable law"],
-    warranties: ["warranty", "warrants", "guarantee", "representation"],
-    data_protection: ["data protection", "privacy", "GDPR", "personal data"],
-    compliance: ["compliance", "regulatory", "laws", "regulations"]
-  };
-  
-  return keywordMap[clauseType] || [clauseType];
-}
+/**
+ * Compare each analyzed clause with its clause library entry. Deviations are
+ * raised to the library's risk for the clause and carry the preferred
+ * fallback as the suggested replacement.
+ */
+function applyClauseLibrary(
+  analysis: ContractAnalysisResult,
+  contractText: string,
+  library: Array<ClauseLibraryRule & { version: number }>
+): ContractAnalysisResult {
+  const riskOrder = ["low", "medium", "high"];
+
+  for (const clause of analysis.clauses) {
+    const rule = findLibraryRule(library, clause.clauseType);
+    if (!rule) continue;
+
+    const extractedText = clause.present ? clause.extractedText || locateClause(contractText, rule) : null;
+    const comparison = compareClause(extractedText, rule);
+
+    clause.libraryComparison = {
+      status: comparison.status,
+      similarity: comparison.similarity,
+      libraryVersion: rule.version,
+      ...(comparison.matchedFallbackRank !== undefined ? { matchedFallbackRank: comparison.matchedFallbackRank } : {}),
+      ...(comparison.suggestedFallback ? { suggestedFallback: comparison.suggestedFallback } : {}),
+    };
 
-function isCriticalClause(clauseType: string): boolean {
-  const criticalClauses = [
-    "termination",
-    "indemnification", 
-    "limitation_of_liability",
-    "governing_law",
-    "data_protection"
-  ];
-  return criticalClauses.includes(clauseType);
-}
\ No newline at end of file
+    if (comparison.status === "deviation") {
+      if (riskOrder.indexOf(comparison.riskLevel) > riskOrder.indexOf(clause.riskLevel)) {
+        clause.riskLevel = comparison.riskLevel;
+      }
+      clause.recommendations.push(...comparison.recommendations);
+      if (rule.isCritical) {
+        analysis.criticalIssues.push(`${rule.title} deviates from the approved clause library`);
+      }
+    }
+  }
+
+  return analysis;
+}
@@ -0,0 +1,249 @@
+// convex/ai/contractQA.ts
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { action, internalQuery } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { Doc, Id } from "../_generated/dataModel";
+import {
+  contractResource,
+  getDepartmentScope,
+  getSecurityContext,
+  hasScopedPermission,
+} from "../security/rowLevelSecurity";
+import { getLLM } from "./llm";
+import {
+  MAX_ANSWER_PASSAGES,
+  PASSAGE_ANSWER_INSTRUCTIONS,
+  Passage,
+  PassageCitation,
+  PassageQuote,
+  formatPassages,
+  resolvePassageCitations,
+} from "./passageCitations";
+
+/**
+ * Contract questions
+ *
+ * Answers questions about one contract, a vendor's contracts or the whole
+ * portfolio from the full text of the contracts' documents and amendments.
+ * The question is matched against the passage index built by
+ * documents/indexContractDocuments.ts, and the answer quotes the passages it
+ * rests on. Only contracts the asking user can read are searched.
+ */
+
+// Vector search candidates fetched before filtering to readable, current passages
+const SEARCH_CANDIDATES = 64;
+// Contracts a vector search can filter on directly; larger scopes filter afterwards
+const MAX_FILTERED_CONTRACTS = 64;
+
+const MAX_QUESTION_LENGTH = 2000;
+
+const NO_PASSAGES_ANSWER = "I couldn't find anything in the contract documents that answers this question.";
+
+export interface ContractAnswer {
+  answer: string;
+  citations: PassageCitation[];
+  searchedContracts: number;
+  unindexedContracts: number; // Readable contracts in scope without a searchable index
+}
+
+interface QuestionScope {
+  enterpriseId: Id<"enterprises">;
+  contractIds: Id<"contracts">[];
+  unindexedContracts: number;
+}
+
+/**
+ * Answer a question about a contract (contractId), a vendor's contracts
+ * (vendorId) or, with neither, every contract the user can read
+ */
+export const askContracts = action({
+  args: {
+    question: v.string(),
+    contractId: v.optional(v.id("contracts")),
+    vendorId: v.optional(v.id("vendors")),
+  },
+  handler: async (ctx, args): Promise<ContractAnswer> => {
+    const question = args.question.trim();
+    if (!question) {
+      throw new ConvexError("A question is required");
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+      throw new ConvexError(`Questions are limited to ${MAX_QUESTION_LENGTH} characters`);
+    }
+
+    const scope: QuestionScope = await ctx.runQuery(internal.ai.contractQA.getQuestionScope, {
+      ...(args.contractId ? { contractId: args.contractId } : {}),
+      ...(args.vendorId ? { vendorId: args.vendorId } : {}),
+    });
+    const summary = {
+      searchedContracts: scope.contractIds.length - scope.unindexedContracts,
+      unindexedContracts: scope.unindexedContracts,
+    };
+    if (summary.searchedContracts === 0) {
+      return { answer: NO_PASSAGES_ANSWER, citations: [], ...summary };
+    }
+
+    const llm = await getLLM(ctx, scope.enterpriseId, "contract_qa");
+    const vector = await llm.embed(question);
+
+    const inScope = new Set<string>(scope.contractIds);
+    const filterByContract = scope.contractIds.length <= MAX_FILTERED_CONTRACTS;
+    const matches = await ctx.vectorSearch("contractChunks", "by_embedding", {
+      vector,
+      limit: SEARCH_CANDIDATES,
+      filter: (q) => filterByContract
+        ? q.or(...scope.contractIds.map(contractId => q.eq("contractId", contractId)))
+        : q.eq("enterpriseId", scope.enterpriseId),
+    });
+
+    const passages: Passage[] = (await ctx.runQuery(internal.ai.contractQA.getPassages, {
+      chunkIds: matches.map(match => match._id),
+    }))
+      .filter((passage: Passage) => inScope.has(passage.contractId))
+      .slice(0, MAX_ANSWER_PASSAGES);
+    if (passages.length === 0) {
+      return { answer: NO_PASSAGES_ANSWER, citations: [], ...summary };
+    }
+
+    const { data } = await llm.completeJSON<{ answer?: unknown; quotes?: unknown }>([
+      { role: "system", content: PASSAGE_ANSWER_INSTRUCTIONS },
+      { role: "user", content: `Passages:\n\n${formatPassages(passages)}\n\nQuestion: ${question}` },
+    ], {
+      temperature: 0.1,
+      maxTokens: 1500,
+    });
+
+    const answer = typeof data.answer === "string" ? data.answer : "";
+    if (!answer.trim()) {
+      throw new ConvexError("The model did not return an answer");
+    }
+    const quotes: PassageQuote[] = Array.isArray(data.quotes)
+      ? data.quotes.filter((quote): quote is PassageQuote =>
+        typeof quote?.passage === "number" && typeof quote?.quote === "string")
+      : [];
+
+    return { ...resolvePassageCitations(answer, quotes, passages), ...summary };
+  },
+});
+
+/**
+ * The contracts a question covers that the signed-in user can read
+ */
+export const getQuestionScope = internalQuery({
+  args: {
+    contractId: v.optional(v.id("contracts")),
+    vendorId: v.optional(v.id("vendors")),
+  },
+  handler: async (ctx, args): Promise<QuestionScope> => {
+    const security = await getSecurityContext(ctx);
+    const departmentScope = await getDepartmentScope(ctx, security);
+    const enterpriseId = security.enterpriseId;
+
+    let contracts: Doc<"contracts">[];
+    if (args.contractId) {
+      const contract = await ctx.db.get(args.contractId);
+      if (!contract || contract.enterpriseId !== enterpriseId) {
+        throw new ConvexError("Contract not found or access denied");
+      }
+      contracts = [contract];
+    } else if (args.vendorId) {
+      const vendor = await ctx.db.get(args.vendorId);
+      if (!vendor || vendor.enterpriseId !== enterpriseId
+        || !hasScopedPermission(security, departmentScope, "vendors.read", { type: "vendor", id: vendor._id })) {
+        throw new ConvexError("Vendor not found or access denied");
+      }
+      contracts = await ctx.db
+        .query("contracts")
+        .withIndex("by_vendorId_and_enterpriseId", (q) => q.eq("enterpriseId", enterpriseId).eq("vendorId", vendor._id))
+        .collect();
+    } else {
+      contracts = await ctx.db
+        .query("contracts")
+        .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+        .collect();
+    }
+
+    const readable = contracts.filter(contract =>
+      hasScopedPermission(security, departmentScope, "contracts.read", contractResource(contract)));
+    if (args.contractId && readable.length === 0) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+
+    const indexes = await ctx.db
+      .query("contractIndexes")
+      .withIndex("by_enterprise_status", (q) => q.eq("enterpriseId", enterpriseId))
+      .collect();
+    const searchable = new Set(indexes
+      .filter(index => index.indexedGeneration !== undefined)
+      .map(index => index.contractId));
+
+    return {
+      enterpriseId,
+      contractIds: readable.map(contract => contract._id),
+      unindexedContracts: readable.filter(contract => !searchable.has(contract._id)).length,
+    };
+  },
+});
+
+/**
+ * Passages for vector search matches, in match order, leaving out those of
+ * superseded builds and of contracts the signed-in user cannot read
+ */
+export const getPassages = internalQuery({
+  args: {
+    chunkIds: v.array(v.id("contractChunks")),
+  },
+  handler: async (ctx, args): Promise<Passage[]> => {
+    const security = await getSecurityContext(ctx);
+    const departmentScope = await getDepartmentScope(ctx, security);
+
+    const contracts = new Map<string, { contract: Doc<"contracts">; indexedGeneration?: number | undefined } | null>();
+    const versionTitles = new Map<string, string>();
+    const passages: Passage[] = [];
+
+    for (const chunkId of args.chunkIds) {
+      const chunk = await ctx.db.get(chunkId);
+      if (!chunk || chunk.enterpriseId !== security.enterpriseId) continue;
+
+      if (!contracts.has(chunk.contractId)) {
+        const contract = await ctx.db.get(chunk.contractId);
+        const index = await ctx.db
+          .query("contractIndexes")
+          .withIndex("by_contract", (q) => q.eq("contractId", chunk.contractId))
+          .first();
+        contracts.set(
+          chunk.contractId,
+          contract && hasScopedPermission(security, departmentScope, "contracts.read", contractResource(contract))
+            ? { contract, indexedGeneration: index?.indexedGeneration }
+            : null
+        );
+      }
+      const entry = contracts.get(chunk.contractId);
+      if (!entry || entry.indexedGeneration !== chunk.generation) continue;
+
+      let documentTitle = entry.contract.title;
+      if (chunk.versionId) {
+        if (!versionTitles.has(chunk.versionId)) {
+          versionTitles.set(chunk.versionId, (await ctx.db.get(chunk.versionId))?.title ?? "Amendment");
+        }
+        documentTitle = versionTitles.get(chunk.versionId)!;
+      }
+
+      passages.push({
+        id: chunk._id,
+        contractId: chunk.contractId,
+        contractTitle: entry.contract.title,
+        ...(chunk.versionId ? { versionId: chunk.versionId } : {}),
+        documentTitle,
+        page: chunk.page,
+        ...(chunk.section ? { section: chunk.section } : {}),
+        start: chunk.start,
+        end: chunk.end,
+        text: chunk.text,
+      });
+    }
+
+    return passages;
+  },
+});
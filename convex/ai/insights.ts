@@ -1,14 +1,34 @@
 // convex/ai/insights.ts
-import { mutation, query } from "../_generated/server";
+import { mutation, query, QueryCtx } from "../_generated/server";
 import { v } from "convex/values";
 import { Id } from "../_generated/dataModel";
+import { getEnterpriseAgent } from "../agents/agentRuntime";
 
 // ============================================================================
 // AI INSIGHTS GENERATION
 // ============================================================================
 
-// Import OpenAI helpers
-import { getChatCompletion } from "./openai-config";
+import { getLLM } from "./llm";
+import type { LLMMessage } from "./llmProviders";
+
+// Shape the model is asked to reply in
+interface GeneratedInsights {
+  insights?: Array<{
+    type: string;
+    title: string;
+    description: string;
+    priority: string;
+    actionRequired: boolean;
+  }>;
+}
+
+async function getUserEnterpriseId(ctx: QueryCtx, clerkId: string): Promise<Id<"enterprises"> | null> {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_clerkId", (q) => q.eq("clerkId", clerkId))
+    .first();
+  return user?.enterpriseId ?? null;
+}
 
 /**
  * Get AI insights for contracts and vendors
@@ -27,33 +47,14 @@ export const getInsights = query({
       return [];
     }
 
-    // Get all insights and filter by enterprise through contracts/vendors
-    const allInsights = await ctx.db.query("agentInsights").collect();
-    
-    // Filter insights by enterprise through contracts and vendors
-    const enterpriseInsights = await Promise.all(
-      allInsights.map(async (insight) => {
-        // Check if insight is related to enterprise through contract
-        if (insight.contractId) {
-          const contract = await ctx.db.get(insight.contractId);
-          if (contract && contract.enterpriseId === args.enterpriseId) {
-            return insight;
-          }
-        }
-        
-        // Check if insight is related to enterprise through vendor
-        if (insight.vendorId) {
-          const vendor = await ctx.db.get(insight.vendorId);
-          if (vendor && vendor.enterpriseId === args.enterpriseId) {
-            return insight;
-          }
-        }
-        
-        return null;
-      })
-    );
-    
-    const insights = enterpriseInsights.filter(i => i !== null) as typeof allInsights;
+    if (await getUserEnterpriseId(ctx, identity.subject) !== args.enterpriseId) {
+      return [];
+    }
+
+    const insights = await ctx.db
+      .query("agentInsights")
+      .withIndex("by_enterprise_created", (q) => q.eq("enterpriseId", args.enterpriseId))
+      .collect();
     
     let filtered = insights;
     
@@ -84,7 +85,10 @@ export const getInsights = query({
     }
 
     // Enhance insights with agent names
-    const agents = await ctx.db.query("agents").collect();
+    const agents = await ctx.db
+      .query("agents")
+      .withIndex("by_enterprise_type", (q) => q.eq("enterpriseId", args.enterpriseId))
+      .collect();
     const agentMap = new Map(agents.map(a => [a._id, a]));
 
     return filtered.map(insight => ({
@@ -125,11 +129,12 @@ export const generateInsights = mutation({
     }
 
     const insights: any[] = [];
+    const llm = await getLLM(ctx, user.enterpriseId, "insights");
 
     // Generate contract insights
     if (args.contractId) {
       const contract = await ctx.db.get(args.contractId);
-      if (!contract) {
+      if (!contract || contract.enterpriseId !== user.enterpriseId) {
         throw new Error("Contract not found");
       }
 
@@ -148,17 +153,21 @@ Provide 3-5 specific, actionable insights focusing on:
 4. Performance improvements
 5. Strategic recommendations
 
-Format each insight as JSON:
+Respond in JSON format:
 {
-  "type": "risk_assessment|cost_optimization|compliance_alert|performance_metric|recommendation",
-  "title": "Brief title",
-  "description": "Detailed description with specific actions",
-  "priority": "low|medium|high|critical",
-  "actionRequired": true/false
+  "insights": [
+    {
+      "type": "risk_assessment|cost_optimization|compliance_alert|performance_metric|recommendation",
+      "title": "Brief title",
+      "description": "Detailed description with specific actions",
+      "priority": "low|medium|high|critical",
+      "actionRequired": true/false
+    }
+  ]
 }`;
 
       try {
-        const messages = [
+        const messages: LLMMessage[] = [
           {
             role: "system",
             content: "You are a contract analysis expert. Provide specific, actionable insights in JSON format."
@@ -169,29 +178,17 @@ Format each insight as JSON:
           }
         ];
 
-        const content = await getChatCompletion(messages, {
-          model: "gpt-4-1106-preview",
+        const { data } = await llm.completeJSON<GeneratedInsights>(messages, {
           temperature: 0.7,
-          max_tokens: 1500
+          maxTokens: 1500
         });
-        
-        if (content) {
-          // Parse insights from response
-          const lines = content.split('\n');
-          for (const line of lines) {
-            if (line.trim().startsWith('{') && line.trim().endsWith('}')) {
-              try {
-                const insight = JSON.parse(line);
-                insights.push({
-                  ...insight,
-                  contractId: args.contractId,
-                  enterpriseId: user.enterpriseId
-                });
-              } catch (e) {
-                // Skip invalid JSON
-              }
-            }
-          }
+
+        for (const insight of data.insights ?? []) {
+          insights.push({
+            ...insight,
+            contractId: args.contractId,
+            enterpriseId: user.enterpriseId
+          });
         }
       } catch (error) {
         console.error("Failed to generate contract insights:", error);
@@ -201,7 +198,7 @@ Format each insight as JSON:
     // Generate vendor insights
     if (args.vendorId) {
       const vendor = await ctx.db.get(args.vendorId);
-      if (!vendor) {
+      if (!vendor || vendor.enterpriseId !== user.enterpriseId) {
         throw new Error("Vendor not found");
       }
 
@@ -230,17 +227,21 @@ Provide 3-5 specific, actionable insights focusing on:
 4. Alternative vendor considerations
 5. Relationship optimization
 
-Format each insight as JSON:
+Respond in JSON format:
 {
-  "type": "vendor_risk|cost_optimization|performance_metric|recommendation",
-  "title": "Brief title",
-  "description": "Detailed description with specific actions",
-  "priority": "low|medium|high|critical",
-  "actionRequired": true/false
+  "insights": [
+    {
+      "type": "vendor_risk|cost_optimization|performance_metric|recommendation",
+      "title": "Brief title",
+      "description": "Detailed description with specific actions",
+      "priority": "low|medium|high|critical",
+      "actionRequired": true/false
+    }
+  ]
 }`;
 
       try {
-        const messages = [
+        const messages: LLMMessage[] = [
           {
             role: "system",
             content: "You are a vendor management expert. Provide specific, actionable insights in JSON format."
@@ -251,29 +252,17 @@ Format each insight as JSON:
           }
         ];
 
-        const content = await getChatCompletion(messages, {
-          model: "gpt-4-1106-preview",
+        const { data } = await llm.completeJSON<GeneratedInsights>(messages, {
           temperature: 0.7,
-          max_tokens: 1500
+          maxTokens: 1500
         });
-        
-        if (content) {
-          // Parse insights from response
-          const lines = content.split('\n');
-          for (const line of lines) {
-            if (line.trim().startsWith('{') && line.trim().endsWith('}')) {
-              try {
-                const insight = JSON.parse(line);
-                insights.push({
-                  ...insight,
-                  vendorId: args.vendorId,
-                  enterpriseId: user.enterpriseId
-                });
-              } catch (e) {
-                // Skip invalid JSON
-              }
-            }
-          }
+
+        for (const insight of data.insights ?? []) {
+          insights.push({
+            ...insight,
+            vendorId: args.vendorId,
+            enterpriseId: user.enterpriseId
+          });
         }
       } catch (error) {
         console.error("Failed to generate vendor insights:", error);
@@ -281,10 +270,7 @@ Format each insight as JSON:
     }
 
     // Get the manager agent
-    const managerAgent = await ctx.db
-      .query("agents")
-      .filter((q) => q.eq(q.field("type"), "manager"))
-      .first();
+    const managerAgent = await getEnterpriseAgent(ctx, user.enterpriseId, "manager");
 
     if (!managerAgent) {
       throw new Error("Manager agent not found");
@@ -295,6 +281,7 @@ Format each insight as JSON:
     for (const insight of insights) {
       const id = await ctx.db.insert("agentInsights", {
         agentId: managerAgent._id,
+        enterpriseId: user.enterpriseId,
         type: insight.type || "recommendation",
         title: insight.title,
         description: insight.description,
@@ -337,7 +324,7 @@ export const updateInsightStatus = mutation({
     }
 
     const insight = await ctx.db.get(args.insightId);
-    if (!insight) {
+    if (!insight || !insight.enterpriseId || insight.enterpriseId !== await getUserEnterpriseId(ctx, identity.subject)) {
       throw new Error("Insight not found");
     }
 
@@ -380,7 +367,7 @@ export const provideInsightFeedback = mutation({
     }
 
     const insight = await ctx.db.get(args.insightId);
-    if (!insight) {
+    if (!insight || !insight.enterpriseId || insight.enterpriseId !== await getUserEnterpriseId(ctx, identity.subject)) {
       throw new Error("Insight not found");
     }
 
@@ -434,33 +421,14 @@ export const getInsightStats = query({
       return null;
     }
 
-    // Get all insights and filter by enterprise through contracts/vendors
-    const allInsights = await ctx.db.query("agentInsights").collect();
-    
-    // Filter insights by enterprise through contracts and vendors
-    const enterpriseInsights = await Promise.all(
-      allInsights.map(async (insight) => {
-        // Check if insight is related to enterprise through contract
-        if (insight.contractId) {
-          const contract = await ctx.db.get(insight.contractId);
-          if (contract && contract.enterpriseId === args.enterpriseId) {
-            return insight;
-          }
-        }
-        
-        // Check if insight is related to enterprise through vendor
-        if (insight.vendorId) {
-          const vendor = await ctx.db.get(insight.vendorId);
-          if (vendor && vendor.enterpriseId === args.enterpriseId) {
-            return insight;
-          }
-        }
-        
-        return null;
-      })
-    );
-    
-    const insights = enterpriseInsights.filter(i => i !== null) as typeof allInsights;
+    if (await getUserEnterpriseId(ctx, identity.subject) !== args.enterpriseId) {
+      return null;
+    }
+
+    const insights = await ctx.db
+      .query("agentInsights")
+      .withIndex("by_enterprise_created", (q) => q.eq("enterpriseId", args.enterpriseId))
+      .collect();
 
     // Filter by time range
     let filtered = insights;
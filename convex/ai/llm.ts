@@ -0,0 +1,320 @@
+// convex/ai/llm.ts
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, mutation, internalQuery, internalMutation, MutationCtx, ActionCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { Id } from "../_generated/dataModel";
+import { aiProviderOptions } from "../schema";
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
+import { appendAuditLog } from "../auditLogging";
+import { withoutFields } from "../lib/documentFields";
+import {
+  CompletionOptions,
+  CompletionResult,
+  LLMMessage,
+  LLMProvider,
+  ProviderSettings,
+  TokenUsage,
+  createProvider,
+  getDefaultProviderName,
+  parseJSONResponse,
+  validateProviderSettings,
+} from "./llmProviders";
+
+/**
+ * AI provider runtime
+ *
+ * Features get a client for the enterprise they work for with getLLM. The
+ * client runs on the enterprise's configured provider and records the tokens
+ * of every call in aiUsage under the feature's name.
+ */
+
+type UsageOperation = "chat" | "json" | "embedding";
+
+export interface LLMClient {
+  provider: LLMProvider["name"];
+  complete(messages: LLMMessage[], options?: Omit<CompletionOptions, "json">): Promise<CompletionResult>;
+  completeJSON<T>(messages: LLMMessage[], options?: Omit<CompletionOptions, "json">): Promise<{ data: T; completion: CompletionResult }>;
+  embed(text: string): Promise<number[]>;
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
+
+const usageRecordValidator = {
+  enterpriseId: v.optional(v.id("enterprises")),
+  provider: v.string(),
+  model: v.string(),
+  operation: v.union(v.literal("chat"), v.literal("json"), v.literal("embedding")),
+  feature: v.string(),
+  promptTokens: v.number(),
+  completionTokens: v.number(),
+  totalTokens: v.number(),
+  estimated: v.boolean(),
+  durationMs: v.number(),
+  timestamp: v.string(),
+};
+
+/**
+ * A model client for an enterprise, or for platform work when enterpriseId is
+ * undefined. Usable from mutations and actions.
+ */
+export async function getLLM(
+  ctx: MutationCtx | ActionCtx,
+  enterpriseId: Id<"enterprises"> | undefined,
+  feature: string
+): Promise<LLMClient> {
+  let settings: ProviderSettings | null = null;
+  if (enterpriseId) {
+    settings = "db" in ctx
+      ? toProviderSettings((await ctx.db.get(enterpriseId))?.aiProvider)
+      : await ctx.runQuery(internal.ai.llm.getProviderSettings, { enterpriseId });
+  }
+  const provider = createProvider(settings);
+
+  const record = async (operation: UsageOperation, model: string, usage: TokenUsage, startedAt: number) => {
+    const row = {
+      ...(enterpriseId ? { enterpriseId } : {}),
+      provider: provider.name,
+      model,
+      operation,
+      feature,
+      ...usage,
+      durationMs: Date.now() - startedAt,
+      timestamp: new Date().toISOString(),
+    };
+    if ("db" in ctx) {
+      await ctx.db.insert("aiUsage", row);
+    } else {
+      await ctx.runMutation(internal.ai.llm.recordUsage, row);
+    }
+  };
+
+  const complete = async (messages: LLMMessage[], options: CompletionOptions, operation: UsageOperation) => {
+    const startedAt = Date.now();
+    const completion = await provider.complete(messages, options);
+    await record(operation, completion.model, completion.usage, startedAt);
+    return completion;
+  };
+
+  const embedBatch = async (texts: string[]) => {
+    if (texts.length === 0) return [];
+    const startedAt = Date.now();
+    const result = await provider.embed(texts);
+    await record("embedding", result.model, result.usage, startedAt);
+    return result.embeddings;
+  };
+
+  return {
+    provider: provider.name,
+    complete: (messages, options = {}) => complete(messages, options, "chat"),
+    completeJSON: async <T>(messages: LLMMessage[], options: Omit<CompletionOptions, "json"> = {}) => {
+      const completion = await complete(messages, { ...options, json: true }, "json");
+      return { data: parseJSONResponse<T>(completion.content), completion };
+    },
+    embed: async (text) => (await embedBatch([text]))[0]!,
+    embedBatch,
+  };
+}
+
+function toProviderSettings(
+  stored: (ProviderSettings & { updatedBy: Id<"users">; updatedAt: string }) | undefined
+): ProviderSettings | null {
+  if (!stored) return null;
+  const settings: ProviderSettings & { updatedBy?: Id<"users">; updatedAt?: string } = { ...stored };
+  delete settings.updatedBy;
+  delete settings.updatedAt;
+  return settings;
+}
+
+export const getProviderSettings = internalQuery({
+  args: {
+    enterpriseId: v.id("enterprises"),
+  },
+  handler: async (ctx, args): Promise<ProviderSettings | null> => {
+    const enterprise = await ctx.db.get(args.enterpriseId);
+    return toProviderSettings(enterprise?.aiProvider);
+  },
+});
+
+export const recordUsage = internalMutation({
+  args: usageRecordValidator,
+  handler: async (ctx, args) => {
+    await ctx.db.insert("aiUsage", args);
+  },
+});
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * The enterprise's provider settings. The API key itself is never returned.
+ */
+export const getAIProviderSettings = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "ai.manage");
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    if (!enterprise) {
+      throw new ConvexError("Enterprise not found");
+    }
+    const settings = enterprise.aiProvider;
+
+    return {
+      configured: !!settings,
+      provider: settings?.provider ?? getDefaultProviderName(),
+      chatModel: settings?.chatModel ?? null,
+      embeddingModel: settings?.embeddingModel ?? null,
+      baseUrl: settings?.baseUrl ?? null,
+      apiVersion: settings?.apiVersion ?? null,
+      hasApiKey: !!settings?.apiKey,
+      updatedAt: settings?.updatedAt ?? null,
+    };
+  },
+});
+
+/**
+ * Choose the enterprise's provider. Leaving apiKey out keeps the saved key
+ * while the provider stays the same; an empty string removes it.
+ */
+export const updateAIProviderSettings = mutation({
+  args: {
+    provider: v.union(...aiProviderOptions.map(option => v.literal(option))),
+    chatModel: v.optional(v.string()),
+    embeddingModel: v.optional(v.string()),
+    baseUrl: v.optional(v.string()),
+    apiVersion: v.optional(v.string()),
+    apiKey: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "ai.manage");
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    if (!enterprise) {
+      throw new ConvexError("Enterprise not found");
+    }
+
+    const previous = enterprise.aiProvider;
+    const apiKey = args.apiKey !== undefined
+      ? args.apiKey.trim()
+      : previous?.provider === args.provider ? previous.apiKey : undefined;
+    const settings: ProviderSettings = {
+      provider: args.provider,
+      ...(args.chatModel?.trim() ? { chatModel: args.chatModel.trim() } : {}),
+      ...(args.embeddingModel?.trim() ? { embeddingModel: args.embeddingModel.trim() } : {}),
+      ...(args.baseUrl?.trim() ? { baseUrl: args.baseUrl.trim() } : {}),
+      ...(args.apiVersion?.trim() ? { apiVersion: args.apiVersion.trim() } : {}),
+      ...(apiKey ? { apiKey } : {}),
+    };
+
+    const invalid = validateProviderSettings(settings);
+    if (invalid) {
+      throw new ConvexError(invalid);
+    }
+
+    const now = new Date().toISOString();
+    await ctx.db.patch(enterprise._id, {
+      aiProvider: { ...settings, updatedBy: securityContext.userId, updatedAt: now },
+      updatedAt: now,
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: enterprise._id,
+      operation: "updateAIProviderSettings",
+      resourceType: "enterprises",
+      resourceId: enterprise._id,
+      action: "update",
+      status: "success",
+      timestamp: now,
+      changes: {
+        before: previous ? describeSettings(previous) : null,
+        after: describeSettings(settings),
+      },
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Go back to the deployment's default provider
+ */
+export const resetAIProviderSettings = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "ai.manage");
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    const previous = enterprise?.aiProvider;
+    if (!enterprise || !previous) {
+      return { success: true };
+    }
+
+    const now = new Date().toISOString();
+    await ctx.db.replace(enterprise._id, { ...withoutFields(enterprise, ["aiProvider"]), updatedAt: now });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: enterprise._id,
+      operation: "resetAIProviderSettings",
+      resourceType: "enterprises",
+      resourceId: enterprise._id,
+      action: "update",
+      status: "success",
+      timestamp: now,
+      changes: { before: describeSettings(previous), after: null },
+    });
+
+    return { success: true };
+  },
+});
+
+// What the audit log keeps of settings: everything but the key
+function describeSettings(settings: ProviderSettings) {
+  const { apiKey, ...rest } = settings;
+  return { ...rest, hasApiKey: !!apiKey };
+}
+
+/**
+ * Tokens used since a date (the last 30 days by default), by feature and by
+ * model
+ */
+export const getAIUsage = query({
+  args: {
+    since: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "ai.manage");
+
+    const since = args.since ?? new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const rows = await ctx.db
+      .query("aiUsage")
+      .withIndex("by_enterprise_timestamp", (q) =>
+        q.eq("enterpriseId", securityContext.enterpriseId).gte("timestamp", since)
+      )
+      .collect();
+
+    const totals = { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    const byFeature: Record<string, typeof totals> = {};
+    const byModel: Record<string, typeof totals> = {};
+    for (const row of rows) {
+      for (const bucket of [
+        totals,
+        byFeature[row.feature] ??= { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        byModel[`${row.provider}/${row.model}`] ??= { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      ]) {
+        bucket.calls++;
+        bucket.promptTokens += row.promptTokens;
+        bucket.completionTokens += row.completionTokens;
+        bucket.totalTokens += row.totalTokens;
+      }
+    }
+
+    return { since, ...totals, byFeature, byModel };
+  },
+});
@@ -0,0 +1,786 @@
+// convex/ai/llmProviders.ts
+
+/**
+ * Model providers
+ *
+ * Every AI feature talks to models through one interface: chat completion,
+ * structured JSON output and embeddings, each reporting the tokens it used.
+ * Completions can offer the model tools to call and stream their text as it
+ * is generated. An enterprise picks OpenAI, Anthropic, Azure OpenAI or a
+ * self-hosted OpenAI-compatible server; without settings it uses the
+ * deployment's default, set with AI_PROVIDER. The local provider answers from registered
+ * fixtures and hashes text into embeddings, so features can be tested offline
+ * and give the same output on every run. This module makes no database calls.
+ */
+
+export const LLM_PROVIDER_NAMES = ["openai", "anthropic", "azure_openai", "openai_compatible", "local"] as const;
+
+export type LLMProviderName = typeof LLM_PROVIDER_NAMES[number];
+
+/**
+ * A function the model may call. Parameters are a JSON schema object.
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export type LLMMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: LLMToolCall[] }
+  | { role: "tool"; toolCallId: string; content: string }; // The result of a tool call, as text
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a single JSON object
+  model?: string; // Overrides the configured chat model
+  tools?: LLMToolDefinition[];
+  onToken?: (text: string) => void | Promise<void>; // Streams the reply; called with each new piece of text
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean; // The provider reported no usage; counted from text length
+}
+
+export interface CompletionResult {
+  content: string;
+  toolCalls: LLMToolCall[]; // Empty unless the model chose to call tools
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface EmbeddingResult {
+  embeddings: number[][];
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  complete(messages: LLMMessage[], options?: CompletionOptions): Promise<CompletionResult>;
+  embed(texts: string[]): Promise<EmbeddingResult>;
+}
+
+// An enterprise's provider choice, as stored on the enterprise
+export interface ProviderSettings {
+  provider: Exclude<LLMProviderName, "local">;
+  chatModel?: string | undefined; // Deployment name on Azure OpenAI
+  embeddingModel?: string | undefined;
+  baseUrl?: string | undefined; // Azure resource endpoint or self-hosted server
+  apiVersion?: string | undefined; // Azure OpenAI only
+  apiKey?: string | undefined; // Falls back to the deployment's key for the provider
+}
+
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const DEFAULT_CHAT_MODELS: Record<LLMProviderName, string> = {
+  openai: "gpt-4-turbo-preview",
+  anthropic: "claude-3-5-sonnet-20241022",
+  azure_openai: "",
+  openai_compatible: "",
+  local: "local-fixture",
+};
+
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+
+const DEFAULT_AZURE_API_VERSION = "2024-06-01";
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+const EMBEDDING_INPUT_LIMIT = 8191;
+
+const JSON_INSTRUCTION = "Respond with a single JSON object and nothing else.";
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Check settings before they are saved. Returns a message for the first
+ * problem, or null when the settings can be used.
+ */
+export function validateProviderSettings(settings: ProviderSettings): string | null {
+  if (settings.baseUrl !== undefined) {
+    let url: URL;
+    try {
+      url = new URL(settings.baseUrl);
+    } catch {
+      return "Endpoint must be a valid URL";
+    }
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      return "Endpoint must be an http or https URL";
+    }
+  }
+
+  switch (settings.provider) {
+    case "azure_openai":
+      if (!settings.baseUrl) return "Azure OpenAI needs the resource endpoint";
+      if (!settings.chatModel) return "Azure OpenAI needs the chat deployment name";
+      return null;
+    case "openai_compatible":
+      if (!settings.baseUrl) return "A self-hosted provider needs the server's endpoint";
+      if (!settings.chatModel) return "A self-hosted provider needs the model name";
+      return null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * The deployment's default provider: AI_PROVIDER when set, otherwise OpenAI,
+ * or the local provider in development and tests when no OpenAI key is set
+ */
+export function getDefaultProviderName(env: Env = process.env): LLMProviderName {
+  const configured = env.AI_PROVIDER as LLMProviderName | undefined;
+  if (configured && LLM_PROVIDER_NAMES.includes(configured)) {
+    return configured;
+  }
+  if (!env.OPENAI_API_KEY && (env.NODE_ENV === "development" || env.NODE_ENV === "test")) {
+    return "local";
+  }
+  return "openai";
+}
+
+/**
+ * The provider for an enterprise's settings, or the deployment default when
+ * it has none. Anthropic has no embeddings API, so its embeddings come from
+ * the deployment default.
+ */
+export function createProvider(settings?: ProviderSettings | null, env: Env = process.env): LLMProvider {
+  if (!settings) {
+    return createDefaultProvider(env);
+  }
+
+  switch (settings.provider) {
+    case "openai":
+      return openAIProvider("openai", {
+        chatUrl: `${trimSlash(settings.baseUrl ?? "https://api.openai.com/v1")}/chat/completions`,
+        embeddingsUrl: `${trimSlash(settings.baseUrl ?? "https://api.openai.com/v1")}/embeddings`,
+        headers: bearer(requireKey(settings.apiKey ?? env.OPENAI_API_KEY, "OPENAI_API_KEY")),
+        chatModel: settings.chatModel ?? env.AI_CHAT_MODEL ?? DEFAULT_CHAT_MODELS.openai,
+        embeddingModel: settings.embeddingModel ?? DEFAULT_EMBEDDING_MODEL,
+      });
+    case "azure_openai": {
+      const endpoint = trimSlash(settings.baseUrl ?? env.AZURE_OPENAI_ENDPOINT ?? "");
+      const apiVersion = settings.apiVersion ?? DEFAULT_AZURE_API_VERSION;
+      const deploymentUrl = (deployment: string, path: string) =>
+        `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}/${path}?api-version=${apiVersion}`;
+      const chatModel = settings.chatModel ?? "";
+      const embeddingModel = settings.embeddingModel ?? DEFAULT_EMBEDDING_MODEL;
+      return openAIProvider("azure_openai", {
+        chatUrl: deploymentUrl(chatModel, "chat/completions"),
+        embeddingsUrl: deploymentUrl(embeddingModel, "embeddings"),
+        headers: { "api-key": requireKey(settings.apiKey ?? env.AZURE_OPENAI_API_KEY, "AZURE_OPENAI_API_KEY") },
+        chatModel,
+        embeddingModel,
+      });
+    }
+    case "openai_compatible": {
+      const baseUrl = trimSlash(settings.baseUrl ?? "");
+      return openAIProvider("openai_compatible", {
+        chatUrl: `${baseUrl}/chat/completions`,
+        embeddingsUrl: `${baseUrl}/embeddings`,
+        headers: settings.apiKey ? bearer(settings.apiKey) : {},
+        chatModel: settings.chatModel ?? "",
+        embeddingModel: settings.embeddingModel ?? DEFAULT_EMBEDDING_MODEL,
+      });
+    }
+    case "anthropic":
+      return anthropicProvider({
+        apiKey: requireKey(settings.apiKey ?? env.ANTHROPIC_API_KEY, "ANTHROPIC_API_KEY"),
+        baseUrl: trimSlash(settings.baseUrl ?? ANTHROPIC_API_URL),
+        chatModel: settings.chatModel ?? DEFAULT_CHAT_MODELS.anthropic,
+        embeddings: () => createDefaultProvider(env),
+      });
+  }
+}
+
+function createDefaultProvider(env: Env): LLMProvider {
+  const name = getDefaultProviderName(env);
+  if (name === "local") {
+    return createLocalProvider();
+  }
+  if (name === "azure_openai") {
+    return createProvider({
+      provider: "azure_openai",
+      ...(env.AZURE_OPENAI_ENDPOINT ? { baseUrl: env.AZURE_OPENAI_ENDPOINT } : {}),
+      ...(env.AI_CHAT_MODEL ? { chatModel: env.AI_CHAT_MODEL } : {}),
+      ...(env.AI_EMBEDDING_MODEL ? { embeddingModel: env.AI_EMBEDDING_MODEL } : {}),
+    }, env);
+  }
+  if (name === "openai_compatible") {
+    return createProvider({
+      provider: "openai_compatible",
+      ...(env.AI_BASE_URL ? { baseUrl: env.AI_BASE_URL } : {}),
+      ...(env.AI_CHAT_MODEL ? { chatModel: env.AI_CHAT_MODEL } : {}),
+      ...(env.AI_EMBEDDING_MODEL ? { embeddingModel: env.AI_EMBEDDING_MODEL } : {}),
+      ...(env.AI_API_KEY ? { apiKey: env.AI_API_KEY } : {}),
+    }, env);
+  }
+  return createProvider({
+    provider: name,
+    ...(env.AI_EMBEDDING_MODEL ? { embeddingModel: env.AI_EMBEDDING_MODEL } : {}),
+  }, env);
+}
+
+// ============================================================================
+// OPENAI, AZURE OPENAI AND OPENAI-COMPATIBLE SERVERS
+// ============================================================================
+
+interface OpenAIProviderConfig {
+  chatUrl: string;
+  embeddingsUrl: string;
+  headers: Record<string, string>;
+  chatModel: string;
+  embeddingModel: string;
+}
+
+// The parts of OpenAI-style responses read here. Providers are not trusted to
+// send every field, so most are optional.
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface OpenAIChatResponse {
+  model?: string;
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      tool_calls?: Array<{ id: string; function: { name: string; arguments: string } }>;
+    };
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIChatChunk {
+  model?: string;
+  usage?: OpenAIUsage | null;
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{ index?: number; id?: string; function?: { name?: string; arguments?: string } }>;
+    };
+  }>;
+}
+
+interface OpenAIEmbeddingsResponse {
+  model?: string;
+  data: Array<{ index: number; embedding: number[] }>;
+  usage?: { prompt_tokens?: number };
+}
+
+function openAIProvider(name: LLMProviderName, config: OpenAIProviderConfig): LLMProvider {
+  const label = PROVIDER_LABELS[name];
+
+  return {
+    name,
+
+    async complete(messages, options = {}) {
+      const model = options.model ?? config.chatModel;
+      const body = {
+        model,
+        messages: messages.map(toOpenAIMessage),
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.maxTokens ?? 1000,
+        ...(options.json ? { response_format: { type: "json_object" } } : {}),
+        ...(options.tools?.length ? {
+          tools: options.tools.map(tool => ({
+            type: "function",
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          })),
+        } : {}),
+      };
+      const prompt = messages.map(message => message.content).join("\n");
+
+      if (options.onToken) {
+        const response = await post(label, config.chatUrl, config.headers, {
+          ...body,
+          stream: true,
+          stream_options: { include_usage: true },
+        });
+
+        let content = "";
+        let reportedModel = model;
+        let reportedUsage: TokenUsage | null = null;
+        const calls: Array<{ id: string; name: string; arguments: string }> = [];
+        for await (const chunk of readServerSentEvents<OpenAIChatChunk>(response)) {
+          reportedModel = chunk.model || reportedModel;
+          if (chunk.usage) {
+            reportedUsage = usage(chunk.usage.prompt_tokens ?? 0, chunk.usage.completion_tokens ?? 0);
+          }
+          const delta = chunk.choices?.[0]?.delta;
+          if (delta?.content) {
+            content += delta.content;
+            await options.onToken(delta.content);
+          }
+          // Tool calls arrive in pieces, keyed by their position in the reply
+          for (const piece of delta?.tool_calls ?? []) {
+            const call = calls[piece.index ?? 0] ??= { id: "", name: "", arguments: "" };
+            call.id = piece.id ?? call.id;
+            call.name += piece.function?.name ?? "";
+            call.arguments += piece.function?.arguments ?? "";
+          }
+        }
+
+        return {
+          content,
+          toolCalls: calls.filter(Boolean).map(call => toolCall(call.id, call.name, call.arguments)),
+          model: reportedModel,
+          usage: reportedUsage ?? estimatedUsage(prompt, content),
+        };
+      }
+
+      const data = await postJSON<OpenAIChatResponse>(label, config.chatUrl, config.headers, body);
+      const message = data.choices?.[0]?.message;
+      const content = message?.content ?? "";
+      return {
+        content,
+        toolCalls: (message?.tool_calls ?? []).map(call => toolCall(call.id, call.function.name, call.function.arguments)),
+        model: data.model ?? model,
+        usage: data.usage
+          ? usage(data.usage.prompt_tokens ?? 0, data.usage.completion_tokens ?? 0)
+          : estimatedUsage(prompt, content),
+      };
+    },
+
+    async embed(texts) {
+      const embeddings: number[][] = [];
+      let promptTokens = 0;
+      let model = config.embeddingModel;
+
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const input = texts.slice(i, i + EMBEDDING_BATCH_SIZE).map(text => text.slice(0, EMBEDDING_INPUT_LIMIT));
+        const data = await postJSON<OpenAIEmbeddingsResponse>(label, config.embeddingsUrl, config.headers, {
+          model: config.embeddingModel,
+          input,
+          encoding_format: "float",
+        });
+
+        const items = [...data.data].sort((a, b) => a.index - b.index);
+        embeddings.push(...items.map(item => item.embedding));
+        promptTokens += data.usage?.prompt_tokens ?? estimateTokens(input.join("\n"));
+        model = data.model ?? model;
+      }
+
+      return { embeddings, model, usage: usage(promptTokens, 0) };
+    },
+  };
+}
+
+function toOpenAIMessage(message: LLMMessage) {
+  switch (message.role) {
+    case "tool":
+      return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+    case "assistant":
+      return message.toolCalls?.length
+        ? {
+            role: "assistant",
+            content: message.content || null,
+            tool_calls: message.toolCalls.map(call => ({
+              id: call.id,
+              type: "function",
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })),
+          }
+        : { role: "assistant", content: message.content };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
+
+// ============================================================================
+// ANTHROPIC
+// ============================================================================
+
+interface AnthropicProviderConfig {
+  apiKey: string;
+  baseUrl: string;
+  chatModel: string;
+  embeddings: () => LLMProvider;
+}
+
+// The parts of Anthropic responses and stream events read here
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+type AnthropicContentBlock = { type: string; text?: string; id?: string; name?: string; input?: Record<string, unknown> };
+
+interface AnthropicResponse {
+  model?: string;
+  content?: AnthropicContentBlock[];
+  usage?: AnthropicUsage;
+}
+
+type AnthropicStreamEvent =
+  | { type: "message_start"; message?: { model?: string; usage?: AnthropicUsage } }
+  | { type: "content_block_start"; index: number; content_block?: { type: "tool_use"; id: string; name: string } | { type: "text" } }
+  | { type: "content_block_delta"; index: number; delta?: { type: "text_delta"; text: string } | { type: "input_json_delta"; partial_json: string } }
+  | { type: "message_delta"; usage?: AnthropicUsage }
+  | { type: "error"; error?: { message?: string } }
+  | { type: "ping" | "content_block_stop" | "message_stop" };
+
+function anthropicProvider(config: AnthropicProviderConfig): LLMProvider {
+  return {
+    name: "anthropic",
+
+    async complete(messages, options = {}) {
+      const model = options.model ?? config.chatModel;
+      const system = messages
+        .filter(message => message.role === "system")
+        .map(message => message.content)
+        .concat(options.json ? [JSON_INSTRUCTION] : [])
+        .join("\n\n");
+      const headers = {
+        "x-api-key": config.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      };
+      const body = {
+        model,
+        ...(system ? { system } : {}),
+        messages: toAnthropicMessages(messages),
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.maxTokens ?? 1000,
+        ...(options.tools?.length ? {
+          tools: options.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters,
+          })),
+        } : {}),
+      };
+      const prompt = messages.map(message => message.content).join("\n");
+
+      if (options.onToken) {
+        const response = await post(PROVIDER_LABELS.anthropic, `${config.baseUrl}/messages`, headers, {
+          ...body,
+          stream: true,
+        });
+
+        let content = "";
+        let reportedModel = model;
+        let inputTokens: number | null = null;
+        let outputTokens = 0;
+        const calls: Array<{ id: string; name: string; input: string }> = [];
+        for await (const event of readServerSentEvents<AnthropicStreamEvent>(response)) {
+          switch (event.type) {
+            case "message_start":
+              reportedModel = event.message?.model ?? reportedModel;
+              inputTokens = event.message?.usage?.input_tokens ?? null;
+              break;
+            case "content_block_start":
+              if (event.content_block?.type === "tool_use") {
+                calls[event.index] = { id: event.content_block.id, name: event.content_block.name, input: "" };
+              }
+              break;
+            case "content_block_delta":
+              if (event.delta?.type === "text_delta") {
+                content += event.delta.text;
+                await options.onToken(event.delta.text);
+              } else if (event.delta?.type === "input_json_delta" && calls[event.index]) {
+                calls[event.index]!.input += event.delta.partial_json;
+              }
+              break;
+            case "message_delta":
+              outputTokens = event.usage?.output_tokens ?? outputTokens;
+              break;
+            case "error":
+              throw new Error(`${PROVIDER_LABELS.anthropic} API error: ${event.error?.message ?? "stream failed"}`);
+          }
+        }
+
+        return {
+          content,
+          toolCalls: calls.filter(Boolean).map(call => toolCall(call.id, call.name, call.input)),
+          model: reportedModel,
+          usage: inputTokens !== null ? usage(inputTokens, outputTokens) : estimatedUsage(prompt, content),
+        };
+      }
+
+      const data = await postJSON<AnthropicResponse>(PROVIDER_LABELS.anthropic, `${config.baseUrl}/messages`, headers, body);
+      const blocks = data.content ?? [];
+      const content = blocks
+        .filter(block => block.type === "text")
+        .map(block => block.text ?? "")
+        .join("");
+      return {
+        content,
+        toolCalls: blocks
+          .filter(block => block.type === "tool_use")
+          .map(block => ({ id: block.id ?? "", name: block.name ?? "", arguments: block.input ?? {} })),
+        model: data.model ?? model,
+        usage: data.usage
+          ? usage(data.usage.input_tokens ?? 0, data.usage.output_tokens ?? 0)
+          : estimatedUsage(prompt, content),
+      };
+    },
+
+    async embed(texts) {
+      return config.embeddings().embed(texts);
+    },
+  };
+}
+
+type AnthropicMessage = { role: "user" | "assistant"; content: string | Array<Record<string, unknown>> };
+
+// Anthropic takes tool calls and results as content blocks, with the results
+// of one turn's calls together in a single user message
+function toAnthropicMessages(messages: LLMMessage[]): AnthropicMessage[] {
+  const result: AnthropicMessage[] = [];
+  for (const message of messages) {
+    if (message.role === "system") continue;
+
+    if (message.role === "tool") {
+      const block = { type: "tool_result", tool_use_id: message.toolCallId, content: message.content };
+      const last = result[result.length - 1];
+      if (last?.role === "user" && Array.isArray(last.content)) {
+        last.content.push(block);
+      } else {
+        result.push({ role: "user", content: [block] });
+      }
+    } else if (message.role === "assistant" && message.toolCalls?.length) {
+      result.push({
+        role: "assistant",
+        content: [
+          ...(message.content ? [{ type: "text", text: message.content }] : []),
+          ...message.toolCalls.map(call => ({ type: "tool_use", id: call.id, name: call.name, input: call.arguments })),
+        ],
+      });
+    } else {
+      result.push({ role: message.role, content: message.content });
+    }
+  }
+  return result;
+}
+
+// ============================================================================
+// LOCAL FIXTURE PROVIDER
+// ============================================================================
+
+/**
+ * A canned response, returned for prompts containing `match`. A fixture with
+ * tool calls makes them first and answers once their results are in.
+ */
+export interface LocalFixture {
+  match: string | RegExp;
+  response: string | object;
+  toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+}
+
+let localFixtures: LocalFixture[] = [];
+
+/**
+ * Replace the local provider's fixtures. The first fixture whose match is
+ * found in the prompt answers it.
+ */
+export function setLocalFixtures(fixtures: LocalFixture[]): void {
+  localFixtures = [...fixtures];
+}
+
+export function createLocalProvider(fixtures?: LocalFixture[]): LLMProvider {
+  return {
+    name: "local",
+
+    async complete(messages, options = {}) {
+      const prompt = messages.map(message => message.content).join("\n");
+      const fixture = (fixtures ?? localFixtures).find(candidate =>
+        typeof candidate.match === "string" ? prompt.includes(candidate.match) : candidate.match.test(prompt)
+      );
+
+      const lastUserMessage = messages.map(message => message.role).lastIndexOf("user");
+      const awaitingTools = !messages.slice(lastUserMessage + 1).some(message => message.role === "tool");
+      if (fixture?.toolCalls?.length && options.tools?.length && awaitingTools) {
+        return {
+          content: "",
+          toolCalls: fixture.toolCalls.map((call, index) => ({ id: `local-call-${index}`, ...call })),
+          model: options.model ?? DEFAULT_CHAT_MODELS.local,
+          usage: { ...estimatedUsage(prompt, ""), estimated: false },
+        };
+      }
+
+      let content: string;
+      if (fixture) {
+        content = typeof fixture.response === "string" ? fixture.response : JSON.stringify(fixture.response);
+      } else if (options.json) {
+        content = "{}";
+      } else {
+        const lastMessage = messages[messages.length - 1]?.content ?? "";
+        content = `Local response ${hashText(prompt).toString(16)}: ${lastMessage.slice(0, 80)}`;
+      }
+
+      if (options.onToken) {
+        for (const word of content.match(/\s*\S+/g) ?? []) {
+          await options.onToken(word);
+        }
+      }
+
+      return {
+        content,
+        toolCalls: [],
+        model: options.model ?? DEFAULT_CHAT_MODELS.local,
+        usage: { ...estimatedUsage(prompt, content), estimated: false },
+      };
+    },
+
+    async embed(texts) {
+      return {
+        embeddings: texts.map(localEmbedding),
+        model: "local-hash-embedding",
+        usage: { ...usage(estimateTokens(texts.join("\n")), 0), estimated: false },
+      };
+    },
+  };
+}
+
+/**
+ * A unit vector derived from the text's hash; equal texts embed equally
+ */
+export function localEmbedding(text: string): number[] {
+  const hash = hashText(text);
+  const embedding = new Array<number>(EMBEDDING_DIMENSIONS);
+  for (let i = 0; i < EMBEDDING_DIMENSIONS; i++) {
+    embedding[i] = Math.sin(hash * (i + 1)) * Math.cos(hash / (i + 1));
+  }
+
+  const magnitude = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0));
+  return magnitude > 0 ? embedding.map(value => value / magnitude) : embedding;
+}
+
+function hashText(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) - hash + text.charCodeAt(i)) | 0;
+  }
+  return hash;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Parse a model's JSON reply, tolerating a surrounding code fence or prose
+ */
+export function parseJSONResponse<T>(content: string): T {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = (fenced ? fenced[1]! : content).trim();
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    const start = body.search(/[[{]/);
+    const end = Math.max(body.lastIndexOf("}"), body.lastIndexOf("]"));
+    if (start >= 0 && end > start) {
+      return JSON.parse(body.slice(start, end + 1)) as T;
+    }
+    throw new Error("Model response is not valid JSON");
+  }
+}
+
+/**
+ * Rough token count for providers that report none: about four characters
+ * per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const PROVIDER_LABELS: Record<LLMProviderName, string> = {
+  openai: "OpenAI",
+  anthropic: "Anthropic",
+  azure_openai: "Azure OpenAI",
+  openai_compatible: "Self-hosted model",
+  local: "Local provider",
+};
+
+function usage(promptTokens: number, completionTokens: number): TokenUsage {
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: false };
+}
+
+function estimatedUsage(prompt: string, completion: string): TokenUsage {
+  return { ...usage(estimateTokens(prompt), estimateTokens(completion)), estimated: true };
+}
+
+function requireKey(apiKey: string | undefined, envName: string): string {
+  if (!apiKey) {
+    throw new Error(`${envName} is not set in environment variables`);
+  }
+  return apiKey;
+}
+
+function bearer(apiKey: string): Record<string, string> {
+  return { Authorization: `Bearer ${apiKey}` };
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+// A tool call as the model sent it; arguments it failed to encode become empty
+function toolCall(id: string, name: string, encodedArguments: string): LLMToolCall {
+  try {
+    const parsed = encodedArguments ? JSON.parse(encodedArguments) : {};
+    return { id, name, arguments: parsed && typeof parsed === "object" ? parsed : {} };
+  } catch {
+    return { id, name, arguments: {} };
+  }
+}
+
+// T describes the response; it is not checked against what arrives
+async function postJSON<T>(label: string, url: string, headers: Record<string, string>, body: unknown): Promise<T> {
+  const response = await post(label, url, headers, body);
+  return await response.json() as T;
+}
+
+async function post(label: string, url: string, headers: Record<string, string>, body: unknown): Promise<Response> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(`${label} API error: ${error?.error?.message || response.statusText}`);
+  }
+  return response;
+}
+
+/**
+ * The JSON payloads of a server-sent event stream, as they arrive
+ */
+async function* readServerSentEvents<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = done ? "" : lines.pop() ?? "";
+    for (const line of lines) {
+      const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+      if (data && data !== "[DONE]") {
+        yield JSON.parse(data) as T;
+      }
+    }
+    if (done) return;
+  }
+}
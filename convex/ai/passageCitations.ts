@@ -0,0 +1,124 @@
+// convex/ai/passageCitations.ts
+import { locateQuote, passageExcerpt } from "../documents/chunking";
+
+/**
+ * Passage citations
+ *
+ * Contract questions are answered from passages of the contracts' documents
+ * (documents/contractIndex.ts). The model cites passages by number and quotes
+ * the words it relies on; this module turns those into numbered citations
+ * that carry the exact text quoted and where it sits in the document, so the
+ * document viewer can open at it. A quote the passage does not contain is
+ * replaced by the passage's opening words. Everything here is pure.
+ */
+
+export interface Passage {
+  id: string; // contractChunks id
+  contractId: string;
+  contractTitle: string;
+  versionId?: string | undefined; // Set for passages of an amendment's file
+  documentTitle: string;
+  page: number;
+  section?: string | undefined;
+  start: number; // [start, end) in the document text
+  end: number;
+  text: string;
+}
+
+export interface PassageQuote {
+  passage: number; // 1-based position in the passages given to the model
+  quote: string;
+}
+
+export interface PassageCitation {
+  number: number;
+  passageId: string;
+  contractId: string;
+  contractTitle: string;
+  versionId?: string | undefined;
+  documentTitle: string;
+  page: number;
+  section?: string | undefined;
+  quote: string; // Exact text from the document
+  start: number;
+  end: number;
+}
+
+// Passages given to the model per question
+export const MAX_ANSWER_PASSAGES = 8;
+
+export const PASSAGE_ANSWER_INSTRUCTIONS = `Answer the question using only the numbered contract passages provided.
+Cite the passage a statement rests on right after it as [passage:<number>].
+For every passage you cite, quote the exact words you rely on, copied verbatim
+from the passage. If the passages do not answer the question, say so.
+Respond in JSON: {"answer": "...", "quotes": [{"passage": 1, "quote": "..."}]}`;
+
+const PASSAGE_MARKER = /\s*\[passage:\s*(\d+)\]/g;
+
+/**
+ * The passages as the model reads them, numbered from 1
+ */
+export function formatPassages(passages: Passage[]): string {
+  return passages
+    .map((passage, index) => {
+      const location = [
+        passage.documentTitle === passage.contractTitle
+          ? passage.contractTitle
+          : `${passage.contractTitle}, ${passage.documentTitle}`,
+        `page ${passage.page}`,
+        passage.section,
+      ].filter(Boolean).join(" - ");
+      return `[${index + 1}] ${location}\n${passage.text.trim()}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Replace the answer's passage markers with citations numbered in order of
+ * first mention, each with the quote the model gave for that passage. Markers
+ * naming a passage the model was not given are dropped.
+ */
+export function resolvePassageCitations(
+  answer: string,
+  quotes: PassageQuote[],
+  passages: Passage[]
+): { answer: string; citations: PassageCitation[] } {
+  const citations: PassageCitation[] = [];
+
+  const content = answer.replace(PASSAGE_MARKER, (marker, number: string) => {
+    const passage = passages[Number(number) - 1];
+    if (!passage) return "";
+
+    let citation = citations.find(candidate => candidate.passageId === passage.id);
+    if (!citation) {
+      citation = toCitation(citations.length + 1, passage, quotes.filter(quote => quote.passage === Number(number)));
+      citations.push(citation);
+    }
+    return `${marker.match(/^\s*/)![0]}[${citation.number}]`;
+  });
+
+  return { answer: content.trim(), citations };
+}
+
+function toCitation(number: number, passage: Passage, quotes: PassageQuote[]): PassageCitation {
+  let span: { start: number; end: number } | null = null;
+  for (const quote of quotes) {
+    span = locateQuote(passage.text, quote.quote);
+    if (span) break;
+  }
+  span ??= passageExcerpt(passage.text);
+
+  return {
+    number,
+    passageId: passage.id,
+    contractId: passage.contractId,
+    contractTitle: passage.contractTitle,
+    ...(passage.versionId ? { versionId: passage.versionId } : {}),
+    documentTitle: passage.documentTitle,
+    page: passage.page,
+    ...(passage.section ? { section: passage.section } : {}),
+    quote: passage.text.slice(span.start, span.end),
+    start: passage.start + span.start,
+    end: passage.start + span.end,
+  };
+}
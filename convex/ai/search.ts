@@ -8,8 +8,19 @@ import { api } from "../_generated/api";
 // AI-POWERED SEARCH
 // ============================================================================
 
-// Import OpenAI helpers
-import { generateEmbedding, getChatCompletion } from "./openai-config";
+import { getLLM } from "./llm";
+import type { LLMMessage } from "./llmProviders";
+
+// Criteria the model extracts from a natural language query
+interface SearchCriteria {
+  contractTypes?: string[];
+  vendors?: string[];
+  dateRange?: { start?: string; end?: string };
+  valueRange?: { min?: number; max?: number };
+  status?: string[];
+  keywords?: string[];
+  riskLevel?: string;
+}
 
 /**
  * Search for similar contract clauses using AI
@@ -204,7 +215,8 @@ export const searchClausesWithAI = action({
     const { user, clauses } = result;
 
     // Get query embedding
-    const queryVector = await generateEmbedding(args.query);
+    const llm = await getLLM(ctx, user.enterpriseId, "clause_search");
+    const queryVector = await llm.embed(args.query);
 
     // Calculate similarities
     const results: any[] = [];
@@ -391,7 +403,7 @@ Extract and return in JSON format:
 }`;
 
     try {
-      const messages = [
+      const messages: LLMMessage[] = [
         {
           role: "system",
           content: "You are a search query parser. Extract search criteria from natural language queries."
@@ -402,17 +414,11 @@ Extract and return in JSON format:
         }
       ];
 
-      const content = await getChatCompletion(messages, {
-        model: "gpt-4-1106-preview",
+      const llm = await getLLM(ctx, userCheck.user.enterpriseId, "contract_search");
+      const { data: criteria } = await llm.completeJSON<SearchCriteria>(messages, {
         temperature: 0.1,
-        max_tokens: 500
+        maxTokens: 500
       });
-      
-      if (!content) {
-        throw new Error("No response from query parser");
-      }
-
-      const criteria = JSON.parse(content);
 
       // Search contracts based on criteria
       const result = await ctx.runQuery(api.ai.search.searchContractsByCriteria, {
@@ -436,7 +442,7 @@ And these ${contracts.length} contracts found, provide a brief analysis:
 
 Keep it concise (3-4 sentences).`;
 
-        const analysisMessages = [
+        const analysisMessages: LLMMessage[] = [
           {
             role: "system",
             content: "You are a contract analysis expert providing concise insights."
@@ -447,11 +453,10 @@ Keep it concise (3-4 sentences).`;
           }
         ];
 
-        const analysis = await getChatCompletion(analysisMessages, {
-          model: "gpt-4-1106-preview",
+        const analysis = (await llm.complete(analysisMessages, {
           temperature: 0.7,
-          max_tokens: 300
-        }) || "";
+          maxTokens: 300
+        })).content;
 
         return {
           contracts: contracts.slice(0, 20), // Limit results
@@ -0,0 +1,600 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, mutation, internalMutation, MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { contractTermsValidator } from "../schema";
+import {
+  contractResource,
+  getDepartmentScope,
+  getSecurityContext,
+  hasScopedPermission,
+  requirePermission,
+  SecurityContext,
+} from "../security/rowLevelSecurity";
+import { emitWebhookEvent } from "../integrations/webhookEvents";
+import { withoutFields } from "../lib/documentFields";
+import { scheduleContractIndex } from "../documents/contractIndex";
+import { syncContractRenewal } from "../renewals/renewals";
+import {
+  ContractTerms,
+  assessAmendmentChanges,
+  baseTermsFromContract,
+  currentEffectiveTerms,
+  diffTerms,
+  isDueToTakeEffect,
+  normalizeAmendmentTerms,
+  termsAtVersion,
+} from "./contractLineage";
+import { appendAuditLog } from "../auditLogging";
+import { getEnterpriseAgent } from "../agents/agentRuntime";
+
+/**
+ * Contract Amendments
+ *
+ * Records a contract's lineage: the original agreement as version 0, then
+ * each amendment, addendum or restatement with its own file, effective date
+ * and changed terms. Amendments start as drafts and are queued for the legal
+ * agent to review; once executed they take effect on their effective date and
+ * the contract row is updated to the terms then in effect. Adding, replacing
+ * or voiding an amendment's file rebuilds the contract's passage index.
+ */
+
+const amendmentTypeValidator = v.union(v.literal("amendment"), v.literal("addendum"), v.literal("restatement"));
+
+async function getLineage(ctx: MutationCtx, contractId: Id<"contracts">): Promise<Doc<"contractVersions">[]> {
+  return await ctx.db
+    .query("contractVersions")
+    .withIndex("by_contract_version", (q) => q.eq("contractId", contractId))
+    .collect();
+}
+
+/**
+ * Snapshot the contract as version 0 the first time an amendment is recorded,
+ * so later versions have something to be compared against
+ */
+async function ensureOriginalVersion(
+  ctx: MutationCtx,
+  contract: Doc<"contracts">,
+  userId: Id<"users">
+): Promise<Doc<"contractVersions">[]> {
+  const lineage = await getLineage(ctx, contract._id);
+  if (lineage.some(version => version.versionNumber === 0)) {
+    return lineage;
+  }
+
+  const now = new Date().toISOString();
+  const terms = baseTermsFromContract(contract);
+  const originalId = await ctx.db.insert("contractVersions", {
+    enterpriseId: contract.enterpriseId,
+    contractId: contract._id,
+    versionNumber: 0,
+    type: "original",
+    status: "in_effect",
+    title: contract.title,
+    storageId: contract.storageId,
+    fileName: contract.fileName,
+    fileType: contract.fileType,
+    effectiveDate: terms.startDate ?? contract.createdAt.slice(0, 10),
+    terms,
+    createdBy: userId,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const original = await ctx.db.get(originalId);
+  return original ? [original, ...lineage] : lineage;
+}
+
+// Amendments change the contract, so they need contracts.update on it within
+// the user's department scope
+async function requireContractUpdate(ctx: MutationCtx, securityContext: SecurityContext, contract: Doc<"contracts">) {
+  const departmentScope = await getDepartmentScope(ctx, securityContext);
+  if (!hasScopedPermission(securityContext, departmentScope, "contracts.update", contractResource(contract))) {
+    throw new ConvexError("Permission denied: contracts.update");
+  }
+}
+
+async function getAccessibleVersion(ctx: MutationCtx, versionId: Id<"contractVersions">) {
+  const securityContext = await getSecurityContext(ctx);
+
+  const version = await ctx.db.get(versionId);
+  if (!version || version.enterpriseId !== securityContext.enterpriseId) {
+    throw new ConvexError("Contract version not found or access denied");
+  }
+  const contract = await ctx.db.get(version.contractId);
+  if (!contract) {
+    throw new ConvexError("Contract not found or access denied");
+  }
+  await requireContractUpdate(ctx, securityContext, contract);
+  if (version.versionNumber === 0) {
+    throw new ConvexError("The original contract version cannot be changed");
+  }
+
+  return { securityContext, version };
+}
+
+/**
+ * Queue the legal agent to review an amendment's changes. Skipped when the
+ * enterprise has no legal agent set up.
+ */
+async function queueAmendmentReview(
+  ctx: MutationCtx,
+  contract: Doc<"contracts">,
+  version: { _id: Id<"contractVersions">; versionNumber: number; title: string }
+): Promise<Id<"agentTasks"> | null> {
+  const legalAgent = await getEnterpriseAgent(ctx, contract.enterpriseId, "legal");
+  if (!legalAgent) return null;
+
+  return await ctx.db.insert("agentTasks", {
+    assignedAgentId: legalAgent._id,
+    enterpriseId: contract.enterpriseId,
+    taskType: "amendment_review",
+    status: "pending",
+    priority: "medium",
+    title: `Review amendment: ${version.title}`,
+    description: `Review version ${version.versionNumber} of "${contract.title}"`,
+    contractId: contract._id,
+    ...(contract.vendorId ? { vendorId: contract.vendorId } : {}),
+    data: {
+      parameters: {
+        amendmentId: version._id,
+        versionNumber: version.versionNumber,
+      },
+    },
+    createdAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Write the terms currently in effect back onto the contract and bring its
+ * renewal tracking in line. Does nothing for contracts without a lineage.
+ * Returns the terms that changed.
+ */
+export async function applyEffectiveTerms(
+  ctx: MutationCtx,
+  contractId: Id<"contracts">,
+  amendment?: Doc<"contractVersions">
+): Promise<ContractTerms | null> {
+  const contract = await ctx.db.get(contractId);
+  if (!contract) return null;
+
+  const lineage = await getLineage(ctx, contractId);
+  if (lineage.length === 0) return null;
+
+  const current = baseTermsFromContract(contract);
+  const effective = currentEffectiveTerms(lineage);
+  const changes = diffTerms(current, effective).filter(change => change.to !== undefined);
+  if (changes.length === 0) return {};
+
+  const updates: Partial<Doc<"contracts">> = {};
+  for (const change of changes) {
+    switch (change.field) {
+      case "value":
+        updates.value = change.to as number;
+        break;
+      case "startDate":
+        updates.extractedStartDate = change.to as string;
+        if (contract.startDate) updates.startDate = change.to as string;
+        break;
+      case "endDate":
+        updates.extractedEndDate = change.to as string;
+        if (contract.endDate) updates.endDate = change.to as string;
+        break;
+      case "scope":
+        updates.extractedScope = change.to as string;
+        break;
+      case "pricing":
+        updates.extractedPricing = change.to as string;
+        break;
+      case "paymentSchedule":
+        updates.extractedPaymentSchedule = change.to as string;
+        break;
+    }
+  }
+
+  await ctx.db.patch(contractId, { ...updates, updatedAt: Date.now() });
+  await syncContractRenewal(ctx, contractId);
+
+  const applied = Object.fromEntries(changes.map(change => [change.field, change.to])) as ContractTerms;
+  const previous = Object.fromEntries(
+    changes.filter(change => change.from !== undefined).map(change => [change.field, change.from])
+  );
+
+  if (amendment) {
+    await emitWebhookEvent(ctx, {
+      type: "contract.amended",
+      enterpriseId: contract.enterpriseId,
+      data: {
+        contractId,
+        title: contract.title,
+        vendorId: contract.vendorId,
+        versionId: amendment._id,
+        versionNumber: amendment.versionNumber,
+        amendmentType: amendment.type,
+        status: amendment.status,
+        terms: applied,
+      },
+      previous,
+    });
+  }
+
+  return applied;
+}
+
+export async function deleteContractVersions(ctx: MutationCtx, contractId: Id<"contracts">): Promise<void> {
+  const contract = await ctx.db.get(contractId);
+  const lineage = await getLineage(ctx, contractId);
+
+  for (const version of lineage) {
+    // The original's file belongs to the contract and is removed with it
+    if (version.storageId && version.storageId !== contract?.storageId) {
+      try {
+        await ctx.storage.delete(version.storageId);
+      } catch {
+        // Continue with deletion even if the file is already gone
+      }
+    }
+    await ctx.db.delete(version._id);
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * A contract's versions in order, with the terms each one results in and the
+ * terms currently in effect
+ */
+export const getContractLineage = query({
+  args: { contractId: v.id("contracts") },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
+      return null;
+    }
+
+    const lineage = await ctx.db
+      .query("contractVersions")
+      .withIndex("by_contract_version", (q) => q.eq("contractId", args.contractId))
+      .collect();
+
+    // Contracts that were never amended have just their original terms
+    if (lineage.length === 0) {
+      return {
+        versions: [],
+        effectiveTerms: baseTermsFromContract(contract),
+        pendingCount: 0,
+      };
+    }
+
+    const versions = await Promise.all(
+      lineage.map(async (version) => {
+        const author = version.createdBy ? await ctx.db.get(version.createdBy) : null;
+        return {
+          ...version,
+          fileUrl: version.storageId ? await ctx.storage.getUrl(version.storageId) : null,
+          createdByName: author ? [author.firstName, author.lastName].filter(Boolean).join(" ") || author.email : undefined,
+          resultingTerms: termsAtVersion(lineage, version.versionNumber),
+          changes: version.versionNumber === 0
+            ? []
+            : diffTerms(termsAtVersion(lineage, version.versionNumber - 1), termsAtVersion(lineage, version.versionNumber)),
+        };
+      })
+    );
+
+    return {
+      versions,
+      effectiveTerms: currentEffectiveTerms(lineage),
+      pendingCount: lineage.filter(version => version.status === "draft" || version.status === "executed").length,
+    };
+  },
+});
+
+/**
+ * Differences between the terms at two versions of a contract, with the
+ * changes legal should look at
+ */
+export const compareContractVersions = query({
+  args: {
+    contractId: v.id("contracts"),
+    fromVersion: v.number(),
+    toVersion: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+
+    const lineage = await ctx.db
+      .query("contractVersions")
+      .withIndex("by_contract_version", (q) => q.eq("contractId", args.contractId))
+      .collect();
+
+    const from = lineage.find(version => version.versionNumber === args.fromVersion);
+    const to = lineage.find(version => version.versionNumber === args.toVersion);
+    if (!from || !to) {
+      throw new ConvexError("Contract version not found");
+    }
+
+    const fromTerms = termsAtVersion(lineage, from.versionNumber);
+    const toTerms = termsAtVersion(lineage, to.versionNumber);
+    const changes = diffTerms(fromTerms, toTerms);
+
+    return {
+      from: { _id: from._id, versionNumber: from.versionNumber, title: from.title, status: from.status, terms: fromTerms },
+      to: { _id: to._id, versionNumber: to.versionNumber, title: to.title, status: to.status, terms: toTerms },
+      changes,
+      assessment: assessAmendmentChanges(changes),
+    };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Record a draft amendment against a contract and queue it for legal review
+ */
+export const createAmendment = mutation({
+  args: {
+    contractId: v.id("contracts"),
+    type: amendmentTypeValidator,
+    title: v.string(),
+    description: v.optional(v.string()),
+    effectiveDate: v.string(),
+    terms: contractTermsValidator,
+    storageId: v.optional(v.id("_storage")),
+    fileName: v.optional(v.string()),
+    fileType: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+    await requireContractUpdate(ctx, securityContext, contract);
+
+    const title = args.title.trim();
+    if (!title) {
+      throw new ConvexError("Amendment title is required");
+    }
+    if (Number.isNaN(new Date(args.effectiveDate).getTime())) {
+      throw new ConvexError("Effective date must be a valid date");
+    }
+    const terms = normalizeAmendmentTerms(args.terms);
+
+    const lineage = await ensureOriginalVersion(ctx, contract, securityContext.userId);
+    const versionNumber = Math.max(...lineage.map(version => version.versionNumber)) + 1;
+    const now = new Date().toISOString();
+
+    const versionId = await ctx.db.insert("contractVersions", {
+      enterpriseId: contract.enterpriseId,
+      contractId: contract._id,
+      versionNumber,
+      type: args.type,
+      status: "draft",
+      title,
+      ...(args.description?.trim() ? { description: args.description.trim() } : {}),
+      ...(args.storageId ? { storageId: args.storageId } : {}),
+      ...(args.fileName ? { fileName: args.fileName } : {}),
+      ...(args.fileType ? { fileType: args.fileType } : {}),
+      effectiveDate: args.effectiveDate.slice(0, 10),
+      terms,
+      createdBy: securityContext.userId,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const reviewTaskId = await queueAmendmentReview(ctx, contract, { _id: versionId, versionNumber, title });
+    if (args.storageId) {
+      await scheduleContractIndex(ctx, contract._id);
+    }
+
+    return { versionId, versionNumber, reviewTaskId };
+  },
+});
+
+/**
+ * Change a draft amendment. Changing its terms discards the previous legal
+ * review and queues a new one.
+ */
+export const updateAmendment = mutation({
+  args: {
+    versionId: v.id("contractVersions"),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+    effectiveDate: v.optional(v.string()),
+    terms: v.optional(contractTermsValidator),
+    storageId: v.optional(v.id("_storage")),
+    fileName: v.optional(v.string()),
+    fileType: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { version } = await getAccessibleVersion(ctx, args.versionId);
+    if (version.status !== "draft") {
+      throw new ConvexError("Only draft amendments can be edited");
+    }
+
+    const contract = await ctx.db.get(version.contractId);
+    if (!contract) {
+      throw new ConvexError("Contract not found");
+    }
+
+    if (args.title !== undefined && !args.title.trim()) {
+      throw new ConvexError("Amendment title is required");
+    }
+    if (args.effectiveDate !== undefined && Number.isNaN(new Date(args.effectiveDate).getTime())) {
+      throw new ConvexError("Effective date must be a valid date");
+    }
+    const terms = args.terms ? normalizeAmendmentTerms(args.terms) : undefined;
+
+    // Replacing the file removes the one it supersedes
+    if (args.storageId && version.storageId && args.storageId !== version.storageId) {
+      try {
+        await ctx.storage.delete(version.storageId);
+      } catch {
+        // Continue even if the old file is already gone
+      }
+    }
+
+    await ctx.db.replace(args.versionId, {
+      ...(terms ? withoutFields(version, ["legalReview"]) : version),
+      ...(args.title !== undefined ? { title: args.title.trim() } : {}),
+      ...(args.description !== undefined ? { description: args.description.trim() } : {}),
+      ...(args.effectiveDate !== undefined ? { effectiveDate: args.effectiveDate.slice(0, 10) } : {}),
+      ...(terms ? { terms } : {}),
+      ...(args.storageId ? { storageId: args.storageId } : {}),
+      ...(args.fileName ? { fileName: args.fileName } : {}),
+      ...(args.fileType ? { fileType: args.fileType } : {}),
+      updatedAt: new Date().toISOString(),
+    });
+
+    const reviewTaskId = terms
+      ? await queueAmendmentReview(ctx, contract, { ...version, title: args.title?.trim() || version.title })
+      : null;
+    if (args.storageId && args.storageId !== version.storageId) {
+      await scheduleContractIndex(ctx, contract._id);
+    }
+
+    return { success: true, reviewTaskId };
+  },
+});
+
+/**
+ * Mark an amendment as signed. It takes effect straight away when its
+ * effective date has been reached, otherwise on that date.
+ */
+export const executeAmendment = mutation({
+  args: { versionId: v.id("contractVersions") },
+  handler: async (ctx, args) => {
+    const { securityContext, version } = await getAccessibleVersion(ctx, args.versionId);
+    requirePermission(securityContext, "contracts.approve");
+    if (version.status !== "draft") {
+      throw new ConvexError("Only draft amendments can be executed");
+    }
+
+    const now = new Date();
+    const takesEffect = isDueToTakeEffect({ status: "executed", effectiveDate: version.effectiveDate }, now);
+    const updates = {
+      status: takesEffect ? "in_effect" as const : "executed" as const,
+      executedBy: securityContext.userId,
+      executedAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    await ctx.db.patch(args.versionId, updates);
+    const executed = { ...version, ...updates };
+
+    const applied = takesEffect ? await applyEffectiveTerms(ctx, version.contractId, executed) : null;
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "executeAmendment",
+      resourceType: "contractVersions",
+      resourceId: args.versionId,
+      action: "update",
+      status: "success",
+      timestamp: now.toISOString(),
+      metadata: {
+        contractId: version.contractId,
+        versionNumber: version.versionNumber,
+        effectiveDate: version.effectiveDate,
+        inEffect: takesEffect,
+      },
+    });
+
+    return { status: executed.status, appliedTerms: applied };
+  },
+});
+
+/**
+ * Void an amendment. If it had already taken effect, the contract goes back
+ * to the terms of the versions still standing.
+ */
+export const voidAmendment = mutation({
+  args: {
+    versionId: v.id("contractVersions"),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { securityContext, version } = await getAccessibleVersion(ctx, args.versionId);
+    requirePermission(securityContext, "contracts.approve");
+    if (version.status === "void") {
+      throw new ConvexError("Amendment is already void");
+    }
+    const reason = args.reason.trim();
+    if (!reason) {
+      throw new ConvexError("A reason is required to void an amendment");
+    }
+
+    const now = new Date().toISOString();
+    const updates = {
+      status: "void" as const,
+      voidedBy: securityContext.userId,
+      voidedAt: now,
+      voidReason: reason,
+      updatedAt: now,
+    };
+    await ctx.db.patch(args.versionId, updates);
+    const voided = { ...version, ...updates };
+
+    const applied = version.status === "in_effect" ? await applyEffectiveTerms(ctx, version.contractId, voided) : null;
+    if (version.storageId) {
+      await scheduleContractIndex(ctx, version.contractId);
+    }
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "voidAmendment",
+      resourceType: "contractVersions",
+      resourceId: args.versionId,
+      action: "update",
+      status: "success",
+      timestamp: now,
+      metadata: { contractId: version.contractId, versionNumber: version.versionNumber, previousStatus: version.status, reason },
+    });
+
+    return { success: true, appliedTerms: applied };
+  },
+});
+
+// ============================================================================
+// SCHEDULED
+// ============================================================================
+
+/**
+ * Put executed amendments whose effective date has arrived into effect.
+ * Runs daily.
+ */
+export const applyDueAmendments = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = new Date();
+    const today = now.toISOString().slice(0, 10);
+
+    const due = await ctx.db
+      .query("contractVersions")
+      .withIndex("by_status_effective", (q) => q.eq("status", "executed").lte("effectiveDate", today))
+      .collect();
+
+    let applied = 0;
+    for (const version of due.sort((a, b) => a.versionNumber - b.versionNumber)) {
+      const updates = { status: "in_effect" as const, updatedAt: now.toISOString() };
+      await ctx.db.patch(version._id, updates);
+      await applyEffectiveTerms(ctx, version.contractId, { ...version, ...updates });
+      applied++;
+    }
+
+    return { amendmentsApplied: applied };
+  },
+});
@@ -0,0 +1,279 @@
+import { ConvexError } from "convex/values";
+
+/**
+ * Contract lineage rules
+ *
+ * A contract's lineage is the original agreement (version 0) followed by its
+ * amendments, addenda and restatements in order. Each version records only the
+ * terms it changes; folding them in order gives the terms in effect. Also diffs
+ * two versions and flags the changes legal should look at. Pure so it can be
+ * unit tested; persistence lives in `amendments.ts`.
+ */
+
+export interface ContractTerms {
+  value?: number | undefined;
+  startDate?: string | undefined;
+  endDate?: string | undefined;
+  scope?: string | undefined;
+  pricing?: string | undefined;
+  paymentSchedule?: string | undefined;
+}
+
+export type ContractTermField = keyof ContractTerms;
+
+export interface LineageVersion {
+  versionNumber: number;
+  status: "draft" | "executed" | "in_effect" | "void";
+  effectiveDate: string;
+  terms: ContractTerms;
+}
+
+export interface TermChange {
+  field: ContractTermField;
+  label: string;
+  from?: string | number;
+  to?: string | number;
+  type: "added" | "removed" | "changed";
+}
+
+export interface AmendmentAssessment {
+  legalImpact: "low" | "medium" | "high";
+  risks: string[];
+  recommendations: string[];
+}
+
+// Field order used for diffs and display
+export const CONTRACT_TERM_FIELDS: ContractTermField[] = ["value", "startDate", "endDate", "scope", "pricing", "paymentSchedule"];
+
+export const CONTRACT_TERM_LABELS: Record<ContractTermField, string> = {
+  value: "Contract value",
+  startDate: "Start date",
+  endDate: "End date",
+  scope: "Scope",
+  pricing: "Pricing",
+  paymentSchedule: "Payment schedule",
+};
+
+// A value increase above this fraction is treated as a material change
+const MATERIAL_VALUE_INCREASE = 0.2;
+// Extending the term by more than this many months is treated as material
+const MATERIAL_EXTENSION_MONTHS = 12;
+const MAX_TEXT_TERM_LENGTH = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The terms of a contract as it stands, used to snapshot the original version
+ * the first time an amendment is recorded
+ */
+export function baseTermsFromContract(contract: {
+  value?: number;
+  startDate?: string;
+  endDate?: string;
+  extractedStartDate?: string;
+  extractedEndDate?: string;
+  extractedScope?: string;
+  extractedPricing?: string;
+  extractedPaymentSchedule?: string;
+}): ContractTerms {
+  const terms: ContractTerms = {};
+  const startDate = contract.extractedStartDate ?? contract.startDate;
+  const endDate = contract.extractedEndDate ?? contract.endDate;
+
+  if (contract.value !== undefined) terms.value = contract.value;
+  if (startDate) terms.startDate = startDate.slice(0, 10);
+  if (endDate) terms.endDate = endDate.slice(0, 10);
+  if (contract.extractedScope) terms.scope = contract.extractedScope;
+  if (contract.extractedPricing) terms.pricing = contract.extractedPricing;
+  if (contract.extractedPaymentSchedule) terms.paymentSchedule = contract.extractedPaymentSchedule;
+  return terms;
+}
+
+/**
+ * Terms as of the given version: every version up to and including it, in
+ * order, with later versions overriding earlier ones. Void versions never
+ * count, and drafts only count when they are the version being looked at, so
+ * a pending amendment can be previewed against what it would change.
+ */
+export function termsAtVersion(versions: LineageVersion[], versionNumber: number): ContractTerms {
+  return foldTerms(
+    versions.filter(version =>
+      version.versionNumber <= versionNumber &&
+      version.status !== "void" &&
+      (version.status !== "draft" || version.versionNumber === versionNumber)
+    )
+  );
+}
+
+/**
+ * Terms currently in effect: the original plus every amendment that has
+ * taken effect
+ */
+export function currentEffectiveTerms(versions: LineageVersion[]): ContractTerms {
+  return foldTerms(versions.filter(version => version.status === "in_effect"));
+}
+
+/**
+ * Whether an executed version should take effect on the given day
+ */
+export function isDueToTakeEffect(version: Pick<LineageVersion, "status" | "effectiveDate">, now: Date = new Date()): boolean {
+  return version.status === "executed" && version.effectiveDate.slice(0, 10) <= now.toISOString().slice(0, 10);
+}
+
+/**
+ * Field-by-field differences between two sets of terms
+ */
+export function diffTerms(from: ContractTerms, to: ContractTerms): TermChange[] {
+  const changes: TermChange[] = [];
+
+  for (const field of CONTRACT_TERM_FIELDS) {
+    const before = from[field];
+    const after = to[field];
+    if (before === after) continue;
+
+    changes.push({
+      field,
+      label: CONTRACT_TERM_LABELS[field],
+      ...(before !== undefined ? { from: before } : {}),
+      ...(after !== undefined ? { to: after } : {}),
+      type: before === undefined ? "added" : after === undefined ? "removed" : "changed",
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Flag the changes in an amendment that legal should look at: large value
+ * increases, long extensions, an earlier end date and any change to scope,
+ * pricing or payment terms
+ */
+export function assessAmendmentChanges(changes: TermChange[]): AmendmentAssessment {
+  const risks: string[] = [];
+  const recommendations: string[] = [];
+  let score = 0;
+
+  for (const change of changes) {
+    switch (change.field) {
+      case "value": {
+        const before = typeof change.from === "number" ? change.from : undefined;
+        const after = typeof change.to === "number" ? change.to : undefined;
+        if (before !== undefined && after !== undefined && before > 0 && (after - before) / before > MATERIAL_VALUE_INCREASE) {
+          const increase = Math.round(((after - before) / before) * 100);
+          risks.push(`Contract value increases by ${increase}%, above the ${MATERIAL_VALUE_INCREASE * 100}% materiality threshold`);
+          recommendations.push("Confirm budget approval for the increased contract value");
+          score += 2;
+        } else if (before !== undefined && after !== undefined && after < before) {
+          recommendations.push("Check that the reduced value is matched by a reduction in scope or service levels");
+          score += 1;
+        } else {
+          score += 1;
+        }
+        break;
+      }
+      case "endDate": {
+        if (typeof change.from === "string" && typeof change.to === "string") {
+          const months = monthsBetween(change.from, change.to);
+          if (months > MATERIAL_EXTENSION_MONTHS) {
+            risks.push(`Term is extended by about ${months} months, committing the enterprise for longer`);
+            recommendations.push("Confirm renewal and exit rights still apply to the extended term");
+            score += 2;
+          } else if (months < 0) {
+            risks.push("Term is shortened; check termination obligations and any early-exit fees");
+            recommendations.push("Plan the transition before the new end date");
+            score += 2;
+          } else {
+            score += 1;
+          }
+        } else if (change.type === "removed") {
+          risks.push("Amendment removes the end date, leaving the contract open-ended");
+          recommendations.push("Agree a fixed term or a termination-for-convenience right");
+          score += 2;
+        } else {
+          score += 1;
+        }
+        break;
+      }
+      case "scope":
+        risks.push("Scope changes may impact deliverables and timeline");
+        recommendations.push("Confirm deliverables and acceptance criteria for the changed scope");
+        score += 1;
+        break;
+      case "pricing":
+        risks.push("Pricing changes may affect budget and financial commitments");
+        recommendations.push("Review the new pricing against the original commercial terms");
+        score += 1;
+        break;
+      case "paymentSchedule":
+        risks.push("Payment schedule changes affect cash flow and invoicing");
+        recommendations.push("Update invoice approvals to match the new payment schedule");
+        score += 1;
+        break;
+      case "startDate":
+        score += 1;
+        break;
+    }
+  }
+
+  if (changes.length > 0) {
+    recommendations.push("Ensure amendment aligns with organizational policies");
+  }
+
+  return {
+    legalImpact: risks.length === 0 ? "low" : score >= 3 ? "high" : "medium",
+    risks,
+    recommendations: [...new Set(recommendations)],
+  };
+}
+
+/**
+ * Check and tidy the terms an amendment changes. Throws when nothing is
+ * changed or a value is out of range.
+ */
+export function normalizeAmendmentTerms(terms: ContractTerms, options: { requireChange?: boolean } = {}): ContractTerms {
+  const normalized: ContractTerms = {};
+
+  if (terms.value !== undefined) {
+    if (!Number.isFinite(terms.value) || terms.value < 0) {
+      throw new ConvexError("Contract value must be a positive number");
+    }
+    normalized.value = terms.value;
+  }
+
+  for (const field of ["startDate", "endDate"] as const) {
+    const date = terms[field];
+    if (date === undefined) continue;
+    if (Number.isNaN(new Date(date).getTime())) {
+      throw new ConvexError(`${CONTRACT_TERM_LABELS[field]} must be a valid date`);
+    }
+    normalized[field] = date.slice(0, 10);
+  }
+
+  if (normalized.startDate && normalized.endDate && normalized.endDate < normalized.startDate) {
+    throw new ConvexError("End date must be after the start date");
+  }
+
+  for (const field of ["scope", "pricing", "paymentSchedule"] as const) {
+    const text = terms[field]?.trim();
+    if (!text) continue;
+    if (text.length > MAX_TEXT_TERM_LENGTH) {
+      throw new ConvexError(`${CONTRACT_TERM_LABELS[field]} must be ${MAX_TEXT_TERM_LENGTH} characters or fewer`);
+    }
+    normalized[field] = text;
+  }
+
+  if (options.requireChange !== false && Object.keys(normalized).length === 0) {
+    throw new ConvexError("An amendment must change at least one term");
+  }
+
+  return normalized;
+}
+
+function foldTerms(versions: LineageVersion[]): ContractTerms {
+  return [...versions]
+    .sort((a, b) => a.versionNumber - b.versionNumber)
+    .reduce<ContractTerms>((terms, version) => ({ ...terms, ...version.terms }), {});
+}
+
+function monthsBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / (30 * DAY_MS));
+}
@@ -0,0 +1,296 @@
+/**
+ * Audit chain helpers
+ *
+ * Every audit log entry carries the enterprise-wide sequence number it was
+ * written at, the hash of the entry before it and its own hash:
+ *
+ *   hash = SHA-256(canonical JSON of the entry, including sequence and previousHash)
+ *
+ * Editing an entry changes its hash, and deleting one leaves a gap in the
+ * sequence and a previousHash that no longer matches, so verifying the chain
+ * detects both. Exports are signed with HMAC-SHA256 over a manifest that
+ * records the filters, the chain head and a digest of the exported content.
+ *
+ * This module and lib/crypto have no Convex dependencies, so exported JSONL
+ * files can be re-verified with verifyAuditChain outside of Pactwise.
+ */
+
+import { timingSafeEqual, toHex } from "../lib/crypto";
+
+// previousHash of an enterprise's first entry
+export const AUDIT_CHAIN_GENESIS_HASH = "0".repeat(64);
+
+// Fields that are not part of an entry's hashed content
+const UNHASHED_FIELDS = ["_id", "_creationTime", "hash"];
+
+export interface ChainedAuditEntry {
+  _id?: string;
+  sequence: number;
+  previousHash: string;
+  hash: string;
+  [field: string]: unknown;
+}
+
+export interface AuditChainLink {
+  sequence: number;
+  hash: string;
+}
+
+export type AuditChainProblem =
+  | "edited"          // Content no longer matches the entry's hash
+  | "broken_link"     // previousHash does not match the entry before it
+  | "missing_entries" // Sequence numbers were skipped, or the newest entries are gone
+  | "duplicate_sequence"
+  | "head_mismatch";  // The newest entry is not the one the chain head recorded
+
+export interface AuditChainIssue {
+  sequence: number;
+  entryId?: string;
+  problem: AuditChainProblem;
+  detail: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checkedEntries: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  issues: AuditChainIssue[];
+}
+
+export interface VerifyAuditChainOptions {
+  // The entry before the first one checked; hash null when it is missing
+  previous?: { sequence: number; hash: string | null } | null;
+  // The chain head, when the entries run to the end of the chain
+  head?: AuditChainLink | null;
+}
+
+/**
+ * JSON with object keys sorted at every level, so the same content always
+ * hashes the same way regardless of the order fields were written in
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return typeof value === "bigint" ? JSON.stringify(value.toString()) : JSON.stringify(value) ?? "null";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => item === undefined ? "null" : canonicalJson(item)).join(",")}]`;
+  }
+  const entries = Object.entries(value)
+    .filter(([, fieldValue]) => fieldValue !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, fieldValue]) => `${JSON.stringify(key)}:${canonicalJson(fieldValue)}`).join(",")}}`;
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * Hash of an entry's content. The entry must already carry its sequence and
+ * previousHash; _id, _creationTime and hash itself are left out.
+ */
+export async function computeAuditEntryHash(entry: Record<string, unknown>): Promise<string> {
+  const content = Object.fromEntries(
+    Object.entries(entry).filter(([field]) => !UNHASHED_FIELDS.includes(field))
+  );
+  return sha256Hex(canonicalJson(content));
+}
+
+/**
+ * Check a run of entries, ordered by sequence, for edits, gaps and broken
+ * links. Pass the entry before the run to check its first link, and the
+ * chain head when the run ends at the newest entry to detect truncation.
+ */
+export async function verifyAuditChain(
+  entries: ChainedAuditEntry[],
+  options: VerifyAuditChainOptions = {}
+): Promise<AuditChainVerification> {
+  const issues: AuditChainIssue[] = [];
+  let expectedSequence = (options.previous?.sequence ?? 0) + 1;
+  // null when the link cannot be checked because the entry before is missing
+  let expectedPreviousHash: string | null = options.previous
+    ? options.previous.hash
+    : AUDIT_CHAIN_GENESIS_HASH;
+
+  for (const entry of entries) {
+    const entryId = entry._id ? { entryId: entry._id } : {};
+
+    if (entry.sequence < expectedSequence) {
+      issues.push({
+        sequence: entry.sequence,
+        ...entryId,
+        problem: "duplicate_sequence",
+        detail: `Sequence ${entry.sequence} appears more than once`,
+      });
+    } else if (entry.sequence > expectedSequence) {
+      issues.push({
+        sequence: expectedSequence,
+        problem: "missing_entries",
+        detail: entry.sequence - expectedSequence === 1
+          ? `Entry ${expectedSequence} is missing`
+          : `Entries ${expectedSequence} to ${entry.sequence - 1} are missing`,
+      });
+      expectedPreviousHash = null;
+    }
+
+    if (expectedPreviousHash !== null && entry.previousHash !== expectedPreviousHash) {
+      issues.push({
+        sequence: entry.sequence,
+        ...entryId,
+        problem: "broken_link",
+        detail: `Entry ${entry.sequence} does not link to the entry before it`,
+      });
+    }
+
+    if (await computeAuditEntryHash(entry) !== entry.hash) {
+      issues.push({
+        sequence: entry.sequence,
+        ...entryId,
+        problem: "edited",
+        detail: `Entry ${entry.sequence} was changed after it was written`,
+      });
+    }
+
+    expectedSequence = Math.max(expectedSequence, entry.sequence + 1);
+    expectedPreviousHash = entry.hash;
+  }
+
+  const head = options.head;
+  if (head) {
+    const last = entries[entries.length - 1];
+    const lastSequence = last?.sequence ?? options.previous?.sequence ?? 0;
+    if (lastSequence < head.sequence) {
+      issues.push({
+        sequence: lastSequence + 1,
+        problem: "missing_entries",
+        detail: `Entries after ${lastSequence} are missing; the chain head is at ${head.sequence}`,
+      });
+    } else if (last && last.sequence === head.sequence && last.hash !== head.hash) {
+      issues.push({
+        sequence: last.sequence,
+        ...(last._id ? { entryId: last._id } : {}),
+        problem: "head_mismatch",
+        detail: `Entry ${last.sequence} is not the entry the chain head recorded`,
+      });
+    }
+  }
+
+  return {
+    valid: issues.length === 0,
+    checkedEntries: entries.length,
+    firstSequence: entries[0]?.sequence ?? null,
+    lastSequence: entries[entries.length - 1]?.sequence ?? null,
+    issues,
+  };
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export type AuditExportFormat = "jsonl" | "csv";
+
+export interface AuditExportFilters {
+  userId?: string;
+  resourceType?: string;
+  resourceId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface AuditExportManifest {
+  enterpriseId: string;
+  format: AuditExportFormat;
+  filters: AuditExportFilters;
+  entryCount: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  chainHead: AuditChainLink | null;
+  contentSha256: string;
+  exportedAt: string;
+  exportedBy: string;
+}
+
+export const AUDIT_EXPORT_SIGNATURE_ALGORITHM = "HMAC-SHA256";
+
+const CSV_COLUMNS = [
+  "sequence",
+  "timestamp",
+  "userId",
+  "operation",
+  "resourceType",
+  "resourceId",
+  "action",
+  "status",
+  "errorMessage",
+  "ipAddress",
+  "userAgent",
+  "changes",
+  "metadata",
+  "previousHash",
+  "hash",
+] as const;
+
+/**
+ * One canonical JSON entry per line, with everything needed to re-verify the
+ * chain for a contiguous export
+ */
+export function toAuditJsonl(entries: ChainedAuditEntry[]): string {
+  return entries
+    .map(entry => canonicalJson(Object.fromEntries(Object.entries(entry).filter(([field]) => field !== "_creationTime"))))
+    .join("\n");
+}
+
+export function toAuditCsv(entries: ChainedAuditEntry[]): string {
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => {
+    const value = entry[column];
+    if (value === undefined || value === null) return "";
+    return escapeCsv(typeof value === "object" ? canonicalJson(value) : String(value));
+  }).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+}
+
+export async function signAuditExport(secret: string, manifest: AuditExportManifest): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(canonicalJson(manifest)));
+  return toHex(new Uint8Array(signature));
+}
+
+export type AuditExportVerification =
+  | { valid: true }
+  | { valid: false; error: string };
+
+/**
+ * Check that exported content is the content the manifest describes and that
+ * the manifest carries a signature made with the secret
+ */
+export async function verifyAuditExport(
+  secret: string,
+  exported: { content: string; manifest: AuditExportManifest; signature: string }
+): Promise<AuditExportVerification> {
+  if (await sha256Hex(exported.content) !== exported.manifest.contentSha256) {
+    return { valid: false, error: "Content does not match the export manifest" };
+  }
+  const expected = await signAuditExport(secret, exported.manifest);
+  if (!timingSafeEqual(expected, exported.signature.toLowerCase())) {
+    return { valid: false, error: "Signature does not match" };
+  }
+  return { valid: true };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,240 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, mutation } from "../_generated/server";
+import { Doc } from "../_generated/dataModel";
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
+import { appendAuditLog } from "../auditLogging";
+import {
+  AUDIT_EXPORT_SIGNATURE_ALGORITHM,
+  AuditExportFilters,
+  AuditExportManifest,
+  ChainedAuditEntry,
+  sha256Hex,
+  signAuditExport,
+  toAuditCsv,
+  toAuditJsonl,
+  verifyAuditChain,
+  verifyAuditExport,
+} from "./auditChain";
+
+/**
+ * Audit chain verification and signed exports
+ *
+ * Entries written before the chain existed carry no sequence and are neither
+ * verified nor exported here.
+ */
+
+// Entries checked per verifyAuditLog call; callers page with afterSequence
+const VERIFY_BATCH_SIZE = 1000;
+
+const MAX_EXPORT_ENTRIES = 5000;
+
+function getSigningSecret(): string {
+  const secret = process.env.AUDIT_EXPORT_SIGNING_SECRET;
+  if (!secret) {
+    throw new ConvexError("Audit export signing is not configured: set AUDIT_EXPORT_SIGNING_SECRET");
+  }
+  return secret;
+}
+
+function toChainedEntry(entry: Doc<"auditLogs">): ChainedAuditEntry {
+  return {
+    ...entry,
+    sequence: entry.sequence!,
+    previousHash: entry.previousHash!,
+    hash: entry.hash!,
+  };
+}
+
+/**
+ * Verify the enterprise's audit chain from afterSequence on. Returns the
+ * sequence to continue from when more entries remain, so a full check walks
+ * the chain in batches.
+ */
+export const verifyAuditLog = query({
+  args: {
+    afterSequence: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "audit.read");
+
+    const head = await ctx.db
+      .query("auditChainHeads")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+      .unique();
+    // Entries removed by retention can't be checked; the chain resumes from
+    // the hash of the last one removed
+    const prunedThrough = head?.prunedThrough;
+    const afterSequence = Math.max(args.afterSequence ?? 0, prunedThrough?.sequence ?? 0);
+
+    const entries = await ctx.db
+      .query("auditLogs")
+      .withIndex("by_enterprise_sequence", (q) =>
+        q.eq("enterpriseId", securityContext.enterpriseId).gt("sequence", afterSequence))
+      .take(VERIFY_BATCH_SIZE + 1);
+    const batch = entries.slice(0, VERIFY_BATCH_SIZE);
+    const hasMore = entries.length > VERIFY_BATCH_SIZE;
+
+    const previous = afterSequence > 0 && afterSequence !== prunedThrough?.sequence
+      ? await ctx.db
+          .query("auditLogs")
+          .withIndex("by_enterprise_sequence", (q) =>
+            q.eq("enterpriseId", securityContext.enterpriseId).eq("sequence", afterSequence))
+          .first()
+      : null;
+
+    const verification = await verifyAuditChain(batch.map(toChainedEntry), {
+      previous: afterSequence > 0
+        ? { sequence: afterSequence, hash: afterSequence === prunedThrough?.sequence ? prunedThrough.hash : previous?.hash ?? null }
+        : null,
+      // Only the last batch runs up to the head
+      head: !hasMore && head ? { sequence: head.sequence, hash: head.hash } : null,
+    });
+
+    return {
+      ...verification,
+      headSequence: head?.sequence ?? 0,
+      prunedThroughSequence: prunedThrough?.sequence ?? 0,
+      nextSequence: hasMore ? batch[batch.length - 1]!.sequence : null,
+      verifiedAt: new Date().toISOString(),
+    };
+  },
+});
+
+/**
+ * Export audit entries as JSONL or CSV, filtered by actor, resource and time
+ * range, with a signed manifest. The export itself is recorded in the chain.
+ */
+export const exportAuditLog = mutation({
+  args: {
+    format: v.union(v.literal("jsonl"), v.literal("csv")),
+    userId: v.optional(v.id("users")),
+    resourceType: v.optional(v.string()),
+    resourceId: v.optional(v.string()),
+    startDate: v.optional(v.string()),
+    endDate: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "audit.read");
+    const secret = getSigningSecret();
+
+    if (args.startDate && args.endDate && args.startDate > args.endDate) {
+      throw new ConvexError("Start date must be before end date");
+    }
+
+    const entries = await ctx.db
+      .query("auditLogs")
+      .withIndex("by_enterprise_sequence", (q) =>
+        q.eq("enterpriseId", securityContext.enterpriseId).gt("sequence", 0))
+      .filter((q) => q.and(
+        args.userId ? q.eq(q.field("userId"), args.userId) : true,
+        args.resourceType ? q.eq(q.field("resourceType"), args.resourceType) : true,
+        args.resourceId ? q.eq(q.field("resourceId"), args.resourceId) : true,
+        args.startDate ? q.gte(q.field("timestamp"), args.startDate) : true,
+        args.endDate ? q.lte(q.field("timestamp"), args.endDate) : true,
+      ))
+      .take(MAX_EXPORT_ENTRIES + 1);
+    if (entries.length > MAX_EXPORT_ENTRIES) {
+      throw new ConvexError(`Exports are limited to ${MAX_EXPORT_ENTRIES} entries; narrow the filters or time range`);
+    }
+
+    const chained = entries.map(toChainedEntry);
+    const content = args.format === "jsonl" ? toAuditJsonl(chained) : toAuditCsv(chained);
+    const head = await ctx.db
+      .query("auditChainHeads")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+      .unique();
+
+    const filters: AuditExportFilters = {
+      ...(args.userId ? { userId: args.userId } : {}),
+      ...(args.resourceType ? { resourceType: args.resourceType } : {}),
+      ...(args.resourceId ? { resourceId: args.resourceId } : {}),
+      ...(args.startDate ? { startDate: args.startDate } : {}),
+      ...(args.endDate ? { endDate: args.endDate } : {}),
+    };
+    const exportedAt = new Date().toISOString();
+    const manifest: AuditExportManifest = {
+      enterpriseId: securityContext.enterpriseId,
+      format: args.format,
+      filters,
+      entryCount: chained.length,
+      firstSequence: chained[0]?.sequence ?? null,
+      lastSequence: chained[chained.length - 1]?.sequence ?? null,
+      chainHead: head ? { sequence: head.sequence, hash: head.hash } : null,
+      contentSha256: await sha256Hex(content),
+      exportedAt,
+      exportedBy: securityContext.userId,
+    };
+    const signature = await signAuditExport(secret, manifest);
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "exportAuditLog",
+      resourceType: "auditLogs",
+      action: "export",
+      status: "success",
+      timestamp: exportedAt,
+      metadata: { format: args.format, filters, entryCount: chained.length, contentSha256: manifest.contentSha256 },
+    });
+
+    return {
+      filename: `audit-log-${exportedAt.slice(0, 10)}.${args.format}`,
+      content,
+      manifest,
+      signature,
+      algorithm: AUDIT_EXPORT_SIGNATURE_ALGORITHM,
+    };
+  },
+});
+
+/**
+ * Check that an export was produced by this deployment and not altered since
+ */
+export const verifyAuditLogExport = query({
+  args: {
+    content: v.string(),
+    manifest: v.any(),
+    signature: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "audit.read");
+
+    const manifest = args.manifest as AuditExportManifest;
+    if (manifest?.enterpriseId !== securityContext.enterpriseId) {
+      return { valid: false as const, error: "Export belongs to a different organization" };
+    }
+    return await verifyAuditExport(getSigningSecret(), {
+      content: args.content,
+      manifest,
+      signature: args.signature,
+    });
+  },
+});
+
+/**
+ * The enterprise's users, for filtering and exporting by actor
+ */
+export const getAuditActors = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "audit.read");
+
+    const users = await ctx.db
+      .query("users")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+      .collect();
+
+    return users
+      .map(user => ({
+        _id: user._id,
+        name: [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email,
+        email: user.email,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
@@ -1,6 +1,7 @@
 import { v } from "convex/values";
 import { mutation, query } from "../_generated/server";
 import { Doc, Id } from "../_generated/dataModel";
+import { appendAuditLog } from "../auditLogging";
 
 // Audit log types
 export const AuditEventTypes = {
@@ -70,17 +71,17 @@ export const createAuditLog = mutation({
       throw new Error("User not found");
     }
 
-    const auditLog = await ctx.db.insert("auditLogs", {
+    const auditLog = await appendAuditLog(ctx, {
       timestamp: new Date().toISOString(),
       userId: user._id,
       enterpriseId: user.enterpriseId,
       operation: args.eventType,
       resourceType: args.entityType,
-      resourceId: args.entityId,
+      ...(args.entityId !== undefined ? { resourceId: args.entityId } : {}),
       action: args.action as "create" | "read" | "update" | "delete" | "export" | "share" | "approve" | "reject",
       status: "success",
-      ipAddress: args.ipAddress,
-      userAgent: args.userAgent,
+      ...(args.ipAddress !== undefined ? { ipAddress: args.ipAddress } : {}),
+      ...(args.userAgent !== undefined ? { userAgent: args.userAgent } : {}),
       metadata: {
         userEmail: identity.email,
         userName: `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email,
@@ -197,7 +198,7 @@ export const exportAuditLogs = query({
     // Note: In a real implementation, you would log this export action via a mutation
     // For now, we'll skip logging the export itself to avoid the query/mutation issue
     
-    // await ctx.db.insert("auditLogs", {
+    // await appendAuditLog(ctx, {
     //   timestamp: new Date().toISOString(),
     //   userId: user._id,
     //   enterpriseId: user.enterpriseId,
@@ -1,9 +1,12 @@
 import { v } from "convex/values";
 import { mutation, query, action, internalMutation } from "../_generated/server";
 import { ConvexError } from "convex/values";
-import { getSecurityContext } from "../security/rowLevelSecurity";
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
 import { api } from "../_generated/api";
-import { Id } from "../_generated/dataModel";
+import { Doc, Id } from "../_generated/dataModel";
+import { appendAuditLog } from "../auditLogging";
+import { getActiveLegalHolds, recordHoldRefusal } from "../legalHolds/legalHolds";
+import { describeBlockingHolds, findBlockingHolds } from "../legalHolds/legalHoldRules";
 
 // Backup types
 export const BackupTypes = {
@@ -96,10 +99,7 @@ export const createBackupRecord = mutation({
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can create backups
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "backups.manage");
 
     const backupId = await ctx.db.insert("backups", {
       enterpriseId: securityContext.enterpriseId,
@@ -115,7 +115,7 @@ export const createBackupRecord = mutation({
     });
 
     // Log the backup creation
-    await ctx.db.insert("auditLogs", {
+    await appendAuditLog(ctx, {
       userId: securityContext.userId,
       enterpriseId: securityContext.enterpriseId,
       operation: "createBackup",
@@ -167,10 +167,7 @@ export const listBackups = query({
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can view backups
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "backups.manage");
 
     let backups = await ctx.db
       .query("backups")
@@ -205,10 +202,7 @@ export const getBackupDetails = query({
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can view backups
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "backups.manage");
 
     const backup = await ctx.db.get(args.backupId);
     if (!backup) {
@@ -323,7 +317,31 @@ export const deleteOldBackups = internalMutation({
       .filter((q) => q.lt(q.field("createdAt"), cutoffDate.toISOString()))
       .collect();
 
+    // Backups can hold copies of records under legal hold, so held ones stay
+    const holdsByEnterprise = new Map<Id<"enterprises">, Doc<"legalHolds">[]>();
+    let deletedCount = 0;
+    let heldCount = 0;
+
     for (const backup of oldBackups) {
+      let holds = holdsByEnterprise.get(backup.enterpriseId);
+      if (!holds) {
+        holds = await getActiveLegalHolds(ctx, backup.enterpriseId);
+        holdsByEnterprise.set(backup.enterpriseId, holds);
+      }
+      const blocking = findBlockingHolds(holds, { snapshotAt: backup.createdAt });
+      if (blocking.length > 0) {
+        await recordHoldRefusal(ctx, blocking, {
+          operation: "deleteOldBackups",
+          action: "delete",
+          resourceType: "backups",
+          resourceId: backup._id,
+          errorMessage: describeBlockingHolds("delete this backup", blocking),
+          metadata: { retentionDays: args.retentionDays },
+        });
+        heldCount++;
+        continue;
+      }
+
       // Delete backup data from storage if exists
       if (backup.storageId) {
         try {
@@ -334,9 +352,10 @@ export const deleteOldBackups = internalMutation({
       }
 
       await ctx.db.delete(backup._id);
+      deletedCount++;
     }
 
-    return { deletedCount: oldBackups.length };
+    return { deletedCount, heldCount };
   },
 });
 
@@ -408,10 +427,7 @@ export const getBackupSchedule = query({
   handler: async (ctx) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can view backup schedule
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "backups.manage");
 
     const schedule = await ctx.db
       .query("backupSchedules")
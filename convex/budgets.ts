@@ -1,8 +1,20 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import { getSecurityContext } from "./security/rowLevelSecurity";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import {
+  budgetResource,
+  getDepartmentScope,
+  getSecurityContext,
+  hasScopedPermission,
+  requirePermission,
+} from "./security/rowLevelSecurity";
 import { ConvexError } from "convex/values";
 import { Id } from "./_generated/dataModel";
+import { emitWebhookEvent } from "./integrations/webhookEvents";
+import { CurrencyConverter } from "./currency/fxRates";
+import { ConvertedAmount, normalizeCurrency } from "./currency/currencyConversion";
+import { assertEnterpriseDepartment, resolveDepartment } from "./departments";
+import { refreshBudgetForecast } from "./forecasting/forecasts";
+import { appendAuditLog } from "./auditLogging";
 
 // Create a new budget
 export const createBudget = mutation({
@@ -15,8 +27,9 @@ export const createBudget = mutation({
       v.literal("project"),
       v.literal("department")
     ),
-    departmentId: v.optional(v.string()),
+    departmentId: v.optional(v.id("departments")),
     totalBudget: v.number(),
+    currency: v.optional(v.string()),
     startDate: v.string(),
     endDate: v.string(),
     description: v.optional(v.string()),
@@ -24,17 +37,27 @@ export const createBudget = mutation({
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only managers and above can create budgets
-    if (!["owner", "admin", "manager"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Manager access required");
+    requirePermission(securityContext, "budgets.edit", {
+      type: "budget",
+      ...(args.departmentId ? { departmentId: args.departmentId } : {}),
+    });
+
+    if (args.departmentId) {
+      await assertEnterpriseDepartment(ctx, securityContext.enterpriseId, args.departmentId);
     }
 
+    // Budgets default to the enterprise's reporting currency
+    const currency = args.currency
+      ? normalizeCurrency(args.currency)
+      : await new CurrencyConverter(ctx).reportingCurrency(securityContext.enterpriseId);
+
     const budgetId = await ctx.db.insert("budgets", {
       enterpriseId: securityContext.enterpriseId,
       name: args.name,
       budgetType: args.budgetType,
-      departmentId: args.departmentId,
+      ...(args.departmentId ? { departmentId: args.departmentId } : {}),
       totalBudget: args.totalBudget,
+      currency,
       allocatedAmount: 0,
       spentAmount: 0,
       committedAmount: 0,
@@ -46,7 +69,7 @@ export const createBudget = mutation({
     });
 
     // Log the creation
-    await ctx.db.insert("auditLogs", {
+    await appendAuditLog(ctx, {
       userId: securityContext.userId,
       enterpriseId: securityContext.enterpriseId,
       operation: "createBudget",
@@ -89,18 +112,29 @@ export const getBudgets = query({
       }
     }
 
+    // Managers and scoped roles only see budgets of their departments, plus
+    // any shared with them
+    const scope = await getDepartmentScope(ctx, securityContext);
+    budgets = budgets.filter(b => hasScopedPermission(securityContext, scope, "budgets.read", budgetResource(b)));
+
+    const converter = new CurrencyConverter(ctx);
+    const reportingCurrency = await converter.reportingCurrency(securityContext.enterpriseId);
+
     // Enrich with department names
     const enrichedBudgets = await Promise.all(
       budgets.map(async (budget) => {
-        let departmentName;
-        if (budget.departmentId) {
-          // Mock department name - in production, fetch from departments table
-          departmentName = `Department ${budget.departmentId}`;
-        }
+        const department = await resolveDepartment(ctx, budget.enterpriseId, budget.departmentId);
+        const departmentName = department?.name ?? budget.departmentId;
+
+        const currency = budget.currency ?? reportingCurrency;
+        const converted = await converter.toReporting(budget.enterpriseId, budget.totalBudget, currency);
 
         return {
           ...budget,
+          currency,
           departmentName,
+          reportingCurrency,
+          totalBudgetInReportingCurrency: converted?.amount,
         };
       })
     );
@@ -121,24 +155,36 @@ export const getBudgetSummary = query({
       .filter((q) => q.neq(q.field("status"), "closed"))
       .collect();
 
-    const summary = budgets.reduce((acc, budget) => {
-      acc.totalBudget += budget.totalBudget;
-      acc.totalAllocated += budget.allocatedAmount;
-      acc.totalSpent += budget.spentAmount;
-      acc.totalCommitted += budget.committedAmount;
-      
-      if (budget.status === "at_risk" || budget.status === "exceeded") {
-        acc.budgetsAtRisk++;
-      }
-      
-      return acc;
-    }, {
+    // Totals are in the reporting currency; budgets without a rate are
+    // counted separately rather than summed at face value
+    const converter = new CurrencyConverter(ctx);
+    const reportingCurrency = await converter.reportingCurrency(securityContext.enterpriseId);
+    const summary = {
       totalBudget: 0,
       totalAllocated: 0,
       totalSpent: 0,
       totalCommitted: 0,
       budgetsAtRisk: 0,
-    });
+      reportingCurrency,
+      unconvertedBudgets: 0,
+    };
+
+    for (const budget of budgets) {
+      if (budget.status === "at_risk" || budget.status === "exceeded") {
+        summary.budgetsAtRisk++;
+      }
+
+      const conversion = await converter.toReporting(budget.enterpriseId, 1, budget.currency ?? reportingCurrency);
+      if (!conversion) {
+        summary.unconvertedBudgets++;
+        continue;
+      }
+
+      summary.totalBudget += budget.totalBudget * conversion.rate;
+      summary.totalAllocated += budget.allocatedAmount * conversion.rate;
+      summary.totalSpent += budget.spentAmount * conversion.rate;
+      summary.totalCommitted += budget.committedAmount * conversion.rate;
+    }
 
     return summary;
   },
@@ -162,6 +208,8 @@ export const getBudgetAllocations = query({
       .withIndex("by_budget", (q) => q.eq("budgetId", args.budgetId))
       .collect();
 
+    const budgetCurrency = budget.currency ?? await new CurrencyConverter(ctx).reportingCurrency(budget.enterpriseId);
+
     // Enrich with contract details
     const enrichedAllocations = await Promise.all(
       allocations.map(async (allocation) => {
@@ -173,6 +221,7 @@ export const getBudgetAllocations = query({
 
         return {
           ...allocation,
+          currency: budgetCurrency,
           contractTitle: contract?.title || "Unknown Contract",
           contractStatus: contract?.status || "unknown",
           vendorName: vendor?.name,
@@ -224,7 +273,27 @@ export const getBudgetAnalytics = query({
       { name: "Other", amount: budget.spentAmount * 0.1, percentage: 10 },
     ];
 
+    // Figures above are in the budget's currency; the same figures in the
+    // reporting currency let budgets in different currencies be compared
+    const converter = new CurrencyConverter(ctx);
+    const reportingCurrency = await converter.reportingCurrency(budget.enterpriseId);
+    const currency = budget.currency ?? reportingCurrency;
+    const conversion = await converter.toReporting(budget.enterpriseId, 1, currency);
+
     return {
+      currency,
+      reportingCurrency,
+      converted: conversion
+        ? {
+            rate: conversion.rate,
+            rateDate: conversion.rateDate,
+            totalBudget: budget.totalBudget * conversion.rate,
+            spentAmount: budget.spentAmount * conversion.rate,
+            remainingBudget: remainingBudget * conversion.rate,
+            projectedTotal: projectedTotal * conversion.rate,
+            monthlyBurnRate: monthlyBurnRate * conversion.rate,
+          }
+        : null,
       burnRate: {
         daily: dailyBurnRate,
         weekly: weeklyBurnRate,
@@ -245,24 +314,44 @@ export const allocateContractsToBudget = mutation({
     allocations: v.array(v.object({
       contractId: v.id("contracts"),
       allocatedAmount: v.number(),
+      // Currency of allocatedAmount; defaults to the contract's currency
+      currency: v.optional(v.string()),
       allocationType: v.union(v.literal("full"), v.literal("prorated"), v.literal("custom")),
     })),
   },
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only managers and above can allocate budgets
-    if (!["owner", "admin", "manager"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Manager access required");
-    }
-
     const budget = await ctx.db.get(args.budgetId);
     if (!budget || budget.enterpriseId !== securityContext.enterpriseId) {
       throw new ConvexError("Budget not found");
     }
+    requirePermission(securityContext, "budgets.edit", budgetResource(budget));
+
+    const converter = new CurrencyConverter(ctx);
+    const budgetCurrency = budget.currency ?? await converter.reportingCurrency(budget.enterpriseId);
+
+    // Convert each allocation into the budget's currency before checking it fits
+    const converted: Array<{ allocation: (typeof args.allocations)[number]; conversion: ConvertedAmount }> = [];
+    for (const allocation of args.allocations) {
+      const contract = await ctx.db.get(allocation.contractId);
+      if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
+        throw new ConvexError("Contract not found");
+      }
+
+      const currency = allocation.currency
+        ? normalizeCurrency(allocation.currency)
+        : await converter.contractCurrency(contract);
+      const conversion = await converter.convert(budget.enterpriseId, allocation.allocatedAmount, currency, budgetCurrency);
+      if (!conversion) {
+        throw new ConvexError(`No exchange rate from ${currency} to ${budgetCurrency}. Import FX rates first.`);
+      }
+
+      converted.push({ allocation, conversion });
+    }
 
     // Calculate total allocation
-    const totalAllocation = args.allocations.reduce((sum, a) => sum + a.allocatedAmount, 0);
+    const totalAllocation = converted.reduce((sum, { conversion }) => sum + conversion.amount, 0);
     const newTotalAllocated = budget.allocatedAmount + totalAllocation;
 
     if (newTotalAllocated > budget.totalBudget) {
@@ -270,16 +359,18 @@ export const allocateContractsToBudget = mutation({
     }
 
     // Create allocations
-    for (const allocation of args.allocations) {
-      const contract = await ctx.db.get(allocation.contractId);
-      if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
-        throw new ConvexError("Contract not found");
-      }
-
+    for (const { allocation, conversion } of converted) {
       await ctx.db.insert("contractBudgetAllocations", {
         contractId: allocation.contractId,
         budgetId: args.budgetId,
-        allocatedAmount: allocation.allocatedAmount,
+        allocatedAmount: conversion.amount,
+        ...(conversion.originalCurrency !== budgetCurrency
+          ? {
+              originalAmount: conversion.originalAmount,
+              originalCurrency: conversion.originalCurrency,
+              fxRate: conversion.rate,
+            }
+          : {}),
         allocationType: allocation.allocationType,
         startDate: budget.startDate,
         endDate: budget.endDate,
@@ -292,6 +383,9 @@ export const allocateContractsToBudget = mutation({
       allocatedAmount: newTotalAllocated,
     });
 
+    // Spend already invoiced on these contracts now counts against the budget
+    await recomputeBudgetSpend(ctx, args.budgetId, converter);
+
     // Check and update budget status
     await checkBudgetStatus(ctx, args.budgetId);
 
@@ -316,6 +410,7 @@ export const removeContractAllocation = mutation({
     if (!budget || budget.enterpriseId !== securityContext.enterpriseId) {
       throw new ConvexError("Access denied");
     }
+    requirePermission(securityContext, "budgets.edit", budgetResource(budget));
 
     // Update budget allocated amount
     await ctx.db.patch(allocation.budgetId, {
@@ -325,6 +420,9 @@ export const removeContractAllocation = mutation({
     // Delete allocation
     await ctx.db.delete(args.allocationId);
 
+    // Drop the contract's spend from the budget
+    await recomputeBudgetSpend(ctx, allocation.budgetId);
+
     return { success: true };
   },
 });
@@ -370,15 +468,25 @@ export const getUnallocatedContracts = query({
       return contractStart <= budgetEnd && contractEnd >= budgetStart;
     });
 
-    // Enrich with vendor names
+    const converter = new CurrencyConverter(ctx);
+    const budgetCurrency = budget.currency ?? await converter.reportingCurrency(budget.enterpriseId);
+
+    // Enrich with vendor names and the value in the budget's currency
     const enrichedContracts = await Promise.all(
       unallocatedContracts.map(async (contract) => {
         let vendor;
         if (contract.vendorId) {
           vendor = await ctx.db.get(contract.vendorId);
         }
+        const currency = await converter.contractCurrency(contract);
+        const converted = contract.value !== undefined
+          ? await converter.convert(contract.enterpriseId, contract.value, currency, budgetCurrency)
+          : null;
         return {
           ...contract,
+          currency,
+          budgetCurrency,
+          valueInBudgetCurrency: converted?.amount,
           vendorName: vendor?.name,
         };
       })
@@ -401,15 +509,11 @@ export const updateBudget = mutation({
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only managers and above can update budgets
-    if (!["owner", "admin", "manager"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Manager access required");
-    }
-
     const budget = await ctx.db.get(args.budgetId);
     if (!budget || budget.enterpriseId !== securityContext.enterpriseId) {
       throw new ConvexError("Budget not found");
     }
+    requirePermission(securityContext, "budgets.edit", budgetResource(budget));
 
     await ctx.db.patch(args.budgetId, {
       ...args.updates,
@@ -419,6 +523,9 @@ export const updateBudget = mutation({
     // Check and update budget status
     await checkBudgetStatus(ctx, args.budgetId);
 
+    // A new total moves the projected overrun
+    await refreshBudgetForecast(ctx, args.budgetId);
+
     return { success: true };
   },
 });
@@ -452,22 +559,85 @@ export const acknowledgeAlert = mutation({
   },
 });
 
-// Get departments (mock implementation)
-export const getDepartments = query({
-  args: {},
-  handler: async (ctx) => {
-    const securityContext = await getSecurityContext(ctx);
-    
-    // Mock departments - in production, fetch from departments table
-    return [
-      { _id: "dept1", name: "Engineering" },
-      { _id: "dept2", name: "Marketing" },
-      { _id: "dept3", name: "Sales" },
-      { _id: "dept4", name: "Operations" },
-      { _id: "dept5", name: "Finance" },
-    ];
-  },
-});
+/**
+ * Recompute a budget's spent and committed amounts from the matched spend of
+ * its allocated contracts within the budget period: invoices are spent, and
+ * purchase orders not yet invoiced against are committed. Amounts are
+ * converted into the budget currency as of each document's date; documents
+ * without a rate are left out and counted. The budget's forecast is
+ * refreshed afterwards.
+ */
+export async function recomputeBudgetSpend(
+  ctx: MutationCtx,
+  budgetId: Id<"budgets">,
+  converter: CurrencyConverter = new CurrencyConverter(ctx)
+): Promise<{ spentAmount: number; committedAmount: number; unconverted: number }> {
+  const budget = await ctx.db.get(budgetId);
+  if (!budget) return { spentAmount: 0, committedAmount: 0, unconverted: 0 };
+
+  const budgetCurrency = budget.currency ?? await converter.reportingCurrency(budget.enterpriseId);
+  const periodStart = budget.startDate.slice(0, 10);
+  const periodEnd = budget.endDate.slice(0, 10);
+
+  const allocations = await ctx.db
+    .query("contractBudgetAllocations")
+    .withIndex("by_budget", (q) => q.eq("budgetId", budgetId))
+    .collect();
+  const contractIds = [...new Set(allocations.map(allocation => allocation.contractId))];
+
+  let spentAmount = 0;
+  let unconverted = 0;
+  const orderedByPo = new Map<string, number>();
+  const invoicedByPo = new Map<string, number>();
+
+  for (const contractId of contractIds) {
+    const records = await ctx.db
+      .query("spendRecords")
+      .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+      .collect();
+
+    for (const record of records) {
+      if (record.spendDate < periodStart || record.spendDate > periodEnd) continue;
+
+      const conversion = await converter.convert(budget.enterpriseId, record.amount, record.currency, budgetCurrency, record.spendDate);
+      if (!conversion) {
+        unconverted++;
+        continue;
+      }
+
+      if (record.type === "invoice") {
+        spentAmount += conversion.amount;
+        if (record.poNumber) {
+          invoicedByPo.set(record.poNumber, (invoicedByPo.get(record.poNumber) ?? 0) + conversion.amount);
+        }
+      } else {
+        orderedByPo.set(record.documentNumber, (orderedByPo.get(record.documentNumber) ?? 0) + conversion.amount);
+      }
+    }
+  }
+
+  let committedAmount = 0;
+  for (const [poNumber, ordered] of orderedByPo) {
+    committedAmount += Math.max(0, ordered - (invoicedByPo.get(poNumber) ?? 0));
+  }
+
+  spentAmount = Math.round(spentAmount * 100) / 100;
+  committedAmount = Math.round(committedAmount * 100) / 100;
+
+  if (spentAmount !== budget.spentAmount || committedAmount !== budget.committedAmount) {
+    await ctx.db.patch(budgetId, {
+      spentAmount,
+      committedAmount,
+      updatedAt: new Date().toISOString(),
+    });
+    await checkBudgetStatus(ctx, budgetId);
+  }
+
+  // Allocations change scheduled payments even when spend is unchanged
+  await refreshBudgetForecast(ctx, budgetId, converter);
+
+  return { spentAmount, committedAmount, unconverted };
+}
 
 // Helper function to check and update budget status
 async function checkBudgetStatus(ctx: any, budgetId: Id<"budgets">) {
@@ -513,4 +683,23 @@ async function checkBudgetStatus(ctx: any, budgetId: Id<"budgets">) {
       alerts,
     });
   }
+
+  // One event per newly raised alert; re-checks with an unacknowledged alert stay quiet
+  for (const alert of alerts.slice((budget.alerts || []).length)) {
+    await emitWebhookEvent(ctx, {
+      type: "analytics.threshold_exceeded",
+      enterpriseId: budget.enterpriseId,
+      data: {
+        budgetId,
+        name: budget.name,
+        alertType: alert.type,
+        threshold: alert.threshold,
+        totalBudget: budget.totalBudget,
+        spentAmount: budget.spentAmount,
+        allocatedAmount: budget.allocatedAmount,
+        status: newStatus,
+      },
+      ...(newStatus !== budget.status ? { previous: { status: budget.status } } : {}),
+    });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,369 @@
+import { ConvexError, Infer } from "convex/values";
+import { ClauseDeviationStatus, RiskLevel, clauseFallbackValidator } from "../schema";
+
+/**
+ * Clause library comparison
+ *
+ * Pure rules behind the clause library: locating a library clause in contract
+ * text, comparing extracted language with the standard clause and its approved
+ * fallbacks, and the keyword/criticality lookups the legal agent and contract
+ * analyzer use. Kept free of database access so the rules can be unit tested.
+ */
+
+export type ClauseFallback = Infer<typeof clauseFallbackValidator>;
+
+// The parts of a clause library entry the comparison reasons about
+export interface ClauseLibraryRule {
+  clauseType: string;
+  title: string;
+  standardText: string;
+  fallbacks: ClauseFallback[];
+  keywords: string[];
+  isCritical: boolean;
+  contractTypes: string[];
+  isActive?: boolean;
+}
+
+export interface ClauseComparison {
+  status: ClauseDeviationStatus;
+  similarity: number;
+  riskLevel: RiskLevel;
+  matchedFallbackRank?: number;
+  suggestedFallback?: ClauseFallback;
+  recommendations: string[];
+}
+
+// Similarity at or above which language counts as the standard clause or a fallback
+export const STANDARD_MATCH_THRESHOLD = 0.8;
+export const FALLBACK_MATCH_THRESHOLD = 0.75;
+
+// Keyword lists used when the enterprise library has no entry for a clause type
+export const DEFAULT_CLAUSE_KEYWORDS: Record<string, string[]> = {
+  termination: ["terminate", "termination", "end", "expiry", "expire", "cancel"],
+  indemnification: ["indemnify", "indemnification", "hold harmless", "defend"],
+  limitation_of_liability: ["limitation of liability", "liability cap", "liability", "limitation", "exclude", "damages"],
+  confidentiality: ["confidentiality", "confidential", "non-disclosure", "proprietary"],
+  intellectual_property: ["intellectual property", "ip", "copyright", "trademark", "patent"],
+  payment_terms: ["payment terms", "payment", "invoice", "due", "billing", "payment schedule"],
+  dispute_resolution: ["dispute resolution", "dispute", "arbitration", "mediation", "litigation"],
+  force_majeure: ["force majeure", "act of god", "unforeseeable"],
+  governing_law: ["governing law", "jurisdiction", "applicable law"],
+  warranties: ["warranty", "warrants", "guarantee", "representation"],
+  data_protection: ["data protection", "privacy", "gdpr", "personal data"],
+  compliance: ["compliance", "regulatory", "regulations", "standards", "certification"],
+  service_level: ["service level", "sla", "uptime", "availability"],
+  return_of_information: ["return", "destroy", "delete", "confidential information"],
+  term_duration: ["term", "duration", "period", "expires"],
+  remedies: ["remedies", "damages", "injunction", "specific performance"],
+  compensation: ["compensation", "salary", "wage", "payment"],
+  non_compete: ["non-compete", "non-competition", "restraint of trade"],
+  benefits: ["benefits", "insurance", "vacation", "health"],
+  profit_sharing: ["profit sharing", "profits", "revenue sharing"],
+  decision_making: ["decision making", "voting", "management", "control"],
+  liability: ["liability", "responsible", "damages", "indemnification"],
+  scope_of_work: ["scope of work", "deliverables", "services", "work"],
+};
+
+// Clause types treated as critical when the library has no entry for them
+export const DEFAULT_CRITICAL_CLAUSES = [
+  "termination",
+  "indemnification",
+  "limitation_of_liability",
+  "intellectual_property",
+  "data_protection",
+  "governing_law",
+  "confidentiality",
+];
+
+/**
+ * Starting library installed for an enterprise on request: the clause types the
+ * legal team reviews on every contract, with fallbacks ranked by preference
+ */
+export const DEFAULT_CLAUSE_LIBRARY: Array<Omit<ClauseLibraryRule, "isActive"> & { description: string }> = [
+  {
+    clauseType: "limitation_of_liability",
+    title: "Limitation of Liability",
+    description: "Caps each party's aggregate liability and excludes indirect losses.",
+    standardText:
+      "Except for breaches of confidentiality, indemnification obligations, or gross negligence, each party's total aggregate liability arising out of or relating to this Agreement shall not exceed the fees paid or payable under this Agreement in the twelve (12) months preceding the claim. Neither party shall be liable for any indirect, incidental, special, consequential or punitive damages.",
+    fallbacks: [
+      {
+        rank: 1,
+        riskLevel: "low",
+        text: "Each party's total aggregate liability arising out of or relating to this Agreement shall not exceed two (2) times the fees paid or payable under this Agreement in the twelve (12) months preceding the claim. Neither party shall be liable for any indirect, incidental, special or consequential damages.",
+        guidance: "Accept a higher multiple of fees if the carve-outs for confidentiality and indemnity remain elsewhere in the agreement.",
+      },
+      {
+        rank: 2,
+        riskLevel: "medium",
+        text: "Each party's total aggregate liability arising out of or relating to this Agreement shall not exceed the total fees paid or payable under this Agreement. Neither party shall be liable for any indirect or consequential damages.",
+        guidance: "Requires legal sign-off for contracts above the high-value threshold.",
+      },
+    ],
+    keywords: ["limitation of liability", "aggregate liability", "liability shall not exceed", "consequential damages"],
+    isCritical: true,
+    contractTypes: ["msa", "sow", "saas"],
+  },
+  {
+    clauseType: "indemnification",
+    title: "Indemnification",
+    description: "Vendor indemnity for third-party claims.",
+    standardText:
+      "Vendor shall defend, indemnify and hold harmless Customer and its affiliates, officers, directors and employees from and against any and all third-party claims, losses, damages, liabilities, costs and expenses, including reasonable attorneys' fees, arising out of Vendor's breach of this Agreement, negligence, wilful misconduct, or infringement of any intellectual property right.",
+    fallbacks: [
+      {
+        rank: 1,
+        riskLevel: "low",
+        text: "Vendor shall defend, indemnify and hold harmless Customer from and against third-party claims, losses and damages, including reasonable attorneys' fees, arising out of Vendor's gross negligence, wilful misconduct, or infringement of any intellectual property right.",
+      },
+      {
+        rank: 2,
+        riskLevel: "medium",
+        text: "Each party shall indemnify the other party against third-party claims arising out of its infringement of any intellectual property right, subject to the limitation of liability.",
+        guidance: "Mutual indemnity capped by the liability clause; escalate if the vendor processes personal data.",
+      },
+    ],
+    keywords: ["indemnify", "indemnification", "hold harmless", "defend"],
+    isCritical: true,
+    contractTypes: ["msa", "sow", "saas"],
+  },
+  {
+    clauseType: "termination",
+    title: "Termination",
+    description: "Termination for convenience and for cause.",
+    standardText:
+      "Customer may terminate this Agreement for convenience upon thirty (30) days' written notice to Vendor. Either party may terminate this Agreement upon written notice if the other party materially breaches this Agreement and fails to cure the breach within thirty (30) days after receiving written notice of it.",
+    fallbacks: [
+      {
+        rank: 1,
+        riskLevel: "low",
+        text: "Customer may terminate this Agreement for convenience upon sixty (60) days' written notice to Vendor. Either party may terminate this Agreement upon written notice if the other party materially breaches this Agreement and fails to cure the breach within thirty (30) days.",
+      },
+      {
+        rank: 2,
+        riskLevel: "medium",
+        text: "Either party may terminate this Agreement upon written notice if the other party materially breaches this Agreement and fails to cure the breach within thirty (30) days after receiving written notice of it.",
+        guidance: "No termination for convenience; limit the initial term to twelve months.",
+      },
+    ],
+    keywords: ["terminate", "termination", "for convenience", "material breach"],
+    isCritical: true,
+    contractTypes: [],
+  },
+  {
+    clauseType: "data_protection",
+    title: "Data Protection",
+    description: "Processing of personal data under GDPR and similar laws.",
+    standardText:
+      "Vendor shall process personal data only on Customer's documented instructions and in compliance with all applicable data protection laws, including the GDPR. Vendor shall implement appropriate technical and organisational security measures, notify Customer of any personal data breach without undue delay and in any event within forty-eight (48) hours, and enter into Customer's data processing agreement.",
+    fallbacks: [
+      {
+        rank: 1,
+        riskLevel: "low",
+        text: "Vendor shall process personal data in compliance with applicable data protection laws, including the GDPR, implement appropriate technical and organisational security measures, and notify Customer of any personal data breach within seventy-two (72) hours.",
+      },
+      {
+        rank: 2,
+        riskLevel: "medium",
+        text: "Vendor shall comply with applicable data protection laws and its data processing agreement, which is incorporated into this Agreement by reference.",
+        guidance: "Only acceptable if the vendor's data processing agreement has been reviewed by legal.",
+      },
+    ],
+    keywords: ["data protection", "personal data", "gdpr", "data processing"],
+    isCritical: true,
+    contractTypes: ["saas", "msa"],
+  },
+];
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "any", "are", "as", "at", "be", "by", "for", "from", "in", "is", "it", "its", "of",
+  "on", "or", "such", "that", "the", "this", "to", "under", "upon", "with", "shall", "will", "which",
+]);
+
+const NUMBER_WORDS: Record<string, string> = {
+  one: "1", two: "2", three: "3", four: "4", five: "5", six: "6", seven: "7", eight: "8", nine: "9",
+  ten: "10", twelve: "12", fifteen: "15", twenty: "20", thirty: "30", sixty: "60", ninety: "90",
+};
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(token => token && !STOP_WORDS.has(token))
+    .map(token => NUMBER_WORDS[token] ?? token);
+}
+
+function numbersIn(tokens: string[]): string {
+  return [...new Set(tokens.filter(token => /^\d+$/.test(token)))].sort().join(",");
+}
+
+/**
+ * Word-overlap similarity (Dice coefficient over content words), 0..1.
+ * Language quoting different numbers (caps, notice periods) never scores
+ * above 0.7, since a changed figure is a material change.
+ */
+export function clauseSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  const setA = new Set(tokensA);
+  const setB = new Set(tokensB);
+  if (setA.size === 0 || setB.size === 0) return 0;
+
+  let shared = 0;
+  for (const token of setA) {
+    if (setB.has(token)) shared++;
+  }
+  const similarity = (2 * shared) / (setA.size + setB.size);
+
+  return numbersIn(tokensA) === numbersIn(tokensB) ? similarity : Math.min(similarity, 0.7);
+}
+
+export function findLibraryRule<T extends Pick<ClauseLibraryRule, "clauseType" | "isActive">>(
+  library: T[],
+  clauseType: string
+): T | undefined {
+  return library.find(rule => rule.clauseType === clauseType && rule.isActive !== false);
+}
+
+/**
+ * Keywords that identify a clause type: the library entry's when it has one,
+ * otherwise the built-in defaults
+ */
+export function getClauseKeywords(
+  clauseType: string,
+  library: Array<Pick<ClauseLibraryRule, "clauseType" | "keywords" | "isActive">> = []
+): string[] {
+  const rule = findLibraryRule(library, clauseType);
+  const keywords = rule?.keywords.length ? rule.keywords : DEFAULT_CLAUSE_KEYWORDS[clauseType] ?? [clauseType];
+  return keywords.map(keyword => keyword.toLowerCase());
+}
+
+export function isCriticalClause(
+  clauseType: string,
+  library: Array<Pick<ClauseLibraryRule, "clauseType" | "isCritical" | "isActive">> = []
+): boolean {
+  const rule = findLibraryRule(library, clauseType);
+  return rule ? rule.isCritical : DEFAULT_CRITICAL_CLAUSES.includes(clauseType);
+}
+
+/**
+ * Active library entries that apply to a contract type
+ */
+export function rulesForContractType<T extends Pick<ClauseLibraryRule, "contractTypes" | "isActive">>(
+  library: T[],
+  contractType: string | undefined
+): T[] {
+  return library.filter(
+    rule =>
+      rule.isActive !== false &&
+      (rule.contractTypes.length === 0 || (contractType !== undefined && rule.contractTypes.includes(contractType)))
+  );
+}
+
+/**
+ * Find the paragraph of contract text that holds a library clause: among
+ * paragraphs mentioning one of the clause's keywords, the one closest to the
+ * standard or fallback language. Returns null when no paragraph mentions it.
+ */
+export function locateClause(text: string, rule: Pick<ClauseLibraryRule, "clauseType" | "standardText" | "fallbacks" | "keywords">): string | null {
+  const keywords = getClauseKeywords(rule.clauseType, [{ ...rule, isActive: true }]);
+  const references = [rule.standardText, ...rule.fallbacks.map(fallback => fallback.text)];
+
+  let best: { paragraph: string; score: number } | null = null;
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const lower = paragraph.toLowerCase();
+    if (!keywords.some(keyword => lower.includes(keyword))) continue;
+
+    const score = Math.max(...references.map(reference => clauseSimilarity(paragraph, reference)));
+    if (!best || score > best.score) {
+      best = { paragraph: paragraph.trim(), score };
+    }
+  }
+
+  return best?.paragraph ?? null;
+}
+
+/**
+ * Compare extracted clause language with a library entry. Language matching the
+ * standard is low risk; matching an approved fallback takes that fallback's
+ * risk; anything else is a deviation and comes with the most preferred
+ * fallback as the suggested replacement.
+ */
+export function compareClause(
+  extractedText: string | null | undefined,
+  rule: Pick<ClauseLibraryRule, "title" | "standardText" | "fallbacks" | "isCritical">
+): ClauseComparison {
+  const fallbacks = [...rule.fallbacks].sort((a, b) => a.rank - b.rank);
+  const preferred = fallbacks[0];
+
+  if (!extractedText?.trim()) {
+    return {
+      status: "missing",
+      similarity: 0,
+      riskLevel: rule.isCritical ? "high" : "medium",
+      recommendations: [`Add the standard ${rule.title} clause`],
+    };
+  }
+
+  const standardSimilarity = clauseSimilarity(extractedText, rule.standardText);
+  if (standardSimilarity >= STANDARD_MATCH_THRESHOLD) {
+    return { status: "standard", similarity: standardSimilarity, riskLevel: "low", recommendations: [] };
+  }
+
+  const matched = fallbacks
+    .map(fallback => ({ fallback, similarity: clauseSimilarity(extractedText, fallback.text) }))
+    .filter(match => match.similarity >= FALLBACK_MATCH_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity || a.fallback.rank - b.fallback.rank)[0];
+
+  if (matched) {
+    return {
+      status: "fallback",
+      similarity: matched.similarity,
+      riskLevel: matched.fallback.riskLevel,
+      matchedFallbackRank: matched.fallback.rank,
+      recommendations: [`${rule.title} uses approved fallback position ${matched.fallback.rank}`],
+    };
+  }
+
+  return {
+    status: "deviation",
+    similarity: standardSimilarity,
+    riskLevel: rule.isCritical ? "high" : "medium",
+    ...(preferred ? { suggestedFallback: preferred } : {}),
+    recommendations: [
+      preferred
+        ? `${rule.title} deviates from the clause library; propose approved fallback position ${preferred.rank}`
+        : `${rule.title} deviates from the clause library; propose the standard language`,
+    ],
+  };
+}
+
+/**
+ * Reject library entries the comparison cannot use
+ */
+export function validateClauseLibraryEntry(entry: Pick<ClauseLibraryRule, "clauseType" | "title" | "standardText" | "fallbacks">): void {
+  if (!/^[a-z][a-z0-9_]*$/.test(entry.clauseType)) {
+    throw new ConvexError("Clause type must be lower snake_case, e.g. limitation_of_liability");
+  }
+  if (!entry.title.trim()) {
+    throw new ConvexError("Clause title cannot be empty");
+  }
+  if (!entry.standardText.trim()) {
+    throw new ConvexError("Standard clause text cannot be empty");
+  }
+
+  const ranks = new Set<number>();
+  for (const fallback of entry.fallbacks) {
+    if (!Number.isInteger(fallback.rank) || fallback.rank < 1) {
+      throw new ConvexError("Fallback ranks must be positive integers");
+    }
+    if (ranks.has(fallback.rank)) {
+      throw new ConvexError(`Duplicate fallback rank: ${fallback.rank}`);
+    }
+    ranks.add(fallback.rank);
+    if (!fallback.text.trim()) {
+      throw new ConvexError(`Fallback ${fallback.rank} text cannot be empty`);
+    }
+  }
+}
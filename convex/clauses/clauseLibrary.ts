@@ -0,0 +1,476 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, mutation, internalQuery, MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
+import { clauseFallbackValidator } from "../schema";
+import { getContractDocumentText } from "../documents/contractTexts";
+import {
+  ClauseComparison,
+  DEFAULT_CLAUSE_LIBRARY,
+  compareClause,
+  locateClause,
+  rulesForContractType,
+  validateClauseLibraryEntry,
+} from "./clauseComparison";
+import { appendAuditLog } from "../auditLogging";
+
+/**
+ * Clause Library
+ *
+ * Each enterprise maintains standard language per clause type with approved
+ * fallback positions ranked by preference. Entries are versioned like contract
+ * templates: an edit snapshots the current version into clauseLibraryVersions.
+ * Contracts are compared against the library once their text is extracted, and
+ * the result is stored on contractClauses.
+ */
+
+export interface ContractClauseComparisonResult extends ClauseComparison {
+  clauseType: string;
+  title: string;
+  libraryEntryId: Id<"clauseLibrary">;
+  libraryVersion: number;
+  extractedText: string | null;
+}
+
+export async function getActiveClauseLibrary(
+  ctx: QueryCtx,
+  enterpriseId: Id<"enterprises">
+): Promise<Doc<"clauseLibrary">[]> {
+  return await ctx.db
+    .query("clauseLibrary")
+    .withIndex("by_enterprise_active", (q) => q.eq("enterpriseId", enterpriseId).eq("isActive", true))
+    .collect();
+}
+
+/**
+ * Compare a contract's extracted text with its enterprise's clause library and
+ * store the result per clause type. Library clauses the contract type does not
+ * require are only recorded when present. Returns null when the contract has
+ * no extracted text yet.
+ */
+export async function compareContractToLibrary(
+  ctx: MutationCtx,
+  contract: Doc<"contracts">
+): Promise<ContractClauseComparisonResult[] | null> {
+  const text = await getContractDocumentText(ctx, contract._id);
+  if (text === null) return null;
+
+  const library = await getActiveClauseLibrary(ctx, contract.enterpriseId);
+  const required = new Set(rulesForContractType(library, contract.contractType).map(rule => rule._id));
+  const now = new Date().toISOString();
+  const results: ContractClauseComparisonResult[] = [];
+
+  for (const rule of library) {
+    const extractedText = locateClause(text, rule);
+    if (extractedText === null && !required.has(rule._id)) continue;
+
+    const comparison = compareClause(extractedText, rule);
+    results.push({
+      ...comparison,
+      clauseType: rule.clauseType,
+      title: rule.title,
+      libraryEntryId: rule._id,
+      libraryVersion: rule.version,
+      extractedText,
+    });
+
+    const existing = await ctx.db
+      .query("contractClauses")
+      .withIndex("by_contract_type", (q) => q.eq("contractId", contract._id).eq("clauseType", rule.clauseType))
+      .first();
+
+    const row = {
+      contractId: contract._id,
+      enterpriseId: contract.enterpriseId,
+      clauseType: rule.clauseType,
+      present: extractedText !== null,
+      confidence: comparison.similarity,
+      riskLevel: comparison.riskLevel,
+      recommendations: comparison.recommendations,
+      libraryEntryId: rule._id,
+      libraryVersion: rule.version,
+      deviationStatus: comparison.status,
+      similarity: comparison.similarity,
+      ...(extractedText !== null ? { extractedText } : {}),
+      ...(comparison.matchedFallbackRank !== undefined ? { matchedFallbackRank: comparison.matchedFallbackRank } : {}),
+      ...(comparison.suggestedFallback ? { suggestedFallback: comparison.suggestedFallback } : {}),
+    };
+
+    // Replaced rather than patched so fields from an earlier comparison are dropped
+    if (existing) {
+      await ctx.db.replace(existing._id, { ...row, createdAt: existing.createdAt, updatedAt: now });
+    } else {
+      await ctx.db.insert("contractClauses", { ...row, createdAt: now });
+    }
+  }
+
+  // Drop comparisons for library entries that have since been archived
+  const compared = new Set(results.map(result => result.clauseType));
+  const previous = await ctx.db
+    .query("contractClauses")
+    .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+    .collect();
+  for (const clause of previous) {
+    if (clause.libraryEntryId && !compared.has(clause.clauseType)) {
+      await ctx.db.delete(clause._id);
+    }
+  }
+
+  return results;
+}
+
+async function getEditableEntry(ctx: MutationCtx, entryId: Id<"clauseLibrary">) {
+  const securityContext = await getSecurityContext(ctx);
+
+  const entry = await ctx.db.get(entryId);
+  if (!entry) {
+    throw new ConvexError("Clause library entry not found");
+  }
+  if (entry.enterpriseId !== securityContext.enterpriseId) {
+    throw new ConvexError("Access denied: Cannot modify clauses from other enterprises");
+  }
+  requirePermission(securityContext, "clauses.manage");
+  // Pushed by the parent organization; changed there and pushed again
+  if (entry.inheritedFrom) {
+    throw new ConvexError("This clause is managed by your parent organization");
+  }
+
+  return { securityContext, entry };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export const listClauseLibrary = query({
+  args: {
+    includeInactive: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const entries = args.includeInactive
+      ? await ctx.db
+          .query("clauseLibrary")
+          .withIndex("by_enterprise", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+          .collect()
+      : await getActiveClauseLibrary(ctx, securityContext.enterpriseId);
+
+    return entries.sort((a, b) => a.title.localeCompare(b.title));
+  },
+});
+
+/**
+ * A library entry with its previous versions, newest first
+ */
+export const getClauseLibraryEntry = query({
+  args: {
+    entryId: v.id("clauseLibrary"),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const entry = await ctx.db.get(args.entryId);
+    if (!entry || entry.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Clause library entry not found or access denied");
+    }
+
+    const versions = await ctx.db
+      .query("clauseLibraryVersions")
+      .withIndex("by_entry", (q) => q.eq("entryId", args.entryId))
+      .collect();
+
+    return { ...entry, versions: versions.sort((a, b) => b.version - a.version) };
+  },
+});
+
+/**
+ * Stored library comparison for a contract, with the library entry each clause
+ * was compared against
+ */
+export const getContractClauseComparison = query({
+  args: {
+    contractId: v.id("contracts"),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+
+    const clauses = await ctx.db
+      .query("contractClauses")
+      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+      .collect();
+
+    return await Promise.all(
+      clauses
+        .filter(clause => clause.libraryEntryId)
+        .map(async clause => {
+          const entry = clause.libraryEntryId ? await ctx.db.get(clause.libraryEntryId) : null;
+          return {
+            ...clause,
+            title: entry?.title ?? clause.clauseType,
+            standardText: entry?.standardText,
+            // The entry has been edited since the comparison ran
+            isOutdated: entry ? entry.version !== clause.libraryVersion : false,
+          };
+        })
+    );
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+export const createClauseLibraryEntry = mutation({
+  args: {
+    clauseType: v.string(),
+    title: v.string(),
+    description: v.optional(v.string()),
+    standardText: v.string(),
+    fallbacks: v.array(clauseFallbackValidator),
+    keywords: v.array(v.string()),
+    isCritical: v.boolean(),
+    contractTypes: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    requirePermission(securityContext, "clauses.manage");
+
+    validateClauseLibraryEntry(args);
+
+    const existing = await ctx.db
+      .query("clauseLibrary")
+      .withIndex("by_enterprise_type", (q) =>
+        q.eq("enterpriseId", securityContext.enterpriseId).eq("clauseType", args.clauseType)
+      )
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .first();
+    if (existing) {
+      throw new ConvexError(`The library already has an active ${args.clauseType} clause`);
+    }
+
+    const entryId = await ctx.db.insert("clauseLibrary", {
+      ...args,
+      enterpriseId: securityContext.enterpriseId,
+      version: 1,
+      isActive: true,
+      createdBy: securityContext.userId,
+      createdAt: new Date().toISOString(),
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "createClauseLibraryEntry",
+      resourceType: "clauseLibrary",
+      resourceId: entryId,
+      action: "create",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: { clauseType: args.clauseType, title: args.title },
+    });
+
+    return entryId;
+  },
+});
+
+export const updateClauseLibraryEntry = mutation({
+  args: {
+    entryId: v.id("clauseLibrary"),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+    standardText: v.optional(v.string()),
+    fallbacks: v.optional(v.array(clauseFallbackValidator)),
+    keywords: v.optional(v.array(v.string())),
+    isCritical: v.optional(v.boolean()),
+    contractTypes: v.optional(v.array(v.string())),
+    changes: v.string(), // Description of changes for version history
+  },
+  handler: async (ctx, args) => {
+    const { securityContext, entry } = await getEditableEntry(ctx, args.entryId);
+
+    const updates: Partial<Doc<"clauseLibrary">> = {};
+    if (args.title !== undefined) updates.title = args.title;
+    if (args.description !== undefined) updates.description = args.description;
+    if (args.standardText !== undefined) updates.standardText = args.standardText;
+    if (args.fallbacks !== undefined) updates.fallbacks = args.fallbacks;
+    if (args.keywords !== undefined) updates.keywords = args.keywords;
+    if (args.isCritical !== undefined) updates.isCritical = args.isCritical;
+    if (args.contractTypes !== undefined) updates.contractTypes = args.contractTypes;
+
+    validateClauseLibraryEntry({ ...entry, ...updates });
+
+    // Save current version before updating
+    const newVersion = entry.version + 1;
+    await ctx.db.insert("clauseLibraryVersions", {
+      entryId: args.entryId,
+      version: entry.version,
+      title: entry.title,
+      standardText: entry.standardText,
+      fallbacks: entry.fallbacks,
+      keywords: entry.keywords,
+      isCritical: entry.isCritical,
+      contractTypes: entry.contractTypes,
+      changes: args.changes,
+      createdAt: new Date().toISOString(),
+      createdBy: securityContext.userId,
+    });
+
+    await ctx.db.patch(args.entryId, {
+      ...updates,
+      version: newVersion,
+      updatedAt: new Date().toISOString(),
+      updatedBy: securityContext.userId,
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "updateClauseLibraryEntry",
+      resourceType: "clauseLibrary",
+      resourceId: args.entryId,
+      action: "update",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: { version: newVersion, changes: args.changes },
+    });
+
+    return { success: true, version: newVersion };
+  },
+});
+
+// Archived entries keep their history but are no longer compared against
+export const archiveClauseLibraryEntry = mutation({
+  args: {
+    entryId: v.id("clauseLibrary"),
+  },
+  handler: async (ctx, args) => {
+    const { securityContext, entry } = await getEditableEntry(ctx, args.entryId);
+
+    await ctx.db.patch(args.entryId, {
+      isActive: false,
+      updatedAt: new Date().toISOString(),
+      updatedBy: securityContext.userId,
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "archiveClauseLibraryEntry",
+      resourceType: "clauseLibrary",
+      resourceId: args.entryId,
+      action: "delete",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: { clauseType: entry.clauseType, version: entry.version },
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Seed the library with the default standard clauses for any clause type the
+ * enterprise has not defined yet
+ */
+export const installDefaultClauseLibrary = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    requirePermission(securityContext, "clauses.manage");
+
+    const existingTypes = new Set(
+      (await getActiveClauseLibrary(ctx, securityContext.enterpriseId)).map(entry => entry.clauseType)
+    );
+
+    const now = new Date().toISOString();
+    const installed: string[] = [];
+    for (const clause of DEFAULT_CLAUSE_LIBRARY) {
+      if (existingTypes.has(clause.clauseType)) continue;
+
+      await ctx.db.insert("clauseLibrary", {
+        ...clause,
+        enterpriseId: securityContext.enterpriseId,
+        version: 1,
+        isActive: true,
+        createdBy: securityContext.userId,
+        createdAt: now,
+      });
+      installed.push(clause.clauseType);
+    }
+
+    if (installed.length > 0) {
+      await appendAuditLog(ctx, {
+        userId: securityContext.userId,
+        enterpriseId: securityContext.enterpriseId,
+        operation: "installDefaultClauseLibrary",
+        resourceType: "clauseLibrary",
+        action: "create",
+        status: "success",
+        timestamp: now,
+        metadata: { clauseTypes: installed },
+      });
+    }
+
+    return { installed };
+  },
+});
+
+/**
+ * Re-run the library comparison for a contract, e.g. after the library changed
+ */
+export const compareContractClauses = mutation({
+  args: {
+    contractId: v.id("contracts"),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+
+    const results = await compareContractToLibrary(ctx, contract);
+    if (results === null) {
+      throw new ConvexError("Contract text has not been extracted yet");
+    }
+
+    return {
+      compared: results.length,
+      deviations: results.filter(result => result.status === "deviation").length,
+      missing: results.filter(result => result.status === "missing").length,
+    };
+  },
+});
+
+// ============================================================================
+// INTERNAL (used by the contract analyzer)
+// ============================================================================
+
+export const getLibraryForAnalysis = internalQuery({
+  args: {
+    enterpriseId: v.id("enterprises"),
+  },
+  handler: async (ctx, args) => {
+    const library = await getActiveClauseLibrary(ctx, args.enterpriseId);
+    return library.map(entry => ({
+      clauseType: entry.clauseType,
+      title: entry.title,
+      standardText: entry.standardText,
+      fallbacks: entry.fallbacks,
+      keywords: entry.keywords,
+      isCritical: entry.isCritical,
+      contractTypes: entry.contractTypes,
+      version: entry.version,
+    }));
+  },
+});
@@ -0,0 +1,517 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, mutation, MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { getSecurityContext, requirePermission, SecurityContext } from "../security/rowLevelSecurity";
+import { CurrencyConverter } from "../currency/fxRates";
+import { parseAmount } from "../currency/currencyConversion";
+import { withoutFields } from "../lib/documentFields";
+import { EnterpriseGrantScope, enterpriseGrantScopeOptions } from "../schema";
+import { VendorSpendEntry, findVendorOverlap, grantAllows, normalizeGrantScopes } from "./consolidationRules";
+import { appendAuditLog } from "../auditLogging";
+
+/**
+ * Enterprise group consolidation
+ *
+ * A child enterprise grants its parent access explicitly: "reporting" lets
+ * the parent's admins include it in consolidated reports, "policies" lets
+ * them push clause library entries, approval workflows and notification
+ * rules to it (see `policies.ts`). Consolidated figures are converted into
+ * the parent's reporting currency with the parent's exchange rates; amounts
+ * without a rate are counted in `unconverted` instead.
+ */
+
+// Invoiced spend is reported over the trailing twelve months
+const SPEND_WINDOW_DAYS = 365;
+
+export interface ConsolidatedEnterpriseRow {
+  enterpriseId: Id<"enterprises">;
+  name: string;
+  isParent: boolean;
+  contracts: number;
+  activeContracts: number;
+  contractValue: number;
+  spend: number;
+  budgets: number;
+  totalBudget: number;
+  spentAmount: number;
+  unconverted: number; // Amounts left out for want of an exchange rate
+}
+
+export interface ConsolidatedBudgetRow {
+  budgetId: Id<"budgets">;
+  enterpriseId: Id<"enterprises">;
+  enterpriseName: string;
+  name: string;
+  budgetType: Doc<"budgets">["budgetType"];
+  status: Doc<"budgets">["status"];
+  startDate: string;
+  endDate: string;
+  originalCurrency: string;
+  totalBudget: number | null; // Null without a rate into the parent's currency
+  spentAmount: number | null;
+  utilization: number;
+  expectedOverrunDate?: string | undefined;
+}
+
+const grantScopeValidator = v.union(...enterpriseGrantScopeOptions.map(option => v.literal(option)));
+
+/**
+ * The grant a child gave its parent, revoked or not
+ */
+export async function getAccessGrant(
+  ctx: QueryCtx,
+  parentEnterpriseId: Id<"enterprises">,
+  childEnterpriseId: Id<"enterprises">
+): Promise<Doc<"enterpriseAccessGrants"> | null> {
+  const grants = await ctx.db
+    .query("enterpriseAccessGrants")
+    .withIndex("by_child", (q) => q.eq("childEnterpriseId", childEnterpriseId))
+    .collect();
+  return grants.find(grant => grant.parentEnterpriseId === parentEnterpriseId) ?? null;
+}
+
+/**
+ * Children of the parent whose grant allows the scope
+ */
+export async function getGrantedChildren(
+  ctx: QueryCtx,
+  parentEnterpriseId: Id<"enterprises">,
+  scope: EnterpriseGrantScope
+): Promise<Doc<"enterprises">[]> {
+  const children = await ctx.db
+    .query("enterprises")
+    .withIndex("by_parent", (q) => q.eq("parentEnterpriseId", parentEnterpriseId))
+    .collect();
+
+  const granted: Doc<"enterprises">[] = [];
+  for (const child of children) {
+    const grant = await getAccessGrant(ctx, parentEnterpriseId, child._id);
+    if (grantAllows(grant, parentEnterpriseId, scope)) granted.push(child);
+  }
+  return granted;
+}
+
+/**
+ * Hand policies pushed by the parent over to the child: its copies stay in
+ * force but lose their link to the parent
+ */
+export async function releaseInheritedPolicies(
+  ctx: MutationCtx,
+  childEnterpriseId: Id<"enterprises">,
+  parentEnterpriseId: Id<"enterprises">
+): Promise<{ clauses: number; workflows: number; notificationRules: boolean }> {
+  const fromParent = (doc: { inheritedFrom?: { enterpriseId: Id<"enterprises"> } | undefined }) =>
+    doc.inheritedFrom?.enterpriseId === parentEnterpriseId;
+
+  const clauses = (await ctx.db
+    .query("clauseLibrary")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", childEnterpriseId))
+    .collect()).filter(fromParent);
+  for (const entry of clauses) {
+    await ctx.db.replace(entry._id, withoutFields(entry, ["inheritedFrom"]));
+  }
+
+  const workflows = (await ctx.db
+    .query("approvalWorkflows")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", childEnterpriseId))
+    .collect()).filter(fromParent);
+  for (const workflow of workflows) {
+    await ctx.db.replace(workflow._id, withoutFields(workflow, ["inheritedFrom"]));
+  }
+
+  const child = await ctx.db.get(childEnterpriseId);
+  const notificationRules = child?.notificationRulesInheritedFrom === parentEnterpriseId;
+  if (child && notificationRules) {
+    await ctx.db.replace(child._id, withoutFields(child, ["notificationRulesInheritedFrom"]));
+  }
+
+  return { clauses: clauses.length, workflows: workflows.length, notificationRules };
+}
+
+/**
+ * The caller's enterprise followed by every child granting it reporting access
+ */
+async function getReportingGroup(ctx: QueryCtx, securityContext: SecurityContext) {
+  requirePermission(securityContext, "group.manage");
+
+  const parent = await ctx.db.get(securityContext.enterpriseId);
+  if (!parent) {
+    throw new ConvexError("Enterprise not found");
+  }
+  const children = await getGrantedChildren(ctx, parent._id, "reporting");
+
+  const converter = new CurrencyConverter(ctx);
+  const currency = await converter.reportingCurrency(parent._id);
+  return { parent, enterprises: [parent, ...children], converter, currency };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * The caller's place in its enterprise group: its parent and the grant given
+ * to it, what it inherited, and its children with the scopes they granted
+ */
+export const getEnterpriseGroup = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "group.manage");
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    if (!enterprise) {
+      throw new ConvexError("Enterprise not found");
+    }
+
+    const parent = enterprise.parentEnterpriseId ? await ctx.db.get(enterprise.parentEnterpriseId) : null;
+    const parentGrant = parent ? await getAccessGrant(ctx, parent._id, enterprise._id) : null;
+
+    const [clauses, workflows, children] = await Promise.all([
+      ctx.db.query("clauseLibrary").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterprise._id)).collect(),
+      ctx.db.query("approvalWorkflows").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterprise._id)).collect(),
+      ctx.db.query("enterprises").withIndex("by_parent", (q) => q.eq("parentEnterpriseId", enterprise._id)).collect(),
+    ]);
+
+    const childRows: Array<{
+      _id: Id<"enterprises">;
+      name: string;
+      reportingCurrency?: string | undefined;
+      scopes: EnterpriseGrantScope[];
+      grantedAt?: string | undefined;
+    }> = [];
+    for (const child of children) {
+      const grant = await getAccessGrant(ctx, enterprise._id, child._id);
+      const active = grant && !grant.revokedAt ? grant : null;
+      childRows.push({
+        _id: child._id,
+        name: child.name,
+        reportingCurrency: child.reportingCurrency,
+        scopes: active?.scopes ?? [],
+        grantedAt: active?.updatedAt ?? active?.createdAt,
+      });
+    }
+
+    return {
+      enterprise: { _id: enterprise._id, name: enterprise.name },
+      parent: parent ? { _id: parent._id, name: parent.name } : null,
+      parentGrant: parentGrant && !parentGrant.revokedAt
+        ? { scopes: parentGrant.scopes, grantedAt: parentGrant.updatedAt ?? parentGrant.createdAt }
+        : null,
+      inherited: {
+        clauses: clauses.filter(entry => entry.isActive && entry.inheritedFrom).length,
+        workflows: workflows.filter(workflow => workflow.isActive && workflow.inheritedFrom).length,
+        notificationRules: !!enterprise.notificationRulesInheritedFrom,
+      },
+      children: childRows.sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  },
+});
+
+/**
+ * Contracts, invoiced spend and budgets of the caller's enterprise and every
+ * child granting reporting access, in the caller's reporting currency
+ */
+export const getConsolidatedOverview = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    const { parent, enterprises, converter, currency } = await getReportingGroup(ctx, securityContext);
+    const spendSince = new Date(Date.now() - SPEND_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    const rows: ConsolidatedEnterpriseRow[] = [];
+    for (const enterprise of enterprises) {
+      const [contracts, spendRecords, budgets] = await Promise.all([
+        ctx.db.query("contracts").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterprise._id)).collect(),
+        ctx.db.query("spendRecords").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterprise._id)).collect(),
+        ctx.db.query("budgets").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterprise._id)).collect(),
+      ]);
+
+      let unconverted = 0;
+      let contractValue = 0;
+      for (const contract of contracts) {
+        const amount = contract.value ?? (contract.extractedPricing ? parseAmount(contract.extractedPricing) : 0);
+        if (amount <= 0) continue;
+        const converted = await converter.convert(parent._id, amount, await converter.contractCurrency(contract), currency);
+        if (converted) contractValue += converted.amount;
+        else unconverted++;
+      }
+
+      let spend = 0;
+      for (const record of spendRecords) {
+        if (record.type !== "invoice" || record.spendDate < spendSince) continue;
+        const converted = await converter.convert(parent._id, record.amount, record.currency, currency, record.spendDate);
+        if (converted) spend += converted.amount;
+        else unconverted++;
+      }
+
+      let totalBudget = 0;
+      let spentAmount = 0;
+      const openBudgets = budgets.filter(budget => budget.status !== "closed");
+      const budgetCurrency = await converter.reportingCurrency(enterprise._id);
+      for (const budget of openBudgets) {
+        const rate = await converter.convert(parent._id, 1, budget.currency ?? budgetCurrency, currency);
+        if (!rate) {
+          unconverted++;
+          continue;
+        }
+        totalBudget += budget.totalBudget * rate.rate;
+        spentAmount += budget.spentAmount * rate.rate;
+      }
+
+      rows.push({
+        enterpriseId: enterprise._id,
+        name: enterprise.name,
+        isParent: enterprise._id === parent._id,
+        contracts: contracts.length,
+        activeContracts: contracts.filter(contract => contract.status === "active").length,
+        contractValue: round(contractValue),
+        spend: round(spend),
+        budgets: openBudgets.length,
+        totalBudget: round(totalBudget),
+        spentAmount: round(spentAmount),
+        unconverted,
+      });
+    }
+
+    const total = (field: "contracts" | "activeContracts" | "contractValue" | "spend" | "totalBudget" | "spentAmount") =>
+      round(rows.reduce((sum, row) => sum + row[field], 0));
+
+    return {
+      currency,
+      spendSince,
+      enterprises: rows,
+      totals: {
+        contracts: total("contracts"),
+        activeContracts: total("activeContracts"),
+        contractValue: total("contractValue"),
+        spend: total("spend"),
+        totalBudget: total("totalBudget"),
+        spentAmount: total("spentAmount"),
+      },
+    };
+  },
+});
+
+/**
+ * Vendors contracted or invoiced by more than one enterprise of the group
+ */
+export const getVendorOverlap = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    const { parent, enterprises, converter, currency } = await getReportingGroup(ctx, securityContext);
+    const spendSince = new Date(Date.now() - SPEND_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    const entries: VendorSpendEntry[] = [];
+    for (const enterprise of enterprises) {
+      const [vendors, contracts, spendRecords] = await Promise.all([
+        ctx.db.query("vendors").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterprise._id)).collect(),
+        ctx.db.query("contracts").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterprise._id)).collect(),
+        ctx.db.query("spendRecords").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterprise._id)).collect(),
+      ]);
+      const vendorNames = new Map(vendors.map(vendor => [vendor._id as string, vendor.name]));
+      const base = { enterpriseId: enterprise._id as string, enterpriseName: enterprise.name };
+
+      for (const contract of contracts) {
+        const vendorName = contract.vendorId ? vendorNames.get(contract.vendorId) : undefined;
+        if (!vendorName || contract.status === "archived") continue;
+
+        const amount = contract.value ?? (contract.extractedPricing ? parseAmount(contract.extractedPricing) : 0);
+        const converted = amount > 0
+          ? await converter.convert(parent._id, amount, await converter.contractCurrency(contract), currency)
+          : null;
+        entries.push({ ...base, vendorName, contracts: 1, contractValue: converted?.amount ?? 0, spend: 0 });
+      }
+
+      for (const record of spendRecords) {
+        if (record.type !== "invoice" || record.spendDate < spendSince) continue;
+        const converted = await converter.convert(parent._id, record.amount, record.currency, currency, record.spendDate);
+        const vendorName = (record.vendorId ? vendorNames.get(record.vendorId) : undefined) ?? record.vendorName;
+        entries.push({ ...base, vendorName, contracts: 0, contractValue: 0, spend: converted?.amount ?? 0 });
+      }
+    }
+
+    return {
+      currency,
+      enterprises: enterprises.length,
+      vendors: findVendorOverlap(entries),
+    };
+  },
+});
+
+/**
+ * Open budgets of the group side by side, in the caller's reporting currency
+ */
+export const getConsolidatedBudgets = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    const { parent, enterprises, converter, currency } = await getReportingGroup(ctx, securityContext);
+
+    const rows: ConsolidatedBudgetRow[] = [];
+    for (const enterprise of enterprises) {
+      const budgets = await ctx.db
+        .query("budgets")
+        .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterprise._id))
+        .collect();
+      const enterpriseCurrency = await converter.reportingCurrency(enterprise._id);
+
+      for (const budget of budgets) {
+        if (budget.status === "closed") continue;
+        const budgetCurrency = budget.currency ?? enterpriseCurrency;
+        const rate = await converter.convert(parent._id, 1, budgetCurrency, currency);
+        const forecastAlert = budget.alerts?.find(alert => alert.type === "forecast_exceed" && !alert.acknowledged);
+
+        rows.push({
+          budgetId: budget._id,
+          enterpriseId: enterprise._id,
+          enterpriseName: enterprise.name,
+          name: budget.name,
+          budgetType: budget.budgetType,
+          status: budget.status,
+          startDate: budget.startDate,
+          endDate: budget.endDate,
+          originalCurrency: budgetCurrency,
+          totalBudget: rate ? round(budget.totalBudget * rate.rate) : null,
+          spentAmount: rate ? round(budget.spentAmount * rate.rate) : null,
+          utilization: budget.totalBudget > 0 ? Math.round((budget.spentAmount / budget.totalBudget) * 100) : 0,
+          expectedOverrunDate: forecastAlert?.expectedOverrunDate,
+        });
+      }
+    }
+
+    const converted = rows.filter(row => row.totalBudget !== null);
+    return {
+      currency,
+      budgets: rows.sort((a, b) => b.utilization - a.utilization),
+      totals: {
+        totalBudget: round(converted.reduce((sum, row) => sum + row.totalBudget!, 0)),
+        spentAmount: round(converted.reduce((sum, row) => sum + row.spentAmount!, 0)),
+        atRisk: rows.filter(row => row.status === "at_risk" || row.status === "exceeded" || row.expectedOverrunDate).length,
+      },
+    };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Grant the parent enterprise access to this one. Replaces the scopes of an
+ * existing grant; dropping "policies" releases inherited policies so this
+ * enterprise can edit them again.
+ */
+export const grantParentAccess = mutation({
+  args: {
+    scopes: v.array(grantScopeValidator),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "group.manage");
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    if (!enterprise?.parentEnterpriseId) {
+      throw new ConvexError("Your organization has no parent organization");
+    }
+    const parentEnterpriseId = enterprise.parentEnterpriseId;
+    const scopes = normalizeGrantScopes(args.scopes);
+    const now = new Date().toISOString();
+
+    const existing = await getAccessGrant(ctx, parentEnterpriseId, enterprise._id);
+    const previousScopes = existing && !existing.revokedAt ? existing.scopes : [];
+    let grantId: Id<"enterpriseAccessGrants">;
+    if (existing) {
+      // Replaced so a previous revocation is cleared
+      grantId = existing._id;
+      await ctx.db.replace(existing._id, {
+        parentEnterpriseId,
+        childEnterpriseId: enterprise._id,
+        scopes,
+        grantedBy: securityContext.userId,
+        createdAt: existing.createdAt,
+        updatedAt: now,
+      });
+    } else {
+      grantId = await ctx.db.insert("enterpriseAccessGrants", {
+        parentEnterpriseId,
+        childEnterpriseId: enterprise._id,
+        scopes,
+        grantedBy: securityContext.userId,
+        createdAt: now,
+      });
+    }
+
+    if (previousScopes.includes("policies") && !scopes.includes("policies")) {
+      await releaseInheritedPolicies(ctx, enterprise._id, parentEnterpriseId);
+    }
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "grantParentAccess",
+      resourceType: "enterpriseAccessGrants",
+      resourceId: grantId,
+      action: "share",
+      status: "success",
+      timestamp: now,
+      changes: { before: previousScopes, after: scopes },
+      metadata: { parentEnterpriseId },
+    });
+
+    return { success: true, scopes };
+  },
+});
+
+/**
+ * Withdraw the parent's access to this enterprise and release any policies
+ * it pushed
+ */
+export const revokeParentAccess = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "group.manage");
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    if (!enterprise?.parentEnterpriseId) {
+      throw new ConvexError("Your organization has no parent organization");
+    }
+
+    const grant = await getAccessGrant(ctx, enterprise.parentEnterpriseId, enterprise._id);
+    if (!grant || grant.revokedAt) {
+      throw new ConvexError("Your parent organization has no access to revoke");
+    }
+
+    const now = new Date().toISOString();
+    await ctx.db.patch(grant._id, {
+      revokedAt: now,
+      revokedBy: securityContext.userId,
+      updatedAt: now,
+    });
+    const released = grant.scopes.includes("policies")
+      ? await releaseInheritedPolicies(ctx, enterprise._id, enterprise.parentEnterpriseId)
+      : null;
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "revokeParentAccess",
+      resourceType: "enterpriseAccessGrants",
+      resourceId: grant._id,
+      action: "update",
+      status: "success",
+      timestamp: now,
+      changes: { before: grant.scopes, after: [] },
+      metadata: { parentEnterpriseId: enterprise.parentEnterpriseId, released },
+    });
+
+    return { success: true };
+  },
+});
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,202 @@
+import { ConvexError } from "convex/values";
+import { EnterpriseGrantScope } from "../schema";
+import { normalizeVendorName } from "../agents/vendorMatching";
+import { WorkflowApprover, WorkflowCondition, WorkflowStepDefinition } from "../workflows/approvalWorkflowEngine";
+import { DEFAULT_RENEWAL_REMINDER_OFFSETS, normalizeReminderOffsets } from "../renewals/renewalTerms";
+import { DEFAULT_REMINDER_DAYS_BEFORE, MAX_REMINDER_DAYS_BEFORE } from "../obligations/obligationExtraction";
+
+/**
+ * Enterprise group rules
+ *
+ * A parent enterprise sees a child's data, and pushes policies to it, only
+ * through an access grant the child gave it. These helpers decide what a
+ * grant allows, find vendors contracted by several enterprises of the group,
+ * and adapt a parent's approval workflows and notification rules for a
+ * child. Pure so they can be unit tested; persistence lives in
+ * `consolidation.ts` and `policies.ts`.
+ */
+
+export interface AccessGrant {
+  parentEnterpriseId: string;
+  scopes: EnterpriseGrantScope[];
+  revokedAt?: string | undefined;
+}
+
+export interface VendorSpendEntry {
+  enterpriseId: string;
+  enterpriseName: string;
+  vendorName: string;
+  contracts: number;
+  contractValue: number; // In the parent's reporting currency
+  spend: number; // Invoiced, in the parent's reporting currency
+}
+
+export interface VendorOverlap {
+  vendorKey: string;
+  vendorName: string; // Most common spelling across the group
+  enterprises: Array<Omit<VendorSpendEntry, "vendorName">>;
+  contracts: number;
+  contractValue: number;
+  spend: number;
+}
+
+export interface NotificationRules {
+  renewalReminderOffsets: number[];
+  obligationReminderDaysBefore: number;
+}
+
+// Rules an enterprise set; unset ones fall back to the built-in defaults
+export interface NotificationRuleOverrides {
+  renewalReminderOffsets?: number[] | undefined;
+  obligationReminderDaysBefore?: number | undefined;
+}
+
+// Order scopes are listed in; matches enterpriseGrantScopeOptions
+const GRANT_SCOPES: EnterpriseGrantScope[] = ["reporting", "policies"];
+
+// Approvers named by user only exist in the parent, so a child's copy of a
+// step asks its own admins instead
+const INHERITED_USER_APPROVER: WorkflowApprover = { type: "role", role: "admin" };
+
+/**
+ * Whether a grant lets the parent use the scope. Revoked grants allow nothing.
+ */
+export function grantAllows(
+  grant: AccessGrant | null | undefined,
+  parentEnterpriseId: string,
+  scope: EnterpriseGrantScope
+): boolean {
+  return !!grant
+    && !grant.revokedAt
+    && grant.parentEnterpriseId === parentEnterpriseId
+    && grant.scopes.includes(scope);
+}
+
+/**
+ * Deduplicated scopes in a stable order; a grant must allow something
+ */
+export function normalizeGrantScopes(scopes: string[]): EnterpriseGrantScope[] {
+  const normalized = GRANT_SCOPES.filter(option => scopes.includes(option));
+  const unknown = scopes.filter(scope => !(GRANT_SCOPES as string[]).includes(scope));
+  if (unknown.length > 0) {
+    throw new ConvexError(`Unknown access scope: ${unknown.join(", ")}`);
+  }
+  if (normalized.length === 0) {
+    throw new ConvexError("Select at least one access scope");
+  }
+  return normalized;
+}
+
+/**
+ * Vendors contracted or paid by more than one enterprise of the group, largest
+ * combined contract value first. Names are matched after normalization, so
+ * "Acme Inc." and "ACME" are one vendor.
+ */
+export function findVendorOverlap(entries: VendorSpendEntry[]): VendorOverlap[] {
+  const groups = new Map<string, VendorSpendEntry[]>();
+  for (const entry of entries) {
+    const key = normalizeVendorName(entry.vendorName);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+
+  const overlaps: VendorOverlap[] = [];
+  for (const [vendorKey, group] of groups) {
+    const byEnterprise = new Map<string, Omit<VendorSpendEntry, "vendorName">>();
+    const spellings = new Map<string, number>();
+    for (const { vendorName, ...entry } of group) {
+      spellings.set(vendorName, (spellings.get(vendorName) ?? 0) + 1);
+      const existing = byEnterprise.get(entry.enterpriseId);
+      byEnterprise.set(entry.enterpriseId, existing
+        ? {
+            ...existing,
+            contracts: existing.contracts + entry.contracts,
+            contractValue: existing.contractValue + entry.contractValue,
+            spend: existing.spend + entry.spend,
+          }
+        : entry);
+    }
+    if (byEnterprise.size < 2) continue;
+
+    const enterprises = [...byEnterprise.values()].sort((a, b) => b.contractValue - a.contractValue);
+    overlaps.push({
+      vendorKey,
+      vendorName: [...spellings.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0]![0],
+      enterprises,
+      contracts: sum(enterprises.map(entry => entry.contracts)),
+      contractValue: round(sum(enterprises.map(entry => entry.contractValue))),
+      spend: round(sum(enterprises.map(entry => entry.spend))),
+    });
+  }
+
+  return overlaps.sort((a, b) => b.contractValue - a.contractValue || b.spend - a.spend);
+}
+
+/**
+ * A parent's workflow as the child runs it: approvers named by user become the
+ * child's admins. Workflows conditioned on departments are not inherited,
+ * since department ids are the parent's own; returns null for them.
+ */
+export function inheritWorkflow(workflow: {
+  conditions: WorkflowCondition[];
+  steps: WorkflowStepDefinition[];
+}): { conditions: WorkflowCondition[]; steps: WorkflowStepDefinition[] } | null {
+  const conditions = [...workflow.conditions, ...workflow.steps.flatMap(step => step.conditions ?? [])];
+  if (conditions.some(condition => condition.field === "departmentId")) return null;
+
+  return {
+    conditions: workflow.conditions,
+    steps: workflow.steps.map(step => ({
+      ...step,
+      approvers: inheritApprovers(step.approvers),
+      ...(step.escalateTo ? { escalateTo: inheritApprovers(step.escalateTo) } : {}),
+    })),
+  };
+}
+
+/**
+ * Notification rules with the built-in defaults filled in
+ */
+export function effectiveNotificationRules(rules?: NotificationRuleOverrides | undefined): NotificationRules {
+  return {
+    renewalReminderOffsets: rules?.renewalReminderOffsets ?? DEFAULT_RENEWAL_REMINDER_OFFSETS,
+    obligationReminderDaysBefore: rules?.obligationReminderDaysBefore ?? DEFAULT_REMINDER_DAYS_BEFORE,
+  };
+}
+
+/**
+ * Validate notification rules an admin sets, returning only the rules given
+ */
+export function normalizeNotificationRules(rules: NotificationRuleOverrides): NotificationRuleOverrides {
+  const normalized: NotificationRuleOverrides = {};
+  if (rules.renewalReminderOffsets !== undefined) {
+    normalized.renewalReminderOffsets = normalizeReminderOffsets(rules.renewalReminderOffsets);
+  }
+  if (rules.obligationReminderDaysBefore !== undefined) {
+    const days = rules.obligationReminderDaysBefore;
+    if (!Number.isInteger(days) || days < 0 || days > MAX_REMINDER_DAYS_BEFORE) {
+      throw new ConvexError(`Reminder days must be a whole number between 0 and ${MAX_REMINDER_DAYS_BEFORE}`);
+    }
+    normalized.obligationReminderDaysBefore = days;
+  }
+  return normalized;
+}
+
+function inheritApprovers(approvers: WorkflowApprover[]): WorkflowApprover[] {
+  const inherited: WorkflowApprover[] = [];
+  for (const approver of approvers) {
+    const mapped = approver.type === "user" ? INHERITED_USER_APPROVER : approver;
+    if (!inherited.some(existing => existing.type === "role" && mapped.type === "role" && existing.role === mapped.role)) {
+      inherited.push(mapped);
+    }
+  }
+  return inherited;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,442 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, mutation, MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { getSecurityContext, requirePermission, SecurityContext } from "../security/rowLevelSecurity";
+import { withoutFields } from "../lib/documentFields";
+import { getAccessGrant } from "./consolidation";
+import {
+  NotificationRuleOverrides,
+  NotificationRules,
+  effectiveNotificationRules,
+  grantAllows,
+  inheritWorkflow,
+  normalizeNotificationRules,
+} from "./consolidationRules";
+import { appendAuditLog } from "../auditLogging";
+
+/**
+ * Group policies
+ *
+ * A parent enterprise's admins push their clause library, approval workflows
+ * and notification rules to children that granted "policies" access. Pushed
+ * copies carry `inheritedFrom` and cannot be edited by the child; pushing
+ * again updates them in place, and entries the parent archived are archived
+ * in the child too. When the child withdraws the grant its copies are
+ * released and become its own.
+ */
+
+export interface PolicyPushResult {
+  enterpriseId: Id<"enterprises">;
+  name: string;
+  clausesCreated: number;
+  clausesUpdated: number;
+  clausesArchived: number;
+  workflowsCreated: number;
+  workflowsUpdated: number;
+  workflowsDeactivated: number;
+  workflowsSkipped: string[]; // Conditioned on the parent's departments
+  notificationRules: boolean;
+}
+
+/**
+ * An enterprise's notification rules with the built-in defaults filled in
+ */
+export async function getNotificationRules(
+  ctx: QueryCtx,
+  enterpriseId: Id<"enterprises">
+): Promise<NotificationRules> {
+  const enterprise = await ctx.db.get(enterpriseId);
+  return effectiveNotificationRules(enterprise?.notificationRules);
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export const getNotificationRuleSettings = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    if (!enterprise) {
+      throw new ConvexError("Enterprise not found");
+    }
+    const inheritedFrom = enterprise.notificationRulesInheritedFrom
+      ? await ctx.db.get(enterprise.notificationRulesInheritedFrom)
+      : null;
+
+    return {
+      rules: effectiveNotificationRules(enterprise.notificationRules),
+      isCustom: !!enterprise.notificationRules,
+      inheritedFrom: inheritedFrom ? { _id: inheritedFrom._id, name: inheritedFrom.name } : null,
+    };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Set the enterprise's reminder defaults; null restores a built-in default.
+ * Rules pushed by a parent cannot be changed here.
+ */
+export const updateNotificationRules = mutation({
+  args: {
+    renewalReminderOffsets: v.optional(v.union(v.array(v.number()), v.null())),
+    obligationReminderDaysBefore: v.optional(v.union(v.number(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "settings.update");
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    if (!enterprise) {
+      throw new ConvexError("Enterprise not found");
+    }
+    if (enterprise.notificationRulesInheritedFrom) {
+      throw new ConvexError("Notification rules are managed by your parent organization");
+    }
+
+    const rules: NotificationRuleOverrides = { ...enterprise.notificationRules };
+    if (args.renewalReminderOffsets === null) delete rules.renewalReminderOffsets;
+    else if (args.renewalReminderOffsets !== undefined) rules.renewalReminderOffsets = args.renewalReminderOffsets;
+    if (args.obligationReminderDaysBefore === null) delete rules.obligationReminderDaysBefore;
+    else if (args.obligationReminderDaysBefore !== undefined) rules.obligationReminderDaysBefore = args.obligationReminderDaysBefore;
+    const normalized = normalizeNotificationRules(rules);
+
+    await ctx.db.replace(enterprise._id, {
+      ...withoutFields(enterprise, ["notificationRules"]),
+      ...(Object.keys(normalized).length > 0 ? { notificationRules: normalized } : {}),
+      updatedAt: new Date().toISOString(),
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "updateNotificationRules",
+      resourceType: "enterprises",
+      resourceId: enterprise._id,
+      action: "update",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      changes: { before: enterprise.notificationRules ?? null, after: normalized },
+    });
+
+    return effectiveNotificationRules(normalized);
+  },
+});
+
+/**
+ * Push the caller's policies to its children. Only children whose grant
+ * allows "policies" are included; naming any other child is an error.
+ */
+export const pushPolicies = mutation({
+  args: {
+    childEnterpriseIds: v.optional(v.array(v.id("enterprises"))), // All granting children by default
+    clauseLibrary: v.boolean(),
+    approvalWorkflows: v.boolean(),
+    notificationRules: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "group.manage");
+    if (!args.clauseLibrary && !args.approvalWorkflows && !args.notificationRules) {
+      throw new ConvexError("Select at least one policy to push");
+    }
+
+    const parent = await ctx.db.get(securityContext.enterpriseId);
+    if (!parent) {
+      throw new ConvexError("Enterprise not found");
+    }
+
+    const children = args.childEnterpriseIds
+      ? await Promise.all(args.childEnterpriseIds.map(id => ctx.db.get(id)))
+      : await ctx.db.query("enterprises").withIndex("by_parent", (q) => q.eq("parentEnterpriseId", parent._id)).collect();
+
+    const targets: Doc<"enterprises">[] = [];
+    for (const [index, child] of children.entries()) {
+      const grant = child?.parentEnterpriseId === parent._id ? await getAccessGrant(ctx, parent._id, child._id) : null;
+      if (child && grantAllows(grant, parent._id, "policies")) {
+        targets.push(child);
+      } else if (args.childEnterpriseIds) {
+        throw new ConvexError(`${child?.name ?? args.childEnterpriseIds[index]} has not granted policy access`);
+      }
+    }
+
+    const [parentClauses, parentWorkflows] = await Promise.all([
+      args.clauseLibrary
+        ? ctx.db.query("clauseLibrary").withIndex("by_enterprise_active", (q) => q.eq("enterpriseId", parent._id).eq("isActive", true)).collect()
+        : Promise.resolve([]),
+      args.approvalWorkflows
+        ? ctx.db.query("approvalWorkflows").withIndex("by_enterprise", (q) => q.eq("enterpriseId", parent._id)).collect()
+        : Promise.resolve([]),
+    ]);
+
+    const results: PolicyPushResult[] = [];
+    for (const child of targets) {
+      const result: PolicyPushResult = {
+        enterpriseId: child._id,
+        name: child.name,
+        clausesCreated: 0,
+        clausesUpdated: 0,
+        clausesArchived: 0,
+        workflowsCreated: 0,
+        workflowsUpdated: 0,
+        workflowsDeactivated: 0,
+        workflowsSkipped: [],
+        notificationRules: false,
+      };
+      if (args.clauseLibrary) await pushClauseLibrary(ctx, securityContext, parent, child, parentClauses, result);
+      if (args.approvalWorkflows) await pushApprovalWorkflows(ctx, securityContext, parent, child, parentWorkflows, result);
+      if (args.notificationRules) result.notificationRules = await pushNotificationRules(ctx, parent, child);
+
+      const { enterpriseId, name, ...counts } = result;
+      await appendAuditLog(ctx, {
+        userId: securityContext.userId,
+        enterpriseId,
+        operation: "inheritPolicies",
+        resourceType: "enterprises",
+        resourceId: enterpriseId,
+        action: "update",
+        status: "success",
+        timestamp: new Date().toISOString(),
+        metadata: { parentEnterpriseId: parent._id, parentName: parent.name, childName: name, ...counts },
+      });
+      results.push(result);
+    }
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: parent._id,
+      operation: "pushPolicies",
+      resourceType: "enterprises",
+      resourceId: parent._id,
+      action: "share",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: {
+        children: targets.map(child => child._id),
+        clauseLibrary: args.clauseLibrary,
+        approvalWorkflows: args.approvalWorkflows,
+        notificationRules: args.notificationRules,
+      },
+    });
+
+    return { results };
+  },
+});
+
+/**
+ * Copy the parent's active clause library into the child. A pushed clause
+ * supersedes the child's own active entry of the same type, which is archived.
+ */
+async function pushClauseLibrary(
+  ctx: MutationCtx,
+  securityContext: SecurityContext,
+  parent: Doc<"enterprises">,
+  child: Doc<"enterprises">,
+  parentClauses: Doc<"clauseLibrary">[],
+  result: PolicyPushResult
+) {
+  const now = new Date().toISOString();
+  const childEntries = await ctx.db
+    .query("clauseLibrary")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", child._id))
+    .collect();
+  const inheritedBySource = new Map(
+    childEntries
+      .filter(entry => entry.inheritedFrom?.enterpriseId === parent._id)
+      .map(entry => [entry.inheritedFrom!.sourceId, entry])
+  );
+  const inheritedFrom = (sourceId: string) => ({ enterpriseId: parent._id, sourceId, syncedAt: now });
+
+  for (const source of parentClauses) {
+    const fields = {
+      clauseType: source.clauseType,
+      title: source.title,
+      ...(source.description !== undefined ? { description: source.description } : {}),
+      standardText: source.standardText,
+      fallbacks: source.fallbacks,
+      keywords: source.keywords,
+      isCritical: source.isCritical,
+      contractTypes: source.contractTypes,
+    };
+
+    const existing = inheritedBySource.get(source._id);
+    if (existing) {
+      if (existing.isActive && matchesFields(existing, fields, ["description"])) continue;
+
+      await ctx.db.insert("clauseLibraryVersions", {
+        entryId: existing._id,
+        version: existing.version,
+        title: existing.title,
+        standardText: existing.standardText,
+        fallbacks: existing.fallbacks,
+        keywords: existing.keywords,
+        isCritical: existing.isCritical,
+        contractTypes: existing.contractTypes,
+        changes: `Updated by ${parent.name}`,
+        createdAt: now,
+        createdBy: securityContext.userId,
+      });
+      await ctx.db.replace(existing._id, {
+        enterpriseId: child._id,
+        ...fields,
+        version: existing.version + 1,
+        isActive: true,
+        inheritedFrom: inheritedFrom(source._id),
+        createdBy: existing.createdBy,
+        createdAt: existing.createdAt,
+        updatedBy: securityContext.userId,
+        updatedAt: now,
+      });
+      result.clausesUpdated++;
+      continue;
+    }
+
+    for (const own of childEntries) {
+      if (own.isActive && !own.inheritedFrom && own.clauseType === source.clauseType) {
+        await ctx.db.patch(own._id, { isActive: false, updatedAt: now, updatedBy: securityContext.userId });
+        result.clausesArchived++;
+      }
+    }
+    await ctx.db.insert("clauseLibrary", {
+      enterpriseId: child._id,
+      ...fields,
+      version: 1,
+      isActive: true,
+      inheritedFrom: inheritedFrom(source._id),
+      createdBy: securityContext.userId,
+      createdAt: now,
+    });
+    result.clausesCreated++;
+  }
+
+  // The parent archived these since the last push
+  const pushed = new Set(parentClauses.map(source => source._id as string));
+  for (const [sourceId, entry] of inheritedBySource) {
+    if (pushed.has(sourceId) || !entry.isActive) continue;
+    await ctx.db.patch(entry._id, { isActive: false, updatedAt: now, updatedBy: securityContext.userId });
+    result.clausesArchived++;
+  }
+}
+
+/**
+ * Copy the parent's approval workflows into the child, keeping their active
+ * state. The child's own workflows stay; priority decides between them.
+ */
+async function pushApprovalWorkflows(
+  ctx: MutationCtx,
+  securityContext: SecurityContext,
+  parent: Doc<"enterprises">,
+  child: Doc<"enterprises">,
+  parentWorkflows: Doc<"approvalWorkflows">[],
+  result: PolicyPushResult
+) {
+  const now = new Date().toISOString();
+  const childWorkflows = await ctx.db
+    .query("approvalWorkflows")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", child._id))
+    .collect();
+  const inheritedBySource = new Map(
+    childWorkflows
+      .filter(workflow => workflow.inheritedFrom?.enterpriseId === parent._id)
+      .map(workflow => [workflow.inheritedFrom!.sourceId, workflow])
+  );
+
+  for (const source of parentWorkflows) {
+    const existing = inheritedBySource.get(source._id);
+    const inherited = inheritWorkflow(source);
+    if (!inherited) {
+      if (source.isActive) result.workflowsSkipped.push(source.name);
+      if (existing?.isActive) {
+        await ctx.db.patch(existing._id, { isActive: false, updatedAt: now });
+        result.workflowsDeactivated++;
+      }
+      continue;
+    }
+
+    const fields = {
+      enterpriseId: child._id,
+      name: source.name,
+      ...(source.description !== undefined ? { description: source.description } : {}),
+      approvalType: source.approvalType,
+      conditions: inherited.conditions,
+      steps: inherited.steps,
+      priority: source.priority,
+      isActive: source.isActive,
+    };
+
+    if (existing) {
+      if (matchesFields(existing, fields, ["description"])) continue;
+
+      await ctx.db.replace(existing._id, {
+        ...fields,
+        inheritedFrom: { enterpriseId: parent._id, sourceId: source._id, syncedAt: now },
+        createdBy: existing.createdBy,
+        createdAt: existing.createdAt,
+        updatedAt: now,
+      });
+      if (existing.isActive && !source.isActive) result.workflowsDeactivated++;
+      else result.workflowsUpdated++;
+    } else if (source.isActive) {
+      await ctx.db.insert("approvalWorkflows", {
+        ...fields,
+        inheritedFrom: { enterpriseId: parent._id, sourceId: source._id, syncedAt: now },
+        createdBy: securityContext.userId,
+        createdAt: now,
+      });
+      result.workflowsCreated++;
+    }
+  }
+
+  // The parent deleted these since the last push
+  const pushed = new Set(parentWorkflows.map(source => source._id as string));
+  for (const [sourceId, workflow] of inheritedBySource) {
+    if (pushed.has(sourceId) || !workflow.isActive) continue;
+    await ctx.db.patch(workflow._id, { isActive: false, updatedAt: now });
+    result.workflowsDeactivated++;
+  }
+}
+
+/**
+ * Give the child the parent's notification rules. A parent without rules of
+ * its own hands the child back the built-in defaults, but only when the
+ * child's rules came from it.
+ */
+async function pushNotificationRules(
+  ctx: MutationCtx,
+  parent: Doc<"enterprises">,
+  child: Doc<"enterprises">
+): Promise<boolean> {
+  const base = withoutFields(child, ["notificationRules", "notificationRulesInheritedFrom"]);
+  const now = new Date().toISOString();
+
+  if (parent.notificationRules) {
+    await ctx.db.replace(child._id, {
+      ...base,
+      notificationRules: parent.notificationRules,
+      notificationRulesInheritedFrom: parent._id,
+      updatedAt: now,
+    });
+    return true;
+  }
+  if (child.notificationRulesInheritedFrom === parent._id) {
+    await ctx.db.replace(child._id, { ...base, updatedAt: now });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Whether a child's copy already holds the fields, including optional ones
+ * the source no longer has
+ */
+function matchesFields(existing: object, fields: object, optional: string[]): boolean {
+  const current = existing as Record<string, unknown>;
+  return Object.entries(fields).every(([key, value]) => JSON.stringify(current[key]) === JSON.stringify(value))
+    && optional.every(key => key in fields || current[key] === undefined);
+}
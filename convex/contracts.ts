@@ -1,4 +1,4 @@
-import { query, mutation, action, internalMutation, internalQuery } from "./_generated/server";
+import { query, mutation, action, internalMutation, internalQuery, QueryCtx, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
 import { Id, Doc } from "./_generated/dataModel";
 import { ConvexError } from "convex/values";
@@ -6,6 +6,27 @@ import { internal, api } from "./_generated/api";
 import { triggerContractEvents } from "./realtime/realtimeHelpers";
 import { ContractFilters, CreateContractArgs, UpdateContractArgs } from "./shared/types";
 import { rateLimitHelpers } from "./security/applyRateLimit";
+import { emitWebhookEvent, getPreviousValues } from "./integrations/webhookEvents";
+import { assertManualStatusChangeAllowed } from "./workflows/approvalWorkflowEngine";
+import { deleteContractText, scheduleContractTextExtraction } from "./documents/contractTexts";
+import { deleteContractIndex } from "./documents/contractIndex";
+import type { ContractTextExtractionResult } from "./documents/extractContractText";
+import { deleteContractObligations, extractContractObligations } from "./obligations/obligations";
+import { deleteContractRenewals, syncContractRenewal } from "./renewals/renewals";
+import { applyEffectiveTerms, deleteContractVersions } from "./amendments/amendments";
+import { normalizeCurrency } from "./currency/currencyConversion";
+import {
+  contractResource,
+  getDepartmentScope,
+  getUserSecurityContext,
+  hasScopedPermission,
+  requirePermission,
+  SecurityContext,
+} from "./security/rowLevelSecurity";
+import { Permission } from "./security/permissions";
+import { assertEnterpriseDepartment, resolveDepartment } from "./departments";
+import { refuseIfHeld } from "./legalHolds/legalHolds";
+import { contractHoldSubject } from "./legalHolds/legalHoldRules";
 
 // Contract type options (matching schema.ts)
 const contractTypeOptions = [
@@ -14,7 +35,7 @@ const contractTypeOptions = [
 
 // Contract status options (matching schema.ts)
 const contractStatusOptions = [
-  "draft", "pending_analysis", "active", "expired", "terminated", "archived",
+  "draft", "pending_analysis", "pending_approval", "active", "expired", "terminated", "archived",
 ] as const;
 
 // Analysis status options (matching schema.ts)
@@ -22,6 +43,54 @@ const analysisStatusOptions = [
   "pending", "processing", "completed", "failed"
 ] as const;
 
+interface ContractAccess {
+  security: SecurityContext;
+  departmentScope: Set<string> | null;
+}
+
+/**
+ * Permissions and department scope of the signed-in user within the
+ * enterprise; null when they are not one of its members
+ */
+async function getUserContractAccess(
+  ctx: QueryCtx,
+  clerkId: string,
+  enterpriseId: Id<"enterprises">
+): Promise<ContractAccess | null> {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_clerkId", (q) => q.eq("clerkId", clerkId))
+    .first();
+  if (!user || user.enterpriseId !== enterpriseId) return null;
+
+  const security = await getUserSecurityContext(ctx, user);
+  return { security, departmentScope: await getDepartmentScope(ctx, security) };
+}
+
+/**
+ * Contracts outside the user's departments or contract types are only
+ * reachable through a grant sharing them with the user
+ */
+function canAccessContract(access: ContractAccess, contract: Doc<"contracts">, permission: Permission): boolean {
+  return hasScopedPermission(access.security, access.departmentScope, permission, contractResource(contract));
+}
+
+function canReadContract(access: ContractAccess | null, contract: Doc<"contracts">): boolean {
+  return !access || canAccessContract(access, contract, "contracts.read");
+}
+
+async function assertContractPermission(
+  ctx: MutationCtx,
+  clerkId: string,
+  contract: Doc<"contracts">,
+  permission: Permission
+): Promise<void> {
+  const access = await getUserContractAccess(ctx, clerkId, contract.enterpriseId);
+  if (!access || !canAccessContract(access, contract, permission)) {
+    throw new ConvexError(`Permission denied: ${permission}`);
+  }
+}
+
 // ============================================================================
 // FILE UPLOAD
 // ============================================================================
@@ -77,6 +146,8 @@ export const createContract = mutation({
     contractType: v.optional(
       v.union(...contractTypeOptions.map(option => v.literal(option)))
     ),
+    value: v.optional(v.number()),
+    currency: v.optional(v.string()), // ISO 4217 code of value
     notes: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
@@ -125,6 +196,11 @@ export const createContract = mutation({
       throw new ConvexError("User not found.");
     }
 
+    requirePermission(await getUserSecurityContext(ctx, user), "contracts.create", {
+      type: "contract",
+      ...(args.contractType ? { contractType: args.contractType } : {}),
+    });
+
     // Create the contract
     const contractData: any = {
       enterpriseId: args.enterpriseId,
@@ -145,6 +221,17 @@ export const createContract = mutation({
     if (args.contractType) {
       contractData.contractType = args.contractType;
     }
+
+    if (args.value !== undefined) {
+      if (!Number.isFinite(args.value) || args.value < 0) {
+        throw new ConvexError("Validation Error: Contract value must be a positive number.");
+      }
+      contractData.value = args.value;
+    }
+
+    if (args.currency) {
+      contractData.currency = normalizeCurrency(args.currency);
+    }
     
     if (args.notes?.trim()) {
       // Validate and sanitize notes
@@ -173,8 +260,15 @@ export const createContract = mutation({
       }
     );
 
-    // Trigger contract analysis (optional - can be done manually or via agent system)
-    // For now, we'll leave the contract in draft status until analysis is manually triggered
+    await emitWebhookEvent(ctx, {
+      type: "contract.created",
+      enterpriseId: args.enterpriseId,
+      data: { contract: { _id: contractId, ...contractData } },
+    });
+
+    // Extract the document text for analysis; the contract stays in draft
+    // until analysis is triggered manually or by the agent system
+    await scheduleContractTextExtraction(ctx, contractId);
 
     console.log(`Contract created with ID: ${contractId} for enterprise ${args.enterpriseId}`);
     return contractId;
@@ -252,6 +346,11 @@ export const getContracts = query({
       contracts = contracts.filter(contract => contract.contractType === args.contractType);
     }
 
+    // Managers and scoped roles only see contracts of their departments and
+    // contract types, plus any shared with them
+    const access = await getUserContractAccess(ctx, identity.subject, args.enterpriseId);
+    contracts = contracts.filter(contract => canReadContract(access, contract));
+
     // Optimize: Fetch vendor information in parallel for all contracts
     const vendorIds = [...new Set(contracts.map(contract => contract.vendorId))];
     const vendorsMap = new Map();
@@ -374,11 +473,18 @@ export const getContractById = query({
       return null;
     }
 
+    const access = await getUserContractAccess(ctx, identity.subject, args.enterpriseId);
+    if (!canReadContract(access, contract)) {
+      return null;
+    }
+
     // Get vendor information
     const vendor = contract.vendorId ? await ctx.db.get(contract.vendorId) : null;
+    const department = await resolveDepartment(ctx, contract.enterpriseId, contract.departmentId);
 
     return {
       ...contract,
+      departmentName: department?.name ?? contract.departmentId,
       vendor: vendor ? {
         _id: vendor._id,
         name: vendor.name,
@@ -410,6 +516,9 @@ export const updateContract = mutation({
       v.union(...contractTypeOptions.map(option => v.literal(option)))
     ),
     notes: v.optional(v.string()),
+    value: v.optional(v.number()),
+    currency: v.optional(v.string()), // ISO 4217 code of value
+    departmentId: v.optional(v.id("departments")),
     // Allow updating extracted fields if needed
     extractedParties: v.optional(v.array(v.string())),
     extractedStartDate: v.optional(v.string()),
@@ -433,6 +542,7 @@ export const updateContract = mutation({
     if (existingContract.enterpriseId !== args.enterpriseId) {
       throw new ConvexError("Permission denied: You do not have permission to update this contract.");
     }
+    await assertContractPermission(ctx, identity.subject, existingContract, "contracts.update");
 
     const { contractId, enterpriseId, ...updates } = args;
 
@@ -462,6 +572,23 @@ export const updateContract = mutation({
       }
     }
 
+    if (updates.value !== undefined && (!Number.isFinite(updates.value) || updates.value < 0)) {
+      throw new ConvexError("Validation Error: Contract value must be a positive number.");
+    }
+
+    if (updates.currency !== undefined) {
+      updates.currency = normalizeCurrency(updates.currency);
+    }
+
+    if (updates.departmentId) {
+      await assertEnterpriseDepartment(ctx, args.enterpriseId, updates.departmentId);
+    }
+
+    // Approval workflows own the pending_approval status
+    if (updates.status !== undefined) {
+      assertManualStatusChangeAllowed(existingContract.status, updates.status);
+    }
+
     // Validate and sanitize notes if provided
     if (updates.notes !== undefined) {
       const trimmedNotes = updates.notes.trim();
@@ -487,6 +614,18 @@ export const updateContract = mutation({
 
     await ctx.db.patch(args.contractId, updates);
 
+    // A new end date or status moves the renewal deadline
+    if (updates.extractedEndDate !== undefined || updates.status !== undefined) {
+      await syncContractRenewal(ctx, args.contractId);
+    }
+
+    await emitWebhookEvent(ctx, {
+      type: "contract.updated",
+      enterpriseId: existingContract.enterpriseId,
+      data: { contract: await ctx.db.get(args.contractId) },
+      previous: getPreviousValues(existingContract, updates),
+    });
+
     console.log(`Contract updated with ID: ${args.contractId}. Updates applied:`, updates);
     return { success: true };
   },
@@ -496,6 +635,39 @@ export const updateContract = mutation({
 // DELETE
 // ============================================================================
 
+/**
+ * Delete a contract with its file, extracted text, passage index,
+ * obligations, renewals and version lineage. Callers check permissions and
+ * legal holds first.
+ */
+export async function removeContract(ctx: MutationCtx, contract: Doc<"contracts">): Promise<void> {
+  // Delete the associated file from storage
+  try {
+    await ctx.storage.delete(contract.storageId);
+  } catch (error) {
+    // Failed to delete file for contract
+    // Continue with contract deletion even if file deletion fails
+  }
+
+  // Delete the contract, its extracted text, index and version lineage
+  await deleteContractText(ctx, contract._id);
+  await deleteContractIndex(ctx, contract._id);
+  await deleteContractObligations(ctx, contract._id);
+  await deleteContractRenewals(ctx, contract._id);
+  await deleteContractVersions(ctx, contract._id);
+  await ctx.db.delete(contract._id);
+
+  await emitWebhookEvent(ctx, {
+    type: "contract.deleted",
+    enterpriseId: contract.enterpriseId,
+    data: {
+      contractId: contract._id,
+      title: contract.title,
+      vendorId: contract.vendorId,
+    },
+  });
+}
+
 /**
  * Delete a contract
  */
@@ -519,17 +691,25 @@ export const deleteContract = mutation({
     if (existingContract.enterpriseId !== args.enterpriseId) {
       throw new ConvexError("Permission denied: You do not have permission to delete this contract.");
     }
+    await assertContractPermission(ctx, identity.subject, existingContract, "contracts.delete");
 
-    // Delete the associated file from storage
-    try {
-      await ctx.storage.delete(existingContract.storageId);
-    } catch (error) {
-      // Failed to delete file for contract
-      // Continue with contract deletion even if file deletion fails
+    const currentUser = await ctx.db
+      .query("users")
+      .withIndex("by_clerkId", (q) => q.eq("clerkId", identity.subject))
+      .first();
+    const refusal = await refuseIfHeld(ctx, existingContract.enterpriseId, contractHoldSubject(existingContract), {
+      operation: "deleteContract",
+      action: "delete",
+      resourceType: "contracts",
+      resourceId: args.contractId,
+      description: "delete this contract",
+      ...(currentUser ? { userId: currentUser._id } : {}),
+    });
+    if (refusal) {
+      return { success: false, error: refusal };
     }
 
-    // Delete the contract
-    await ctx.db.delete(args.contractId);
+    await removeContract(ctx, existingContract);
 
     console.log(`Contract deleted with ID: ${args.contractId} from enterprise ${args.enterpriseId}`);
     return { success: true };
@@ -547,17 +727,29 @@ export const analyzeContract = action({
   args: {
     contractId: v.id("contracts"),
   },
-  handler: async (ctx, args) => {
-    // Simple implementation that just marks the contract as completed
-    // This avoids all the complex type inference issues
+  handler: async (ctx, args): Promise<{ success: boolean; characterCount?: number; error?: string }> => {
     console.log(`Starting contract analysis for ${args.contractId}`);
     
     try {
-      // Simulate a brief delay for analysis
-      await new Promise(resolve => setTimeout(resolve, 500));
+      // Analysis works from the document text; extract it now if the upload
+      // pipeline has not produced it yet
+      let text: string | null = await ctx.runQuery(internal.documents.contractTexts.getExtractedText, {
+        contractId: args.contractId,
+      });
+      if (text === null) {
+        const extraction: ContractTextExtractionResult = await ctx.runAction(internal.documents.extractContractText.extractContractText, {
+          contractId: args.contractId,
+        });
+        if (!extraction.success) {
+          return { success: false, ...(extraction.error ? { error: extraction.error } : {}) };
+        }
+        text = await ctx.runQuery(internal.documents.contractTexts.getExtractedText, {
+          contractId: args.contractId,
+        });
+      }
       
       console.log(`Contract analysis completed for ${args.contractId}`);
-      return { success: true };
+      return { success: true, characterCount: text?.length ?? 0 };
       
     } catch (error) {
       console.error(`Contract analysis failed for contract ${args.contractId}:`, error);
@@ -723,6 +915,19 @@ export const updateAnalysisResults = mutation({
     }
 
     await ctx.db.patch(args.contractId, updateObj);
+    // Analysis reads the original document; amendments in effect still override it
+    await applyEffectiveTerms(ctx, args.contractId);
+
+    // Track the obligations and renewal terms in the analyzed contract
+    await extractContractObligations(ctx, args.contractId);
+    await syncContractRenewal(ctx, args.contractId, { extract: true });
+
+    await emitWebhookEvent(ctx, {
+      type: "contract.analyzed",
+      enterpriseId: contract.enterpriseId,
+      data: { contract: await ctx.db.get(args.contractId) },
+      previous: getPreviousValues(contract, updateObj),
+    });
   },
 });
 
@@ -930,6 +1135,13 @@ export const assignVendorToContract = mutation({
       updatedAt: Date.now(),
     });
 
+    await emitWebhookEvent(ctx, {
+      type: "contract.updated",
+      enterpriseId: args.enterpriseId,
+      data: { contract: await ctx.db.get(args.contractId) },
+      previous: getPreviousValues(contract, { vendorId: args.vendorId }),
+    });
+
     // Get user for event tracking
     const user = await ctx.db
       .query("users")
@@ -1021,6 +1233,9 @@ export const analyzeContractInternal = internalMutation({
       await ctx.db.patch(args.contractId, {
         analysisStatus: "completed",
       });
+
+      await extractContractObligations(ctx, args.contractId);
+      await syncContractRenewal(ctx, args.contractId, { extract: true });
       
     } catch (error) {
       // Update with error status
@@ -1,7 +1,10 @@
 // convex/enterprises.ts
 import { query, mutation } from "../../_generated/server";
 import { v, ConvexError } from "convex/values";
-import { UserRole, userRoleOptions } from "../../schema";
+import { Id } from "../../_generated/dataModel";
+import { EnterpriseGrantScope, UserRole, userRoleOptions } from "../../schema";
+import { getAccessGrant } from "../../consolidation/consolidation";
+import { grantAllows } from "../../consolidation/consolidationRules";
 
 // ============================================================================
 // ENTERPRISE CREATION & ONBOARDING
@@ -912,11 +915,22 @@ export const getChildOrganizations = query({
       .withIndex("by_parent", (q) => q.eq("parentEnterpriseId", user.enterpriseId))
       .collect();
 
-    return childOrganizations.map(org => ({
-      _id: org._id,
-      name: org.name,
-      createdAt: org.createdAt,
-    }));
+    const result: Array<{
+      _id: Id<"enterprises">;
+      name: string;
+      createdAt?: string | undefined;
+      grantedScopes: EnterpriseGrantScope[];
+    }> = [];
+    for (const org of childOrganizations) {
+      const grant = await getAccessGrant(ctx, user.enterpriseId, org._id);
+      result.push({
+        _id: org._id,
+        name: org.name,
+        createdAt: org.createdAt,
+        grantedScopes: grant && !grant.revokedAt ? grant.scopes : [],
+      });
+    }
+    return result;
   },
 });
 
@@ -951,9 +965,10 @@ export const hasAccessToOrganization = query({
     const targetEnterprise = await ctx.db.get(args.targetEnterpriseId);
     if (!targetEnterprise) return false;
 
-    // Parent organizations can access their children
+    // Parent organizations can access children that granted them reporting access
     if (targetEnterprise.parentEnterpriseId === user.enterpriseId) {
-      return true;
+      const grant = await getAccessGrant(ctx, user.enterpriseId, targetEnterprise._id);
+      return grantAllows(grant, user.enterpriseId, "reporting");
     }
 
     // Child organizations cannot access each other
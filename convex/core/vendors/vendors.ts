@@ -5,6 +5,9 @@ import { Id } from "../../_generated/dataModel";
 import { ConvexError } from "convex/values";
 import { api } from "../../_generated/api";
 import { VendorFilters, VendorCategory, CreateVendorArgs, UpdateVendorArgs } from "../../shared/types"; 
+import { emitWebhookEvent, getPreviousValues } from "../../integrations/webhookEvents";
+import { refuseIfHeld } from "../../legalHolds/legalHolds";
+import { getUserSecurityContext, requirePermission } from "../../security/rowLevelSecurity";
 
 
 const vendorCategoryOptions = [
@@ -12,6 +15,9 @@ const vendorCategoryOptions = [
   "facilities", "logistics", "manufacturing", "consulting", "other"
 ] as const;
 
+// Scores below this raise a vendor.performance_alert webhook event
+export const VENDOR_SCORE_ALERT_THRESHOLD = 60;
+
 // Helper function to validate email format
 function isValidEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -60,10 +66,7 @@ export const createVendor = mutation({
       throw new ConvexError("Access denied: You can only create vendors for your enterprise.");
     }
 
-    // Check role permissions (viewers cannot create)
-    if (currentUser.role === "viewer") {
-      throw new ConvexError("Permission denied: Viewers cannot create vendors.");
-    }
+    requirePermission(await getUserSecurityContext(ctx, currentUser), "vendors.create");
 
     if (!args.name || args.name.trim() === "") {
         throw new ConvexError("Validation Error: Vendor name cannot be empty.");
@@ -109,6 +112,12 @@ export const createVendor = mutation({
     
     const vendorId = await ctx.db.insert("vendors", vendorData);
 
+    await emitWebhookEvent(ctx, {
+      type: "vendor.created",
+      enterpriseId: args.enterpriseId,
+      data: { vendor: { _id: vendorId, ...vendorData } },
+    });
+
     // Vendor created successfully
     return vendorId;
   },
@@ -434,10 +443,7 @@ export const updateVendor = mutation({
       throw new ConvexError("Access denied.");
     }
 
-    // Check role permissions
-    if (currentUser.role === "viewer") {
-      throw new ConvexError("Permission denied: Viewers cannot update vendors.");
-    }
+    requirePermission(await getUserSecurityContext(ctx, currentUser), "vendors.update", { type: "vendor", id: args.vendorId });
 
     const existingVendor = await ctx.db.get(args.vendorId);
     if (!existingVendor) {
@@ -504,6 +510,34 @@ export const updateVendor = mutation({
       updatedAt: Date.now(),
     });
 
+    const updatedVendor = await ctx.db.get(args.vendorId);
+    await emitWebhookEvent(ctx, {
+      type: "vendor.updated",
+      enterpriseId: existingVendor.enterpriseId,
+      data: { vendor: updatedVendor },
+      previous: getPreviousValues(existingVendor, updatesToApply),
+    });
+
+    // Alert only when a score crosses below the threshold, not on every low-score update
+    const droppedScores = (["performanceScore", "complianceScore"] as const).filter(field =>
+      updatesToApply[field] !== undefined &&
+      updatesToApply[field] < VENDOR_SCORE_ALERT_THRESHOLD &&
+      (existingVendor[field] ?? 100) >= VENDOR_SCORE_ALERT_THRESHOLD
+    );
+    if (droppedScores.length > 0) {
+      await emitWebhookEvent(ctx, {
+        type: "vendor.performance_alert",
+        enterpriseId: existingVendor.enterpriseId,
+        data: {
+          vendorId: args.vendorId,
+          name: updatedVendor?.name,
+          threshold: VENDOR_SCORE_ALERT_THRESHOLD,
+          scores: Object.fromEntries(droppedScores.map(field => [field, updatesToApply[field]])),
+        },
+        previous: Object.fromEntries(droppedScores.map(field => [field, existingVendor[field] ?? null])),
+      });
+    }
+
     // Vendor updated successfully
     return { success: true };
   },
@@ -533,10 +567,7 @@ export const deleteVendor = mutation({
       throw new ConvexError("Access denied.");
     }
 
-    // Check role permissions (only admins and owners can delete)
-    if (currentUser.role !== "owner" && currentUser.role !== "admin") {
-      throw new ConvexError("Permission denied: Only owners and admins can delete vendors.");
-    }
+    requirePermission(await getUserSecurityContext(ctx, currentUser), "vendors.delete");
 
     const existingVendor = await ctx.db.get(args.vendorId);
     if (!existingVendor) {
@@ -562,8 +593,26 @@ export const deleteVendor = mutation({
         );
     }
 
+    const refusal = await refuseIfHeld(ctx, args.enterpriseId, { vendorIds: [args.vendorId] }, {
+      operation: "deleteVendor",
+      action: "delete",
+      resourceType: "vendors",
+      resourceId: args.vendorId,
+      userId: currentUser._id,
+      description: "delete this vendor",
+    });
+    if (refusal) {
+      return { success: false, error: refusal };
+    }
+
     await ctx.db.delete(args.vendorId);
 
+    await emitWebhookEvent(ctx, {
+      type: "vendor.deleted",
+      enterpriseId: args.enterpriseId,
+      data: { vendorId: args.vendorId, name: existingVendor.name },
+    });
+
     console.log(`Vendor deleted with ID: ${args.vendorId} from enterprise ${args.enterpriseId}`);
     return { success: true };
   },
@@ -792,9 +841,7 @@ export const bulkUpdateCategories = mutation({
       throw new ConvexError("Access denied.");
     }
 
-    if (currentUser.role !== "owner" && currentUser.role !== "admin") {
-      throw new ConvexError("Permission denied: Only owners and admins can bulk update vendors.");
-    }
+    const securityContext = await getUserSecurityContext(ctx, currentUser);
 
     let successCount = 0;
     const errors: Array<{ vendorId: string; error: string }> = [];
@@ -812,6 +859,7 @@ export const bulkUpdateCategories = mutation({
           continue;
         }
 
+        requirePermission(securityContext, "vendors.update", { type: "vendor", id: vendor._id });
         await ctx.db.patch(update.vendorId, { category: update.category });
         successCount++;
       } catch (error) {
@@ -1,8 +1,13 @@
 // convex/coreUsers.ts
-import { query, mutation } from "./_generated/server";
+import { query, mutation, MutationCtx } from "./_generated/server";
+import type { UserIdentity } from "convex/server";
 import { v } from "convex/values";
 import { ConvexError } from "convex/values";
 import { UserRole, userRoleOptions } from "./schema"; // Import from schema
+import { emitWebhookEvent, getPreviousValues } from "./integrations/webhookEvents";
+import { Doc, Id } from "./_generated/dataModel";
+import { isPendingClerkId } from "./scim/scimProtocol";
+import { checkSignIn } from "./security/ssoPolicy";
 
 // ============================================================================
 // USER MANAGEMENT
@@ -132,6 +137,8 @@ export const upsertUser = mutation({
       .first();
     
     if (existingUser) {
+      await assertSsoSignIn(ctx, existingUser.enterpriseId, identity);
+
       const updateData: any = {
         lastLoginAt: new Date().toISOString(),
         email: identity.email || existingUser.email,
@@ -148,6 +155,25 @@ export const upsertUser = mutation({
       return existingUser._id;
     }
 
+    // First sign-in of a user provisioned over SCIM: link them by email, but only
+    // once the identity provider has verified that the email belongs to them
+    if (identity.email && identity.emailVerified === true) {
+      const provisionedUser = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", identity.email!.toLowerCase()))
+        .filter((q) => q.eq(q.field("provisionedVia"), "scim"))
+        .first();
+
+      if (provisionedUser && isPendingClerkId(provisionedUser.clerkId)) {
+        await assertSsoSignIn(ctx, provisionedUser.enterpriseId, identity);
+        await ctx.db.patch(provisionedUser._id, {
+          clerkId: identity.subject,
+          lastLoginAt: new Date().toISOString(),
+        });
+        return provisionedUser._id;
+      }
+    }
+
     // New user: Determine enterprise and role
     let resolvedEnterpriseId = args.enterpriseId;
     let resolvedRole: UserRole = "user"; // Default role as per ROLE_PERMISSIONS.md
@@ -205,6 +231,8 @@ export const upsertUser = mutation({
       );
     }
 
+    await assertSsoSignIn(ctx, resolvedEnterpriseId, identity);
+
     // Create the new user document
     const userData: any = {
       clerkId: identity.subject,
@@ -225,6 +253,12 @@ export const upsertUser = mutation({
     
     const userId = await ctx.db.insert("users", userData);
 
+    await emitWebhookEvent(ctx, {
+      type: "user.created",
+      enterpriseId: resolvedEnterpriseId,
+      data: { user: toUserEventData({ _id: userId, ...userData }) },
+    });
+
     return userId;
   },
 });
@@ -344,6 +378,15 @@ export const updateUserRole = mutation({
       updatedAt: new Date().toISOString(), // Update timestamp
     });
 
+    if (targetUser.role !== args.newRole) {
+      await emitWebhookEvent(ctx, {
+        type: "user.role_changed",
+        enterpriseId: targetUser.enterpriseId,
+        data: { user: toUserEventData({ ...targetUser, role: args.newRole }) },
+        previous: { role: targetUser.role },
+      });
+    }
+
     return { success: true, message: `User role updated to ${args.newRole}.` };
   },
 });
@@ -533,8 +576,42 @@ export const updateUserProfile = mutation({
     if (Object.keys(updates).length > 0) {
       updates.updatedAt = new Date().toISOString();
       await ctx.db.patch(userToUpdate._id, updates);
+
+      await emitWebhookEvent(ctx, {
+        type: "user.updated",
+        enterpriseId: userToUpdate.enterpriseId,
+        data: { user: toUserEventData({ ...userToUpdate, ...updates }) },
+        previous: getPreviousValues(userToUpdate, updates),
+      });
     }
 
     return { success: true, message: "Profile updated successfully." };
   },
-});
\ No newline at end of file
+});
+
+// Fields shared with webhook receivers; auth identifiers stay internal
+export function toUserEventData(user: Partial<Doc<"users">> & { _id: Id<"users"> }) {
+  return {
+    id: user._id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+    department: user.department,
+    title: user.title,
+    isActive: user.isActive,
+  };
+}
+
+// Reject sign-ins that skip the identity provider the enterprise requires
+async function assertSsoSignIn(
+  ctx: MutationCtx,
+  enterpriseId: Id<"enterprises">,
+  identity: UserIdentity
+): Promise<void> {
+  const enterprise = await ctx.db.get(enterpriseId);
+  const error = enterprise ? checkSignIn(enterprise, identity) : null;
+  if (error) {
+    throw new ConvexError(error);
+  }
+}
@@ -87,28 +87,20 @@ crons.daily(
   internal.memory.consolidateAllMemories
 );
 
-/**
- * Clean up old agent logs weekly
- */
-crons.weekly(
-  "cleanup agent logs",
-  { dayOfWeek: "sunday", hourUTC: 5, minuteUTC: 0 }, // Sunday at 5 AM UTC
-  internal.agents.manager.cleanupOldLogs,
-  { daysToKeep: 90 }
-);
-
 // ============================================================================
-// NOTIFICATION CLEANUP
+// DATA RETENTION
 // ============================================================================
 
 /**
- * Archive old notifications monthly
+ * Archive, anonymize or delete data past each enterprise's retention rules.
+ * This replaces the fixed notification archiving and agent log cleanup that
+ * ran for every enterprise: nothing is cleaned up for an enterprise until an
+ * admin saves rules, reviews a dry run and enables enforcement.
  */
-crons.monthly(
-  "archive old notifications",
-  { day: 1, hourUTC: 6, minuteUTC: 0 }, // 1st of month at 6 AM UTC
-  internal.notifications.archiveOldNotifications,
-  { daysToKeep: 180 }
+crons.daily(
+  "enforce retention policies",
+  { hourUTC: 5, minuteUTC: 0 }, // Run at 5 AM UTC
+  internal.retention.retentionEnforcement.enforceRetentionPolicies
 );
 
 // ============================================================================
@@ -125,6 +117,33 @@ crons.daily(
   { daysAhead: 30 }
 );
 
+/**
+ * Send renewal reminders ahead of cancellation deadlines
+ */
+crons.daily(
+  "process renewal reminders",
+  { hourUTC: 9, minuteUTC: 15 },
+  internal.renewals.renewals.processRenewalReminders
+);
+
+/**
+ * Put executed contract amendments into effect on their effective date
+ */
+crons.daily(
+  "apply due contract amendments",
+  { hourUTC: 0, minuteUTC: 15 },
+  internal.amendments.amendments.applyDueAmendments
+);
+
+/**
+ * Re-project budgets to the end of their period and raise forecast alerts
+ */
+crons.daily(
+  "refresh budget forecasts",
+  { hourUTC: 1, minuteUTC: 0 },
+  internal.forecasting.forecasts.refreshBudgetForecasts
+);
+
 /**
  * Update contract status for expired contracts
  */
@@ -134,6 +153,43 @@ crons.daily(
   internal.maintenance.contractMaintenance.updateExpiredContracts
 );
 
+// ============================================================================
+// WEBHOOK DELIVERY QUEUE
+// ============================================================================
+
+/**
+ * Re-schedule webhook deliveries whose scheduled attempt never ran
+ */
+crons.interval(
+  "requeue stalled webhook deliveries",
+  { minutes: 15 },
+  internal.integrations.webhooks.requeueStalledDeliveries,
+  { stalledForMinutes: 10 }
+);
+
+/**
+ * Escalate approval steps that have passed their SLA
+ */
+crons.interval(
+  "escalate overdue approval steps",
+  { minutes: 15 },
+  internal.workflows.approvalWorkflows.escalateOverdueSteps
+);
+
+// ============================================================================
+// AGENTS
+// ============================================================================
+
+/**
+ * Run each enterprise's agents, one scheduled orchestration per enterprise
+ */
+crons.interval(
+  "orchestrate agents",
+  { minutes: 5 },
+  internal.agents.manager.scheduleAgentOrchestration,
+  {}
+);
+
 // ============================================================================
 // SYSTEM HEALTH CHECKS
 // ============================================================================
@@ -0,0 +1,322 @@
+import { ConvexError } from "convex/values";
+
+/**
+ * Currency conversion rules
+ *
+ * Contracts and budgets carry an ISO 4217 currency; budgets and analytics are
+ * reported in the enterprise's reporting currency. Rates are dated and a
+ * conversion uses the latest rate on or before the date being converted,
+ * inverting the reverse pair or crossing through USD when the direct pair is
+ * missing. Pure so it can be unit tested; persistence lives in `fxRates.ts`.
+ */
+
+export interface FxRate {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  rateDate: string;
+}
+
+export interface ResolvedRate {
+  rate: number;
+  rateDate: string;
+  method: "identity" | "direct" | "inverse" | "cross";
+}
+
+export interface ConvertedAmount {
+  amount: number;
+  currency: string;
+  originalAmount: number;
+  originalCurrency: string;
+  rate: number;
+  rateDate?: string;
+}
+
+export interface FxCsvParseResult {
+  rates: FxRate[];
+  errors: string[];
+}
+
+export const DEFAULT_CURRENCY = "USD";
+
+export const SUPPORTED_CURRENCIES = [
+  "USD", "EUR", "GBP", "JPY", "CHF", "CAD", "AUD", "NZD", "CNY", "HKD",
+  "SGD", "INR", "SEK", "NOK", "DKK", "PLN", "CZK", "MXN", "BRL", "ZAR",
+] as const;
+
+// Rates against USD for the local provider stub, so conversions work in
+// development and before an enterprise has imported its own rates
+export const PROVIDER_STUB_USD_RATES: Record<string, number> = {
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 149.5,
+  CHF: 0.88,
+  CAD: 1.36,
+  AUD: 1.52,
+  NZD: 1.66,
+  CNY: 7.24,
+  HKD: 7.82,
+  SGD: 1.34,
+  INR: 83.2,
+  SEK: 10.6,
+  NOK: 10.7,
+  DKK: 6.88,
+  PLN: 3.98,
+  CZK: 23.1,
+  MXN: 17.1,
+  BRL: 4.97,
+  ZAR: 18.6,
+};
+
+// Symbols checked before ISO codes; "$" alone is ambiguous and left to the default
+const CURRENCY_SYMBOLS: Array<[string, string]> = [
+  ["US$", "USD"],
+  ["CA$", "CAD"],
+  ["C$", "CAD"],
+  ["A$", "AUD"],
+  ["NZ$", "NZD"],
+  ["HK$", "HKD"],
+  ["S$", "SGD"],
+  ["R$", "BRL"],
+  ["€", "EUR"],
+  ["£", "GBP"],
+  ["¥", "JPY"],
+  ["₹", "INR"],
+  ["CHF", "CHF"],
+];
+
+const MAX_CSV_ROWS = 5000;
+
+/**
+ * Upper-case and check an ISO 4217 code. Throws on anything unsupported.
+ */
+export function normalizeCurrency(code: string): string {
+  const normalized = code.trim().toUpperCase();
+  if (!(SUPPORTED_CURRENCIES as readonly string[]).includes(normalized)) {
+    throw new ConvexError(`Unsupported currency: ${code}`);
+  }
+  return normalized;
+}
+
+export function isSupportedCurrency(code: string): boolean {
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(code.trim().toUpperCase());
+}
+
+/**
+ * The currency named in a free-text price, by symbol or ISO code
+ */
+export function detectCurrency(text: string): string | undefined {
+  for (const [symbol, currency] of CURRENCY_SYMBOLS) {
+    if (text.includes(symbol)) return currency;
+  }
+  const code = text.toUpperCase().match(/\b([A-Z]{3})\b/g)?.find(isSupportedCurrency);
+  return code;
+}
+
+/**
+ * The first amount in a free-text price. Handles thousands separators and
+ * European decimal commas; returns 0 when there is no number.
+ */
+export function parseAmount(priceString: string): number {
+  if (!priceString) return 0;
+
+  const cleaned = priceString.replace(/[^0-9.,]/g, '');
+  let normalized = cleaned;
+
+  // If there's both comma and period, whichever comes last is the decimal
+  // separator (1,234.50 or 1.234,50)
+  if (cleaned.includes(',') && cleaned.includes('.')) {
+    normalized = cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.')
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (cleaned.includes(',')) {
+    // Check if comma is decimal separator (European format)
+    const parts = cleaned.split(',');
+    if (parts.length === 2 && parts[1] && parts[1].length <= 2) {
+      normalized = cleaned.replace(',', '.');
+    } else {
+      normalized = cleaned.replace(/,/g, '');
+    }
+  }
+
+  const value = parseFloat(normalized);
+  return isNaN(value) ? 0 : value;
+}
+
+/**
+ * Amount and currency of a free-text price, falling back to the given
+ * currency when none is named
+ */
+export function parseMoney(priceString: string, fallbackCurrency: string = DEFAULT_CURRENCY): { amount: number; currency: string } {
+  return {
+    amount: parseAmount(priceString),
+    currency: detectCurrency(priceString ?? "") ?? fallbackCurrency,
+  };
+}
+
+/**
+ * Currency a contract's amounts are in: its own currency when set, else the
+ * one named in its extracted pricing, else the given fallback
+ */
+export function contractCurrency(
+  contract: { currency?: string | undefined; extractedPricing?: string | undefined },
+  fallbackCurrency: string = DEFAULT_CURRENCY
+): string {
+  return contract.currency ?? (contract.extractedPricing ? detectCurrency(contract.extractedPricing) : undefined) ?? fallbackCurrency;
+}
+
+/**
+ * The rate to convert `from` into `to` on the given day: the latest direct
+ * rate on or before it, else the inverse of the reverse pair, else a cross
+ * rate through `via`. Returns null when no rate is available.
+ */
+export function findRate(rates: FxRate[], from: string, to: string, date: string, via?: string): ResolvedRate | null {
+  const day = date.slice(0, 10);
+  if (from === to) return { rate: 1, rateDate: day, method: "identity" };
+
+  const direct = latestRate(rates, from, to, day);
+  if (direct) return { rate: direct.rate, rateDate: direct.rateDate, method: "direct" };
+
+  const reverse = latestRate(rates, to, from, day);
+  if (reverse) return { rate: 1 / reverse.rate, rateDate: reverse.rateDate, method: "inverse" };
+
+  if (via && via !== from && via !== to) {
+    const first = findRate(rates, from, via, day);
+    const second = findRate(rates, via, to, day);
+    if (first && second) {
+      return {
+        rate: first.rate * second.rate,
+        // A cross rate is only as fresh as its older leg
+        rateDate: first.rateDate < second.rateDate ? first.rateDate : second.rateDate,
+        method: "cross",
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convert an amount between currencies as of the given day. Returns null when
+ * no rate is available rather than guessing.
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: FxRate[],
+  date: string,
+  via?: string
+): ConvertedAmount | null {
+  const resolved = findRate(rates, from, to, date, via);
+  if (!resolved) return null;
+
+  return {
+    amount: roundMoney(amount * resolved.rate),
+    currency: to,
+    originalAmount: amount,
+    originalCurrency: from,
+    rate: resolved.rate,
+    ...(resolved.method !== "identity" ? { rateDate: resolved.rateDate } : {}),
+  };
+}
+
+/**
+ * Parse rates from CSV with a `base,quote,rate,date` header (columns in any
+ * order). Bad rows are reported and skipped rather than failing the import.
+ */
+export function parseFxRatesCsv(csv: string): FxCsvParseResult {
+  const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  const rates: FxRate[] = [];
+  const errors: string[] = [];
+
+  if (lines.length === 0) {
+    return { rates, errors: ["CSV is empty"] };
+  }
+
+  const header = splitCsvLine(lines[0]!).map(column => column.toLowerCase());
+  const columns = {
+    base: header.findIndex(column => column === "base" || column === "base_currency" || column === "from"),
+    quote: header.findIndex(column => column === "quote" || column === "quote_currency" || column === "to"),
+    rate: header.indexOf("rate"),
+    date: header.findIndex(column => column === "date" || column === "rate_date"),
+  };
+  const missing = Object.entries(columns).filter(([, index]) => index === -1).map(([name]) => name);
+  if (missing.length > 0) {
+    return { rates, errors: [`CSV header is missing: ${missing.join(", ")}`] };
+  }
+  if (lines.length - 1 > MAX_CSV_ROWS) {
+    return { rates, errors: [`CSV has more than ${MAX_CSV_ROWS} rows`] };
+  }
+
+  lines.slice(1).forEach((line, index) => {
+    const row = index + 2;
+    const cells = splitCsvLine(line);
+    const base = (cells[columns.base] ?? "").toUpperCase();
+    const quote = (cells[columns.quote] ?? "").toUpperCase();
+    const rate = Number(cells[columns.rate]);
+    const date = cells[columns.date] ?? "";
+
+    if (!isSupportedCurrency(base) || !isSupportedCurrency(quote)) {
+      errors.push(`Row ${row}: unsupported currency pair ${base || "?"}/${quote || "?"}`);
+    } else if (base === quote) {
+      errors.push(`Row ${row}: base and quote currency are the same`);
+    } else if (!Number.isFinite(rate) || rate <= 0) {
+      errors.push(`Row ${row}: rate must be a positive number`);
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(new Date(date).getTime())) {
+      errors.push(`Row ${row}: date must be YYYY-MM-DD`);
+    } else {
+      rates.push({ baseCurrency: base, quoteCurrency: quote, rate, rateDate: date });
+    }
+  });
+
+  return { rates, errors };
+}
+
+/**
+ * Rates from the local provider stub for the given day, quoted from `base`
+ */
+export function providerStubRates(base: string, date: string): FxRate[] {
+  const rateDate = date.slice(0, 10);
+  const usdRate = base === DEFAULT_CURRENCY ? 1 : PROVIDER_STUB_USD_RATES[base];
+  if (usdRate === undefined) return [];
+
+  return SUPPORTED_CURRENCIES
+    .filter(quote => quote !== base)
+    .map(quote => ({
+      baseCurrency: base,
+      quoteCurrency: quote,
+      rate: roundRate((quote === DEFAULT_CURRENCY ? 1 : PROVIDER_STUB_USD_RATES[quote]!) / usdRate),
+      rateDate,
+    }));
+}
+
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+function latestRate(rates: FxRate[], base: string, quote: string, day: string): FxRate | undefined {
+  let latest: FxRate | undefined;
+  for (const rate of rates) {
+    if (rate.baseCurrency !== base || rate.quoteCurrency !== quote || rate.rateDate > day) continue;
+    if (!latest || rate.rateDate > latest.rateDate) latest = rate;
+  }
+  return latest;
+}
+
+function splitCsvLine(line: string): string[] {
+  return line.split(",").map(cell => cell.trim().replace(/^"(.*)"$/, "$1").trim());
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function roundRate(rate: number): number {
+  return Math.round(rate * 1e6) / 1e6;
+}
@@ -0,0 +1,334 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, mutation, QueryCtx, MutationCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
+import {
+  ConvertedAmount,
+  DEFAULT_CURRENCY,
+  FxRate,
+  SUPPORTED_CURRENCIES,
+  contractCurrency,
+  convertAmount,
+  normalizeCurrency,
+  parseAmount,
+  parseFxRatesCsv,
+  providerStubRates,
+} from "./currencyConversion";
+import { appendAuditLog } from "../auditLogging";
+
+/**
+ * FX Rates
+ *
+ * Stores each enterprise's reporting currency and dated exchange rates, loaded
+ * from CSV or from the local provider stub. `CurrencyConverter` is what
+ * budgets and the agents use to report contract and budget amounts in one
+ * currency.
+ */
+
+/**
+ * Converts amounts into an enterprise's reporting currency, loading each
+ * enterprise's settings and rates once per request
+ */
+export class CurrencyConverter {
+  private reportingCurrencies = new Map<string, string>();
+  private rates = new Map<string, FxRate[]>();
+
+  constructor(private ctx: QueryCtx | MutationCtx) {}
+
+  async reportingCurrency(enterpriseId: Id<"enterprises">): Promise<string> {
+    const cached = this.reportingCurrencies.get(enterpriseId);
+    if (cached) return cached;
+
+    const enterprise = await this.ctx.db.get(enterpriseId);
+    const currency = enterprise?.reportingCurrency ?? DEFAULT_CURRENCY;
+    this.reportingCurrencies.set(enterpriseId, currency);
+    return currency;
+  }
+
+  /**
+   * Currency a contract's amounts are in, defaulting to its enterprise's
+   * reporting currency
+   */
+  async contractCurrency(contract: { enterpriseId: Id<"enterprises">; currency?: string | undefined; extractedPricing?: string | undefined }): Promise<string> {
+    return contractCurrency(contract, await this.reportingCurrency(contract.enterpriseId));
+  }
+
+  /**
+   * Convert using the enterprise's rates as of the given day (today by
+   * default). Returns null when the enterprise has no rate for the pair.
+   */
+  async convert(
+    enterpriseId: Id<"enterprises">,
+    amount: number,
+    from: string,
+    to: string,
+    date: string = new Date().toISOString()
+  ): Promise<ConvertedAmount | null> {
+    const rates = from === to ? [] : await this.loadRates(enterpriseId);
+    return convertAmount(amount, from, to, rates, date, DEFAULT_CURRENCY);
+  }
+
+  async toReporting(
+    enterpriseId: Id<"enterprises">,
+    amount: number,
+    from: string,
+    date?: string
+  ): Promise<ConvertedAmount | null> {
+    return this.convert(enterpriseId, amount, from, await this.reportingCurrency(enterpriseId), date);
+  }
+
+  private async loadRates(enterpriseId: Id<"enterprises">): Promise<FxRate[]> {
+    const cached = this.rates.get(enterpriseId);
+    if (cached) return cached;
+
+    const rows = await this.ctx.db
+      .query("fxRates")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+      .collect();
+    this.rates.set(enterpriseId, rows);
+    return rows;
+  }
+}
+
+/**
+ * Insert rates, replacing any rate already stored for the same pair and day
+ */
+async function upsertRates(
+  ctx: MutationCtx,
+  enterpriseId: Id<"enterprises">,
+  userId: Id<"users">,
+  rates: FxRate[],
+  source: "csv" | "provider" | "manual"
+): Promise<{ imported: number; updated: number }> {
+  const now = new Date().toISOString();
+  let imported = 0;
+  let updated = 0;
+
+  for (const rate of rates) {
+    const existing = await ctx.db
+      .query("fxRates")
+      .withIndex("by_enterprise_pair_date", (q) =>
+        q.eq("enterpriseId", enterpriseId)
+          .eq("baseCurrency", rate.baseCurrency)
+          .eq("quoteCurrency", rate.quoteCurrency)
+          .eq("rateDate", rate.rateDate)
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { rate: rate.rate, source, createdBy: userId, createdAt: now });
+      updated++;
+    } else {
+      await ctx.db.insert("fxRates", {
+        enterpriseId,
+        baseCurrency: rate.baseCurrency,
+        quoteCurrency: rate.quoteCurrency,
+        rate: rate.rate,
+        rateDate: rate.rateDate,
+        source,
+        createdBy: userId,
+        createdAt: now,
+      });
+      imported++;
+    }
+  }
+
+  return { imported, updated };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export const getCurrencySettings = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    const latestRate = await ctx.db
+      .query("fxRates")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+      .order("desc")
+      .first();
+
+    return {
+      reportingCurrency: enterprise?.reportingCurrency ?? DEFAULT_CURRENCY,
+      supportedCurrencies: [...SUPPORTED_CURRENCIES],
+      lastRateImportAt: latestRate?.createdAt,
+    };
+  },
+});
+
+export const getFxRates = query({
+  args: {
+    baseCurrency: v.optional(v.string()),
+    quoteCurrency: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    let rates = await ctx.db
+      .query("fxRates")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+      .collect();
+
+    if (args.baseCurrency) {
+      const base = normalizeCurrency(args.baseCurrency);
+      rates = rates.filter(rate => rate.baseCurrency === base);
+    }
+    if (args.quoteCurrency) {
+      const quote = normalizeCurrency(args.quoteCurrency);
+      rates = rates.filter(rate => rate.quoteCurrency === quote);
+    }
+
+    return rates
+      .sort((a, b) => b.rateDate.localeCompare(a.rateDate) || a.baseCurrency.localeCompare(b.baseCurrency) || a.quoteCurrency.localeCompare(b.quoteCurrency))
+      .slice(0, args.limit ?? 200);
+  },
+});
+
+/**
+ * A contract's value in its own currency and in the reporting currency
+ */
+export const getContractValue = query({
+  args: { contractId: v.id("contracts") },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
+      return null;
+    }
+
+    const converter = new CurrencyConverter(ctx);
+    const reportingCurrency = await converter.reportingCurrency(contract.enterpriseId);
+    const currency = await converter.contractCurrency(contract);
+    const amount = contract.value ?? (contract.extractedPricing ? parseAmount(contract.extractedPricing) : undefined);
+    if (amount === undefined) {
+      return { currency, reportingCurrency };
+    }
+
+    const converted = await converter.toReporting(contract.enterpriseId, amount, currency);
+    return {
+      amount,
+      currency,
+      reportingCurrency,
+      ...(converted ? { reportingAmount: converted.amount, rate: converted.rate, rateDate: converted.rateDate } : {}),
+    };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+export const setReportingCurrency = mutation({
+  args: { currency: v.string() },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "settings.update");
+
+    const currency = normalizeCurrency(args.currency);
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    if (!enterprise) {
+      throw new ConvexError("Enterprise not found");
+    }
+
+    await ctx.db.patch(securityContext.enterpriseId, {
+      reportingCurrency: currency,
+      updatedAt: new Date().toISOString(),
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "setReportingCurrency",
+      resourceType: "enterprises",
+      resourceId: securityContext.enterpriseId,
+      action: "update",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: {
+        previousCurrency: enterprise.reportingCurrency ?? DEFAULT_CURRENCY,
+        currency,
+      },
+    });
+
+    return { success: true, reportingCurrency: currency };
+  },
+});
+
+/**
+ * Import dated rates from CSV text with `base,quote,rate,date` columns. Valid
+ * rows are saved and invalid ones reported back.
+ */
+export const importFxRates = mutation({
+  args: { csv: v.string() },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "currency.manage");
+
+    const { rates, errors } = parseFxRatesCsv(args.csv);
+    if (rates.length === 0) {
+      throw new ConvexError(errors[0] ?? "No valid rates found in CSV");
+    }
+
+    const result = await upsertRates(ctx, securityContext.enterpriseId, securityContext.userId, rates, "csv");
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "importFxRates",
+      resourceType: "fxRates",
+      action: "create",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: { ...result, rejected: errors.length },
+    });
+
+    return { ...result, errors };
+  },
+});
+
+/**
+ * Load the day's rates from the local provider stub, quoted from the
+ * enterprise's reporting currency
+ */
+export const loadProviderRates = mutation({
+  args: { date: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "currency.manage");
+
+    const date = args.date ?? new Date().toISOString();
+    if (Number.isNaN(new Date(date).getTime())) {
+      throw new ConvexError("Rate date must be a valid date");
+    }
+
+    const converter = new CurrencyConverter(ctx);
+    const base = await converter.reportingCurrency(securityContext.enterpriseId);
+    const rates = providerStubRates(base, date);
+
+    const result = await upsertRates(ctx, securityContext.enterpriseId, securityContext.userId, rates, "provider");
+    return { ...result, baseCurrency: base, rateDate: date.slice(0, 10) };
+  },
+});
+
+export const deleteFxRate = mutation({
+  args: { rateId: v.id("fxRates") },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "currency.manage");
+
+    const rate = await ctx.db.get(args.rateId);
+    if (!rate || rate.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("FX rate not found");
+    }
+
+    await ctx.db.delete(args.rateId);
+    return { success: true };
+  },
+});
@@ -1,23 +1,449 @@
 import { v } from "convex/values";
-import { query } from "./_generated/server";
-import { getSecurityContext } from "./security/rowLevelSecurity";
+import { ConvexError } from "convex/values";
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getDepartmentScope, getSecurityContext, isInDepartmentScope, requirePermission } from "./security/rowLevelSecurity";
+import { CurrencyConverter } from "./currency/fxRates";
+import { parseAmount } from "./currency/currencyConversion";
+import {
+  departmentPath,
+  findDepartmentByName,
+  normalizeCostCenterCode,
+  normalizeDepartmentName,
+  wouldCreateCycle,
+} from "./lib/departmentHierarchy";
+import { appendAuditLog } from "./auditLogging";
 
-// Get departments (mock implementation)
+/**
+ * Departments
+ *
+ * Each enterprise's department tree with cost center codes and heads of
+ * department. Contracts, budgets and users point at a department by id;
+ * managers only see their own subtree (see `getDepartmentScope`).
+ */
+
+/**
+ * The department a stored department reference points at, or null for legacy
+ * free text and references to other enterprises
+ */
+export async function resolveDepartment(
+  ctx: QueryCtx | MutationCtx,
+  enterpriseId: Id<"enterprises">,
+  departmentId: string | undefined
+): Promise<Doc<"departments"> | null> {
+  if (!departmentId) return null;
+  const id = ctx.db.normalizeId("departments", departmentId);
+  if (!id) return null;
+
+  const department = await ctx.db.get(id);
+  return department && department.enterpriseId === enterpriseId ? department : null;
+}
+
+/**
+ * Check a department id passed to a mutation belongs to the enterprise
+ */
+export async function assertEnterpriseDepartment(
+  ctx: QueryCtx | MutationCtx,
+  enterpriseId: Id<"enterprises">,
+  departmentId: Id<"departments">
+): Promise<Doc<"departments">> {
+  const department = await ctx.db.get(departmentId);
+  if (!department || department.enterpriseId !== enterpriseId) {
+    throw new ConvexError("Department not found");
+  }
+  return department;
+}
+
+async function listEnterpriseDepartments(ctx: QueryCtx | MutationCtx, enterpriseId: Id<"enterprises">) {
+  return await ctx.db
+    .query("departments")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+    .collect();
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Departments visible to the user, ordered by their path in the tree
+ */
 export const getDepartments = query({
   args: {},
   handler: async (ctx) => {
     const securityContext = await getSecurityContext(ctx);
-    
-    // Mock departments - in production, fetch from departments table
-    return [
-      { _id: "dept1", name: "Engineering" },
-      { _id: "dept2", name: "Marketing" },
-      { _id: "dept3", name: "Sales" },
-      { _id: "dept4", name: "Operations" },
-      { _id: "dept5", name: "Finance" },
-      { _id: "dept6", name: "Human Resources" },
-      { _id: "dept7", name: "Legal" },
-      { _id: "dept8", name: "Customer Success" },
+    const scope = await getDepartmentScope(ctx, securityContext);
+
+    const departments = await listEnterpriseDepartments(ctx, securityContext.enterpriseId);
+    const members = await ctx.db
+      .query("users")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+      .collect();
+
+    return departments
+      .filter(department => isInDepartmentScope(scope, department._id))
+      .map(department => {
+        const head = department.headUserId ? members.find(user => user._id === department.headUserId) : undefined;
+        const path = departmentPath(departments, department._id);
+        return {
+          ...department,
+          path,
+          depth: path.length - 1,
+          headName: head ? [head.firstName, head.lastName].filter(Boolean).join(" ") || head.email : undefined,
+          memberCount: members.filter(user => user.departmentId === department._id).length,
+        };
+      })
+      .sort((a, b) => a.path.join(" / ").localeCompare(b.path.join(" / ")));
+  },
+});
+
+/**
+ * Contract volume and value, and budget totals, per department in the
+ * reporting currency. Amounts without a rate are left out.
+ */
+export const getDepartmentPerformance = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    const scope = await getDepartmentScope(ctx, securityContext);
+    const enterpriseId = securityContext.enterpriseId;
+
+    const [departments, contracts, budgets] = await Promise.all([
+      listEnterpriseDepartments(ctx, enterpriseId),
+      ctx.db.query("contracts").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId)).collect(),
+      ctx.db.query("budgets").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId)).collect(),
+    ]);
+
+    const converter = new CurrencyConverter(ctx);
+    const reportingCurrency = await converter.reportingCurrency(enterpriseId);
+
+    const rows: Array<{
+      departmentId: Id<"departments">;
+      department: string;
+      costCenterCode?: string | undefined;
+      contracts: number;
+      activeContracts: number;
+      contractValue: number;
+      totalBudget: number;
+      spentAmount: number;
+    }> = [];
+    for (const department of departments) {
+      if (!isInDepartmentScope(scope, department._id)) continue;
+
+      let contractValue = 0;
+      const departmentContracts = contracts.filter(contract => contract.departmentId === department._id);
+      for (const contract of departmentContracts) {
+        const amount = contract.value ?? (contract.extractedPricing ? parseAmount(contract.extractedPricing) : 0);
+        const converted = await converter.toReporting(enterpriseId, amount, await converter.contractCurrency(contract));
+        if (converted) contractValue += converted.amount;
+      }
+
+      let totalBudget = 0;
+      let spentAmount = 0;
+      for (const budget of budgets.filter(budget => budget.departmentId === department._id)) {
+        const converted = await converter.toReporting(enterpriseId, 1, budget.currency ?? reportingCurrency);
+        if (!converted) continue;
+        totalBudget += budget.totalBudget * converted.rate;
+        spentAmount += budget.spentAmount * converted.rate;
+      }
+
+      rows.push({
+        departmentId: department._id,
+        department: department.name,
+        costCenterCode: department.costCenterCode,
+        contracts: departmentContracts.length,
+        activeContracts: departmentContracts.filter(contract => contract.status === "active").length,
+        contractValue,
+        totalBudget,
+        spentAmount,
+      });
+    }
+
+    return { currency: reportingCurrency, departments: rows };
+  },
+});
+
+/**
+ * Users of the enterprise with their department, for picking heads of
+ * department and assigning members
+ */
+export const getDepartmentUsers = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "departments.manage");
+
+    const users = await ctx.db
+      .query("users")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+      .collect();
+
+    return users.map(user => ({
+      _id: user._id,
+      name: [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email,
+      email: user.email,
+      role: user.role,
+      departmentId: user.departmentId,
+    }));
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+export const createDepartment = mutation({
+  args: {
+    name: v.string(),
+    costCenterCode: v.optional(v.string()),
+    parentDepartmentId: v.optional(v.id("departments")),
+    headUserId: v.optional(v.id("users")),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "departments.manage");
+
+    const departments = await listEnterpriseDepartments(ctx, securityContext.enterpriseId);
+    const name = normalizeDepartmentName(args.name);
+    const costCenterCode = args.costCenterCode?.trim() ? normalizeCostCenterCode(args.costCenterCode) : undefined;
+    assertUniqueDepartment(departments, { name, costCenterCode });
+
+    if (args.parentDepartmentId) {
+      await assertEnterpriseDepartment(ctx, securityContext.enterpriseId, args.parentDepartmentId);
+    }
+    if (args.headUserId) {
+      await assertEnterpriseUser(ctx, securityContext.enterpriseId, args.headUserId);
+    }
+
+    const departmentId = await ctx.db.insert("departments", {
+      enterpriseId: securityContext.enterpriseId,
+      name,
+      ...(costCenterCode ? { costCenterCode } : {}),
+      ...(args.parentDepartmentId ? { parentDepartmentId: args.parentDepartmentId } : {}),
+      ...(args.headUserId ? { headUserId: args.headUserId } : {}),
+      ...(args.description?.trim() ? { description: args.description.trim() } : {}),
+      createdBy: securityContext.userId,
+      createdAt: new Date().toISOString(),
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "createDepartment",
+      resourceType: "departments",
+      resourceId: departmentId,
+      action: "create",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: { name, costCenterCode, parentDepartmentId: args.parentDepartmentId },
+    });
+
+    return departmentId;
+  },
+});
+
+/**
+ * Update a department. Pass null to clear the cost center, parent or head.
+ */
+export const updateDepartment = mutation({
+  args: {
+    departmentId: v.id("departments"),
+    name: v.optional(v.string()),
+    costCenterCode: v.optional(v.union(v.string(), v.null())),
+    parentDepartmentId: v.optional(v.union(v.id("departments"), v.null())),
+    headUserId: v.optional(v.union(v.id("users"), v.null())),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "departments.manage");
+
+    const department = await assertEnterpriseDepartment(ctx, securityContext.enterpriseId, args.departmentId);
+    const departments = await listEnterpriseDepartments(ctx, securityContext.enterpriseId);
+    const others = departments.filter(other => other._id !== department._id);
+
+    const name = args.name !== undefined ? normalizeDepartmentName(args.name) : department.name;
+    if (args.name !== undefined) assertUniqueDepartment(others, { name });
+
+    let costCenterCode = department.costCenterCode;
+    if (args.costCenterCode !== undefined) {
+      costCenterCode = args.costCenterCode?.trim() ? normalizeCostCenterCode(args.costCenterCode) : undefined;
+      if (costCenterCode) assertUniqueDepartment(others, { costCenterCode });
+    }
+
+    let parentDepartmentId = department.parentDepartmentId;
+    if (args.parentDepartmentId !== undefined) {
+      if (args.parentDepartmentId) {
+        await assertEnterpriseDepartment(ctx, securityContext.enterpriseId, args.parentDepartmentId);
+        if (wouldCreateCycle(departments, department._id, args.parentDepartmentId)) {
+          throw new ConvexError("A department cannot be moved under itself or one of its sub-departments");
+        }
+      }
+      parentDepartmentId = args.parentDepartmentId ?? undefined;
+    }
+
+    let headUserId = department.headUserId;
+    if (args.headUserId !== undefined) {
+      if (args.headUserId) {
+        await assertEnterpriseUser(ctx, securityContext.enterpriseId, args.headUserId);
+      }
+      headUserId = args.headUserId ?? undefined;
+    }
+
+    const description = args.description !== undefined ? args.description.trim() || undefined : department.description;
+
+    // Replace rather than patch so cleared fields are removed
+    await ctx.db.replace(department._id, {
+      enterpriseId: department.enterpriseId,
+      name,
+      ...(costCenterCode ? { costCenterCode } : {}),
+      ...(parentDepartmentId ? { parentDepartmentId } : {}),
+      ...(headUserId ? { headUserId } : {}),
+      ...(description ? { description } : {}),
+      ...(department.createdBy ? { createdBy: department.createdBy } : {}),
+      createdAt: department.createdAt,
+      updatedAt: new Date().toISOString(),
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "updateDepartment",
+      resourceType: "departments",
+      resourceId: department._id,
+      action: "update",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      changes: {
+        before: { name: department.name, costCenterCode: department.costCenterCode, parentDepartmentId: department.parentDepartmentId, headUserId: department.headUserId },
+        after: { name, costCenterCode, parentDepartmentId, headUserId },
+      },
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete a department that has no sub-departments, members, contracts or
+ * budgets; reassign those first
+ */
+export const deleteDepartment = mutation({
+  args: { departmentId: v.id("departments") },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "departments.manage");
+
+    const department = await assertEnterpriseDepartment(ctx, securityContext.enterpriseId, args.departmentId);
+
+    const child = await ctx.db
+      .query("departments")
+      .withIndex("by_parent", (q) => q.eq("parentDepartmentId", department._id))
+      .first();
+    const member = await ctx.db
+      .query("users")
+      .withIndex("by_department", (q) => q.eq("departmentId", department._id))
+      .first();
+    const contract = await ctx.db
+      .query("contracts")
+      .withIndex("by_department", (q) => q.eq("enterpriseId", securityContext.enterpriseId).eq("departmentId", department._id))
+      .first();
+    const budget = await ctx.db
+      .query("budgets")
+      .withIndex("by_department", (q) => q.eq("enterpriseId", securityContext.enterpriseId).eq("departmentId", department._id))
+      .first();
+
+    const inUse = [
+      ...(child ? ["sub-departments"] : []),
+      ...(member ? ["members"] : []),
+      ...(contract ? ["contracts"] : []),
+      ...(budget ? ["budgets"] : []),
     ];
+    if (inUse.length > 0) {
+      throw new ConvexError(`Department still has ${inUse.join(", ")}; reassign them first`);
+    }
+
+    await ctx.db.delete(department._id);
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "deleteDepartment",
+      resourceType: "departments",
+      resourceId: department._id,
+      action: "delete",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: { name: department.name, costCenterCode: department.costCenterCode },
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Move a user into a department, or out of any with null
+ */
+export const assignUserToDepartment = mutation({
+  args: {
+    userId: v.id("users"),
+    departmentId: v.union(v.id("departments"), v.null()),
   },
-});
\ No newline at end of file
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "departments.manage");
+
+    const user = await assertEnterpriseUser(ctx, securityContext.enterpriseId, args.userId);
+    if (args.departmentId) {
+      await assertEnterpriseDepartment(ctx, securityContext.enterpriseId, args.departmentId);
+    }
+
+    if (args.departmentId) {
+      await ctx.db.patch(user._id, { departmentId: args.departmentId, updatedAt: new Date().toISOString() });
+    } else {
+      // Replace rather than patch so the department is removed
+      const replacement = { ...user, updatedAt: new Date().toISOString() };
+      delete replacement.departmentId;
+      await ctx.db.replace(user._id, replacement);
+    }
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "assignUserToDepartment",
+      resourceType: "users",
+      resourceId: user._id,
+      action: "update",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: { previousDepartmentId: user.departmentId, departmentId: args.departmentId },
+    });
+
+    return { success: true };
+  },
+});
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function assertUniqueDepartment(
+  departments: Doc<"departments">[],
+  candidate: { name?: string | undefined; costCenterCode?: string | undefined }
+) {
+  if (candidate.name && findDepartmentByName(departments, candidate.name)) {
+    throw new ConvexError("A department with this name already exists.");
+  }
+  if (candidate.costCenterCode && departments.some(department => department.costCenterCode === candidate.costCenterCode)) {
+    throw new ConvexError("A department with this cost center code already exists.");
+  }
+}
+
+async function assertEnterpriseUser(ctx: MutationCtx, enterpriseId: Id<"enterprises">, userId: Id<"users">) {
+  const user = await ctx.db.get(userId);
+  if (!user || user.enterpriseId !== enterpriseId) {
+    throw new ConvexError("User not found");
+  }
+  return user;
+}
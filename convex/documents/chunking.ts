@@ -0,0 +1,206 @@
+import type { TextLayout } from "./textExtraction";
+
+/**
+ * Document chunking
+ *
+ * Splits a document's extracted text into passages for the contract question
+ * index. Passages follow the paragraph layout, never cross a page and carry
+ * the heading of the section they fall under, so an answer can point at the
+ * exact page and section it quotes. Everything here is pure.
+ */
+
+export interface DocumentChunk {
+  index: number;
+  start: number; // [start, end) in the document text
+  end: number;
+  page: number;
+  section?: string;
+  text: string;
+}
+
+// Passages grow paragraph by paragraph up to about this many characters
+export const CHUNK_TARGET_LENGTH = 1200;
+// Keeps a contract's index within a few mutations' worth of writes
+export const MAX_CHUNKS_PER_DOCUMENT = 400;
+
+const MAX_HEADING_LENGTH = 100;
+const MAX_SECTION_LABEL_LENGTH = 120;
+const MIN_QUOTE_LENGTH = 10;
+
+const NUMBERED_HEADING = /^(?:(?:article|section|clause|schedule|exhibit|appendix|annex)\s+[\dIVXLC]+(?:\.\d+)*[.:]?|\d+(?:\.\d+)*\.?)\s+\S/i;
+const CAPITALIZED_HEADING = /^[A-Z][A-Z0-9 &,'()/-]*[A-Z)]$/;
+
+/**
+ * Whether a paragraph is a section heading: a short single line that is
+ * numbered ("12. Termination", "Article IV") or written in capitals
+ */
+export function isSectionHeading(paragraph: string): boolean {
+  const line = paragraph.trim();
+  if (!line || line.length > MAX_HEADING_LENGTH || line.includes("\n") || /[.;,]$/.test(line)) {
+    return false;
+  }
+  return NUMBERED_HEADING.test(line) || (CAPITALIZED_HEADING.test(line) && /[A-Z]{4}/.test(line));
+}
+
+/**
+ * Passages of a document in reading order. Documents without a stored
+ * paragraph layout are treated as one page. Passages past
+ * MAX_CHUNKS_PER_DOCUMENT are dropped and the result marked truncated.
+ */
+export function chunkDocument(
+  layout: Pick<TextLayout, "text"> & { paragraphs?: TextLayout["paragraphs"] | undefined }
+): { chunks: DocumentChunk[]; truncated: boolean } {
+  const { text } = layout;
+  const paragraphs = layout.paragraphs?.length
+    ? layout.paragraphs
+    : text.trim() ? [{ page: 1, start: 0, end: text.length }] : [];
+
+  const chunks: DocumentChunk[] = [];
+  let truncated = false;
+  let section: string | undefined;
+  let current: { start: number; end: number; page: number; section?: string | undefined; headingOnly: boolean } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    if (chunks.length >= MAX_CHUNKS_PER_DOCUMENT) {
+      truncated = true;
+    } else {
+      chunks.push({
+        index: chunks.length,
+        start: current.start,
+        end: current.end,
+        page: current.page,
+        ...(current.section ? { section: current.section } : {}),
+        text: text.slice(current.start, current.end),
+      });
+    }
+    current = null;
+  };
+
+  for (const paragraph of paragraphs) {
+    if (current && current.page !== paragraph.page) {
+      flush();
+    }
+
+    const body = text.slice(paragraph.start, paragraph.end);
+    if (isSectionHeading(body)) {
+      flush();
+      section = sectionLabel(body);
+      current = { start: paragraph.start, end: paragraph.end, page: paragraph.page, section, headingOnly: true };
+      continue;
+    }
+
+    for (const piece of splitParagraph(text, paragraph.start, paragraph.end)) {
+      if (current && !current.headingOnly && piece.end - current.start > CHUNK_TARGET_LENGTH) {
+        flush();
+      }
+      if (current) {
+        current.end = piece.end;
+        current.headingOnly = false;
+      } else {
+        current = { start: piece.start, end: piece.end, page: paragraph.page, section, headingOnly: false };
+      }
+    }
+  }
+  flush();
+
+  return { chunks, truncated };
+}
+
+/**
+ * Where a quote appears in a passage, ignoring case, runs of whitespace and
+ * typographic quotes. A quote elided with "..." is matched on its longest
+ * part. Null when the passage does not contain it.
+ */
+export function locateQuote(text: string, quote: string): { start: number; end: number } | null {
+  const parts = quote
+    .split(/\.\.\.|…/)
+    .map(part => part.trim().replace(/^["'“”‘’]+|["'“”‘’]+$/g, "").trim())
+    .sort((a, b) => b.length - a.length);
+  const wanted = normalizeForMatch(parts[0] ?? "").text.trim();
+  if (wanted.length < MIN_QUOTE_LENGTH) return null;
+
+  const haystack = normalizeForMatch(text);
+  const index = haystack.text.indexOf(wanted);
+  if (index < 0) return null;
+
+  return { start: haystack.offsets[index]!, end: haystack.offsets[index + wanted.length - 1]! + 1 };
+}
+
+/**
+ * A passage's opening words, cut at a word boundary, for when an answer
+ * cites it without a quote that can be found in it
+ */
+export function passageExcerpt(text: string, maxLength = 300): { start: number; end: number } {
+  const start = text.length - text.trimStart().length;
+  const body = text.trim();
+  if (body.length <= maxLength) {
+    return { start, end: start + body.length };
+  }
+  const cut = body.lastIndexOf(" ", maxLength);
+  return { start, end: start + (cut > maxLength / 2 ? cut : maxLength) };
+}
+
+function sectionLabel(heading: string): string {
+  return heading.trim().replace(/\s+/g, " ").slice(0, MAX_SECTION_LABEL_LENGTH);
+}
+
+/**
+ * Cut a paragraph longer than CHUNK_TARGET_LENGTH at sentence ends, or at
+ * word boundaries when a sentence is too long itself
+ */
+function splitParagraph(text: string, start: number, end: number): Array<{ start: number; end: number }> {
+  const pieces: Array<{ start: number; end: number }> = [];
+  let pieceStart = start;
+
+  while (end - pieceStart > CHUNK_TARGET_LENGTH) {
+    const window = text.slice(pieceStart, pieceStart + CHUNK_TARGET_LENGTH);
+    let cut = Math.max(window.lastIndexOf(". "), window.lastIndexOf("; ")) + 1;
+    if (cut < CHUNK_TARGET_LENGTH / 2) {
+      cut = window.lastIndexOf(" ");
+    }
+    if (cut <= 0) {
+      cut = CHUNK_TARGET_LENGTH;
+    }
+
+    pieces.push({ start: pieceStart, end: pieceStart + cut });
+    pieceStart += cut;
+    while (pieceStart < end && /\s/.test(text[pieceStart]!)) {
+      pieceStart++;
+    }
+  }
+  if (pieceStart < end) {
+    pieces.push({ start: pieceStart, end });
+  }
+
+  return pieces;
+}
+
+/**
+ * Lower-cased text with whitespace runs collapsed and typographic quotes made
+ * plain, with the original offset of every character kept
+ */
+function normalizeForMatch(text: string): { text: string; offsets: number[] } {
+  let normalized = "";
+  const offsets: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    let char = text[i]!;
+    if (/\s/.test(char)) {
+      if (normalized.endsWith(" ")) continue;
+      char = " ";
+    } else if (char === "‘" || char === "’") {
+      char = "'";
+    } else if (char === "“" || char === "”") {
+      char = "\"";
+    }
+    // Lower-casing can lengthen a character; every part maps back to it
+    const lower = char.toLowerCase();
+    normalized += lower;
+    for (let j = 0; j < lower.length; j++) {
+      offsets.push(i);
+    }
+  }
+
+  return { text: normalized, offsets };
+}
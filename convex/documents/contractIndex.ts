@@ -0,0 +1,389 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { makeFunctionReference } from "convex/server";
+import { query, mutation, internalQuery, internalMutation, MutationCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+import { getSecurityContext, requirePermission, getDepartmentScope, hasScopedPermission, contractResource } from "../security/rowLevelSecurity";
+import { withoutFields } from "../lib/documentFields";
+import type { TextParagraph } from "./textExtraction";
+
+/**
+ * Contract Document Index
+ *
+ * Splits a contract's extracted text and its amendments' files into passages
+ * and embeds them for question answering (ai/contractQA.ts). The index is
+ * rebuilt whenever the contract's text is extracted again or an amendment's
+ * file is added, replaced or voided. Each rebuild is a new generation: the
+ * previous one stays searchable until the new one completes, and a build that
+ * has been superseded stops writing.
+ */
+
+// Stale passages removed per mutation once a build completes
+const STALE_CHUNK_BATCH = 100;
+
+export interface IndexSources {
+  enterpriseId: Id<"enterprises">;
+  title: string;
+  document: { text: string; paragraphs: TextParagraph[] } | null;
+  amendments: Array<{
+    versionId: Id<"contractVersions">;
+    title: string;
+    storageId: Id<"_storage">;
+    fileName: string;
+    fileType: string;
+  }>;
+}
+
+/**
+ * Queue a rebuild of a contract's passage index
+ */
+export async function scheduleContractIndex(ctx: MutationCtx, contractId: Id<"contracts">): Promise<void> {
+  const contract = await ctx.db.get(contractId);
+  if (!contract) return;
+
+  const now = new Date().toISOString();
+  const existing = await ctx.db
+    .query("contractIndexes")
+    .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+    .first();
+
+  const generation = (existing?.generation ?? 0) + 1;
+  if (existing) {
+    await ctx.db.patch(existing._id, { status: "pending", generation, updatedAt: now });
+  } else {
+    await ctx.db.insert("contractIndexes", {
+      contractId,
+      enterpriseId: contract.enterpriseId,
+      status: "pending",
+      generation,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  // Referenced by name: resolving it through the generated API exceeds the
+  // compiler's instantiation depth
+  const indexContractDocuments = makeFunctionReference<"action", { contractId: Id<"contracts">; generation: number }>(
+    "documents/indexContractDocuments:indexContractDocuments"
+  );
+  await ctx.scheduler.runAfter(0, indexContractDocuments, { contractId, generation });
+}
+
+export async function deleteContractIndex(ctx: MutationCtx, contractId: Id<"contracts">): Promise<void> {
+  const chunks = await ctx.db
+    .query("contractChunks")
+    .withIndex("by_contract_generation", (q) => q.eq("contractId", contractId))
+    .collect();
+  for (const chunk of chunks) {
+    await ctx.db.delete(chunk._id);
+  }
+
+  const records = await ctx.db
+    .query("contractIndexes")
+    .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+    .collect();
+  for (const record of records) {
+    await ctx.db.delete(record._id);
+  }
+}
+
+// ============================================================================
+// QUERIES AND MUTATIONS
+// ============================================================================
+
+/**
+ * Index state for a contract in the caller's enterprise, or null if it has
+ * never been indexed
+ */
+export const getContractIndexStatus = query({
+  args: {
+    contractId: v.id("contracts"),
+  },
+  handler: async (ctx, args) => {
+    const security = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== security.enterpriseId) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+
+    const record = await ctx.db
+      .query("contractIndexes")
+      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+      .first();
+    if (!record) return null;
+
+    return {
+      status: record.status,
+      searchable: record.indexedGeneration !== undefined,
+      documentCount: record.documentCount,
+      chunkCount: record.chunkCount,
+      truncated: record.truncated,
+      error: record.error,
+      indexedAt: record.indexedAt,
+    };
+  },
+});
+
+/**
+ * Rebuild a contract's index, e.g. after a failed build or for a contract
+ * uploaded before documents were indexed
+ */
+export const rebuildContractIndex = mutation({
+  args: {
+    contractId: v.id("contracts"),
+  },
+  handler: async (ctx, args) => {
+    const security = await getSecurityContext(ctx);
+    requirePermission(security, "contracts.update");
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== security.enterpriseId) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+
+    await scheduleContractIndex(ctx, args.contractId);
+    return { success: true };
+  },
+});
+
+/**
+ * The file a citation points into: the contract's own document, or an
+ * amendment's when versionId is given
+ */
+export const getCitedDocument = query({
+  args: {
+    contractId: v.id("contracts"),
+    versionId: v.optional(v.id("contractVersions")),
+  },
+  handler: async (ctx, args) => {
+    const security = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== security.enterpriseId
+      || !hasScopedPermission(security, await getDepartmentScope(ctx, security), "contracts.read", contractResource(contract))) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+
+    if (args.versionId) {
+      const version = await ctx.db.get(args.versionId);
+      if (!version || version.contractId !== contract._id || !version.storageId) {
+        throw new ConvexError("Amendment document not found");
+      }
+      return {
+        contractTitle: contract.title,
+        title: version.title,
+        storageId: version.storageId,
+        fileName: version.fileName ?? version.title,
+        fileType: version.fileType ?? "",
+        pageCount: null,
+      };
+    }
+
+    const text = await ctx.db
+      .query("contractTexts")
+      .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+      .first();
+    return {
+      contractTitle: contract.title,
+      title: contract.title,
+      storageId: contract.storageId,
+      fileName: contract.fileName,
+      fileType: contract.fileType,
+      pageCount: text?.pages?.length ?? null,
+    };
+  },
+});
+
+// ============================================================================
+// INTERNAL (used by the indexing action)
+// ============================================================================
+
+/**
+ * The documents a build indexes, or null when the build has been superseded
+ * or the contract is gone. Void amendments are left out.
+ */
+export const getIndexSources = internalQuery({
+  args: {
+    contractId: v.id("contracts"),
+    generation: v.number(),
+  },
+  handler: async (ctx, args): Promise<IndexSources | null> => {
+    const [contract, record] = await Promise.all([
+      ctx.db.get(args.contractId),
+      ctx.db
+        .query("contractIndexes")
+        .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+        .first(),
+    ]);
+    if (!contract || !record || record.generation !== args.generation) return null;
+
+    const text = await ctx.db
+      .query("contractTexts")
+      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+      .first();
+    const versions = await ctx.db
+      .query("contractVersions")
+      .withIndex("by_contract_version", (q) => q.eq("contractId", args.contractId))
+      .collect();
+
+    return {
+      enterpriseId: contract.enterpriseId,
+      title: contract.title,
+      document: text?.status === "completed" && text.text
+        ? { text: text.text, paragraphs: text.paragraphs ?? [] }
+        : null,
+      // The original version shares the contract's file, which is indexed above
+      amendments: versions
+        .filter(version => version.storageId && version.storageId !== contract.storageId && version.status !== "void")
+        .map(version => ({
+          versionId: version._id,
+          title: version.title,
+          storageId: version.storageId!,
+          fileName: version.fileName ?? "",
+          fileType: version.fileType ?? "",
+        })),
+    };
+  },
+});
+
+/**
+ * Mark a build as started. Returns false when it has been superseded.
+ */
+export const markIndexBuilding = internalMutation({
+  args: {
+    contractId: v.id("contracts"),
+    generation: v.number(),
+  },
+  handler: async (ctx, args): Promise<boolean> => {
+    const record = await getCurrentBuild(ctx, args.contractId, args.generation);
+    if (!record) return false;
+
+    await ctx.db.patch(record._id, { status: "building", updatedAt: new Date().toISOString() });
+    return true;
+  },
+});
+
+export const saveChunks = internalMutation({
+  args: {
+    contractId: v.id("contracts"),
+    generation: v.number(),
+    chunks: v.array(v.object({
+      versionId: v.optional(v.id("contractVersions")),
+      chunkIndex: v.number(),
+      text: v.string(),
+      start: v.number(),
+      end: v.number(),
+      page: v.number(),
+      section: v.optional(v.string()),
+      embedding: v.array(v.float64()),
+    })),
+  },
+  handler: async (ctx, args): Promise<boolean> => {
+    const record = await getCurrentBuild(ctx, args.contractId, args.generation);
+    if (!record) return false;
+
+    const now = new Date().toISOString();
+    for (const chunk of args.chunks) {
+      await ctx.db.insert("contractChunks", {
+        contractId: args.contractId,
+        enterpriseId: record.enterpriseId,
+        ...(chunk.versionId ? { versionId: chunk.versionId } : {}),
+        generation: args.generation,
+        chunkIndex: chunk.chunkIndex,
+        text: chunk.text,
+        start: chunk.start,
+        end: chunk.end,
+        page: chunk.page,
+        ...(chunk.section ? { section: chunk.section } : {}),
+        embedding: chunk.embedding,
+        createdAt: now,
+      });
+    }
+    return true;
+  },
+});
+
+/**
+ * Make a finished build the searchable one
+ */
+export const completeIndexBuild = internalMutation({
+  args: {
+    contractId: v.id("contracts"),
+    generation: v.number(),
+    documentCount: v.number(),
+    chunkCount: v.number(),
+    truncated: v.boolean(),
+  },
+  handler: async (ctx, args): Promise<boolean> => {
+    const record = await getCurrentBuild(ctx, args.contractId, args.generation);
+    if (!record) return false;
+
+    const now = new Date().toISOString();
+    // Replaced rather than patched so a previous failure's error is dropped
+    await ctx.db.replace(record._id, {
+      ...withoutFields(record, ["error"]),
+      status: "completed",
+      indexedGeneration: args.generation,
+      documentCount: args.documentCount,
+      chunkCount: args.chunkCount,
+      truncated: args.truncated,
+      indexedAt: now,
+      updatedAt: now,
+    });
+    return true;
+  },
+});
+
+/**
+ * Delete a batch of passages from builds older than the searchable one.
+ * Returns true once none are left.
+ */
+export const removeStaleChunks = internalMutation({
+  args: {
+    contractId: v.id("contracts"),
+  },
+  handler: async (ctx, args): Promise<boolean> => {
+    const record = await ctx.db
+      .query("contractIndexes")
+      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+      .first();
+    const indexedGeneration = record?.indexedGeneration;
+    if (indexedGeneration === undefined) return true;
+
+    const stale = await ctx.db
+      .query("contractChunks")
+      .withIndex("by_contract_generation", (q) => q.eq("contractId", args.contractId).lt("generation", indexedGeneration))
+      .take(STALE_CHUNK_BATCH);
+    for (const chunk of stale) {
+      await ctx.db.delete(chunk._id);
+    }
+    return stale.length < STALE_CHUNK_BATCH;
+  },
+});
+
+export const recordIndexFailure = internalMutation({
+  args: {
+    contractId: v.id("contracts"),
+    generation: v.number(),
+    error: v.string(),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const record = await getCurrentBuild(ctx, args.contractId, args.generation);
+    if (!record) return;
+
+    await ctx.db.patch(record._id, {
+      status: "failed",
+      error: args.error,
+      updatedAt: new Date().toISOString(),
+    });
+  },
+});
+
+async function getCurrentBuild(ctx: MutationCtx, contractId: Id<"contracts">, generation: number) {
+  const record = await ctx.db
+    .query("contractIndexes")
+    .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+    .first();
+  return record?.generation === generation ? record : null;
+}
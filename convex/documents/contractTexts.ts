@@ -0,0 +1,239 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, internalQuery, internalMutation, MutationCtx, QueryCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { Id } from "../_generated/dataModel";
+import { getSecurityContext } from "../security/rowLevelSecurity";
+import { documentFormatOptions, textPageValidator, textParagraphValidator } from "../schema";
+import { TEXT_EXTRACTION_ERROR_PREFIX } from "./textExtraction";
+import { compareContractToLibrary } from "../clauses/clauseLibrary";
+import { syncContractRenewal } from "../renewals/renewals";
+import { scheduleContractIndex } from "./contractIndex";
+import { withoutFields } from "../lib/documentFields";
+
+/**
+ * Contract Text
+ *
+ * Stores the text extracted from each uploaded contract file. Uploading a
+ * contract schedules `extractContractText`; failures are recorded on the
+ * contract's `analysisError` (prefixed with TEXT_EXTRACTION_ERROR_PREFIX) and
+ * retried by the secretary agent. Extracted text is compared against the
+ * enterprise's clause library as soon as it is saved, and the contract's
+ * passage index is rebuilt from it.
+ */
+
+/**
+ * Queue text extraction for a contract's file. Re-queuing an existing row
+ * keeps its attempt count so retries stay bounded.
+ */
+export async function scheduleContractTextExtraction(
+  ctx: MutationCtx,
+  contractId: Id<"contracts">
+): Promise<void> {
+  const contract = await ctx.db.get(contractId);
+  if (!contract) return;
+
+  const now = new Date().toISOString();
+  const existing = await ctx.db
+    .query("contractTexts")
+    .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+    .first();
+
+  if (existing) {
+    await ctx.db.patch(existing._id, { status: "pending", storageId: contract.storageId, updatedAt: now });
+  } else {
+    await ctx.db.insert("contractTexts", {
+      contractId,
+      enterpriseId: contract.enterpriseId,
+      storageId: contract.storageId,
+      status: "pending",
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  await ctx.scheduler.runAfter(0, internal.documents.extractContractText.extractContractText, { contractId });
+}
+
+/**
+ * Extracted document text for a contract, or null when extraction has not
+ * completed. Analyzers fall back to contract metadata in that case.
+ */
+export async function getContractDocumentText(
+  ctx: QueryCtx,
+  contractId: Id<"contracts">
+): Promise<string | null> {
+  const record = await ctx.db
+    .query("contractTexts")
+    .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+    .first();
+
+  return record?.status === "completed" && record.text ? record.text : null;
+}
+
+export async function deleteContractText(ctx: MutationCtx, contractId: Id<"contracts">): Promise<void> {
+  const records = await ctx.db
+    .query("contractTexts")
+    .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+    .collect();
+
+  for (const record of records) {
+    await ctx.db.delete(record._id);
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Extracted text and layout for a contract in the caller's enterprise
+ */
+export const getContractText = query({
+  args: {
+    contractId: v.id("contracts"),
+  },
+  handler: async (ctx, args) => {
+    const security = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== security.enterpriseId) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+
+    return await ctx.db
+      .query("contractTexts")
+      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+      .first();
+  },
+});
+
+// ============================================================================
+// INTERNAL (used by the extraction action)
+// ============================================================================
+
+export const getExtractionSource = internalQuery({
+  args: {
+    contractId: v.id("contracts"),
+  },
+  handler: async (ctx, args) => {
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract) return null;
+
+    return {
+      storageId: contract.storageId,
+      fileName: contract.fileName,
+      fileType: contract.fileType,
+    };
+  },
+});
+
+export const getExtractedText = internalQuery({
+  args: {
+    contractId: v.id("contracts"),
+  },
+  handler: async (ctx, args) => {
+    return await getContractDocumentText(ctx, args.contractId);
+  },
+});
+
+/**
+ * Mark an extraction attempt as started. Returns false when the contract or
+ * its text row is gone, in which case the action stops.
+ */
+export const markExtractionStarted = internalMutation({
+  args: {
+    contractId: v.id("contracts"),
+  },
+  handler: async (ctx, args) => {
+    const record = await ctx.db
+      .query("contractTexts")
+      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+      .first();
+    if (!record || !(await ctx.db.get(args.contractId))) {
+      return false;
+    }
+
+    await ctx.db.patch(record._id, {
+      status: "processing",
+      attempts: record.attempts + 1,
+      updatedAt: new Date().toISOString(),
+    });
+    return true;
+  },
+});
+
+export const saveExtractedText = internalMutation({
+  args: {
+    contractId: v.id("contracts"),
+    format: v.union(...documentFormatOptions.map(option => v.literal(option))),
+    text: v.string(),
+    pages: v.array(textPageValidator),
+    paragraphs: v.array(textParagraphValidator),
+    truncated: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const record = await ctx.db
+      .query("contractTexts")
+      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+      .first();
+    const contract = await ctx.db.get(args.contractId);
+    if (!record || !contract) return;
+
+    const now = new Date().toISOString();
+    // Replaced rather than patched so a previous failure's error is dropped
+    await ctx.db.replace(record._id, {
+      ...withoutFields(record, ["error", "retryable"]),
+      status: "completed",
+      format: args.format,
+      text: args.text,
+      pages: args.pages,
+      paragraphs: args.paragraphs,
+      characterCount: args.text.length,
+      truncated: args.truncated,
+      extractedAt: now,
+      updatedAt: now,
+    });
+
+    // A successful retry clears the failure and puts the contract back in the analysis queue
+    if (contract.analysisError?.startsWith(TEXT_EXTRACTION_ERROR_PREFIX)) {
+      await ctx.db.replace(args.contractId, {
+        ...withoutFields(contract, ["analysisError"]),
+        ...(contract.analysisStatus === "failed" ? { analysisStatus: "pending" as const } : {}),
+      });
+    }
+
+    await compareContractToLibrary(ctx, contract);
+    await syncContractRenewal(ctx, args.contractId, { extract: true });
+    await scheduleContractIndex(ctx, args.contractId);
+  },
+});
+
+export const recordExtractionFailure = internalMutation({
+  args: {
+    contractId: v.id("contracts"),
+    error: v.string(),
+    retryable: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const record = await ctx.db
+      .query("contractTexts")
+      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+      .first();
+    const contract = await ctx.db.get(args.contractId);
+    if (!record || !contract) return;
+
+    await ctx.db.patch(record._id, {
+      status: "failed",
+      error: args.error,
+      retryable: args.retryable,
+      updatedAt: new Date().toISOString(),
+    });
+
+    await ctx.db.patch(args.contractId, {
+      analysisStatus: "failed",
+      analysisError: `${TEXT_EXTRACTION_ERROR_PREFIX}${args.error}`,
+    });
+  },
+});
@@ -0,0 +1,122 @@
+"use node";
+
+import { v } from "convex/values";
+import { internalAction } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { extractTextItems, getDocumentProxy } from "unpdf";
+import mammoth from "mammoth";
+import { DocumentFormat } from "../schema";
+import { TextExtractionError, buildTextLayout, detectDocumentFormat, pdfItemsToPageText } from "./textExtraction";
+
+/**
+ * Extract the text of a contract's uploaded file and store it with its page
+ * and paragraph layout. Scheduled on upload and by the secretary agent's
+ * retries; failures are recorded rather than thrown.
+ */
+export interface ContractTextExtractionResult {
+  success: boolean;
+  pageCount?: number;
+  characterCount?: number;
+  error?: string;
+}
+
+export const extractContractText = internalAction({
+  args: {
+    contractId: v.id("contracts"),
+  },
+  handler: async (ctx, args): Promise<ContractTextExtractionResult> => {
+    const started = await ctx.runMutation(internal.documents.contractTexts.markExtractionStarted, {
+      contractId: args.contractId,
+    });
+    if (!started) {
+      return { success: false, error: "Contract not found" };
+    }
+
+    try {
+      const source = await ctx.runQuery(internal.documents.contractTexts.getExtractionSource, {
+        contractId: args.contractId,
+      });
+      if (!source) {
+        throw new TextExtractionError("Contract not found", false);
+      }
+
+      const format = detectDocumentFormat(source.fileName, source.fileType);
+      if (!format) {
+        throw new TextExtractionError(`Unsupported file type: ${source.fileType || source.fileName}`, false);
+      }
+
+      const file = await ctx.storage.get(source.storageId);
+      if (!file) {
+        throw new TextExtractionError("Uploaded file not found in storage", false);
+      }
+
+      const pageTexts = await extractPageTexts(format, new Uint8Array(await file.arrayBuffer()));
+      const layout = buildTextLayout(pageTexts);
+      if (!layout.text) {
+        throw new TextExtractionError(
+          format === "pdf" ? "No text layer found; scanned documents are not supported" : "Document contains no text",
+          false
+        );
+      }
+
+      await ctx.runMutation(internal.documents.contractTexts.saveExtractedText, {
+        contractId: args.contractId,
+        format,
+        ...layout,
+      });
+
+      return { success: true, pageCount: layout.pages.length, characterCount: layout.text.length };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Text extraction failed for contract ${args.contractId}:`, message);
+
+      await ctx.runMutation(internal.documents.contractTexts.recordExtractionFailure, {
+        contractId: args.contractId,
+        error: message,
+        retryable: error instanceof TextExtractionError ? error.retryable : true,
+      });
+
+      return { success: false, error: message };
+    }
+  },
+});
+
+/**
+ * Raw text per page. Only PDFs have pages; DOCX and plain text come back as a
+ * single page.
+ */
+export async function extractPageTexts(format: DocumentFormat, data: Uint8Array): Promise<string[]> {
+  switch (format) {
+    case "pdf": {
+      let pdf;
+      try {
+        pdf = await getDocumentProxy(data);
+      } catch (error) {
+        const name = error instanceof Error ? error.name : "";
+        if (name === "PasswordException") {
+          throw new TextExtractionError("PDF is password protected", false);
+        }
+        if (name === "InvalidPDFException") {
+          throw new TextExtractionError("File is not a valid PDF", false);
+        }
+        throw error;
+      }
+      const { items } = await extractTextItems(pdf);
+      return items.map(pdfItemsToPageText);
+    }
+    case "docx": {
+      try {
+        // mammoth separates paragraphs with a blank line
+        const result = await mammoth.extractRawText({ buffer: Buffer.from(data) });
+        return [result.value];
+      } catch (error) {
+        throw new TextExtractionError(
+          `Could not read DOCX file: ${error instanceof Error ? error.message : String(error)}`,
+          false
+        );
+      }
+    }
+    case "text":
+      return [new TextDecoder("utf-8").decode(data)];
+  }
+}
@@ -0,0 +1,136 @@
+"use node";
+
+import { v } from "convex/values";
+import { internalAction } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { Id } from "../_generated/dataModel";
+import { getLLM } from "../ai/llm";
+import { EMBEDDING_DIMENSIONS } from "../ai/llmProviders";
+import { DocumentChunk, chunkDocument } from "./chunking";
+import { extractPageTexts } from "./extractContractText";
+import { TextExtractionError, buildTextLayout, detectDocumentFormat } from "./textExtraction";
+
+/**
+ * Build a contract's passage index from its extracted text and the files of
+ * its amendments. Scheduled by scheduleContractIndex; failures are recorded
+ * on the index rather than thrown. An amendment whose file cannot be read is
+ * left out instead of failing the whole build.
+ */
+export interface ContractIndexResult {
+  success: boolean;
+  documentCount?: number;
+  chunkCount?: number;
+  error?: string;
+}
+
+// Passages written per mutation, keeping each well inside Convex's write limits
+const SAVE_BATCH_SIZE = 50;
+
+interface IndexedDocument {
+  versionId?: Id<"contractVersions">;
+  title: string;
+  chunks: DocumentChunk[];
+}
+
+export const indexContractDocuments = internalAction({
+  args: {
+    contractId: v.id("contracts"),
+    generation: v.number(),
+  },
+  handler: async (ctx, args): Promise<ContractIndexResult> => {
+    const sources = await ctx.runQuery(internal.documents.contractIndex.getIndexSources, args);
+    if (!sources || !(await ctx.runMutation(internal.documents.contractIndex.markIndexBuilding, args))) {
+      return { success: false, error: "Superseded by a newer build" };
+    }
+
+    try {
+      const documents: IndexedDocument[] = [];
+      let truncated = false;
+
+      if (sources.document) {
+        const result = chunkDocument(sources.document);
+        documents.push({ title: sources.title, chunks: result.chunks });
+        truncated ||= result.truncated;
+      }
+
+      for (const amendment of sources.amendments) {
+        try {
+          const format = detectDocumentFormat(amendment.fileName, amendment.fileType);
+          if (!format) {
+            throw new TextExtractionError(`Unsupported file type: ${amendment.fileType || amendment.fileName}`, false);
+          }
+          const file = await ctx.storage.get(amendment.storageId);
+          if (!file) {
+            throw new TextExtractionError("Uploaded file not found in storage", false);
+          }
+
+          const layout = buildTextLayout(await extractPageTexts(format, new Uint8Array(await file.arrayBuffer())));
+          const result = chunkDocument(layout);
+          documents.push({ versionId: amendment.versionId, title: amendment.title, chunks: result.chunks });
+          truncated ||= result.truncated || layout.truncated;
+        } catch (error) {
+          console.warn(
+            `Skipping amendment ${amendment.versionId} of contract ${args.contractId}:`,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      }
+
+      const llm = await getLLM(ctx, sources.enterpriseId, "contract_index");
+      let chunkCount = 0;
+
+      for (const document of documents) {
+        // The title and section heading give a passage the context it lacks on its own
+        const embeddings = await llm.embedBatch(document.chunks.map(chunk =>
+          [document.title, chunk.section, chunk.text].filter(Boolean).join("\n\n")
+        ));
+        if (embeddings.some(embedding => embedding.length !== EMBEDDING_DIMENSIONS)) {
+          throw new Error(
+            `The embedding model returns ${embeddings[0]?.length} dimensions; the document index needs ${EMBEDDING_DIMENSIONS}`
+          );
+        }
+
+        for (let i = 0; i < document.chunks.length; i += SAVE_BATCH_SIZE) {
+          const saved = await ctx.runMutation(internal.documents.contractIndex.saveChunks, {
+            ...args,
+            chunks: document.chunks.slice(i, i + SAVE_BATCH_SIZE).map((chunk, offset) => ({
+              ...(document.versionId ? { versionId: document.versionId } : {}),
+              chunkIndex: chunk.index,
+              text: chunk.text,
+              start: chunk.start,
+              end: chunk.end,
+              page: chunk.page,
+              ...(chunk.section ? { section: chunk.section } : {}),
+              embedding: embeddings[i + offset]!,
+            })),
+          });
+          if (!saved) {
+            return { success: false, error: "Superseded by a newer build" };
+          }
+        }
+        chunkCount += document.chunks.length;
+      }
+
+      const completed = await ctx.runMutation(internal.documents.contractIndex.completeIndexBuild, {
+        ...args,
+        documentCount: documents.length,
+        chunkCount,
+        truncated,
+      });
+      if (!completed) {
+        return { success: false, error: "Superseded by a newer build" };
+      }
+      while (!(await ctx.runMutation(internal.documents.contractIndex.removeStaleChunks, { contractId: args.contractId }))) {
+        // Each call removes one batch
+      }
+
+      return { success: true, documentCount: documents.length, chunkCount };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Indexing failed for contract ${args.contractId}:`, message);
+
+      await ctx.runMutation(internal.documents.contractIndex.recordIndexFailure, { ...args, error: message });
+      return { success: false, error: message };
+    }
+  },
+});
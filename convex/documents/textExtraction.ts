@@ -0,0 +1,207 @@
+import { Infer } from "convex/values";
+import { DocumentFormat, textPageValidator, textParagraphValidator } from "../schema";
+
+/**
+ * Contract text extraction
+ *
+ * Format detection, text normalization and the page/paragraph layout stored
+ * for each contract. The parsers themselves run in a Node action
+ * (`extractContractText`); everything here is pure so it can be unit tested.
+ */
+
+export type TextPage = Infer<typeof textPageValidator>;
+export type TextParagraph = Infer<typeof textParagraphValidator>;
+
+export interface TextLayout {
+  text: string;
+  pages: TextPage[];
+  paragraphs: TextParagraph[];
+  truncated: boolean;
+}
+
+// UTF-8 size of the stored text. Leaves room under Convex's 1MB document limit
+// for the page and paragraph offsets stored alongside it.
+export const MAX_STORED_TEXT_BYTES = 500_000;
+// Convex arrays hold at most 8192 items
+export const MAX_LAYOUT_ENTRIES = 8_000;
+
+export const MAX_EXTRACTION_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+
+// Prefix on `contracts.analysisError` for failures the secretary agent retries
+export const TEXT_EXTRACTION_ERROR_PREFIX = "Text extraction failed: ";
+
+const PAGE_SEPARATOR = "\n\n";
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "text/plain": "text",
+  "text/markdown": "text",
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: "pdf",
+  docx: "docx",
+  txt: "text",
+  md: "text",
+  text: "text",
+};
+
+/**
+ * Extraction error that says whether trying again could help. Unsupported
+ * formats and documents without a text layer fail the same way every time.
+ */
+export class TextExtractionError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = "TextExtractionError";
+  }
+}
+
+/**
+ * Work out the document format from the upload's MIME type, falling back to
+ * the file extension. Returns null for formats we cannot extract.
+ */
+export function detectDocumentFormat(fileName: string, fileType: string): DocumentFormat | null {
+  const mimeType = fileType.split(";")[0]!.trim().toLowerCase();
+  const byMime = MIME_FORMATS[mimeType];
+  if (byMime) return byMime;
+
+  const extension = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  return (extension && EXTENSION_FORMATS[extension]) || null;
+}
+
+/**
+ * Normalize extracted text: unify line endings and Unicode forms (ligatures,
+ * non-breaking spaces), drop control characters, rejoin words hyphenated
+ * across lines, collapse runs of spaces and keep at most one blank line
+ * between paragraphs.
+ */
+export function normalizeExtractedText(raw: string): string {
+  return raw
+    .normalize("NFKC")
+    .replace(/\r\n?/g, "\n")
+    .replace(/\u00ad/g, "")
+    .replace(/[\u00a0\u2000-\u200a\u202f\u205f\u3000\t]/g, " ")
+    .replace(/[\u0000-\u0008\u000b-\u001f\u007f\u200b-\u200d\ufeff]/g, "")
+    .replace(/([a-z])-\n([a-z])/g, "$1$2")
+    .replace(/ {2,}/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// A positioned PDF text item (pdf.js coordinates, origin bottom-left)
+export interface PdfTextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  hasEOL: boolean;
+}
+
+/**
+ * Rebuild the text of a PDF page from its positioned items. Items are grouped
+ * into lines, and a line gap well above the page's usual spacing starts a new
+ * paragraph (a blank line), since PDFs carry no paragraph markup.
+ */
+export function pdfItemsToPageText(items: PdfTextItem[]): string {
+  const lines: Array<{ text: string; y: number; height: number }> = [];
+  let current: { text: string; y: number; height: number; end: number } | null = null;
+  let lineEnded = false;
+
+  for (const item of items) {
+    if (item.str) {
+      const sameLine = current && !lineEnded && Math.abs(item.y - current.y) <= Math.max(current.height, item.height) / 2;
+      if (current && sameLine) {
+        const gap = item.x - current.end;
+        const needsSpace = gap > item.height * 0.15 && !/\s$/.test(current.text) && !/^\s/.test(item.str);
+        current.text += (needsSpace ? " " : "") + item.str;
+        current.end = item.x + item.width;
+        current.height = Math.max(current.height, item.height);
+      } else {
+        current = { text: item.str, y: item.y, height: item.height, end: item.x + item.width };
+        lines.push(current);
+      }
+    }
+    lineEnded = item.hasEOL;
+  }
+
+  const gaps = lines
+    .slice(1)
+    .map((line, i) => lines[i]!.y - line.y)
+    .filter(gap => gap > 0)
+    .sort((a, b) => a - b);
+  const typicalGap = gaps[Math.floor((gaps.length - 1) / 2)] ?? 0;
+
+  return lines
+    .map((line, i) => {
+      if (i === 0) return line.text;
+      const gap = lines[i - 1]!.y - line.y;
+      return (typicalGap > 0 && gap > typicalGap * 1.5 ? "\n\n" : "\n") + line.text;
+    })
+    .join("");
+}
+
+/**
+ * Join per-page text into the stored full text and record where each page and
+ * paragraph starts and ends. Paragraphs are separated by blank lines. Pages
+ * past MAX_STORED_TEXT_BYTES (or past MAX_LAYOUT_ENTRIES paragraphs) are
+ * dropped and the layout marked truncated.
+ */
+export function buildTextLayout(pageTexts: string[]): TextLayout {
+  const layout: TextLayout = { text: "", pages: [], paragraphs: [], truncated: false };
+  const encoder = new TextEncoder();
+  let textBytes = 0;
+
+  for (const [index, rawPage] of pageTexts.entries()) {
+    const pageText = normalizeExtractedText(rawPage);
+    const separator = layout.pages.length > 0 ? PAGE_SEPARATOR : "";
+    const pageStart = layout.text.length + separator.length;
+    const pageBytes = encoder.encode(separator + pageText).length;
+
+    if (textBytes + pageBytes > MAX_STORED_TEXT_BYTES || layout.pages.length >= MAX_LAYOUT_ENTRIES) {
+      layout.truncated = true;
+      break;
+    }
+    textBytes += pageBytes;
+
+    layout.text += separator + pageText;
+    layout.pages.push({ number: index + 1, start: pageStart, end: pageStart + pageText.length });
+
+    let offset = 0;
+    for (const paragraph of pageText.split("\n\n")) {
+      if (paragraph.trim()) {
+        if (layout.paragraphs.length >= MAX_LAYOUT_ENTRIES) {
+          layout.truncated = true;
+          break;
+        }
+        layout.paragraphs.push({
+          page: index + 1,
+          start: pageStart + offset,
+          end: pageStart + offset + paragraph.length,
+        });
+      }
+      offset += paragraph.length + 2;
+    }
+  }
+
+  return layout;
+}
+
+/**
+ * Whether a failed extraction should be tried again now. Retries back off
+ * exponentially from the last failure and stop after MAX_EXTRACTION_ATTEMPTS.
+ */
+export function isExtractionRetryDue(
+  failure: { attempts: number; retryable?: boolean | undefined; updatedAt: string },
+  now: Date
+): boolean {
+  if (failure.retryable === false || failure.attempts >= MAX_EXTRACTION_ATTEMPTS) {
+    return false;
+  }
+  const delay = RETRY_BASE_DELAY_MS * 2 ** Math.max(0, failure.attempts - 1);
+  return new Date(failure.updatedAt).getTime() + delay <= now.getTime();
+}
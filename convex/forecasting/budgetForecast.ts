@@ -0,0 +1,279 @@
+/**
+ * Budget forecasting
+ *
+ * Projects a budget's spend to the end of its period, month by month, from
+ * three signals:
+ * - the historical burn rate: the average of the last complete months of
+ *   invoiced spend
+ * - seasonality: how each calendar month compares to the average, once a
+ *   full year of history exists
+ * - scheduled payments from the payment schedules of allocated contracts
+ * Each remaining month is projected as the larger of its scheduled payments
+ * and its seasonal burn, and open purchase orders are always counted. The
+ * band around the projection widens with the month-to-month volatility of
+ * the history. Pure so it can be unit tested; inputs are loaded in
+ * `forecasts.ts`.
+ */
+
+export interface ForecastBudget {
+  totalBudget: number;
+  spentAmount: number;
+  committedAmount: number;
+  startDate: string;
+  endDate: string;
+}
+
+export interface MonthlySpend {
+  month: string; // YYYY-MM
+  amount: number;
+}
+
+export interface ScheduledPayment {
+  amount: number;
+  dueDate: string; // YYYY-MM-DD
+}
+
+/**
+ * Cumulative spend at the end of a month: actual for months already over,
+ * projected with its band for the rest
+ */
+export interface ForecastPoint {
+  month: string;
+  actual?: number;
+  projected?: number;
+  lower?: number;
+  upper?: number;
+}
+
+export interface BudgetForecast {
+  asOf: string;
+  projectedTotal: number;
+  lowerBound: number;
+  upperBound: number;
+  monthlyRunRate: number;
+  scheduledRemaining: number;
+  seasonalityApplied: boolean;
+  confidence: "low" | "medium" | "high";
+  expectedOverrun: { date: string; amount: number } | null;
+  points: ForecastPoint[];
+}
+
+// Months of history averaged into the run rate
+const RUN_RATE_MONTHS = 6;
+// Complete months of history needed before seasonality is applied
+const SEASONALITY_MONTHS = 12;
+// Seasonal indexes are clamped so one odd month cannot dominate
+const SEASONAL_INDEX_RANGE: [number, number] = [0.5, 2];
+// z-score of the 80% confidence band
+const BAND_Z = 1.28;
+// Volatility assumed when there is too little history to measure it
+const DEFAULT_VOLATILITY = 0.25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function forecastBudget(
+  budget: ForecastBudget,
+  history: MonthlySpend[],
+  scheduled: ScheduledPayment[],
+  asOf: string
+): BudgetForecast {
+  const today = asOf.slice(0, 10);
+  const periodStart = budget.startDate.slice(0, 10);
+  const periodEnd = budget.endDate.slice(0, 10);
+  const currentMonth = today.slice(0, 7);
+
+  const byMonth = new Map<string, number>();
+  for (const entry of history) {
+    byMonth.set(entry.month, (byMonth.get(entry.month) ?? 0) + entry.amount);
+  }
+
+  // Complete months before the current one, oldest first, with empty months
+  // between the first recorded month and now counted as zero
+  const completeMonths: MonthlySpend[] = [];
+  const firstMonth = [...byMonth.keys()].sort()[0];
+  if (firstMonth) {
+    for (let month = firstMonth; month < currentMonth; month = addMonths(month, 1)) {
+      completeMonths.push({ month, amount: byMonth.get(month) ?? 0 });
+    }
+  }
+
+  const recent = completeMonths.slice(-RUN_RATE_MONTHS);
+  const daysElapsed = Math.max(1, daysBetween(periodStart, today));
+  const monthlyRunRate = recent.length > 0
+    ? mean(recent.map(entry => entry.amount))
+    : today > periodStart ? (budget.spentAmount / daysElapsed) * (365 / 12) : 0;
+
+  const seasonalIndex = seasonalIndexes(completeMonths);
+  const volatility = recent.length >= 2 && monthlyRunRate > 0
+    ? stdDev(recent.map(entry => entry.amount))
+    : monthlyRunRate * DEFAULT_VOLATILITY;
+
+  const scheduledByMonth = new Map<string, number>();
+  let scheduledRemaining = 0;
+  for (const payment of scheduled) {
+    const dueDate = payment.dueDate.slice(0, 10);
+    if (dueDate <= today || dueDate > periodEnd) continue;
+    const month = dueDate.slice(0, 7);
+    scheduledByMonth.set(month, (scheduledByMonth.get(month) ?? 0) + payment.amount);
+    scheduledRemaining += payment.amount;
+  }
+
+  const points: ForecastPoint[] = [];
+  const floor = budget.spentAmount + budget.committedAmount;
+
+  // Actual cumulative spend for months of the period already over
+  let actualCumulative = 0;
+  for (let month = periodStart.slice(0, 7); month < currentMonth && month <= periodEnd.slice(0, 7); month = addMonths(month, 1)) {
+    actualCumulative += byMonth.get(month) ?? 0;
+    points.push({ month, actual: round(actualCumulative) });
+  }
+
+  let cumulative = budget.spentAmount;
+  let scheduledCumulative = 0;
+  let variance = 0;
+  let expectedOverrun: BudgetForecast["expectedOverrun"] = null;
+
+  if (budget.spentAmount > budget.totalBudget) {
+    expectedOverrun = { date: today, amount: 0 };
+  }
+
+  if (today < periodEnd) {
+    // Tie the projection to the last actual point so the chart is continuous
+    const last = points[points.length - 1];
+    if (last) {
+      points[points.length - 1] = { ...last, projected: last.actual!, lower: last.actual!, upper: last.actual! };
+    }
+
+    const firstProjected = today < periodStart ? periodStart.slice(0, 7) : currentMonth;
+    for (let month = firstProjected; month <= periodEnd.slice(0, 7); month = addMonths(month, 1)) {
+      // Share of the month still ahead and inside the period
+      const windowStart = maxDate(today, periodStart, `${month}-01`);
+      const windowEnd = minDate(periodEnd, endOfMonth(month));
+      const fraction = Math.max(0, daysBetween(windowStart, windowEnd) + (windowStart === today ? 0 : 1)) / daysInMonth(month);
+
+      const index = seasonalIndex?.get(month.slice(5, 7)) ?? 1;
+      const burn = monthlyRunRate * index * fraction;
+      const scheduledAmount = scheduledByMonth.get(month) ?? 0;
+      const increment = Math.max(scheduledAmount, burn);
+
+      const before = cumulative;
+      cumulative += increment;
+      scheduledCumulative += scheduledAmount;
+      variance += Math.pow(volatility * index * fraction, 2);
+
+      const projected = Math.max(cumulative, floor);
+      const spread = BAND_Z * Math.sqrt(variance);
+      points.push({
+        month,
+        ...(month === currentMonth ? { actual: round(budget.spentAmount) } : {}),
+        projected: round(projected),
+        lower: round(Math.max(projected - spread, floor + scheduledCumulative, budget.spentAmount)),
+        upper: round(projected + spread),
+      });
+
+      if (!expectedOverrun && projected > budget.totalBudget) {
+        // Spread the month's spend evenly over its remaining days
+        const days = Math.max(1, daysBetween(windowStart, windowEnd));
+        const share = before >= budget.totalBudget || projected === before
+          ? 0
+          : Math.max(0, (budget.totalBudget - before) / (projected - before));
+        expectedOverrun = { date: addDays(windowStart, Math.round(days * share)), amount: 0 };
+      }
+    }
+  }
+
+  const lastPoint = points[points.length - 1];
+  const projectedTotal = round(Math.max(lastPoint?.projected ?? budget.spentAmount, floor));
+  const lowerBound = lastPoint?.lower ?? projectedTotal;
+  const upperBound = lastPoint?.upper ?? projectedTotal;
+
+  if (expectedOverrun && projectedTotal > budget.totalBudget) {
+    expectedOverrun.amount = round(projectedTotal - budget.totalBudget);
+  } else {
+    expectedOverrun = null;
+  }
+
+  return {
+    asOf: today,
+    projectedTotal,
+    lowerBound,
+    upperBound,
+    monthlyRunRate: round(monthlyRunRate),
+    scheduledRemaining: round(scheduledRemaining),
+    seasonalityApplied: seasonalIndex !== null,
+    confidence: recent.length >= RUN_RATE_MONTHS ? "high" : recent.length >= 3 ? "medium" : "low",
+    expectedOverrun,
+    points,
+  };
+}
+
+/**
+ * Spend in each calendar month ("01"-"12") relative to the monthly average,
+ * or null without a full year of history
+ */
+export function seasonalIndexes(completeMonths: MonthlySpend[]): Map<string, number> | null {
+  if (completeMonths.length < SEASONALITY_MONTHS) return null;
+
+  const overall = mean(completeMonths.map(entry => entry.amount));
+  if (overall <= 0) return null;
+
+  const byCalendarMonth = new Map<string, number[]>();
+  for (const entry of completeMonths) {
+    const calendarMonth = entry.month.slice(5, 7);
+    byCalendarMonth.set(calendarMonth, [...(byCalendarMonth.get(calendarMonth) ?? []), entry.amount]);
+  }
+
+  const indexes = new Map<string, number>();
+  for (const [calendarMonth, amounts] of byCalendarMonth) {
+    const index = mean(amounts) / overall;
+    indexes.set(calendarMonth, Math.min(SEASONAL_INDEX_RANGE[1], Math.max(SEASONAL_INDEX_RANGE[0], index)));
+  }
+  return indexes;
+}
+
+/**
+ * "YYYY-MM" shifted by a number of months
+ */
+export function addMonths(month: string, count: number): string {
+  const [year, monthNumber] = month.split("-").map(Number);
+  const index = year! * 12 + (monthNumber! - 1) + count;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`;
+}
+
+function daysInMonth(month: string): number {
+  const [year, monthNumber] = month.split("-").map(Number);
+  return new Date(Date.UTC(year!, monthNumber!, 0)).getUTCDate();
+}
+
+function endOfMonth(month: string): string {
+  return `${month}-${String(daysInMonth(month)).padStart(2, "0")}`;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function maxDate(...dates: string[]): string {
+  return dates.reduce((a, b) => (a > b ? a : b));
+}
+
+function minDate(...dates: string[]): string {
+  return dates.reduce((a, b) => (a < b ? a : b));
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function stdDev(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => Math.pow(value - average, 2))));
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
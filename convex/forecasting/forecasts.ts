@@ -0,0 +1,219 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, internalMutation, MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { getSecurityContext } from "../security/rowLevelSecurity";
+import { CurrencyConverter } from "../currency/fxRates";
+import { parseAmount } from "../currency/currencyConversion";
+import { parsePaymentSchedule } from "../agents/paymentSchedule";
+import { emitWebhookEvent } from "../integrations/webhookEvents";
+import { BudgetForecast, MonthlySpend, ScheduledPayment, addMonths, forecastBudget } from "./budgetForecast";
+
+/**
+ * Budget forecasts
+ *
+ * Loads a budget's invoiced history and the payment schedules of its
+ * allocated contracts, in the budget currency, and projects end-of-period
+ * spend (see `budgetForecast.ts`). A projected overrun raises a
+ * `forecast_exceed` alert carrying the expected overrun date and amount;
+ * forecasts are refreshed whenever the budget's spend or allocations change
+ * and daily as time passes.
+ */
+
+// Months of history before the budget period used for run rate and seasonality
+const HISTORY_MONTHS = 24;
+
+/**
+ * Forecast a budget as of now. Spend and payments without an exchange rate
+ * into the budget currency are left out.
+ */
+export async function loadBudgetForecast(
+  ctx: QueryCtx | MutationCtx,
+  budget: Doc<"budgets">,
+  converter: CurrencyConverter = new CurrencyConverter(ctx),
+  asOf: string = new Date().toISOString()
+): Promise<BudgetForecast & { currency: string }> {
+  const currency = budget.currency ?? await converter.reportingCurrency(budget.enterpriseId);
+  const today = asOf.slice(0, 10);
+  const historyStart = `${addMonths(budget.startDate.slice(0, 7), -HISTORY_MONTHS)}-01`;
+
+  const allocations = await ctx.db
+    .query("contractBudgetAllocations")
+    .withIndex("by_budget", (q) => q.eq("budgetId", budget._id))
+    .collect();
+
+  const history: MonthlySpend[] = [];
+  const scheduled: ScheduledPayment[] = [];
+
+  for (const contractId of new Set(allocations.map(allocation => allocation.contractId))) {
+    const contract = await ctx.db.get(contractId);
+    if (!contract) continue;
+
+    const invoices = await ctx.db
+      .query("spendRecords")
+      .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+      .filter((q) => q.eq(q.field("type"), "invoice"))
+      .collect();
+    for (const invoice of invoices) {
+      if (invoice.spendDate < historyStart || invoice.spendDate > today) continue;
+      const conversion = await converter.convert(budget.enterpriseId, invoice.amount, invoice.currency, currency, invoice.spendDate);
+      if (conversion) history.push({ month: invoice.spendDate.slice(0, 7), amount: conversion.amount });
+    }
+
+    if (!contract.extractedPaymentSchedule || !["active", "pending_approval"].includes(contract.status)) continue;
+
+    const contractCurrency = await converter.contractCurrency(contract);
+    const share = await allocationShare(
+      converter,
+      contract,
+      allocations.filter(allocation => allocation.contractId === contractId),
+      contractCurrency,
+      currency
+    );
+    for (const payment of parsePaymentSchedule(contract.extractedPaymentSchedule, new Date(asOf))) {
+      const dueDate = payment.dueDate.toISOString().slice(0, 10);
+      const conversion = await converter.convert(budget.enterpriseId, payment.amount * share, contractCurrency, currency);
+      if (conversion) scheduled.push({ amount: conversion.amount, dueDate });
+    }
+  }
+
+  return { ...forecastBudget(budget, history, scheduled, asOf), currency };
+}
+
+/**
+ * Recompute a budget's forecast and keep its `forecast_exceed` alert in step:
+ * raise one when an overrun is projected, refresh the open one's date and
+ * amount as the projection moves, and drop an open one that no longer applies
+ */
+export async function refreshBudgetForecast(
+  ctx: MutationCtx,
+  budgetId: Id<"budgets">,
+  converter: CurrencyConverter = new CurrencyConverter(ctx)
+): Promise<BudgetForecast | null> {
+  const budget = await ctx.db.get(budgetId);
+  if (!budget || budget.status === "closed") return null;
+
+  const forecast = await loadBudgetForecast(ctx, budget, converter);
+  const alerts = budget.alerts ?? [];
+  const openIndex = alerts.findIndex(alert => alert.type === "forecast_exceed" && !alert.acknowledged);
+  const overrun = forecast.expectedOverrun;
+
+  if (!overrun) {
+    if (openIndex >= 0) {
+      await ctx.db.patch(budgetId, { alerts: alerts.filter((_, index) => index !== openIndex) });
+    }
+    return forecast;
+  }
+
+  const alert = {
+    type: "forecast_exceed" as const,
+    threshold: Math.round((forecast.projectedTotal / budget.totalBudget) * 100),
+    triggeredAt: new Date().toISOString(),
+    acknowledged: false,
+    expectedOverrunDate: overrun.date,
+    expectedOverrunAmount: overrun.amount,
+  };
+
+  if (openIndex >= 0) {
+    const open = alerts[openIndex]!;
+    if (open.expectedOverrunDate !== alert.expectedOverrunDate || open.expectedOverrunAmount !== alert.expectedOverrunAmount) {
+      const updated = [...alerts];
+      updated[openIndex] = { ...alert, triggeredAt: open.triggeredAt };
+      await ctx.db.patch(budgetId, { alerts: updated });
+    }
+    return forecast;
+  }
+
+  // An acknowledged alert for the same overrun date stays acknowledged
+  if (alerts.some(existing => existing.type === "forecast_exceed" && existing.expectedOverrunDate === overrun.date)) {
+    return forecast;
+  }
+
+  await ctx.db.patch(budgetId, { alerts: [...alerts, alert] });
+  await emitWebhookEvent(ctx, {
+    type: "analytics.threshold_exceeded",
+    enterpriseId: budget.enterpriseId,
+    data: {
+      budgetId,
+      name: budget.name,
+      alertType: alert.type,
+      threshold: alert.threshold,
+      totalBudget: budget.totalBudget,
+      spentAmount: budget.spentAmount,
+      projectedTotal: forecast.projectedTotal,
+      expectedOverrunDate: overrun.date,
+      expectedOverrunAmount: overrun.amount,
+      status: budget.status,
+    },
+  });
+
+  return forecast;
+}
+
+/**
+ * Share of a contract's payments that falls to this budget: all of it for
+ * full allocations, otherwise the allocated amount over the contract value
+ */
+async function allocationShare(
+  converter: CurrencyConverter,
+  contract: Doc<"contracts">,
+  allocations: Array<Doc<"contractBudgetAllocations">>,
+  contractCurrency: string,
+  budgetCurrency: string
+): Promise<number> {
+  if (allocations.some(allocation => allocation.allocationType === "full")) return 1;
+
+  const value = contract.value ?? (contract.extractedPricing ? parseAmount(contract.extractedPricing) : 0);
+  if (value <= 0) return 1;
+
+  const contractValue = await converter.convert(contract.enterpriseId, value, contractCurrency, budgetCurrency);
+  if (!contractValue || contractValue.amount <= 0) return 1;
+
+  const allocated = allocations.reduce((sum, allocation) => sum + allocation.allocatedAmount, 0);
+  return Math.min(1, allocated / contractValue.amount);
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export const getBudgetForecast = query({
+  args: { budgetId: v.id("budgets") },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const budget = await ctx.db.get(args.budgetId);
+    if (!budget || budget.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Budget not found");
+    }
+
+    return await loadBudgetForecast(ctx, budget);
+  },
+});
+
+// ============================================================================
+// SCHEDULED
+// ============================================================================
+
+/**
+ * Refresh forecasts of all open budgets; run daily so forecasts and alerts
+ * move with time even when no spend arrives
+ */
+export const refreshBudgetForecasts = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const today = new Date().toISOString().slice(0, 10);
+    const budgets = await ctx.db.query("budgets").collect();
+
+    let refreshed = 0;
+    let overruns = 0;
+    for (const budget of budgets) {
+      if (budget.status === "closed" || budget.endDate.slice(0, 10) < today) continue;
+      const forecast = await refreshBudgetForecast(ctx, budget._id);
+      refreshed++;
+      if (forecast?.expectedOverrun) overruns++;
+    }
+
+    return { refreshed, overruns };
+  },
+});
@@ -1,9 +1,14 @@
 import { v } from "convex/values";
 import { query, mutation, action } from "../_generated/server";
 import { ConvexError } from "convex/values";
-import { getSecurityContext } from "../security/rowLevelSecurity";
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
 import { api } from "../_generated/api";
 import { Id } from "../_generated/dataModel";
+import { emitWebhookEvent } from "../integrations/webhookEvents";
+import { appendAuditLog } from "../auditLogging";
+import { getActiveLegalHolds, recordHoldRefusal, refuseIfHeld } from "../legalHolds/legalHolds";
+import { findBlockingHolds, HoldSubject } from "../legalHolds/legalHoldRules";
+import { describeRetentionRule } from "../retention/retentionRules";
 
 // Export all user data (GDPR compliance)
 export const exportUserData = action({
@@ -104,8 +109,31 @@ export const deleteUserData = mutation({
       throw new Error("User not found");
     }
 
+    const refusal = await refuseIfHeld(ctx, user.enterpriseId, { userIds: [user._id] }, {
+      operation: "deleteUserData",
+      action: "delete",
+      resourceType: "userData",
+      resourceId: user._id,
+      userId: user._id,
+      description: "delete this account's data",
+    });
+    if (refusal) {
+      return { success: false, message: refusal };
+    }
+    const holds = await getActiveLegalHolds(ctx, user.enterpriseId);
+    const keptByHold = new Map<Id<"legalHolds">, { notifications: number; chatSessions: number }>();
+    const keepIfHeld = (subject: HoldSubject, kind: "notifications" | "chatSessions") => {
+      const blocking = findBlockingHolds(holds, subject);
+      for (const hold of blocking) {
+        const kept = keptByHold.get(hold._id) ?? { notifications: 0, chatSessions: 0 };
+        kept[kind]++;
+        keptByHold.set(hold._id, kept);
+      }
+      return blocking.length > 0;
+    };
+
     // Log the deletion request
-    await ctx.db.insert("auditLogs", {
+    await appendAuditLog(ctx, {
       userId: user._id,
       enterpriseId: user.enterpriseId,
       operation: "deleteUserData",
@@ -117,6 +145,13 @@ export const deleteUserData = mutation({
       metadata: { deleteRelatedData: args.deleteRelatedData }
     });
 
+    // Only the id is shared; the user's personal data is what is being erased
+    await emitWebhookEvent(ctx, {
+      type: "user.deleted",
+      enterpriseId: user.enterpriseId,
+      data: { userId: user._id },
+    });
+
     if (args.deleteRelatedData) {
       // Delete related data
       const contracts = await ctx.db
@@ -139,7 +174,14 @@ export const deleteUserData = mutation({
         .collect();
       
       for (const notification of notifications) {
-        await ctx.db.delete(notification._id);
+        const held = keepIfHeld({
+          contractIds: [notification.contractId],
+          vendorIds: [notification.vendorId],
+          period: { start: notification.createdAt, end: notification.createdAt },
+        }, "notifications");
+        if (!held) {
+          await ctx.db.delete(notification._id);
+        }
       }
 
       // Delete chat sessions
@@ -149,7 +191,26 @@ export const deleteUserData = mutation({
         .collect();
       
       for (const session of chatSessions) {
-        await ctx.db.delete(session._id);
+        const held = keepIfHeld({
+          contractIds: [session.context?.contractId],
+          vendorIds: [session.context?.vendorId],
+          period: { start: session.createdAt, end: session.updatedAt },
+        }, "chatSessions");
+        if (!held) {
+          await ctx.db.delete(session._id);
+        }
+      }
+
+      for (const [holdId, kept] of keptByHold) {
+        await recordHoldRefusal(ctx, holds.filter(hold => hold._id === holdId), {
+          operation: "deleteUserData",
+          action: "delete",
+          resourceType: "userData",
+          resourceId: user._id,
+          userId: user._id,
+          errorMessage: "Kept records under legal hold while deleting account data",
+          metadata: kept,
+        });
       }
     }
 
@@ -180,11 +241,9 @@ export const anonymizeUserData = mutation({
     
     let targetUserId = args.userId || securityContext.userId;
     
-    // If targeting another user, require admin access
+    // Deleting another user's data needs the right to manage users
     if (args.userId && args.userId !== securityContext.userId) {
-      if (!["owner", "admin"].includes(securityContext.role)) {
-        throw new ConvexError("Access denied: Admin access required");
-      }
+      requirePermission(securityContext, "users.update");
     }
 
     const user = await ctx.db.get(targetUserId);
@@ -192,6 +251,18 @@ export const anonymizeUserData = mutation({
       throw new Error("User not found");
     }
 
+    const refusal = await refuseIfHeld(ctx, user.enterpriseId, { userIds: [targetUserId] }, {
+      operation: "anonymizeUserData",
+      action: "update",
+      resourceType: "users",
+      resourceId: targetUserId,
+      userId: securityContext.userId,
+      description: "anonymize this user",
+    });
+    if (refusal) {
+      return { success: false, error: refusal };
+    }
+
     // Generate anonymous ID
     const anonymousId = `anon-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
@@ -207,7 +278,7 @@ export const anonymizeUserData = mutation({
     });
 
     // Log the anonymization
-    await ctx.db.insert("auditLogs", {
+    await appendAuditLog(ctx, {
       userId: securityContext.userId,
       enterpriseId: securityContext.enterpriseId,
       operation: "anonymizeUserData",
@@ -322,14 +393,18 @@ export const exportEnterpriseData = action({
 export const getDataRetentionPolicy = query({
   args: {},
   handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    const retentionPolicy = enterprise?.retentionPolicy;
+
     return {
-      policy: {
-        userDataRetention: "7 years after account closure",
-        contractDataRetention: "10 years after contract expiration",
-        auditLogRetention: "3 years",
-        analyticsDataRetention: "2 years",
-        backupRetention: "90 days",
-      },
+      // Data types without a rule are kept until deleted
+      policy: (retentionPolicy?.rules ?? []).map(rule => ({
+        ...rule,
+        description: describeRetentionRule(rule),
+      })),
+      enforcementEnabled: retentionPolicy?.enforcementEnabled ?? false,
+      lastEnforcedAt: retentionPolicy?.lastEnforcedAt ?? null,
       dataSubjectRights: [
         "Right to access personal data",
         "Right to rectification",
@@ -342,7 +417,7 @@ export const getDataRetentionPolicy = query({
         dataProtectionOfficer: "dpo@pactwise.com",
         privacyTeam: "privacy@pactwise.com",
       },
-      lastUpdated: "2024-01-01",
+      lastUpdated: retentionPolicy?.updatedAt ?? null,
     };
   },
 });
@@ -372,7 +447,7 @@ export const requestDataPortability = mutation({
     };
 
     // Log the request
-    await ctx.db.insert("auditLogs", {
+    await appendAuditLog(ctx, {
       userId: securityContext.userId,
       enterpriseId: securityContext.enterpriseId,
       operation: "requestDataPortability",
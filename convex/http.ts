@@ -2,6 +2,8 @@ import { httpRouter } from "convex/server";
 import { httpAction } from "./_generated/server";
 import { api } from "./_generated/api";
 import { invalidationHandlers } from "../src/lib/cache-invalidation";
+import { handleRestApiRequest, openApiDocument } from "./integrations/restApi";
+import { handleScimHttpRequest } from "./scim/scim";
 
 // Health check endpoint
 const health = httpAction(async (ctx, request) => {
@@ -122,4 +124,28 @@ http.route({
   handler: metrics,
 });
 
+// REST API v1 (API key authenticated, see integrations/restApi.ts)
+http.route({
+  path: "/api/v1/openapi.json",
+  method: "GET",
+  handler: openApiDocument,
+});
+
+for (const method of ["GET", "POST", "PATCH", "DELETE"] as const) {
+  http.route({
+    pathPrefix: "/api/v1/",
+    method,
+    handler: handleRestApiRequest,
+  });
+}
+
+// SCIM 2.0 provisioning (SCIM token authenticated, see scim/scim.ts)
+for (const method of ["GET", "POST", "PUT", "PATCH", "DELETE"] as const) {
+  http.route({
+    pathPrefix: "/scim/v2/",
+    method,
+    handler: handleScimHttpRequest,
+  });
+}
+
 export default http;
\ No newline at end of file
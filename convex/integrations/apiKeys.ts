@@ -1,12 +1,12 @@
-"use node";
-
 import { v } from "convex/values";
-import { mutation, query, action } from "../_generated/server";
+import { mutation, query, internalAction, internalMutation, internalQuery, ActionCtx } from "../_generated/server";
 import { ConvexError } from "convex/values";
-import { getSecurityContext } from "../security/rowLevelSecurity";
-import { api } from "../_generated/api";
-import { Id } from "../_generated/dataModel";
-import crypto from "crypto";
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
+import { apiKeyAllows } from "../security/permissions";
+import { internal } from "../_generated/api";
+import { Id, Doc } from "../_generated/dataModel";
+import { appendAuditLog } from "../auditLogging";
+import { randomHex, toHex } from "../lib/crypto";
 
 // API Key permissions
 export const APIKeyPermissions = {
@@ -15,10 +15,13 @@ export const APIKeyPermissions = {
   READ_VENDORS: "read:vendors",
   READ_USERS: "read:users",
   READ_ANALYTICS: "read:analytics",
+  READ_BUDGETS: "read:budgets",
+  READ_SPEND: "read:spend",
   
   // Write permissions
   WRITE_CONTRACTS: "write:contracts",
   WRITE_VENDORS: "write:vendors",
+  WRITE_SPEND: "write:spend",
   
   // Admin permissions
   MANAGE_USERS: "manage:users",
@@ -31,6 +34,33 @@ export const APIKeyPermissions = {
 
 export type APIKeyPermission = typeof APIKeyPermissions[keyof typeof APIKeyPermissions];
 
+export interface APIKeyRateLimitResult {
+  allowed: boolean;
+  resetIn?: number;
+  limit: number; // Per-minute limit, reported in X-RateLimit-* headers
+  remaining: number;
+}
+
+export type APIKeyValidationResult =
+  | {
+      valid: true;
+      apiKeyId: Id<"apiKeys">;
+      enterpriseId: Id<"enterprises">;
+      permissions: string[];
+      rateLimit: APIKeyRateLimitResult;
+    }
+  | { valid: false; error: string; code: "invalid_key" }
+  | { valid: false; error: string; code: "insufficient_scope"; apiKeyId: Id<"apiKeys"> }
+  | {
+      valid: false;
+      error: string;
+      code: "rate_limited";
+      apiKeyId: Id<"apiKeys">;
+      rateLimitExceeded: true;
+      resetIn?: number;
+      rateLimit: APIKeyRateLimitResult;
+    };
+
 // Create API key
 export const createAPIKey = mutation({
   args: {
@@ -53,10 +83,7 @@ export const createAPIKey = mutation({
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can create API keys
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "apiKeys.manage");
 
     // Validate permissions
     const validPermissions = Object.values(APIKeyPermissions);
@@ -68,7 +95,7 @@ export const createAPIKey = mutation({
 
     // Generate API key
     const apiKey = generateAPIKey();
-    const keyHash = hashAPIKey(apiKey);
+    const keyHash = await hashAPIKey(apiKey);
     const keyPrefix = apiKey.substring(0, 8);
 
     // Calculate expiration
@@ -109,7 +136,7 @@ export const createAPIKey = mutation({
     });
 
     // Log the creation
-    await ctx.db.insert("auditLogs", {
+    await appendAuditLog(ctx, {
       userId: securityContext.userId,
       enterpriseId: securityContext.enterpriseId,
       operation: "createAPIKey",
@@ -142,10 +169,7 @@ export const listAPIKeys = query({
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can view API keys
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "apiKeys.manage");
 
     let apiKeys = await ctx.db
       .query("apiKeys")
@@ -201,10 +225,7 @@ export const getAPIKeyDetails = query({
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can view API keys
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "apiKeys.manage");
 
     const apiKey = await ctx.db.get(args.apiKeyId);
     if (!apiKey) {
@@ -285,10 +306,7 @@ export const updateAPIKey = mutation({
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can manage API keys
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "apiKeys.manage");
 
     const apiKey = await ctx.db.get(args.apiKeyId);
     if (!apiKey) {
@@ -309,7 +327,7 @@ export const updateAPIKey = mutation({
       }
     }
 
-    const updates: any = {};
+    const updates: Partial<Doc<"apiKeys">> = {};
     
     if (args.name !== undefined) updates.name = args.name;
     if (args.description !== undefined) updates.description = args.description;
@@ -321,7 +339,7 @@ export const updateAPIKey = mutation({
     await ctx.db.patch(args.apiKeyId, updates);
 
     // Log the update
-    await ctx.db.insert("auditLogs", {
+    await appendAuditLog(ctx, {
       userId: securityContext.userId,
       enterpriseId: securityContext.enterpriseId,
       operation: "updateAPIKey",
@@ -346,10 +364,7 @@ export const revokeAPIKey = mutation({
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can revoke API keys
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "apiKeys.manage");
 
     const apiKey = await ctx.db.get(args.apiKeyId);
     if (!apiKey) {
@@ -367,7 +382,7 @@ export const revokeAPIKey = mutation({
     });
 
     // Log the revocation
-    await ctx.db.insert("auditLogs", {
+    await appendAuditLog(ctx, {
       userId: securityContext.userId,
       enterpriseId: securityContext.enterpriseId,
       operation: "revokeAPIKey",
@@ -383,48 +398,54 @@ export const revokeAPIKey = mutation({
   },
 });
 
-// Validate API key (called from API routes)
-export const validateAPIKey = action({
+// Validate API key (called from the REST API's HTTP action)
+// Usage is not recorded here; callers record it with the real status via recordUsage
+export const validateAPIKey = internalAction({
   args: {
     apiKey: v.string(),
     endpoint: v.string(),
     method: v.string(),
     requiredPermission: v.optional(v.string()),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, args): Promise<APIKeyValidationResult> => {
     // Extract prefix from API key
     const keyPrefix = args.apiKey.substring(0, 8);
     
     // Find API key by prefix
-    const apiKeys = await ctx.runQuery(api.integrations.apiKeys.findByPrefix, {
+    const apiKeys: Doc<"apiKeys">[] = await ctx.runQuery(internal.integrations.apiKeys.findByPrefix, {
       keyPrefix,
     });
 
     if (apiKeys.length === 0) {
-      return { valid: false, error: "Invalid API key" };
+      return { valid: false, error: "Invalid API key", code: "invalid_key" };
     }
 
     // Verify the full key hash
-    const keyHash = hashAPIKey(args.apiKey);
+    const keyHash = await hashAPIKey(args.apiKey);
     const validKey = apiKeys.find(k => k.keyHash === keyHash);
 
     if (!validKey) {
-      return { valid: false, error: "Invalid API key" };
+      return { valid: false, error: "Invalid API key", code: "invalid_key" };
     }
 
     // Check if key is active
     if (!validKey.isActive) {
-      return { valid: false, error: "API key has been revoked" };
+      return { valid: false, error: "API key has been revoked", code: "invalid_key" };
     }
 
     // Check expiration
     if (validKey.expiresAt && new Date(validKey.expiresAt) < new Date()) {
-      return { valid: false, error: "API key has expired" };
+      return { valid: false, error: "API key has expired", code: "invalid_key" };
     }
 
     // Check permission if required
-    if (args.requiredPermission && !validKey.permissions.includes(args.requiredPermission)) {
-      return { valid: false, error: "Insufficient permissions" };
+    if (args.requiredPermission && !apiKeyAllows(validKey.permissions, args.requiredPermission)) {
+      return {
+        valid: false,
+        error: `Insufficient permissions: ${args.requiredPermission} required`,
+        code: "insufficient_scope",
+        apiKeyId: validKey._id,
+      };
     }
 
     // Check rate limits
@@ -433,23 +454,16 @@ export const validateAPIKey = action({
       return { 
         valid: false, 
         error: `Rate limit exceeded. Try again in ${rateLimitCheck.resetIn} seconds`,
+        code: "rate_limited",
+        apiKeyId: validKey._id,
         rateLimitExceeded: true,
-        resetIn: rateLimitCheck.resetIn,
+        ...(rateLimitCheck.resetIn !== undefined ? { resetIn: rateLimitCheck.resetIn } : {}),
+        rateLimit: rateLimitCheck,
       };
     }
 
-    // Record usage
-    await ctx.runMutation(api.integrations.apiKeys.recordUsage, {
-      apiKeyId: validKey._id,
-      endpoint: args.endpoint,
-      method: args.method,
-      statusCode: 200, // Will be updated by the actual API response
-      responseTime: 0, // Will be updated by the actual API response
-      ipAddress: "unknown", // Should be passed from the API route
-    });
-
     // Update last used
-    await ctx.runMutation(api.integrations.apiKeys.updateLastUsed, {
+    await ctx.runMutation(internal.integrations.apiKeys.updateLastUsed, {
       apiKeyId: validKey._id,
     });
 
@@ -458,12 +472,13 @@ export const validateAPIKey = action({
       apiKeyId: validKey._id,
       enterpriseId: validKey.enterpriseId,
       permissions: validKey.permissions,
+      rateLimit: rateLimitCheck,
     };
   },
 });
 
 // Find API key by prefix (internal)
-export const findByPrefix = query({
+export const findByPrefix = internalQuery({
   args: {
     keyPrefix: v.string(),
   },
@@ -476,7 +491,7 @@ export const findByPrefix = query({
 });
 
 // Record API key usage
-export const recordUsage = mutation({
+export const recordUsage = internalMutation({
   args: {
     apiKeyId: v.id("apiKeys"),
     endpoint: v.string(),
@@ -514,7 +529,7 @@ export const recordUsage = mutation({
 });
 
 // Update last used timestamp
-export const updateLastUsed = mutation({
+export const updateLastUsed = internalMutation({
   args: {
     apiKeyId: v.id("apiKeys"),
   },
@@ -537,10 +552,7 @@ export const getAPIKeyStats = query({
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can view stats
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "apiKeys.manage");
 
     const timeRanges = {
       "24h": 24 * 60 * 60 * 1000,
@@ -630,53 +642,57 @@ export const getAPIKeyStats = query({
 });
 
 // Helper functions
+// Web Crypto keeps this module out of the Node runtime, which only allows actions
 function generateAPIKey(): string {
-  const prefix = "pk_live_";
-  const randomBytes = crypto.randomBytes(32).toString('hex');
-  return prefix + randomBytes;
+  return "pk_live_" + randomHex(32);
 }
 
-function hashAPIKey(apiKey: string): string {
-  return crypto.createHash('sha256').update(apiKey).digest('hex');
+async function hashAPIKey(apiKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(apiKey));
+  return toHex(new Uint8Array(digest));
 }
 
 async function checkAPIKeyRateLimit(
-  ctx: any,
-  apiKeyId: string,
-  limits: { requestsPerMinute: number; requestsPerHour: number; requestsPerDay: number }
-): Promise<{ allowed: boolean; resetIn?: number }> {
+  ctx: ActionCtx,
+  apiKeyId: Id<"apiKeys">,
+  limits: { requestsPerMinute: number; requestsPerHour: number; requestsPerDay: number } | undefined
+): Promise<APIKeyRateLimitResult> {
+  // Keys created without explicit limits get the createAPIKey defaults
+  const effectiveLimits = limits || { requestsPerMinute: 60, requestsPerHour: 1000, requestsPerDay: 10000 };
   const now = new Date();
   const oneMinuteAgo = new Date(now.getTime() - 60 * 1000);
   const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
   const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
 
   // Get recent usage
-  const usage = await ctx.runQuery(api.integrations.apiKeys.getRecentUsage, {
+  const usage: Array<{ timestamp: string }> = await ctx.runQuery(internal.integrations.apiKeys.getRecentUsage, {
     apiKeyId,
     since: oneDayAgo.toISOString(),
   });
 
   // Check limits
   const lastMinute = usage.filter(u => new Date(u.timestamp) > oneMinuteAgo).length;
-  if (lastMinute >= limits.requestsPerMinute) {
-    return { allowed: false, resetIn: 60 };
+  const limit = effectiveLimits.requestsPerMinute;
+  if (lastMinute >= limit) {
+    return { allowed: false, resetIn: 60, limit, remaining: 0 };
   }
 
   const lastHour = usage.filter(u => new Date(u.timestamp) > oneHourAgo).length;
-  if (lastHour >= limits.requestsPerHour) {
-    return { allowed: false, resetIn: 3600 };
+  if (lastHour >= effectiveLimits.requestsPerHour) {
+    return { allowed: false, resetIn: 3600, limit, remaining: 0 };
   }
 
-  const lastDay = usage.filter(u => new Date(u.timestamp) > oneDayAgo).length;
-  if (lastDay >= limits.requestsPerDay) {
-    return { allowed: false, resetIn: 86400 };
+  const lastDay = usage.length;
+  if (lastDay >= effectiveLimits.requestsPerDay) {
+    return { allowed: false, resetIn: 86400, limit, remaining: 0 };
   }
 
-  return { allowed: true };
+  // This request counts against the limit once its usage is recorded
+  return { allowed: true, limit, remaining: limit - lastMinute - 1 };
 }
 
 // Get recent usage (internal)
-export const getRecentUsage = query({
+export const getRecentUsage = internalQuery({
   args: {
     apiKeyId: v.id("apiKeys"),
     since: v.string(),
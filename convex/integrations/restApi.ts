@@ -0,0 +1,670 @@
+import { ConvexError } from "convex/values";
+import { httpAction, ActionCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { Id } from "../_generated/dataModel";
+import { contractStatusOptions, contractTypeOptions, vendorCategoryOptions } from "../schema";
+import type { APIKeyPermission, APIKeyValidationResult } from "./apiKeys";
+import type { ContractUpdatesInput, SpendRecordInput, VendorInput, VendorUpdatesInput } from "./restApiData";
+import {
+  RestApiRouteSpec,
+  JsonSchema,
+  buildOpenApiDocument,
+  matchRestApiRoute,
+  parsePaginationParams,
+} from "./restApiSpec";
+
+/**
+ * REST API v1
+ *
+ * Key-authenticated HTTP API for contracts, vendors, budgets, spend and
+ * analytics. Every request is authenticated with `validateAPIKey` against the
+ * route's scope and the key's rate limits, served from the key's enterprise
+ * only, and recorded in apiKeyUsage with its real status code and latency.
+ */
+
+interface RestApiRequest {
+  apiKeyId: Id<"apiKeys">;
+  enterpriseId: Id<"enterprises">;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+}
+
+interface RestApiResult {
+  status: number;
+  body: unknown;
+}
+
+interface RestApiRoute extends RestApiRouteSpec {
+  scope: APIKeyPermission;
+  handler: (ctx: ActionCtx, request: RestApiRequest) => Promise<RestApiResult>;
+}
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const idSchema = { type: "string" };
+const timestampSchema = { type: "string", format: "date-time" };
+
+const contractSchema: JsonSchema = {
+  type: "object",
+  required: ["id", "enterpriseId", "title", "status", "createdAt"],
+  properties: {
+    id: idSchema,
+    enterpriseId: idSchema,
+    vendorId: idSchema,
+    title: { type: "string" },
+    status: { type: "string", enum: [...contractStatusOptions] },
+    contractType: { type: "string", enum: [...contractTypeOptions] },
+    fileName: { type: "string" },
+    fileType: { type: "string" },
+    value: { type: "number" },
+    startDate: { type: "string" },
+    endDate: { type: "string" },
+    extractedParties: { type: "array", items: { type: "string" } },
+    extractedStartDate: { type: "string" },
+    extractedEndDate: { type: "string" },
+    extractedPaymentSchedule: { type: "string" },
+    extractedPricing: { type: "string" },
+    extractedScope: { type: "string" },
+    analysisStatus: { type: "string" },
+    notes: { type: "string" },
+    createdAt: timestampSchema,
+    updatedAt: { type: "number", description: "Unix epoch milliseconds" },
+  },
+};
+
+const contractUpdateProperties: Record<keyof ContractUpdatesInput, JsonSchema> = {
+  title: { type: "string", maxLength: 200 },
+  status: { type: "string", enum: [...contractStatusOptions] },
+  contractType: { type: "string", enum: [...contractTypeOptions] },
+  vendorId: idSchema,
+  value: { type: "number" },
+  startDate: { type: "string" },
+  endDate: { type: "string" },
+  notes: { type: "string", maxLength: 2000 },
+};
+
+const contractUpdateSchema: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: contractUpdateProperties,
+};
+
+const vendorSchema: JsonSchema = {
+  type: "object",
+  required: ["id", "enterpriseId", "name", "createdAt"],
+  properties: {
+    id: idSchema,
+    enterpriseId: idSchema,
+    name: { type: "string" },
+    status: { type: "string", enum: ["active", "inactive"] },
+    category: { type: "string", enum: [...vendorCategoryOptions] },
+    contactName: { type: "string" },
+    contactEmail: { type: "string", format: "email" },
+    contactPhone: { type: "string" },
+    address: { type: "string" },
+    website: { type: "string" },
+    notes: { type: "string" },
+    performanceScore: { type: "number" },
+    complianceScore: { type: "number" },
+    totalContractValue: { type: "number" },
+    activeContracts: { type: "number" },
+    createdAt: timestampSchema,
+    updatedAt: { type: "number", description: "Unix epoch milliseconds" },
+  },
+};
+
+const vendorWriteProperties: Record<keyof VendorInput, JsonSchema> = {
+  name: { type: "string" },
+  status: { type: "string", enum: ["active", "inactive"] },
+  category: { type: "string", enum: [...vendorCategoryOptions] },
+  contactName: { type: "string" },
+  contactEmail: { type: "string", format: "email" },
+  contactPhone: { type: "string" },
+  address: { type: "string" },
+  website: { type: "string" },
+  notes: { type: "string" },
+};
+
+const budgetSchema: JsonSchema = {
+  type: "object",
+  required: ["id", "enterpriseId", "name", "budgetType", "totalBudget", "status"],
+  properties: {
+    id: idSchema,
+    enterpriseId: idSchema,
+    name: { type: "string" },
+    budgetType: { type: "string", enum: ["annual", "quarterly", "monthly", "project", "department"] },
+    departmentId: { type: "string" },
+    totalBudget: { type: "number" },
+    allocatedAmount: { type: "number" },
+    spentAmount: { type: "number" },
+    committedAmount: { type: "number" },
+    startDate: { type: "string" },
+    endDate: { type: "string" },
+    status: { type: "string", enum: ["active", "exceeded", "at_risk", "healthy", "closed"] },
+    createdAt: timestampSchema,
+  },
+};
+
+const spendTypeOptions = ["invoice", "purchase_order"] as const;
+const spendMatchStatusOptions = ["matched", "vendor_only", "unmatched"] as const;
+
+const spendWriteProperties: Record<keyof SpendRecordInput, JsonSchema> = {
+  type: { type: "string", enum: [...spendTypeOptions] },
+  documentNumber: { type: "string", description: "Invoice or PO number; posting an existing number replaces it" },
+  poNumber: { type: "string", description: "PO an invoice was raised against" },
+  vendorName: { type: "string" },
+  vendorId: { ...idSchema, description: "Skips vendor name matching" },
+  contractId: { ...idSchema, description: "Skips contract matching" },
+  amount: { type: "number" },
+  currency: { type: "string", description: "ISO 4217 code; the enterprise reporting currency when omitted" },
+  spendDate: { type: "string", format: "date" },
+  description: { type: "string" },
+};
+
+const spendRecordSchema: JsonSchema = {
+  type: "object",
+  required: ["id", "enterpriseId", "type", "documentNumber", "vendorName", "amount", "currency", "spendDate", "matchStatus", "flags"],
+  properties: {
+    id: idSchema,
+    enterpriseId: idSchema,
+    type: { type: "string", enum: [...spendTypeOptions] },
+    documentNumber: { type: "string" },
+    poNumber: { type: "string" },
+    vendorName: { type: "string" },
+    vendorId: idSchema,
+    contractId: idSchema,
+    amount: { type: "number" },
+    currency: { type: "string" },
+    spendDate: { type: "string", format: "date" },
+    description: { type: "string" },
+    matchStatus: { type: "string", enum: [...spendMatchStatusOptions] },
+    matchScore: { type: "number" },
+    flags: {
+      type: "array",
+      items: { type: "string", enum: ["exceeds_contract_pricing", "outside_contract_term"] },
+    },
+    source: { type: "string", enum: ["csv", "api", "manual"] },
+    createdAt: timestampSchema,
+  },
+};
+
+const analyticsSummarySchema: JsonSchema = {
+  type: "object",
+  properties: {
+    generatedAt: timestampSchema,
+    contracts: {
+      type: "object",
+      properties: {
+        total: { type: "integer" },
+        byStatus: { type: "object", additionalProperties: { type: "integer" } },
+        totalValue: { type: "number" },
+        expiringIn30Days: { type: "integer" },
+      },
+    },
+    vendors: {
+      type: "object",
+      properties: {
+        total: { type: "integer" },
+        active: { type: "integer" },
+        averagePerformanceScore: { type: "number" },
+      },
+    },
+    budgets: {
+      type: "object",
+      properties: {
+        total: { type: "integer" },
+        totalBudget: { type: "number" },
+        spentAmount: { type: "number" },
+        allocatedAmount: { type: "number" },
+        atRisk: { type: "integer" },
+        exceeded: { type: "integer" },
+      },
+    },
+  },
+};
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+export const restApiRoutes: RestApiRoute[] = [
+  {
+    method: "GET",
+    path: "/contracts",
+    operationId: "listContracts",
+    summary: "List contracts",
+    tag: "Contracts",
+    scope: "read:contracts",
+    paginated: true,
+    queryParameters: [
+      { name: "status", description: "Filter by status", schema: { type: "string", enum: [...contractStatusOptions] } },
+      { name: "vendorId", description: "Filter by vendor", schema: idSchema },
+    ],
+    responseSchema: contractSchema,
+    handler: async (ctx, req) => ok(await ctx.runQuery(internal.integrations.restApiData.listContracts, {
+      enterpriseId: req.enterpriseId,
+      ...optionalEnum(req.query, "status", contractStatusOptions),
+      ...optionalString(req.query, "vendorId"),
+      ...parsePaginationParams(req.query),
+    })),
+  },
+  {
+    method: "GET",
+    path: "/contracts/{id}",
+    operationId: "getContract",
+    summary: "Get a contract",
+    tag: "Contracts",
+    scope: "read:contracts",
+    responseSchema: contractSchema,
+    handler: async (ctx, req) => found(await ctx.runQuery(internal.integrations.restApiData.getContract, {
+      enterpriseId: req.enterpriseId,
+      contractId: req.params.id!,
+    }), "Contract"),
+  },
+  {
+    method: "PATCH",
+    path: "/contracts/{id}",
+    operationId: "updateContract",
+    summary: "Update a contract",
+    tag: "Contracts",
+    scope: "write:contracts",
+    requestBody: contractUpdateSchema,
+    responseSchema: contractSchema,
+    handler: async (ctx, req) => found(await ctx.runMutation(internal.integrations.restApiData.updateContract, {
+      enterpriseId: req.enterpriseId,
+      apiKeyId: req.apiKeyId,
+      contractId: req.params.id!,
+      updates: pickFields(req.body as ContractUpdatesInput, schemaFields(contractUpdateProperties)),
+    }), "Contract"),
+  },
+  {
+    method: "GET",
+    path: "/vendors",
+    operationId: "listVendors",
+    summary: "List vendors",
+    tag: "Vendors",
+    scope: "read:vendors",
+    paginated: true,
+    queryParameters: [
+      { name: "category", description: "Filter by category", schema: { type: "string", enum: [...vendorCategoryOptions] } },
+      { name: "status", description: "Filter by status", schema: { type: "string", enum: ["active", "inactive"] } },
+    ],
+    responseSchema: vendorSchema,
+    handler: async (ctx, req) => ok(await ctx.runQuery(internal.integrations.restApiData.listVendors, {
+      enterpriseId: req.enterpriseId,
+      ...optionalEnum(req.query, "category", vendorCategoryOptions),
+      ...optionalEnum(req.query, "status", ["active", "inactive"] as const),
+      ...parsePaginationParams(req.query),
+    })),
+  },
+  {
+    method: "GET",
+    path: "/vendors/{id}",
+    operationId: "getVendor",
+    summary: "Get a vendor",
+    tag: "Vendors",
+    scope: "read:vendors",
+    responseSchema: vendorSchema,
+    handler: async (ctx, req) => found(await ctx.runQuery(internal.integrations.restApiData.getVendor, {
+      enterpriseId: req.enterpriseId,
+      vendorId: req.params.id!,
+    }), "Vendor"),
+  },
+  {
+    method: "POST",
+    path: "/vendors",
+    operationId: "createVendor",
+    summary: "Create a vendor",
+    tag: "Vendors",
+    scope: "write:vendors",
+    requestBody: {
+      type: "object",
+      required: ["name"],
+      additionalProperties: false,
+      properties: vendorWriteProperties,
+    },
+    responseSchema: vendorSchema,
+    successStatus: 201,
+    handler: async (ctx, req) => ({
+      status: 201,
+      body: {
+        data: await ctx.runMutation(internal.integrations.restApiData.createVendor, {
+          enterpriseId: req.enterpriseId,
+          apiKeyId: req.apiKeyId,
+          vendor: pickFields(req.body as VendorInput, schemaFields(vendorWriteProperties)),
+        }),
+      },
+    }),
+  },
+  {
+    method: "PATCH",
+    path: "/vendors/{id}",
+    operationId: "updateVendor",
+    summary: "Update a vendor",
+    tag: "Vendors",
+    scope: "write:vendors",
+    requestBody: {
+      type: "object",
+      additionalProperties: false,
+      properties: vendorWriteProperties,
+    },
+    responseSchema: vendorSchema,
+    handler: async (ctx, req) => found(await ctx.runMutation(internal.integrations.restApiData.updateVendor, {
+      enterpriseId: req.enterpriseId,
+      apiKeyId: req.apiKeyId,
+      vendorId: req.params.id!,
+      updates: pickFields(req.body as VendorUpdatesInput, schemaFields(vendorWriteProperties)),
+    }), "Vendor"),
+  },
+  {
+    method: "GET",
+    path: "/budgets",
+    operationId: "listBudgets",
+    summary: "List budgets",
+    tag: "Budgets",
+    scope: "read:budgets",
+    paginated: true,
+    queryParameters: [
+      {
+        name: "status",
+        description: "Filter by status",
+        schema: { type: "string", enum: ["active", "exceeded", "at_risk", "healthy", "closed"] },
+      },
+    ],
+    responseSchema: budgetSchema,
+    handler: async (ctx, req) => ok(await ctx.runQuery(internal.integrations.restApiData.listBudgets, {
+      enterpriseId: req.enterpriseId,
+      ...optionalEnum(req.query, "status", ["active", "exceeded", "at_risk", "healthy", "closed"] as const),
+      ...parsePaginationParams(req.query),
+    })),
+  },
+  {
+    method: "GET",
+    path: "/budgets/{id}",
+    operationId: "getBudget",
+    summary: "Get a budget",
+    tag: "Budgets",
+    scope: "read:budgets",
+    responseSchema: budgetSchema,
+    handler: async (ctx, req) => found(await ctx.runQuery(internal.integrations.restApiData.getBudget, {
+      enterpriseId: req.enterpriseId,
+      budgetId: req.params.id!,
+    }), "Budget"),
+  },
+  {
+    method: "GET",
+    path: "/spend",
+    operationId: "listSpendRecords",
+    summary: "List invoices and purchase orders",
+    tag: "Spend",
+    scope: "read:spend",
+    paginated: true,
+    queryParameters: [
+      { name: "type", description: "Filter by document type", schema: { type: "string", enum: [...spendTypeOptions] } },
+      { name: "matchStatus", description: "Filter by match status", schema: { type: "string", enum: [...spendMatchStatusOptions] } },
+      { name: "contractId", description: "Filter by contract", schema: idSchema },
+    ],
+    responseSchema: spendRecordSchema,
+    handler: async (ctx, req) => ok(await ctx.runQuery(internal.integrations.restApiData.listSpendRecords, {
+      enterpriseId: req.enterpriseId,
+      ...optionalEnum(req.query, "type", spendTypeOptions),
+      ...optionalEnum(req.query, "matchStatus", spendMatchStatusOptions),
+      ...optionalString(req.query, "contractId"),
+      ...parsePaginationParams(req.query),
+    })),
+  },
+  {
+    method: "POST",
+    path: "/spend",
+    operationId: "createSpendRecord",
+    summary: "Submit an invoice or purchase order",
+    tag: "Spend",
+    scope: "write:spend",
+    requestBody: {
+      type: "object",
+      required: ["type", "documentNumber", "vendorName", "amount", "spendDate"],
+      additionalProperties: false,
+      properties: spendWriteProperties,
+    },
+    responseSchema: spendRecordSchema,
+    successStatus: 201,
+    handler: async (ctx, req) => {
+      const result = await ctx.runMutation(internal.integrations.restApiData.createSpendRecord, {
+        enterpriseId: req.enterpriseId,
+        apiKeyId: req.apiKeyId,
+        record: pickFields(req.body as SpendRecordInput, schemaFields(spendWriteProperties)),
+      });
+      return { status: result.created ? 201 : 200, body: { data: result.record } };
+    },
+  },
+  {
+    method: "GET",
+    path: "/analytics/summary",
+    operationId: "getAnalyticsSummary",
+    summary: "Get portfolio analytics summary",
+    tag: "Analytics",
+    scope: "read:analytics",
+    responseSchema: analyticsSummarySchema,
+    handler: async (ctx, req) => ({
+      status: 200,
+      body: {
+        data: await ctx.runQuery(internal.integrations.restApiData.getAnalyticsSummary, {
+          enterpriseId: req.enterpriseId,
+        }),
+      },
+    }),
+  },
+];
+
+// ============================================================================
+// HTTP ACTIONS
+// ============================================================================
+
+// OpenAPI document for the routes above
+export const openApiDocument = httpAction(async () => {
+  const document = buildOpenApiDocument(restApiRoutes, {
+    ...(process.env.CONVEX_SITE_URL ? { serverUrl: process.env.CONVEX_SITE_URL } : {}),
+  });
+  return jsonResponse(200, document);
+});
+
+// Dispatcher for every /api/v1/* request
+export const handleRestApiRequest = httpAction(async (ctx, request) => {
+  const startTime = Date.now();
+  const url = new URL(request.url);
+  const match = matchRestApiRoute(restApiRoutes, request.method, url.pathname);
+
+  if (match.type === "not_found") {
+    return errorResponse(404, "not_found", `No route for ${request.method} ${url.pathname}`);
+  }
+  if (match.type === "method_not_allowed") {
+    return errorResponse(405, "method_not_allowed", `Method ${request.method} not allowed`, {
+      Allow: match.allowedMethods.join(", "),
+    });
+  }
+
+  const { route, params } = match;
+  const endpoint = `${route.method} ${route.path}`;
+
+  const apiKey = extractApiKey(request);
+  if (!apiKey) {
+    return errorResponse(401, "unauthorized", "Missing API key", { "WWW-Authenticate": "Bearer" });
+  }
+
+  const auth: APIKeyValidationResult = await ctx.runAction(internal.integrations.apiKeys.validateAPIKey, {
+    apiKey,
+    endpoint: route.path,
+    method: route.method,
+    ...(route.scope ? { requiredPermission: route.scope } : {}),
+  });
+
+  let response: Response;
+  if (!auth.valid) {
+    if (auth.code === "rate_limited") {
+      response = errorResponse(429, "rate_limited", auth.error, {
+        "Retry-After": String(auth.resetIn ?? 60),
+        ...rateLimitHeaders(auth.rateLimit),
+      });
+    } else if (auth.code === "insufficient_scope") {
+      response = errorResponse(403, "insufficient_scope", auth.error);
+    } else {
+      return errorResponse(401, "unauthorized", auth.error, { "WWW-Authenticate": "Bearer" });
+    }
+  } else {
+    response = await runRoute(ctx, route, {
+      apiKeyId: auth.apiKeyId,
+      enterpriseId: auth.enterpriseId,
+      params,
+      query: url.searchParams,
+      body: {},
+    }, request);
+
+    for (const [name, value] of Object.entries(rateLimitHeaders(auth.rateLimit))) {
+      response.headers.set(name, value);
+    }
+  }
+
+  if ("apiKeyId" in auth && auth.apiKeyId) {
+    await ctx.runMutation(internal.integrations.apiKeys.recordUsage, {
+      apiKeyId: auth.apiKeyId,
+      endpoint,
+      method: route.method,
+      statusCode: response.status,
+      responseTime: Date.now() - startTime,
+      ipAddress: getClientIp(request),
+      ...(request.headers.get("user-agent") ? { userAgent: request.headers.get("user-agent")! } : {}),
+    });
+  }
+
+  return response;
+});
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function runRoute(
+  ctx: ActionCtx,
+  route: RestApiRoute,
+  apiRequest: RestApiRequest,
+  request: Request
+): Promise<Response> {
+  if (route.requestBody) {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(400, "invalid_json", "Request body must be valid JSON");
+    }
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return errorResponse(400, "invalid_body", "Request body must be a JSON object");
+    }
+    apiRequest.body = body as Record<string, unknown>;
+
+    const allowed = Object.keys((route.requestBody.properties as Record<string, unknown> | undefined) ?? {});
+    const unknownFields = Object.keys(apiRequest.body).filter(field => !allowed.includes(field));
+    if (unknownFields.length > 0) {
+      return errorResponse(400, "invalid_body", `Unknown field(s): ${unknownFields.join(", ")}`);
+    }
+  }
+
+  try {
+    const result = await route.handler(ctx, apiRequest);
+    return jsonResponse(result.status, result.body);
+  } catch (error) {
+    if (error instanceof ConvexError) {
+      return errorResponse(400, "invalid_request", String(error.data));
+    }
+    // Argument validation failures mean the body or query had the wrong types
+    if (error instanceof Error && error.message.includes("ArgumentValidationError")) {
+      return errorResponse(400, "invalid_request", "Request parameters have invalid types or values");
+    }
+    console.error(`REST API error on ${route.method} ${route.path}:`, error);
+    return errorResponse(500, "internal_error", "Internal server error");
+  }
+}
+
+function extractApiKey(request: Request): string | null {
+  const authorization = request.headers.get("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice(7).trim() || null;
+  }
+  return request.headers.get("x-api-key");
+}
+
+function getClientIp(request: Request): string {
+  return request.headers.get("x-forwarded-for")?.split(",")[0]?.trim()
+    || request.headers.get("x-real-ip")
+    || "unknown";
+}
+
+function rateLimitHeaders(rateLimit: { limit: number; remaining: number; resetIn?: number }): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(rateLimit.limit),
+    "X-RateLimit-Remaining": String(Math.max(rateLimit.remaining, 0)),
+  };
+}
+
+function ok(body: unknown): RestApiResult {
+  return { status: 200, body };
+}
+
+function found(data: unknown, resource: string): RestApiResult {
+  return data === null
+    ? { status: 404, body: { error: { code: "not_found", message: `${resource} not found` } } }
+    : { status: 200, body: { data } };
+}
+
+function optionalEnum<T extends string>(
+  query: URLSearchParams,
+  name: string,
+  options: readonly T[]
+): Record<string, T> {
+  const value = query.get(name);
+  if (!value) return {};
+  if (!options.includes(value as T)) {
+    throw new ConvexError(`Invalid ${name}: expected one of ${options.join(", ")}`);
+  }
+  return { [name]: value as T };
+}
+
+function optionalString(query: URLSearchParams, name: string): Record<string, string> {
+  const value = query.get(name);
+  return value ? { [name]: value } : {};
+}
+
+// Request bodies have been checked against the route's schema in runRoute, so
+// they match the mutation's argument type; its validator checks them again
+function schemaFields<K extends string>(properties: Record<K, JsonSchema>): K[] {
+  return Object.keys(properties) as K[];
+}
+
+function pickFields<T, K extends keyof T>(doc: T, fields: K[]): Pick<T, K> {
+  const picked = {} as Pick<T, K>;
+  for (const field of fields) {
+    if (doc[field] !== undefined) picked[field] = doc[field];
+  }
+  return picked;
+}
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...headers,
+    },
+  });
+}
+
+function errorResponse(
+  status: number,
+  code: string,
+  message: string,
+  headers: Record<string, string> = {}
+): Response {
+  return jsonResponse(status, { error: { code, message } }, headers);
+}
@@ -0,0 +1,650 @@
+import { v, Infer } from "convex/values";
+import { internalMutation, internalQuery, MutationCtx, QueryCtx } from "../_generated/server";
+import { ConvexError } from "convex/values";
+import { Id, Doc } from "../_generated/dataModel";
+import { WithoutSystemFields } from "convex/server";
+import { contractStatusOptions, contractTypeOptions, vendorCategoryOptions } from "../schema";
+import { emitWebhookEvent, getPreviousValues } from "./webhookEvents";
+import { assertManualStatusChangeAllowed } from "../workflows/approvalWorkflowEngine";
+import { ingestSpend, validateSpendDocument } from "../spend/spend";
+import { appendAuditLog } from "../auditLogging";
+
+/**
+ * Data access for the REST API v1 (see restApi.ts).
+ *
+ * These are internal functions: the HTTP layer authenticates the API key and
+ * passes the key's enterprise in, so every read and write here is scoped to
+ * that enterprise and never to an end-user session.
+ */
+
+const paginationArgs = {
+  limit: v.number(),
+  cursor: v.union(v.string(), v.null()),
+};
+
+const vendorStatusValidator = v.union(v.literal("active"), v.literal("inactive"));
+
+// ============================================================================
+// CONTRACTS
+// ============================================================================
+
+export const listContracts = internalQuery({
+  args: {
+    enterpriseId: v.id("enterprises"),
+    status: v.optional(v.union(...contractStatusOptions.map(option => v.literal(option)))),
+    vendorId: v.optional(v.string()),
+    ...paginationArgs,
+  },
+  handler: async (ctx, args) => {
+    const vendorId = args.vendorId ? ctx.db.normalizeId("vendors", args.vendorId) : undefined;
+    if (args.vendorId && !vendorId) {
+      return emptyPage();
+    }
+
+    let contractsQuery;
+    if (vendorId) {
+      contractsQuery = ctx.db
+        .query("contracts")
+        .withIndex("by_enterprise_vendor_status", (q) => {
+          const byVendor = q.eq("enterpriseId", args.enterpriseId).eq("vendorId", vendorId);
+          return args.status ? byVendor.eq("status", args.status) : byVendor;
+        });
+    } else if (args.status) {
+      const status = args.status;
+      contractsQuery = ctx.db
+        .query("contracts")
+        .withIndex("by_status_and_enterpriseId", (q) => q.eq("enterpriseId", args.enterpriseId).eq("status", status));
+    } else {
+      contractsQuery = ctx.db
+        .query("contracts")
+        .withIndex("by_enterprise", (q) => q.eq("enterpriseId", args.enterpriseId));
+    }
+
+    const result = await contractsQuery
+      .order("desc")
+      .paginate({ numItems: args.limit, cursor: args.cursor });
+
+    return toApiPage(result, toApiContract);
+  },
+});
+
+export const getContract = internalQuery({
+  args: {
+    enterpriseId: v.id("enterprises"),
+    contractId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const contract = await getEnterpriseDoc(ctx, "contracts", args.contractId, args.enterpriseId);
+    return contract ? toApiContract(contract) : null;
+  },
+});
+
+const contractUpdatesValidator = v.object({
+  title: v.optional(v.string()),
+  status: v.optional(v.union(...contractStatusOptions.map(option => v.literal(option)))),
+  contractType: v.optional(v.union(...contractTypeOptions.map(option => v.literal(option)))),
+  vendorId: v.optional(v.string()),
+  value: v.optional(v.number()),
+  startDate: v.optional(v.string()),
+  endDate: v.optional(v.string()),
+  notes: v.optional(v.string()),
+});
+export type ContractUpdatesInput = Infer<typeof contractUpdatesValidator>;
+
+export const updateContract = internalMutation({
+  args: {
+    enterpriseId: v.id("enterprises"),
+    apiKeyId: v.id("apiKeys"),
+    contractId: v.string(),
+    updates: contractUpdatesValidator,
+  },
+  handler: async (ctx, args) => {
+    const contract = await getEnterpriseDoc(ctx, "contracts", args.contractId, args.enterpriseId);
+    if (!contract) {
+      return null;
+    }
+
+    const updates: Partial<Doc<"contracts">> = {};
+
+    if (args.updates.title !== undefined) {
+      const title = args.updates.title.trim();
+      if (title === "" || title.length > 200) {
+        throw new ConvexError("Validation Error: Contract title must be between 1 and 200 characters.");
+      }
+      if (/<[^>]*>/g.test(title)) {
+        throw new ConvexError("Validation Error: Contract title cannot contain HTML tags.");
+      }
+      updates.title = title;
+    }
+
+    if (args.updates.vendorId !== undefined) {
+      const vendor = await getEnterpriseDoc(ctx, "vendors", args.updates.vendorId, args.enterpriseId);
+      if (!vendor) {
+        throw new ConvexError("Vendor not found.");
+      }
+      updates.vendorId = vendor._id;
+    }
+
+    if (args.updates.notes !== undefined) {
+      const notes = args.updates.notes.trim();
+      if (notes.length > 2000) {
+        throw new ConvexError("Validation Error: Notes must be 2000 characters or less.");
+      }
+      updates.notes = notes.replace(/<(?!\/?(?:b|i|u|em|strong|p|br)\s*\/?>)[^>]+>/gi, '');
+    }
+
+    if (args.updates.status !== undefined) {
+      assertManualStatusChangeAllowed(contract.status, args.updates.status);
+      updates.status = args.updates.status;
+    }
+    if (args.updates.contractType !== undefined) updates.contractType = args.updates.contractType;
+    if (args.updates.value !== undefined) updates.value = args.updates.value;
+    if (args.updates.startDate !== undefined) updates.startDate = args.updates.startDate;
+    if (args.updates.endDate !== undefined) updates.endDate = args.updates.endDate;
+
+    if (Object.keys(updates).length === 0) {
+      return toApiContract(contract);
+    }
+
+    await ctx.db.patch(contract._id, { ...updates, updatedAt: Date.now() });
+    const updated = (await ctx.db.get(contract._id))!;
+
+    await recordApiKeyAudit(ctx, args.apiKeyId, {
+      operation: "updateContract",
+      resourceType: "contracts",
+      resourceId: contract._id,
+      action: "update",
+      changes: updates,
+    });
+
+    await emitWebhookEvent(ctx, {
+      type: "contract.updated",
+      enterpriseId: args.enterpriseId,
+      data: { contract: updated },
+      previous: getPreviousValues(contract, updates),
+    });
+
+    return toApiContract(updated);
+  },
+});
+
+// ============================================================================
+// VENDORS
+// ============================================================================
+
+export const listVendors = internalQuery({
+  args: {
+    enterpriseId: v.id("enterprises"),
+    category: v.optional(v.union(...vendorCategoryOptions.map(option => v.literal(option)))),
+    status: v.optional(vendorStatusValidator),
+    ...paginationArgs,
+  },
+  handler: async (ctx, args) => {
+    const category = args.category;
+    let vendorsQuery = category
+      ? ctx.db
+          .query("vendors")
+          .withIndex("by_category_and_enterpriseId", (q) => q.eq("enterpriseId", args.enterpriseId).eq("category", category))
+      : ctx.db
+          .query("vendors")
+          .withIndex("by_enterprise", (q) => q.eq("enterpriseId", args.enterpriseId));
+
+    if (args.status) {
+      const status = args.status;
+      vendorsQuery = vendorsQuery.filter((q) => q.eq(q.field("status"), status));
+    }
+
+    const result = await vendorsQuery
+      .order("desc")
+      .paginate({ numItems: args.limit, cursor: args.cursor });
+
+    return toApiPage(result, toApiResource);
+  },
+});
+
+export const getVendor = internalQuery({
+  args: {
+    enterpriseId: v.id("enterprises"),
+    vendorId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const vendor = await getEnterpriseDoc(ctx, "vendors", args.vendorId, args.enterpriseId);
+    return vendor ? toApiResource(vendor) : null;
+  },
+});
+
+const vendorFields = {
+  contactName: v.optional(v.string()),
+  contactEmail: v.optional(v.string()),
+  contactPhone: v.optional(v.string()),
+  address: v.optional(v.string()),
+  website: v.optional(v.string()),
+  notes: v.optional(v.string()),
+  category: v.optional(v.union(...vendorCategoryOptions.map(option => v.literal(option)))),
+  status: v.optional(vendorStatusValidator),
+};
+
+const vendorValidator = v.object({ name: v.string(), ...vendorFields });
+export type VendorInput = Infer<typeof vendorValidator>;
+
+const vendorUpdatesValidator = v.object({ name: v.optional(v.string()), ...vendorFields });
+export type VendorUpdatesInput = Infer<typeof vendorUpdatesValidator>;
+
+export const createVendor = internalMutation({
+  args: {
+    enterpriseId: v.id("enterprises"),
+    apiKeyId: v.id("apiKeys"),
+    vendor: vendorValidator,
+  },
+  handler: async (ctx, args) => {
+    const name = args.vendor.name.trim();
+    if (name === "") {
+      throw new ConvexError("Validation Error: Vendor name cannot be empty.");
+    }
+    await assertUniqueVendorName(ctx, args.enterpriseId, name);
+    validateVendorEmail(args.vendor.contactEmail);
+
+    const apiKey = await ctx.db.get(args.apiKeyId);
+    const { status, contactEmail, ...details } = withoutUndefined(args.vendor);
+    const vendorData: WithoutSystemFields<Doc<"vendors">> = {
+      ...details,
+      enterpriseId: args.enterpriseId,
+      name,
+      status: status || "active",
+      ...(contactEmail ? { contactEmail: contactEmail.toLowerCase() } : {}),
+      performanceScore: 0,
+      totalContractValue: 0,
+      activeContracts: 0,
+      complianceScore: 100,
+      ...(apiKey ? { createdBy: apiKey.createdBy } : {}),
+      createdAt: new Date().toISOString(),
+    };
+
+    const vendorId = await ctx.db.insert("vendors", vendorData);
+
+    await recordApiKeyAudit(ctx, args.apiKeyId, {
+      operation: "createVendor",
+      resourceType: "vendors",
+      resourceId: vendorId,
+      action: "create",
+      changes: vendorData,
+    });
+
+    await emitWebhookEvent(ctx, {
+      type: "vendor.created",
+      enterpriseId: args.enterpriseId,
+      data: { vendor: { _id: vendorId, ...vendorData } },
+    });
+
+    return toApiResource((await ctx.db.get(vendorId))!);
+  },
+});
+
+export const updateVendor = internalMutation({
+  args: {
+    enterpriseId: v.id("enterprises"),
+    apiKeyId: v.id("apiKeys"),
+    vendorId: v.string(),
+    updates: vendorUpdatesValidator,
+  },
+  handler: async (ctx, args) => {
+    const vendor = await getEnterpriseDoc(ctx, "vendors", args.vendorId, args.enterpriseId);
+    if (!vendor) {
+      return null;
+    }
+
+    const { name: rawName, contactEmail, ...details } = withoutUndefined(args.updates);
+    const updates: Partial<Doc<"vendors">> = { ...details };
+
+    if (rawName !== undefined) {
+      const name = rawName.trim();
+      if (name === "") {
+        throw new ConvexError("Validation Error: Vendor name cannot be empty.");
+      }
+      if (name !== vendor.name) {
+        await assertUniqueVendorName(ctx, args.enterpriseId, name);
+      }
+      updates.name = name;
+    }
+
+    validateVendorEmail(contactEmail);
+    if (contactEmail !== undefined) {
+      updates.contactEmail = contactEmail.toLowerCase();
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return toApiResource(vendor);
+    }
+
+    await ctx.db.patch(vendor._id, { ...updates, updatedAt: Date.now() });
+    const updated = (await ctx.db.get(vendor._id))!;
+
+    await recordApiKeyAudit(ctx, args.apiKeyId, {
+      operation: "updateVendor",
+      resourceType: "vendors",
+      resourceId: vendor._id,
+      action: "update",
+      changes: updates,
+    });
+
+    await emitWebhookEvent(ctx, {
+      type: "vendor.updated",
+      enterpriseId: args.enterpriseId,
+      data: { vendor: updated },
+      previous: getPreviousValues(vendor, updates),
+    });
+
+    return toApiResource(updated);
+  },
+});
+
+// ============================================================================
+// BUDGETS
+// ============================================================================
+
+export const listBudgets = internalQuery({
+  args: {
+    enterpriseId: v.id("enterprises"),
+    status: v.optional(v.union(
+      v.literal("active"),
+      v.literal("exceeded"),
+      v.literal("at_risk"),
+      v.literal("healthy"),
+      v.literal("closed")
+    )),
+    ...paginationArgs,
+  },
+  handler: async (ctx, args) => {
+    let budgetsQuery = ctx.db
+      .query("budgets")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", args.enterpriseId));
+
+    if (args.status) {
+      const status = args.status;
+      budgetsQuery = budgetsQuery.filter((q) => q.eq(q.field("status"), status));
+    }
+
+    const result = await budgetsQuery
+      .order("desc")
+      .paginate({ numItems: args.limit, cursor: args.cursor });
+
+    return toApiPage(result, toApiResource);
+  },
+});
+
+export const getBudget = internalQuery({
+  args: {
+    enterpriseId: v.id("enterprises"),
+    budgetId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const budget = await getEnterpriseDoc(ctx, "budgets", args.budgetId, args.enterpriseId);
+    return budget ? toApiResource(budget) : null;
+  },
+});
+
+// ============================================================================
+// SPEND
+// ============================================================================
+
+const spendTypeValidator = v.union(v.literal("invoice"), v.literal("purchase_order"));
+
+export const listSpendRecords = internalQuery({
+  args: {
+    enterpriseId: v.id("enterprises"),
+    type: v.optional(spendTypeValidator),
+    matchStatus: v.optional(v.union(v.literal("matched"), v.literal("vendor_only"), v.literal("unmatched"))),
+    contractId: v.optional(v.string()),
+    ...paginationArgs,
+  },
+  handler: async (ctx, args) => {
+    const contractId = args.contractId ? ctx.db.normalizeId("contracts", args.contractId) : undefined;
+    if (args.contractId && !contractId) {
+      return emptyPage();
+    }
+
+    let spendQuery = ctx.db
+      .query("spendRecords")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", args.enterpriseId));
+
+    if (contractId) {
+      spendQuery = spendQuery.filter((q) => q.eq(q.field("contractId"), contractId));
+    }
+    if (args.type) {
+      const type = args.type;
+      spendQuery = spendQuery.filter((q) => q.eq(q.field("type"), type));
+    }
+    if (args.matchStatus) {
+      const matchStatus = args.matchStatus;
+      spendQuery = spendQuery.filter((q) => q.eq(q.field("matchStatus"), matchStatus));
+    }
+
+    const result = await spendQuery
+      .order("desc")
+      .paginate({ numItems: args.limit, cursor: args.cursor });
+
+    return toApiPage(result, toApiSpendRecord);
+  },
+});
+
+const spendRecordValidator = v.object({
+  type: spendTypeValidator,
+  documentNumber: v.string(),
+  poNumber: v.optional(v.string()),
+  vendorName: v.string(),
+  vendorId: v.optional(v.string()),
+  contractId: v.optional(v.string()),
+  amount: v.number(),
+  currency: v.optional(v.string()),
+  spendDate: v.string(),
+  description: v.optional(v.string()),
+});
+export type SpendRecordInput = Infer<typeof spendRecordValidator>;
+
+// Posting a document number that already exists replaces that document
+export const createSpendRecord = internalMutation({
+  args: {
+    enterpriseId: v.id("enterprises"),
+    apiKeyId: v.id("apiKeys"),
+    record: spendRecordValidator,
+  },
+  handler: async (ctx, args) => {
+    const vendor = args.record.vendorId
+      ? await getEnterpriseDoc(ctx, "vendors", args.record.vendorId, args.enterpriseId)
+      : null;
+    if (args.record.vendorId && !vendor) {
+      throw new ConvexError("Vendor not found");
+    }
+    const contract = args.record.contractId
+      ? await getEnterpriseDoc(ctx, "contracts", args.record.contractId, args.enterpriseId)
+      : null;
+    if (args.record.contractId && !contract) {
+      throw new ConvexError("Contract not found");
+    }
+
+    const document = await validateSpendDocument(ctx, args.enterpriseId, {
+      ...args.record,
+      vendorId: vendor?._id,
+      contractId: contract?._id,
+    });
+
+    const apiKey = await ctx.db.get(args.apiKeyId);
+    const result = await ingestSpend(ctx, args.enterpriseId, [document], {
+      source: "api",
+      ...(apiKey ? { userId: apiKey.createdBy } : {}),
+    });
+    const record = result.records[0]!;
+
+    await recordApiKeyAudit(ctx, args.apiKeyId, {
+      operation: "createSpendRecord",
+      resourceType: "spendRecords",
+      resourceId: record._id,
+      action: result.updated > 0 ? "update" : "create",
+      changes: document,
+    });
+
+    return {
+      created: result.imported > 0,
+      record: toApiSpendRecord(record),
+    };
+  },
+});
+
+// ============================================================================
+// ANALYTICS
+// ============================================================================
+
+export const getAnalyticsSummary = internalQuery({
+  args: {
+    enterpriseId: v.id("enterprises"),
+  },
+  handler: async (ctx, args) => {
+    const [contracts, vendors, budgets] = await Promise.all([
+      ctx.db.query("contracts").withIndex("by_enterprise", (q) => q.eq("enterpriseId", args.enterpriseId)).collect(),
+      ctx.db.query("vendors").withIndex("by_enterprise", (q) => q.eq("enterpriseId", args.enterpriseId)).collect(),
+      ctx.db.query("budgets").withIndex("by_enterprise", (q) => q.eq("enterpriseId", args.enterpriseId)).collect(),
+    ]);
+
+    const now = new Date();
+    const in30Days = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString();
+
+    const contractsByStatus: Record<string, number> = {};
+    for (const contract of contracts) {
+      contractsByStatus[contract.status] = (contractsByStatus[contract.status] || 0) + 1;
+    }
+
+    return {
+      generatedAt: now.toISOString(),
+      contracts: {
+        total: contracts.length,
+        byStatus: contractsByStatus,
+        totalValue: contracts.reduce((sum, c) => sum + (c.value || 0), 0),
+        expiringIn30Days: contracts.filter(c =>
+          c.status === "active" &&
+          c.extractedEndDate &&
+          c.extractedEndDate >= now.toISOString() &&
+          c.extractedEndDate <= in30Days
+        ).length,
+      },
+      vendors: {
+        total: vendors.length,
+        active: vendors.filter(v => v.status !== "inactive").length,
+        averagePerformanceScore: vendors.length > 0
+          ? vendors.reduce((sum, v) => sum + (v.performanceScore || 0), 0) / vendors.length
+          : 0,
+      },
+      budgets: {
+        total: budgets.length,
+        totalBudget: budgets.reduce((sum, b) => sum + b.totalBudget, 0),
+        spentAmount: budgets.reduce((sum, b) => sum + b.spentAmount, 0),
+        allocatedAmount: budgets.reduce((sum, b) => sum + b.allocatedAmount, 0),
+        atRisk: budgets.filter(b => b.status === "at_risk").length,
+        exceeded: budgets.filter(b => b.status === "exceeded").length,
+      },
+    };
+  },
+});
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type EnterpriseTable = "contracts" | "vendors" | "budgets";
+
+// Ids arrive as untrusted path segments; anything malformed or cross-enterprise is "not found"
+async function getEnterpriseDoc<T extends EnterpriseTable>(
+  ctx: QueryCtx,
+  table: T,
+  id: string,
+  enterpriseId: Id<"enterprises">
+): Promise<Doc<T> | null> {
+  const normalizedId = ctx.db.normalizeId(table, id);
+  if (!normalizedId) return null;
+
+  const doc = await ctx.db.get(normalizedId);
+  if (!doc || doc.enterpriseId !== enterpriseId) return null;
+  return doc;
+}
+
+async function assertUniqueVendorName(ctx: MutationCtx, enterpriseId: Id<"enterprises">, name: string) {
+  const duplicate = await ctx.db
+    .query("vendors")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .filter((q) => q.eq(q.field("enterpriseId"), enterpriseId))
+    .first();
+
+  if (duplicate) {
+    throw new ConvexError("A vendor with this name already exists.");
+  }
+}
+
+function validateVendorEmail(email: string | undefined) {
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new ConvexError("Invalid email format.");
+  }
+}
+
+// API keys act on behalf of the admin who created them
+async function recordApiKeyAudit(
+  ctx: MutationCtx,
+  apiKeyId: Id<"apiKeys">,
+  entry: { operation: string; resourceType: string; resourceId: string; action: "create" | "update"; changes: object }
+) {
+  const apiKey = await ctx.db.get(apiKeyId);
+  if (!apiKey) return;
+
+  await appendAuditLog(ctx, {
+    userId: apiKey.createdBy,
+    enterpriseId: apiKey.enterpriseId,
+    operation: entry.operation,
+    resourceType: entry.resourceType,
+    resourceId: entry.resourceId,
+    action: entry.action,
+    status: "success",
+    timestamp: new Date().toISOString(),
+    changes: entry.changes,
+    metadata: { source: "rest_api", apiKeyId, apiKeyPrefix: apiKey.keyPrefix },
+  });
+}
+
+// Convex strips undefined from arguments, so this only narrows optional fields
+// to the shape documents store
+function withoutUndefined<T extends object>(fields: T): { [K in keyof T]?: Exclude<T[K], undefined> } {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as { [K in keyof T]?: Exclude<T[K], undefined> };
+}
+
+function toApiResource<T extends { _id: string; _creationTime: number }>(doc: T) {
+  const fields: Partial<T> = { ...doc };
+  delete fields._id;
+  delete fields._creationTime;
+  return { id: doc._id, ...(fields as Omit<T, "_id" | "_creationTime">) };
+}
+
+// Storage ids are internal; files are not served through the API.
+// Undefined fields are dropped when the response is serialized.
+function toApiContract(contract: Doc<"contracts">) {
+  return { ...toApiResource(contract), storageId: undefined };
+}
+
+function toApiSpendRecord(record: Doc<"spendRecords">) {
+  return { ...toApiResource(record), anomalyReportedAt: undefined };
+}
+
+function toApiPage<T, R>(
+  result: { page: T[]; continueCursor: string; isDone: boolean },
+  serialize: (doc: T) => R
+) {
+  return {
+    data: result.page.map(serialize),
+    pagination: {
+      nextCursor: result.isDone ? null : result.continueCursor,
+      hasMore: !result.isDone,
+    },
+  };
+}
+
+function emptyPage() {
+  return { data: [], pagination: { nextCursor: null, hasMore: false } };
+}
@@ -0,0 +1,306 @@
+/**
+ * REST API v1 route specification
+ *
+ * Routes are declared once as data (method, path template, required scope,
+ * parameters and schemas). The HTTP dispatcher in `restApi.ts` matches requests
+ * against these definitions, and `buildOpenApiDocument` turns the same
+ * definitions into the published OpenAPI 3.1 document, so the docs always
+ * describe exactly what is served.
+ *
+ * This module has no Convex dependencies so it can be built and tested anywhere.
+ */
+
+export const REST_API_BASE_PATH = "/api/v1";
+export const REST_API_VERSION = "1.0.0";
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+export type RestApiMethod = "GET" | "POST" | "PATCH" | "DELETE";
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface RestApiParameter {
+  name: string;
+  description: string;
+  schema: JsonSchema;
+  required?: boolean;
+}
+
+export interface RestApiRouteSpec {
+  method: RestApiMethod;
+  path: string; // Relative to REST_API_BASE_PATH, e.g. "/contracts/{id}"
+  operationId: string;
+  summary: string;
+  tag: string;
+  scope?: string; // API key permission required; omitted for public routes
+  paginated?: boolean;
+  queryParameters?: RestApiParameter[];
+  requestBody?: JsonSchema;
+  responseSchema: JsonSchema;
+  successStatus?: number;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  security: Array<Record<string, string[]>>;
+  "x-required-scope"?: string;
+  parameters?: Array<Record<string, unknown>>;
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, unknown>;
+}
+
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description: string };
+  servers?: Array<{ url: string }>;
+  tags: Array<{ name: string }>;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: Record<string, unknown>;
+}
+
+export type RestApiRouteMatch<T extends RestApiRouteSpec> =
+  | { type: "match"; route: T; params: Record<string, string> }
+  | { type: "method_not_allowed"; allowedMethods: RestApiMethod[] }
+  | { type: "not_found" };
+
+/**
+ * Find the route for a request. Paths may include the base path or be relative to it.
+ */
+export function matchRestApiRoute<T extends RestApiRouteSpec>(
+  routes: T[],
+  method: string,
+  pathname: string
+): RestApiRouteMatch<T> {
+  const relativePath = pathname.startsWith(REST_API_BASE_PATH)
+    ? pathname.slice(REST_API_BASE_PATH.length)
+    : pathname;
+  const requestSegments = splitPath(relativePath);
+  const allowedMethods: RestApiMethod[] = [];
+
+  for (const route of routes) {
+    const params = matchPathTemplate(splitPath(route.path), requestSegments);
+    if (!params) continue;
+
+    if (route.method === method.toUpperCase()) {
+      return { type: "match", route, params };
+    }
+    allowedMethods.push(route.method);
+  }
+
+  return allowedMethods.length > 0
+    ? { type: "method_not_allowed", allowedMethods }
+    : { type: "not_found" };
+}
+
+/**
+ * Read `limit` and `cursor` query parameters, clamping the page size
+ */
+export function parsePaginationParams(query: URLSearchParams): { limit: number; cursor: string | null } {
+  const requested = Number.parseInt(query.get("limit") ?? "", 10);
+  const limit = Number.isNaN(requested)
+    ? DEFAULT_PAGE_SIZE
+    : Math.min(Math.max(requested, 1), MAX_PAGE_SIZE);
+
+  return { limit, cursor: query.get("cursor") || null };
+}
+
+/**
+ * Generate the OpenAPI 3.1 document for a set of routes
+ */
+export function buildOpenApiDocument(
+  routes: RestApiRouteSpec[],
+  options: { serverUrl?: string } = {}
+): OpenApiDocument {
+  const paths: Record<string, Record<string, OpenApiOperation>> = {};
+
+  for (const route of routes) {
+    const path = `${REST_API_BASE_PATH}${route.path}`;
+    const operations = paths[path] ?? {};
+    operations[route.method.toLowerCase()] = buildOperation(route);
+    paths[path] = operations;
+  }
+
+  const tags = Array.from(new Set(routes.map(route => route.tag))).map(name => ({ name }));
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Pactwise API",
+      version: REST_API_VERSION,
+      description:
+        "Enterprise contract and vendor management API. Authenticate with an API key " +
+        "created in Settings > API Keys, sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`. " +
+        "Each operation lists the key permission (scope) it requires.",
+    },
+    ...(options.serverUrl ? { servers: [{ url: options.serverUrl }] } : {}),
+    tags,
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: "API key as a bearer token" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: {
+        Error: {
+          type: "object",
+          required: ["error"],
+          properties: {
+            error: {
+              type: "object",
+              required: ["code", "message"],
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+              },
+            },
+          },
+        },
+        Pagination: {
+          type: "object",
+          required: ["nextCursor", "hasMore"],
+          properties: {
+            nextCursor: { type: ["string", "null"], description: "Pass as `cursor` to fetch the next page" },
+            hasMore: { type: "boolean" },
+          },
+        },
+      },
+      responses: {
+        BadRequest: errorResponse("The request was invalid"),
+        Unauthorized: errorResponse("Missing, invalid, revoked or expired API key"),
+        Forbidden: errorResponse("The API key lacks the required scope"),
+        NotFound: errorResponse("The resource does not exist"),
+        RateLimited: {
+          ...errorResponse("The API key's rate limit was exceeded"),
+          headers: {
+            "Retry-After": { schema: { type: "integer" }, description: "Seconds until the limit resets" },
+          },
+        },
+      },
+    },
+  };
+}
+
+function buildOperation(route: RestApiRouteSpec): OpenApiOperation {
+  const parameters: Record<string, unknown>[] = [];
+
+  for (const name of pathParameterNames(route.path)) {
+    parameters.push({ name, in: "path", required: true, schema: { type: "string" } });
+  }
+
+  for (const param of route.queryParameters ?? []) {
+    parameters.push({
+      name: param.name,
+      in: "query",
+      required: param.required ?? false,
+      description: param.description,
+      schema: param.schema,
+    });
+  }
+
+  if (route.paginated) {
+    parameters.push(
+      {
+        name: "limit",
+        in: "query",
+        required: false,
+        description: `Page size (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})`,
+        schema: { type: "integer", minimum: 1, maximum: MAX_PAGE_SIZE },
+      },
+      {
+        name: "cursor",
+        in: "query",
+        required: false,
+        description: "Cursor from the previous page's `pagination.nextCursor`",
+        schema: { type: "string" },
+      }
+    );
+  }
+
+  const successSchema = route.paginated
+    ? {
+        type: "object",
+        required: ["data", "pagination"],
+        properties: {
+          data: { type: "array", items: route.responseSchema },
+          pagination: { $ref: "#/components/schemas/Pagination" },
+        },
+      }
+    : {
+        type: "object",
+        required: ["data"],
+        properties: { data: route.responseSchema },
+      };
+
+  const responses: Record<string, unknown> = {
+    [String(route.successStatus ?? 200)]: {
+      description: "Successful response",
+      content: { "application/json": { schema: successSchema } },
+    },
+  };
+
+  if (route.scope) {
+    responses["401"] = { $ref: "#/components/responses/Unauthorized" };
+    responses["403"] = { $ref: "#/components/responses/Forbidden" };
+    responses["429"] = { $ref: "#/components/responses/RateLimited" };
+  }
+  if (route.requestBody || route.queryParameters?.length || route.paginated) {
+    responses["400"] = { $ref: "#/components/responses/BadRequest" };
+  }
+  if (route.path.includes("{")) {
+    responses["404"] = { $ref: "#/components/responses/NotFound" };
+  }
+
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    tags: [route.tag],
+    ...(route.scope
+      ? { security: [{ bearerAuth: [] }, { apiKeyHeader: [] }], "x-required-scope": route.scope }
+      : { security: [] }),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(route.requestBody
+      ? { requestBody: { required: true, content: { "application/json": { schema: route.requestBody } } } }
+      : {}),
+    responses,
+  };
+}
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+  };
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter(Boolean);
+}
+
+function pathParameterNames(path: string): string[] {
+  return splitPath(path)
+    .filter(segment => segment.startsWith("{") && segment.endsWith("}"))
+    .map(segment => segment.slice(1, -1));
+}
+
+function matchPathTemplate(
+  templateSegments: string[],
+  requestSegments: string[]
+): Record<string, string> | null {
+  if (templateSegments.length !== requestSegments.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < templateSegments.length; i++) {
+    const template = templateSegments[i]!;
+    const actual = requestSegments[i]!;
+
+    if (template.startsWith("{") && template.endsWith("}")) {
+      params[template.slice(1, -1)] = decodeURIComponent(actual);
+    } else if (template !== actual) {
+      return null;
+    }
+  }
+  return params;
+}
@@ -0,0 +1,90 @@
+/**
+ * Webhook delivery policy
+ *
+ * How the delivery queue treats an attempt: whether a failure is worth
+ * retrying, how long to back off, when a delivery is given up as a dead
+ * letter, and when an endpoint has failed often enough to be disabled.
+ * Endpoint health counts dead-lettered deliveries rather than attempts, so
+ * an endpoint that is down through one delivery's retries is not disabled by
+ * that delivery alone.
+ *
+ * This module has no Convex dependencies so the policy can be tested directly.
+ */
+
+export interface WebhookRetryConfig {
+  maxRetries: number;
+  initialDelay: number; // Milliseconds
+  maxDelay: number; // Milliseconds
+}
+
+// Consecutive dead-lettered deliveries before an endpoint is disabled, unless
+// the webhook sets its own threshold
+export const DEFAULT_AUTO_DISABLE_THRESHOLD = 5;
+
+export type DeliveryAttemptOutcome =
+  | { status: "succeeded" }
+  | { status: "retrying"; delay: number }
+  | { status: "dead_letter" };
+
+export interface WebhookHealth {
+  isActive: boolean;
+  failureCount: number; // Consecutive dead-lettered deliveries
+  autoDisableThreshold?: number | undefined;
+}
+
+/**
+ * Client errors won't succeed on retry, except timeouts and rate limiting.
+ * Attempts without a status code failed on the network or timed out.
+ */
+export function isRetryableStatus(statusCode: number | undefined): boolean {
+  if (statusCode === undefined) return true;
+  if (statusCode === 408 || statusCode === 429) return true;
+  return statusCode < 400 || statusCode >= 500;
+}
+
+/**
+ * Exponential backoff from the webhook's retryConfig: initialDelay doubled
+ * for each retry already made, capped at maxDelay
+ */
+export function getRetryDelay(retryConfig: WebhookRetryConfig, retryCount: number): number {
+  return Math.min(retryConfig.initialDelay * Math.pow(2, retryCount), retryConfig.maxDelay);
+}
+
+/**
+ * What happens to a delivery after an attempt, given the retries it has
+ * already had
+ */
+export function getDeliveryAttemptOutcome(
+  attempt: { success: boolean; retryable: boolean },
+  retryCount: number,
+  retryConfig: WebhookRetryConfig
+): DeliveryAttemptOutcome {
+  if (attempt.success) {
+    return { status: "succeeded" };
+  }
+  if (attempt.retryable && retryCount < retryConfig.maxRetries) {
+    return { status: "retrying", delay: getRetryDelay(retryConfig, retryCount) };
+  }
+  return { status: "dead_letter" };
+}
+
+/**
+ * An endpoint's health after a delivery finishes. Deliveries still retrying
+ * leave it unchanged; a success resets the count of consecutive dead letters.
+ */
+export function getWebhookHealthUpdate(
+  webhook: WebhookHealth,
+  outcome: DeliveryAttemptOutcome
+): { failureCount: number; disable: boolean } | null {
+  switch (outcome.status) {
+    case "retrying":
+      return null;
+    case "succeeded":
+      return { failureCount: 0, disable: false };
+    case "dead_letter": {
+      const failureCount = webhook.failureCount + 1;
+      const threshold = webhook.autoDisableThreshold ?? DEFAULT_AUTO_DISABLE_THRESHOLD;
+      return { failureCount, disable: webhook.isActive && failureCount >= threshold };
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { Id, Doc } from "../_generated/dataModel";
+import type { WebhookEventType } from "./webhooks";
+
+/**
+ * Webhook Event Emission (outbox)
+ *
+ * Domain mutations call `emitWebhookEvent` to record an event and enqueue its
+ * deliveries in the same transaction as the change that caused it. If the
+ * mutation rolls back, so does the event; once it commits, the delivery queue
+ * retries until the receiver acknowledges it. Deliveries are at-least-once, so
+ * receivers should de-duplicate on the envelope `id`.
+ */
+
+export interface WebhookEventEnvelope {
+  id: string;
+  type: WebhookEventType | "webhook.test";
+  enterpriseId: Id<"enterprises">;
+  occurredAt: string;
+  data: Record<string, unknown>;
+  previous?: Record<string, unknown>;
+}
+
+// The parts of a mutation context emitting an event uses
+export type WebhookEventCtx = Pick<MutationCtx, "db" | "scheduler">;
+
+export interface EmitWebhookEventArgs {
+  type: WebhookEventType;
+  enterpriseId: Id<"enterprises">;
+  data: Record<string, unknown>;
+  previous?: Record<string, unknown>;
+}
+
+/**
+ * Record a domain event and enqueue a delivery for every subscribed webhook.
+ * Returns the event envelope id.
+ */
+export async function emitWebhookEvent(
+  ctx: WebhookEventCtx,
+  args: EmitWebhookEventArgs
+): Promise<string> {
+  const envelope = createWebhookEventEnvelope({
+    type: args.type,
+    enterpriseId: args.enterpriseId,
+    data: args.data,
+    ...(args.previous ? { previous: args.previous } : {}),
+  });
+
+  const deliveryIds = await enqueueWebhookDeliveries(ctx, args.enterpriseId, envelope);
+
+  await ctx.db.insert("webhookEvents", {
+    eventId: envelope.id,
+    enterpriseId: args.enterpriseId,
+    type: args.type,
+    occurredAt: envelope.occurredAt,
+    data: envelope.data,
+    ...(envelope.previous ? { previous: envelope.previous } : {}),
+    deliveryCount: deliveryIds.length,
+  });
+
+  return envelope.id;
+}
+
+export function createWebhookEventEnvelope(
+  args: Omit<WebhookEventEnvelope, "id" | "occurredAt">
+): WebhookEventEnvelope {
+  const envelope: WebhookEventEnvelope = {
+    id: `evt_${crypto.randomUUID().replace(/-/g, "")}`,
+    type: args.type,
+    enterpriseId: args.enterpriseId,
+    occurredAt: new Date().toISOString(),
+    data: args.data,
+  };
+
+  if (args.previous && Object.keys(args.previous).length > 0) {
+    envelope.previous = args.previous;
+  }
+
+  return envelope;
+}
+
+/**
+ * Values a document held before an update, limited to the fields that changed
+ */
+export function getPreviousValues(
+  existing: Record<string, unknown>,
+  updates: Record<string, unknown>
+): Record<string, unknown> {
+  const previous: Record<string, unknown> = {};
+  for (const key of Object.keys(updates)) {
+    if (key === "updatedAt") continue;
+    if (JSON.stringify(existing[key]) !== JSON.stringify(updates[key])) {
+      previous[key] = existing[key] ?? null;
+    }
+  }
+  return previous;
+}
+
+export async function findWebhooksForEvent(
+  ctx: Pick<QueryCtx, "db">,
+  enterpriseId: Id<"enterprises">,
+  event: string
+): Promise<Doc<"webhooks">[]> {
+  const webhooks = await ctx.db
+    .query("webhooks")
+    .withIndex("by_enterprise_active", (q) => q.eq("enterpriseId", enterpriseId).eq("isActive", true))
+    .collect();
+
+  return webhooks.filter(w => w.events.includes(event));
+}
+
+/**
+ * Enqueue a delivery of the envelope for every active webhook subscribed to its type.
+ * Runs inside the caller's mutation, so the deliveries commit atomically with it.
+ */
+export async function enqueueWebhookDeliveries(
+  ctx: WebhookEventCtx,
+  enterpriseId: Id<"enterprises">,
+  envelope: WebhookEventEnvelope
+): Promise<Id<"webhookDeliveries">[]> {
+  const webhooks = await findWebhooksForEvent(ctx, enterpriseId, envelope.type);
+  const now = new Date().toISOString();
+  const deliveryIds: Id<"webhookDeliveries">[] = [];
+
+  for (const webhook of webhooks) {
+    const deliveryId = await ctx.db.insert("webhookDeliveries", {
+      webhookId: webhook._id,
+      enterpriseId,
+      eventId: envelope.id,
+      event: envelope.type,
+      payload: envelope,
+      success: false,
+      duration: 0,
+      retryCount: 0,
+      status: "pending",
+      createdAt: now,
+      nextAttemptAt: now,
+      deliveredAt: now,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.integrations.webhooks.attemptDelivery, { deliveryId });
+    deliveryIds.push(deliveryId);
+  }
+
+  return deliveryIds;
+}
@@ -0,0 +1,145 @@
+/**
+ * Webhook signature helpers
+ *
+ * Every webhook delivery carries an `X-Webhook-Signature` header of the form
+ *
+ *   t=1700000000,v1=5257a869e7ecebeda32affa62cdca3fa51cad7e77a0e56ff536d0ce8e108d8bd
+ *
+ * where `t` is the unix timestamp (seconds) at signing time and each `v1` is a
+ * hex encoded HMAC-SHA256 of `${t}.${rawBody}` keyed with one of the webhook's
+ * active secrets. While a secret is being rotated the header contains one `v1`
+ * entry per active secret, so receivers holding either secret keep verifying.
+ *
+ * This module has no Convex dependencies and only relies on the Web Crypto API,
+ * so receivers can import `verifyWebhookSignature` directly.
+ */
+
+import { timingSafeEqual, toHex } from "../lib/crypto";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+export const WEBHOOK_SIGNATURE_SCHEME = "v1";
+
+// Deliveries older (or further in the future) than this are rejected as replays
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export interface ParsedSignatureHeader {
+  timestamp: number;
+  signatures: string[];
+}
+
+export interface VerifyWebhookSignatureOptions {
+  payload: string;
+  header: string | null | undefined;
+  secret: string | string[];
+  toleranceSeconds?: number;
+  now?: number; // Unix seconds, overridable for tests
+}
+
+export type WebhookSignatureVerification =
+  | { valid: true; timestamp: number }
+  | { valid: false; error: string };
+
+/**
+ * Compute the hex encoded HMAC-SHA256 signature for a timestamp and raw body
+ */
+export async function computeWebhookSignature(
+  secret: string,
+  timestamp: number,
+  payload: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${payload}`));
+  return toHex(new Uint8Array(signature));
+}
+
+/**
+ * Build the signature header value for a payload, signing with every active secret
+ */
+export async function createWebhookSignatureHeader(
+  secrets: string[],
+  payload: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  if (secrets.length === 0) {
+    throw new Error("At least one signing secret is required");
+  }
+
+  const signatures = await Promise.all(
+    secrets.map((secret) => computeWebhookSignature(secret, timestamp, payload))
+  );
+
+  return [`t=${timestamp}`, ...signatures.map((sig) => `${WEBHOOK_SIGNATURE_SCHEME}=${sig}`)].join(",");
+}
+
+/**
+ * Parse a signature header into its timestamp and v1 signatures
+ */
+export function parseWebhookSignatureHeader(header: string): ParsedSignatureHeader | null {
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+
+  for (const part of header.split(",")) {
+    const separator = part.indexOf("=");
+    if (separator === -1) continue;
+
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+
+    if (key === "t") {
+      const parsed = Number(value);
+      if (Number.isInteger(parsed)) timestamp = parsed;
+    } else if (key === WEBHOOK_SIGNATURE_SCHEME && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === undefined || signatures.length === 0) {
+    return null;
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Verify a delivery's signature header against the raw request body.
+ *
+ * Pass every secret you currently accept (e.g. old and new during a rotation).
+ * The raw body must be used exactly as received; re-serialized JSON will not match.
+ */
+export async function verifyWebhookSignature(
+  options: VerifyWebhookSignatureOptions
+): Promise<WebhookSignatureVerification> {
+  const { payload, header } = options;
+  const secrets = Array.isArray(options.secret) ? options.secret : [options.secret];
+  const tolerance = options.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+
+  if (!header) {
+    return { valid: false, error: "Missing signature header" };
+  }
+
+  const parsed = parseWebhookSignatureHeader(header);
+  if (!parsed) {
+    return { valid: false, error: "Malformed signature header" };
+  }
+
+  if (Math.abs(now - parsed.timestamp) > tolerance) {
+    return { valid: false, error: "Signature timestamp outside tolerance" };
+  }
+
+  for (const secret of secrets) {
+    const expected = await computeWebhookSignature(secret, parsed.timestamp, payload);
+    if (parsed.signatures.some((candidate) => timingSafeEqual(candidate, expected))) {
+      return { valid: true, timestamp: parsed.timestamp };
+    }
+  }
+
+  return { valid: false, error: "No matching signature" };
+}
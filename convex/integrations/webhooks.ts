@@ -1,9 +1,33 @@
 import { v } from "convex/values";
-import { mutation, query, action } from "../_generated/server";
+import {
+  mutation,
+  query,
+  action,
+  internalMutation,
+  internalQuery,
+  internalAction,
+  MutationCtx,
+} from "../_generated/server";
 import { ConvexError } from "convex/values";
-import { getSecurityContext } from "../security/rowLevelSecurity";
-import { api } from "../_generated/api";
-import { Id } from "../_generated/dataModel";
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
+import { api, internal } from "../_generated/api";
+import { Id, Doc } from "../_generated/dataModel";
+import { webhookDeliveryStatusOptions, WebhookDeliveryStatus } from "../schema";
+import { createWebhookSignatureHeader, WEBHOOK_SIGNATURE_HEADER } from "./webhookSignature";
+import {
+  DeliveryAttemptOutcome,
+  getDeliveryAttemptOutcome,
+  getWebhookHealthUpdate,
+  isRetryableStatus,
+} from "./webhookDelivery";
+import {
+  emitWebhookEvent,
+  createWebhookEventEnvelope,
+  WebhookEventEnvelope,
+} from "./webhookEvents";
+import { appendAuditLog } from "../auditLogging";
+import { randomHex } from "../lib/crypto";
+import { withoutFields } from "../lib/documentFields";
 
 // Webhook event types
 export const WebhookEventTypes = {
@@ -14,6 +38,9 @@ export const WebhookEventTypes = {
   CONTRACT_ANALYZED: "contract.analyzed",
   CONTRACT_EXPIRING: "contract.expiring",
   CONTRACT_EXPIRED: "contract.expired",
+  CONTRACT_RENEWAL_DECIDED: "contract.renewal_decided",
+  CONTRACT_RENEWED: "contract.renewed",
+  CONTRACT_AMENDED: "contract.amended",
   
   // Vendors
   VENDOR_CREATED: "vendor.created",
@@ -38,6 +65,10 @@ export const WebhookEventTypes = {
 
 export type WebhookEventType = typeof WebhookEventTypes[keyof typeof WebhookEventTypes];
 
+const webhookDeliveryStatusValidator = v.union(
+  ...webhookDeliveryStatusOptions.map(option => v.literal(option))
+);
+
 // Register a new webhook
 export const registerWebhook = mutation({
   args: {
@@ -53,14 +84,12 @@ export const registerWebhook = mutation({
       initialDelay: v.number(),
       maxDelay: v.number(),
     })),
+    autoDisableThreshold: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can manage webhooks
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "webhooks.manage");
 
     // Validate URL
     try {
@@ -77,6 +106,8 @@ export const registerWebhook = mutation({
       }
     }
 
+    validateAutoDisableThreshold(args.autoDisableThreshold);
+
     // Generate webhook secret if not provided
     const secret = args.secret || generateWebhookSecret();
 
@@ -94,6 +125,7 @@ export const registerWebhook = mutation({
         initialDelay: 1000,
         maxDelay: 60000,
       },
+      ...(args.autoDisableThreshold !== undefined ? { autoDisableThreshold: args.autoDisableThreshold } : {}),
       createdBy: securityContext.userId,
       createdAt: new Date().toISOString(),
       lastTriggeredAt: undefined,
@@ -102,7 +134,7 @@ export const registerWebhook = mutation({
     });
 
     // Log the creation
-    await ctx.db.insert("auditLogs", {
+    await appendAuditLog(ctx, {
       userId: securityContext.userId,
       enterpriseId: securityContext.enterpriseId,
       operation: "registerWebhook",
@@ -126,10 +158,7 @@ export const listWebhooks = query({
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can view webhooks
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "webhooks.manage");
 
     let webhooks = await ctx.db
       .query("webhooks")
@@ -147,8 +176,9 @@ export const listWebhooks = query({
         return {
           ...webhook,
           creatorName: creator ? `${creator.firstName || ""} ${creator.lastName || ""}`.trim() || creator.email : "Unknown",
-          // Hide secret in listing
+          // Hide secrets in listing
           secret: undefined,
+          previousSecret: undefined,
         };
       })
     );
@@ -165,10 +195,7 @@ export const getWebhook = query({
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can view webhooks
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "webhooks.manage");
 
     const webhook = await ctx.db.get(args.webhookId);
     if (!webhook) {
@@ -208,14 +235,12 @@ export const updateWebhook = mutation({
       initialDelay: v.number(),
       maxDelay: v.number(),
     })),
+    autoDisableThreshold: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can manage webhooks
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "webhooks.manage");
 
     const webhook = await ctx.db.get(args.webhookId);
     if (!webhook) {
@@ -245,7 +270,9 @@ export const updateWebhook = mutation({
       }
     }
 
-    const updates: any = {
+    validateAutoDisableThreshold(args.autoDisableThreshold);
+
+    const updates: Partial<Doc<"webhooks">> = {
       updatedAt: new Date().toISOString(),
     };
 
@@ -254,13 +281,16 @@ export const updateWebhook = mutation({
     if (args.description !== undefined) updates.description = args.description;
     if (args.events !== undefined) updates.events = args.events;
     if (args.isActive !== undefined) updates.isActive = args.isActive;
+    // Re-enabling an auto-disabled endpoint gives it a clean slate
+    if (args.isActive === true && !webhook.isActive) updates.failureCount = 0;
     if (args.headers !== undefined) updates.headers = args.headers;
     if (args.retryConfig !== undefined) updates.retryConfig = args.retryConfig;
+    if (args.autoDisableThreshold !== undefined) updates.autoDisableThreshold = args.autoDisableThreshold;
 
     await ctx.db.patch(args.webhookId, updates);
 
     // Log the update
-    await ctx.db.insert("auditLogs", {
+    await appendAuditLog(ctx, {
       userId: securityContext.userId,
       enterpriseId: securityContext.enterpriseId,
       operation: "updateWebhook",
@@ -284,10 +314,7 @@ export const deleteWebhook = mutation({
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can manage webhooks
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "webhooks.manage");
 
     const webhook = await ctx.db.get(args.webhookId);
     if (!webhook) {
@@ -311,7 +338,7 @@ export const deleteWebhook = mutation({
     await ctx.db.delete(args.webhookId);
 
     // Log the deletion
-    await ctx.db.insert("auditLogs", {
+    await appendAuditLog(ctx, {
       userId: securityContext.userId,
       enterpriseId: securityContext.enterpriseId,
       operation: "deleteWebhook",
@@ -327,12 +354,75 @@ export const deleteWebhook = mutation({
   },
 });
 
+// Rotate webhook signing secret
+export const rotateWebhookSecret = mutation({
+  args: {
+    webhookId: v.id("webhooks"),
+    gracePeriodHours: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    
+    requirePermission(securityContext, "webhooks.manage");
+
+    const webhook = await ctx.db.get(args.webhookId);
+    if (!webhook) {
+      throw new ConvexError("Webhook not found");
+    }
+
+    if (webhook.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Access denied: Webhook belongs to different enterprise");
+    }
+
+    const gracePeriodHours = args.gracePeriodHours ?? 24;
+    if (gracePeriodHours < 0 || gracePeriodHours > 24 * 7) {
+      throw new ConvexError("Grace period must be between 0 and 168 hours");
+    }
+
+    const secret = generateWebhookSecret();
+    const previousSecretExpiresAt = new Date(Date.now() + gracePeriodHours * 60 * 60 * 1000).toISOString();
+
+    const updatedAt = new Date().toISOString();
+
+    // Deliveries are signed with both secrets until the old one expires
+    if (gracePeriodHours > 0) {
+      await ctx.db.patch(args.webhookId, {
+        secret,
+        previousSecret: webhook.secret,
+        previousSecretExpiresAt,
+        updatedAt,
+      });
+    } else {
+      await ctx.db.replace(args.webhookId, {
+        ...withoutFields(webhook, ["previousSecret", "previousSecretExpiresAt"]),
+        secret,
+        updatedAt,
+      });
+    }
+
+    // Log the rotation
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "rotateWebhookSecret",
+      resourceType: "webhooks",
+      resourceId: args.webhookId,
+      action: "update",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: { gracePeriodHours, previousSecretExpiresAt }
+    });
+
+    return { secret, previousSecretExpiresAt: gracePeriodHours > 0 ? previousSecretExpiresAt : undefined };
+  },
+});
+
 // Test webhook
 export const testWebhook = action({
   args: {
     webhookId: v.id("webhooks"),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, args): Promise<WebhookSendResult> => {
     const webhook = await ctx.runQuery(api.integrations.webhooks.getWebhook, {
       webhookId: args.webhookId,
     });
@@ -341,24 +431,25 @@ export const testWebhook = action({
       throw new ConvexError("Webhook not found");
     }
 
-    // Create test payload
-    const testPayload = {
-      event: "webhook.test",
-      timestamp: new Date().toISOString(),
+    // Create test payload (same envelope as real events)
+    const testPayload = createWebhookEventEnvelope({
+      type: "webhook.test",
+      enterpriseId: webhook.enterpriseId,
       data: {
         message: "This is a test webhook delivery",
         webhookId: args.webhookId,
         webhookName: webhook.name,
       },
-    };
+    });
 
     // Send test webhook
     const result = await sendWebhook(webhook, testPayload);
 
     // Record the test delivery
-    await ctx.runMutation(api.integrations.webhooks.recordDelivery, {
+    await ctx.runMutation(internal.integrations.webhooks.recordDelivery, {
       webhookId: args.webhookId,
       event: "webhook.test",
+      eventId: testPayload.id,
       payload: testPayload,
       response: result.response,
       statusCode: result.statusCode,
@@ -371,22 +462,27 @@ export const testWebhook = action({
   },
 });
 
-// Record webhook delivery (internal)
-export const recordDelivery = mutation({
+// Record a test delivery (internal). Test sends are never retried or replayed
+// and don't count towards the endpoint's health.
+export const recordDelivery = internalMutation({
   args: {
     webhookId: v.id("webhooks"),
     event: v.string(),
+    eventId: v.optional(v.string()),
     payload: v.any(),
     response: v.optional(v.string()),
     statusCode: v.optional(v.number()),
     success: v.boolean(),
     error: v.optional(v.string()),
     duration: v.number(),
-    retryCount: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    const webhook = await ctx.db.get(args.webhookId);
+
     await ctx.db.insert("webhookDeliveries", {
       webhookId: args.webhookId,
+      enterpriseId: webhook?.enterpriseId,
+      eventId: args.eventId,
       event: args.event,
       payload: args.payload,
       response: args.response,
@@ -394,98 +490,355 @@ export const recordDelivery = mutation({
       success: args.success,
       error: args.error,
       duration: args.duration,
-      retryCount: args.retryCount || 0,
+      retryCount: 0,
+      status: args.success ? "succeeded" : "failed",
       deliveredAt: new Date().toISOString(),
+      lastAttemptAt: new Date().toISOString(),
     });
-
-    // Update webhook stats
-    const webhook = await ctx.db.get(args.webhookId);
-    if (webhook) {
-      if (args.success) {
-        await ctx.db.patch(args.webhookId, {
-          successCount: webhook.successCount + 1,
-          lastTriggeredAt: new Date().toISOString(),
-          failureCount: 0, // Reset consecutive failures
-        });
-      } else {
-        await ctx.db.patch(args.webhookId, {
-          failureCount: webhook.failureCount + 1,
-          lastTriggeredAt: new Date().toISOString(),
-        });
-
-        // Disable webhook after too many failures
-        if (webhook.failureCount >= 10) {
-          await ctx.db.patch(args.webhookId, {
-            isActive: false,
-          });
-        }
-      }
-    }
   },
 });
 
 // Trigger webhook for an event (internal use)
-export const triggerWebhook = action({
+// Emits the event through the outbox; delivery happens via the scheduler
+export const triggerWebhook = internalMutation({
   args: {
     event: v.string(),
     data: v.any(),
+    previous: v.optional(v.any()),
     enterpriseId: v.id("enterprises"),
   },
   handler: async (ctx, args) => {
-    // Get all active webhooks for this event
-    const webhooks = await ctx.runQuery(api.integrations.webhooks.getWebhooksForEvent, {
-      event: args.event,
+    const validEvents: string[] = Object.values(WebhookEventTypes);
+    if (!validEvents.includes(args.event)) {
+      throw new ConvexError(`Invalid event type: ${args.event}`);
+    }
+
+    return await emitWebhookEvent(ctx, {
+      type: args.event as WebhookEventType,
       enterpriseId: args.enterpriseId,
+      data: args.data,
+      ...(args.previous ? { previous: args.previous } : {}),
     });
+  },
+});
 
-    const results = await Promise.all(
-      webhooks.map(async (webhook) => {
-        const payload = {
-          event: args.event,
-          timestamp: new Date().toISOString(),
-          data: args.data,
-          enterprise: {
-            id: args.enterpriseId,
-          },
-        };
+// Attempt a queued delivery (scheduled)
+export const attemptDelivery = internalAction({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const target = await ctx.runQuery(internal.integrations.webhooks.getDeliveryTarget, {
+      deliveryId: args.deliveryId,
+    });
 
-        const result = await sendWebhookWithRetry(webhook, payload);
-
-        // Record delivery
-        await ctx.runMutation(api.integrations.webhooks.recordDelivery, {
-          webhookId: webhook._id,
-          event: args.event,
-          payload,
-          response: result.response,
-          statusCode: result.statusCode,
-          success: result.success,
-          error: result.error,
-          duration: result.duration,
-          retryCount: result.retryCount,
-        });
+    // Already delivered, dead-lettered or deleted along with its webhook
+    if (!target) {
+      return;
+    }
 
-        return result;
-      })
-    );
+    if (!target.webhook.isActive) {
+      await ctx.runMutation(internal.integrations.webhooks.completeDeliveryAttempt, {
+        deliveryId: args.deliveryId,
+        success: false,
+        error: "Webhook is disabled",
+        duration: 0,
+        retryable: false,
+      });
+      return;
+    }
+
+    const result = await sendWebhook(target.webhook, target.delivery.payload);
 
-    return results;
+    await ctx.runMutation(internal.integrations.webhooks.completeDeliveryAttempt, {
+      deliveryId: args.deliveryId,
+      success: result.success,
+      response: result.response,
+      statusCode: result.statusCode,
+      error: result.error,
+      duration: result.duration,
+      retryable: isRetryableStatus(result.statusCode),
+    });
   },
 });
 
-// Get webhooks for a specific event (internal)
-export const getWebhooksForEvent = query({
+// Load a pending delivery and its webhook for an attempt (internal)
+export const getDeliveryTarget = internalQuery({
   args: {
-    event: v.string(),
-    enterpriseId: v.id("enterprises"),
+    deliveryId: v.id("webhookDeliveries"),
   },
   handler: async (ctx, args) => {
-    const webhooks = await ctx.db
-      .query("webhooks")
-      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", args.enterpriseId))
-      .filter((q) => q.eq(q.field("isActive"), true))
-      .collect();
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery || !isQueuedStatus(delivery.status)) {
+      return null;
+    }
+
+    const webhook = await ctx.db.get(delivery.webhookId);
+    if (!webhook) {
+      return null;
+    }
+
+    return { delivery, webhook };
+  },
+});
+
+// Record the outcome of a delivery attempt and schedule the next retry (internal)
+export const completeDeliveryAttempt = internalMutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+    success: v.boolean(),
+    response: v.optional(v.string()),
+    statusCode: v.optional(v.number()),
+    error: v.optional(v.string()),
+    duration: v.number(),
+    retryable: v.boolean(),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery || !isQueuedStatus(delivery.status)) {
+      return;
+    }
+
+    const webhook = await ctx.db.get(delivery.webhookId);
+    if (!webhook) {
+      return;
+    }
+
+    const now = new Date();
+    const attemptUpdates = {
+      response: args.response,
+      statusCode: args.statusCode,
+      success: args.success,
+      error: args.error,
+      duration: args.duration,
+      deliveredAt: now.toISOString(),
+      lastAttemptAt: now.toISOString(),
+    };
+
+    const outcome = getDeliveryAttemptOutcome(args, delivery.retryCount, webhook.retryConfig);
+
+    if (outcome.status === "retrying") {
+      await ctx.db.patch(args.deliveryId, {
+        ...attemptUpdates,
+        status: "retrying",
+        retryCount: delivery.retryCount + 1,
+        nextAttemptAt: new Date(now.getTime() + outcome.delay).toISOString(),
+      });
+
+      await ctx.scheduler.runAfter(outcome.delay, internal.integrations.webhooks.attemptDelivery, {
+        deliveryId: args.deliveryId,
+      });
+    } else {
+      await ctx.db.patch(args.deliveryId, {
+        ...attemptUpdates,
+        status: outcome.status,
+        nextAttemptAt: undefined,
+      });
+    }
+
+    // A disabled webhook isn't the endpoint's fault, so don't count it against its health
+    if (webhook.isActive) {
+      await updateWebhookHealth(ctx, webhook, outcome);
+    }
+  },
+});
+
+// Re-schedule queued deliveries whose scheduled attempt was lost (e.g. an action crash)
+export const requeueStalledDeliveries = internalMutation({
+  args: {
+    stalledForMinutes: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ requeued: number }> => {
+    const cutoff = new Date(Date.now() - (args.stalledForMinutes ?? 10) * 60 * 1000).toISOString();
+    let requeued = 0;
+
+    for (const status of ["pending", "retrying"] as const) {
+      const stalled = await ctx.db
+        .query("webhookDeliveries")
+        .withIndex("by_status_next_attempt", (q) => q.eq("status", status).lt("nextAttemptAt", cutoff))
+        .take(100);
+
+      for (const delivery of stalled) {
+        await ctx.db.patch(delivery._id, { nextAttemptAt: new Date().toISOString() });
+        await ctx.scheduler.runAfter(0, internal.integrations.webhooks.attemptDelivery, {
+          deliveryId: delivery._id,
+        });
+        requeued++;
+      }
+    }
+
+    return { requeued };
+  },
+});
+
+// List deliveries for the settings page
+export const listDeliveries = query({
+  args: {
+    webhookId: v.optional(v.id("webhooks")),
+    status: v.optional(webhookDeliveryStatusValidator),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    
+    requirePermission(securityContext, "webhooks.manage");
+
+    const limit = Math.min(args.limit ?? 50, 200);
+
+    let deliveries: Doc<"webhookDeliveries">[];
+    if (args.webhookId) {
+      const webhook = await ctx.db.get(args.webhookId);
+      if (!webhook || webhook.enterpriseId !== securityContext.enterpriseId) {
+        throw new ConvexError("Webhook not found or access denied");
+      }
+
+      deliveries = await ctx.db
+        .query("webhookDeliveries")
+        .withIndex("by_webhook", (q) => q.eq("webhookId", args.webhookId!))
+        .order("desc")
+        .filter((q) => args.status ? q.eq(q.field("status"), args.status) : true)
+        .take(limit);
+    } else if (args.status) {
+      deliveries = await ctx.db
+        .query("webhookDeliveries")
+        .withIndex("by_enterprise_status", (q) =>
+          q.eq("enterpriseId", securityContext.enterpriseId).eq("status", args.status)
+        )
+        .order("desc")
+        .take(limit);
+    } else {
+      deliveries = await ctx.db
+        .query("webhookDeliveries")
+        .withIndex("by_enterprise_status", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+        .order("desc")
+        .take(limit);
+    }
+
+    const webhookNames = new Map<Id<"webhooks">, string>();
+    for (const delivery of deliveries) {
+      if (!webhookNames.has(delivery.webhookId)) {
+        const webhook = await ctx.db.get(delivery.webhookId);
+        webhookNames.set(delivery.webhookId, webhook?.name || "Deleted webhook");
+      }
+    }
+
+    return deliveries
+      .sort((a, b) => b.deliveredAt.localeCompare(a.deliveredAt))
+      .map((delivery) => ({
+        ...delivery,
+        webhookName: webhookNames.get(delivery.webhookId),
+      }));
+  },
+});
+
+// Replay a single dead-lettered delivery
+export const replayDelivery = mutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const securityContext = await getSecurityContext(ctx);
+    
+    requirePermission(securityContext, "webhooks.manage");
+
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery) {
+      throw new ConvexError("Delivery not found");
+    }
+
+    const webhook = await ctx.db.get(delivery.webhookId);
+    if (!webhook || webhook.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Webhook not found or access denied");
+    }
+
+    if (!webhook.isActive) {
+      throw new ConvexError("Re-enable the webhook before replaying deliveries");
+    }
+
+    if (isQueuedStatus(delivery.status)) {
+      throw new ConvexError("Delivery is already queued");
+    }
+
+    if (delivery.event === "webhook.test") {
+      throw new ConvexError("Test deliveries cannot be replayed");
+    }
+
+    await requeueDelivery(ctx, args.deliveryId);
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "replayWebhookDelivery",
+      resourceType: "webhookDeliveries",
+      resourceId: args.deliveryId,
+      action: "update",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: { webhookId: delivery.webhookId, event: delivery.event }
+    });
 
-    return webhooks.filter(w => w.events.includes(args.event));
+    return { success: true };
+  },
+});
+
+// Replay dead-lettered deliveries in bulk, optionally for one webhook
+export const replayDeadLetters = mutation({
+  args: {
+    webhookId: v.optional(v.id("webhooks")),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ replayed: number; skipped: number }> => {
+    const securityContext = await getSecurityContext(ctx);
+    
+    requirePermission(securityContext, "webhooks.manage");
+
+    if (args.webhookId) {
+      const webhook = await ctx.db.get(args.webhookId);
+      if (!webhook || webhook.enterpriseId !== securityContext.enterpriseId) {
+        throw new ConvexError("Webhook not found or access denied");
+      }
+    }
+
+    const deadLetters = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_enterprise_status", (q) =>
+        q.eq("enterpriseId", securityContext.enterpriseId).eq("status", "dead_letter")
+      )
+      .filter((q) => args.webhookId ? q.eq(q.field("webhookId"), args.webhookId) : true)
+      .take(Math.min(args.limit ?? 100, 500));
+
+    // Skip deliveries for webhooks that are disabled or gone
+    const activeWebhooks = new Map<Id<"webhooks">, boolean>();
+    let replayed = 0;
+    let skipped = 0;
+
+    for (const delivery of deadLetters) {
+      if (!activeWebhooks.has(delivery.webhookId)) {
+        const webhook = await ctx.db.get(delivery.webhookId);
+        activeWebhooks.set(delivery.webhookId, !!webhook?.isActive);
+      }
+
+      if (!activeWebhooks.get(delivery.webhookId)) {
+        skipped++;
+        continue;
+      }
+
+      await requeueDelivery(ctx, delivery._id);
+      replayed++;
+    }
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "replayWebhookDeadLetters",
+      resourceType: "webhookDeliveries",
+      action: "update",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: { webhookId: args.webhookId, replayed, skipped }
+    });
+
+    return { replayed, skipped };
   },
 });
 
@@ -502,10 +855,7 @@ export const getWebhookStats = query({
   handler: async (ctx, args) => {
     const securityContext = await getSecurityContext(ctx);
     
-    // Only admins can view stats
-    if (!["owner", "admin"].includes(securityContext.role)) {
-      throw new ConvexError("Access denied: Admin access required");
-    }
+    requirePermission(securityContext, "webhooks.manage");
 
     const timeRanges = {
       "24h": 24 * 60 * 60 * 1000,
@@ -547,6 +897,9 @@ export const getWebhookStats = query({
       ).then(results => results.flat());
     }
 
+    // Deliveries still waiting in the queue haven't produced an outcome yet
+    deliveries = deliveries.filter(d => !isQueuedStatus(d.status));
+
     // Calculate statistics
     const totalDeliveries = deliveries.length;
     const successfulDeliveries = deliveries.filter(d => d.success).length;
@@ -605,34 +958,54 @@ export const getWebhookStats = query({
 
 // Helper function to generate webhook secret
 function generateWebhookSecret(): string {
-  const chars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-  let secret = 'whsec_';
-  for (let i = 0; i < 32; i++) {
-    secret += chars.charAt(Math.floor(Math.random() * chars.length));
+  return "whsec_" + randomHex(32);
+}
+
+// Secrets a delivery should be signed with: the current one plus any previous
+// secret still inside its rotation grace window
+function getActiveSigningSecrets(webhook: Doc<"webhooks">): string[] {
+  const secrets = [webhook.secret];
+  if (
+    webhook.previousSecret &&
+    webhook.previousSecretExpiresAt &&
+    new Date(webhook.previousSecretExpiresAt) > new Date()
+  ) {
+    secrets.push(webhook.previousSecret);
   }
-  return secret;
+  return secrets;
+}
+
+interface WebhookSendResult {
+  success: boolean;
+  statusCode?: number;
+  response?: string;
+  duration: number;
+  error?: string | undefined;
 }
 
 // Helper function to send webhook
-async function sendWebhook(webhook: any, payload: any): Promise<any> {
+async function sendWebhook(webhook: Doc<"webhooks">, payload: WebhookEventEnvelope): Promise<WebhookSendResult> {
   const startTime = Date.now();
   
   try {
-    // Create signature
-    const signature = createWebhookSignature(webhook.secret, JSON.stringify(payload));
+    // Sign exactly the bytes we send
+    const body = JSON.stringify(payload);
+    const signature = await createWebhookSignatureHeader(getActiveSigningSecrets(webhook), body);
     
-    // Prepare headers
+    // Prepare headers (custom headers cannot override the signature)
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'X-Webhook-Signature': signature,
-      'X-Webhook-Timestamp': new Date().toISOString(),
       ...webhook.headers,
+      'Content-Type': 'application/json',
+      [WEBHOOK_SIGNATURE_HEADER]: signature,
     };
+    if (payload.id) {
+      headers['X-Webhook-Event-Id'] = payload.id;
+    }
 
     const response = await fetch(webhook.url, {
       method: 'POST',
       headers,
-      body: JSON.stringify(payload),
+      body,
       signal: AbortSignal.timeout(30000), // 30 second timeout
     });
 
@@ -656,43 +1029,73 @@ async function sendWebhook(webhook: any, payload: any): Promise<any> {
   }
 }
 
-// Helper function to send webhook with retry
-async function sendWebhookWithRetry(webhook: any, payload: any): Promise<any> {
-  let lastResult;
-  let retryCount = 0;
-  const maxRetries = webhook.retryConfig?.maxRetries || 3;
-  let delay = webhook.retryConfig?.initialDelay || 1000;
-  const maxDelay = webhook.retryConfig?.maxDelay || 60000;
+function isQueuedStatus(status: WebhookDeliveryStatus | undefined): boolean {
+  return status === "pending" || status === "retrying";
+}
 
-  for (let i = 0; i <= maxRetries; i++) {
-    if (i > 0) {
-      // Wait before retry
-      await new Promise(resolve => setTimeout(resolve, delay));
-      // Exponential backoff
-      delay = Math.min(delay * 2, maxDelay);
-      retryCount = i;
-    }
+async function requeueDelivery(ctx: MutationCtx, deliveryId: Id<"webhookDeliveries">): Promise<void> {
+  await ctx.db.patch(deliveryId, {
+    status: "pending",
+    retryCount: 0,
+    nextAttemptAt: new Date().toISOString(),
+  });
 
-    lastResult = await sendWebhook(webhook, payload);
-    
-    if (lastResult.success) {
-      lastResult.retryCount = retryCount;
-      return lastResult;
-    }
-    
-    // Don't retry on client errors (4xx)
-    if (lastResult.statusCode && lastResult.statusCode >= 400 && lastResult.statusCode < 500) {
-      break;
-    }
+  await ctx.scheduler.runAfter(0, internal.integrations.webhooks.attemptDelivery, { deliveryId });
+}
+
+function validateAutoDisableThreshold(threshold: number | undefined) {
+  if (threshold !== undefined && (!Number.isInteger(threshold) || threshold < 1)) {
+    throw new ConvexError("Auto-disable threshold must be a whole number of at least 1");
+  }
+}
+
+// Track consecutive dead-lettered deliveries and disable the endpoint once it crosses its threshold
+async function updateWebhookHealth(ctx: MutationCtx, webhook: Doc<"webhooks">, outcome: DeliveryAttemptOutcome) {
+  const health = getWebhookHealthUpdate(webhook, outcome);
+  if (!health) {
+    return;
   }
 
-  lastResult.retryCount = retryCount;
-  return lastResult;
+  const now = new Date().toISOString();
+  await ctx.db.patch(webhook._id, {
+    failureCount: health.failureCount,
+    lastTriggeredAt: now,
+    ...(outcome.status === "succeeded" ? { successCount: webhook.successCount + 1 } : {}),
+    ...(health.disable ? { isActive: false, updatedAt: now } : {}),
+  });
+
+  if (health.disable) {
+    await notifyWebhookDisabled(ctx, webhook, health.failureCount);
+  }
+}
+
+async function notifyWebhookDisabled(ctx: MutationCtx, webhook: Doc<"webhooks">, failureCount: number) {
+  const admins = await ctx.db
+    .query("users")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", webhook.enterpriseId))
+    .filter((q) =>
+      q.and(
+        q.or(q.eq(q.field("role"), "owner"), q.eq(q.field("role"), "admin")),
+        q.neq(q.field("isActive"), false)
+      )
+    )
+    .collect();
+
+  for (const admin of admins) {
+    await ctx.db.insert("notifications", {
+      recipientId: admin._id,
+      type: "system_alert",
+      title: `Webhook disabled: ${webhook.name}`,
+      message: `Webhook "${webhook.name}" (${webhook.url}) was disabled after ${failureCount} consecutive deliveries failed every retry. Failed deliveries are kept as dead letters and can be replayed once the endpoint is fixed and re-enabled.`,
+      priority: "high",
+      channels: ["in_app", "email"],
+      status: "pending",
+      isRead: false,
+      retryCount: 0,
+      metadata: { webhookId: webhook._id, failureCount },
+      actionUrl: "/dashboard/settings/webhooks",
+      createdAt: new Date().toISOString(),
+    });
+  }
 }
 
-// Helper function to create webhook signature
-function createWebhookSignature(secret: string, payload: string): string {
-  // In a real implementation, use crypto library for HMAC-SHA256
-  // This is a simplified version
-  return `sha256=${Buffer.from(secret + payload).toString('base64')}`;
-}
\ No newline at end of file
@@ -0,0 +1,138 @@
+import type { LegalHoldScope } from "../schema";
+
+/**
+ * Legal hold matching
+ *
+ * A hold preserves the contracts, vendors or users it names, or every record
+ * dated within a range. A record is held when it belongs to a held contract,
+ * vendor or user, or when the period it covers overlaps a held range: a
+ * contract's term, or the day anything else was created. Backups are
+ * snapshots of the whole enterprise, so every contract, vendor or user hold
+ * preserves them, and a range hold preserves those taken once the range began.
+ *
+ * Dates are compared by calendar day (UTC), with both ends of a range
+ * included.
+ */
+
+export interface LegalHoldTerms {
+  _id?: string;
+  name: string;
+  scope: LegalHoldScope;
+  resourceIds: string[];
+  startDate?: string | undefined;
+  endDate?: string | undefined;
+}
+
+// What a record belongs to; unset ids are ignored so callers can pass
+// optional fields straight through
+export interface HoldSubject {
+  contractIds?: Array<string | undefined>;
+  vendorIds?: Array<string | undefined>;
+  userIds?: Array<string | undefined>;
+  // Period the record covers; open-ended when end is missing
+  period?: { start: string; end?: string | undefined };
+  // When the record is a snapshot of the enterprise's data, when it was taken
+  snapshotAt?: string;
+}
+
+export interface ContractHoldFields {
+  _id: string;
+  vendorId?: string | undefined;
+  ownerId?: string | undefined;
+  createdBy?: string | undefined;
+  startDate?: string | undefined;
+  endDate?: string | undefined;
+  extractedStartDate?: string | undefined;
+  extractedEndDate?: string | undefined;
+  createdAt: string;
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toDay(date: string): string {
+  return date.slice(0, 10);
+}
+
+function idsFor(subject: HoldSubject, scope: Exclude<LegalHoldScope, "dateRange">): Array<string | undefined> {
+  switch (scope) {
+    case "contracts": return subject.contractIds ?? [];
+    case "vendors": return subject.vendorIds ?? [];
+    case "users": return subject.userIds ?? [];
+  }
+}
+
+function holdCovers(hold: LegalHoldTerms, subject: HoldSubject): boolean {
+  if (hold.scope !== "dateRange") {
+    if (subject.snapshotAt) return true;
+    return idsFor(subject, hold.scope).some(id => !!id && hold.resourceIds.includes(id));
+  }
+
+  if (!hold.startDate || !hold.endDate) return false;
+  if (subject.snapshotAt) {
+    return toDay(subject.snapshotAt) >= hold.startDate;
+  }
+  if (!subject.period) return false;
+  const start = toDay(subject.period.start);
+  const end = subject.period.end ? toDay(subject.period.end) : null;
+  return start <= hold.endDate && (end === null || end >= hold.startDate);
+}
+
+/**
+ * The holds, among those passed, that cover the record. Pass active holds
+ * only; released holds are not filtered out here.
+ */
+export function findBlockingHolds<T extends LegalHoldTerms>(holds: T[], subject: HoldSubject): T[] {
+  return holds.filter(hold => holdCovers(hold, subject));
+}
+
+/**
+ * A contract is held through itself, its vendor, its owner and creator, and
+ * its term; one with no start date counts from when it was created
+ */
+export function contractHoldSubject(contract: ContractHoldFields): HoldSubject {
+  return {
+    contractIds: [contract._id],
+    vendorIds: [contract.vendorId],
+    userIds: [contract.ownerId, contract.createdBy],
+    period: {
+      start: contract.startDate ?? contract.extractedStartDate ?? contract.createdAt,
+      end: contract.endDate ?? contract.extractedEndDate,
+    },
+  };
+}
+
+/**
+ * Why a hold's terms cannot be saved, or null when they are valid
+ */
+export function validateLegalHoldTerms(terms: LegalHoldTerms): string | null {
+  if (!terms.name.trim()) {
+    return "A legal hold needs a name";
+  }
+  if (terms.scope === "dateRange") {
+    if (terms.resourceIds.length > 0) {
+      return "A date range hold cannot also name records";
+    }
+    if (!terms.startDate || !terms.endDate || !DAY_PATTERN.test(terms.startDate) || !DAY_PATTERN.test(terms.endDate)) {
+      return "A date range hold needs a start and end date (YYYY-MM-DD)";
+    }
+    if (terms.startDate > terms.endDate) {
+      return "The hold's start date must not be after its end date";
+    }
+    return null;
+  }
+  if (terms.resourceIds.length === 0) {
+    return `Select the ${terms.scope} the hold covers`;
+  }
+  if (terms.startDate || terms.endDate) {
+    return "Only date range holds take dates";
+  }
+  return null;
+}
+
+/**
+ * Refusal message naming the holds that block an action
+ */
+export function describeBlockingHolds(action: string, holds: LegalHoldTerms[]): string {
+  const names = holds.map(hold => `"${hold.name}"`).join(", ");
+  return `Cannot ${action}: under legal hold ${names}`;
+}
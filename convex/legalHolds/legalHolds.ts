@@ -0,0 +1,371 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, mutation, QueryCtx, MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { LegalHoldScope, legalHoldScopeOptions, legalHoldStatusOptions } from "../schema";
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
+import { appendAuditLog, AuditLogEntry } from "../auditLogging";
+import {
+  describeBlockingHolds,
+  findBlockingHolds,
+  HoldSubject,
+  validateLegalHoldTerms,
+} from "./legalHoldRules";
+
+/**
+ * Legal holds
+ *
+ * Admins place holds on contracts, vendors, users or a date range while
+ * litigation is pending or anticipated, and release them once it ends. Every
+ * delete, anonymize and retention path checks the enterprise's active holds
+ * through refuseIfHeld before acting.
+ *
+ * Refusals are written to the audit log against the blocking hold, so a
+ * hold's trail shows what it prevented. Since a mutation that throws rolls
+ * back its writes, paths that refuse return the refusal instead of throwing.
+ */
+
+const MAX_HOLD_NAME_LENGTH = 100;
+
+// Records listed per type when picking what a hold covers
+const MAX_CANDIDATES = 500;
+
+const AUDIT_TRAIL_LIMIT = 200;
+
+const HELD_TABLES = {
+  contracts: "contracts",
+  vendors: "vendors",
+  users: "users",
+} as const;
+
+export async function getActiveLegalHolds(
+  ctx: QueryCtx | MutationCtx,
+  enterpriseId: Id<"enterprises">
+): Promise<Doc<"legalHolds">[]> {
+  return await ctx.db
+    .query("legalHolds")
+    .withIndex("by_enterprise_status", (q) => q.eq("enterpriseId", enterpriseId).eq("status", "active"))
+    .collect();
+}
+
+export interface HoldRefusal {
+  operation: string;
+  action: AuditLogEntry["action"];
+  resourceType: string;
+  resourceId?: string;
+  // Who asked; system jobs leave it unset and the refusal is recorded
+  // against the user who placed the hold
+  userId?: Id<"users">;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Write a refusal to the audit trail of each blocking hold
+ */
+export async function recordHoldRefusal(
+  ctx: MutationCtx,
+  holds: Doc<"legalHolds">[],
+  refusal: HoldRefusal & { errorMessage: string }
+): Promise<void> {
+  const timestamp = new Date().toISOString();
+  for (const hold of holds) {
+    await appendAuditLog(ctx, {
+      userId: refusal.userId ?? hold.createdBy,
+      enterpriseId: hold.enterpriseId,
+      operation: refusal.operation,
+      resourceType: "legalHolds",
+      resourceId: hold._id,
+      action: refusal.action,
+      status: "failure",
+      errorMessage: refusal.errorMessage,
+      timestamp,
+      metadata: {
+        ...refusal.metadata,
+        refusedResourceType: refusal.resourceType,
+        ...(refusal.resourceId ? { refusedResourceId: refusal.resourceId } : {}),
+        ...(refusal.userId ? {} : { automated: true }),
+      },
+    });
+  }
+}
+
+/**
+ * Check a record against the enterprise's active holds. Returns null when
+ * none covers it; otherwise records the refusal and returns its message.
+ */
+export async function refuseIfHeld(
+  ctx: MutationCtx,
+  enterpriseId: Id<"enterprises">,
+  subject: HoldSubject,
+  refusal: HoldRefusal & { description: string }
+): Promise<string | null> {
+  const holds = findBlockingHolds(await getActiveLegalHolds(ctx, enterpriseId), subject);
+  if (holds.length === 0) return null;
+
+  const { description, ...rest } = refusal;
+  const errorMessage = describeBlockingHolds(description, holds);
+  await recordHoldRefusal(ctx, holds, { ...rest, errorMessage });
+  return errorMessage;
+}
+
+async function resolveResourceName(
+  ctx: QueryCtx,
+  scope: Exclude<LegalHoldScope, "dateRange">,
+  resourceId: string
+): Promise<string | null> {
+  switch (scope) {
+    case "contracts": {
+      const id = ctx.db.normalizeId("contracts", resourceId);
+      return id ? (await ctx.db.get(id))?.title ?? null : null;
+    }
+    case "vendors": {
+      const id = ctx.db.normalizeId("vendors", resourceId);
+      return id ? (await ctx.db.get(id))?.name ?? null : null;
+    }
+    case "users": {
+      const id = ctx.db.normalizeId("users", resourceId);
+      const user = id ? await ctx.db.get(id) : null;
+      return user ? [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email : null;
+    }
+  }
+}
+
+async function assertEnterpriseResources(
+  ctx: MutationCtx,
+  enterpriseId: Id<"enterprises">,
+  scope: Exclude<LegalHoldScope, "dateRange">,
+  resourceIds: string[]
+): Promise<void> {
+  for (const resourceId of resourceIds) {
+    const id = ctx.db.normalizeId(HELD_TABLES[scope], resourceId);
+    const record = id ? await ctx.db.get(id) : null;
+    if (!record || record.enterpriseId !== enterpriseId) {
+      throw new ConvexError(`${resourceId} is not one of this organization's ${scope}`);
+    }
+  }
+}
+
+/**
+ * The enterprise's legal holds, newest first, with the records they cover
+ */
+export const listLegalHolds = query({
+  args: {
+    status: v.optional(v.union(...legalHoldStatusOptions.map(option => v.literal(option)))),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "legalHolds.manage");
+
+    const holds = await ctx.db
+      .query("legalHolds")
+      .withIndex("by_enterprise_status", (q) => args.status
+        ? q.eq("enterpriseId", securityContext.enterpriseId).eq("status", args.status)
+        : q.eq("enterpriseId", securityContext.enterpriseId))
+      .collect();
+
+    return await Promise.all(holds
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(async hold => {
+        const scope = hold.scope;
+        const creator = await ctx.db.get(hold.createdBy);
+        return {
+          ...hold,
+          createdByName: creator ? [creator.firstName, creator.lastName].filter(Boolean).join(" ") || creator.email : null,
+          resources: scope === "dateRange"
+            ? []
+            : await Promise.all(hold.resourceIds.map(async resourceId => ({
+                id: resourceId,
+                name: await resolveResourceName(ctx, scope, resourceId),
+              }))),
+        };
+      }));
+  },
+});
+
+/**
+ * Contracts, vendors and users a new hold can cover
+ */
+export const getLegalHoldCandidates = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "legalHolds.manage");
+    const enterpriseId = securityContext.enterpriseId;
+
+    const [contracts, vendors, users] = await Promise.all([
+      ctx.db.query("contracts").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId)).take(MAX_CANDIDATES),
+      ctx.db.query("vendors").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId)).take(MAX_CANDIDATES),
+      ctx.db.query("users").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId)).take(MAX_CANDIDATES),
+    ]);
+
+    return {
+      contracts: contracts.map(contract => ({ id: contract._id as string, name: contract.title })),
+      vendors: vendors.map(vendor => ({ id: vendor._id as string, name: vendor.name })),
+      users: users.map(user => ({
+        id: user._id as string,
+        name: [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email,
+      })),
+    };
+  },
+});
+
+/**
+ * Place a legal hold. It takes effect immediately for every delete,
+ * anonymize and retention path.
+ */
+export const createLegalHold = mutation({
+  args: {
+    name: v.string(),
+    matter: v.optional(v.string()),
+    reason: v.optional(v.string()),
+    scope: v.union(...legalHoldScopeOptions.map(option => v.literal(option))),
+    resourceIds: v.array(v.string()),
+    startDate: v.optional(v.string()),
+    endDate: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "legalHolds.manage");
+
+    const name = args.name.trim();
+    const matter = args.matter?.trim();
+    const reason = args.reason?.trim();
+    const resourceIds = [...new Set(args.resourceIds)];
+    const terms = {
+      name,
+      scope: args.scope,
+      resourceIds,
+      ...(args.startDate ? { startDate: args.startDate } : {}),
+      ...(args.endDate ? { endDate: args.endDate } : {}),
+    };
+
+    if (name.length > MAX_HOLD_NAME_LENGTH) {
+      throw new ConvexError(`Hold name must be ${MAX_HOLD_NAME_LENGTH} characters or less`);
+    }
+    const invalid = validateLegalHoldTerms(terms);
+    if (invalid) {
+      throw new ConvexError(invalid);
+    }
+    if (args.scope !== "dateRange") {
+      await assertEnterpriseResources(ctx, securityContext.enterpriseId, args.scope, resourceIds);
+    }
+
+    const now = new Date().toISOString();
+    const hold = {
+      enterpriseId: securityContext.enterpriseId,
+      ...terms,
+      ...(matter ? { matter } : {}),
+      ...(reason ? { reason } : {}),
+      status: "active" as const,
+      createdBy: securityContext.userId,
+      createdAt: now,
+    };
+    const holdId = await ctx.db.insert("legalHolds", hold);
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "createLegalHold",
+      resourceType: "legalHolds",
+      resourceId: holdId,
+      action: "create",
+      status: "success",
+      timestamp: now,
+      changes: { after: hold },
+    });
+
+    return holdId;
+  },
+});
+
+/**
+ * Release a hold. Records it covered become subject to deletion and
+ * retention again unless another hold still covers them.
+ */
+export const releaseLegalHold = mutation({
+  args: {
+    holdId: v.id("legalHolds"),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "legalHolds.manage");
+
+    const hold = await ctx.db.get(args.holdId);
+    if (!hold || hold.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Legal hold not found");
+    }
+    if (hold.status === "released") {
+      throw new ConvexError("Legal hold has already been released");
+    }
+    const reason = args.reason.trim();
+    if (!reason) {
+      throw new ConvexError("Give a reason for releasing the hold");
+    }
+
+    const now = new Date().toISOString();
+    await ctx.db.patch(hold._id, {
+      status: "released",
+      releasedBy: securityContext.userId,
+      releasedAt: now,
+      releaseReason: reason,
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "releaseLegalHold",
+      resourceType: "legalHolds",
+      resourceId: hold._id,
+      action: "update",
+      status: "success",
+      timestamp: now,
+      changes: { before: { status: "active" }, after: { status: "released" } },
+      metadata: { name: hold.name, reason },
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Everything recorded against a hold: when it was placed and released, and
+ * every action it refused
+ */
+export const getLegalHoldAuditTrail = query({
+  args: { holdId: v.id("legalHolds") },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "legalHolds.manage");
+
+    const hold = await ctx.db.get(args.holdId);
+    if (!hold || hold.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Legal hold not found");
+    }
+
+    const entries = await ctx.db
+      .query("auditLogs")
+      .withIndex("by_resource", (q) => q.eq("resourceType", "legalHolds").eq("resourceId", hold._id))
+      .order("desc")
+      .take(AUDIT_TRAIL_LIMIT);
+
+    const names = new Map<Id<"users">, string>();
+    for (const entry of entries) {
+      if (names.has(entry.userId)) continue;
+      const user = await ctx.db.get(entry.userId);
+      names.set(entry.userId, user ? [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email : "Unknown user");
+    }
+
+    return entries.map(entry => ({
+      _id: entry._id,
+      operation: entry.operation,
+      action: entry.action,
+      status: entry.status,
+      errorMessage: entry.errorMessage,
+      timestamp: entry.timestamp,
+      userName: names.get(entry.userId) ?? "Unknown user",
+      automated: entry.metadata?.automated === true,
+      metadata: entry.metadata,
+    }));
+  },
+});
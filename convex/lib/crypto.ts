@@ -0,0 +1,28 @@
+/**
+ * Crypto helpers
+ *
+ * Encoding and comparison helpers shared by the modules that hash, sign or
+ * generate secrets with Web Crypto.
+ */
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Hex string of cryptographically random bytes, for tokens and secrets
+export function randomHex(byteLength: number): string {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes);
+}
+
+// Constant-time comparison so signature and hash checks don't leak timing information
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
@@ -0,0 +1,124 @@
+import { ConvexError } from "convex/values";
+
+/**
+ * Department hierarchy rules
+ *
+ * Departments form a tree per enterprise through `parentDepartmentId`. These
+ * helpers walk that tree for row-level security (a manager sees their
+ * department's subtree), guard updates against cycles, and map the free-text
+ * department values used before departments existed onto real ones. Pure so
+ * they can be unit tested; persistence lives in `departments.ts`.
+ */
+
+export interface DepartmentNode {
+  _id: string;
+  name: string;
+  parentDepartmentId?: string | undefined;
+}
+
+// Ids the old mock department picker handed out, so budgets created with
+// them migrate to the department the user actually picked
+export const LEGACY_DEPARTMENT_IDS: Record<string, string> = {
+  dept1: "Engineering",
+  dept2: "Marketing",
+  dept3: "Sales",
+  dept4: "Operations",
+  dept5: "Finance",
+  dept6: "Human Resources",
+  dept7: "Legal",
+  dept8: "Customer Success",
+};
+
+export const UNASSIGNED_DEPARTMENT = "Unassigned";
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * A department and everything below it
+ */
+export function departmentSubtree(departments: DepartmentNode[], rootId: string): Set<string> {
+  const childrenByParent = new Map<string, string[]>();
+  for (const department of departments) {
+    if (!department.parentDepartmentId) continue;
+    childrenByParent.set(department.parentDepartmentId, [
+      ...(childrenByParent.get(department.parentDepartmentId) ?? []),
+      department._id,
+    ]);
+  }
+
+  const subtree = new Set<string>();
+  const pending = [rootId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (subtree.has(id)) continue;
+    subtree.add(id);
+    pending.push(...(childrenByParent.get(id) ?? []));
+  }
+  return subtree;
+}
+
+/**
+ * Whether making `parentId` the parent of `departmentId` would put the
+ * department under itself
+ */
+export function wouldCreateCycle(departments: DepartmentNode[], departmentId: string, parentId: string): boolean {
+  return departmentSubtree(departments, departmentId).has(parentId);
+}
+
+/**
+ * Names from the root down to the department, e.g. ["Finance", "Payables"]
+ */
+export function departmentPath(departments: DepartmentNode[], departmentId: string): string[] {
+  const byId = new Map(departments.map(department => [department._id, department]));
+  const path: string[] = [];
+  const seen = new Set<string>();
+
+  let current = byId.get(departmentId);
+  while (current && !seen.has(current._id)) {
+    seen.add(current._id);
+    path.unshift(current.name);
+    current = current.parentDepartmentId ? byId.get(current.parentDepartmentId) : undefined;
+  }
+  return path;
+}
+
+export function normalizeDepartmentName(name: string): string {
+  const normalized = name.trim().replace(/\s+/g, " ");
+  if (normalized === "") {
+    throw new ConvexError("Validation Error: Department name cannot be empty.");
+  }
+  if (normalized.length > MAX_NAME_LENGTH) {
+    throw new ConvexError(`Validation Error: Department name must be ${MAX_NAME_LENGTH} characters or less.`);
+  }
+  return normalized;
+}
+
+/**
+ * Upper-case a cost center code; letters, digits, dots, dashes and
+ * underscores only
+ */
+export function normalizeCostCenterCode(code: string): string {
+  const normalized = code.trim().toUpperCase();
+  if (!/^[A-Z0-9][A-Z0-9._-]{0,19}$/.test(normalized)) {
+    throw new ConvexError("Validation Error: Cost center code must be 1-20 letters, digits, dots, dashes or underscores.");
+  }
+  return normalized;
+}
+
+/**
+ * The department name a legacy free-text value stands for, or null when it
+ * is blank
+ */
+export function legacyDepartmentName(value: string): string | null {
+  const trimmed = value.trim().replace(/\s+/g, " ");
+  if (trimmed === "") return null;
+  return LEGACY_DEPARTMENT_IDS[trimmed] ?? trimmed;
+}
+
+/**
+ * Find a department by name, ignoring case and spacing
+ */
+export function findDepartmentByName<T extends DepartmentNode>(departments: T[], name: string): T | undefined {
+  const key = name.trim().replace(/\s+/g, " ").toLowerCase();
+  return departments.find(department => department.name.toLowerCase() === key);
+}
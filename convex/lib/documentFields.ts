@@ -0,0 +1,21 @@
+/**
+ * Document field helpers
+ *
+ * `ctx.db.patch` cannot remove a field, so clearing an optional field means
+ * replacing the document with a copy that leaves it out.
+ */
+
+// Copy of a document without its system fields and the given optional fields,
+// for replacing it with those fields removed
+export function withoutFields<T extends { _id: unknown; _creationTime: number }, K extends keyof T>(
+  doc: T,
+  fields: K[]
+): Omit<T, "_id" | "_creationTime" | K> {
+  const copy: Partial<T> = { ...doc };
+  delete copy._id;
+  delete copy._creationTime;
+  for (const field of fields) {
+    delete copy[field];
+  }
+  return copy as Omit<T, "_id" | "_creationTime" | K>;
+}
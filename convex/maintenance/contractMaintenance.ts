@@ -1,6 +1,10 @@
 import { internalMutation } from "../_generated/server";
 import { v } from "convex/values";
 import { Id } from "../_generated/dataModel";
+import { emitWebhookEvent } from "../integrations/webhookEvents";
+import { closeContractRenewal, rollOverAutoRenewal } from "../renewals/renewals";
+import { refuseIfHeld } from "../legalHolds/legalHolds";
+import { contractHoldSubject } from "../legalHolds/legalHoldRules";
 
 /**
  * Contract maintenance functions for scheduled jobs
@@ -95,6 +99,19 @@ export const checkExpiringContracts = internalMutation({
             createdAt: new Date().toISOString(),
           });
           notificationsCreated++;
+
+          // Same dedupe window as the notification, so receivers get one event per threshold
+          await emitWebhookEvent(ctx, {
+            type: "contract.expiring",
+            enterpriseId: contract.enterpriseId,
+            data: {
+              contractId: contract._id,
+              title: contract.title,
+              vendorId: contract.vendorId,
+              endDate: contract.extractedEndDate,
+              daysUntilExpiry: days,
+            },
+          });
         }
       }
     }
@@ -136,15 +153,23 @@ export const updateExpiredContracts = internalMutation({
     console.log(`Found ${expiredContracts.length} expired contracts to update`);
 
     let updated = 0;
+    let renewed = 0;
     let errors: Array<{ contractId: Id<"contracts">; error: string }> = [];
 
     for (const contract of expiredContracts) {
       try {
+        // Auto-renewing contracts nobody gave notice on continue into their next term
+        if (await rollOverAutoRenewal(ctx, contract)) {
+          renewed++;
+          continue;
+        }
+
         // Update contract status
         await ctx.db.patch(contract._id, {
           status: "expired",
           updatedAt: Date.now(),
         });
+        await closeContractRenewal(ctx, contract._id);
 
         // Create status history entry
         await ctx.db.insert("contractStatusHistory", {
@@ -177,6 +202,19 @@ export const updateExpiredContracts = internalMutation({
           });
         }
 
+        await emitWebhookEvent(ctx, {
+          type: "contract.expired",
+          enterpriseId: contract.enterpriseId,
+          data: {
+            contractId: contract._id,
+            title: contract.title,
+            vendorId: contract.vendorId,
+            endDate: contract.extractedEndDate,
+            status: "expired",
+          },
+          previous: { status: contract.status },
+        });
+
         updated++;
       } catch (error) {
         console.error(`Failed to update contract ${contract._id}:`, error);
@@ -187,6 +225,7 @@ export const updateExpiredContracts = internalMutation({
     return {
       contractsFound: expiredContracts.length,
       contractsUpdated: updated,
+      contractsRenewed: renewed,
       errors,
     };
   },
@@ -222,9 +261,23 @@ export const cleanupOldDrafts = internalMutation({
 
     let deleted = 0;
     let archived = 0;
+    let held = 0;
 
     for (const draft of oldDrafts) {
       try {
+        const refusal = await refuseIfHeld(ctx, draft.enterpriseId, contractHoldSubject(draft), {
+          operation: "cleanupOldDrafts",
+          action: "delete",
+          resourceType: "contracts",
+          resourceId: draft._id,
+          description: "clean up this draft",
+          metadata: { daysOld },
+        });
+        if (refusal) {
+          held++;
+          continue;
+        }
+
         // Check if contract has any assignments or important data
         const assignments = await ctx.db
           .query("contractAssignments")
@@ -252,6 +305,7 @@ export const cleanupOldDrafts = internalMutation({
       draftsFound: oldDrafts.length,
       deleted,
       archived,
+      held,
     };
   },
 });
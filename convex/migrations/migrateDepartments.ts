@@ -0,0 +1,100 @@
+// convex/migrations/migrateDepartments.ts
+import { internalMutation, MutationCtx } from "../_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "../_generated/dataModel";
+import { findDepartmentByName, legacyDepartmentName } from "../lib/departmentHierarchy";
+
+/**
+ * Migration from free-text departments to the departments table
+ * - contracts.departmentId and budgets.departmentId strings (including the
+ *   dept1-dept8 ids the old picker handed out) become department ids
+ * - users with a free-text `department` label are assigned to it
+ * Departments are created per enterprise by name, reusing existing ones, so
+ * the migration can be re-run safely. Pass dryRun to only count changes.
+ */
+export const migrateDepartments = internalMutation({
+  args: {
+    enterpriseId: v.optional(v.id("enterprises")),
+    dryRun: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const dryRun = args.dryRun ?? false;
+    const cache = new Map<Id<"enterprises">, Doc<"departments">[]>();
+    const created = new Set<string>();
+
+    const departmentFor = async (enterpriseId: Id<"enterprises">, value: string) => {
+      const name = legacyDepartmentName(value);
+      if (!name) return null;
+
+      let departments = cache.get(enterpriseId);
+      if (!departments) {
+        departments = await ctx.db
+          .query("departments")
+          .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+          .collect();
+        cache.set(enterpriseId, departments);
+      }
+
+      const existing = findDepartmentByName(departments, name);
+      if (existing) return existing._id;
+
+      created.add(`${enterpriseId}:${name.toLowerCase()}`);
+      if (dryRun) return null;
+      const department = await createDepartment(ctx, enterpriseId, name);
+      departments.push(department);
+      return department._id;
+    };
+
+    const contracts = args.enterpriseId
+      ? await ctx.db.query("contracts").withIndex("by_enterprise", (q) => q.eq("enterpriseId", args.enterpriseId!)).collect()
+      : await ctx.db.query("contracts").collect();
+    let contractsUpdated = 0;
+    for (const contract of contracts) {
+      if (!contract.departmentId || ctx.db.normalizeId("departments", contract.departmentId)) continue;
+      const departmentId = await departmentFor(contract.enterpriseId, contract.departmentId);
+      if (!dryRun && departmentId) await ctx.db.patch(contract._id, { departmentId });
+      contractsUpdated++;
+    }
+
+    const budgets = args.enterpriseId
+      ? await ctx.db.query("budgets").withIndex("by_enterprise", (q) => q.eq("enterpriseId", args.enterpriseId!)).collect()
+      : await ctx.db.query("budgets").collect();
+    let budgetsUpdated = 0;
+    for (const budget of budgets) {
+      if (!budget.departmentId || ctx.db.normalizeId("departments", budget.departmentId)) continue;
+      const departmentId = await departmentFor(budget.enterpriseId, budget.departmentId);
+      if (!dryRun && departmentId) await ctx.db.patch(budget._id, { departmentId });
+      budgetsUpdated++;
+    }
+
+    const users = args.enterpriseId
+      ? await ctx.db.query("users").withIndex("by_enterprise", (q) => q.eq("enterpriseId", args.enterpriseId!)).collect()
+      : await ctx.db.query("users").collect();
+    let usersAssigned = 0;
+    for (const user of users) {
+      if (user.departmentId || !user.department) continue;
+      const departmentId = await departmentFor(user.enterpriseId, user.department);
+      if (!dryRun && departmentId) await ctx.db.patch(user._id, { departmentId });
+      usersAssigned++;
+    }
+
+    return {
+      success: true,
+      dryRun,
+      departmentsCreated: created.size,
+      contractsUpdated,
+      budgetsUpdated,
+      usersAssigned,
+    };
+  },
+});
+
+async function createDepartment(ctx: MutationCtx, enterpriseId: Id<"enterprises">, name: string) {
+  const department = {
+    enterpriseId,
+    name,
+    createdAt: new Date().toISOString(),
+  };
+  const departmentId = await ctx.db.insert("departments", department);
+  return { _id: departmentId, _creationTime: Date.now(), ...department };
+}
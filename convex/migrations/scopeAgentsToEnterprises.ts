@@ -0,0 +1,292 @@
+// convex/migrations/scopeAgentsToEnterprises.ts
+import { internalMutation, MutationCtx } from "../_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import { DEFAULT_AGENT_SYSTEM_CONFIG, getAgentSystem, getEnterpriseAgent } from "../agents/agentRuntime";
+import { withoutFields } from "../lib/documentFields";
+
+// Rows scoped per batch; each batch schedules the next
+const BATCH_SIZE = 500;
+
+export type MigrationCtx = Pick<MutationCtx, "db">;
+
+/**
+ * Migration from the single global agent system to one per enterprise
+ * - every enterprise gets its own agentSystem row, copying the global row's
+ *   config and running state
+ * - every global agent is copied into each enterprise with fresh counters
+ * - insights and tasks are attributed to the enterprise of their contract or
+ *   vendor and pointed at that enterprise's copy of their agents, in batches
+ * - logs are attributed through the contract in their data, in batches
+ * Rows that cannot be attributed, and the global rows themselves, are left
+ * unscoped; nothing reads them any more. Enterprises that already have a
+ * system or an agent of a type keep theirs, so the migration can be re-run
+ * safely. Pass dryRun to only count the systems and agents it would create.
+ */
+export const scopeAgentsToEnterprises = internalMutation({
+  args: {
+    dryRun: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args): Promise<{
+    success: boolean;
+    dryRun: boolean;
+    enterprises: number;
+    systemsCreated: number;
+    agentsCopied: number;
+  }> => {
+    const dryRun = args.dryRun ?? false;
+    const result = await copyAgentSystems(ctx, dryRun);
+
+    // The batches look up the copies, so they run once this has committed
+    if (!dryRun) {
+      await ctx.scheduler.runAfter(0, internal.migrations.scopeAgentsToEnterprises.scopeAgentInsights, {});
+      await ctx.scheduler.runAfter(0, internal.migrations.scopeAgentsToEnterprises.scopeAgentTasks, {});
+      await ctx.scheduler.runAfter(0, internal.migrations.scopeAgentsToEnterprises.scopeAgentLogs, {});
+    }
+
+    return { success: true, dryRun, ...result };
+  },
+});
+
+/**
+ * Give every enterprise its own agent system and a copy of each global agent
+ */
+export async function copyAgentSystems(
+  ctx: MigrationCtx,
+  dryRun: boolean
+): Promise<{ enterprises: number; systemsCreated: number; agentsCopied: number }> {
+  const legacySystem = await ctx.db
+    .query("agentSystem")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", undefined))
+    .first();
+  const legacyAgents = await ctx.db
+    .query("agents")
+    .withIndex("by_enterprise_type", (q) => q.eq("enterpriseId", undefined))
+    .collect();
+
+  let systemsCreated = 0;
+  let agentsCopied = 0;
+
+  const enterprises = await ctx.db.query("enterprises").collect();
+  for (const enterprise of enterprises) {
+    // Legacy agent id -> its copy in this enterprise
+    const copies = new Map<Id<"agents">, Id<"agents">>();
+    const created = new Set<Id<"agents">>();
+
+    if (!await getAgentSystem(ctx, enterprise._id)) {
+      systemsCreated++;
+      if (!dryRun) {
+        await ctx.db.insert("agentSystem", {
+          enterpriseId: enterprise._id,
+          isRunning: legacySystem?.isRunning ?? false,
+          status: legacySystem?.status ?? "stopped",
+          ...(legacySystem?.lastStarted ? { lastStarted: legacySystem.lastStarted } : {}),
+          ...(legacySystem?.lastStopped ? { lastStopped: legacySystem.lastStopped } : {}),
+          config: legacySystem?.config ?? DEFAULT_AGENT_SYSTEM_CONFIG,
+        });
+      }
+    }
+
+    for (const agent of legacyAgents) {
+      const existing = await getEnterpriseAgent(ctx, enterprise._id, agent.type);
+      if (existing) {
+        copies.set(agent._id, existing._id);
+        continue;
+      }
+      agentsCopied++;
+      if (!dryRun) {
+        const copyId = await ctx.db.insert("agents", copyAgent(agent, enterprise._id, legacySystem?.isRunning ?? false));
+        copies.set(agent._id, copyId);
+        created.add(copyId);
+      }
+    }
+
+    // Dependencies can only be remapped once every agent has a copy
+    if (!dryRun) {
+      for (const agent of legacyAgents) {
+        const dependencies = agent.config?.dependencies;
+        const copyId = copies.get(agent._id);
+        if (!dependencies || !copyId || !created.has(copyId)) continue;
+        const copy = await ctx.db.get(copyId);
+        if (!copy?.config) continue;
+        await ctx.db.patch(copyId, {
+          config: {
+            ...copy.config,
+            dependencies: dependencies.flatMap(id => copies.get(id) ?? []),
+          },
+        });
+      }
+    }
+  }
+
+  return { enterprises: enterprises.length, systemsCreated, agentsCopied };
+}
+
+/**
+ * Attribute unscoped insights, a batch at a time
+ */
+export const scopeAgentInsights = internalMutation({
+  args: {
+    cursor: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<{ scoped: number; unattributed: number; isDone: boolean }> => {
+    const page = await ctx.db
+      .query("agentInsights")
+      .withIndex("by_enterprise_created", (q) => q.eq("enterpriseId", undefined))
+      .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+    const result = await scopeInsights(ctx, page.page);
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.scopeAgentsToEnterprises.scopeAgentInsights, {
+        cursor: page.continueCursor,
+      });
+    }
+
+    return { ...result, isDone: page.isDone };
+  },
+});
+
+export async function scopeInsights(
+  ctx: MigrationCtx,
+  insights: Doc<"agentInsights">[]
+): Promise<{ scoped: number; unattributed: number }> {
+  const scoping = createAgentScoping(ctx);
+  let scoped = 0;
+  for (const insight of insights) {
+    const enterpriseId = await scoping.enterpriseOf(insight.contractId, insight.vendorId);
+    if (!enterpriseId) continue;
+    await ctx.db.patch(insight._id, { enterpriseId, agentId: await scoping.copyOf(enterpriseId, insight.agentId) });
+    scoped++;
+  }
+  return { scoped, unattributed: insights.length - scoped };
+}
+
+/**
+ * Attribute unscoped tasks, a batch at a time
+ */
+export const scopeAgentTasks = internalMutation({
+  args: {
+    cursor: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<{ scoped: number; unattributed: number; isDone: boolean }> => {
+    const page = await ctx.db
+      .query("agentTasks")
+      .withIndex("by_enterprise_status", (q) => q.eq("enterpriseId", undefined))
+      .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+    const result = await scopeTasks(ctx, page.page);
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.scopeAgentsToEnterprises.scopeAgentTasks, {
+        cursor: page.continueCursor,
+      });
+    }
+
+    return { ...result, isDone: page.isDone };
+  },
+});
+
+export async function scopeTasks(
+  ctx: MigrationCtx,
+  tasks: Doc<"agentTasks">[]
+): Promise<{ scoped: number; unattributed: number }> {
+  const scoping = createAgentScoping(ctx);
+  let scoped = 0;
+  for (const task of tasks) {
+    const enterpriseId = await scoping.enterpriseOf(task.contractId, task.vendorId);
+    if (!enterpriseId) continue;
+    await ctx.db.patch(task._id, {
+      enterpriseId,
+      assignedAgentId: await scoping.copyOf(enterpriseId, task.assignedAgentId),
+      ...(task.createdByAgentId ? { createdByAgentId: await scoping.copyOf(enterpriseId, task.createdByAgentId) } : {}),
+    });
+    scoped++;
+  }
+  return { scoped, unattributed: tasks.length - scoped };
+}
+
+/**
+ * Lookups shared by a batch: the enterprise a row's contract or vendor
+ * belongs to, and an enterprise's copy of a global agent
+ */
+function createAgentScoping(ctx: MigrationCtx) {
+  const copies = new Map<string, Id<"agents">>();
+
+  return {
+    enterpriseOf: async (
+      contractId: Id<"contracts"> | undefined,
+      vendorId: Id<"vendors"> | undefined
+    ): Promise<Id<"enterprises"> | null> => {
+      const contract = contractId ? await ctx.db.get(contractId) : null;
+      if (contract) return contract.enterpriseId;
+      const vendor = vendorId ? await ctx.db.get(vendorId) : null;
+      return vendor?.enterpriseId ?? null;
+    },
+
+    // Agents already scoped, or without a copy, are kept as they are
+    copyOf: async (enterpriseId: Id<"enterprises">, agentId: Id<"agents">): Promise<Id<"agents">> => {
+      const key = `${enterpriseId}:${agentId}`;
+      const cached = copies.get(key);
+      if (cached) return cached;
+
+      const agent = await ctx.db.get(agentId);
+      const copy = agent && !agent.enterpriseId ? await getEnterpriseAgent(ctx, enterpriseId, agent.type) : null;
+      copies.set(key, copy?._id ?? agentId);
+      return copy?._id ?? agentId;
+    },
+  };
+}
+
+/**
+ * Attribute unscoped agent logs to the enterprise of the contract named in
+ * their data, a batch at a time
+ */
+export const scopeAgentLogs = internalMutation({
+  args: {
+    cursor: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<{ scoped: number; isDone: boolean }> => {
+    const page = await ctx.db
+      .query("agentLogs")
+      .withIndex("by_enterprise_timestamp", (q) => q.eq("enterpriseId", undefined))
+      .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+    let scoped = 0;
+    for (const log of page.page) {
+      const contractId = typeof log.data?.contractId === "string"
+        ? ctx.db.normalizeId("contracts", log.data.contractId)
+        : null;
+      const contract = contractId ? await ctx.db.get(contractId) : null;
+      if (!contract) continue;
+      await ctx.db.patch(log._id, { enterpriseId: contract.enterpriseId });
+      scoped++;
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.scopeAgentsToEnterprises.scopeAgentLogs, {
+        cursor: page.continueCursor,
+      });
+    }
+
+    return { scoped, isDone: page.isDone };
+  },
+});
+
+function copyAgent(agent: Doc<"agents">, enterpriseId: Id<"enterprises">, systemRunning: boolean) {
+  const copy = withoutFields(agent, ["lastRun", "lastSuccess", "lastError", "metrics", "config"]);
+  const config = agent.config ? { ...agent.config } : undefined;
+  // Dependencies point at legacy agents and are remapped once all copies exist
+  delete config?.dependencies;
+  return {
+    ...copy,
+    enterpriseId,
+    status: agent.status === "disabled" ? "disabled" as const : systemRunning ? "active" as const : "inactive" as const,
+    runCount: 0,
+    errorCount: 0,
+    ...(config ? { config } : {}),
+    ...(agent.metrics ? { metrics: { totalRuns: 0, successfulRuns: 0, failedRuns: 0, averageRunTime: 0 } } : {}),
+    createdAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,331 @@
+import { ObligationParty, ObligationRecurrence, ObligationStatus, ObligationType } from "../schema";
+
+/**
+ * Contract obligation rules
+ *
+ * Finds obligations in contract text (who owes what, by when, how often and
+ * with what evidence) and holds the status, reminder and compliance rules the
+ * obligations tracker applies. Pure so it can be unit tested; persistence lives
+ * in `obligations.ts`.
+ */
+
+export interface ExtractedObligation {
+  title: string;
+  type: ObligationType;
+  ownerParty: ObligationParty;
+  dueDate?: string;
+  recurrence?: ObligationRecurrence;
+  evidenceRequired?: string;
+  sourceText: string;
+  confidence: number;
+}
+
+export interface ObligationSource {
+  text: string;
+  paymentSchedule?: string | undefined;
+  startDate?: string | undefined;
+  endDate?: string | undefined;
+}
+
+// Days before the due date an obligation counts as due and its owner is reminded
+export const DEFAULT_REMINDER_DAYS_BEFORE = 7;
+// Longest reminder window, bounding how far ahead the status refresh looks
+export const MAX_REMINDER_DAYS_BEFORE = 60;
+// Overdue obligations are re-sent to their owner this often
+export const OVERDUE_REMINDER_INTERVAL_DAYS = 7;
+// Taken off the vendor's complianceScore for each overdue counterparty obligation
+export const OVERDUE_COMPLIANCE_PENALTY = 10;
+
+const MAX_EXTRACTED_OBLIGATIONS = 50;
+const MAX_TITLE_LENGTH = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sentences that commit a party to act; "shall not" style restrictions are not tracked
+const OBLIGATION_MODAL = /\b(shall|must|will|agrees? to|is required to|undertakes? to)\b(?!\s+not\b)/i;
+
+const TYPE_RULES: Array<{ type: ObligationType; pattern: RegExp; evidence: string }> = [
+  {
+    type: "insurance_certificate",
+    pattern: /certificates? of insurance|insurance certificates?|evidence of (?:such |its )?insurance/i,
+    evidence: "Certificate of insurance",
+  },
+  {
+    type: "notice",
+    pattern: /\bnotice\b[^.]*\b(renew|non-renewal|terminat|expir)|\b(renew|non-renewal|terminat|expir)[^.]*\bnotice\b/i,
+    evidence: "Copy of the written notice",
+  },
+  { type: "reporting", pattern: /\breports?\b|\breporting\b/i, evidence: "Copy of the report" },
+  {
+    type: "sla",
+    pattern: /\buptime\b|\bavailability\b|service levels?|\bresponse times?\b|\bresolution times?\b/i,
+    evidence: "Service level report",
+  },
+  { type: "deliverable", pattern: /\bdeliver(?:s|y|ables?)?\b|\bsubmit\b/i, evidence: "Delivery acceptance" },
+  { type: "payment", pattern: /\bpay\b|\bpayments?\b|\binvoices?\b/i, evidence: "Proof of payment" },
+];
+
+const RECURRENCE_RULES: Array<{ recurrence: ObligationRecurrence; pattern: RegExp }> = [
+  { recurrence: "weekly", pattern: /\bweekly\b|\b(each|every) week\b/i },
+  { recurrence: "monthly", pattern: /\bmonthly\b|\b(each|every) (calendar )?month\b/i },
+  { recurrence: "quarterly", pattern: /\bquarterly\b|\b(each|every) (calendar )?quarter\b/i },
+  { recurrence: "annually", pattern: /\bannual(ly)?\b|\byearly\b|\b(each|every) (calendar )?year\b/i },
+];
+
+const MUTUAL_PARTY = /\b(each|either|both) part(y|ies)\b|\bthe parties\b/i;
+const COUNTERPARTY = /\b(vendor|supplier|provider|contractor|consultant|licensor|seller)\b/i;
+const ENTERPRISE_PARTY = /\b(customer|client|licensee|buyer|purchaser)\b/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, five: 5, seven: 7, ten: 10, fourteen: 14, fifteen: 15,
+  twenty: 20, thirty: 30, forty: 40, "forty-five": 45, sixty: 60, ninety: 90,
+};
+
+const MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+
+/**
+ * Find obligations in contract text. Each obligation-bearing sentence is typed
+ * by its subject matter, attributed to a party by its subject, and given a due
+ * date when the sentence fixes one (an explicit date, a period after the start
+ * date, a notice period before the end date) or a recurrence.
+ */
+export function extractObligations(source: ObligationSource, now: Date): ExtractedObligation[] {
+  const obligations: ExtractedObligation[] = [];
+  const seen = new Set<string>();
+
+  for (const sentence of splitSentences(source.text)) {
+    if (!OBLIGATION_MODAL.test(sentence)) continue;
+
+    const rule = TYPE_RULES.find(candidate => candidate.pattern.test(sentence));
+    if (!rule) continue;
+
+    const key = `${rule.type}:${sentence.toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const party = detectOwnerParty(sentence);
+    const recurrence = detectRecurrence(sentence);
+    const dueDate = resolveDueDate(sentence, recurrence, source, now);
+
+    obligations.push({
+      title: toTitle(sentence),
+      type: rule.type,
+      ownerParty: party.ownerParty,
+      ...(dueDate ? { dueDate } : {}),
+      ...(recurrence ? { recurrence } : {}),
+      evidenceRequired: rule.evidence,
+      sourceText: sentence,
+      // Sentences naming both a party and a date are the most reliable
+      confidence: Math.min(0.9, 0.5 + (party.explicit ? 0.2 : 0) + (dueDate ? 0.2 : 0)),
+    });
+
+    if (obligations.length >= MAX_EXTRACTED_OBLIGATIONS) break;
+  }
+
+  // The analyzed payment schedule is a payment obligation even when the text has none
+  const schedule = source.paymentSchedule?.trim();
+  if (schedule && !obligations.some(obligation => obligation.type === "payment")) {
+    const recurrence = detectRecurrence(schedule);
+    const dueDate = resolveDueDate(schedule, recurrence, source, now);
+    obligations.push({
+      title: toTitle(`Payment: ${schedule}`),
+      type: "payment",
+      ownerParty: "enterprise",
+      ...(dueDate ? { dueDate } : {}),
+      ...(recurrence ? { recurrence } : {}),
+      evidenceRequired: "Proof of payment",
+      sourceText: schedule,
+      confidence: 0.5,
+    });
+  }
+
+  return obligations;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s*\n\s*\n\s*/g, "\n")
+    .split(/(?<=[.;])\s+(?=[A-Z(0-9])|\n/)
+    .map(sentence => sentence.replace(/\s+/g, " ").trim())
+    .filter(sentence => sentence.length >= 20 && sentence.length <= 800);
+}
+
+function toTitle(sentence: string): string {
+  const clean = sentence.replace(/^\(?\d+(\.\d+)*\)?\.?\s+/, "").replace(/[.;]$/, "");
+  if (clean.length <= MAX_TITLE_LENGTH) return clean;
+  const cut = clean.slice(0, MAX_TITLE_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(" ") > 40 ? cut.lastIndexOf(" ") : MAX_TITLE_LENGTH)}…`;
+}
+
+function detectOwnerParty(sentence: string): { ownerParty: ObligationParty; explicit: boolean } {
+  // The party before the obligation verb owes it
+  const subject = sentence.slice(0, sentence.search(OBLIGATION_MODAL));
+  if (MUTUAL_PARTY.test(subject)) return { ownerParty: "mutual", explicit: true };
+  if (COUNTERPARTY.test(subject)) return { ownerParty: "counterparty", explicit: true };
+  if (ENTERPRISE_PARTY.test(subject)) return { ownerParty: "enterprise", explicit: true };
+  return { ownerParty: "counterparty", explicit: false };
+}
+
+function detectRecurrence(sentence: string): ObligationRecurrence | undefined {
+  return RECURRENCE_RULES.find(rule => rule.pattern.test(sentence))?.recurrence;
+}
+
+// "thirty (30) days" and "thirty days" both become "30 days"
+function normalizeNumbers(sentence: string): string {
+  return sentence
+    .replace(/\b[a-z-]+\s*\((\d+)\)/gi, "$1")
+    .replace(/\b(one|two|three|five|seven|ten|fourteen|fifteen|twenty|thirty|forty-five|forty|sixty|ninety)\b(?=\s+(calendar |business )?days?)/gi,
+      word => String(NUMBER_WORDS[word.toLowerCase()]));
+}
+
+function resolveDueDate(
+  sentence: string,
+  recurrence: ObligationRecurrence | undefined,
+  source: ObligationSource,
+  now: Date
+): string | undefined {
+  const text = normalizeNumbers(sentence);
+
+  const explicit = text.match(
+    /\b(?:by|before|on or before|no later than|until)\s+((?:january|february|march|april|may|june|july|august|september|october|november|december)\s+\d{1,2},?\s+\d{4}|\d{4}-\d{2}-\d{2})/i
+  );
+  if (explicit) {
+    const date = parseDate(explicit[1]!);
+    if (date) return toIsoDate(date);
+  }
+
+  const days = Number(text.match(/(\d+)\s+(?:calendar |business )?days?\b/i)?.[1] ?? NaN);
+  const start = parseDate(source.startDate);
+  const end = parseDate(source.endDate);
+
+  if (!Number.isNaN(days) && end && /\b(prior to|before)\b[^.]*\b(expir|end of the (initial |then-current )?term|renewal|termination date)/i.test(text)) {
+    return toIsoDate(addDays(end, -days));
+  }
+
+  if (recurrence) {
+    const base = start && start > now ? start : now;
+    const periodEnd = nextPeriodBoundary(base, recurrence, start);
+    const offset = !Number.isNaN(days) && /\b(within|after|following)\b/i.test(text) ? days : 0;
+    return toIsoDate(addDays(periodEnd, offset));
+  }
+
+  if (!Number.isNaN(days) && start && /\bwithin\b[^.]*\b(effective date|execution|signing|commencement|start date)/i.test(text)) {
+    return toIsoDate(addDays(start, days));
+  }
+
+  return undefined;
+}
+
+function nextPeriodBoundary(base: Date, recurrence: ObligationRecurrence, start: Date | null): Date {
+  const year = base.getUTCFullYear();
+  const month = base.getUTCMonth();
+  switch (recurrence) {
+    case "weekly":
+      return addDays(base, 7);
+    case "monthly":
+      return new Date(Date.UTC(year, month + 1, 1));
+    case "quarterly":
+      return new Date(Date.UTC(year, Math.floor(month / 3) * 3 + 3, 1));
+    case "annually": {
+      // Anniversary of the start date
+      const anchor = start ?? base;
+      const anniversary = new Date(Date.UTC(year, anchor.getUTCMonth(), anchor.getUTCDate()));
+      return anniversary > base ? anniversary : new Date(Date.UTC(year + 1, anchor.getUTCMonth(), anchor.getUTCDate()));
+    }
+  }
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const named = value.match(/^([a-z]+)\s+(\d{1,2}),?\s+(\d{4})$/i);
+  if (named) {
+    const month = MONTHS.indexOf(named[1]!.toLowerCase());
+    return month >= 0 ? new Date(Date.UTC(Number(named[3]), month, Number(named[2]))) : null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Due date of the occurrence after `dueDate` for a recurring obligation
+ */
+export function nextOccurrenceDate(dueDate: string, recurrence: ObligationRecurrence): string {
+  const date = parseDate(dueDate) ?? new Date(dueDate);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+  switch (recurrence) {
+    case "weekly":
+      return toIsoDate(addDays(date, 7));
+    case "monthly":
+      return toIsoDate(new Date(Date.UTC(year, month + 1, Math.min(day, daysInMonth(year, month + 1)))));
+    case "quarterly":
+      return toIsoDate(new Date(Date.UTC(year, month + 3, Math.min(day, daysInMonth(year, month + 3)))));
+    case "annually":
+      return toIsoDate(new Date(Date.UTC(year + 1, month, Math.min(day, daysInMonth(year + 1, month)))));
+  }
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Status of an open obligation at `now`: overdue once its due date has passed,
+ * due inside the reminder window, otherwise upcoming. Fulfilled and waived
+ * obligations keep their status.
+ */
+export function computeObligationStatus(
+  obligation: { status: ObligationStatus; dueDate?: string | undefined; reminderDaysBefore: number },
+  now: Date
+): ObligationStatus {
+  if (obligation.status === "fulfilled" || obligation.status === "waived") {
+    return obligation.status;
+  }
+
+  const due = parseDate(obligation.dueDate);
+  if (!due) return "upcoming";
+
+  if (now.getTime() >= due.getTime() + DAY_MS) return "overdue";
+  if (now.getTime() >= due.getTime() - obligation.reminderDaysBefore * DAY_MS) return "due";
+  return "upcoming";
+}
+
+/**
+ * Whether the owner should be reminded now: once when an obligation becomes
+ * due, and when it becomes overdue and every OVERDUE_REMINDER_INTERVAL_DAYS after
+ */
+export function isObligationReminderDue(
+  obligation: { status: ObligationStatus; lastReminderAt?: string | undefined; lastReminderStatus?: ObligationStatus | undefined },
+  now: Date
+): boolean {
+  if (obligation.status === "due") {
+    return obligation.lastReminderStatus !== "due" && obligation.lastReminderStatus !== "overdue";
+  }
+  if (obligation.status === "overdue") {
+    if (obligation.lastReminderStatus !== "overdue" || !obligation.lastReminderAt) return true;
+    return now.getTime() - new Date(obligation.lastReminderAt).getTime() >= OVERDUE_REMINDER_INTERVAL_DAYS * DAY_MS;
+  }
+  return false;
+}
+
+/**
+ * Apply an overdue-obligation penalty to a vendor's compliance score (unset
+ * scores start at 100). Returns the new score and how much was actually taken
+ * off, which is what gets restored once the obligation is resolved.
+ */
+export function applyCompliancePenalty(
+  score: number | undefined,
+  penalty: number = OVERDUE_COMPLIANCE_PENALTY
+): { score: number; applied: number } {
+  const current = score ?? 100;
+  const next = Math.max(0, current - penalty);
+  return { score: next, applied: current - next };
+}
@@ -0,0 +1,620 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, mutation, MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
+import { getContractDocumentText } from "../documents/contractTexts";
+import { emitWebhookEvent } from "../integrations/webhookEvents";
+import { VENDOR_SCORE_ALERT_THRESHOLD } from "../core/vendors/vendors";
+import {
+  ObligationStatus,
+  obligationPartyOptions,
+  obligationRecurrenceOptions,
+  obligationStatusOptions,
+  obligationTypeOptions,
+} from "../schema";
+import {
+  MAX_REMINDER_DAYS_BEFORE,
+  applyCompliancePenalty,
+  computeObligationStatus,
+  extractObligations,
+  isObligationReminderDue,
+  nextOccurrenceDate,
+} from "./obligationExtraction";
+import { getNotificationRules } from "../consolidation/policies";
+import { appendAuditLog } from "../auditLogging";
+
+/**
+ * Contract Obligations
+ *
+ * Tracks what each party owes under a contract: extracted from the contract
+ * once it is analyzed, or added by hand. The secretary agent refreshes statuses
+ * and queues reminders (delivered by the notifications agent); overdue
+ * counterparty obligations count against the vendor's complianceScore until
+ * they are fulfilled or waived.
+ */
+
+const OPEN_STATUSES: ObligationStatus[] = ["upcoming", "due", "overdue"];
+const REFRESH_BATCH_SIZE = 100;
+
+const obligationTypeValidator = v.union(...obligationTypeOptions.map(option => v.literal(option)));
+const obligationPartyValidator = v.union(...obligationPartyOptions.map(option => v.literal(option)));
+const obligationRecurrenceValidator = v.union(...obligationRecurrenceOptions.map(option => v.literal(option)));
+
+/**
+ * Extract obligations from a contract's text (or, before text extraction has
+ * finished, its analyzed scope) and replace earlier extracted obligations
+ * nobody has picked up yet. Obligations that are assigned, have evidence or
+ * are closed are kept, as are manual ones.
+ */
+export async function extractContractObligations(
+  ctx: MutationCtx,
+  contractId: Id<"contracts">
+): Promise<{ created: number; removed: number }> {
+  const contract = await ctx.db.get(contractId);
+  if (!contract) return { created: 0, removed: 0 };
+
+  const text = (await getContractDocumentText(ctx, contractId)) ?? contract.extractedScope ?? "";
+  const extracted = extractObligations(
+    {
+      text,
+      paymentSchedule: contract.extractedPaymentSchedule,
+      startDate: contract.extractedStartDate ?? contract.startDate,
+      endDate: contract.extractedEndDate ?? contract.endDate,
+    },
+    new Date()
+  );
+
+  const existing = await ctx.db
+    .query("obligations")
+    .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+    .collect();
+
+  let removed = 0;
+  const kept = new Set<string>();
+  for (const obligation of existing) {
+    if (obligation.source !== "extracted") continue;
+    const untouched = OPEN_STATUSES.includes(obligation.status) && !obligation.assignedTo && !obligation.evidence?.length;
+    if (untouched && !extracted.some(item => item.sourceText === obligation.sourceText)) {
+      await resolveCompliancePenalty(ctx, obligation);
+      await ctx.db.delete(obligation._id);
+      removed++;
+    } else if (obligation.sourceText) {
+      kept.add(obligation.sourceText);
+    }
+  }
+
+  const now = new Date();
+  const { obligationReminderDaysBefore } = await getNotificationRules(ctx, contract.enterpriseId);
+  let created = 0;
+  for (const item of extracted) {
+    if (kept.has(item.sourceText)) continue;
+
+    await ctx.db.insert("obligations", {
+      enterpriseId: contract.enterpriseId,
+      contractId,
+      ...(contract.vendorId ? { vendorId: contract.vendorId } : {}),
+      ...item,
+      status: computeObligationStatus(
+        { status: "upcoming", dueDate: item.dueDate, reminderDaysBefore: obligationReminderDaysBefore },
+        now
+      ),
+      source: "extracted",
+      reminderDaysBefore: obligationReminderDaysBefore,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    });
+    created++;
+  }
+
+  return { created, removed };
+}
+
+export async function deleteContractObligations(ctx: MutationCtx, contractId: Id<"contracts">): Promise<void> {
+  const obligations = await ctx.db
+    .query("obligations")
+    .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+    .collect();
+
+  for (const obligation of obligations) {
+    await resolveCompliancePenalty(ctx, obligation);
+    await ctx.db.delete(obligation._id);
+  }
+}
+
+/**
+ * Move open obligations to their current status, apply compliance penalties
+ * for newly overdue vendor obligations and queue owner reminders. Run by the
+ * secretary agent.
+ */
+export async function refreshObligationStatuses(
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  enterpriseId: Id<"enterprises">
+): Promise<{ statusChanges: number; remindersQueued: number }> {
+  const now = new Date();
+  const horizon = new Date(now.getTime() + MAX_REMINDER_DAYS_BEFORE * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const byStatus = (status: Doc<"obligations">["status"]) => ctx.db
+    .query("obligations")
+    .withIndex("by_enterprise_status_due", (q) => q.eq("enterpriseId", enterpriseId).eq("status", status));
+
+  const candidates = [
+    ...(await ctx.db
+      .query("obligations")
+      .withIndex("by_enterprise_status_due", (q) =>
+        q.eq("enterpriseId", enterpriseId).eq("status", "upcoming").gt("dueDate", "").lte("dueDate", horizon))
+      .take(REFRESH_BATCH_SIZE)),
+    ...(await byStatus("due").take(REFRESH_BATCH_SIZE)),
+    ...(await byStatus("overdue").take(REFRESH_BATCH_SIZE)),
+  ];
+
+  let statusChanges = 0;
+  let remindersQueued = 0;
+
+  for (const obligation of candidates) {
+    const status = computeObligationStatus(obligation, now);
+    if (status !== obligation.status) {
+      await ctx.db.patch(obligation._id, { status, updatedAt: now.toISOString() });
+      statusChanges++;
+
+      if (status === "overdue") {
+        await applyVendorCompliancePenalty(ctx, obligation);
+      }
+    }
+
+    if (isObligationReminderDue({ ...obligation, status }, now)) {
+      await queueObligationReminder(ctx, { ...obligation, status });
+      await ctx.db.patch(obligation._id, { lastReminderAt: now.toISOString(), lastReminderStatus: status });
+      remindersQueued++;
+    }
+  }
+
+  if (statusChanges > 0 || remindersQueued > 0) {
+    await ctx.db.insert("agentLogs", {
+      agentId,
+      enterpriseId,
+      level: "info",
+      message: `Obligations refreshed: ${statusChanges} status change(s), ${remindersQueued} reminder(s) queued`,
+      timestamp: now.toISOString(),
+      category: "obligations",
+    });
+  }
+
+  return { statusChanges, remindersQueued };
+}
+
+// Reminder to the obligation's assignee, falling back to the contract owner or
+// creator; scheduled for now so the notifications agent delivers it
+async function queueObligationReminder(ctx: MutationCtx, obligation: Doc<"obligations">): Promise<void> {
+  const contract = await ctx.db.get(obligation.contractId);
+  const recipientId = obligation.assignedTo ?? contract?.ownerId ?? contract?.createdBy;
+  if (!contract || !recipientId) return;
+
+  const overdue = obligation.status === "overdue";
+  const now = new Date().toISOString();
+  await ctx.db.insert("notifications", {
+    recipientId,
+    type: "obligation_reminder",
+    title: overdue ? `Obligation overdue: ${obligation.title}` : `Obligation due: ${obligation.title}`,
+    message: `${contract.title}: "${obligation.title}" ${overdue ? "was" : "is"} due on ${obligation.dueDate}.${
+      obligation.evidenceRequired ? ` Evidence required: ${obligation.evidenceRequired}.` : ""
+    }`,
+    priority: overdue ? "high" : "medium",
+    channels: ["in_app", "email"],
+    status: "scheduled",
+    scheduledFor: now,
+    isRead: false,
+    retryCount: 0,
+    contractId: contract._id,
+    ...(obligation.vendorId ? { vendorId: obligation.vendorId } : {}),
+    metadata: { obligationId: obligation._id, dueDate: obligation.dueDate, status: obligation.status },
+    actionUrl: `/dashboard/contracts/${contract._id}`,
+    createdAt: now,
+  });
+}
+
+async function applyVendorCompliancePenalty(ctx: MutationCtx, obligation: Doc<"obligations">): Promise<void> {
+  if (!obligation.vendorId || obligation.ownerParty === "enterprise" || obligation.compliancePenalty) return;
+
+  const vendor = await ctx.db.get(obligation.vendorId);
+  if (!vendor) return;
+
+  const { score, applied } = applyCompliancePenalty(vendor.complianceScore);
+  await ctx.db.patch(vendor._id, { complianceScore: score, updatedAt: Date.now() });
+  await ctx.db.patch(obligation._id, { compliancePenalty: applied });
+
+  // Same threshold-crossing alert as a manual score change
+  const previous = vendor.complianceScore ?? 100;
+  if (score < VENDOR_SCORE_ALERT_THRESHOLD && previous >= VENDOR_SCORE_ALERT_THRESHOLD) {
+    await emitWebhookEvent(ctx, {
+      type: "vendor.performance_alert",
+      enterpriseId: vendor.enterpriseId,
+      data: {
+        vendorId: vendor._id,
+        name: vendor.name,
+        threshold: VENDOR_SCORE_ALERT_THRESHOLD,
+        scores: { complianceScore: score },
+        obligationId: obligation._id,
+      },
+      previous: { complianceScore: previous },
+    });
+  }
+}
+
+// Give back the compliance points an overdue obligation cost its vendor
+async function resolveCompliancePenalty(ctx: MutationCtx, obligation: Doc<"obligations">): Promise<void> {
+  if (!obligation.vendorId || !obligation.compliancePenalty) return;
+
+  const vendor = await ctx.db.get(obligation.vendorId);
+  if (vendor) {
+    await ctx.db.patch(vendor._id, {
+      complianceScore: Math.min(100, (vendor.complianceScore ?? 100) + obligation.compliancePenalty),
+      updatedAt: Date.now(),
+    });
+  }
+  await ctx.db.patch(obligation._id, { compliancePenalty: 0 });
+}
+
+async function getAccessibleObligation(ctx: MutationCtx, obligationId: Id<"obligations">) {
+  const securityContext = await getSecurityContext(ctx);
+
+  const obligation = await ctx.db.get(obligationId);
+  if (!obligation || obligation.enterpriseId !== securityContext.enterpriseId) {
+    throw new ConvexError("Obligation not found or access denied");
+  }
+  requirePermission(securityContext, "obligations.manage");
+
+  return { securityContext, obligation };
+}
+
+function assertOpen(obligation: Doc<"obligations">) {
+  if (!OPEN_STATUSES.includes(obligation.status)) {
+    throw new ConvexError(`Obligation is already ${obligation.status}`);
+  }
+}
+
+function validateReminderDays(days: number | undefined) {
+  if (days !== undefined && (!Number.isInteger(days) || days < 0 || days > MAX_REMINDER_DAYS_BEFORE)) {
+    throw new ConvexError(`Reminder days must be a whole number between 0 and ${MAX_REMINDER_DAYS_BEFORE}`);
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export const listObligations = query({
+  args: {
+    contractId: v.optional(v.id("contracts")),
+    status: v.optional(v.union(...obligationStatusOptions.map(option => v.literal(option)))),
+    assignedToMe: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    let obligations: Doc<"obligations">[];
+    if (args.contractId) {
+      const contractId = args.contractId;
+      obligations = await ctx.db
+        .query("obligations")
+        .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+        .collect();
+    } else if (args.assignedToMe) {
+      obligations = await ctx.db
+        .query("obligations")
+        .withIndex("by_assignee_status", (q) => q.eq("assignedTo", securityContext.userId))
+        .collect();
+    } else {
+      const statuses = args.status ? [args.status] : OPEN_STATUSES;
+      obligations = (
+        await Promise.all(
+          statuses.map(status =>
+            ctx.db
+              .query("obligations")
+              .withIndex("by_enterprise_status", (q) => q.eq("enterpriseId", securityContext.enterpriseId).eq("status", status))
+              .collect()
+          )
+        )
+      ).flat();
+    }
+
+    return obligations
+      .filter(obligation =>
+        obligation.enterpriseId === securityContext.enterpriseId &&
+        (!args.status || obligation.status === args.status) &&
+        (!args.assignedToMe || obligation.assignedTo === securityContext.userId)
+      )
+      .sort((a, b) => (a.dueDate ?? "9999").localeCompare(b.dueDate ?? "9999"));
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+export const createObligation = mutation({
+  args: {
+    contractId: v.id("contracts"),
+    title: v.string(),
+    description: v.optional(v.string()),
+    type: obligationTypeValidator,
+    ownerParty: obligationPartyValidator,
+    dueDate: v.optional(v.string()),
+    recurrence: v.optional(obligationRecurrenceValidator),
+    evidenceRequired: v.optional(v.string()),
+    assignedTo: v.optional(v.id("users")),
+    reminderDaysBefore: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+    requirePermission(securityContext, "obligations.manage");
+    if (!args.title.trim()) {
+      throw new ConvexError("Obligation title cannot be empty");
+    }
+    if (args.dueDate !== undefined && Number.isNaN(new Date(args.dueDate).getTime())) {
+      throw new ConvexError("Invalid due date");
+    }
+    if (args.recurrence && !args.dueDate) {
+      throw new ConvexError("Recurring obligations need a first due date");
+    }
+    validateReminderDays(args.reminderDaysBefore);
+    if (args.assignedTo) {
+      await assertAssignable(ctx, args.assignedTo, securityContext.enterpriseId);
+    }
+
+    const now = new Date();
+    const reminderDaysBefore = args.reminderDaysBefore
+      ?? (await getNotificationRules(ctx, contract.enterpriseId)).obligationReminderDaysBefore;
+    const { contractId, ...fields } = args;
+    const obligationId = await ctx.db.insert("obligations", {
+      ...fields,
+      enterpriseId: contract.enterpriseId,
+      contractId,
+      ...(contract.vendorId ? { vendorId: contract.vendorId } : {}),
+      status: computeObligationStatus({ status: "upcoming", dueDate: args.dueDate, reminderDaysBefore }, now),
+      source: "manual",
+      reminderDaysBefore,
+      createdBy: securityContext.userId,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    });
+
+    return obligationId;
+  },
+});
+
+export const updateObligation = mutation({
+  args: {
+    obligationId: v.id("obligations"),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+    type: v.optional(obligationTypeValidator),
+    ownerParty: v.optional(obligationPartyValidator),
+    dueDate: v.optional(v.string()),
+    recurrence: v.optional(obligationRecurrenceValidator),
+    evidenceRequired: v.optional(v.string()),
+    reminderDaysBefore: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { obligation } = await getAccessibleObligation(ctx, args.obligationId);
+    assertOpen(obligation);
+
+    if (args.dueDate !== undefined && Number.isNaN(new Date(args.dueDate).getTime())) {
+      throw new ConvexError("Invalid due date");
+    }
+    validateReminderDays(args.reminderDaysBefore);
+
+    const { obligationId, ...updates } = args;
+    const updated = { ...obligation, ...updates };
+    const status = computeObligationStatus(updated, new Date());
+
+    await ctx.db.patch(obligationId, { ...updates, status, updatedAt: new Date().toISOString() });
+
+    // A new due date can take an obligation out of overdue
+    if (obligation.status === "overdue" && status !== "overdue") {
+      await resolveCompliancePenalty(ctx, obligation);
+    }
+
+    return { success: true, status };
+  },
+});
+
+async function assertAssignable(ctx: MutationCtx, userId: Id<"users">, enterpriseId: Id<"enterprises">) {
+  const user = await ctx.db.get(userId);
+  if (!user || user.enterpriseId !== enterpriseId || !user.isActive) {
+    throw new ConvexError("Assignee must be an active user in your enterprise");
+  }
+}
+
+export const assignObligation = mutation({
+  args: {
+    obligationId: v.id("obligations"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const { securityContext, obligation } = await getAccessibleObligation(ctx, args.obligationId);
+    assertOpen(obligation);
+    await assertAssignable(ctx, args.userId, securityContext.enterpriseId);
+
+    await ctx.db.patch(args.obligationId, { assignedTo: args.userId, updatedAt: new Date().toISOString() });
+
+    if (args.userId !== securityContext.userId) {
+      await ctx.db.insert("notifications", {
+        recipientId: args.userId,
+        type: "task_assigned",
+        title: `Obligation assigned: ${obligation.title}`,
+        message: obligation.dueDate
+          ? `You are responsible for "${obligation.title}", due on ${obligation.dueDate}.`
+          : `You are responsible for "${obligation.title}".`,
+        priority: "medium",
+        channels: ["in_app"],
+        status: "pending",
+        isRead: false,
+        retryCount: 0,
+        contractId: obligation.contractId,
+        metadata: { obligationId: obligation._id },
+        actionUrl: `/dashboard/contracts/${obligation.contractId}`,
+        createdAt: new Date().toISOString(),
+      });
+    }
+
+    return { success: true };
+  },
+});
+
+export const submitObligationEvidence = mutation({
+  args: {
+    obligationId: v.id("obligations"),
+    note: v.string(),
+    storageId: v.optional(v.id("_storage")),
+  },
+  handler: async (ctx, args) => {
+    const { securityContext, obligation } = await getAccessibleObligation(ctx, args.obligationId);
+    assertOpen(obligation);
+
+    if (!args.note.trim() && !args.storageId) {
+      throw new ConvexError("Evidence needs a note or an attached file");
+    }
+
+    await ctx.db.patch(args.obligationId, {
+      evidence: [
+        ...(obligation.evidence ?? []),
+        {
+          note: args.note,
+          ...(args.storageId ? { storageId: args.storageId } : {}),
+          submittedBy: securityContext.userId,
+          submittedAt: new Date().toISOString(),
+        },
+      ],
+      updatedAt: new Date().toISOString(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Mark an obligation fulfilled. Obligations that require evidence need some
+ * on file. Recurring obligations roll forward to their next occurrence while
+ * the contract runs.
+ */
+export const fulfillObligation = mutation({
+  args: {
+    obligationId: v.id("obligations"),
+  },
+  handler: async (ctx, args) => {
+    const { securityContext, obligation } = await getAccessibleObligation(ctx, args.obligationId);
+    assertOpen(obligation);
+
+    if (obligation.evidenceRequired && !obligation.evidence?.length) {
+      throw new ConvexError(`Evidence is required before fulfilling: ${obligation.evidenceRequired}`);
+    }
+
+    const now = new Date();
+    await ctx.db.patch(args.obligationId, {
+      status: "fulfilled",
+      completedAt: now.toISOString(),
+      completedBy: securityContext.userId,
+      updatedAt: now.toISOString(),
+    });
+    await resolveCompliancePenalty(ctx, obligation);
+
+    let nextOccurrenceId: Id<"obligations"> | null = null;
+    if (obligation.recurrence && obligation.dueDate) {
+      const contract = await ctx.db.get(obligation.contractId);
+      const contractEnd = contract?.extractedEndDate ?? contract?.endDate;
+      const dueDate = nextOccurrenceDate(obligation.dueDate, obligation.recurrence);
+
+      if (!contractEnd || dueDate <= contractEnd.slice(0, 10)) {
+        nextOccurrenceId = await ctx.db.insert("obligations", {
+          enterpriseId: obligation.enterpriseId,
+          contractId: obligation.contractId,
+          ...(obligation.vendorId ? { vendorId: obligation.vendorId } : {}),
+          title: obligation.title,
+          ...(obligation.description ? { description: obligation.description } : {}),
+          type: obligation.type,
+          ownerParty: obligation.ownerParty,
+          dueDate,
+          recurrence: obligation.recurrence,
+          ...(obligation.evidenceRequired ? { evidenceRequired: obligation.evidenceRequired } : {}),
+          ...(obligation.assignedTo ? { assignedTo: obligation.assignedTo } : {}),
+          status: computeObligationStatus({ status: "upcoming", dueDate, reminderDaysBefore: obligation.reminderDaysBefore }, now),
+          // Manual so re-extraction does not treat the occurrence as a duplicate
+          source: "manual",
+          ...(obligation.sourceText ? { sourceText: obligation.sourceText } : {}),
+          reminderDaysBefore: obligation.reminderDaysBefore,
+          previousOccurrenceId: obligation._id,
+          createdBy: securityContext.userId,
+          createdAt: now.toISOString(),
+          updatedAt: now.toISOString(),
+        });
+      }
+    }
+
+    return { success: true, nextOccurrenceId };
+  },
+});
+
+export const waiveObligation = mutation({
+  args: {
+    obligationId: v.id("obligations"),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { securityContext, obligation } = await getAccessibleObligation(ctx, args.obligationId);
+    assertOpen(obligation);
+
+    requirePermission(securityContext, "obligations.waive");
+    if (!args.reason.trim()) {
+      throw new ConvexError("A reason is required to waive an obligation");
+    }
+
+    await ctx.db.patch(args.obligationId, {
+      status: "waived",
+      waiverReason: args.reason,
+      completedAt: new Date().toISOString(),
+      completedBy: securityContext.userId,
+      updatedAt: new Date().toISOString(),
+    });
+    await resolveCompliancePenalty(ctx, obligation);
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "waiveObligation",
+      resourceType: "obligations",
+      resourceId: args.obligationId,
+      action: "update",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: { title: obligation.title, reason: args.reason },
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Re-run obligation extraction for a contract, e.g. after its text changed
+ */
+export const extractObligationsForContract = mutation({
+  args: {
+    contractId: v.id("contracts"),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+    requirePermission(securityContext, "obligations.manage");
+
+    return await extractContractObligations(ctx, args.contractId);
+  },
+});
@@ -5,6 +5,7 @@ import { Id, Doc } from "../_generated/dataModel";
 import { ConvexError } from "convex/values";
 import { triggerContractEvents } from "../realtime/realtimeHelpers";
 import { rateLimitHelpers } from "../security/applyRateLimit";
+import { assertManualStatusChangeAllowed } from "../workflows/approvalWorkflowEngine";
 
 // Contract type options (matching schema.ts)
 const contractTypeOptions = [
@@ -13,7 +14,7 @@ const contractTypeOptions = [
 
 // Contract status options (matching schema.ts)
 const contractStatusOptions = [
-  "draft", "pending_analysis", "active", "expired", "terminated", "archived",
+  "draft", "pending_analysis", "pending_approval", "active", "expired", "terminated", "archived",
 ] as const;
 
 /**
@@ -225,6 +226,8 @@ export const bulkUpdateContractStatus = mutation({
         if (!contract) return { id: batch[idx], success: false, error: "Not found" };
 
         try {
+          assertManualStatusChangeAllowed(contract.status, args.newStatus);
+
           // Update contract
           await ctx.db.patch(contract._id, {
             status: args.newStatus,
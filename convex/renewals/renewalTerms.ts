@@ -0,0 +1,177 @@
+import { ConvexError } from "convex/values";
+
+/**
+ * Contract renewal rules
+ *
+ * Finds the renewal terms in contract text (auto-renewal, renewal term length,
+ * the notice needed to cancel), works out the last day to give notice, and
+ * decides which escalating reminder is due. Pure so it can be unit tested;
+ * persistence lives in `renewals.ts`.
+ */
+
+export interface ExtractedRenewalTerms {
+  isAutoRenew?: boolean;
+  renewalTermMonths?: number;
+  noticePeriodDays?: number;
+  sourceText?: string; // Sentence the notice period was taken from
+}
+
+// Days before the cancellation deadline the renewal owner is reminded
+export const DEFAULT_RENEWAL_REMINDER_OFFSETS = [90, 60, 30, 14, 7, 1];
+// From this many days out, reminders are copied to the enterprise's managers
+export const RENEWAL_ESCALATION_DAYS = 7;
+// Renewal term assumed for auto-renewing contracts that don't state one
+export const DEFAULT_RENEWAL_TERM_MONTHS = 12;
+
+const MAX_REMINDER_OFFSETS = 10;
+export const MAX_REMINDER_OFFSET_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const AUTO_RENEWAL = /\b(automatically|auto-?)\s*renew|\brenew(s|ed)?\s+automatically\b|\bevergreen\b/i;
+const RENEWAL_TERM = /\brenew\w*\b[^.]*?\bfor\s+(?:an?\s+)?(?:successive|additional|consecutive|further|subsequent)?\s*(?:renewal\s+)?(?:terms?\s+of\s+|periods?\s+of\s+)?(\d+)[-\s](years?|months?)\b/i;
+const NOTICE_PERIOD = /\b(\d+)\s+(?:calendar\s+)?(days?|months?)['’]?\s+(?:(?:prior|advance|advanced)\s+)?(?:written\s+)?notice\b|\bnotice\b[^.]*?\b(?:at least|no less than|not less than|a minimum of)?\s*(\d+)\s+(?:calendar\s+)?(days?|months?)\s+(?:prior to|before|in advance of)\b/i;
+const NOTICE_PURPOSE = /\b(non-?renewal|not to renew|not renew|elect(s|ing)? not|terminat|cancel|opt[- ]out)/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, ten: 10, twelve: 12, fourteen: 14, fifteen: 15,
+  twenty: 20, thirty: 30, forty: 40, "forty-five": 45, sixty: 60, ninety: 90, "one hundred twenty": 120,
+};
+
+/**
+ * Read auto-renewal, the renewal term and the notice period from contract
+ * text. Notice given in months is converted at 30 days a month.
+ */
+export function extractRenewalTerms(text: string): ExtractedRenewalTerms {
+  const terms: ExtractedRenewalTerms = {};
+  const sentences = splitSentences(text);
+
+  for (const sentence of sentences) {
+    const normalized = normalizeNumbers(sentence);
+
+    if (terms.isAutoRenew === undefined && AUTO_RENEWAL.test(normalized)) {
+      terms.isAutoRenew = true;
+    }
+
+    if (terms.renewalTermMonths === undefined) {
+      const term = normalized.match(RENEWAL_TERM);
+      if (term) {
+        terms.renewalTermMonths = Number(term[1]) * (/^year/i.test(term[2]!) ? 12 : 1);
+      }
+    }
+
+    if (terms.noticePeriodDays === undefined && NOTICE_PURPOSE.test(normalized)) {
+      const notice = normalized.match(NOTICE_PERIOD);
+      if (notice) {
+        const amount = Number(notice[1] ?? notice[3]);
+        const unit = notice[2] ?? notice[4]!;
+        terms.noticePeriodDays = /^month/i.test(unit) ? amount * 30 : amount;
+        terms.sourceText = sentence;
+      }
+    }
+  }
+
+  return terms;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s*\n\s*\n\s*/g, "\n")
+    .split(/(?<=[.;])\s+(?=[A-Z(0-9])|\n/)
+    .map(sentence => sentence.replace(/\s+/g, " ").trim())
+    .filter(sentence => sentence.length >= 20 && sentence.length <= 1200);
+}
+
+// "ninety (90) days" and "ninety days" both become "90 days"
+function normalizeNumbers(sentence: string): string {
+  return sentence
+    .replace(/\b[a-z-]+\s*\((\d+)\)/gi, "$1")
+    .replace(/\b(one hundred twenty|forty-five|one|two|three|four|five|six|seven|ten|twelve|fourteen|fifteen|twenty|thirty|forty|sixty|ninety)\b(?=[-\s]+(calendar\s+)?(days?|months?|years?)\b)/gi,
+      word => String(NUMBER_WORDS[word.toLowerCase()]));
+}
+
+/**
+ * Last day notice can be given: the term end date less the notice period, or
+ * the term end date itself when the contract has no notice period.
+ */
+export function computeCancellationDeadline(termEndDate: string, noticePeriodDays?: number): string {
+  const end = toUtcDate(termEndDate);
+  return toIsoDate(new Date(end.getTime() - (noticePeriodDays ?? 0) * DAY_MS));
+}
+
+/**
+ * End date of the next term for an auto-renewing contract
+ */
+export function nextTermEndDate(termEndDate: string, renewalTermMonths: number = DEFAULT_RENEWAL_TERM_MONTHS): string {
+  const end = toUtcDate(termEndDate);
+  const year = end.getUTCFullYear();
+  const month = end.getUTCMonth() + renewalTermMonths;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return toIsoDate(new Date(Date.UTC(year, month, Math.min(end.getUTCDate(), lastDay))));
+}
+
+/**
+ * Whole days from `now` to the cancellation deadline; 0 on the deadline
+ * itself, negative once it has passed.
+ */
+export function daysUntilDeadline(cancellationDeadline: string, now: Date): number {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return Math.round((toUtcDate(cancellationDeadline).getTime() - today) / DAY_MS);
+}
+
+/**
+ * The reminder to send now, if any. Every offset the deadline has come within
+ * counts as reached; only the most urgent unsent one is returned, so a renewal
+ * created late gets one reminder rather than a burst.
+ */
+export function dueRenewalReminder(
+  renewal: { cancellationDeadline: string; reminderOffsets: number[]; remindersSent: number[] },
+  now: Date
+): { offset: number; daysLeft: number; reached: number[] } | null {
+  const daysLeft = daysUntilDeadline(renewal.cancellationDeadline, now);
+  if (daysLeft < 0) return null;
+
+  const reached = renewal.reminderOffsets.filter(offset => daysLeft <= offset);
+  const unsent = reached.filter(offset => !renewal.remindersSent.includes(offset));
+  if (unsent.length === 0) return null;
+
+  return { offset: Math.min(...unsent), daysLeft, reached };
+}
+
+/**
+ * Reminders grow more urgent as the deadline nears; the last week's reminders
+ * also go to the enterprise's managers.
+ */
+export function renewalReminderEscalation(daysLeft: number): {
+  priority: "low" | "medium" | "high" | "critical";
+  escalate: boolean;
+} {
+  const priority = daysLeft <= 1 ? "critical" : daysLeft <= RENEWAL_ESCALATION_DAYS ? "high" : daysLeft <= 30 ? "medium" : "low";
+  return { priority, escalate: daysLeft <= RENEWAL_ESCALATION_DAYS };
+}
+
+/**
+ * Check reminder offsets and return them most distant first
+ */
+export function normalizeReminderOffsets(offsets: number[]): number[] {
+  if (offsets.length === 0 || offsets.length > MAX_REMINDER_OFFSETS) {
+    throw new ConvexError(`Provide between 1 and ${MAX_REMINDER_OFFSETS} reminder offsets`);
+  }
+  for (const offset of offsets) {
+    if (!Number.isInteger(offset) || offset < 0 || offset > MAX_REMINDER_OFFSET_DAYS) {
+      throw new ConvexError(`Reminder offsets must be whole numbers of days between 0 and ${MAX_REMINDER_OFFSET_DAYS}`);
+    }
+  }
+  return [...new Set(offsets)].sort((a, b) => b - a);
+}
+
+function toUtcDate(value: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ConvexError(`Invalid date: ${value}`);
+  }
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,641 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, mutation, internalMutation, MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { getSecurityContext, hasPermission, requirePermission } from "../security/rowLevelSecurity";
+import { getContractDocumentText } from "../documents/contractTexts";
+import { withoutFields } from "../lib/documentFields";
+import { emitWebhookEvent } from "../integrations/webhookEvents";
+import { computeObligationStatus } from "../obligations/obligationExtraction";
+import { getNotificationRules } from "../consolidation/policies";
+import {
+  DEFAULT_RENEWAL_TERM_MONTHS,
+  MAX_REMINDER_OFFSET_DAYS,
+  computeCancellationDeadline,
+  daysUntilDeadline,
+  dueRenewalReminder,
+  extractRenewalTerms,
+  nextTermEndDate,
+  normalizeReminderOffsets,
+  renewalReminderEscalation,
+} from "./renewalTerms";
+import { appendAuditLog } from "../auditLogging";
+
+/**
+ * Contract Renewals
+ *
+ * Keeps each active contract's notice period and "last day to cancel" date,
+ * and tracks one renewal decision per contract term. A daily job sends the
+ * decision owner escalating reminders ahead of the cancellation deadline;
+ * auto-renewing contracts roll into their next term at the end date unless the
+ * decision was to terminate.
+ */
+
+const MAX_NOTICE_PERIOD_DAYS = 730;
+// How far back the calendar shows renewals whose deadline has passed
+const CALENDAR_LOOKBACK_DAYS = 30;
+const CALENDAR_LOOKAHEAD_DAYS = 365;
+
+const renewalDecisionValidator = v.union(v.literal("renew"), v.literal("renegotiate"), v.literal("terminate"));
+
+/**
+ * Bring a contract's renewal tracking up to date: optionally re-read its
+ * renewal terms from the document text (never over a manually entered notice
+ * period), recompute the cancellation deadline and open or update the renewal
+ * for the current term. Contracts without an end date, or that are no longer
+ * active, are left alone.
+ */
+export async function syncContractRenewal(
+  ctx: MutationCtx,
+  contractId: Id<"contracts">,
+  options: { extract?: boolean } = {}
+): Promise<Id<"contractRenewals"> | null> {
+  let contract = await ctx.db.get(contractId);
+  if (!contract) return null;
+
+  if (options.extract && contract.noticePeriodSource !== "manual") {
+    const text = (await getContractDocumentText(ctx, contractId)) ?? "";
+    const terms = extractRenewalTerms(text);
+    const updates: Partial<Doc<"contracts">> = {};
+    if (terms.isAutoRenew && !contract.isAutoRenew) updates.isAutoRenew = true;
+    if (terms.renewalTermMonths !== undefined) updates.renewalTermMonths = terms.renewalTermMonths;
+    if (terms.noticePeriodDays !== undefined) {
+      updates.noticePeriodDays = terms.noticePeriodDays;
+      updates.noticePeriodSource = "extracted";
+    }
+    if (Object.keys(updates).length > 0) {
+      await ctx.db.patch(contractId, updates);
+      contract = { ...contract, ...updates };
+    }
+  }
+
+  const termEndDate = contract.extractedEndDate ?? contract.endDate;
+  if (!termEndDate || contract.status !== "active" || Number.isNaN(new Date(termEndDate).getTime())) {
+    return null;
+  }
+
+  const termEnd = termEndDate.slice(0, 10);
+  const cancellationDeadline = computeCancellationDeadline(termEnd, contract.noticePeriodDays);
+  if (contract.cancellationDeadline !== cancellationDeadline) {
+    await ctx.db.patch(contractId, { cancellationDeadline });
+  }
+
+  const now = new Date();
+  const current = await getCurrentRenewal(ctx, contractId);
+  const terms = {
+    termEndDate: termEnd,
+    cancellationDeadline,
+    ...(contract.noticePeriodDays !== undefined ? { noticePeriodDays: contract.noticePeriodDays } : {}),
+    isAutoRenew: contract.isAutoRenew ?? false,
+  };
+
+  if (current) {
+    const moved = current.termEndDate !== termEnd || current.cancellationDeadline !== cancellationDeadline;
+    if (moved || current.noticePeriodDays !== contract.noticePeriodDays || current.isAutoRenew !== terms.isAutoRenew) {
+      // A new deadline restarts the reminder schedule
+      await ctx.db.replace(current._id, {
+        ...withoutFields(current, ["noticePeriodDays"]),
+        ...terms,
+        ...(moved ? { remindersSent: [] } : {}),
+        ...(moved && current.status === "missed" && daysUntilDeadline(cancellationDeadline, now) >= 0 ? { status: "open" as const } : {}),
+        updatedAt: now.toISOString(),
+      });
+    }
+    return current._id;
+  }
+
+  const { renewalReminderOffsets } = await getNotificationRules(ctx, contract.enterpriseId);
+  return await ctx.db.insert("contractRenewals", {
+    enterpriseId: contract.enterpriseId,
+    contractId,
+    ...terms,
+    ...(contract.ownerId ? { ownerId: contract.ownerId } : {}),
+    status: daysUntilDeadline(cancellationDeadline, now) < 0 ? "missed" : "open",
+    decision: "pending",
+    reminderOffsets: renewalReminderOffsets,
+    remindersSent: [],
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  });
+}
+
+/**
+ * Roll an auto-renewing contract that has reached its end date into its next
+ * term, unless the renewal decision was to terminate. Returns whether the
+ * contract was renewed; callers expire it otherwise.
+ */
+export async function rollOverAutoRenewal(ctx: MutationCtx, contract: Doc<"contracts">): Promise<boolean> {
+  const termEndDate = contract.extractedEndDate ?? contract.endDate;
+  if (!contract.isAutoRenew || !termEndDate) return false;
+
+  const current = await getCurrentRenewal(ctx, contract._id);
+  if (current?.decision === "terminate") return false;
+
+  const nextEndDate = nextTermEndDate(termEndDate, contract.renewalTermMonths ?? DEFAULT_RENEWAL_TERM_MONTHS);
+  await ctx.db.patch(contract._id, {
+    extractedEndDate: nextEndDate,
+    ...(contract.endDate ? { endDate: nextEndDate } : {}),
+    updatedAt: Date.now(),
+  });
+
+  if (current) {
+    await ctx.db.patch(current._id, { status: "closed", updatedAt: new Date().toISOString() });
+  }
+  await syncContractRenewal(ctx, contract._id);
+
+  await emitWebhookEvent(ctx, {
+    type: "contract.renewed",
+    enterpriseId: contract.enterpriseId,
+    data: {
+      contractId: contract._id,
+      title: contract.title,
+      vendorId: contract.vendorId,
+      endDate: nextEndDate,
+      automatic: true,
+    },
+    previous: { endDate: termEndDate },
+  });
+
+  return true;
+}
+
+// The contract ended without renewing; nothing is left to decide
+export async function closeContractRenewal(ctx: MutationCtx, contractId: Id<"contracts">): Promise<void> {
+  const current = await getCurrentRenewal(ctx, contractId);
+  if (current) {
+    await ctx.db.patch(current._id, { status: "closed", updatedAt: new Date().toISOString() });
+  }
+}
+
+export async function deleteContractRenewals(ctx: MutationCtx, contractId: Id<"contracts">): Promise<void> {
+  const renewals = await ctx.db
+    .query("contractRenewals")
+    .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+    .collect();
+
+  for (const renewal of renewals) {
+    await ctx.db.delete(renewal._id);
+  }
+}
+
+async function getCurrentRenewal(ctx: MutationCtx, contractId: Id<"contracts">) {
+  const renewals = await ctx.db
+    .query("contractRenewals")
+    .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+    .collect();
+
+  return renewals.find(renewal => renewal.status !== "closed") ?? null;
+}
+
+async function getAccessibleRenewal(ctx: MutationCtx, renewalId: Id<"contractRenewals">) {
+  const securityContext = await getSecurityContext(ctx);
+
+  const renewal = await ctx.db.get(renewalId);
+  if (!renewal || renewal.enterpriseId !== securityContext.enterpriseId) {
+    throw new ConvexError("Renewal not found or access denied");
+  }
+  requirePermission(securityContext, "renewals.manage");
+  if (renewal.status === "closed") {
+    throw new ConvexError("This renewal's term has already ended");
+  }
+
+  return { securityContext, renewal };
+}
+
+// Renewal owner (falling back to the contract owner or creator), plus the
+// enterprise's owners and admins once the reminder escalates
+async function getReminderRecipients(
+  ctx: MutationCtx,
+  renewal: Doc<"contractRenewals">,
+  contract: Doc<"contracts">,
+  escalate: boolean
+): Promise<Id<"users">[]> {
+  const recipients = new Set<Id<"users">>();
+  const owner = renewal.ownerId ?? contract.ownerId ?? contract.createdBy;
+  if (owner) recipients.add(owner);
+
+  if (escalate) {
+    const users = await ctx.db
+      .query("users")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", renewal.enterpriseId))
+      .collect();
+    users
+      .filter(user => user.isActive && (user.role === "owner" || user.role === "admin"))
+      .forEach(user => recipients.add(user._id));
+  }
+
+  return [...recipients];
+}
+
+async function notifyRenewal(
+  ctx: MutationCtx,
+  recipients: Id<"users">[],
+  renewal: Doc<"contractRenewals">,
+  contract: Doc<"contracts">,
+  notification: { title: string; message: string; priority: "low" | "medium" | "high" | "critical" }
+): Promise<void> {
+  const now = new Date().toISOString();
+  for (const recipientId of recipients) {
+    await ctx.db.insert("notifications", {
+      recipientId,
+      type: "renewal_reminder",
+      ...notification,
+      channels: ["in_app", "email"],
+      status: "scheduled",
+      scheduledFor: now,
+      isRead: false,
+      retryCount: 0,
+      contractId: contract._id,
+      ...(contract.vendorId ? { vendorId: contract.vendorId } : {}),
+      metadata: {
+        renewalId: renewal._id,
+        cancellationDeadline: renewal.cancellationDeadline,
+        termEndDate: renewal.termEndDate,
+      },
+      actionUrl: `/dashboard/contracts/${contract._id}`,
+      createdAt: now,
+    });
+  }
+}
+
+function describeOutcome(renewal: Doc<"contractRenewals">): string {
+  return renewal.isAutoRenew
+    ? `it renews automatically on ${renewal.termEndDate}`
+    : `it expires on ${renewal.termEndDate}`;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Renewals with a cancellation deadline in the given range (by default the
+ * last 30 days through the next year), soonest first
+ */
+export const getRenewalCalendar = query({
+  args: {
+    from: v.optional(v.string()),
+    to: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const now = new Date();
+    const day = 24 * 60 * 60 * 1000;
+    const from = args.from ?? new Date(now.getTime() - CALENDAR_LOOKBACK_DAYS * day).toISOString().slice(0, 10);
+    const to = args.to ?? new Date(now.getTime() + CALENDAR_LOOKAHEAD_DAYS * day).toISOString().slice(0, 10);
+
+    const renewals = await ctx.db
+      .query("contractRenewals")
+      .withIndex("by_enterprise_deadline", (q) =>
+        q.eq("enterpriseId", securityContext.enterpriseId).gte("cancellationDeadline", from).lte("cancellationDeadline", to)
+      )
+      .collect();
+
+    const entries = await Promise.all(
+      renewals
+        .filter(renewal => renewal.status !== "closed")
+        .map(async (renewal) => {
+          const contract = await ctx.db.get(renewal.contractId);
+          if (!contract) return null;
+          const vendor = contract.vendorId ? await ctx.db.get(contract.vendorId) : null;
+          const owner = renewal.ownerId ? await ctx.db.get(renewal.ownerId) : null;
+
+          return {
+            ...renewal,
+            daysLeft: daysUntilDeadline(renewal.cancellationDeadline, now),
+            contract: { _id: contract._id, title: contract.title, value: contract.value },
+            vendorName: vendor?.name,
+            ownerName: owner ? [owner.firstName, owner.lastName].filter(Boolean).join(" ") || owner.email : undefined,
+          };
+        })
+    );
+
+    return entries.filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+  },
+});
+
+export const getContractRenewal = query({
+  args: { contractId: v.id("contracts") },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
+      return null;
+    }
+
+    const renewals = await ctx.db
+      .query("contractRenewals")
+      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+      .collect();
+
+    return {
+      noticePeriodDays: contract.noticePeriodDays,
+      noticePeriodSource: contract.noticePeriodSource,
+      cancellationDeadline: contract.cancellationDeadline,
+      isAutoRenew: contract.isAutoRenew ?? false,
+      renewalTermMonths: contract.renewalTermMonths,
+      current: renewals.find(renewal => renewal.status !== "closed") ?? null,
+      history: renewals.filter(renewal => renewal.status === "closed"),
+    };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Enter a contract's notice period by hand. Manual entries take precedence
+ * over the period extracted from the contract text.
+ */
+export const setContractNoticePeriod = mutation({
+  args: {
+    contractId: v.id("contracts"),
+    noticePeriodDays: v.number(),
+    isAutoRenew: v.optional(v.boolean()),
+    renewalTermMonths: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+    requirePermission(securityContext, "renewals.manage");
+    if (!Number.isInteger(args.noticePeriodDays) || args.noticePeriodDays < 0 || args.noticePeriodDays > MAX_NOTICE_PERIOD_DAYS) {
+      throw new ConvexError(`Notice period must be a whole number of days between 0 and ${MAX_NOTICE_PERIOD_DAYS}`);
+    }
+    if (args.renewalTermMonths !== undefined && (!Number.isInteger(args.renewalTermMonths) || args.renewalTermMonths < 1 || args.renewalTermMonths > 120)) {
+      throw new ConvexError("Renewal term must be a whole number of months between 1 and 120");
+    }
+
+    await ctx.db.patch(args.contractId, {
+      noticePeriodDays: args.noticePeriodDays,
+      noticePeriodSource: "manual",
+      ...(args.isAutoRenew !== undefined ? { isAutoRenew: args.isAutoRenew } : {}),
+      ...(args.renewalTermMonths !== undefined ? { renewalTermMonths: args.renewalTermMonths } : {}),
+      lastModifiedBy: securityContext.userId,
+      updatedAt: Date.now(),
+    });
+
+    const renewalId = await syncContractRenewal(ctx, args.contractId);
+    const updated = await ctx.db.get(args.contractId);
+
+    return { renewalId, cancellationDeadline: updated?.cancellationDeadline };
+  },
+});
+
+/**
+ * Go back to the notice period found in the contract text
+ */
+export const resetContractNoticePeriod = mutation({
+  args: { contractId: v.id("contracts") },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+    requirePermission(securityContext, "renewals.manage");
+
+    await ctx.db.replace(args.contractId, {
+      ...withoutFields(contract, ["noticePeriodDays", "noticePeriodSource"]),
+      lastModifiedBy: securityContext.userId,
+      updatedAt: Date.now(),
+    });
+
+    return await syncContractRenewal(ctx, args.contractId, { extract: true });
+  },
+});
+
+export const assignRenewalOwner = mutation({
+  args: {
+    renewalId: v.id("contractRenewals"),
+    ownerId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const { securityContext, renewal } = await getAccessibleRenewal(ctx, args.renewalId);
+    requirePermission(securityContext, "renewals.manage");
+
+    const owner = await ctx.db.get(args.ownerId);
+    if (!owner || owner.enterpriseId !== securityContext.enterpriseId || !owner.isActive) {
+      throw new ConvexError("Renewal owner must be an active user in your enterprise");
+    }
+
+    await ctx.db.patch(args.renewalId, { ownerId: args.ownerId, updatedAt: new Date().toISOString() });
+
+    const contract = await ctx.db.get(renewal.contractId);
+    if (contract && args.ownerId !== securityContext.userId) {
+      await ctx.db.insert("notifications", {
+        recipientId: args.ownerId,
+        type: "task_assigned",
+        title: `Renewal decision assigned: ${contract.title}`,
+        message: `Decide whether to renew, renegotiate or terminate "${contract.title}" by ${renewal.cancellationDeadline}.`,
+        priority: "medium",
+        channels: ["in_app"],
+        status: "pending",
+        isRead: false,
+        retryCount: 0,
+        contractId: contract._id,
+        metadata: { renewalId: renewal._id },
+        actionUrl: `/dashboard/contracts/${contract._id}`,
+        createdAt: new Date().toISOString(),
+      });
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Record the renew / renegotiate / terminate decision. Terminating or
+ * renegotiating means notice has to go out before the deadline, so that is
+ * tracked as an obligation on the contract; changing the decision to renew
+ * waives it again.
+ */
+export const recordRenewalDecision = mutation({
+  args: {
+    renewalId: v.id("contractRenewals"),
+    decision: renewalDecisionValidator,
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { securityContext, renewal } = await getAccessibleRenewal(ctx, args.renewalId);
+    if (renewal.ownerId !== securityContext.userId && !hasPermission(securityContext, "renewals.manage")) {
+      throw new ConvexError("Access denied: Only the renewal owner or a manager can decide this renewal");
+    }
+
+    const contract = await ctx.db.get(renewal.contractId);
+    if (!contract) {
+      throw new ConvexError("Contract not found");
+    }
+
+    const now = new Date();
+    const needsNotice = args.decision !== "renew";
+    let noticeObligationId = renewal.noticeObligationId;
+
+    const existingNotice = noticeObligationId ? await ctx.db.get(noticeObligationId) : null;
+    const noticeOpen = existingNotice && ["upcoming", "due", "overdue"].includes(existingNotice.status);
+
+    if (needsNotice && !noticeOpen && daysUntilDeadline(renewal.cancellationDeadline, now) >= 0) {
+      const assignee = renewal.ownerId ?? securityContext.userId;
+      const { obligationReminderDaysBefore } = await getNotificationRules(ctx, renewal.enterpriseId);
+      noticeObligationId = await ctx.db.insert("obligations", {
+        enterpriseId: renewal.enterpriseId,
+        contractId: contract._id,
+        ...(contract.vendorId ? { vendorId: contract.vendorId } : {}),
+        title: args.decision === "terminate" ? "Send notice of non-renewal" : "Send notice to renegotiate before renewal",
+        type: "notice",
+        ownerParty: "enterprise",
+        dueDate: renewal.cancellationDeadline,
+        evidenceRequired: "Copy of the notice sent",
+        assignedTo: assignee,
+        status: computeObligationStatus(
+          { status: "upcoming", dueDate: renewal.cancellationDeadline, reminderDaysBefore: obligationReminderDaysBefore },
+          now
+        ),
+        source: "manual",
+        reminderDaysBefore: obligationReminderDaysBefore,
+        createdBy: securityContext.userId,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      });
+    } else if (!needsNotice && existingNotice && noticeOpen) {
+      await ctx.db.patch(existingNotice._id, {
+        status: "waived",
+        waiverReason: "Renewal decision changed to renew",
+        completedAt: now.toISOString(),
+        completedBy: securityContext.userId,
+        updatedAt: now.toISOString(),
+      });
+    }
+
+    await ctx.db.patch(args.renewalId, {
+      decision: args.decision,
+      status: "decided",
+      decidedBy: securityContext.userId,
+      decidedAt: now.toISOString(),
+      ...(args.notes !== undefined ? { decisionNotes: args.notes.trim() } : {}),
+      ...(noticeObligationId ? { noticeObligationId } : {}),
+      ...(renewal.ownerId ? {} : { ownerId: securityContext.userId }),
+      updatedAt: now.toISOString(),
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "recordRenewalDecision",
+      resourceType: "contractRenewals",
+      resourceId: args.renewalId,
+      action: "update",
+      status: "success",
+      timestamp: now.toISOString(),
+      metadata: { contractId: contract._id, decision: args.decision, previousDecision: renewal.decision },
+    });
+
+    await emitWebhookEvent(ctx, {
+      type: "contract.renewal_decided",
+      enterpriseId: renewal.enterpriseId,
+      data: {
+        contractId: contract._id,
+        title: contract.title,
+        vendorId: contract.vendorId,
+        decision: args.decision,
+        cancellationDeadline: renewal.cancellationDeadline,
+        termEndDate: renewal.termEndDate,
+      },
+      previous: { decision: renewal.decision },
+    });
+
+    return { success: true, noticeObligationId };
+  },
+});
+
+export const updateRenewalReminders = mutation({
+  args: {
+    renewalId: v.id("contractRenewals"),
+    reminderOffsets: v.array(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { renewal } = await getAccessibleRenewal(ctx, args.renewalId);
+    const reminderOffsets = normalizeReminderOffsets(args.reminderOffsets);
+
+    await ctx.db.patch(args.renewalId, {
+      reminderOffsets,
+      remindersSent: renewal.remindersSent.filter(offset => reminderOffsets.includes(offset)),
+      updatedAt: new Date().toISOString(),
+    });
+
+    return { reminderOffsets };
+  },
+});
+
+// ============================================================================
+// SCHEDULED
+// ============================================================================
+
+/**
+ * Send the renewal reminders that are due and mark renewals whose deadline
+ * passed without a decision as missed. Runs daily.
+ */
+export const processRenewalReminders = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = new Date();
+    // No reminder is earlier than the largest allowed offset
+    const horizon = new Date(now.getTime() + MAX_REMINDER_OFFSET_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    const renewals = await ctx.db
+      .query("contractRenewals")
+      .withIndex("by_status_deadline", (q) => q.eq("status", "open").lte("cancellationDeadline", horizon))
+      .collect();
+
+    let remindersSent = 0;
+    let missed = 0;
+
+    for (const renewal of renewals) {
+      const contract = await ctx.db.get(renewal.contractId);
+      if (!contract) continue;
+
+      const daysLeft = daysUntilDeadline(renewal.cancellationDeadline, now);
+      if (daysLeft < 0) {
+        await ctx.db.patch(renewal._id, { status: "missed", updatedAt: now.toISOString() });
+        const recipients = await getReminderRecipients(ctx, renewal, contract, true);
+        await notifyRenewal(ctx, recipients, renewal, contract, {
+          title: `Cancellation deadline missed: ${contract.title}`,
+          message: `No renewal decision was recorded for "${contract.title}" before ${renewal.cancellationDeadline}; ${describeOutcome(renewal)}.`,
+          priority: "critical",
+        });
+        missed++;
+        continue;
+      }
+
+      const reminder = dueRenewalReminder(renewal, now);
+      if (!reminder) continue;
+
+      const { priority, escalate } = renewalReminderEscalation(reminder.daysLeft);
+      const recipients = await getReminderRecipients(ctx, renewal, contract, escalate);
+      const when = reminder.daysLeft === 0 ? "today" : `in ${reminder.daysLeft} day${reminder.daysLeft === 1 ? "" : "s"}`;
+      await notifyRenewal(ctx, recipients, renewal, contract, {
+        title: `Renewal decision due ${when}: ${contract.title}`,
+        message: `The last day to give notice on "${contract.title}" is ${renewal.cancellationDeadline}${
+          renewal.noticePeriodDays ? ` (${renewal.noticePeriodDays} days' notice)` : ""
+        }. Without notice, ${describeOutcome(renewal)}.`,
+        priority,
+      });
+
+      await ctx.db.patch(renewal._id, {
+        remindersSent: [...new Set([...renewal.remindersSent, ...reminder.reached])],
+        lastReminderAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      });
+      remindersSent += recipients.length;
+    }
+
+    return { renewalsChecked: renewals.length, remindersSent, missed };
+  },
+});
@@ -0,0 +1,506 @@
+import { v } from "convex/values";
+import { PaginationOptions, PaginationResult } from "convex/server";
+import { internalMutation, MutationCtx, QueryCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { Doc, Id } from "../_generated/dataModel";
+import { RetentionAction, RetentionDataType } from "../schema";
+import { appendAuditLog } from "../auditLogging";
+import { removeContract } from "../contracts";
+import { getActiveLegalHolds, recordHoldRefusal } from "../legalHolds/legalHolds";
+import { contractHoldSubject, findBlockingHolds, HoldSubject } from "../legalHolds/legalHoldRules";
+import {
+  contractRetentionStart,
+  describeRetentionRule,
+  isPastRetention,
+  RetentionRule,
+  retentionCutoff,
+  splitRemovablePrefix,
+} from "./retentionRules";
+
+/**
+ * Retention enforcement
+ *
+ * A daily job schedules one run per enterprise, rule and table. Each run
+ * handles a batch of records past the rule's retention and schedules itself
+ * for the next one. Records under legal hold are skipped and the refusal is
+ * recorded on the hold; every batch acted on is written to the audit log
+ * against the admin who enabled enforcement.
+ *
+ * The dry run reads the same candidates without acting on them, so what it
+ * reports is what enforcement would do.
+ */
+
+// Tables each data type covers
+export const RETENTION_TARGETS = {
+  contracts: ["contracts"],
+  auditLogs: ["auditLogs"],
+  chatSessions: ["chatSessions"],
+  agentLogs: ["agentLogs"],
+  memories: ["shortTermMemory", "longTermMemory"],
+  notifications: ["notifications"],
+} as const satisfies Record<RetentionDataType, readonly string[]>;
+
+export type RetentionTarget = typeof RETENTION_TARGETS[RetentionDataType][number];
+
+const retentionTargetOptions = Object.values(RETENTION_TARGETS).flat() as RetentionTarget[];
+
+const ENFORCEMENT_BATCH_SIZE = 100;
+
+// Notifications are found through their recipients
+const NOTIFICATION_RECIPIENTS_PER_BATCH = 20;
+
+// Records counted per table in a dry run
+export const DRY_RUN_LIMIT = 1000;
+
+const ANONYMIZED_MESSAGE = "[Removed by retention policy]";
+
+interface RetentionCandidate {
+  id: string;
+  subject: HoldSubject;
+  apply: (ctx: MutationCtx, action: RetentionAction) => Promise<void>;
+}
+
+interface CandidateBatch {
+  candidates: RetentionCandidate[];
+  // Where the next batch starts; null when there is nothing more
+  continueCursor: string | null;
+}
+
+// Enforcement pages through a table; the dry run reads up to a limit
+type Paging = PaginationOptions | { limit: number };
+
+interface PageableQuery<T> {
+  take(n: number): Promise<T[]>;
+  paginate(options: PaginationOptions): Promise<PaginationResult<T>>;
+}
+
+async function readPage<T>(query: PageableQuery<T>, paging: Paging): Promise<{ docs: T[]; continueCursor: string | null }> {
+  if ("limit" in paging) {
+    return { docs: await query.take(paging.limit), continueCursor: null };
+  }
+  const page = await query.paginate(paging);
+  return { docs: page.page, continueCursor: page.isDone ? null : page.continueCursor };
+}
+
+function pageSize(paging: Paging): number {
+  return "limit" in paging ? paging.limit : paging.numItems;
+}
+
+/**
+ * Records of one table past the rule's retention that the rule's action
+ * still applies to
+ */
+export async function loadRetentionCandidates(
+  ctx: QueryCtx,
+  enterpriseId: Id<"enterprises">,
+  target: RetentionTarget,
+  rule: RetentionRule,
+  now: Date,
+  paging: Paging
+): Promise<CandidateBatch> {
+  const cutoff = retentionCutoff(rule, now);
+
+  switch (target) {
+    case "contracts": {
+      const { docs, continueCursor } = await readPage(
+        ctx.db.query("contracts").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId)),
+        paging
+      );
+      const candidates = docs
+        .filter(contract => {
+          const start = contractRetentionStart(contract);
+          return !!start && isPastRetention(start, cutoff) && !(rule.action === "archive" && contract.status === "archived");
+        })
+        .map(contract => ({
+          id: contract._id,
+          subject: contractHoldSubject(contract),
+          apply: async (ctx: MutationCtx, action: RetentionAction) => {
+            if (action === "delete") {
+              await removeContract(ctx, contract);
+            } else {
+              await ctx.db.patch(contract._id, { status: "archived", updatedAt: Date.now() });
+            }
+          },
+        }));
+      return { candidates, continueCursor };
+    }
+
+    case "auditLogs": {
+      // Entries without a sequence predate the chain and sort first
+      const docs = await ctx.db
+        .query("auditLogs")
+        .withIndex("by_enterprise_sequence", (q) => q.eq("enterpriseId", enterpriseId))
+        .take(pageSize(paging));
+      const { removable, stoppedAt } = splitRemovablePrefix(docs, entry => isPastRetention(entry.timestamp, cutoff));
+      const candidates = removable.map(entry => ({
+        id: entry._id,
+        subject: {
+          userIds: [entry.userId],
+          ...(entry.resourceType === "contracts" ? { contractIds: [entry.resourceId] } : {}),
+          ...(entry.resourceType === "vendors" ? { vendorIds: [entry.resourceId] } : {}),
+          period: { start: entry.timestamp, end: entry.timestamp },
+        },
+        apply: async (ctx: MutationCtx) => {
+          await ctx.db.delete(entry._id);
+          if (entry.sequence !== undefined && entry.hash) {
+            await markAuditEntriesPruned(ctx, enterpriseId, entry.sequence, entry.hash);
+          }
+        },
+      }));
+      // Removed entries drop out of the index, so the next batch starts over
+      return { candidates, continueCursor: !stoppedAt && docs.length === pageSize(paging) ? "" : null };
+    }
+
+    case "chatSessions": {
+      const { docs, continueCursor } = await readPage(
+        ctx.db
+          .query("chatSessions")
+          .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+          .filter((q) => q.and(
+            q.lt(q.field("createdAt"), cutoff),
+            rule.action === "archive" ? q.eq(q.field("isActive"), true) : true,
+            rule.action === "anonymize" ? q.eq(q.field("anonymizedAt"), undefined) : true,
+          )),
+        paging
+      );
+      const candidates = docs.map(session => ({
+        id: session._id,
+        subject: {
+          userIds: [session.userId],
+          contractIds: [session.context?.contractId],
+          vendorIds: [session.context?.vendorId],
+          period: { start: session.createdAt, end: session.updatedAt },
+        },
+        apply: async (ctx: MutationCtx, action: RetentionAction) => {
+          const updatedAt = new Date().toISOString();
+          if (action === "delete") {
+            await ctx.db.delete(session._id);
+          } else if (action === "anonymize") {
+            await ctx.db.patch(session._id, {
+              title: "Archived conversation",
+              messages: session.messages.map(message => ({
+                id: message.id,
+                role: message.role,
+                content: ANONYMIZED_MESSAGE,
+                timestamp: message.timestamp,
+              })),
+              isActive: false,
+              anonymizedAt: updatedAt,
+              updatedAt,
+            });
+          } else {
+            await ctx.db.patch(session._id, { isActive: false, updatedAt });
+          }
+        },
+      }));
+      return { candidates, continueCursor };
+    }
+
+    case "agentLogs": {
+      const { docs, continueCursor } = await readPage(
+        ctx.db
+          .query("agentLogs")
+          .withIndex("by_enterprise_timestamp", (q) => q.eq("enterpriseId", enterpriseId).lt("timestamp", cutoff)),
+        paging
+      );
+      const candidates = docs.map(log => ({
+        id: log._id,
+        subject: {
+          contractIds: [typeof log.data?.contractId === "string" ? log.data.contractId : undefined],
+          period: { start: log.timestamp, end: log.timestamp },
+        },
+        apply: async (ctx: MutationCtx) => {
+          await ctx.db.delete(log._id);
+        },
+      }));
+      return { candidates, continueCursor };
+    }
+
+    case "shortTermMemory": {
+      const { docs, continueCursor } = await readPage(
+        ctx.db
+          .query("shortTermMemory")
+          .withIndex("by_enterprise_user", (q) => q.eq("enterpriseId", enterpriseId))
+          .filter((q) => q.lt(q.field("createdAt"), cutoff)),
+        paging
+      );
+      const candidates = docs.map(memory => ({
+        id: memory._id,
+        subject: {
+          userIds: [memory.userId],
+          contractIds: [memory.context.contractId],
+          vendorIds: [memory.context.vendorId],
+          period: { start: memory.createdAt, end: memory.createdAt },
+        },
+        apply: async (ctx: MutationCtx) => {
+          await ctx.db.delete(memory._id);
+        },
+      }));
+      return { candidates, continueCursor };
+    }
+
+    case "longTermMemory": {
+      const { docs, continueCursor } = await readPage(
+        ctx.db
+          .query("longTermMemory")
+          .withIndex("by_enterprise_user", (q) => q.eq("enterpriseId", enterpriseId))
+          .filter((q) => q.lt(q.field("createdAt"), cutoff)),
+        paging
+      );
+      const candidates = docs.map(memory => ({
+        id: memory._id,
+        subject: {
+          userIds: [memory.userId],
+          contractIds: memory.context.contractIds ?? [],
+          vendorIds: memory.context.vendorIds ?? [],
+          period: { start: memory.createdAt, end: memory.createdAt },
+        },
+        apply: async (ctx: MutationCtx) => {
+          await ctx.db.delete(memory._id);
+        },
+      }));
+      return { candidates, continueCursor };
+    }
+
+    case "notifications": {
+      // Notifications carry no enterprise, so page through its users instead
+      const limit = "limit" in paging ? paging.limit : null;
+      const { docs: recipients, continueCursor } = await readPage(
+        ctx.db.query("users").withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId)),
+        "limit" in paging ? paging : { numItems: NOTIFICATION_RECIPIENTS_PER_BATCH, cursor: paging.cursor }
+      );
+      const candidates: RetentionCandidate[] = [];
+      for (const recipient of recipients) {
+        const notificationQuery = ctx.db
+          .query("notifications")
+          .withIndex("by_recipient_created_desc", (q) => q.eq("recipientId", recipient._id).lt("createdAt", cutoff))
+          .filter((q) => rule.action === "archive" ? q.neq(q.field("status"), "archived") : true);
+        const notifications = limit === null
+          ? await notificationQuery.collect()
+          : await notificationQuery.take(limit - candidates.length);
+        for (const notification of notifications) {
+          candidates.push({
+            id: notification._id,
+            subject: {
+              contractIds: [notification.contractId],
+              vendorIds: [notification.vendorId],
+              userIds: [notification.recipientId],
+              period: { start: notification.createdAt, end: notification.createdAt },
+            },
+            apply: async (ctx: MutationCtx, action: RetentionAction) => {
+              if (action === "delete") {
+                await ctx.db.delete(notification._id);
+              } else {
+                await ctx.db.patch(notification._id, { status: "archived", archivedAt: new Date().toISOString() });
+              }
+            },
+          });
+        }
+        if (limit !== null && candidates.length >= limit) break;
+      }
+      return { candidates, continueCursor };
+    }
+  }
+}
+
+/**
+ * Record that the chain now starts after a removed entry, so verification
+ * does not report the removed entries as missing
+ */
+async function markAuditEntriesPruned(
+  ctx: MutationCtx,
+  enterpriseId: Id<"enterprises">,
+  sequence: number,
+  hash: string
+): Promise<void> {
+  const head = await ctx.db
+    .query("auditChainHeads")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+    .unique();
+  if (head && (head.prunedThrough?.sequence ?? 0) < sequence) {
+    await ctx.db.patch(head._id, { prunedThrough: { sequence, hash } });
+  }
+}
+
+export interface RetentionDryRunRow {
+  dataType: RetentionDataType;
+  action: RetentionAction;
+  retentionDays: number;
+  description: string;
+  cutoff: string;
+  affected: number;
+  held: number;
+  // More records may be affected than were counted
+  truncated: boolean;
+}
+
+/**
+ * What each rule would do if enforcement ran now
+ */
+export async function buildRetentionDryRun(
+  ctx: QueryCtx,
+  enterpriseId: Id<"enterprises">,
+  rules: RetentionRule[],
+  now: Date
+): Promise<RetentionDryRunRow[]> {
+  const holds = await getActiveLegalHolds(ctx, enterpriseId);
+  const rows: RetentionDryRunRow[] = [];
+
+  for (const rule of rules) {
+    let affected = 0;
+    let held = 0;
+    let truncated = false;
+    for (const target of RETENTION_TARGETS[rule.dataType]) {
+      const { candidates } = await loadRetentionCandidates(ctx, enterpriseId, target, rule, now, { limit: DRY_RUN_LIMIT });
+      const isHeld = (candidate: RetentionCandidate) => findBlockingHolds(holds, candidate.subject).length > 0;
+      if (target === "auditLogs") {
+        const { removable, stoppedAt } = splitRemovablePrefix(candidates, candidate => !isHeld(candidate));
+        affected += removable.length;
+        held += stoppedAt ? 1 : 0;
+      } else {
+        const heldCount = candidates.filter(isHeld).length;
+        affected += candidates.length - heldCount;
+        held += heldCount;
+      }
+      truncated ||= candidates.length >= DRY_RUN_LIMIT;
+    }
+    rows.push({
+      dataType: rule.dataType,
+      action: rule.action,
+      retentionDays: rule.retentionDays,
+      description: describeRetentionRule(rule),
+      cutoff: retentionCutoff(rule, now),
+      affected,
+      held,
+      truncated,
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Daily: start enforcement for every enterprise that has enabled it
+ */
+export const enforceRetentionPolicies = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<{ enterprises: number; runs: number }> => {
+    const enterprises = await ctx.db.query("enterprises").collect();
+    const now = new Date().toISOString();
+    let enforced = 0;
+    let runs = 0;
+
+    for (const enterprise of enterprises) {
+      const policy = enterprise.retentionPolicy;
+      if (!policy?.enforcementEnabled) continue;
+
+      for (const rule of policy.rules) {
+        for (const target of RETENTION_TARGETS[rule.dataType]) {
+          await ctx.scheduler.runAfter(0, internal.retention.retentionEnforcement.enforceRetentionTarget, {
+            enterpriseId: enterprise._id,
+            target,
+          });
+          runs++;
+        }
+      }
+      await ctx.db.patch(enterprise._id, { retentionPolicy: { ...policy, lastEnforcedAt: now } });
+      enforced++;
+    }
+
+    return { enterprises: enforced, runs };
+  },
+});
+
+/**
+ * Apply one enterprise's rule to one batch of a table, then schedule the
+ * next batch
+ */
+export const enforceRetentionTarget = internalMutation({
+  args: {
+    enterpriseId: v.id("enterprises"),
+    target: v.union(...retentionTargetOptions.map(option => v.literal(option))),
+    cursor: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<{ applied: number; held: number }> => {
+    // Re-read the policy: it may have been paused or changed since scheduling
+    const enterprise = await ctx.db.get(args.enterpriseId);
+    const policy = enterprise?.retentionPolicy;
+    const rule = policy?.rules.find(candidate =>
+      (RETENTION_TARGETS[candidate.dataType] as readonly RetentionTarget[]).includes(args.target));
+    if (!policy?.enforcementEnabled || !policy.enabledBy || !rule) {
+      return { applied: 0, held: 0 };
+    }
+    const actorId = policy.enabledBy;
+
+    const batch = await loadRetentionCandidates(ctx, args.enterpriseId, args.target, rule, new Date(), {
+      numItems: ENFORCEMENT_BATCH_SIZE,
+      cursor: args.cursor ?? null,
+    });
+    const holds = await getActiveLegalHolds(ctx, args.enterpriseId);
+    const kept = new Map<Id<"legalHolds">, { hold: Doc<"legalHolds">; ids: string[] }>();
+    const keep = (candidate: RetentionCandidate, blocking: Doc<"legalHolds">[]) => {
+      for (const hold of blocking) {
+        const entry = kept.get(hold._id) ?? { hold, ids: [] };
+        entry.ids.push(candidate.id);
+        kept.set(hold._id, entry);
+      }
+    };
+
+    const applied: string[] = [];
+    let stopped = false;
+    for (const candidate of batch.candidates) {
+      const blocking = findBlockingHolds(holds, candidate.subject);
+      if (blocking.length > 0) {
+        keep(candidate, blocking);
+        // The audit chain can only lose its oldest entries
+        if (args.target === "auditLogs") {
+          stopped = true;
+          break;
+        }
+        continue;
+      }
+      await candidate.apply(ctx, rule.action);
+      applied.push(candidate.id);
+    }
+
+    const timestamp = new Date().toISOString();
+    if (applied.length > 0) {
+      await appendAuditLog(ctx, {
+        userId: actorId,
+        enterpriseId: args.enterpriseId,
+        operation: "enforceRetention",
+        resourceType: args.target,
+        action: rule.action === "delete" ? "delete" : "update",
+        status: "success",
+        timestamp,
+        metadata: {
+          automated: true,
+          dataType: rule.dataType,
+          retentionAction: rule.action,
+          retentionDays: rule.retentionDays,
+          count: applied.length,
+          resourceIds: applied,
+        },
+      });
+    }
+    for (const { hold, ids } of kept.values()) {
+      await recordHoldRefusal(ctx, [hold], {
+        operation: "enforceRetention",
+        action: rule.action === "delete" ? "delete" : "update",
+        resourceType: args.target,
+        errorMessage: `Kept ${ids.length} record(s) past retention under legal hold "${hold.name}"`,
+        metadata: { dataType: rule.dataType, retentionAction: rule.action, count: ids.length, resourceIds: ids },
+      });
+    }
+
+    if (batch.continueCursor !== null && !stopped) {
+      await ctx.scheduler.runAfter(0, internal.retention.retentionEnforcement.enforceRetentionTarget, {
+        enterpriseId: args.enterpriseId,
+        target: args.target,
+        cursor: batch.continueCursor,
+      });
+    }
+
+    return { applied: applied.length, held: batch.candidates.length - applied.length };
+  },
+});
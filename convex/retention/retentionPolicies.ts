@@ -0,0 +1,202 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, mutation } from "../_generated/server";
+import { retentionRuleValidator } from "../schema";
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
+import { appendAuditLog } from "../auditLogging";
+import { DEFAULT_RETENTION_RULES, validateRetentionRules } from "./retentionRules";
+import { buildRetentionDryRun } from "./retentionEnforcement";
+
+/**
+ * Retention policy settings
+ *
+ * Admins set how long each kind of data is kept and review a dry run of what
+ * the rules would do before enabling enforcement. Saving rules pauses
+ * enforcement until the new rules have been reviewed and enabled again.
+ */
+
+/**
+ * The enterprise's rules, or the suggested defaults when none are saved
+ */
+export const getRetentionPolicy = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "retention.manage");
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    if (!enterprise) {
+      throw new ConvexError("Enterprise not found");
+    }
+    const policy = enterprise.retentionPolicy;
+
+    return {
+      configured: !!policy,
+      rules: policy?.rules ?? DEFAULT_RETENTION_RULES,
+      enforcementEnabled: policy?.enforcementEnabled ?? false,
+      enabledAt: policy?.enabledAt ?? null,
+      lastEnforcedAt: policy?.lastEnforcedAt ?? null,
+      updatedAt: policy?.updatedAt ?? null,
+    };
+  },
+});
+
+/**
+ * Save the rules. Enforcement is paused until they are enabled again.
+ */
+export const updateRetentionRules = mutation({
+  args: {
+    rules: v.array(retentionRuleValidator),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "retention.manage");
+
+    const invalid = validateRetentionRules(args.rules);
+    if (invalid) {
+      throw new ConvexError(invalid);
+    }
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    if (!enterprise) {
+      throw new ConvexError("Enterprise not found");
+    }
+
+    const now = new Date().toISOString();
+    const previous = enterprise.retentionPolicy;
+    await ctx.db.patch(enterprise._id, {
+      retentionPolicy: {
+        rules: args.rules,
+        enforcementEnabled: false,
+        ...(previous?.lastEnforcedAt ? { lastEnforcedAt: previous.lastEnforcedAt } : {}),
+        updatedBy: securityContext.userId,
+        updatedAt: now,
+      },
+      updatedAt: now,
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "updateRetentionRules",
+      resourceType: "retentionPolicy",
+      resourceId: enterprise._id,
+      action: "update",
+      status: "success",
+      timestamp: now,
+      changes: { before: { rules: previous?.rules ?? [] }, after: { rules: args.rules } },
+      ...(previous?.enforcementEnabled ? { metadata: { enforcementPaused: true } } : {}),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * What the saved rules would archive, anonymize or delete if enforcement ran
+ * now, and how many records legal holds would keep
+ */
+export const getRetentionDryRun = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "retention.manage");
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    const policy = enterprise?.retentionPolicy;
+    if (!policy) {
+      return { generatedAt: new Date().toISOString(), rows: [] };
+    }
+
+    const now = new Date();
+    return {
+      generatedAt: now.toISOString(),
+      rows: await buildRetentionDryRun(ctx, securityContext.enterpriseId, policy.rules, now),
+    };
+  },
+});
+
+/**
+ * Turn enforcement on for the saved rules. The dry run at the time is kept
+ * in the audit log with the decision.
+ */
+export const enableRetentionEnforcement = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "retention.manage");
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    const policy = enterprise?.retentionPolicy;
+    if (!enterprise || !policy) {
+      throw new ConvexError("Save retention rules before enabling enforcement");
+    }
+    if (policy.enforcementEnabled) {
+      return { success: true };
+    }
+
+    const now = new Date();
+    const dryRun = await buildRetentionDryRun(ctx, enterprise._id, policy.rules, now);
+    await ctx.db.patch(enterprise._id, {
+      retentionPolicy: {
+        ...policy,
+        enforcementEnabled: true,
+        enabledBy: securityContext.userId,
+        enabledAt: now.toISOString(),
+      },
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "enableRetentionEnforcement",
+      resourceType: "retentionPolicy",
+      resourceId: enterprise._id,
+      action: "update",
+      status: "success",
+      timestamp: now.toISOString(),
+      metadata: {
+        rules: policy.rules,
+        dryRun: dryRun.map(row => ({
+          dataType: row.dataType,
+          action: row.action,
+          affected: row.affected,
+          held: row.held,
+          truncated: row.truncated,
+        })),
+      },
+    });
+
+    return { success: true };
+  },
+});
+
+export const pauseRetentionEnforcement = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "retention.manage");
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    const policy = enterprise?.retentionPolicy;
+    if (!enterprise || !policy?.enforcementEnabled) {
+      return { success: true };
+    }
+
+    const now = new Date().toISOString();
+    await ctx.db.patch(enterprise._id, { retentionPolicy: { ...policy, enforcementEnabled: false } });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "pauseRetentionEnforcement",
+      resourceType: "retentionPolicy",
+      resourceId: enterprise._id,
+      action: "update",
+      status: "success",
+      timestamp: now,
+    });
+
+    return { success: true };
+  },
+});
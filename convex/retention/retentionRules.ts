@@ -0,0 +1,143 @@
+import type { RetentionAction, RetentionDataType } from "../schema";
+
+/**
+ * Retention rules
+ *
+ * Each enterprise keeps at most one rule per data type: how many days to keep
+ * it and what to do once that time has passed. Contracts count from the day
+ * they expired and only once they are expired, terminated or archived;
+ * everything else counts from when it was created. Data types without a rule
+ * are kept indefinitely, as is everything in an enterprise that has not
+ * enabled enforcement; no cleanup runs outside these rules.
+ *
+ * Audit logs form a hash chain (see audit/auditChain.ts), so they can only be
+ * deleted oldest first, and deletion stops at the first entry that has to be
+ * kept.
+ */
+
+export interface RetentionRule {
+  dataType: RetentionDataType;
+  action: RetentionAction;
+  retentionDays: number;
+}
+
+// What a rule can do to each data type
+export const RETENTION_ACTIONS: Record<RetentionDataType, RetentionAction[]> = {
+  contracts: ["archive", "delete"],
+  auditLogs: ["delete"],
+  chatSessions: ["archive", "anonymize", "delete"],
+  agentLogs: ["delete"],
+  memories: ["delete"],
+  notifications: ["archive", "delete"],
+};
+
+// Audit logs back compliance reviews, so they are kept at least a year
+export const MIN_RETENTION_DAYS: Record<RetentionDataType, number> = {
+  contracts: 0,
+  auditLogs: 365,
+  chatSessions: 1,
+  agentLogs: 1,
+  memories: 1,
+  notifications: 1,
+};
+
+export const MAX_RETENTION_DAYS = 36500;
+
+// Offered when an enterprise first sets up retention; nothing runs until an
+// admin has reviewed a dry run and enabled enforcement
+export const DEFAULT_RETENTION_RULES: RetentionRule[] = [
+  { dataType: "contracts", action: "archive", retentionDays: 3650 },
+  { dataType: "auditLogs", action: "delete", retentionDays: 1095 },
+  { dataType: "chatSessions", action: "anonymize", retentionDays: 365 },
+  { dataType: "agentLogs", action: "delete", retentionDays: 90 },
+  { dataType: "memories", action: "delete", retentionDays: 365 },
+  { dataType: "notifications", action: "archive", retentionDays: 180 },
+];
+
+// Contract statuses a retention rule can act on
+export const EXPIRED_CONTRACT_STATUSES = ["expired", "terminated", "archived"];
+
+const DATA_TYPE_LABELS: Record<RetentionDataType, string> = {
+  contracts: "Contracts",
+  auditLogs: "Audit logs",
+  chatSessions: "Chat sessions",
+  agentLogs: "Agent logs",
+  memories: "Memories",
+  notifications: "Notifications",
+};
+
+const ACTION_LABELS: Record<RetentionAction, string> = {
+  archive: "archived",
+  anonymize: "anonymized",
+  delete: "deleted",
+};
+
+/**
+ * Why a set of rules cannot be saved, or null when they are valid
+ */
+export function validateRetentionRules(rules: RetentionRule[]): string | null {
+  const seen = new Set<RetentionDataType>();
+  for (const rule of rules) {
+    const label = DATA_TYPE_LABELS[rule.dataType];
+    if (seen.has(rule.dataType)) {
+      return `${label} can only have one retention rule`;
+    }
+    seen.add(rule.dataType);
+
+    if (!RETENTION_ACTIONS[rule.dataType].includes(rule.action)) {
+      return `${label} cannot be ${ACTION_LABELS[rule.action]}`;
+    }
+    const min = MIN_RETENTION_DAYS[rule.dataType];
+    if (!Number.isInteger(rule.retentionDays) || rule.retentionDays < min || rule.retentionDays > MAX_RETENTION_DAYS) {
+      return `${label} must be kept between ${min} and ${MAX_RETENTION_DAYS} days`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Records dated before the returned timestamp are past the rule's retention
+ */
+export function retentionCutoff(rule: RetentionRule, now: Date): string {
+  return new Date(now.getTime() - rule.retentionDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * The date a contract's retention counts from, or null while it is not yet
+ * subject to retention
+ */
+export function contractRetentionStart(contract: {
+  status?: string | undefined;
+  endDate?: string | undefined;
+  extractedEndDate?: string | undefined;
+}): string | null {
+  if (!contract.status || !EXPIRED_CONTRACT_STATUSES.includes(contract.status)) return null;
+  return contract.endDate ?? contract.extractedEndDate ?? null;
+}
+
+/**
+ * Whether a record dated `date` is past the cutoff. Dates are compared by
+ * calendar day so a date without a time counts from the end of that day.
+ */
+export function isPastRetention(date: string, cutoff: string): boolean {
+  return date.slice(0, 10) < cutoff.slice(0, 10);
+}
+
+/**
+ * Split entries ordered oldest first into the run that can be removed and
+ * the first one that cannot, where removal has to stop
+ */
+export function splitRemovablePrefix<T>(
+  entries: T[],
+  canRemove: (entry: T) => boolean
+): { removable: T[]; stoppedAt: T | null } {
+  const index = entries.findIndex(entry => !canRemove(entry));
+  return index === -1
+    ? { removable: entries, stoppedAt: null }
+    : { removable: entries.slice(0, index), stoppedAt: entries[index]! };
+}
+
+export function describeRetentionRule(rule: RetentionRule): string {
+  const from = rule.dataType === "contracts" ? "after expiry" : "after creation";
+  return `${DATA_TYPE_LABELS[rule.dataType]} are ${ACTION_LABELS[rule.action]} ${rule.retentionDays} days ${from}`;
+}
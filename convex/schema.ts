@@ -21,7 +21,7 @@ import {
 // ============================================================================
 
 export const contractStatusOptions = [
-  "draft", "pending_analysis", "active", "expired", "terminated", "archived",
+  "draft", "pending_analysis", "pending_approval", "active", "expired", "terminated", "archived",
 ] as const;
 
 
@@ -68,6 +68,346 @@ export const userRoleOptions = [
 
 export type UserRole = typeof userRoleOptions[number];
 
+// Roles an identity provider group can map to; ownership is never provisioned
+export const groupRoleOptions = ["admin", "manager", "user", "viewer"] as const;
+
+export type GroupRole = typeof groupRoleOptions[number];
+
+// Webhook delivery lifecycle: pending -> (retrying ->)* succeeded | dead_letter
+// Test sends are recorded directly as succeeded or failed
+export const webhookDeliveryStatusOptions = [
+  "pending",     // Queued, first attempt not yet made
+  "retrying",    // Failed at least once, next attempt scheduled
+  "succeeded",   // Endpoint returned 2xx
+  "dead_letter", // Gave up after max retries or a non-retryable error
+  "failed",      // Test send that failed; never retried or replayed
+] as const;
+
+export type WebhookDeliveryStatus = typeof webhookDeliveryStatusOptions[number];
+
+export type ContractStatus = typeof contractStatusOptions[number];
+
+export const approvalTypeOptions = [
+  "new_contract", "renewal", "amendment", "termination", "budget_exceed",
+] as const;
+
+export type ApprovalType = typeof approvalTypeOptions[number];
+
+// Contract facts a workflow or step condition can test
+export const workflowConditionFieldOptions = [
+  "contractValue", "contractType", "departmentId", "vendorCategory",
+] as const;
+
+export const workflowConditionOperatorOptions = [
+  "eq", "neq", "gt", "gte", "lt", "lte", "in", "not_in",
+] as const;
+
+// Workflow instance lifecycle: in_progress -> approved | rejected | changes_requested | cancelled
+export const workflowInstanceStatusOptions = [
+  "in_progress", "approved", "rejected", "changes_requested", "cancelled",
+] as const;
+
+export type WorkflowInstanceStatus = typeof workflowInstanceStatusOptions[number];
+
+// Step lifecycle: waiting -> pending -> approved | rejected | changes_requested,
+// or skipped (conditions not met) / cancelled (instance ended first)
+export const workflowStepStatusOptions = [
+  "waiting", "pending", "approved", "rejected", "changes_requested", "skipped", "cancelled",
+] as const;
+
+export type WorkflowStepStatus = typeof workflowStepStatusOptions[number];
+
+export const workflowConditionValidator = v.object({
+  field: v.union(...workflowConditionFieldOptions.map(option => v.literal(option))),
+  operator: v.union(...workflowConditionOperatorOptions.map(option => v.literal(option))),
+  value: v.union(v.string(), v.number(), v.array(v.string())),
+});
+
+export const workflowApproverValidator = v.union(
+  // Any active user holding this role or a higher one
+  v.object({
+    type: v.literal("role"),
+    role: v.union(...userRoleOptions.map(option => v.literal(option))),
+  }),
+  v.object({
+    type: v.literal("user"),
+    userId: v.id("users"),
+  })
+);
+
+export const workflowStepValidator = v.object({
+  id: v.string(),
+  name: v.string(),
+  order: v.number(), // Steps sharing an order run in parallel
+  approvers: v.array(workflowApproverValidator),
+  requiredApprovals: v.optional(v.number()), // Defaults to 1
+  conditions: v.optional(v.array(workflowConditionValidator)), // Step is skipped unless all match
+  slaHours: v.optional(v.number()),
+  escalateTo: v.optional(v.array(workflowApproverValidator)), // Added as approvers once the SLA passes
+});
+
+export const riskLevelOptions = ["low", "medium", "high"] as const;
+
+export type RiskLevel = typeof riskLevelOptions[number];
+
+// How an extracted clause compares with the enterprise's clause library
+export const clauseDeviationStatusOptions = [
+  "standard", // Matches the standard language
+  "fallback", // Matches an approved fallback position
+  "deviation", // Matches neither
+  "missing", // Required by the library but not found
+] as const;
+
+export type ClauseDeviationStatus = typeof clauseDeviationStatusOptions[number];
+
+// Approved fallback language, rank 1 being the most preferred
+export const clauseFallbackValidator = v.object({
+  rank: v.number(),
+  text: v.string(),
+  riskLevel: v.union(...riskLevelOptions.map(option => v.literal(option))),
+  guidance: v.optional(v.string()),
+});
+
+export const obligationTypeOptions = [
+  "deliverable",
+  "reporting",
+  "insurance_certificate",
+  "notice",
+  "sla",
+  "payment",
+  "other",
+] as const;
+
+export type ObligationType = typeof obligationTypeOptions[number];
+
+// Which party owes the obligation
+export const obligationPartyOptions = [
+  "enterprise", // Us
+  "counterparty", // The vendor or other party
+  "mutual",
+] as const;
+
+export type ObligationParty = typeof obligationPartyOptions[number];
+
+export const obligationStatusOptions = [
+  "upcoming",
+  "due", // Inside the reminder window
+  "overdue",
+  "fulfilled",
+  "waived",
+] as const;
+
+export type ObligationStatus = typeof obligationStatusOptions[number];
+
+export const obligationRecurrenceOptions = ["weekly", "monthly", "quarterly", "annually"] as const;
+
+export type ObligationRecurrence = typeof obligationRecurrenceOptions[number];
+
+export const obligationEvidenceValidator = v.object({
+  note: v.string(),
+  storageId: v.optional(v.id("_storage")),
+  submittedBy: v.id("users"),
+  submittedAt: v.string(),
+});
+
+export const contractVersionTypeOptions = [
+  "original", // The contract as first signed
+  "amendment", // Changes specific terms
+  "addendum", // Adds terms or services
+  "restatement", // Supersedes the whole agreement
+] as const;
+
+export type ContractVersionType = typeof contractVersionTypeOptions[number];
+
+export const contractVersionStatusOptions = [
+  "draft", // Under review, not yet signed
+  "executed", // Signed; takes effect on its effective date
+  "in_effect",
+  "void",
+] as const;
+
+export type ContractVersionStatus = typeof contractVersionStatusOptions[number];
+
+// Commercial terms a contract version sets; an amendment lists only the terms it changes
+export const contractTermsValidator = v.object({
+  value: v.optional(v.number()),
+  startDate: v.optional(v.string()),
+  endDate: v.optional(v.string()),
+  scope: v.optional(v.string()),
+  pricing: v.optional(v.string()),
+  paymentSchedule: v.optional(v.string()),
+});
+
+export const amendmentReviewValidator = v.object({
+  reviewedAt: v.string(),
+  legalImpact: v.union(...riskLevelOptions.map(option => v.literal(option))),
+  risks: v.array(v.string()),
+  recommendations: v.array(v.string()),
+  agentTaskId: v.optional(v.id("agentTasks")),
+});
+
+// Renewal decision for a contract term; pending until the owner decides
+export const renewalDecisionOptions = ["pending", "renew", "renegotiate", "terminate"] as const;
+
+export type RenewalDecision = typeof renewalDecisionOptions[number];
+
+export const renewalStatusOptions = [
+  "open", // Awaiting a decision
+  "decided",
+  "missed", // Cancellation deadline passed without a decision
+  "closed", // Term ended; superseded by the next term's renewal
+] as const;
+
+export type RenewalStatus = typeof renewalStatusOptions[number];
+
+export const documentFormatOptions = ["pdf", "docx", "text"] as const;
+
+export type DocumentFormat = typeof documentFormatOptions[number];
+
+// Extraction lifecycle: pending -> processing -> completed | failed (failed may be retried)
+export const textExtractionStatusOptions = [
+  "pending", "processing", "completed", "failed",
+] as const;
+
+export type TextExtractionStatus = typeof textExtractionStatusOptions[number];
+
+// Half-open [start, end) character ranges into the extracted text
+export const textPageValidator = v.object({
+  number: v.number(), // 1-based
+  start: v.number(),
+  end: v.number(),
+});
+
+export const textParagraphValidator = v.object({
+  page: v.number(),
+  start: v.number(),
+  end: v.number(),
+});
+
+// Chunk index lifecycle: pending -> building -> completed | failed. A rebuild
+// keeps the previous build searchable until it completes.
+export const contractIndexStatusOptions = [
+  "pending", "building", "completed", "failed",
+] as const;
+
+export type ContractIndexStatus = typeof contractIndexStatusOptions[number];
+
+export const complianceCheckTypeOptions = [
+  "regulatory", "internal_policy", "security", "data_privacy", "financial", "operational",
+] as const;
+
+export type ComplianceCheckType = typeof complianceCheckTypeOptions[number];
+
+export const complianceCheckStatusOptions = [
+  "compliant", "non_compliant", "pending_review", "remediation_required",
+] as const;
+
+export type ComplianceCheckStatus = typeof complianceCheckStatusOptions[number];
+
+export const complianceIssueSeverityOptions = ["critical", "high", "medium", "low"] as const;
+
+export type ComplianceIssueSeverity = typeof complianceIssueSeverityOptions[number];
+
+// Risk register levels; "critical" sits above the contract-level riskLevelOptions
+export const riskRegisterLevelOptions = ["low", "medium", "high", "critical"] as const;
+
+export type RiskRegisterLevel = typeof riskRegisterLevelOptions[number];
+
+// What a child enterprise lets its parent do: read its data into consolidated
+// reports, or push clause library, approval workflows and notification rules
+export const enterpriseGrantScopeOptions = ["reporting", "policies"] as const;
+
+export type EnterpriseGrantScope = typeof enterpriseGrantScopeOptions[number];
+
+// Set on clause library entries and approval workflows pushed by a parent;
+// the child cannot edit them until the parent stops managing them
+export const inheritedPolicyValidator = v.object({
+  enterpriseId: v.id("enterprises"), // Parent the policy came from
+  sourceId: v.string(), // Id of the parent's entry or workflow
+  syncedAt: v.string(),
+});
+
+// Records that can be shared with a single user through a resource grant
+export const grantableResourceOptions = ["contract", "vendor", "budget"] as const;
+
+export type GrantableResource = typeof grantableResourceOptions[number];
+
+// Identity provider protocols an enterprise can require sign-in through
+export const ssoProtocolOptions = ["saml", "oidc"] as const;
+
+export type SsoProtocol = typeof ssoProtocolOptions[number];
+
+export const ssoSettingsValidator = v.object({
+  required: v.boolean(), // Block password sign-in for the verified domain
+  protocol: v.union(...ssoProtocolOptions.map(option => v.literal(option))),
+  connectionId: v.optional(v.string()), // Identity provider connection in Clerk
+  verificationToken: v.string(), // Expected in the domain's TXT record
+  verifiedDomain: v.optional(v.string()), // Domain the TXT record was found on
+  verifiedAt: v.optional(v.string()),
+  updatedBy: v.id("users"),
+  updatedAt: v.string(),
+});
+
+// What a legal hold preserves: the named contracts, vendors or users, or
+// records dated within a range
+export const legalHoldScopeOptions = ["contracts", "vendors", "users", "dateRange"] as const;
+
+export type LegalHoldScope = typeof legalHoldScopeOptions[number];
+
+export const legalHoldStatusOptions = ["active", "released"] as const;
+
+export type LegalHoldStatus = typeof legalHoldStatusOptions[number];
+
+// Data an enterprise's retention rules cover; contracts count from expiry,
+// everything else from when it was created
+export const retentionDataTypeOptions = [
+  "contracts", "auditLogs", "chatSessions", "agentLogs", "memories", "notifications",
+] as const;
+
+export type RetentionDataType = typeof retentionDataTypeOptions[number];
+
+export const retentionActionOptions = ["archive", "anonymize", "delete"] as const;
+
+export type RetentionAction = typeof retentionActionOptions[number];
+
+export const retentionRuleValidator = v.object({
+  dataType: v.union(...retentionDataTypeOptions.map(option => v.literal(option))),
+  action: v.union(...retentionActionOptions.map(option => v.literal(option))),
+  retentionDays: v.number(),
+});
+
+export const retentionPolicyValidator = v.object({
+  rules: v.array(retentionRuleValidator), // At most one per data type; data types without a rule are kept
+  enforcementEnabled: v.boolean(), // Rules only run once enabled after a dry run; saving rules pauses them
+  enabledBy: v.optional(v.id("users")), // Enforcement actions are recorded against this user
+  enabledAt: v.optional(v.string()),
+  lastEnforcedAt: v.optional(v.string()),
+  updatedBy: v.id("users"),
+  updatedAt: v.string(),
+});
+
+// Model providers an enterprise can run AI features on. The deterministic
+// local provider is only selectable for a whole deployment, through AI_PROVIDER.
+export const aiProviderOptions = ["openai", "anthropic", "azure_openai", "openai_compatible"] as const;
+
+export type AiProvider = typeof aiProviderOptions[number];
+
+export const aiProviderSettingsValidator = v.object({
+  provider: v.union(...aiProviderOptions.map(option => v.literal(option))),
+  chatModel: v.optional(v.string()), // Deployment name on Azure OpenAI
+  embeddingModel: v.optional(v.string()), // Anthropic embeds with the deployment default
+  baseUrl: v.optional(v.string()), // Azure resource endpoint or self-hosted server
+  apiVersion: v.optional(v.string()), // Azure OpenAI only
+  apiKey: v.optional(v.string()), // Never returned to clients; the deployment's key when unset
+  updatedBy: v.id("users"),
+  updatedAt: v.string(),
+});
+
+export const notificationRulesValidator = v.object({
+  renewalReminderOffsets: v.optional(v.array(v.number())), // Days before the notice deadline
+  obligationReminderDaysBefore: v.optional(v.number()),
+});
+
 
 // ============================================================================
 // SCHEMA DEFINITION
@@ -99,6 +439,12 @@ export default defineSchema({
     // PIN-based access control
     accessPin: v.optional(v.string()), // Hashed PIN for joining the organization
     allowChildOrganizations: v.optional(v.boolean()), // Whether this org allows child orgs
+    reportingCurrency: v.optional(v.string()), // ISO 4217 code budgets and analytics are reported in; USD when unset
+    notificationRules: v.optional(notificationRulesValidator), // Reminder defaults; built-in defaults when unset
+    notificationRulesInheritedFrom: v.optional(v.id("enterprises")), // Parent that pushed the rules
+    ssoSettings: v.optional(ssoSettingsValidator), // Single sign-on enforcement; password sign-in allowed when unset
+    retentionPolicy: v.optional(retentionPolicyValidator), // Everything is kept when unset
+    aiProvider: v.optional(aiProviderSettingsValidator), // The deployment's default provider when unset
     // Metadata
     createdAt: v.optional(v.string()),
     updatedAt: v.optional(v.string()),
@@ -108,6 +454,22 @@ export default defineSchema({
     .index("by_parent", ["parentEnterpriseId"])
     .index("by_is_parent", ["isParentOrganization"]),
 
+  // ===== ENTERPRISE ACCESS GRANTS =====
+  // Explicit grants from a child enterprise to its parent. Parents see nothing
+  // of a child, and push nothing to it, without an unrevoked grant.
+  enterpriseAccessGrants: defineTable({
+    parentEnterpriseId: v.id("enterprises"),
+    childEnterpriseId: v.id("enterprises"),
+    scopes: v.array(v.union(...enterpriseGrantScopeOptions.map(option => v.literal(option)))),
+    grantedBy: v.id("users"),
+    createdAt: v.string(),
+    updatedAt: v.optional(v.string()),
+    revokedAt: v.optional(v.string()),
+    revokedBy: v.optional(v.id("users")),
+  })
+    .index("by_parent", ["parentEnterpriseId"])
+    .index("by_child", ["childEnterpriseId"]),
+
  // ===== USERS =====
  users: defineTable({
   clerkId: v.string(),
@@ -121,12 +483,121 @@ export default defineSchema({
   createdAt: v.string(),
   updatedAt: v.optional(v.string()),
   phoneNumber: v.optional(v.string()),
-  department: v.optional(v.string()),
+  department: v.optional(v.string()), // Free-text label from the profile
+  departmentId: v.optional(v.id("departments")), // Department the user belongs to
+  customRoleId: v.optional(v.id("customRoles")), // Replaces the built-in role's permissions
   title: v.optional(v.string()),
+  provisionedVia: v.optional(v.literal("scim")), // Role, department and status follow the identity provider
+  externalId: v.optional(v.string()), // Identity provider's id for the user
+  deprovisionedAt: v.optional(v.string()), // Deleted over SCIM; kept inactive for the records it owns
 })
 .index("by_clerkId", ["clerkId"])
 .index("by_enterprise", ["enterpriseId"])
-.index("by_email", ["email"]),
+.index("by_email", ["email"])
+.index("by_department", ["departmentId"]),
+
+  // ===== SCIM PROVISIONING =====
+  // Bearer tokens an identity provider uses to call the SCIM endpoints
+  scimTokens: defineTable({
+    enterpriseId: v.id("enterprises"),
+    name: v.string(),
+    tokenHash: v.string(), // SHA-256 of the token, which is only shown once
+    tokenPrefix: v.string(),
+    createdBy: v.id("users"),
+    createdAt: v.string(),
+    lastUsedAt: v.optional(v.string()),
+    revokedAt: v.optional(v.string()),
+    revokedBy: v.optional(v.id("users")),
+  })
+  .index("by_enterprise", ["enterpriseId"])
+  .index("by_token_hash", ["tokenHash"]),
+
+  // Groups pushed by the identity provider. Members take the mapped role,
+  // custom role and department.
+  scimGroups: defineTable({
+    enterpriseId: v.id("enterprises"),
+    displayName: v.string(),
+    externalId: v.optional(v.string()),
+    memberIds: v.array(v.id("users")),
+    role: v.optional(v.union(...groupRoleOptions.map(option => v.literal(option)))),
+    customRoleId: v.optional(v.id("customRoles")),
+    departmentId: v.optional(v.id("departments")),
+    createdAt: v.string(),
+    updatedAt: v.string(),
+  })
+  .index("by_enterprise", ["enterpriseId"]),
+
+  // ===== CUSTOM ROLES =====
+  // Named permission sets an enterprise defines. A user assigned one holds its
+  // permissions instead of their built-in role's, limited to its scope.
+  customRoles: defineTable({
+    enterpriseId: v.id("enterprises"),
+    name: v.string(),
+    description: v.optional(v.string()),
+    permissions: v.array(v.string()), // Names from the permission catalog
+    departmentIds: v.optional(v.array(v.id("departments"))), // Subtrees included; unset means every department
+    contractTypes: v.optional(v.array(v.union(...contractTypeOptions.map(option => v.literal(option))))),
+    createdBy: v.id("users"),
+    createdAt: v.string(),
+    updatedAt: v.optional(v.string()),
+  })
+  .index("by_enterprise", ["enterpriseId"]),
+
+  // ===== RESOURCE GRANTS =====
+  // One record shared with one user, outside their role and scope
+  resourceGrants: defineTable({
+    enterpriseId: v.id("enterprises"),
+    resourceType: v.union(...grantableResourceOptions.map(option => v.literal(option))),
+    resourceId: v.string(),
+    userId: v.id("users"),
+    permissions: v.array(v.string()),
+    grantedBy: v.id("users"),
+    createdAt: v.string(),
+    expiresAt: v.optional(v.string()),
+    revokedAt: v.optional(v.string()),
+    revokedBy: v.optional(v.id("users")),
+  })
+  .index("by_user", ["userId"])
+  .index("by_resource", ["resourceType", "resourceId"]),
+
+  // ===== LEGAL HOLDS =====
+  // Litigation holds. Delete, anonymize and retention paths refuse to act on
+  // records an active hold covers (see legalHolds/legalHoldRules.ts).
+  legalHolds: defineTable({
+    enterpriseId: v.id("enterprises"),
+    name: v.string(),
+    matter: v.optional(v.string()), // Case or matter reference
+    reason: v.optional(v.string()),
+    scope: v.union(...legalHoldScopeOptions.map(option => v.literal(option))),
+    resourceIds: v.array(v.string()), // Held contracts, vendors or users; empty for dateRange
+    startDate: v.optional(v.string()), // YYYY-MM-DD, inclusive; dateRange only
+    endDate: v.optional(v.string()),
+    status: v.union(...legalHoldStatusOptions.map(option => v.literal(option))),
+    createdBy: v.id("users"),
+    createdAt: v.string(),
+    releasedBy: v.optional(v.id("users")),
+    releasedAt: v.optional(v.string()),
+    releaseReason: v.optional(v.string()),
+  })
+  .index("by_enterprise_status", ["enterpriseId", "status"]),
+
+  // ===== DEPARTMENTS =====
+  // Per-enterprise department tree. Managers are scoped to the subtree of
+  // their own department and of departments they head.
+  departments: defineTable({
+    enterpriseId: v.id("enterprises"),
+    name: v.string(),
+    costCenterCode: v.optional(v.string()),
+    parentDepartmentId: v.optional(v.id("departments")),
+    headUserId: v.optional(v.id("users")), // Head of department
+    description: v.optional(v.string()),
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.string(),
+    updatedAt: v.optional(v.string()),
+  })
+  .index("by_enterprise", ["enterpriseId"])
+  .index("by_parent", ["parentDepartmentId"])
+  .index("by_head", ["headUserId"]),
 
   // ===== VENDORS =====
   vendors: defineTable({
@@ -186,6 +657,7 @@ export default defineSchema({
     fileType: v.string(),
     // User-provided contract details
     value: v.optional(v.number()),
+    currency: v.optional(v.string()), // ISO 4217 code of value; the reporting currency when unset
     startDate: v.optional(v.string()),
     endDate: v.optional(v.string()),
     // AI-extracted data
@@ -202,9 +674,15 @@ export default defineSchema({
     analysisError: v.optional(v.string()),
     notes: v.optional(v.string()),
     isAutoRenew: v.optional(v.boolean()), // Whether contract auto-renews
+    renewalTermMonths: v.optional(v.number()), // Length of each automatic renewal term
+    noticePeriodDays: v.optional(v.number()), // Notice needed to cancel or not renew
+    noticePeriodSource: v.optional(v.union(v.literal("extracted"), v.literal("manual"))),
+    cancellationDeadline: v.optional(v.string()), // Last day to give notice: end date minus notice period
     // Ownership and tracking fields
     ownerId: v.optional(v.id("users")), // User responsible for the contract
-    departmentId: v.optional(v.string()), // Department managing the contract
+    // Department managing the contract. Free-text values from before
+    // departments existed are converted by migrations/migrateDepartments.
+    departmentId: v.optional(v.union(v.id("departments"), v.string())),
     createdBy: v.optional(v.id("users")), // User who created the contract
     lastModifiedBy: v.optional(v.id("users")), // User who last modified
     createdAt: v.string(),
@@ -235,7 +713,104 @@ export default defineSchema({
   .index("by_enterprise_status_created", ["enterpriseId", "status", "createdAt"])
   .index("by_enterprise_owner_status", ["enterpriseId", "ownerId", "status"])
   .index("by_enterprise_value", ["enterpriseId", "value"])
-  .index("by_enterprise_renewal", ["enterpriseId", "isAutoRenew", "extractedEndDate"]),
+  .index("by_enterprise_renewal", ["enterpriseId", "isAutoRenew", "extractedEndDate"])
+  .index("by_enterprise_cancellation", ["enterpriseId", "cancellationDeadline"]),
+
+  // ===== CONTRACT VERSIONS =====
+  // Document lineage: version 0 is the original contract, later versions are
+  // its amendments, addenda and restatements in order. The contract row holds
+  // the terms currently in effect.
+  contractVersions: defineTable({
+    enterpriseId: v.id("enterprises"),
+    contractId: v.id("contracts"),
+    versionNumber: v.number(),
+    type: v.union(...contractVersionTypeOptions.map(option => v.literal(option))),
+    status: v.union(...contractVersionStatusOptions.map(option => v.literal(option))),
+    title: v.string(),
+    description: v.optional(v.string()),
+    storageId: v.optional(v.id("_storage")),
+    fileName: v.optional(v.string()),
+    fileType: v.optional(v.string()),
+    effectiveDate: v.string(), // ISO date the version's terms apply from
+    terms: contractTermsValidator,
+    legalReview: v.optional(amendmentReviewValidator),
+    executedBy: v.optional(v.id("users")),
+    executedAt: v.optional(v.string()),
+    voidedBy: v.optional(v.id("users")),
+    voidedAt: v.optional(v.string()),
+    voidReason: v.optional(v.string()),
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.string(),
+    updatedAt: v.string(),
+  })
+    .index("by_contract_version", ["contractId", "versionNumber"])
+    .index("by_status_effective", ["status", "effectiveDate"]),
+
+  // ===== CONTRACT TEXT =====
+  // Text extracted from the uploaded contract file, one row per contract
+  contractTexts: defineTable({
+    contractId: v.id("contracts"),
+    enterpriseId: v.id("enterprises"),
+    storageId: v.id("_storage"),
+    status: v.union(...textExtractionStatusOptions.map(option => v.literal(option))),
+    format: v.optional(v.union(...documentFormatOptions.map(option => v.literal(option)))),
+    text: v.optional(v.string()), // Normalized full text
+    pages: v.optional(v.array(textPageValidator)),
+    paragraphs: v.optional(v.array(textParagraphValidator)),
+    characterCount: v.optional(v.number()),
+    truncated: v.optional(v.boolean()), // Text was cut to fit the document size limit
+    attempts: v.number(),
+    error: v.optional(v.string()),
+    retryable: v.optional(v.boolean()),
+    extractedAt: v.optional(v.string()),
+    createdAt: v.string(),
+    updatedAt: v.string(),
+  })
+  .index("by_contract", ["contractId"])
+  .index("by_status", ["status"])
+  .index("by_enterprise", ["enterpriseId"])
+  .index("by_enterprise_status", ["enterpriseId", "status"]),
+
+  // ===== CONTRACT DOCUMENT INDEX =====
+  // Build state of a contract's passage index, one row per contract
+  contractIndexes: defineTable({
+    contractId: v.id("contracts"),
+    enterpriseId: v.id("enterprises"),
+    status: v.union(...contractIndexStatusOptions.map(option => v.literal(option))),
+    generation: v.number(), // Latest requested build
+    indexedGeneration: v.optional(v.number()), // Build whose passages are searched
+    documentCount: v.optional(v.number()),
+    chunkCount: v.optional(v.number()),
+    truncated: v.optional(v.boolean()), // Passages past the per-document limit were left out
+    error: v.optional(v.string()),
+    indexedAt: v.optional(v.string()),
+    createdAt: v.string(),
+    updatedAt: v.string(),
+  })
+  .index("by_contract", ["contractId"])
+  .index("by_enterprise_status", ["enterpriseId", "status"]),
+
+  // Embedded passages of a contract's document and its amendment files
+  contractChunks: defineTable({
+    contractId: v.id("contracts"),
+    enterpriseId: v.id("enterprises"),
+    versionId: v.optional(v.id("contractVersions")), // Set for passages of an amendment's file
+    generation: v.number(),
+    chunkIndex: v.number(), // Order within its document
+    text: v.string(),
+    start: v.number(), // [start, end) in the document's extracted text
+    end: v.number(),
+    page: v.number(),
+    section: v.optional(v.string()), // Heading the passage falls under
+    embedding: v.array(v.float64()),
+    createdAt: v.string(),
+  })
+  .index("by_contract_generation", ["contractId", "generation"])
+  .vectorIndex("by_embedding", {
+    vectorField: "embedding",
+    dimensions: 1536,
+    filterFields: ["enterpriseId", "contractId"],
+  }),
 
   // ===== CONTRACT ASSIGNMENTS =====
   contractAssignments: defineTable({
@@ -312,29 +887,94 @@ export default defineSchema({
   .index("by_status", ["status"])
   .index("by_contract_status", ["contractId", "status"]),
 
+  // ===== APPROVAL WORKFLOWS =====
+  approvalWorkflows: defineTable({
+    enterpriseId: v.id("enterprises"),
+    name: v.string(),
+    description: v.optional(v.string()),
+    approvalType: v.union(...approvalTypeOptions.map(option => v.literal(option))),
+    conditions: v.array(workflowConditionValidator), // Workflow applies when all match
+    steps: v.array(workflowStepValidator),
+    priority: v.number(), // Highest matching priority wins
+    isActive: v.boolean(),
+    inheritedFrom: v.optional(inheritedPolicyValidator),
+    createdBy: v.id("users"),
+    createdAt: v.string(),
+    updatedAt: v.optional(v.string()),
+  })
+  .index("by_enterprise", ["enterpriseId"])
+  .index("by_enterprise_type_active", ["enterpriseId", "approvalType", "isActive"]),
+
+  approvalWorkflowInstances: defineTable({
+    enterpriseId: v.id("enterprises"),
+    workflowId: v.id("approvalWorkflows"),
+    workflowName: v.string(),
+    contractId: v.id("contracts"),
+    approvalType: v.union(...approvalTypeOptions.map(option => v.literal(option))),
+    status: v.union(...workflowInstanceStatusOptions.map(option => v.literal(option))),
+    currentOrder: v.optional(v.number()), // Order of the steps awaiting decisions
+    requestedBy: v.id("users"),
+    requestedAt: v.string(),
+    completedAt: v.optional(v.string()),
+    // Contract status before the workflow started, restored on cancellation
+    previousContractStatus: v.union(...contractStatusOptions.map(option => v.literal(option))),
+    comments: v.optional(v.string()),
+  })
+  .index("by_contract", ["contractId"])
+  .index("by_contract_status", ["contractId", "status"])
+  .index("by_enterprise_status", ["enterpriseId", "status"])
+  .index("by_workflow", ["workflowId"]),
+
+  approvalWorkflowSteps: defineTable({
+    instanceId: v.id("approvalWorkflowInstances"),
+    enterpriseId: v.id("enterprises"),
+    contractId: v.id("contracts"),
+    stepId: v.string(),
+    name: v.string(),
+    order: v.number(),
+    status: v.union(...workflowStepStatusOptions.map(option => v.literal(option))),
+    approvers: v.array(workflowApproverValidator),
+    requiredApprovals: v.number(),
+    decisions: v.array(v.object({
+      userId: v.id("users"),
+      decision: v.union(v.literal("approved"), v.literal("rejected"), v.literal("changes_requested")),
+      comment: v.optional(v.string()),
+      decidedAt: v.string(),
+      onBehalfOf: v.optional(v.id("users")), // Set when acting as a delegate
+    })),
+    delegations: v.array(v.object({
+      fromUserId: v.id("users"),
+      toUserId: v.id("users"),
+      reason: v.optional(v.string()),
+      delegatedAt: v.string(),
+    })),
+    slaHours: v.optional(v.number()),
+    escalateTo: v.optional(v.array(workflowApproverValidator)),
+    activatedAt: v.optional(v.string()),
+    dueAt: v.optional(v.string()),
+    escalatedAt: v.optional(v.string()),
+    completedAt: v.optional(v.string()),
+  })
+  .index("by_instance", ["instanceId"])
+  .index("by_enterprise_status", ["enterpriseId", "status"])
+  .index("by_status_due", ["status", "dueAt"]),
+
   // ===== COMPLIANCE TRACKING =====
+  // One row per contract and check type, kept by the compliance agent
+  // (agents/compliance.ts). Rows without an enterprise predate the agent; it
+  // takes them over when it next checks their contract.
   complianceChecks: defineTable({
     contractId: v.id("contracts"),
-    checkType: v.union(
-      v.literal("regulatory"),
-      v.literal("internal_policy"),
-      v.literal("security"),
-      v.literal("data_privacy"),
-      v.literal("financial"),
-      v.literal("operational")
-    ),
-    status: v.union(
-      v.literal("compliant"),
-      v.literal("non_compliant"),
-      v.literal("pending_review"),
-      v.literal("remediation_required")
-    ),
+    enterpriseId: v.optional(v.id("enterprises")),
+    checkType: v.union(...complianceCheckTypeOptions.map(option => v.literal(option))),
+    status: v.union(...complianceCheckStatusOptions.map(option => v.literal(option))),
     checkedAt: v.string(),
     checkedBy: v.optional(v.id("users")),
-    nextCheckDue: v.optional(v.string()),
+    checkedByAgentId: v.optional(v.id("agents")), // Set when the compliance agent evaluated it
+    nextCheckDue: v.optional(v.string()), // Unset once the contract is no longer active
     issues: v.optional(v.array(v.object({
       description: v.string(),
-      severity: v.union(v.literal("critical"), v.literal("high"), v.literal("medium"), v.literal("low")),
+      severity: v.union(...complianceIssueSeverityOptions.map(option => v.literal(option))),
       remediationRequired: v.boolean(),
       resolvedAt: v.optional(v.string()),
     }))),
@@ -342,7 +982,36 @@ export default defineSchema({
   })
   .index("by_contract", ["contractId"])
   .index("by_status", ["status"])
-  .index("by_next_check", ["nextCheckDue"]),
+  .index("by_next_check", ["nextCheckDue"])
+  .index("by_enterprise_next_check", ["enterpriseId", "nextCheckDue"]),
+
+  // ===== RISK REGISTER =====
+  // Composite risk of each active contract and each vendor with active
+  // contracts, kept by the risk agent (agents/risk.ts)
+  riskRegister: defineTable({
+    enterpriseId: v.id("enterprises"),
+    subjectType: v.union(v.literal("contract"), v.literal("vendor")),
+    contractId: v.optional(v.id("contracts")),
+    vendorId: v.optional(v.id("vendors")),
+    score: v.number(), // 0-100
+    level: v.union(...riskRegisterLevelOptions.map(option => v.literal(option))),
+    previousScore: v.optional(v.number()),
+    trend: v.union(v.literal("rising"), v.literal("falling"), v.literal("stable")),
+    factors: v.array(v.object({
+      key: v.string(),
+      label: v.string(),
+      score: v.number(), // 0-100
+      weight: v.number(),
+      detail: v.string(),
+    })),
+    assessedAt: v.string(),
+    assessedByAgentId: v.id("agents"),
+    createdAt: v.string(),
+  })
+  .index("by_enterprise_subject", ["enterpriseId", "subjectType", "score"])
+  .index("by_enterprise_level", ["enterpriseId", "level"])
+  .index("by_contract", ["contractId"])
+  .index("by_vendor", ["vendorId"]),
 
   // ===== BUDGET TRACKING =====
   budgets: defineTable({
@@ -355,8 +1024,9 @@ export default defineSchema({
       v.literal("project"),
       v.literal("department")
     ),
-    departmentId: v.optional(v.string()),
+    departmentId: v.optional(v.union(v.id("departments"), v.string())), // Legacy free text until migrated
     totalBudget: v.number(),
+    currency: v.optional(v.string()), // ISO 4217 code of the budget amounts; the reporting currency when unset
     allocatedAmount: v.number(),
     spentAmount: v.number(),
     committedAmount: v.number(), // Future committed spend from contracts
@@ -377,6 +1047,9 @@ export default defineSchema({
       threshold: v.number(),
       triggeredAt: v.string(),
       acknowledged: v.boolean(),
+      // forecast_exceed only: when the projection crosses the budget and by how much it ends over
+      expectedOverrunDate: v.optional(v.string()),
+      expectedOverrunAmount: v.optional(v.number()),
     }))),
   })
   .index("by_enterprise", ["enterpriseId"])
@@ -387,7 +1060,11 @@ export default defineSchema({
   contractBudgetAllocations: defineTable({
     contractId: v.id("contracts"),
     budgetId: v.id("budgets"),
-    allocatedAmount: v.number(),
+    allocatedAmount: v.number(), // In the budget's currency
+    // The contract amount before conversion, when it was in another currency
+    originalAmount: v.optional(v.number()),
+    originalCurrency: v.optional(v.string()),
+    fxRate: v.optional(v.number()),
     allocationType: v.union(
       v.literal("full"), // Full contract value
       v.literal("prorated"), // Prorated for budget period
@@ -400,6 +1077,58 @@ export default defineSchema({
   .index("by_contract", ["contractId"])
   .index("by_budget", ["budgetId"]),
 
+  // ===== FX RATES =====
+  // Dated exchange rates per enterprise: 1 baseCurrency = rate quoteCurrency.
+  // Conversions use the latest rate on or before the date being converted.
+  fxRates: defineTable({
+    enterpriseId: v.id("enterprises"),
+    baseCurrency: v.string(),
+    quoteCurrency: v.string(),
+    rate: v.number(),
+    rateDate: v.string(), // YYYY-MM-DD
+    source: v.union(v.literal("csv"), v.literal("provider"), v.literal("manual")),
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.string(),
+  })
+  .index("by_enterprise", ["enterpriseId"])
+  .index("by_enterprise_pair_date", ["enterpriseId", "baseCurrency", "quoteCurrency", "rateDate"]),
+
+  // ===== SPEND =====
+  // Supplier invoices and purchase orders, matched to a vendor and contract.
+  // Matched invoices roll up into budgets.spentAmount and open POs into
+  // committedAmount through the contract's budget allocations.
+  spendRecords: defineTable({
+    enterpriseId: v.id("enterprises"),
+    type: v.union(v.literal("invoice"), v.literal("purchase_order")),
+    documentNumber: v.string(), // Invoice or PO number from the source system
+    poNumber: v.optional(v.string()), // PO an invoice was raised against
+    vendorName: v.string(), // As it appeared on the document
+    vendorId: v.optional(v.id("vendors")),
+    contractId: v.optional(v.id("contracts")),
+    amount: v.number(),
+    currency: v.string(),
+    spendDate: v.string(), // YYYY-MM-DD invoice or order date
+    description: v.optional(v.string()),
+    matchStatus: v.union(
+      v.literal("matched"), // Vendor and contract found
+      v.literal("vendor_only"), // Vendor found but no contract
+      v.literal("unmatched")
+    ),
+    matchScore: v.optional(v.number()), // Vendor name similarity, 1 for an exact or explicit match
+    flags: v.array(v.union(
+      v.literal("exceeds_contract_pricing"),
+      v.literal("outside_contract_term")
+    )),
+    anomalyReportedAt: v.optional(v.string()), // When the financial agent raised an insight for the flags
+    source: v.union(v.literal("csv"), v.literal("api"), v.literal("manual")),
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.string(),
+  })
+  .index("by_enterprise", ["enterpriseId"])
+  .index("by_enterprise_document", ["enterpriseId", "type", "documentNumber"])
+  .index("by_contract", ["contractId"])
+  .index("by_vendor", ["vendorId"]),
+
   invitations: defineTable({
     enterpriseId: v.id("enterprises"),
     email: v.string(),
@@ -674,15 +1403,20 @@ export default defineSchema({
       role: v.union(v.literal("user"), v.literal("assistant"), v.literal("system")),
       content: v.string(),
       timestamp: v.string(),
+      // Assistant replies only: streaming while being written; unset on replies from before streaming
+      status: v.optional(v.union(v.literal("streaming"), v.literal("complete"), v.literal("failed"))),
+      // What the user attached, or on assistant replies the records cited, in citation order
       attachments: v.optional(v.array(v.object({
-        type: v.union(v.literal("contract"), v.literal("vendor")),
+        type: v.union(v.literal("contract"), v.literal("vendor"), v.literal("clause")),
         id: v.string(),
-        title: v.string()
+        title: v.string(),
+        contractId: v.optional(v.string()) // The contract a cited clause belongs to
       }))),
       metadata: v.optional(v.object({
         model: v.optional(v.string()),
         tokens: v.optional(v.number()),
-        processingTime: v.optional(v.number())
+        processingTime: v.optional(v.number()),
+        tools: v.optional(v.array(v.string())) // Tools called for the reply
       }))
     })),
     context: v.optional(v.object({
@@ -692,7 +1426,8 @@ export default defineSchema({
     })),
     createdAt: v.string(),
     updatedAt: v.string(),
-    isActive: v.boolean()
+    isActive: v.boolean(),
+    anonymizedAt: v.optional(v.string()), // Messages removed by a retention rule
   })
     .index("by_user", ["userId"])
     .index("by_enterprise", ["enterpriseId"])
@@ -721,6 +1456,74 @@ export default defineSchema({
     .index("by_insight", ["insightId"])
     .index("by_agent", ["agentId"]),
 
+  // ===== CONTRACT OBLIGATIONS =====
+  // Duties taken from a contract (extracted on analysis or added by hand), with
+  // due dates tracked by the secretary agent. Recurring obligations roll forward
+  // to their next occurrence when fulfilled.
+  obligations: defineTable({
+    enterpriseId: v.id("enterprises"),
+    contractId: v.id("contracts"),
+    vendorId: v.optional(v.id("vendors")),
+    title: v.string(),
+    description: v.optional(v.string()),
+    type: v.union(...obligationTypeOptions.map(option => v.literal(option))),
+    ownerParty: v.union(...obligationPartyOptions.map(option => v.literal(option))),
+    dueDate: v.optional(v.string()), // ISO date of the current occurrence
+    recurrence: v.optional(v.union(...obligationRecurrenceOptions.map(option => v.literal(option)))),
+    evidenceRequired: v.optional(v.string()), // What proves fulfilment, e.g. "Certificate of insurance"
+    evidence: v.optional(v.array(obligationEvidenceValidator)),
+    assignedTo: v.optional(v.id("users")),
+    status: v.union(...obligationStatusOptions.map(option => v.literal(option))),
+    source: v.union(v.literal("extracted"), v.literal("manual")),
+    sourceText: v.optional(v.string()), // Contract sentence the obligation was extracted from
+    confidence: v.optional(v.number()),
+    reminderDaysBefore: v.number(),
+    lastReminderAt: v.optional(v.string()),
+    lastReminderStatus: v.optional(v.union(...obligationStatusOptions.map(option => v.literal(option)))),
+    compliancePenalty: v.optional(v.number()), // Taken off the vendor's complianceScore while overdue
+    previousOccurrenceId: v.optional(v.id("obligations")),
+    completedAt: v.optional(v.string()),
+    completedBy: v.optional(v.id("users")),
+    waiverReason: v.optional(v.string()),
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.string(),
+    updatedAt: v.string(),
+  })
+    .index("by_contract", ["contractId"])
+    .index("by_enterprise_status", ["enterpriseId", "status"])
+    .index("by_enterprise_status_due", ["enterpriseId", "status", "dueDate"])
+    .index("by_vendor_status", ["vendorId", "status"])
+    .index("by_assignee_status", ["assignedTo", "status"]),
+
+  // ===== CONTRACT RENEWALS =====
+  // One row per contract term: the renew / renegotiate / terminate decision,
+  // its owner, and the escalating reminders sent ahead of the cancellation
+  // deadline.
+  contractRenewals: defineTable({
+    enterpriseId: v.id("enterprises"),
+    contractId: v.id("contracts"),
+    termEndDate: v.string(), // ISO date the current term ends
+    cancellationDeadline: v.string(), // Last day to give notice (term end when there is no notice period)
+    noticePeriodDays: v.optional(v.number()),
+    isAutoRenew: v.boolean(),
+    ownerId: v.optional(v.id("users")),
+    status: v.union(...renewalStatusOptions.map(option => v.literal(option))),
+    decision: v.union(...renewalDecisionOptions.map(option => v.literal(option))),
+    decisionNotes: v.optional(v.string()),
+    decidedBy: v.optional(v.id("users")),
+    decidedAt: v.optional(v.string()),
+    noticeObligationId: v.optional(v.id("obligations")), // Notice to send for terminate / renegotiate
+    reminderOffsets: v.array(v.number()), // Days before the deadline, most distant first
+    remindersSent: v.array(v.number()), // Offsets already reminded
+    lastReminderAt: v.optional(v.string()),
+    createdAt: v.string(),
+    updatedAt: v.string(),
+  })
+    .index("by_contract", ["contractId"])
+    .index("by_enterprise_deadline", ["enterpriseId", "cancellationDeadline"])
+    .index("by_status_deadline", ["status", "cancellationDeadline"])
+    .index("by_owner_status", ["ownerId", "status"]),
+
   // ===== CONTRACT CLAUSES TABLE =====
   contractClauses: defineTable({
     contractId: v.id("contracts"),
@@ -732,14 +1535,63 @@ export default defineSchema({
     riskLevel: v.union(v.literal("low"), v.literal("medium"), v.literal("high")),
     recommendations: v.array(v.string()),
     embedding: v.optional(v.array(v.number())),
+    // Comparison against the clause library entry (and version) for this type
+    libraryEntryId: v.optional(v.id("clauseLibrary")),
+    libraryVersion: v.optional(v.number()),
+    deviationStatus: v.optional(v.union(...clauseDeviationStatusOptions.map(option => v.literal(option)))),
+    similarity: v.optional(v.number()),
+    matchedFallbackRank: v.optional(v.number()),
+    suggestedFallback: v.optional(clauseFallbackValidator),
     createdAt: v.string(),
     updatedAt: v.optional(v.string())
   })
     .index("by_contract", ["contractId"])
+    .index("by_contract_type", ["contractId", "clauseType"])
     .index("by_enterprise", ["enterpriseId"])
     .index("by_type", ["clauseType"])
     .index("by_risk", ["riskLevel"]),
 
+  // ===== CLAUSE LIBRARY =====
+  // Enterprise-maintained standard clauses with ranked fallback positions.
+  // Edits bump `version`; previous versions are kept in clauseLibraryVersions.
+  clauseLibrary: defineTable({
+    enterpriseId: v.id("enterprises"),
+    clauseType: v.string(), // e.g. "limitation_of_liability"
+    title: v.string(),
+    description: v.optional(v.string()),
+    standardText: v.string(),
+    fallbacks: v.array(clauseFallbackValidator),
+    keywords: v.array(v.string()), // Used to locate the clause in contract text
+    isCritical: v.boolean(), // Missing or deviating language is high risk
+    contractTypes: v.array(v.string()), // Contract types requiring the clause; empty means all
+    version: v.number(),
+    isActive: v.boolean(),
+    inheritedFrom: v.optional(inheritedPolicyValidator),
+    createdBy: v.id("users"),
+    createdAt: v.string(),
+    updatedBy: v.optional(v.id("users")),
+    updatedAt: v.optional(v.string()),
+  })
+    .index("by_enterprise", ["enterpriseId"])
+    .index("by_enterprise_type", ["enterpriseId", "clauseType"])
+    .index("by_enterprise_active", ["enterpriseId", "isActive"]),
+
+  clauseLibraryVersions: defineTable({
+    entryId: v.id("clauseLibrary"),
+    version: v.number(),
+    title: v.string(),
+    standardText: v.string(),
+    fallbacks: v.array(clauseFallbackValidator),
+    keywords: v.array(v.string()),
+    isCritical: v.boolean(),
+    contractTypes: v.array(v.string()),
+    changes: v.string(),
+    createdAt: v.string(),
+    createdBy: v.id("users"),
+  })
+    .index("by_entry", ["entryId"])
+    .index("by_version", ["entryId", "version"]),
+
   // ===== ANALYTICS CACHE TABLE =====
   analyticsCache: defineTable({
     key: v.string(),
@@ -767,6 +1619,9 @@ export default defineSchema({
     description: v.optional(v.string()),
     events: v.array(v.string()),
     secret: v.string(),
+    // Previous secret stays valid for signing until the rotation grace window ends
+    previousSecret: v.optional(v.string()),
+    previousSecretExpiresAt: v.optional(v.string()),
     isActive: v.boolean(),
     headers: v.record(v.string(), v.string()),
     retryConfig: v.object({
@@ -778,8 +1633,10 @@ export default defineSchema({
     createdAt: v.string(),
     updatedAt: v.optional(v.string()),
     lastTriggeredAt: v.optional(v.string()),
-    failureCount: v.number(),
+    failureCount: v.number(), // Consecutive dead-lettered deliveries
     successCount: v.number(),
+    // Consecutive dead letters before the endpoint is disabled (default in webhookDelivery.ts)
+    autoDisableThreshold: v.optional(v.number()),
   })
     .index("by_enterprise", ["enterpriseId"])
     .index("by_active", ["isActive"])
@@ -787,6 +1644,8 @@ export default defineSchema({
 
   webhookDeliveries: defineTable({
     webhookId: v.id("webhooks"),
+    enterpriseId: v.optional(v.id("enterprises")),
+    eventId: v.optional(v.string()), // Envelope id from webhookEvents; stable across retries and replays
     event: v.string(),
     payload: v.any(),
     response: v.optional(v.string()),
@@ -795,11 +1654,33 @@ export default defineSchema({
     error: v.optional(v.string()),
     duration: v.number(),
     retryCount: v.number(),
-    deliveredAt: v.string(),
+    deliveredAt: v.string(), // Time of the latest attempt (enqueue time while pending)
+    // Durable queue state (absent on deliveries recorded before the queue existed)
+    status: v.optional(v.union(...webhookDeliveryStatusOptions.map(option => v.literal(option)))),
+    createdAt: v.optional(v.string()),
+    lastAttemptAt: v.optional(v.string()),
+    nextAttemptAt: v.optional(v.string()),
   })
     .index("by_webhook", ["webhookId"])
     .index("by_delivered", ["deliveredAt"])
-    .index("by_webhook_delivered", ["webhookId", "deliveredAt"]),
+    .index("by_webhook_delivered", ["webhookId", "deliveredAt"])
+    .index("by_enterprise_status", ["enterpriseId", "status"])
+    .index("by_status_next_attempt", ["status", "nextAttemptAt"])
+    .index("by_event_id", ["eventId"]),
+
+  // Outbox of domain events emitted by mutations; each row fans out to webhookDeliveries
+  webhookEvents: defineTable({
+    eventId: v.string(),
+    enterpriseId: v.id("enterprises"),
+    type: v.string(),
+    occurredAt: v.string(),
+    data: v.any(),
+    previous: v.optional(v.any()),
+    deliveryCount: v.number(),
+  })
+    .index("by_enterprise_occurred", ["enterpriseId", "occurredAt"])
+    .index("by_enterprise_type", ["enterpriseId", "type"])
+    .index("by_event_id", ["eventId"]),
 
   // ===== API KEY MANAGEMENT =====
   apiKeys: defineTable({
@@ -842,6 +1723,23 @@ export default defineSchema({
     .index("by_timestamp", ["timestamp"])
     .index("by_key_timestamp", ["apiKeyId", "timestamp"]),
 
+  // ===== AI USAGE =====
+  // Tokens used by each model call, for cost reporting per enterprise
+  aiUsage: defineTable({
+    enterpriseId: v.optional(v.id("enterprises")), // Unset for platform work such as memory embeddings
+    provider: v.string(),
+    model: v.string(),
+    operation: v.union(v.literal("chat"), v.literal("json"), v.literal("embedding")),
+    feature: v.string(), // Calling feature, e.g. "chat" or "contract_analysis"
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    totalTokens: v.number(),
+    estimated: v.boolean(), // Counted from text length; the provider reported no usage
+    durationMs: v.number(),
+    timestamp: v.string(),
+  })
+    .index("by_enterprise_timestamp", ["enterpriseId", "timestamp"]),
+
   // ===== BACKUP & RECOVERY =====
   backups: defineTable({
     enterpriseId: v.id("enterprises"),
@@ -24,7 +24,7 @@ import {
 // ============================================================================
 
 const contractStatusOptions = [
-  "draft", "pending_analysis", "active", "expired", "terminated", "archived",
+  "draft", "pending_analysis", "pending_approval", "active", "expired", "terminated", "archived",
 ] as const;
 
 const analysisStatusOptions = [
@@ -19,11 +19,12 @@ const agentStatusOptions = [ // Renamed
 ] as const;
 
 // Agent types - **MAKE THIS LIST COMPREHENSIVE based on agents.types.ts**
-const agentTypeOptions = [ // Renamed and ensure this matches your full list
+export const agentTypeOptions = [ // Renamed and ensure this matches your full list
   "manager", "secretary", "financial", "notifications", "legal",
   "analytics", "vendor", "workflow", "compliance", "risk", "audit",
   "integration", "scheduler", "backup", "monitor" // Added missing types
 ] as const;
+export type AgentType = typeof agentTypeOptions[number];
 
 // Insight types - **MAKE THIS LIST COMPREHENSIVE**
 const insightTypeOptions = [ // Renamed and ensure this matches your full list
@@ -53,7 +54,10 @@ const logLevelOptions = [
 
 export const agentTables = {
   // Agent system configuration and status
+  // One per enterprise. Rows without an enterprise predate per-enterprise
+  // agents; migrations/scopeAgentsToEnterprises moves them over.
   agentSystem: defineTable({
+    enterpriseId: v.optional(v.id("enterprises")),
     isRunning: v.boolean(),
     status: v.union(...agentSystemStatusOptions.map(s => v.literal(s))),
     lastStarted: v.optional(v.string()), // ISO 8601
@@ -84,10 +88,13 @@ export const agentTables = {
         lastHealthCheck: v.optional(v.string()), // ISO 8601
         performanceScore: v.optional(v.number()),
     })),
-  }),
+  })
+  .index("by_enterprise", ["enterpriseId"])
+  .index("by_running", ["isRunning"]),
 
   // Individual agent configurations and status
   agents: defineTable({
+    enterpriseId: v.optional(v.id("enterprises")), // Unset only on rows from before agents were per-enterprise
     name: v.string(),
     type: v.union(...agentTypeOptions.map(t => v.literal(t))),
     status: v.union(...agentStatusOptions.map(s => v.literal(s))),
@@ -126,11 +133,13 @@ export const agentTables = {
     updatedAt: v.optional(v.string()), // Your defined ISO 8601 string
   })
   .index("by_type", ["type"])
-  .index("by_status", ["status"]),
+  .index("by_status", ["status"])
+  .index("by_enterprise_type", ["enterpriseId", "type"]),
 
   // Agent-generated insights and analysis
   agentInsights: defineTable({
     agentId: v.id("agents"),
+    enterpriseId: v.optional(v.id("enterprises")), // The agent's enterprise
     type: v.union(...insightTypeOptions.map(t => v.literal(t))),
     title: v.string(),
     description: v.string(),
@@ -154,12 +163,15 @@ export const agentTables = {
   .index("by_contract", ["contractId"])
   .index("by_vendor", ["vendorId"]) // Added for consistency if you query by vendorId
   .index("by_unread_and_createdAt", ["isRead", "createdAt"]) // Composite for sorting unread
-  .index("by_createdAt", ["createdAt"]), // For querying by your string createdAt
+  .index("by_createdAt", ["createdAt"]) // For querying by your string createdAt
+  .index("by_enterprise_created", ["enterpriseId", "createdAt"])
+  .index("by_enterprise_type", ["enterpriseId", "type"]),
 
   // Task queue for agent coordination
   agentTasks: defineTable({
     assignedAgentId: v.id("agents"),
     createdByAgentId: v.optional(v.id("agents")),
+    enterpriseId: v.optional(v.id("enterprises")), // The assigned agent's enterprise
     taskType: v.string(), // Could be a union if you have a known set of task types
     status: v.union(...taskStatusOptions.map(s => v.literal(s))),
     priority: v.union(...taskPriorityOptions.map(p => v.literal(p))),
@@ -184,7 +196,8 @@ export const agentTables = {
   .index("by_priority", ["priority"])
   .index("by_scheduled_and_status", ["scheduledFor", "status"]) // For querying scheduled tasks by status
   .index("by_status_and_scheduled", ["status", "scheduledFor"]) // For filtering by status then sorting by scheduled time
-  .index("by_createdAt", ["createdAt"]), // For querying by your string createdAt
+  .index("by_createdAt", ["createdAt"]) // For querying by your string createdAt
+  .index("by_enterprise_status", ["enterpriseId", "status"]),
 
   // Agent execution logs
   agentLogs: defineTable({
@@ -197,10 +210,13 @@ export const agentTables = {
     category: v.optional(v.string()), // Added from manager.ts usage
     source: v.optional(v.string()), // Added from agents.types.ts
     userId: v.optional(v.string()), // Added from agents.types.ts
+    enterpriseId: v.optional(v.id("enterprises")), // The agent's enterprise; its retention rules apply
   })
   .index("by_agent", ["agentId"])
   .index("by_level", ["level"])
   .index("by_timestamp", ["timestamp"]) // Index for your event timestamp
+  .index("by_enterprise_timestamp", ["enterpriseId", "timestamp"])
+  .index("by_enterprise_level", ["enterpriseId", "level"])
   .index("by_agent_and_level", ["agentId", "level"])
   .index("by_category", ["category"]), // Index if you query by category
 };
\ No newline at end of file
@@ -9,6 +9,8 @@ const notificationTypeOptions = [
   "contract_created",
   "approval_required",
   "payment_reminder",
+  "obligation_reminder",
+  "renewal_reminder",
   "vendor_risk_alert",
   "compliance_issue",
   "task_assigned",
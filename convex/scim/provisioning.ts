@@ -0,0 +1,202 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, mutation } from "../_generated/server";
+import { groupRoleOptions } from "../schema";
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
+import { assertEnterpriseDepartment } from "../departments";
+import { withoutFields } from "../lib/documentFields";
+import { applyGroupAssignments, listEnterpriseGroups } from "./scimData";
+import { generateScimToken, hashScimToken, SCIM_BASE_PATH } from "./scimProtocol";
+import { appendAuditLog } from "../auditLogging";
+
+/**
+ * SCIM provisioning settings
+ *
+ * Admins issue the tokens identity providers call the SCIM endpoints with,
+ * and map the groups those providers push to a role, custom role and
+ * department for their members.
+ */
+
+const MAX_TOKEN_NAME_LENGTH = 60;
+
+// Show enough of a token to tell tokens apart
+const TOKEN_PREFIX_LENGTH = 12;
+
+/**
+ * Tokens, pushed groups and the endpoint to configure in the identity provider
+ */
+export const getProvisioningSettings = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "sso.manage");
+
+    const tokens = await ctx.db
+      .query("scimTokens")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+      .collect();
+    const groups = await listEnterpriseGroups(ctx, securityContext.enterpriseId);
+    const provisionedUsers = await ctx.db
+      .query("users")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+      .filter((q) => q.and(q.eq(q.field("provisionedVia"), "scim"), q.eq(q.field("deprovisionedAt"), undefined)))
+      .collect();
+
+    return {
+      endpoint: process.env.CONVEX_SITE_URL ? `${process.env.CONVEX_SITE_URL}${SCIM_BASE_PATH}` : null,
+      provisionedUserCount: provisionedUsers.length,
+      tokens: tokens
+        .filter(token => !token.revokedAt)
+        .map(token => ({
+          _id: token._id,
+          name: token.name,
+          tokenPrefix: token.tokenPrefix,
+          createdAt: token.createdAt,
+          lastUsedAt: token.lastUsedAt,
+        })),
+      groups: groups
+        .sort((a, b) => a.displayName.localeCompare(b.displayName))
+        .map(group => ({
+          _id: group._id,
+          displayName: group.displayName,
+          memberCount: group.memberIds.length,
+          role: group.role,
+          customRoleId: group.customRoleId,
+          departmentId: group.departmentId,
+        })),
+    };
+  },
+});
+
+/**
+ * Issue a SCIM token. The token is only returned here; just its hash is kept.
+ */
+export const createScimToken = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "sso.manage");
+
+    const name = args.name.trim();
+    if (!name) {
+      throw new ConvexError("Token name is required");
+    }
+    if (name.length > MAX_TOKEN_NAME_LENGTH) {
+      throw new ConvexError(`Token name must be ${MAX_TOKEN_NAME_LENGTH} characters or less`);
+    }
+
+    const token = generateScimToken();
+    const now = new Date().toISOString();
+    const tokenId = await ctx.db.insert("scimTokens", {
+      enterpriseId: securityContext.enterpriseId,
+      name,
+      tokenHash: await hashScimToken(token),
+      tokenPrefix: token.slice(0, TOKEN_PREFIX_LENGTH),
+      createdBy: securityContext.userId,
+      createdAt: now,
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "createScimToken",
+      resourceType: "scimTokens",
+      resourceId: tokenId,
+      action: "create",
+      status: "success",
+      timestamp: now,
+      metadata: { name },
+    });
+
+    return { tokenId, token };
+  },
+});
+
+export const revokeScimToken = mutation({
+  args: { tokenId: v.id("scimTokens") },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "sso.manage");
+
+    const token = await ctx.db.get(args.tokenId);
+    if (!token || token.enterpriseId !== securityContext.enterpriseId || token.revokedAt) {
+      throw new ConvexError("SCIM token not found");
+    }
+
+    const now = new Date().toISOString();
+    await ctx.db.patch(token._id, { revokedAt: now, revokedBy: securityContext.userId });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "revokeScimToken",
+      resourceType: "scimTokens",
+      resourceId: token._id,
+      action: "delete",
+      status: "success",
+      timestamp: now,
+      metadata: { name: token.name },
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Set what a pushed group gives its members; null clears a mapping. Members
+ * are updated straight away.
+ */
+export const mapScimGroup = mutation({
+  args: {
+    groupId: v.id("scimGroups"),
+    role: v.union(...groupRoleOptions.map(option => v.literal(option)), v.null()),
+    customRoleId: v.union(v.id("customRoles"), v.null()),
+    departmentId: v.union(v.id("departments"), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "sso.manage");
+    // Mapping a group hands out roles, so it takes the right to assign them
+    requirePermission(securityContext, "roles.manage");
+
+    const group = await ctx.db.get(args.groupId);
+    if (!group || group.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Group not found");
+    }
+    if (args.customRoleId) {
+      const customRole = await ctx.db.get(args.customRoleId);
+      if (!customRole || customRole.enterpriseId !== securityContext.enterpriseId) {
+        throw new ConvexError("Custom role not found");
+      }
+    }
+    if (args.departmentId) {
+      await assertEnterpriseDepartment(ctx, securityContext.enterpriseId, args.departmentId);
+    }
+
+    await ctx.db.replace(group._id, {
+      ...withoutFields(group, ["role", "customRoleId", "departmentId"]),
+      ...(args.role ? { role: args.role } : {}),
+      ...(args.customRoleId ? { customRoleId: args.customRoleId } : {}),
+      ...(args.departmentId ? { departmentId: args.departmentId } : {}),
+      updatedAt: new Date().toISOString(),
+    });
+    await applyGroupAssignments(ctx, securityContext.enterpriseId, group.memberIds);
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "mapScimGroup",
+      resourceType: "scimGroups",
+      resourceId: group._id,
+      action: "update",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      changes: {
+        before: { role: group.role, customRoleId: group.customRoleId, departmentId: group.departmentId },
+        after: { role: args.role, customRoleId: args.customRoleId, departmentId: args.departmentId },
+      },
+    });
+
+    return { success: true, updatedMembers: group.memberIds.length };
+  },
+});
@@ -0,0 +1,114 @@
+import { ConvexError } from "convex/values";
+import { httpAction, ActionCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { Id } from "../_generated/dataModel";
+import { handleScimRequest, ScimStore } from "./scimServer";
+import {
+  hashScimToken,
+  ScimError,
+  ScimErrorType,
+  SCIM_BASE_PATH,
+  SCIM_CONTENT_TYPE,
+  toScimErrorBody,
+} from "./scimProtocol";
+
+/**
+ * SCIM 2.0 endpoints
+ *
+ * Identity providers (Okta, Azure AD, OneLogin, ...) create, update and
+ * deactivate an enterprise's users and groups through /scim/v2/Users and
+ * /scim/v2/Groups. Requests carry an enterprise SCIM token as a Bearer token;
+ * everything they touch is scoped to that token's enterprise.
+ */
+
+interface ScimActor {
+  enterpriseId: Id<"enterprises">;
+  actorId: Id<"users">;
+  tokenId: Id<"scimTokens">;
+}
+
+// Dispatcher for every /scim/v2/* request
+export const handleScimHttpRequest = httpAction(async (ctx, request) => {
+  const url = new URL(request.url);
+
+  const token = extractBearerToken(request);
+  const actor: ScimActor | null = token
+    ? await ctx.runMutation(internal.scim.scimData.authenticateToken, { tokenHash: await hashScimToken(token) })
+    : null;
+  if (!actor) {
+    return scimResponse(401, toScimErrorBody(401, "Missing or invalid SCIM token"), { "WWW-Authenticate": "Bearer" });
+  }
+
+  let body: unknown = null;
+  if (["POST", "PUT", "PATCH"].includes(request.method)) {
+    try {
+      body = await request.json();
+    } catch {
+      return scimResponse(400, toScimErrorBody(400, "Request body must be valid JSON", "invalidSyntax"));
+    }
+  }
+
+  try {
+    const response = await handleScimRequest(createConvexScimStore(ctx, actor), {
+      method: request.method,
+      path: url.pathname.slice(SCIM_BASE_PATH.length),
+      query: url.searchParams,
+      body,
+      baseUrl: `${url.origin}${SCIM_BASE_PATH}`,
+    });
+    return scimResponse(response.status, response.body);
+  } catch (error) {
+    console.error(`SCIM error on ${request.method} ${url.pathname}:`, error);
+    return scimResponse(500, toScimErrorBody(500, "Internal server error"));
+  }
+});
+
+/**
+ * SCIM storage backed by the enterprise's users and scimGroups
+ */
+function createConvexScimStore(ctx: ActionCtx, actor: ScimActor): ScimStore {
+  const { enterpriseId } = actor;
+  return {
+    listUsers: () => ctx.runQuery(internal.scim.scimData.listUsers, { enterpriseId }),
+    getUser: (userId) => ctx.runQuery(internal.scim.scimData.getUser, { enterpriseId, userId }),
+    createUser: (fields) => withScimErrors(ctx.runMutation(internal.scim.scimData.createUser, { ...actor, fields })),
+    replaceUser: (userId, fields) => withScimErrors(ctx.runMutation(internal.scim.scimData.replaceUser, { ...actor, userId, fields })),
+    deleteUser: (userId) => withScimErrors(ctx.runMutation(internal.scim.scimData.deleteUser, { ...actor, userId })),
+    listGroups: () => ctx.runQuery(internal.scim.scimData.listGroups, { enterpriseId }),
+    getGroup: (groupId) => ctx.runQuery(internal.scim.scimData.getGroup, { enterpriseId, groupId }),
+    createGroup: (fields) => withScimErrors(ctx.runMutation(internal.scim.scimData.createGroup, { ...actor, fields })),
+    replaceGroup: (groupId, fields) => withScimErrors(ctx.runMutation(internal.scim.scimData.replaceGroup, { ...actor, groupId, fields })),
+    deleteGroup: (groupId) => withScimErrors(ctx.runMutation(internal.scim.scimData.deleteGroup, { ...actor, groupId })),
+  };
+}
+
+// Conflicts and refusals from scimData arrive as ConvexErrors carrying a status
+async function withScimErrors<T>(promise: Promise<T>): Promise<T> {
+  try {
+    return await promise;
+  } catch (error) {
+    if (error instanceof ConvexError && typeof error.data === "object" && error.data?.scimStatus) {
+      const data = error.data as { scimStatus: number; scimType?: ScimErrorType; message: string };
+      throw new ScimError(data.scimStatus, data.message, data.scimType);
+    }
+    throw error;
+  }
+}
+
+function extractBearerToken(request: Request): string | null {
+  const authorization = request.headers.get("authorization");
+  if (!authorization?.toLowerCase().startsWith("bearer ")) {
+    return null;
+  }
+  return authorization.slice(7).trim() || null;
+}
+
+function scimResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(status === 204 ? null : JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": SCIM_CONTENT_TYPE,
+      ...headers,
+    },
+  });
+}
@@ -0,0 +1,557 @@
+import { v, Infer } from "convex/values";
+import { ConvexError } from "convex/values";
+import { internalMutation, internalQuery, MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { withoutFields } from "../lib/documentFields";
+import { emitWebhookEvent, getPreviousValues } from "../integrations/webhookEvents";
+import { toUserEventData } from "../coreUsers";
+import {
+  PENDING_CLERK_ID_PREFIX,
+  resolveGroupAssignments,
+  ScimErrorType,
+  ScimGroupRecord,
+  ScimUserRecord,
+} from "./scimProtocol";
+import { appendAuditLog } from "../auditLogging";
+
+/**
+ * Data access for the SCIM endpoints (see scim.ts).
+ *
+ * These are internal functions: the HTTP layer authenticates the SCIM token
+ * and passes its enterprise in. Users created here have no Clerk account yet;
+ * they carry a placeholder clerkId until their first sign-in links them by
+ * email (see coreUsers.upsertUser). SCIM never hard-deletes users, since
+ * contracts and audit history point at them: DELETE deactivates and hides.
+ */
+
+// Don't write lastUsedAt on every request of a sync burst
+const TOKEN_USAGE_WRITE_INTERVAL_MS = 5 * 60 * 1000;
+
+const actorArgs = {
+  enterpriseId: v.id("enterprises"),
+  actorId: v.id("users"),
+  tokenId: v.id("scimTokens"),
+};
+
+const userFieldsValidator = v.object({
+  userName: v.string(),
+  externalId: v.optional(v.string()),
+  givenName: v.optional(v.string()),
+  familyName: v.optional(v.string()),
+  title: v.optional(v.string()),
+  phoneNumber: v.optional(v.string()),
+  active: v.boolean(),
+});
+
+const groupFieldsValidator = v.object({
+  displayName: v.string(),
+  externalId: v.optional(v.string()),
+  memberIds: v.array(v.string()),
+});
+
+interface ScimActor {
+  enterpriseId: Id<"enterprises">;
+  actorId: Id<"users">;
+  tokenId: Id<"scimTokens">;
+}
+
+// Thrown from mutations and turned into a SCIM error response by scim.ts
+function scimFailure(status: number, message: string, scimType?: ScimErrorType): ConvexError<{
+  scimStatus: number;
+  scimType?: ScimErrorType;
+  message: string;
+}> {
+  return new ConvexError({ scimStatus: status, ...(scimType ? { scimType } : {}), message });
+}
+
+// ============================================================================
+// AUTHENTICATION
+// ============================================================================
+
+/**
+ * Enterprise and actor for a SCIM token hash, or null for unknown and revoked
+ * tokens. The token's creator is recorded as the actor in audit logs.
+ */
+export const authenticateToken = internalMutation({
+  args: { tokenHash: v.string() },
+  handler: async (ctx, args): Promise<ScimActor | null> => {
+    const token = await ctx.db
+      .query("scimTokens")
+      .withIndex("by_token_hash", (q) => q.eq("tokenHash", args.tokenHash))
+      .first();
+    if (!token || token.revokedAt) {
+      return null;
+    }
+
+    const now = new Date();
+    if (!token.lastUsedAt || now.getTime() - new Date(token.lastUsedAt).getTime() > TOKEN_USAGE_WRITE_INTERVAL_MS) {
+      await ctx.db.patch(token._id, { lastUsedAt: now.toISOString() });
+    }
+
+    return { enterpriseId: token.enterpriseId, actorId: token.createdBy, tokenId: token._id };
+  },
+});
+
+// ============================================================================
+// USERS
+// ============================================================================
+
+export const listUsers = internalQuery({
+  args: { enterpriseId: v.id("enterprises") },
+  handler: async (ctx, args): Promise<ScimUserRecord[]> => {
+    const users = await ctx.db
+      .query("users")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", args.enterpriseId))
+      .collect();
+    const groups = await listEnterpriseGroups(ctx, args.enterpriseId);
+
+    return users
+      .filter(user => !user.deprovisionedAt)
+      .map(user => toUserRecord(user, groups));
+  },
+});
+
+export const getUser = internalQuery({
+  args: { enterpriseId: v.id("enterprises"), userId: v.string() },
+  handler: async (ctx, args): Promise<ScimUserRecord | null> => {
+    const user = await getProvisionableUser(ctx, args.enterpriseId, args.userId);
+    return user ? toUserRecord(user, await listEnterpriseGroups(ctx, args.enterpriseId)) : null;
+  },
+});
+
+/**
+ * Create a user, or bring back one deleted over SCIM earlier. A live user
+ * with the same userName is a conflict, so the identity provider looks them
+ * up and links them instead.
+ */
+export const createUser = internalMutation({
+  args: { ...actorArgs, fields: userFieldsValidator },
+  handler: async (ctx, args): Promise<ScimUserRecord> => {
+    const now = new Date().toISOString();
+    const existing = await findUserByEmail(ctx, args.fields.userName);
+
+    if (existing && (existing.enterpriseId !== args.enterpriseId || !existing.deprovisionedAt)) {
+      throw scimFailure(409, `User ${args.fields.userName} already exists`, "uniqueness");
+    }
+
+    let userId: Id<"users">;
+    if (existing) {
+      userId = existing._id;
+      await ctx.db.replace(existing._id, {
+        ...withoutFields(existing, ["deprovisionedAt", "externalId", "firstName", "lastName", "title", "phoneNumber"]),
+        ...toUserDocFields(args.fields),
+        provisionedVia: "scim",
+        updatedAt: now,
+      });
+    } else {
+      const userData = {
+        clerkId: `${PENDING_CLERK_ID_PREFIX}${args.enterpriseId}|${args.fields.userName}`,
+        enterpriseId: args.enterpriseId,
+        role: "user" as const,
+        ...toUserDocFields(args.fields),
+        provisionedVia: "scim" as const,
+        createdAt: now,
+      };
+      userId = await ctx.db.insert("users", userData);
+
+      await emitWebhookEvent(ctx, {
+        type: "user.created",
+        enterpriseId: args.enterpriseId,
+        data: { user: toUserEventData({ _id: userId, ...userData }) },
+      });
+    }
+
+    await logScimChange(ctx, args, existing ? "reprovisionUser" : "provisionUser", "users", userId, "create", {
+      after: args.fields,
+    });
+
+    const user = (await ctx.db.get(userId))!;
+    return toUserRecord(user, await listEnterpriseGroups(ctx, args.enterpriseId));
+  },
+});
+
+/**
+ * Replace a user's identity provider attributes. Attributes left out are
+ * cleared. Owners cannot be deactivated from the identity provider.
+ */
+export const replaceUser = internalMutation({
+  args: { ...actorArgs, userId: v.string(), fields: userFieldsValidator },
+  handler: async (ctx, args): Promise<ScimUserRecord | null> => {
+    const user = await getProvisionableUser(ctx, args.enterpriseId, args.userId);
+    if (!user) {
+      return null;
+    }
+    if (user.role === "owner" && !args.fields.active) {
+      throw scimFailure(400, "Owners cannot be deactivated through SCIM", "mutability");
+    }
+    if (args.fields.userName !== user.email) {
+      const existing = await findUserByEmail(ctx, args.fields.userName);
+      if (existing && existing._id !== user._id) {
+        throw scimFailure(409, `User ${args.fields.userName} already exists`, "uniqueness");
+      }
+    }
+
+    const updates = {
+      ...toUserDocFields(args.fields),
+      provisionedVia: "scim" as const,
+      updatedAt: new Date().toISOString(),
+    };
+    await ctx.db.replace(user._id, {
+      ...withoutFields(user, ["externalId", "firstName", "lastName", "title", "phoneNumber"]),
+      ...updates,
+    });
+
+    const previous = getPreviousValues(user, updates);
+    if (Object.keys(previous).length > 0) {
+      await emitWebhookEvent(ctx, {
+        type: "user.updated",
+        enterpriseId: args.enterpriseId,
+        data: { user: toUserEventData({ ...user, ...updates }) },
+        previous,
+      });
+      await logScimChange(ctx, args, args.fields.active ? "updateProvisionedUser" : "deactivateUser", "users", user._id, "update", {
+        before: previous,
+        after: args.fields,
+      });
+    }
+
+    const updated = (await ctx.db.get(user._id))!;
+    return toUserRecord(updated, await listEnterpriseGroups(ctx, args.enterpriseId));
+  },
+});
+
+/**
+ * Deprovision a user: deactivate them, drop them from every group and hide
+ * them from SCIM. Their records stay.
+ */
+export const deleteUser = internalMutation({
+  args: { ...actorArgs, userId: v.string() },
+  handler: async (ctx, args): Promise<boolean> => {
+    const user = await getProvisionableUser(ctx, args.enterpriseId, args.userId);
+    if (!user) {
+      return false;
+    }
+    if (user.role === "owner") {
+      throw scimFailure(400, "Owners cannot be deprovisioned through SCIM", "mutability");
+    }
+
+    const now = new Date().toISOString();
+    await ctx.db.patch(user._id, { isActive: false, deprovisionedAt: now, updatedAt: now });
+
+    for (const group of await listEnterpriseGroups(ctx, args.enterpriseId)) {
+      if (group.memberIds.includes(user._id)) {
+        await ctx.db.patch(group._id, {
+          memberIds: group.memberIds.filter(memberId => memberId !== user._id),
+          updatedAt: now,
+        });
+      }
+    }
+
+    if (user.isActive !== false) {
+      await emitWebhookEvent(ctx, {
+        type: "user.updated",
+        enterpriseId: args.enterpriseId,
+        data: { user: toUserEventData({ ...user, isActive: false }) },
+        previous: { isActive: user.isActive ?? null },
+      });
+    }
+    await logScimChange(ctx, args, "deprovisionUser", "users", user._id, "delete", {
+      before: { email: user.email, isActive: user.isActive },
+    });
+
+    return true;
+  },
+});
+
+// ============================================================================
+// GROUPS
+// ============================================================================
+
+export const listGroups = internalQuery({
+  args: { enterpriseId: v.id("enterprises") },
+  handler: async (ctx, args): Promise<ScimGroupRecord[]> => {
+    const groups = await listEnterpriseGroups(ctx, args.enterpriseId);
+    const users = await ctx.db
+      .query("users")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", args.enterpriseId))
+      .collect();
+    const usersById = new Map(users.map(user => [user._id as string, user]));
+
+    return groups.map(group => toGroupRecord(group, usersById));
+  },
+});
+
+export const getGroup = internalQuery({
+  args: { enterpriseId: v.id("enterprises"), groupId: v.string() },
+  handler: async (ctx, args): Promise<ScimGroupRecord | null> => {
+    const group = await getEnterpriseGroup(ctx, args.enterpriseId, args.groupId);
+    return group ? toGroupRecord(group, await getMembers(ctx, group.memberIds)) : null;
+  },
+});
+
+export const createGroup = internalMutation({
+  args: { ...actorArgs, fields: groupFieldsValidator },
+  handler: async (ctx, args): Promise<ScimGroupRecord> => {
+    await assertUniqueDisplayName(ctx, args.enterpriseId, args.fields.displayName);
+    const memberIds = await resolveMemberIds(ctx, args.enterpriseId, args.fields.memberIds);
+
+    const now = new Date().toISOString();
+    const groupId = await ctx.db.insert("scimGroups", {
+      enterpriseId: args.enterpriseId,
+      displayName: args.fields.displayName,
+      ...(args.fields.externalId ? { externalId: args.fields.externalId } : {}),
+      memberIds,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await applyGroupAssignments(ctx, args.enterpriseId, memberIds);
+    await logScimChange(ctx, args, "provisionGroup", "scimGroups", groupId, "create", {
+      after: { displayName: args.fields.displayName, memberCount: memberIds.length },
+    });
+
+    const group = (await ctx.db.get(groupId))!;
+    return toGroupRecord(group, await getMembers(ctx, group.memberIds));
+  },
+});
+
+/**
+ * Replace a group's name and members. Members who joined or left get their
+ * role, custom role and department worked out again.
+ */
+export const replaceGroup = internalMutation({
+  args: { ...actorArgs, groupId: v.string(), fields: groupFieldsValidator },
+  handler: async (ctx, args): Promise<ScimGroupRecord | null> => {
+    const group = await getEnterpriseGroup(ctx, args.enterpriseId, args.groupId);
+    if (!group) {
+      return null;
+    }
+    if (args.fields.displayName.toLowerCase() !== group.displayName.toLowerCase()) {
+      await assertUniqueDisplayName(ctx, args.enterpriseId, args.fields.displayName);
+    }
+    const memberIds = await resolveMemberIds(ctx, args.enterpriseId, args.fields.memberIds);
+
+    await ctx.db.replace(group._id, {
+      ...withoutFields(group, ["externalId"]),
+      displayName: args.fields.displayName,
+      ...(args.fields.externalId ? { externalId: args.fields.externalId } : {}),
+      memberIds,
+      updatedAt: new Date().toISOString(),
+    });
+
+    const added = memberIds.filter(memberId => !group.memberIds.includes(memberId));
+    const removed = group.memberIds.filter(memberId => !memberIds.includes(memberId));
+    await applyGroupAssignments(ctx, args.enterpriseId, [...added, ...removed]);
+
+    if (added.length > 0 || removed.length > 0 || args.fields.displayName !== group.displayName) {
+      await logScimChange(ctx, args, "updateProvisionedGroup", "scimGroups", group._id, "update", {
+        before: { displayName: group.displayName },
+        after: { displayName: args.fields.displayName, addedMembers: added, removedMembers: removed },
+      });
+    }
+
+    const updated = (await ctx.db.get(group._id))!;
+    return toGroupRecord(updated, await getMembers(ctx, updated.memberIds));
+  },
+});
+
+export const deleteGroup = internalMutation({
+  args: { ...actorArgs, groupId: v.string() },
+  handler: async (ctx, args): Promise<boolean> => {
+    const group = await getEnterpriseGroup(ctx, args.enterpriseId, args.groupId);
+    if (!group) {
+      return false;
+    }
+
+    await ctx.db.delete(group._id);
+    await applyGroupAssignments(ctx, args.enterpriseId, group.memberIds);
+    await logScimChange(ctx, args, "deprovisionGroup", "scimGroups", group._id, "delete", {
+      before: { displayName: group.displayName, memberCount: group.memberIds.length },
+    });
+
+    return true;
+  },
+});
+
+// ============================================================================
+// GROUP MAPPING
+// ============================================================================
+
+/**
+ * Give SCIM-provisioned users the role, custom role and department their
+ * groups map to. Owners keep their role and every permission; users added
+ * outside SCIM are left alone.
+ */
+export async function applyGroupAssignments(
+  ctx: MutationCtx,
+  enterpriseId: Id<"enterprises">,
+  userIds: Id<"users">[]
+): Promise<void> {
+  if (userIds.length === 0) return;
+  const groups = await listEnterpriseGroups(ctx, enterpriseId);
+
+  for (const userId of new Set(userIds)) {
+    const user = await ctx.db.get(userId);
+    if (!user || user.enterpriseId !== enterpriseId || user.provisionedVia !== "scim") {
+      continue;
+    }
+
+    const assignments = resolveGroupAssignments(groups
+      .filter(group => group.memberIds.includes(userId))
+      .map(group => ({
+        displayName: group.displayName,
+        role: group.role,
+        customRoleId: group.customRoleId,
+        departmentId: group.departmentId,
+      })));
+
+    const isOwner = user.role === "owner";
+    const role = isOwner ? user.role : assignments.role;
+    const customRoleId = isOwner ? null : assignments.customRoleId as Id<"customRoles"> | null;
+    const departmentId = assignments.departmentId as Id<"departments"> | null;
+
+    if (role === user.role && customRoleId === (user.customRoleId ?? null) && departmentId === (user.departmentId ?? null)) {
+      continue;
+    }
+
+    await ctx.db.replace(user._id, {
+      ...withoutFields(user, ["customRoleId", "departmentId"]),
+      role,
+      ...(customRoleId ? { customRoleId } : {}),
+      ...(departmentId ? { departmentId } : {}),
+      updatedAt: new Date().toISOString(),
+    });
+
+    if (role !== user.role) {
+      await emitWebhookEvent(ctx, {
+        type: "user.updated",
+        enterpriseId,
+        data: { user: toUserEventData({ ...user, role }) },
+        previous: { role: user.role },
+      });
+    }
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export async function listEnterpriseGroups(ctx: QueryCtx | MutationCtx, enterpriseId: Id<"enterprises">) {
+  return await ctx.db
+    .query("scimGroups")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+    .collect();
+}
+
+async function findUserByEmail(ctx: QueryCtx | MutationCtx, email: string) {
+  return await ctx.db
+    .query("users")
+    .withIndex("by_email", (q) => q.eq("email", email))
+    .first();
+}
+
+async function getProvisionableUser(ctx: QueryCtx | MutationCtx, enterpriseId: Id<"enterprises">, id: string) {
+  const userId = ctx.db.normalizeId("users", id);
+  const user = userId ? await ctx.db.get(userId) : null;
+  return user && user.enterpriseId === enterpriseId && !user.deprovisionedAt ? user : null;
+}
+
+async function getEnterpriseGroup(ctx: QueryCtx | MutationCtx, enterpriseId: Id<"enterprises">, id: string) {
+  const groupId = ctx.db.normalizeId("scimGroups", id);
+  const group = groupId ? await ctx.db.get(groupId) : null;
+  return group && group.enterpriseId === enterpriseId ? group : null;
+}
+
+async function assertUniqueDisplayName(ctx: MutationCtx, enterpriseId: Id<"enterprises">, displayName: string) {
+  const groups = await listEnterpriseGroups(ctx, enterpriseId);
+  if (groups.some(group => group.displayName.toLowerCase() === displayName.toLowerCase())) {
+    throw scimFailure(409, `Group ${displayName} already exists`, "uniqueness");
+  }
+}
+
+async function resolveMemberIds(ctx: MutationCtx, enterpriseId: Id<"enterprises">, ids: string[]) {
+  const memberIds: Id<"users">[] = [];
+  for (const id of ids) {
+    const user = await getProvisionableUser(ctx, enterpriseId, id);
+    if (!user) {
+      throw scimFailure(400, `Member ${id} is not a user of this organization`, "invalidValue");
+    }
+    memberIds.push(user._id);
+  }
+  return memberIds;
+}
+
+async function getMembers(ctx: QueryCtx | MutationCtx, memberIds: Id<"users">[]) {
+  const members = await Promise.all(memberIds.map(memberId => ctx.db.get(memberId)));
+  return new Map(members
+    .filter((member): member is Doc<"users"> => member !== null)
+    .map(member => [member._id as string, member]));
+}
+
+function toUserDocFields(fields: Infer<typeof userFieldsValidator>) {
+  return {
+    email: fields.userName,
+    isActive: fields.active,
+    ...(fields.externalId ? { externalId: fields.externalId } : {}),
+    ...(fields.givenName ? { firstName: fields.givenName } : {}),
+    ...(fields.familyName ? { lastName: fields.familyName } : {}),
+    ...(fields.title ? { title: fields.title } : {}),
+    ...(fields.phoneNumber ? { phoneNumber: fields.phoneNumber } : {}),
+  };
+}
+
+function toUserRecord(user: Doc<"users">, groups: Doc<"scimGroups">[]): ScimUserRecord {
+  return {
+    id: user._id,
+    userName: user.email,
+    ...(user.externalId ? { externalId: user.externalId } : {}),
+    ...(user.firstName ? { givenName: user.firstName } : {}),
+    ...(user.lastName ? { familyName: user.lastName } : {}),
+    ...(user.title ? { title: user.title } : {}),
+    ...(user.phoneNumber ? { phoneNumber: user.phoneNumber } : {}),
+    active: user.isActive !== false,
+    groups: groups
+      .filter(group => group.memberIds.includes(user._id))
+      .map(group => ({ id: group._id, displayName: group.displayName })),
+    createdAt: user.createdAt,
+    ...(user.updatedAt ? { updatedAt: user.updatedAt } : {}),
+  };
+}
+
+function toGroupRecord(group: Doc<"scimGroups">, usersById: Map<string, Doc<"users">>): ScimGroupRecord {
+  return {
+    id: group._id,
+    displayName: group.displayName,
+    ...(group.externalId ? { externalId: group.externalId } : {}),
+    members: group.memberIds.flatMap(memberId => {
+      const member = usersById.get(memberId);
+      return member ? [{ id: member._id, display: member.email }] : [];
+    }),
+    createdAt: group.createdAt,
+    updatedAt: group.updatedAt,
+  };
+}
+
+async function logScimChange(
+  ctx: MutationCtx,
+  actor: ScimActor,
+  operation: string,
+  resourceType: string,
+  resourceId: string,
+  action: "create" | "update" | "delete",
+  changes: Record<string, unknown>
+) {
+  await appendAuditLog(ctx, {
+    userId: actor.actorId,
+    enterpriseId: actor.enterpriseId,
+    operation,
+    resourceType,
+    resourceId,
+    action,
+    status: "success",
+    timestamp: new Date().toISOString(),
+    changes,
+    metadata: { source: "scim", scimTokenId: actor.tokenId },
+  });
+}
@@ -0,0 +1,611 @@
+import type { GroupRole } from "../schema";
+
+/**
+ * SCIM 2.0 protocol (RFC 7643 / RFC 7644)
+ *
+ * Resource shapes, request parsing, filters and PATCH operations for the
+ * Users and Groups endpoints. Identity providers differ in the details: Okta
+ * sends PATCH values as objects without a path, Azure AD sends paths with
+ * string booleans ("False") and removes members through value filters. Both
+ * are accepted here. This module has no Convex dependencies.
+ */
+
+export const SCIM_SCHEMAS = {
+  user: "urn:ietf:params:scim:schemas:core:2.0:User",
+  group: "urn:ietf:params:scim:schemas:core:2.0:Group",
+  listResponse: "urn:ietf:params:scim:api:messages:2.0:ListResponse",
+  patchOp: "urn:ietf:params:scim:api:messages:2.0:PatchOp",
+  error: "urn:ietf:params:scim:api:messages:2.0:Error",
+  serviceProviderConfig: "urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig",
+} as const;
+
+export const SCIM_BASE_PATH = "/scim/v2";
+
+export const SCIM_CONTENT_TYPE = "application/scim+json";
+
+export const SCIM_TOKEN_PREFIX = "scim_";
+
+// Placeholder clerkId prefix for users provisioned before their first sign-in
+export const PENDING_CLERK_ID_PREFIX = "scim|";
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+export type ScimErrorType =
+  | "invalidFilter"
+  | "invalidSyntax"
+  | "invalidPath"
+  | "invalidValue"
+  | "mutability"
+  | "uniqueness"
+  | "noTarget";
+
+/**
+ * Error answered with a SCIM error response and the given HTTP status
+ */
+export class ScimError extends Error {
+  constructor(readonly status: number, message: string, readonly scimType?: ScimErrorType) {
+    super(message);
+    this.name = "ScimError";
+  }
+}
+
+// ============================================================================
+// RESOURCES
+// ============================================================================
+
+export interface ScimUserRecord {
+  id: string;
+  userName: string;
+  externalId?: string | undefined;
+  givenName?: string | undefined;
+  familyName?: string | undefined;
+  title?: string | undefined;
+  phoneNumber?: string | undefined;
+  active: boolean;
+  groups: Array<{ id: string; displayName: string }>;
+  createdAt: string;
+  updatedAt?: string | undefined;
+}
+
+export interface ScimGroupRecord {
+  id: string;
+  displayName: string;
+  externalId?: string | undefined;
+  members: Array<{ id: string; display: string }>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Writable user attributes, as the store takes them
+export interface ScimUserFields {
+  userName: string;
+  externalId?: string | undefined;
+  givenName?: string | undefined;
+  familyName?: string | undefined;
+  title?: string | undefined;
+  phoneNumber?: string | undefined;
+  active: boolean;
+}
+
+// Writable group attributes, as the store takes them
+export interface ScimGroupFields {
+  displayName: string;
+  externalId?: string | undefined;
+  memberIds: string[];
+}
+
+export function toScimUser(user: ScimUserRecord, baseUrl: string) {
+  const formatted = [user.givenName, user.familyName].filter(Boolean).join(" ");
+  return {
+    schemas: [SCIM_SCHEMAS.user],
+    id: user.id,
+    ...(user.externalId ? { externalId: user.externalId } : {}),
+    userName: user.userName,
+    name: {
+      ...(formatted ? { formatted } : {}),
+      ...(user.givenName ? { givenName: user.givenName } : {}),
+      ...(user.familyName ? { familyName: user.familyName } : {}),
+    },
+    ...(formatted ? { displayName: formatted } : {}),
+    emails: [{ value: user.userName, type: "work", primary: true }],
+    ...(user.phoneNumber ? { phoneNumbers: [{ value: user.phoneNumber, type: "work" }] } : {}),
+    ...(user.title ? { title: user.title } : {}),
+    active: user.active,
+    groups: user.groups.map(group => ({
+      value: group.id,
+      display: group.displayName,
+      $ref: `${baseUrl}/Groups/${group.id}`,
+    })),
+    meta: {
+      resourceType: "User",
+      created: user.createdAt,
+      lastModified: user.updatedAt ?? user.createdAt,
+      location: `${baseUrl}/Users/${user.id}`,
+    },
+  };
+}
+
+export function toScimGroup(group: ScimGroupRecord, baseUrl: string) {
+  return {
+    schemas: [SCIM_SCHEMAS.group],
+    id: group.id,
+    ...(group.externalId ? { externalId: group.externalId } : {}),
+    displayName: group.displayName,
+    members: group.members.map(member => ({
+      value: member.id,
+      display: member.display,
+      $ref: `${baseUrl}/Users/${member.id}`,
+    })),
+    meta: {
+      resourceType: "Group",
+      created: group.createdAt,
+      lastModified: group.updatedAt,
+      location: `${baseUrl}/Groups/${group.id}`,
+    },
+  };
+}
+
+export function toListResponse<T>(resources: T[], startIndex: number, totalResults: number) {
+  return {
+    schemas: [SCIM_SCHEMAS.listResponse],
+    totalResults,
+    startIndex,
+    itemsPerPage: resources.length,
+    Resources: resources,
+  };
+}
+
+export function toScimErrorBody(status: number, detail: string, scimType?: ScimErrorType) {
+  return {
+    schemas: [SCIM_SCHEMAS.error],
+    status: String(status),
+    ...(scimType ? { scimType } : {}),
+    detail,
+  };
+}
+
+export function serviceProviderConfig(documentationUri?: string) {
+  return {
+    schemas: [SCIM_SCHEMAS.serviceProviderConfig],
+    ...(documentationUri ? { documentationUri } : {}),
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: MAX_PAGE_SIZE },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [{
+      type: "oauthbearertoken",
+      name: "OAuth Bearer Token",
+      description: "Enterprise SCIM token sent as Authorization: Bearer <token>",
+      primary: true,
+    }],
+  };
+}
+
+// ============================================================================
+// REQUEST PARSING
+// ============================================================================
+
+// Simple email check; userName doubles as the sign-in email
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * User attributes from a POST or PUT body. Attributes the body leaves out are
+ * cleared, as a PUT replaces the resource.
+ */
+export function parseScimUser(body: unknown): ScimUserFields {
+  const resource = asObject(body, "Request body must be a SCIM User");
+  const userName = optionalString(resource.userName, "userName")?.trim().toLowerCase();
+  if (!userName) {
+    throw new ScimError(400, "userName is required", "invalidValue");
+  }
+  if (!EMAIL_PATTERN.test(userName)) {
+    throw new ScimError(400, "userName must be an email address", "invalidValue");
+  }
+
+  const name = resource.name === undefined ? {} : asObject(resource.name, "name must be an object");
+  const externalId = optionalString(resource.externalId, "externalId");
+  const givenName = optionalString(name.givenName, "name.givenName");
+  const familyName = optionalString(name.familyName, "name.familyName");
+  const title = optionalString(resource.title, "title");
+  const phoneNumber = pickMultiValued(resource.phoneNumbers, "phoneNumbers");
+
+  return {
+    userName,
+    ...(externalId ? { externalId } : {}),
+    ...(givenName ? { givenName } : {}),
+    ...(familyName ? { familyName } : {}),
+    ...(title ? { title } : {}),
+    ...(phoneNumber ? { phoneNumber } : {}),
+    active: resource.active === undefined ? true : parseBoolean(resource.active, "active"),
+  };
+}
+
+/**
+ * Group attributes from a POST or PUT body
+ */
+export function parseScimGroup(body: unknown): ScimGroupFields {
+  const resource = asObject(body, "Request body must be a SCIM Group");
+  const displayName = optionalString(resource.displayName, "displayName")?.trim();
+  if (!displayName) {
+    throw new ScimError(400, "displayName is required", "invalidValue");
+  }
+  const externalId = optionalString(resource.externalId, "externalId");
+  return {
+    displayName,
+    ...(externalId ? { externalId } : {}),
+    memberIds: parseMemberIds(resource.members ?? []),
+  };
+}
+
+/**
+ * 1-based start index and page size from the query string
+ */
+export function parsePagination(query: URLSearchParams): { startIndex: number; count: number } {
+  const startIndex = parseInt(query.get("startIndex") ?? "1", 10);
+  const count = parseInt(query.get("count") ?? String(DEFAULT_PAGE_SIZE), 10);
+  return {
+    startIndex: Number.isFinite(startIndex) && startIndex > 0 ? startIndex : 1,
+    count: Number.isFinite(count) && count >= 0 ? Math.min(count, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE,
+  };
+}
+
+// ============================================================================
+// FILTERS
+// ============================================================================
+
+export interface ScimFilter {
+  attribute: string;
+  value: string;
+}
+
+const FILTERABLE_ATTRIBUTES = {
+  user: ["id", "userName", "externalId", "emails.value"],
+  group: ["id", "displayName", "externalId"],
+} as const;
+
+/**
+ * Parse the `attribute eq "value"` filters identity providers use to look up
+ * a user or group before creating it. Other operators are not supported.
+ */
+export function parseFilter(filter: string | null, resourceType: "user" | "group"): ScimFilter | null {
+  if (!filter?.trim()) return null;
+
+  const match = filter.trim().match(/^([A-Za-z][\w.]*)\s+eq\s+"((?:[^"\\]|\\.)*)"$/i);
+  if (!match) {
+    throw new ScimError(400, `Unsupported filter: ${filter}`, "invalidFilter");
+  }
+
+  const allowed: readonly string[] = FILTERABLE_ATTRIBUTES[resourceType];
+  const attribute = allowed.find(name => name.toLowerCase() === match[1]!.toLowerCase());
+  if (!attribute) {
+    throw new ScimError(400, `Cannot filter on ${match[1]}`, "invalidFilter");
+  }
+  return { attribute, value: match[2]!.replace(/\\(.)/g, "$1") };
+}
+
+export function matchesUserFilter(user: ScimUserRecord, filter: ScimFilter): boolean {
+  switch (filter.attribute) {
+    case "id": return user.id === filter.value;
+    case "externalId": return user.externalId === filter.value;
+    // userName and emails are case insensitive (caseExact: false)
+    default: return user.userName === filter.value.toLowerCase();
+  }
+}
+
+export function matchesGroupFilter(group: ScimGroupRecord, filter: ScimFilter): boolean {
+  switch (filter.attribute) {
+    case "id": return group.id === filter.value;
+    case "externalId": return group.externalId === filter.value;
+    default: return group.displayName.toLowerCase() === filter.value.toLowerCase();
+  }
+}
+
+// ============================================================================
+// PATCH
+// ============================================================================
+
+interface PatchOperation {
+  op: "add" | "replace" | "remove";
+  path?: string;
+  value?: unknown;
+}
+
+/**
+ * Operations from a PatchOp body, with the operation names lowercased
+ */
+export function parsePatchOperations(body: unknown): PatchOperation[] {
+  const request = asObject(body, "Request body must be a SCIM PatchOp");
+  if (!Array.isArray(request.Operations) || request.Operations.length === 0) {
+    throw new ScimError(400, "Operations are required", "invalidSyntax");
+  }
+
+  return request.Operations.map((operation: unknown) => {
+    const { op, path, value } = asObject(operation, "Each operation must be an object");
+    const name = typeof op === "string" ? op.toLowerCase() : "";
+    if (name !== "add" && name !== "replace" && name !== "remove") {
+      throw new ScimError(400, `Unsupported operation: ${String(op)}`, "invalidSyntax");
+    }
+    const operationPath = optionalString(path, "path");
+    return {
+      op: name,
+      ...(operationPath ? { path: operationPath } : {}),
+      ...(value !== undefined ? { value } : {}),
+    };
+  });
+}
+
+/**
+ * Apply PATCH operations to a user's attributes
+ */
+export function applyUserPatch(current: ScimUserFields, operations: PatchOperation[]): ScimUserFields {
+  const next: ScimUserFields = { ...current };
+
+  for (const operation of operations) {
+    // Without a path the value holds the attributes to set (Okta)
+    const updates: Array<[string, unknown]> = operation.path
+      ? [[operation.path, operation.op === "remove" ? undefined : operation.value]]
+      : Object.entries(flattenAttributes(asObject(operation.value, "Operation value must be an object")));
+
+    for (const [path, value] of updates) {
+      setUserAttribute(next, path, value);
+    }
+  }
+
+  return parseScimUser(toUserBody(next));
+}
+
+/**
+ * Apply PATCH operations to a group's attributes and members
+ */
+export function applyGroupPatch(current: ScimGroupFields, operations: PatchOperation[]): ScimGroupFields {
+  const next: ScimGroupFields = { ...current, memberIds: [...current.memberIds] };
+
+  for (const operation of operations) {
+    const path = operation.path?.trim();
+
+    if (!path) {
+      const attributes = asObject(operation.value, "Operation value must be an object");
+      if (attributes.displayName !== undefined) {
+        next.displayName = requireString(attributes.displayName, "displayName");
+      }
+      if (attributes.externalId !== undefined) {
+        next.externalId = requireString(attributes.externalId, "externalId");
+      }
+      if (attributes.members !== undefined) {
+        next.memberIds = operation.op === "add"
+          ? union(next.memberIds, parseMemberIds(attributes.members))
+          : parseMemberIds(attributes.members);
+      }
+      continue;
+    }
+
+    const memberFilter = path.match(/^members\[value eq "([^"]+)"\]$/i);
+    if (memberFilter) {
+      if (operation.op !== "remove") {
+        throw new ScimError(400, `Cannot ${operation.op} ${path}`, "invalidPath");
+      }
+      next.memberIds = next.memberIds.filter(id => id !== memberFilter[1]);
+      continue;
+    }
+
+    switch (path.toLowerCase()) {
+      case "members": {
+        if (operation.op === "remove") {
+          // Azure AD names the members to remove in the value; no value removes all
+          const removed = operation.value === undefined ? next.memberIds : parseMemberIds(operation.value);
+          next.memberIds = next.memberIds.filter(id => !removed.includes(id));
+        } else if (operation.op === "add") {
+          next.memberIds = union(next.memberIds, parseMemberIds(operation.value));
+        } else {
+          next.memberIds = parseMemberIds(operation.value);
+        }
+        break;
+      }
+      case "displayname":
+        if (operation.op === "remove") {
+          throw new ScimError(400, "displayName is required", "mutability");
+        }
+        next.displayName = requireString(operation.value, "displayName");
+        break;
+      case "externalid":
+        if (operation.op === "remove") {
+          delete next.externalId;
+        } else {
+          next.externalId = requireString(operation.value, "externalId");
+        }
+        break;
+      default:
+        throw new ScimError(400, `Unsupported path: ${path}`, "invalidPath");
+    }
+  }
+
+  return parseScimGroup({ displayName: next.displayName, externalId: next.externalId, members: next.memberIds.map(value => ({ value })) });
+}
+
+// ============================================================================
+// GROUP MAPPING
+// ============================================================================
+
+export interface GroupMapping {
+  displayName: string;
+  role?: GroupRole | undefined;
+  customRoleId?: string | undefined;
+  departmentId?: string | undefined;
+}
+
+export interface GroupAssignments {
+  role: GroupRole;
+  customRoleId: string | null;
+  departmentId: string | null;
+}
+
+// Lowest first
+const GROUP_ROLE_RANK: GroupRole[] = ["viewer", "user", "manager", "admin"];
+
+/**
+ * What a user's groups give them: the highest mapped role ("user" when no
+ * group maps one), and the custom role and department of the first group by
+ * name that maps each, so the outcome does not depend on push order.
+ */
+export function resolveGroupAssignments(groups: GroupMapping[]): GroupAssignments {
+  const ordered = [...groups].sort((a, b) => a.displayName.localeCompare(b.displayName));
+  const roles = ordered.map(group => group.role).filter((role): role is GroupRole => !!role);
+
+  return {
+    role: roles.length > 0
+      ? roles.reduce((highest, role) => GROUP_ROLE_RANK.indexOf(role) > GROUP_ROLE_RANK.indexOf(highest) ? role : highest)
+      : "user",
+    customRoleId: ordered.find(group => group.customRoleId)?.customRoleId ?? null,
+    departmentId: ordered.find(group => group.departmentId)?.departmentId ?? null,
+  };
+}
+
+/**
+ * Whether the user was provisioned over SCIM and has not signed in yet
+ */
+export function isPendingClerkId(clerkId: string): boolean {
+  return clerkId.startsWith(PENDING_CLERK_ID_PREFIX);
+}
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+/**
+ * New random SCIM token. Only its hash is stored.
+ */
+export function generateScimToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return SCIM_TOKEN_PREFIX + toHex(bytes);
+}
+
+export async function hashScimToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function asObject(value: unknown, message: string): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ScimError(400, message, "invalidSyntax");
+  }
+  return value as Record<string, unknown>;
+}
+
+function optionalString(value: unknown, attribute: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") {
+    throw new ScimError(400, `${attribute} must be a string`, "invalidValue");
+  }
+  return value;
+}
+
+function requireString(value: unknown, attribute: string): string {
+  const parsed = optionalString(value, attribute);
+  if (!parsed) {
+    throw new ScimError(400, `${attribute} is required`, "invalidValue");
+  }
+  return parsed;
+}
+
+// Azure AD sends booleans as "True" / "False"
+function parseBoolean(value: unknown, attribute: string): boolean {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "string" && ["true", "false"].includes(value.toLowerCase())) {
+    return value.toLowerCase() === "true";
+  }
+  throw new ScimError(400, `${attribute} must be a boolean`, "invalidValue");
+}
+
+// The primary entry of a multi-valued attribute such as phoneNumbers, else the first
+function pickMultiValued(value: unknown, attribute: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    throw new ScimError(400, `${attribute} must be an array`, "invalidValue");
+  }
+  const entry = value.find(item => item?.primary === true) ?? value[0];
+  return entry === undefined ? undefined : optionalString(entry?.value, `${attribute}.value`);
+}
+
+function parseMemberIds(value: unknown): string[] {
+  const members = Array.isArray(value) ? value : [value];
+  return union([], members.map(member => requireString(asObject(member, "members must be objects").value, "members.value")));
+}
+
+function union(existing: string[], added: string[]): string[] {
+  return [...new Set([...existing, ...added])];
+}
+
+// Nested objects become dotted paths, e.g. { name: { givenName } } -> "name.givenName"
+function flattenAttributes(attributes: Record<string, unknown>, prefix = ""): Record<string, unknown> {
+  const flattened: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      Object.assign(flattened, flattenAttributes(value as Record<string, unknown>, `${prefix}${key}.`));
+    } else {
+      flattened[`${prefix}${key}`] = value;
+    }
+  }
+  return flattened;
+}
+
+function setUserAttribute(user: ScimUserFields, path: string, value: unknown): void {
+  const normalized = path.trim().toLowerCase();
+
+  if (normalized === "active") {
+    user.active = value === undefined ? false : parseBoolean(value, "active");
+  } else if (normalized === "username" || normalized.startsWith("emails")) {
+    // The primary email and userName are one attribute here
+    const email = Array.isArray(value) ? pickMultiValued(value, "emails") : value;
+    user.userName = requireString(email, path);
+  } else if (normalized.startsWith("phonenumbers")) {
+    const phoneNumber = Array.isArray(value) ? pickMultiValued(value, "phoneNumbers") : optionalString(value, path);
+    setOptional(user, "phoneNumber", phoneNumber);
+  } else if (normalized === "name.givenname") {
+    setOptional(user, "givenName", optionalString(value, path));
+  } else if (normalized === "name.familyname") {
+    setOptional(user, "familyName", optionalString(value, path));
+  } else if (normalized === "title") {
+    setOptional(user, "title", optionalString(value, path));
+  } else if (normalized === "externalid") {
+    setOptional(user, "externalId", optionalString(value, path));
+  } else if (normalized === "name.formatted" || normalized === "displayname" || normalized.startsWith("urn:")) {
+    // Derived from the name parts, or an extension we do not store
+  } else {
+    throw new ScimError(400, `Unsupported path: ${path}`, "invalidPath");
+  }
+}
+
+function setOptional<K extends "phoneNumber" | "givenName" | "familyName" | "title" | "externalId">(
+  user: ScimUserFields,
+  key: K,
+  value: string | undefined
+): void {
+  if (value === undefined) {
+    delete user[key];
+  } else {
+    user[key] = value;
+  }
+}
+
+function toUserBody(user: ScimUserFields) {
+  return {
+    userName: user.userName,
+    externalId: user.externalId,
+    name: { givenName: user.givenName, familyName: user.familyName },
+    title: user.title,
+    ...(user.phoneNumber ? { phoneNumbers: [{ value: user.phoneNumber }] } : {}),
+    active: user.active,
+  };
+}
@@ -0,0 +1,206 @@
+import {
+  applyGroupPatch,
+  applyUserPatch,
+  matchesGroupFilter,
+  matchesUserFilter,
+  parseFilter,
+  parsePagination,
+  parsePatchOperations,
+  parseScimGroup,
+  parseScimUser,
+  ScimError,
+  ScimGroupFields,
+  ScimGroupRecord,
+  ScimUserFields,
+  ScimUserRecord,
+  serviceProviderConfig,
+  toListResponse,
+  toScimErrorBody,
+  toScimGroup,
+  toScimUser,
+} from "./scimProtocol";
+
+/**
+ * SCIM request handling
+ *
+ * Routes an authenticated SCIM request to one enterprise's users and groups.
+ * Storage sits behind `ScimStore`, so the HTTP action serves requests from
+ * Convex while the test harness replays recorded identity provider traffic
+ * against an in-memory store through the exact same code.
+ */
+
+export interface ScimStore {
+  listUsers(): Promise<ScimUserRecord[]>;
+  getUser(id: string): Promise<ScimUserRecord | null>;
+  createUser(fields: ScimUserFields): Promise<ScimUserRecord>;
+  replaceUser(id: string, fields: ScimUserFields): Promise<ScimUserRecord | null>;
+  deleteUser(id: string): Promise<boolean>;
+  listGroups(): Promise<ScimGroupRecord[]>;
+  getGroup(id: string): Promise<ScimGroupRecord | null>;
+  createGroup(fields: ScimGroupFields): Promise<ScimGroupRecord>;
+  replaceGroup(id: string, fields: ScimGroupFields): Promise<ScimGroupRecord | null>;
+  deleteGroup(id: string): Promise<boolean>;
+}
+
+export interface ScimRequest {
+  method: string;
+  // Path below the SCIM base, e.g. "/Users/123"
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+  // Absolute SCIM base URL for meta.location, e.g. "https://x.convex.site/scim/v2"
+  baseUrl: string;
+}
+
+export interface ScimResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Answer one SCIM request. Protocol errors become SCIM error responses;
+ * anything else propagates to the caller.
+ */
+export async function handleScimRequest(store: ScimStore, request: ScimRequest): Promise<ScimResponse> {
+  try {
+    return await route(store, request);
+  } catch (error) {
+    if (error instanceof ScimError) {
+      return { status: error.status, body: toScimErrorBody(error.status, error.message, error.scimType) };
+    }
+    throw error;
+  }
+}
+
+async function route(store: ScimStore, request: ScimRequest): Promise<ScimResponse> {
+  const [resourceType, id, ...rest] = request.path.split("/").filter(Boolean);
+  const method = request.method.toUpperCase();
+  if (rest.length > 0) {
+    throw new ScimError(404, `No resource at ${request.path}`);
+  }
+
+  switch (resourceType) {
+    case "ServiceProviderConfig":
+      return method === "GET" ? ok(serviceProviderConfig()) : methodNotAllowed(method);
+    case "Users":
+      return id ? await userRoute(store, request, method, id) : await usersRoute(store, request, method);
+    case "Groups":
+      return id ? await groupRoute(store, request, method, id) : await groupsRoute(store, request, method);
+    default:
+      throw new ScimError(404, `No resource at ${request.path}`);
+  }
+}
+
+async function usersRoute(store: ScimStore, request: ScimRequest, method: string): Promise<ScimResponse> {
+  if (method === "GET") {
+    const filter = parseFilter(request.query.get("filter"), "user");
+    const users = (await store.listUsers()).filter(user => !filter || matchesUserFilter(user, filter));
+    return ok(page(users.map(user => toScimUser(user, request.baseUrl)), request.query));
+  }
+  if (method === "POST") {
+    const user = await store.createUser(parseScimUser(request.body));
+    return { status: 201, body: toScimUser(user, request.baseUrl) };
+  }
+  return methodNotAllowed(method);
+}
+
+async function userRoute(store: ScimStore, request: ScimRequest, method: string, id: string): Promise<ScimResponse> {
+  switch (method) {
+    case "GET":
+      return ok(toScimUser(found(await store.getUser(id), "User", id), request.baseUrl));
+    case "PUT": {
+      const user = await store.replaceUser(id, parseScimUser(request.body));
+      return ok(toScimUser(found(user, "User", id), request.baseUrl));
+    }
+    case "PATCH": {
+      const current = found(await store.getUser(id), "User", id);
+      const fields = applyUserPatch(toUserFields(current), parsePatchOperations(request.body));
+      return ok(toScimUser(found(await store.replaceUser(id, fields), "User", id), request.baseUrl));
+    }
+    case "DELETE":
+      if (!(await store.deleteUser(id))) {
+        throw new ScimError(404, `User ${id} not found`);
+      }
+      return { status: 204, body: null };
+    default:
+      return methodNotAllowed(method);
+  }
+}
+
+async function groupsRoute(store: ScimStore, request: ScimRequest, method: string): Promise<ScimResponse> {
+  if (method === "GET") {
+    const filter = parseFilter(request.query.get("filter"), "group");
+    const groups = (await store.listGroups()).filter(group => !filter || matchesGroupFilter(group, filter));
+    // Okta asks for groups without members when it only needs their ids
+    const excludeMembers = request.query.get("excludedAttributes")?.split(",").map(name => name.trim()).includes("members");
+    return ok(page(groups.map(group => toScimGroup(excludeMembers ? { ...group, members: [] } : group, request.baseUrl)), request.query));
+  }
+  if (method === "POST") {
+    const group = await store.createGroup(parseScimGroup(request.body));
+    return { status: 201, body: toScimGroup(group, request.baseUrl) };
+  }
+  return methodNotAllowed(method);
+}
+
+async function groupRoute(store: ScimStore, request: ScimRequest, method: string, id: string): Promise<ScimResponse> {
+  switch (method) {
+    case "GET":
+      return ok(toScimGroup(found(await store.getGroup(id), "Group", id), request.baseUrl));
+    case "PUT": {
+      const group = await store.replaceGroup(id, parseScimGroup(request.body));
+      return ok(toScimGroup(found(group, "Group", id), request.baseUrl));
+    }
+    case "PATCH": {
+      const current = found(await store.getGroup(id), "Group", id);
+      const fields = applyGroupPatch(toGroupFields(current), parsePatchOperations(request.body));
+      return ok(toScimGroup(found(await store.replaceGroup(id, fields), "Group", id), request.baseUrl));
+    }
+    case "DELETE":
+      if (!(await store.deleteGroup(id))) {
+        throw new ScimError(404, `Group ${id} not found`);
+      }
+      return { status: 204, body: null };
+    default:
+      return methodNotAllowed(method);
+  }
+}
+
+function page<T>(resources: T[], query: URLSearchParams) {
+  const { startIndex, count } = parsePagination(query);
+  return toListResponse(resources.slice(startIndex - 1, startIndex - 1 + count), startIndex, resources.length);
+}
+
+function ok(body: unknown): ScimResponse {
+  return { status: 200, body };
+}
+
+function found<T>(resource: T | null, resourceType: string, id: string): T {
+  if (resource === null) {
+    throw new ScimError(404, `${resourceType} ${id} not found`);
+  }
+  return resource;
+}
+
+function methodNotAllowed(method: string): never {
+  throw new ScimError(405, `Method ${method} not allowed`);
+}
+
+function toUserFields(user: ScimUserRecord): ScimUserFields {
+  return {
+    userName: user.userName,
+    ...(user.externalId ? { externalId: user.externalId } : {}),
+    ...(user.givenName ? { givenName: user.givenName } : {}),
+    ...(user.familyName ? { familyName: user.familyName } : {}),
+    ...(user.title ? { title: user.title } : {}),
+    ...(user.phoneNumber ? { phoneNumber: user.phoneNumber } : {}),
+    active: user.active,
+  };
+}
+
+function toGroupFields(group: ScimGroupRecord): ScimGroupFields {
+  return {
+    displayName: group.displayName,
+    ...(group.externalId ? { externalId: group.externalId } : {}),
+    memberIds: group.members.map(member => member.id),
+  };
+}
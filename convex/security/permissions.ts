@@ -0,0 +1,220 @@
+import { ConvexError } from "convex/values";
+import type { GrantableResource, UserRole } from "../schema";
+
+/**
+ * Permission model
+ *
+ * Every access decision comes down to a named permission such as
+ * `contracts.approve` or `budgets.edit`. A user holds the permissions of their
+ * built-in role, or of the custom role assigned to them, optionally limited to
+ * some departments or contract types; on top of that, single records can be
+ * shared with them through resource grants. API keys hold the permissions
+ * their scopes map to. `hasPermission` is the one place these are checked, on
+ * the server and in the browser alike, so it stays pure.
+ */
+
+export const PERMISSIONS = [
+  "contracts.read", "contracts.create", "contracts.update", "contracts.delete",
+  "contracts.approve", "contracts.share", "contracts.analyze", "contracts.export",
+  "vendors.read", "vendors.create", "vendors.update", "vendors.delete", "vendors.merge",
+  "budgets.read", "budgets.edit",
+  "spend.read", "spend.import", "currency.manage",
+  "renewals.manage", "obligations.manage", "obligations.waive",
+  "analytics.read", "analytics.export",
+  "users.read", "users.invite", "users.update", "sso.manage",
+  "roles.manage", "departments.manage",
+  "settings.read", "settings.update",
+  "webhooks.manage", "apiKeys.manage", "audit.read", "backups.manage",
+  "clauses.manage", "workflows.manage", "group.manage", "legalHolds.manage", "retention.manage",
+  "agents.manage", "ai.manage",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Holds every permission, including ones added later
+export const ALL_PERMISSIONS = "*";
+
+const READ_PERMISSIONS: Permission[] = [
+  "contracts.read", "vendors.read", "budgets.read", "spend.read", "users.read", "analytics.read",
+];
+
+export const BUILT_IN_ROLE_PERMISSIONS: Record<UserRole, Array<Permission | typeof ALL_PERMISSIONS>> = {
+  owner: [ALL_PERMISSIONS],
+  admin: [
+    ...READ_PERMISSIONS,
+    "contracts.create", "contracts.update", "contracts.delete", "contracts.approve", "contracts.share", "contracts.analyze",
+    "vendors.create", "vendors.update", "vendors.delete", "vendors.merge",
+    "budgets.edit", "spend.import", "currency.manage", "renewals.manage", "analytics.export",
+    "obligations.manage", "obligations.waive",
+    "users.invite", "users.update", "sso.manage", "roles.manage", "departments.manage",
+    "settings.read", "settings.update",
+    "webhooks.manage", "apiKeys.manage", "audit.read", "backups.manage",
+    "clauses.manage", "workflows.manage", "group.manage", "legalHolds.manage", "retention.manage",
+    "agents.manage", "ai.manage",
+  ],
+  manager: [
+    ...READ_PERMISSIONS,
+    "contracts.create", "contracts.update", "contracts.approve", "contracts.share", "contracts.analyze",
+    "vendors.create", "vendors.update",
+    "budgets.edit", "spend.import", "currency.manage", "renewals.manage", "clauses.manage",
+    "obligations.manage", "obligations.waive",
+  ],
+  user: [
+    ...READ_PERMISSIONS.filter(permission => permission !== "users.read"),
+    "contracts.create", "contracts.update", "contracts.analyze",
+    "vendors.create", "vendors.update",
+    "obligations.manage",
+  ],
+  viewer: READ_PERMISSIONS,
+};
+
+// Permissions a single record of each type can be shared with
+export const GRANTABLE_PERMISSIONS: Record<GrantableResource, Permission[]> = {
+  contract: ["contracts.read", "contracts.update", "contracts.approve"],
+  vendor: ["vendors.read", "vendors.update"],
+  budget: ["budgets.read", "budgets.edit"],
+};
+
+// Permission needed on a record to share it with someone else
+export const SHARE_PERMISSIONS: Record<GrantableResource, Permission> = {
+  contract: "contracts.share",
+  vendor: "vendors.update",
+  budget: "budgets.edit",
+};
+
+// Named permissions each API key scope stands for. A route requiring a scope
+// requires all of them, so a key passes exactly when it holds the scope.
+export const API_KEY_SCOPE_PERMISSIONS: Record<string, Permission[]> = {
+  "read:contracts": ["contracts.read"],
+  "read:vendors": ["vendors.read"],
+  "read:users": ["users.read"],
+  "read:analytics": ["analytics.read"],
+  "read:budgets": ["budgets.read"],
+  "read:spend": ["spend.read"],
+  "write:contracts": ["contracts.create", "contracts.update"],
+  "write:vendors": ["vendors.create", "vendors.update"],
+  "write:spend": ["spend.import"],
+  "manage:users": ["users.invite", "users.update"],
+  "manage:settings": ["settings.update"],
+  "action:analysis": ["contracts.analyze"],
+  "action:export": ["analytics.export"],
+};
+
+/**
+ * Limits a role's permissions to records of some departments (subtrees
+ * included) or contract types. Unset lists do not limit.
+ */
+export interface PermissionScope {
+  departmentIds?: string[] | undefined;
+  contractTypes?: string[] | undefined;
+}
+
+export interface ResourceGrant {
+  resourceType: GrantableResource;
+  resourceId: string;
+  permissions: string[];
+  expiresAt?: string | undefined;
+  revokedAt?: string | undefined;
+}
+
+// Who is asking: a user's security context or an API key
+export interface PermissionHolder {
+  permissions: string[];
+  scope?: PermissionScope | null | undefined;
+  resourceGrants?: ResourceGrant[] | undefined;
+}
+
+// The record being accessed, with the facts scopes are checked against; no
+// id for a record being created
+export interface PermissionResource {
+  type: GrantableResource;
+  id?: string | undefined;
+  departmentId?: string | undefined;
+  contractType?: string | undefined;
+}
+
+/**
+ * Whether the holder may use the permission, on the resource when one is
+ * given. A resource grant for the record allows it whatever the role says;
+ * otherwise the role must hold the permission and the record must fall in the
+ * role's scope. Records not assigned to a department stay in every department
+ * scope, while a contract type scope only admits contracts of those types.
+ */
+export function hasPermission(
+  holder: PermissionHolder,
+  permission: string,
+  resource?: PermissionResource,
+  now: string = new Date().toISOString()
+): boolean {
+  if (resource?.id && activeGrants(holder.resourceGrants, now).some(grant =>
+    grant.resourceType === resource.type
+    && grant.resourceId === resource.id
+    && grant.permissions.includes(permission)
+  )) {
+    return true;
+  }
+
+  if (!holder.permissions.includes(ALL_PERMISSIONS) && !holder.permissions.includes(permission)) {
+    return false;
+  }
+  if (!resource || !holder.scope) return true;
+
+  const { departmentIds, contractTypes } = holder.scope;
+  if (departmentIds && resource.departmentId && !departmentIds.includes(resource.departmentId)) {
+    return false;
+  }
+  if (contractTypes && resource.type === "contract"
+    && (!resource.contractType || !contractTypes.includes(resource.contractType))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether an API key holding these scopes may call a route requiring the scope
+ */
+export function apiKeyAllows(keyScopes: string[], requiredScope: string): boolean {
+  const required = API_KEY_SCOPE_PERMISSIONS[requiredScope];
+  if (!required) return keyScopes.includes(requiredScope);
+
+  const holder: PermissionHolder = {
+    permissions: keyScopes.flatMap(scope => API_KEY_SCOPE_PERMISSIONS[scope] ?? []),
+  };
+  return required.every(permission => hasPermission(holder, permission));
+}
+
+/**
+ * Validate a custom role's permissions, returning them deduplicated in
+ * catalog order
+ */
+export function normalizePermissions(permissions: string[]): Permission[] {
+  const unknown = permissions.filter(permission => !(PERMISSIONS as readonly string[]).includes(permission));
+  if (unknown.length > 0) {
+    throw new ConvexError(`Unknown permission: ${unknown.join(", ")}`);
+  }
+  const normalized = PERMISSIONS.filter(permission => permissions.includes(permission));
+  if (normalized.length === 0) {
+    throw new ConvexError("Select at least one permission");
+  }
+  return normalized;
+}
+
+/**
+ * Validate the permissions a record is shared with
+ */
+export function normalizeGrantPermissions(resourceType: GrantableResource, permissions: string[]): Permission[] {
+  const grantable = GRANTABLE_PERMISSIONS[resourceType];
+  const invalid = permissions.filter(permission => !(grantable as string[]).includes(permission));
+  if (invalid.length > 0) {
+    throw new ConvexError(`Cannot share a ${resourceType} with: ${invalid.join(", ")}`);
+  }
+  const normalized = grantable.filter(permission => permissions.includes(permission));
+  if (normalized.length === 0) {
+    throw new ConvexError("Select at least one permission to share");
+  }
+  return normalized;
+}
+
+function activeGrants(grants: ResourceGrant[] | undefined, now: string): ResourceGrant[] {
+  return (grants ?? []).filter(grant => !grant.revokedAt && (!grant.expiresAt || grant.expiresAt > now));
+}
@@ -2,6 +2,7 @@ import { v } from "convex/values";
 import { query, mutation } from "../_generated/server";
 import { ConvexError } from "convex/values";
 import { getSecurityContext } from "./rowLevelSecurity";
+import { appendAuditLog } from "../auditLogging";
 // Copy RATE_LIMIT_CONFIGS from rateLimiting.ts to avoid circular imports
 const RATE_LIMIT_CONFIGS: Record<string, { maxTokens: number; refillRate: number; costPerRequest: number }> = {
   // Queries - more lenient
@@ -374,7 +375,7 @@ export const resetRateLimit = mutation({
       });
 
       // Log the action
-      await ctx.db.insert("auditLogs", {
+      await appendAuditLog(ctx, {
         userId: securityContext.userId,
         enterpriseId: securityContext.enterpriseId,
         operation: "resetRateLimit",
@@ -0,0 +1,559 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, mutation, internalQuery, QueryCtx, MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { contractTypeOptions, grantableResourceOptions, GrantableResource } from "../schema";
+import { assertEnterpriseDepartment } from "../departments";
+import { withoutFields } from "../lib/documentFields";
+import {
+  budgetResource,
+  contractResource,
+  getSecurityContext,
+  getUserSecurityContext,
+  hasPermission,
+  requirePermission,
+  SecurityContext,
+} from "./rowLevelSecurity";
+import {
+  normalizeGrantPermissions,
+  normalizePermissions,
+  PermissionResource,
+  SHARE_PERMISSIONS,
+} from "./permissions";
+import { appendAuditLog } from "../auditLogging";
+
+/**
+ * Custom roles and resource grants
+ *
+ * Admins define named permission sets, optionally limited to departments or
+ * contract types, and assign them to users in place of their built-in role's
+ * permissions. Separately, anyone allowed to share a record can grant a single
+ * user access to it, with no more than they hold on it themselves.
+ */
+
+const MAX_ROLE_NAME_LENGTH = 60;
+
+const resourceTypeValidator = v.union(...grantableResourceOptions.map(option => v.literal(option)));
+const contractTypeValidator = v.union(...contractTypeOptions.map(option => v.literal(option)));
+
+function userName(user: Doc<"users">): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email;
+}
+
+function normalizeRoleName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new ConvexError("Role name is required");
+  }
+  if (trimmed.length > MAX_ROLE_NAME_LENGTH) {
+    throw new ConvexError(`Role name must be ${MAX_ROLE_NAME_LENGTH} characters or less`);
+  }
+  return trimmed;
+}
+
+async function listEnterpriseRoles(ctx: QueryCtx | MutationCtx, enterpriseId: Id<"enterprises">) {
+  return await ctx.db
+    .query("customRoles")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+    .collect();
+}
+
+async function getEnterpriseRole(
+  ctx: QueryCtx | MutationCtx,
+  securityContext: SecurityContext,
+  customRoleId: Id<"customRoles">
+): Promise<Doc<"customRoles">> {
+  const role = await ctx.db.get(customRoleId);
+  if (!role || role.enterpriseId !== securityContext.enterpriseId) {
+    throw new ConvexError("Role not found");
+  }
+  return role;
+}
+
+/**
+ * Validate a custom role's permissions and scope. Nobody can hand out
+ * permissions they do not hold themselves.
+ */
+async function validateRoleDefinition(
+  ctx: MutationCtx,
+  securityContext: SecurityContext,
+  definition: { permissions: string[]; departmentIds?: Id<"departments">[] | undefined }
+) {
+  const permissions = normalizePermissions(definition.permissions);
+  const beyondOwn = permissions.filter(permission => !hasPermission(securityContext, permission));
+  if (beyondOwn.length > 0) {
+    throw new ConvexError(`You cannot grant permissions you do not hold: ${beyondOwn.join(", ")}`);
+  }
+  for (const departmentId of definition.departmentIds ?? []) {
+    await assertEnterpriseDepartment(ctx, securityContext.enterpriseId, departmentId);
+  }
+  return permissions;
+}
+
+/**
+ * The record a grant points at, as a permission check sees it
+ */
+async function loadGrantableResource(
+  ctx: QueryCtx | MutationCtx,
+  enterpriseId: Id<"enterprises">,
+  resourceType: GrantableResource,
+  resourceId: string
+): Promise<PermissionResource> {
+  let resource: PermissionResource | null = null;
+  if (resourceType === "contract") {
+    const id = ctx.db.normalizeId("contracts", resourceId);
+    const contract = id ? await ctx.db.get(id) : null;
+    if (contract?.enterpriseId === enterpriseId) resource = contractResource(contract);
+  } else if (resourceType === "budget") {
+    const id = ctx.db.normalizeId("budgets", resourceId);
+    const budget = id ? await ctx.db.get(id) : null;
+    if (budget?.enterpriseId === enterpriseId) resource = budgetResource(budget);
+  } else {
+    const id = ctx.db.normalizeId("vendors", resourceId);
+    const vendor = id ? await ctx.db.get(id) : null;
+    if (vendor?.enterpriseId === enterpriseId) resource = { type: "vendor", id: vendor._id };
+  }
+
+  if (!resource) {
+    throw new ConvexError(`${resourceType.charAt(0).toUpperCase()}${resourceType.slice(1)} not found`);
+  }
+  return resource;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * The signed-in user's permissions, scope and shared records, for gating the
+ * interface with the same `hasPermission` check the server uses
+ */
+export const getMyPermissions = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    const user = await ctx.db.get(securityContext.userId);
+    const customRole = user?.customRoleId ? await ctx.db.get(user.customRoleId) : null;
+
+    return {
+      userId: securityContext.userId,
+      role: securityContext.role,
+      customRole: customRole?.enterpriseId === securityContext.enterpriseId
+        ? { _id: customRole._id, name: customRole.name }
+        : null,
+      permissions: securityContext.permissions,
+      scope: securityContext.scope,
+      resourceGrants: securityContext.resourceGrants,
+    };
+  },
+});
+
+/**
+ * The enterprise's custom roles with how many users hold each
+ */
+export const getCustomRoles = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "roles.manage");
+
+    const [roles, users] = await Promise.all([
+      listEnterpriseRoles(ctx, securityContext.enterpriseId),
+      ctx.db
+        .query("users")
+        .withIndex("by_enterprise", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+        .collect(),
+    ]);
+
+    return roles
+      .map(role => ({
+        ...role,
+        memberCount: users.filter(user => user.customRoleId === role._id).length,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+/**
+ * Users of the enterprise with the custom role each holds, for assigning roles
+ */
+export const getRoleMembers = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "roles.manage");
+
+    const users = await ctx.db
+      .query("users")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+      .collect();
+
+    return users.map(user => ({
+      _id: user._id,
+      name: userName(user),
+      email: user.email,
+      role: user.role,
+      customRoleId: user.customRoleId,
+    }));
+  },
+});
+
+/**
+ * Users a record is shared with. Visible to anyone allowed to share it.
+ */
+export const getResourceGrants = query({
+  args: {
+    resourceType: resourceTypeValidator,
+    resourceId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    const resource = await loadGrantableResource(ctx, securityContext.enterpriseId, args.resourceType, args.resourceId);
+    requirePermission(securityContext, SHARE_PERMISSIONS[args.resourceType], resource);
+
+    const now = new Date().toISOString();
+    const grants = await ctx.db
+      .query("resourceGrants")
+      .withIndex("by_resource", (q) => q.eq("resourceType", args.resourceType).eq("resourceId", args.resourceId))
+      .collect();
+
+    const active = grants.filter(grant =>
+      grant.enterpriseId === securityContext.enterpriseId
+      && !grant.revokedAt
+      && (!grant.expiresAt || grant.expiresAt > now)
+    );
+    return await Promise.all(active.map(async (grant) => {
+      const user = await ctx.db.get(grant.userId);
+      return {
+        ...grant,
+        userName: user ? userName(user) : "Unknown user",
+        userEmail: user?.email,
+      };
+    }));
+  },
+});
+
+/**
+ * Security context of a user, for actions that cannot read the database
+ */
+export const getSecurityContextForUser = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args): Promise<SecurityContext | null> => {
+    const user = await ctx.db.get(args.userId);
+    if (!user || !user.isActive) return null;
+    return await getUserSecurityContext(ctx, user);
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+export const createCustomRole = mutation({
+  args: {
+    name: v.string(),
+    description: v.optional(v.string()),
+    permissions: v.array(v.string()),
+    departmentIds: v.optional(v.array(v.id("departments"))),
+    contractTypes: v.optional(v.array(contractTypeValidator)),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "roles.manage");
+
+    const name = normalizeRoleName(args.name);
+    const roles = await listEnterpriseRoles(ctx, securityContext.enterpriseId);
+    if (roles.some(role => role.name.toLowerCase() === name.toLowerCase())) {
+      throw new ConvexError(`A role named "${name}" already exists`);
+    }
+    const permissions = await validateRoleDefinition(ctx, securityContext, args);
+
+    const customRoleId = await ctx.db.insert("customRoles", {
+      enterpriseId: securityContext.enterpriseId,
+      name,
+      ...(args.description?.trim() ? { description: args.description.trim() } : {}),
+      permissions,
+      ...(args.departmentIds?.length ? { departmentIds: [...new Set(args.departmentIds)] } : {}),
+      ...(args.contractTypes?.length ? { contractTypes: [...new Set(args.contractTypes)] } : {}),
+      createdBy: securityContext.userId,
+      createdAt: new Date().toISOString(),
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "createCustomRole",
+      resourceType: "customRoles",
+      resourceId: customRoleId,
+      action: "create",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: { name, permissions, departmentIds: args.departmentIds, contractTypes: args.contractTypes },
+    });
+
+    return customRoleId;
+  },
+});
+
+/**
+ * Update a custom role. Pass null to lift the department or contract type
+ * limit. Users holding the role pick up the change on their next request.
+ */
+export const updateCustomRole = mutation({
+  args: {
+    customRoleId: v.id("customRoles"),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    permissions: v.optional(v.array(v.string())),
+    departmentIds: v.optional(v.union(v.array(v.id("departments")), v.null())),
+    contractTypes: v.optional(v.union(v.array(contractTypeValidator), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "roles.manage");
+
+    const role = await getEnterpriseRole(ctx, securityContext, args.customRoleId);
+
+    const name = args.name !== undefined ? normalizeRoleName(args.name) : role.name;
+    if (args.name !== undefined) {
+      const roles = await listEnterpriseRoles(ctx, securityContext.enterpriseId);
+      if (roles.some(other => other._id !== role._id && other.name.toLowerCase() === name.toLowerCase())) {
+        throw new ConvexError(`A role named "${name}" already exists`);
+      }
+    }
+
+    const departmentIds = args.departmentIds !== undefined ? args.departmentIds ?? undefined : role.departmentIds;
+    const contractTypes = args.contractTypes !== undefined ? args.contractTypes ?? undefined : role.contractTypes;
+    const permissions = await validateRoleDefinition(ctx, securityContext, {
+      permissions: args.permissions ?? role.permissions,
+      departmentIds: args.departmentIds ?? undefined,
+    });
+    const description = args.description !== undefined ? args.description.trim() || undefined : role.description;
+
+    // Replace rather than patch so lifted limits are removed
+    await ctx.db.replace(role._id, {
+      enterpriseId: role.enterpriseId,
+      name,
+      ...(description ? { description } : {}),
+      permissions,
+      ...(departmentIds?.length ? { departmentIds: [...new Set(departmentIds)] } : {}),
+      ...(contractTypes?.length ? { contractTypes: [...new Set(contractTypes)] } : {}),
+      createdBy: role.createdBy,
+      createdAt: role.createdAt,
+      updatedAt: new Date().toISOString(),
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "updateCustomRole",
+      resourceType: "customRoles",
+      resourceId: role._id,
+      action: "update",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      changes: {
+        before: { name: role.name, permissions: role.permissions, departmentIds: role.departmentIds, contractTypes: role.contractTypes },
+        after: { name, permissions, departmentIds, contractTypes },
+      },
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete a custom role. Its users fall back to their built-in role.
+ */
+export const deleteCustomRole = mutation({
+  args: { customRoleId: v.id("customRoles") },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "roles.manage");
+
+    const role = await getEnterpriseRole(ctx, securityContext, args.customRoleId);
+
+    const users = await ctx.db
+      .query("users")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+      .collect();
+    const holders = users.filter(user => user.customRoleId === role._id);
+    for (const user of holders) {
+      // Replace rather than patch so the role is removed
+      await ctx.db.replace(user._id, { ...withoutFields(user, ["customRoleId"]), updatedAt: new Date().toISOString() });
+    }
+
+    await ctx.db.delete(role._id);
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "deleteCustomRole",
+      resourceType: "customRoles",
+      resourceId: role._id,
+      action: "delete",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: { name: role.name, unassignedUsers: holders.length },
+    });
+
+    return { success: true, unassignedUsers: holders.length };
+  },
+});
+
+/**
+ * Assign a custom role to a user, or pass null to return them to their
+ * built-in role's permissions. Owners always keep every permission.
+ */
+export const assignCustomRole = mutation({
+  args: {
+    userId: v.id("users"),
+    customRoleId: v.union(v.id("customRoles"), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "roles.manage");
+
+    const user = await ctx.db.get(args.userId);
+    if (!user || user.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("User not found");
+    }
+    if (args.customRoleId && user.role === "owner") {
+      throw new ConvexError("Owners cannot be given a custom role");
+    }
+    const role = args.customRoleId ? await getEnterpriseRole(ctx, securityContext, args.customRoleId) : null;
+
+    if (role) {
+      await ctx.db.patch(user._id, { customRoleId: role._id, updatedAt: new Date().toISOString() });
+    } else {
+      // Replace rather than patch so the role is removed
+      await ctx.db.replace(user._id, { ...withoutFields(user, ["customRoleId"]), updatedAt: new Date().toISOString() });
+    }
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "assignCustomRole",
+      resourceType: "users",
+      resourceId: user._id,
+      action: "update",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      changes: {
+        before: { customRoleId: user.customRoleId },
+        after: { customRoleId: role?._id },
+      },
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Share one record with one user, whatever their role and scope. Only
+ * permissions the sharer holds on the record can be passed on; sharing again
+ * with the same user replaces the earlier grant.
+ */
+export const shareResource = mutation({
+  args: {
+    resourceType: resourceTypeValidator,
+    resourceId: v.string(),
+    userId: v.id("users"),
+    permissions: v.array(v.string()),
+    expiresAt: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    const resource = await loadGrantableResource(ctx, securityContext.enterpriseId, args.resourceType, args.resourceId);
+    requirePermission(securityContext, SHARE_PERMISSIONS[args.resourceType], resource);
+
+    const permissions = normalizeGrantPermissions(args.resourceType, args.permissions);
+    const beyondOwn = permissions.filter(permission => !hasPermission(securityContext, permission, resource));
+    if (beyondOwn.length > 0) {
+      throw new ConvexError(`You cannot share permissions you do not hold: ${beyondOwn.join(", ")}`);
+    }
+
+    const recipient = await ctx.db.get(args.userId);
+    if (!recipient || recipient.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("User not found");
+    }
+    if (args.expiresAt !== undefined && Number.isNaN(new Date(args.expiresAt).getTime())) {
+      throw new ConvexError("Expiry must be a valid date");
+    }
+    const now = new Date().toISOString();
+    const expiresAt = args.expiresAt !== undefined ? new Date(args.expiresAt).toISOString() : undefined;
+    if (expiresAt && expiresAt <= now) {
+      throw new ConvexError("Expiry must be in the future");
+    }
+
+    const existing = await ctx.db
+      .query("resourceGrants")
+      .withIndex("by_resource", (q) => q.eq("resourceType", args.resourceType).eq("resourceId", args.resourceId))
+      .collect();
+    for (const grant of existing.filter(grant => grant.userId === recipient._id && !grant.revokedAt)) {
+      await ctx.db.patch(grant._id, { revokedAt: now, revokedBy: securityContext.userId });
+    }
+
+    const grantId = await ctx.db.insert("resourceGrants", {
+      enterpriseId: securityContext.enterpriseId,
+      resourceType: args.resourceType,
+      resourceId: args.resourceId,
+      userId: recipient._id,
+      permissions,
+      grantedBy: securityContext.userId,
+      createdAt: now,
+      ...(expiresAt ? { expiresAt } : {}),
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "shareResource",
+      resourceType: args.resourceType,
+      resourceId: args.resourceId,
+      action: "share",
+      status: "success",
+      timestamp: now,
+      metadata: { grantId, sharedWith: recipient._id, permissions, expiresAt },
+    });
+
+    return grantId;
+  },
+});
+
+export const revokeResourceGrant = mutation({
+  args: { grantId: v.id("resourceGrants") },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const grant = await ctx.db.get(args.grantId);
+    if (!grant || grant.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Grant not found");
+    }
+    if (grant.revokedAt) {
+      return { success: true };
+    }
+    // The recipient can always give a grant back
+    if (grant.userId !== securityContext.userId) {
+      const resource = await loadGrantableResource(ctx, securityContext.enterpriseId, grant.resourceType, grant.resourceId);
+      requirePermission(securityContext, SHARE_PERMISSIONS[grant.resourceType], resource);
+    }
+
+    const now = new Date().toISOString();
+    await ctx.db.patch(grant._id, { revokedAt: now, revokedBy: securityContext.userId });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "revokeResourceGrant",
+      resourceType: grant.resourceType,
+      resourceId: grant.resourceId,
+      action: "update",
+      status: "success",
+      timestamp: now,
+      metadata: { grantId: grant._id, sharedWith: grant.userId },
+    });
+
+    return { success: true };
+  },
+});
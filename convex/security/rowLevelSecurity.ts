@@ -1,6 +1,19 @@
 import { QueryCtx, MutationCtx, DatabaseReader, DatabaseWriter } from "../_generated/server";
 import { Id, Doc, TableNames } from "../_generated/dataModel";
 import { ConvexError } from "convex/values";
+import { departmentSubtree } from "../lib/departmentHierarchy";
+import {
+  BUILT_IN_ROLE_PERMISSIONS,
+  hasPermission,
+  Permission,
+  PermissionHolder,
+  PermissionResource,
+  PermissionScope,
+  ResourceGrant,
+} from "./permissions";
+import { checkSignIn } from "./ssoPolicy";
+
+export { hasPermission };
 
 /**
  * Row-Level Security Implementation
@@ -14,32 +27,10 @@ export interface SecurityContext {
   enterpriseId: Id<"enterprises">;
   role: "owner" | "admin" | "manager" | "user" | "viewer";
   permissions: string[];
+  scope: PermissionScope | null; // Custom role scope, department subtrees expanded
+  resourceGrants: ResourceGrant[];
 }
 
-// Permission definitions based on roles
-const ROLE_PERMISSIONS = {
-  owner: ["*"], // All permissions
-  admin: [
-    "contracts.create", "contracts.read", "contracts.update", "contracts.delete",
-    "vendors.create", "vendors.read", "vendors.update", "vendors.delete",
-    "users.read", "users.update", "users.invite",
-    "analytics.read", "settings.read", "settings.update"
-  ],
-  manager: [
-    "contracts.create", "contracts.read", "contracts.update",
-    "vendors.create", "vendors.read", "vendors.update",
-    "users.read", "analytics.read"
-  ],
-  user: [
-    "contracts.create", "contracts.read", "contracts.update",
-    "vendors.create", "vendors.read", "vendors.update",
-    "analytics.read"
-  ],
-  viewer: [
-    "contracts.read", "vendors.read", "users.read", "analytics.read"
-  ]
-};
-
 /**
  * Get security context for the current user
  */
@@ -60,23 +51,110 @@ export async function getSecurityContext(
     throw new ConvexError("User not found or inactive");
   }
 
+  // Sessions from password sign-in stop working once SSO is required
+  const enterprise = await ctx.db.get(user.enterpriseId);
+  const ssoError = enterprise ? checkSignIn(enterprise, identity) : null;
+  if (ssoError) {
+    throw new ConvexError(ssoError);
+  }
+
+  return await getUserSecurityContext(ctx, user);
+}
+
+/**
+ * Security context of a given user: the custom role's permissions and scope
+ * when one is assigned, the built-in role's otherwise, plus the records shared
+ * with them
+ */
+export async function getUserSecurityContext(
+  ctx: QueryCtx | MutationCtx,
+  user: Doc<"users">
+): Promise<SecurityContext> {
+  const customRole = user.customRoleId ? await ctx.db.get(user.customRoleId) : null;
+  const role = customRole?.enterpriseId === user.enterpriseId ? customRole : null;
+
+  const grants = await ctx.db
+    .query("resourceGrants")
+    .withIndex("by_user", (q) => q.eq("userId", user._id))
+    .filter((q) => q.eq(q.field("revokedAt"), undefined))
+    .collect();
+
   return {
     userId: user._id,
     enterpriseId: user.enterpriseId,
     role: user.role,
-    permissions: ROLE_PERMISSIONS[user.role] || []
+    permissions: role ? role.permissions : BUILT_IN_ROLE_PERMISSIONS[user.role] || [],
+    scope: role ? await expandRoleScope(ctx, role) : null,
+    resourceGrants: grants
+      .filter(grant => grant.enterpriseId === user.enterpriseId)
+      .map(grant => ({
+        resourceType: grant.resourceType,
+        resourceId: grant.resourceId,
+        permissions: grant.permissions,
+        ...(grant.expiresAt ? { expiresAt: grant.expiresAt } : {}),
+      })),
   };
 }
 
 /**
- * Check if user has specific permission
+ * Throw unless the user has the permission
  */
-export function hasPermission(
-  context: SecurityContext,
-  permission: string
-): boolean {
-  if (context.permissions.includes("*")) return true;
-  return context.permissions.includes(permission);
+export function requirePermission(
+  context: PermissionHolder,
+  permission: Permission,
+  resource?: PermissionResource
+): void {
+  if (!hasPermission(context, permission, resource)) {
+    throw new ConvexError(`Permission denied: ${permission}`);
+  }
+}
+
+/**
+ * A contract as a permission check sees it
+ */
+export function contractResource(contract: Doc<"contracts">): PermissionResource {
+  return {
+    type: "contract",
+    id: contract._id,
+    ...(contract.departmentId ? { departmentId: contract.departmentId } : {}),
+    ...(contract.contractType ? { contractType: contract.contractType } : {}),
+  };
+}
+
+/**
+ * A budget as a permission check sees it
+ */
+export function budgetResource(budget: Doc<"budgets">): PermissionResource {
+  return {
+    type: "budget",
+    id: budget._id,
+    ...(budget.departmentId ? { departmentId: budget.departmentId } : {}),
+  };
+}
+
+async function expandRoleScope(
+  ctx: QueryCtx | MutationCtx,
+  role: Doc<"customRoles">
+): Promise<PermissionScope | null> {
+  if (!role.departmentIds?.length && !role.contractTypes?.length) return null;
+
+  let departmentIds: string[] | undefined;
+  if (role.departmentIds?.length) {
+    const departments = await ctx.db
+      .query("departments")
+      .withIndex("by_enterprise", (q) => q.eq("enterpriseId", role.enterpriseId))
+      .collect();
+    const scope = new Set<string>();
+    for (const root of role.departmentIds) {
+      departmentSubtree(departments, root).forEach(id => scope.add(id));
+    }
+    departmentIds = [...scope];
+  }
+
+  return {
+    ...(departmentIds ? { departmentIds } : {}),
+    ...(role.contractTypes?.length ? { contractTypes: role.contractTypes } : {}),
+  };
 }
 
 /**
@@ -213,4 +291,67 @@ export class SecureMutation {
     
     return doc;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Departments a user's reads are limited to: a custom role limited to
+ * departments sees those subtrees, and managers see the subtree of their own
+ * department and of any department they head. Null means no department
+ * restriction (owners, admins, other roles, and managers not tied to a
+ * department).
+ */
+export async function getDepartmentScope(
+  ctx: QueryCtx | MutationCtx,
+  securityContext: Pick<SecurityContext, "userId" | "enterpriseId" | "role" | "scope">
+): Promise<Set<string> | null> {
+  if (securityContext.scope?.departmentIds) return new Set(securityContext.scope.departmentIds);
+  if (securityContext.role !== "manager") return null;
+
+  const user = await ctx.db.get(securityContext.userId);
+  const headed = await ctx.db
+    .query("departments")
+    .withIndex("by_head", (q) => q.eq("headUserId", securityContext.userId))
+    .collect();
+
+  const roots = [
+    ...(user?.departmentId ? [user.departmentId] : []),
+    ...headed.filter(department => department.enterpriseId === securityContext.enterpriseId).map(department => department._id),
+  ];
+  if (roots.length === 0) return null;
+
+  const departments = await ctx.db
+    .query("departments")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+    .collect();
+
+  const scope = new Set<string>();
+  for (const root of roots) {
+    departmentSubtree(departments, root).forEach(id => scope.add(id));
+  }
+  return scope;
+}
+
+/**
+ * Whether a record is visible under a department scope. Records not assigned
+ * to a department belong to the whole enterprise and stay visible.
+ */
+export function isInDepartmentScope(scope: Set<string> | null, departmentId: string | undefined): boolean {
+  return !scope || !departmentId || scope.has(departmentId);
+}
+
+/**
+ * Whether the user may use the permission on a record, honouring their
+ * department scope. Records outside it are only reachable through a grant
+ * sharing them with the user.
+ */
+export function hasScopedPermission(
+  context: PermissionHolder,
+  departmentScope: Set<string> | null,
+  permission: Permission,
+  resource: PermissionResource
+): boolean {
+  const holder = isInDepartmentScope(departmentScope, resource.departmentId)
+    ? context
+    : { ...context, permissions: [] };
+  return hasPermission(holder, permission, resource);
+}
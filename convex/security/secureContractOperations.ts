@@ -5,6 +5,7 @@ import { createSecureQuery, createSecureMutation, createSecureAction } from "./s
 import { SecureQuery } from "./rowLevelSecurity";
 import { logAuditEvent } from "../auditLogging";
 import { api } from "../_generated/api";
+import { scheduleContractTextExtraction } from "../documents/contractTexts";
 import { ContractCSVRow } from "../../src/types/core-entities";
 
 /**
@@ -52,6 +53,8 @@ export const createSecureContract = createSecureMutation(
       notes: (args as any).notes?.trim(),
       createdAt: new Date().toISOString(),
     }, "contracts.create");
+
+    await scheduleContractTextExtraction(ctx, contractId);
     
     // Update audit log with created resource
     await logAuditEvent(ctx, security, {
@@ -3,7 +3,7 @@ import { ConvexError, v } from "convex/values";
 import { getSecurityContext, SecurityContext, hasPermission, SecureQuery, SecureMutation } from "./rowLevelSecurity";
 import { checkRateLimit } from "./rateLimiting";
 import { logAuditEvent } from "../auditLogging";
-import { api } from "../_generated/api";
+import { api, internal } from "../_generated/api";
 
 /**
  * Actions in Convex should use the built-in auth system instead of manual JWT validation.
@@ -19,30 +19,6 @@ async function validateClerkToken(token: string): Promise<{ sub: string } | null
   return null;
 }
 
-// Role permissions for action authentication
-const ROLE_PERMISSIONS = {
-  owner: ["*"],
-  admin: [
-    "contracts.create", "contracts.read", "contracts.update", "contracts.delete",
-    "vendors.create", "vendors.read", "vendors.update", "vendors.delete",
-    "users.read", "users.update", "users.invite",
-    "analytics.read", "settings.read", "settings.update"
-  ],
-  manager: [
-    "contracts.create", "contracts.read", "contracts.update",
-    "vendors.create", "vendors.read", "vendors.update",
-    "users.read", "analytics.read"
-  ],
-  user: [
-    "contracts.create", "contracts.read", "contracts.update",
-    "vendors.create", "vendors.read", "vendors.update",
-    "analytics.read"
-  ],
-  viewer: [
-    "contracts.read", "vendors.read", "users.read", "analytics.read"
-  ]
-};
-
 /**
  * Secure wrappers for Convex functions that automatically handle:
  * - Authentication and authorization
@@ -233,12 +209,13 @@ export function createSecureAction<Args extends { userId: string; enterpriseId:
           throw new ConvexError("Enterprise mismatch");
         }
         
-        securityContext = {
+        const userSecurityContext = await ctx.runQuery(internal.security.roles.getSecurityContextForUser, {
           userId: user._id,
-          enterpriseId: user.enterpriseId,
-          role: user.role,
-          permissions: ROLE_PERMISSIONS[user.role as keyof typeof ROLE_PERMISSIONS] || []
-        };
+        });
+        if (!userSecurityContext) {
+          throw new ConvexError("User not found or inactive");
+        }
+        securityContext = userSecurityContext;
       } catch (error) {
         console.error("Action authentication failed:", error);
         throw new ConvexError("Authentication failed: User verification failed");
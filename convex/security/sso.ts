@@ -0,0 +1,215 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, mutation, action, internalMutation } from "../_generated/server";
+import { api, internal } from "../_generated/api";
+import { ssoProtocolOptions } from "../schema";
+import { getSecurityContext, requirePermission } from "./rowLevelSecurity";
+import {
+  DOMAIN_VERIFICATION_PREFIX,
+  domainVerificationRecordName,
+  hasDomainVerificationRecord,
+  isDomainVerified,
+  isSsoIdentity,
+  normalizeDomain,
+} from "./ssoPolicy";
+import { appendAuditLog } from "../auditLogging";
+import { randomHex } from "../lib/crypto";
+
+/**
+ * Single sign-on settings
+ *
+ * Admins prove the enterprise controls its domain with a DNS TXT record, then
+ * require sign-in through the identity provider for addresses on it. The
+ * policy itself is enforced in getSecurityContext and coreUsers.upsertUser.
+ */
+
+// DNS over HTTPS resolver used to look up the verification record
+const DNS_RESOLVER_URL = "https://cloudflare-dns.com/dns-query";
+
+const DNS_TXT_RECORD_TYPE = 16;
+
+function generateVerificationToken(): string {
+  return randomHex(16);
+}
+
+/**
+ * The enterprise's SSO settings and the TXT record that verifies its domain
+ */
+export const getSsoSettings = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "sso.manage");
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    if (!enterprise) {
+      throw new ConvexError("Enterprise not found");
+    }
+    const settings = enterprise.ssoSettings;
+
+    return {
+      enterpriseId: enterprise._id,
+      domain: enterprise.domain ?? null,
+      required: settings?.required ?? false,
+      protocol: settings?.protocol ?? null,
+      connectionId: settings?.connectionId ?? null,
+      domainVerified: isDomainVerified(enterprise),
+      verifiedAt: settings?.verifiedAt ?? null,
+      verificationRecord: enterprise.domain && settings
+        ? {
+            name: domainVerificationRecordName(enterprise.domain),
+            value: `${DOMAIN_VERIFICATION_PREFIX}${settings.verificationToken}`,
+          }
+        : null,
+    };
+  },
+});
+
+/**
+ * Configure the identity provider and whether it is required. Requiring SSO
+ * needs a verified domain, and must be done from an SSO session so a broken
+ * identity provider setup cannot lock every admin out.
+ */
+export const updateSsoSettings = mutation({
+  args: {
+    required: v.boolean(),
+    protocol: v.union(...ssoProtocolOptions.map(option => v.literal(option))),
+    connectionId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "sso.manage");
+
+    const enterprise = await ctx.db.get(securityContext.enterpriseId);
+    if (!enterprise) {
+      throw new ConvexError("Enterprise not found");
+    }
+    if (!enterprise.domain) {
+      throw new ConvexError("Set the organization's domain before configuring single sign-on");
+    }
+
+    if (args.required) {
+      if (!isDomainVerified(enterprise)) {
+        throw new ConvexError(`Verify ${normalizeDomain(enterprise.domain)} before requiring single sign-on`);
+      }
+      const identity = await ctx.auth.getUserIdentity();
+      if (!identity || !isSsoIdentity(identity)) {
+        throw new ConvexError("Sign in through your identity provider before requiring single sign-on");
+      }
+    }
+
+    const previous = enterprise.ssoSettings;
+    const connectionId = args.connectionId?.trim();
+    const now = new Date().toISOString();
+    await ctx.db.patch(enterprise._id, {
+      ssoSettings: {
+        required: args.required,
+        protocol: args.protocol,
+        ...(connectionId ? { connectionId } : {}),
+        verificationToken: previous?.verificationToken ?? generateVerificationToken(),
+        ...(previous?.verifiedDomain ? { verifiedDomain: previous.verifiedDomain } : {}),
+        ...(previous?.verifiedAt ? { verifiedAt: previous.verifiedAt } : {}),
+        updatedBy: securityContext.userId,
+        updatedAt: now,
+      },
+      updatedAt: now,
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: enterprise._id,
+      operation: "updateSsoSettings",
+      resourceType: "enterprises",
+      resourceId: enterprise._id,
+      action: "update",
+      status: "success",
+      timestamp: now,
+      changes: {
+        before: previous ? { required: previous.required, protocol: previous.protocol, connectionId: previous.connectionId } : null,
+        after: { required: args.required, protocol: args.protocol, connectionId },
+      },
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Look up the domain's verification TXT record and mark the domain verified
+ * when it carries the enterprise's token
+ */
+export const verifySsoDomain = action({
+  args: {},
+  handler: async (ctx): Promise<{ verified: boolean; recordName: string }> => {
+    const settings = await ctx.runQuery(api.security.sso.getSsoSettings, {});
+    const user = await ctx.runQuery(api.users.getCurrentUser, {});
+    if (!user) {
+      throw new ConvexError("User not found");
+    }
+    if (!settings.domain || !settings.verificationRecord) {
+      throw new ConvexError("Save the single sign-on settings before verifying the domain");
+    }
+    const recordName = settings.verificationRecord.name;
+
+    const response = await fetch(`${DNS_RESOLVER_URL}?name=${encodeURIComponent(recordName)}&type=TXT`, {
+      headers: { Accept: "application/dns-json" },
+    });
+    if (!response.ok) {
+      throw new ConvexError(`DNS lookup failed with status ${response.status}`);
+    }
+    const answer = await response.json() as { Answer?: Array<{ type: number; data: string }> };
+    const txtValues = (answer.Answer ?? [])
+      .filter(record => record.type === DNS_TXT_RECORD_TYPE)
+      .map(record => record.data);
+
+    const token = settings.verificationRecord.value.slice(DOMAIN_VERIFICATION_PREFIX.length);
+    if (!hasDomainVerificationRecord(txtValues, token)) {
+      return { verified: false, recordName };
+    }
+
+    await ctx.runMutation(internal.security.sso.recordDomainVerification, {
+      enterpriseId: settings.enterpriseId,
+      domain: settings.domain,
+      verificationToken: token,
+      verifiedBy: user._id,
+    });
+    return { verified: true, recordName };
+  },
+});
+
+export const recordDomainVerification = internalMutation({
+  args: {
+    enterpriseId: v.id("enterprises"),
+    domain: v.string(),
+    verificationToken: v.string(),
+    verifiedBy: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const enterprise = await ctx.db.get(args.enterpriseId);
+    const settings = enterprise?.ssoSettings;
+    // The domain or token may have changed while DNS was being checked
+    if (!enterprise || !settings || enterprise.domain !== args.domain || settings.verificationToken !== args.verificationToken) {
+      return { success: false };
+    }
+
+    const now = new Date().toISOString();
+    await ctx.db.patch(enterprise._id, {
+      ssoSettings: { ...settings, verifiedDomain: normalizeDomain(args.domain), verifiedAt: now },
+      updatedAt: now,
+    });
+
+    await appendAuditLog(ctx, {
+      userId: args.verifiedBy,
+      enterpriseId: enterprise._id,
+      operation: "verifySsoDomain",
+      resourceType: "enterprises",
+      resourceId: enterprise._id,
+      action: "update",
+      status: "success",
+      timestamp: now,
+      metadata: { domain: normalizeDomain(args.domain) },
+    });
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,118 @@
+import type { SsoProtocol } from "../schema";
+
+/**
+ * Single sign-on policy
+ *
+ * An enterprise can require everyone signing in with an address on its
+ * verified domain to come through its SAML or OIDC identity provider. The
+ * policy only takes effect once the domain is proven with a DNS TXT record, so
+ * nobody can lock out another company's users by claiming their domain.
+ *
+ * How a session was established comes from the `auth_method` claim, which the
+ * Clerk JWT template for Convex sets to the session's first factor strategy.
+ */
+
+export const SSO_AUTH_METHOD_CLAIM = "auth_method";
+
+// First factor strategies that mean the user came through an identity provider
+const SSO_AUTH_METHODS = ["saml", "oidc", "enterprise_sso"];
+
+export const DOMAIN_VERIFICATION_PREFIX = "pactwise-domain-verification=";
+
+export interface SsoSettings {
+  required: boolean;
+  protocol: SsoProtocol;
+  connectionId?: string | undefined;
+  verificationToken: string;
+  verifiedDomain?: string | undefined;
+  verifiedAt?: string | undefined;
+}
+
+export interface SsoPolicySubject {
+  domain?: string | undefined;
+  ssoSettings?: SsoSettings | undefined;
+}
+
+export type SignInPolicy =
+  | { ssoRequired: false }
+  | { ssoRequired: true; protocol: SsoProtocol; connectionId?: string };
+
+/**
+ * Lowercased domain of an email address, or null when it has none
+ */
+export function emailDomain(email: string): string | null {
+  const at = email.lastIndexOf("@");
+  const domain = at >= 0 ? email.slice(at + 1).trim().toLowerCase() : "";
+  return domain || null;
+}
+
+export function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/\.$/, "");
+}
+
+/**
+ * Whether the enterprise's domain is the one its TXT record was found on.
+ * Changing the domain afterwards needs a new verification.
+ */
+export function isDomainVerified(enterprise: SsoPolicySubject): boolean {
+  const verifiedDomain = enterprise.ssoSettings?.verifiedDomain;
+  return !!enterprise.domain && !!verifiedDomain && normalizeDomain(enterprise.domain) === verifiedDomain;
+}
+
+/**
+ * How a user with this email has to sign in to the enterprise
+ */
+export function getSignInPolicy(enterprise: SsoPolicySubject, email: string): SignInPolicy {
+  const settings = enterprise.ssoSettings;
+  if (!settings?.required || !isDomainVerified(enterprise)) {
+    return { ssoRequired: false };
+  }
+  if (emailDomain(email) !== normalizeDomain(enterprise.domain!)) {
+    return { ssoRequired: false };
+  }
+  return {
+    ssoRequired: true,
+    protocol: settings.protocol,
+    ...(settings.connectionId ? { connectionId: settings.connectionId } : {}),
+  };
+}
+
+/**
+ * Whether the identity's session was established through an identity provider
+ */
+export function isSsoIdentity(identity: Record<string, unknown>): boolean {
+  const method = identity[SSO_AUTH_METHOD_CLAIM];
+  return typeof method === "string" && SSO_AUTH_METHODS.includes(method.toLowerCase());
+}
+
+/**
+ * Error message when the identity may not sign in to the enterprise, or null
+ * when it may
+ */
+export function checkSignIn(
+  enterprise: SsoPolicySubject,
+  identity: Record<string, unknown> & { email?: string | undefined }
+): string | null {
+  if (!identity.email) return null;
+  const policy = getSignInPolicy(enterprise, identity.email);
+  if (policy.ssoRequired && !isSsoIdentity(identity)) {
+    return `Single sign-on required: sign in to ${normalizeDomain(enterprise.domain!)} through your ${policy.protocol.toUpperCase()} identity provider`;
+  }
+  return null;
+}
+
+/**
+ * Name of the TXT record that proves control of the domain
+ */
+export function domainVerificationRecordName(domain: string): string {
+  return `_pactwise.${normalizeDomain(domain)}`;
+}
+
+/**
+ * Whether any of the TXT record values carries the verification token.
+ * Values may still be wrapped in the quotes DNS answers use.
+ */
+export function hasDomainVerificationRecord(txtValues: string[], verificationToken: string): boolean {
+  const expected = `${DOMAIN_VERIFICATION_PREFIX}${verificationToken}`;
+  return txtValues.some(value => value.replace(/"\s*"/g, "").replace(/^"|"$/g, "").trim() === expected);
+}
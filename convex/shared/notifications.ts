@@ -19,6 +19,8 @@ export const createNotification = mutation({
       v.literal("contract_created"), 
       v.literal("approval_required"),
       v.literal("payment_reminder"),
+      v.literal("obligation_reminder"),
+      v.literal("renewal_reminder"),
       v.literal("vendor_risk_alert"),
       v.literal("compliance_issue"),
       v.literal("task_assigned"),
@@ -69,6 +71,8 @@ export const createNotification = mutation({
           (args.type === "contract_expiration" || args.type === "contract_created") && preferences.contractNotifications ||
           args.type === "approval_required" && preferences.approvalNotifications ||
           args.type === "payment_reminder" && preferences.paymentNotifications ||
+          args.type === "obligation_reminder" && preferences.contractNotifications ||
+          args.type === "renewal_reminder" && preferences.contractNotifications ||
           (args.type === "vendor_risk_alert") && preferences.vendorNotifications ||
           args.type === "compliance_issue" && preferences.complianceNotifications ||
           args.type === "system_alert" && preferences.systemNotifications ||
@@ -757,7 +761,7 @@ export const createTestNotification = mutation({
 
     const notificationId = await ctx.db.insert("notifications", {
       recipientId: user._id,
-      type: (args.type || "system_alert") as "contract_expiration" | "contract_created" | "approval_required" | "payment_reminder" | "vendor_risk_alert" | "compliance_issue" | "task_assigned" | "system_alert" | "digest",
+      type: (args.type || "system_alert") as "contract_expiration" | "contract_created" | "approval_required" | "payment_reminder" | "obligation_reminder" | "renewal_reminder" | "vendor_risk_alert" | "compliance_issue" | "task_assigned" | "system_alert" | "digest",
       title: args.title || "Test Notification",
       message: args.message || "This is a test notification to verify the system is working.",
       priority: args.priority || "medium",
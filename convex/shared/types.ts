@@ -27,6 +27,7 @@ export type VendorEntity = Vendor;
 export type ContractStatus = 
   | "draft" 
   | "pending_analysis" 
+  | "pending_approval" 
   | "active" 
   | "expired" 
   | "terminated" 
@@ -402,7 +403,7 @@ export interface AuditLogEntry {
 // ============================================================================
 
 export function isContractStatus(value: string): value is ContractStatus {
-  return ["draft", "pending_analysis", "active", "expired", "terminated", "archived"].includes(value);
+  return ["draft", "pending_analysis", "pending_approval", "active", "expired", "terminated", "archived"].includes(value);
 }
 
 export function isVendorCategory(value: string): value is VendorCategory {
@@ -0,0 +1,535 @@
+import { v } from "convex/values";
+import { ConvexError } from "convex/values";
+import { query, mutation, MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { getSecurityContext, requirePermission } from "../security/rowLevelSecurity";
+import { CurrencyConverter } from "../currency/fxRates";
+import { normalizeCurrency, parseAmount } from "../currency/currencyConversion";
+import { bestVendorMatch } from "../agents/vendorMatching";
+import { recomputeBudgetSpend } from "../budgets";
+import {
+  SpendRecordInput,
+  SpendType,
+  isIsoDate,
+  parseSpendCsv,
+  selectContractForSpend,
+  spendFlags,
+  spendMatchStatus,
+} from "./spendMatching";
+import { appendAuditLog } from "../auditLogging";
+
+/**
+ * Spend
+ *
+ * Supplier invoices and purchase orders imported by CSV, entered by hand or
+ * posted to the REST API. Each document is matched to a vendor and contract
+ * (see `spendMatching.ts`), checked against the contract's value and term,
+ * and rolled up into the budgets the contract is allocated to.
+ */
+
+const spendTypeValidator = v.union(v.literal("invoice"), v.literal("purchase_order"));
+
+export interface SpendIngestResult {
+  imported: number;
+  updated: number;
+  matched: number;
+  flagged: number;
+  records: Array<Doc<"spendRecords">>;
+}
+
+/**
+ * Match and store spend documents for an enterprise, replacing any document
+ * already stored with the same type and number, then roll the spend up into
+ * every budget the affected contracts are allocated to. An explicit vendor or
+ * contract skips name matching for that document.
+ */
+export async function ingestSpend(
+  ctx: MutationCtx,
+  enterpriseId: Id<"enterprises">,
+  documents: Array<SpendRecordInput & { vendorId?: Id<"vendors">; contractId?: Id<"contracts"> }>,
+  options: { source: "csv" | "api" | "manual"; userId?: Id<"users"> }
+): Promise<SpendIngestResult> {
+  const converter = new CurrencyConverter(ctx);
+  const vendors = await ctx.db
+    .query("vendors")
+    .withIndex("by_enterprise", (q) => q.eq("enterpriseId", enterpriseId))
+    .collect();
+
+  const result: SpendIngestResult = { imported: 0, updated: 0, matched: 0, flagged: 0, records: [] };
+  const affectedContracts = new Set<Id<"contracts">>();
+
+  for (const document of documents) {
+    let vendorId = document.vendorId;
+    let matchScore = vendorId ? 1 : undefined;
+    let contract: Doc<"contracts"> | null = null;
+
+    if (document.contractId) {
+      contract = await ctx.db.get(document.contractId);
+      if (!contract || contract.enterpriseId !== enterpriseId) {
+        throw new ConvexError("Contract not found");
+      }
+      if (!vendorId && contract.vendorId) {
+        vendorId = contract.vendorId;
+        matchScore = 1;
+      }
+    }
+
+    if (vendorId) {
+      const vendor = vendors.find(candidate => candidate._id === vendorId);
+      if (!vendor) {
+        throw new ConvexError("Vendor not found");
+      }
+    } else {
+      const match = bestVendorMatch(document.vendorName, vendors);
+      if (match) {
+        vendorId = match.vendor._id;
+        matchScore = match.matchScore;
+      }
+    }
+
+    if (!contract && vendorId) {
+      const matchedVendorId = vendorId;
+      const vendorContracts = await ctx.db
+        .query("contracts")
+        .withIndex("by_vendorId_and_enterpriseId", (q) => q.eq("enterpriseId", enterpriseId).eq("vendorId", matchedVendorId))
+        .collect();
+      contract = selectContractForSpend(vendorContracts, document.spendDate);
+    }
+
+    const existing = await ctx.db
+      .query("spendRecords")
+      .withIndex("by_enterprise_document", (q) =>
+        q.eq("enterpriseId", enterpriseId).eq("type", document.type).eq("documentNumber", document.documentNumber)
+      )
+      .first();
+
+    const flags = contract
+      ? await contractSpendFlags(ctx, converter, contract, document, existing?._id)
+      : [];
+
+    const fields = {
+      type: document.type,
+      documentNumber: document.documentNumber,
+      vendorName: document.vendorName,
+      amount: document.amount,
+      currency: document.currency,
+      spendDate: document.spendDate,
+      matchStatus: spendMatchStatus(vendorId, contract?._id),
+      flags,
+      source: options.source,
+      ...(document.poNumber ? { poNumber: document.poNumber } : {}),
+      ...(document.description ? { description: document.description } : {}),
+      ...(vendorId ? { vendorId } : {}),
+      ...(contract ? { contractId: contract._id } : {}),
+      ...(matchScore !== undefined ? { matchScore } : {}),
+      ...(options.userId ? { createdBy: options.userId } : {}),
+    };
+
+    let recordId: Id<"spendRecords">;
+    if (existing) {
+      // Replaced whole so fields the new version no longer carries, and any
+      // reported anomaly, are cleared
+      await ctx.db.replace(existing._id, {
+        enterpriseId,
+        ...fields,
+        createdAt: existing.createdAt,
+      });
+      recordId = existing._id;
+      if (existing.contractId) affectedContracts.add(existing.contractId);
+      result.updated++;
+    } else {
+      recordId = await ctx.db.insert("spendRecords", {
+        enterpriseId,
+        ...fields,
+        createdAt: new Date().toISOString(),
+      });
+      result.imported++;
+    }
+
+    if (contract) {
+      affectedContracts.add(contract._id);
+      result.matched++;
+    }
+    if (flags.length > 0) result.flagged++;
+
+    const record = await ctx.db.get(recordId);
+    if (record) result.records.push(record);
+  }
+
+  await rollUpContractSpend(ctx, [...affectedContracts], converter);
+
+  return result;
+}
+
+/**
+ * Recompute the budgets the given contracts are allocated to
+ */
+async function rollUpContractSpend(
+  ctx: MutationCtx,
+  contractIds: Id<"contracts">[],
+  converter: CurrencyConverter
+): Promise<void> {
+  const budgetIds = new Set<Id<"budgets">>();
+  for (const contractId of contractIds) {
+    const allocations = await ctx.db
+      .query("contractBudgetAllocations")
+      .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+      .collect();
+    allocations.forEach(allocation => budgetIds.add(allocation.budgetId));
+  }
+
+  for (const budgetId of budgetIds) {
+    await recomputeBudgetSpend(ctx, budgetId, converter);
+  }
+}
+
+/**
+ * Flags for a document against its contract, comparing in the contract's
+ * currency as of the document date. The pricing check is skipped when the
+ * contract has no value or a rate is missing.
+ */
+async function contractSpendFlags(
+  ctx: MutationCtx,
+  converter: CurrencyConverter,
+  contract: Doc<"contracts">,
+  document: SpendRecordInput,
+  replacingId?: Id<"spendRecords">
+) {
+  const value = contract.value ?? (contract.extractedPricing ? parseAmount(contract.extractedPricing) : undefined);
+  const currency = await converter.contractCurrency(contract);
+
+  const amount = await converter.convert(contract.enterpriseId, document.amount, document.currency, currency, document.spendDate);
+  if (!amount || !value || document.type !== "invoice") {
+    return spendFlags(document, contract, undefined, 0);
+  }
+
+  const invoices = await ctx.db
+    .query("spendRecords")
+    .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+    .collect();
+
+  let invoicedToDate = 0;
+  for (const invoice of invoices) {
+    if (invoice.type !== "invoice" || invoice._id === replacingId) continue;
+    const converted = await converter.convert(contract.enterpriseId, invoice.amount, invoice.currency, currency, invoice.spendDate);
+    if (converted) invoicedToDate += converted.amount;
+  }
+
+  return spendFlags({ ...document, amount: amount.amount }, contract, value, invoicedToDate);
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export const getSpendRecords = query({
+  args: {
+    type: v.optional(spendTypeValidator),
+    matchStatus: v.optional(v.union(v.literal("matched"), v.literal("vendor_only"), v.literal("unmatched"))),
+    contractId: v.optional(v.id("contracts")),
+    flaggedOnly: v.optional(v.boolean()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    let records = args.contractId
+      ? await ctx.db
+          .query("spendRecords")
+          .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+          .collect()
+      : await ctx.db
+          .query("spendRecords")
+          .withIndex("by_enterprise", (q) => q.eq("enterpriseId", securityContext.enterpriseId))
+          .collect();
+
+    records = records.filter(record =>
+      record.enterpriseId === securityContext.enterpriseId
+      && (!args.type || record.type === args.type)
+      && (!args.matchStatus || record.matchStatus === args.matchStatus)
+      && (!args.flaggedOnly || record.flags.length > 0)
+    );
+
+    const page = records
+      .sort((a, b) => b.spendDate.localeCompare(a.spendDate) || b.createdAt.localeCompare(a.createdAt))
+      .slice(0, args.limit ?? 200);
+
+    return Promise.all(page.map(async (record) => {
+      const vendor = record.vendorId ? await ctx.db.get(record.vendorId) : null;
+      const contract = record.contractId ? await ctx.db.get(record.contractId) : null;
+      return {
+        ...record,
+        vendorDisplayName: vendor?.name,
+        contractTitle: contract?.title,
+      };
+    }));
+  },
+});
+
+/**
+ * Invoiced and ordered totals for a contract in the contract's currency,
+ * against its value
+ */
+export const getContractSpend = query({
+  args: { contractId: v.id("contracts") },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
+      return null;
+    }
+
+    const converter = new CurrencyConverter(ctx);
+    const currency = await converter.contractCurrency(contract);
+    const records = await ctx.db
+      .query("spendRecords")
+      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+      .collect();
+
+    let invoiced = 0;
+    let ordered = 0;
+    let unconverted = 0;
+    for (const record of records) {
+      const converted = await converter.convert(contract.enterpriseId, record.amount, record.currency, currency, record.spendDate);
+      if (!converted) {
+        unconverted++;
+      } else if (record.type === "invoice") {
+        invoiced += converted.amount;
+      } else {
+        ordered += converted.amount;
+      }
+    }
+
+    const value = contract.value ?? (contract.extractedPricing ? parseAmount(contract.extractedPricing) : undefined);
+
+    return {
+      currency,
+      invoiced,
+      ordered,
+      invoiceCount: records.filter(record => record.type === "invoice").length,
+      purchaseOrderCount: records.filter(record => record.type === "purchase_order").length,
+      flaggedCount: records.filter(record => record.flags.length > 0).length,
+      unconverted,
+      ...(value ? { contractValue: value, remaining: value - invoiced } : {}),
+    };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Import invoices or purchase orders from CSV text. Valid rows are matched
+ * and saved and invalid ones reported back.
+ */
+export const importSpendCsv = mutation({
+  args: {
+    csv: v.string(),
+    // Type for rows without a type column
+    type: v.optional(spendTypeValidator),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "spend.import");
+
+    const reportingCurrency = await new CurrencyConverter(ctx).reportingCurrency(securityContext.enterpriseId);
+    const { records, errors } = parseSpendCsv(args.csv, reportingCurrency, args.type);
+    if (records.length === 0) {
+      throw new ConvexError(errors[0] ?? "No valid rows found in CSV");
+    }
+
+    const result = await ingestSpend(ctx, securityContext.enterpriseId, records, {
+      source: "csv",
+      userId: securityContext.userId,
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "importSpendCsv",
+      resourceType: "spendRecords",
+      action: "create",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: {
+        imported: result.imported,
+        updated: result.updated,
+        matched: result.matched,
+        flagged: result.flagged,
+        rejected: errors.length,
+      },
+    });
+
+    return {
+      imported: result.imported,
+      updated: result.updated,
+      matched: result.matched,
+      flagged: result.flagged,
+      errors,
+    };
+  },
+});
+
+export const createSpendRecord = mutation({
+  args: {
+    type: spendTypeValidator,
+    documentNumber: v.string(),
+    poNumber: v.optional(v.string()),
+    vendorName: v.string(),
+    vendorId: v.optional(v.id("vendors")),
+    contractId: v.optional(v.id("contracts")),
+    amount: v.number(),
+    currency: v.optional(v.string()),
+    spendDate: v.string(),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "spend.import");
+
+    const document = await validateSpendDocument(ctx, securityContext.enterpriseId, args);
+    const result = await ingestSpend(ctx, securityContext.enterpriseId, [document], {
+      source: "manual",
+      userId: securityContext.userId,
+    });
+
+    return result.records[0]!;
+  },
+});
+
+/**
+ * Point a document at a different contract (or clear it) when matching got
+ * it wrong, re-checking its flags and the budgets on both sides
+ */
+export const assignSpendRecordContract = mutation({
+  args: {
+    spendRecordId: v.id("spendRecords"),
+    contractId: v.optional(v.id("contracts")),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "spend.import");
+
+    const record = await ctx.db.get(args.spendRecordId);
+    if (!record || record.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Spend record not found");
+    }
+
+    if (!args.contractId) {
+      await ctx.db.replace(record._id, {
+        enterpriseId: record.enterpriseId,
+        ...spendDocument(record),
+        ...(record.vendorId ? { vendorId: record.vendorId } : {}),
+        ...(record.matchScore !== undefined ? { matchScore: record.matchScore } : {}),
+        ...(record.createdBy ? { createdBy: record.createdBy } : {}),
+        matchStatus: spendMatchStatus(record.vendorId, undefined),
+        flags: [],
+        source: record.source,
+        createdAt: record.createdAt,
+      });
+      if (record.contractId) {
+        await rollUpContractSpend(ctx, [record.contractId], new CurrencyConverter(ctx));
+      }
+      return { success: true };
+    }
+
+    const result = await ingestSpend(ctx, securityContext.enterpriseId, [{
+      ...spendDocument(record),
+      contractId: args.contractId,
+    }], { source: record.source, userId: securityContext.userId });
+
+    return { success: true, flags: result.records[0]?.flags ?? [] };
+  },
+});
+
+export const deleteSpendRecord = mutation({
+  args: { spendRecordId: v.id("spendRecords") },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "spend.import");
+
+    const record = await ctx.db.get(args.spendRecordId);
+    if (!record || record.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Spend record not found");
+    }
+
+    await ctx.db.delete(args.spendRecordId);
+    if (record.contractId) {
+      await rollUpContractSpend(ctx, [record.contractId], new CurrencyConverter(ctx));
+    }
+
+    return { success: true };
+  },
+});
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check a single document entered by hand or posted to the API, defaulting
+ * its currency to the enterprise's reporting currency
+ */
+export async function validateSpendDocument(
+  ctx: MutationCtx,
+  enterpriseId: Id<"enterprises">,
+  input: {
+    type: SpendType;
+    documentNumber: string;
+    poNumber?: string | undefined;
+    vendorName: string;
+    vendorId?: Id<"vendors"> | undefined;
+    contractId?: Id<"contracts"> | undefined;
+    amount: number;
+    currency?: string | undefined;
+    spendDate: string;
+    description?: string | undefined;
+  }
+): Promise<SpendRecordInput & { vendorId?: Id<"vendors">; contractId?: Id<"contracts"> }> {
+  const documentNumber = input.documentNumber.trim();
+  const vendorName = input.vendorName.trim();
+  if (!documentNumber) {
+    throw new ConvexError("Document number is required");
+  }
+  if (!vendorName) {
+    throw new ConvexError("Vendor name is required");
+  }
+  if (!Number.isFinite(input.amount) || input.amount <= 0) {
+    throw new ConvexError("Amount must be a positive number");
+  }
+  if (!isIsoDate(input.spendDate)) {
+    throw new ConvexError("Date must be YYYY-MM-DD");
+  }
+
+  const currency = input.currency
+    ? normalizeCurrency(input.currency)
+    : await new CurrencyConverter(ctx).reportingCurrency(enterpriseId);
+
+  return {
+    type: input.type,
+    documentNumber,
+    ...(input.poNumber?.trim() ? { poNumber: input.poNumber.trim() } : {}),
+    vendorName,
+    ...(input.vendorId ? { vendorId: input.vendorId } : {}),
+    ...(input.contractId ? { contractId: input.contractId } : {}),
+    amount: input.amount,
+    currency,
+    spendDate: input.spendDate,
+    ...(input.description?.trim() ? { description: input.description.trim() } : {}),
+  };
+}
+
+function spendDocument(record: Doc<"spendRecords">): SpendRecordInput {
+  return {
+    type: record.type,
+    documentNumber: record.documentNumber,
+    ...(record.poNumber ? { poNumber: record.poNumber } : {}),
+    vendorName: record.vendorName,
+    amount: record.amount,
+    currency: record.currency,
+    spendDate: record.spendDate,
+    ...(record.description ? { description: record.description } : {}),
+  };
+}
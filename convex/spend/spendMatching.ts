@@ -0,0 +1,271 @@
+import { isSupportedCurrency, parseMoney } from "../currency/currencyConversion";
+
+/**
+ * Spend matching rules
+ *
+ * Supplier invoices and purchase orders arrive by CSV or the REST API with a
+ * vendor name as printed on the document. Each one is resolved to a vendor by
+ * the vendor agent's name matching, then to that vendor's contract in force
+ * on the document date, and invoices are checked against the contract's value
+ * and term. Pure so it can be unit tested; persistence lives in `spend.ts`.
+ */
+
+export type SpendType = "invoice" | "purchase_order";
+
+export type SpendFlag = "exceeds_contract_pricing" | "outside_contract_term";
+
+export type SpendMatchStatus = "matched" | "vendor_only" | "unmatched";
+
+export interface SpendRecordInput {
+  type: SpendType;
+  documentNumber: string;
+  poNumber?: string;
+  vendorName: string;
+  amount: number;
+  currency: string;
+  spendDate: string;
+  description?: string;
+}
+
+export interface SpendCsvParseResult {
+  records: SpendRecordInput[];
+  errors: string[];
+}
+
+/**
+ * The contract fields matching looks at
+ */
+export interface SpendContractTerms {
+  status: string;
+  startDate?: string | undefined;
+  endDate?: string | undefined;
+  extractedStartDate?: string | undefined;
+  extractedEndDate?: string | undefined;
+}
+
+const MAX_CSV_ROWS = 5000;
+
+const COLUMN_ALIASES = {
+  type: ["type", "document_type"],
+  documentNumber: ["number", "document_number", "invoice_number", "invoice_no"],
+  poNumber: ["po_number", "po", "purchase_order"],
+  vendorName: ["vendor", "vendor_name", "supplier", "supplier_name"],
+  amount: ["amount", "total", "net_amount"],
+  currency: ["currency"],
+  spendDate: ["date", "invoice_date", "order_date", "spend_date"],
+  description: ["description", "memo"],
+} as const;
+
+/**
+ * Read a document type as written in a source system
+ */
+export function normalizeSpendType(text: string): SpendType | null {
+  const normalized = text.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if (normalized === "invoice" || normalized === "inv") return "invoice";
+  if (normalized === "purchase_order" || normalized === "po") return "purchase_order";
+  return null;
+}
+
+/**
+ * Parse invoices or POs from CSV with at least vendor, amount, date and a
+ * document or PO number column (columns in any order). Bad rows are reported
+ * and skipped rather than failing the import.
+ */
+export function parseSpendCsv(
+  csv: string,
+  defaultCurrency: string,
+  defaultType: SpendType = "invoice"
+): SpendCsvParseResult {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim().length > 0);
+  const records: SpendRecordInput[] = [];
+  const errors: string[] = [];
+
+  if (lines.length === 0) {
+    return { records, errors: ["CSV is empty"] };
+  }
+
+  const header = splitCsvLine(lines[0]!).map(column => column.toLowerCase().replace(/\s+/g, "_"));
+  const columnIndex = (aliases: readonly string[]) => header.findIndex(column => aliases.includes(column));
+  const columns = {
+    type: columnIndex(COLUMN_ALIASES.type),
+    documentNumber: columnIndex(COLUMN_ALIASES.documentNumber),
+    poNumber: columnIndex(COLUMN_ALIASES.poNumber),
+    vendorName: columnIndex(COLUMN_ALIASES.vendorName),
+    amount: columnIndex(COLUMN_ALIASES.amount),
+    currency: columnIndex(COLUMN_ALIASES.currency),
+    spendDate: columnIndex(COLUMN_ALIASES.spendDate),
+    description: columnIndex(COLUMN_ALIASES.description),
+  };
+
+  const missing = [
+    ...(columns.vendorName === -1 ? ["vendor"] : []),
+    ...(columns.amount === -1 ? ["amount"] : []),
+    ...(columns.spendDate === -1 ? ["date"] : []),
+    ...(columns.documentNumber === -1 && columns.poNumber === -1 ? ["number"] : []),
+  ];
+  if (missing.length > 0) {
+    return { records, errors: [`CSV header is missing: ${missing.join(", ")}`] };
+  }
+  if (lines.length - 1 > MAX_CSV_ROWS) {
+    return { records, errors: [`CSV has more than ${MAX_CSV_ROWS} rows`] };
+  }
+
+  lines.slice(1).forEach((line, index) => {
+    const row = index + 2;
+    const cells = splitCsvLine(line);
+    const cell = (column: number) => (column === -1 ? "" : cells[column] ?? "");
+
+    const typeText = cell(columns.type);
+    const type = typeText ? normalizeSpendType(typeText) : defaultType;
+    const poNumber = cell(columns.poNumber);
+    // A PO export may only carry the PO number
+    const documentNumber = cell(columns.documentNumber) || (type === "purchase_order" ? poNumber : "");
+    const vendorName = cell(columns.vendorName);
+    const amountText = cell(columns.amount);
+    const money = parseMoney(amountText, defaultCurrency);
+    const currency = (cell(columns.currency) || money.currency).toUpperCase();
+    const spendDate = cell(columns.spendDate);
+    const description = cell(columns.description);
+
+    if (!type) {
+      errors.push(`Row ${row}: unknown document type ${typeText}`);
+    } else if (!documentNumber) {
+      errors.push(`Row ${row}: document number is required`);
+    } else if (!vendorName) {
+      errors.push(`Row ${row}: vendor is required`);
+    } else if (!/\d/.test(amountText) || amountText.trim().startsWith("-") || money.amount <= 0) {
+      errors.push(`Row ${row}: amount must be a positive number`);
+    } else if (!isSupportedCurrency(currency)) {
+      errors.push(`Row ${row}: unsupported currency ${currency}`);
+    } else if (!isIsoDate(spendDate)) {
+      errors.push(`Row ${row}: date must be YYYY-MM-DD`);
+    } else {
+      records.push({
+        type,
+        documentNumber,
+        ...(poNumber && poNumber !== documentNumber ? { poNumber } : {}),
+        vendorName,
+        amount: money.amount,
+        currency,
+        spendDate,
+        ...(description ? { description } : {}),
+      });
+    }
+  });
+
+  return { records, errors };
+}
+
+/**
+ * A contract's term as YYYY-MM-DD bounds, preferring user-entered dates over
+ * extracted ones. Either bound is undefined when unknown or unparseable.
+ */
+export function contractTermBounds(contract: SpendContractTerms): { start?: string; end?: string } {
+  const start = toIsoDay(contract.startDate ?? contract.extractedStartDate);
+  const end = toIsoDay(contract.endDate ?? contract.extractedEndDate);
+  return {
+    ...(start ? { start } : {}),
+    ...(end ? { end } : {}),
+  };
+}
+
+/**
+ * Whether a day falls inside the contract term. Unknown bounds are treated as
+ * open so contracts without dates are never flagged.
+ */
+export function isWithinContractTerm(contract: SpendContractTerms, day: string): boolean {
+  const { start, end } = contractTermBounds(contract);
+  const date = day.slice(0, 10);
+  return (!start || date >= start) && (!end || date <= end);
+}
+
+/**
+ * The vendor contract a document most likely belongs to: one in force on the
+ * document date, preferring active contracts, then the most recently started.
+ * Falls back to the vendor's active contract when none covers the date.
+ */
+export function selectContractForSpend<T extends SpendContractTerms>(contracts: T[], spendDate: string): T | null {
+  const candidates = contracts.filter(contract => contract.status !== "draft" && contract.status !== "archived");
+  if (candidates.length === 0) return null;
+
+  const rank = (contract: T) =>
+    (isWithinContractTerm(contract, spendDate) ? 2 : 0) + (contract.status === "active" ? 1 : 0);
+
+  const best = [...candidates].sort((a, b) =>
+    rank(b) - rank(a)
+    || (contractTermBounds(b).start ?? "").localeCompare(contractTermBounds(a).start ?? "")
+  )[0]!;
+
+  return rank(best) > 0 ? best : null;
+}
+
+/**
+ * Flags for an invoice against its contract. `invoicedToDate` is what was
+ * already invoiced on the contract, in the same currency as `amount` and
+ * `contractValue`. Purchase orders are only checked against the term.
+ */
+export function spendFlags(
+  record: { type: SpendType; amount: number; spendDate: string },
+  contract: SpendContractTerms,
+  contractValue: number | undefined,
+  invoicedToDate: number
+): SpendFlag[] {
+  const flags: SpendFlag[] = [];
+
+  if (record.type === "invoice" && contractValue !== undefined && contractValue > 0
+    && roundMoney(invoicedToDate + record.amount) > roundMoney(contractValue)) {
+    flags.push("exceeds_contract_pricing");
+  }
+  if (!isWithinContractTerm(contract, record.spendDate)) {
+    flags.push("outside_contract_term");
+  }
+
+  return flags;
+}
+
+export function spendMatchStatus(vendorId: unknown, contractId: unknown): SpendMatchStatus {
+  if (vendorId && contractId) return "matched";
+  return vendorId ? "vendor_only" : "unmatched";
+}
+
+export function isIsoDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(value).getTime());
+}
+
+function toIsoDay(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString().slice(0, 10);
+}
+
+// Split a CSV line, keeping commas inside double quotes ("Acme, Inc.")
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === "," && !quoted) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+
+  return cells;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -4,6 +4,7 @@ import { ConvexError } from "convex/values";
 import { getSecurityContext } from "../security/rowLevelSecurity";
 import { api } from "../_generated/api";
 import { Id, Doc } from "../_generated/dataModel";
+import { appendAuditLog } from "../auditLogging";
 
 // Type definitions to avoid deep type instantiation
 const templateVariableValidator = v.object({
@@ -98,7 +99,7 @@ export const createTemplate = mutation({
     });
 
     // Log the creation
-    await ctx.db.insert("auditLogs", {
+    await appendAuditLog(ctx, {
       userId: securityContext.userId,
       enterpriseId: securityContext.enterpriseId,
       operation: "createTemplate",
@@ -329,7 +330,7 @@ export const updateTemplate = mutation({
     await ctx.db.patch(args.templateId, updates);
 
     // Log the update
-    await ctx.db.insert("auditLogs", {
+    await appendAuditLog(ctx, {
       userId: securityContext.userId,
       enterpriseId: securityContext.enterpriseId,
       operation: "updateTemplate",
@@ -375,7 +376,7 @@ export const deleteTemplate = mutation({
     });
 
     // Log the deletion
-    await ctx.db.insert("auditLogs", {
+    await appendAuditLog(ctx, {
       userId: securityContext.userId,
       enterpriseId: securityContext.enterpriseId,
       operation: "deleteTemplate",
@@ -543,7 +544,7 @@ export const cloneTemplate = mutation({
     });
 
     // Log the cloning
-    await ctx.db.insert("auditLogs", {
+    await appendAuditLog(ctx, {
       userId: securityContext.userId,
       enterpriseId: securityContext.enterpriseId,
       operation: "cloneTemplate",
@@ -2,6 +2,8 @@
 import { v } from "convex/values";
 import { mutation, query, internalMutation } from "./_generated/server";
 import { Doc, Id } from "./_generated/dataModel";
+import { getLLM } from "./ai/llm";
+import { createProvider } from "./ai/llmProviders";
 
 // ============================================================================
 // VECTOR EMBEDDINGS FOR SEMANTIC MEMORY SEARCH
@@ -9,9 +11,7 @@ import { Doc, Id } from "./_generated/dataModel";
 
 // Configuration for embedding service
 const EMBEDDING_CONFIG = {
-  model: "text-embedding-3-small", // OpenAI's latest embedding model
-  dimensions: 1536, // OpenAI embedding dimensions
-  batchSize: 100, // OpenAI batch size limit
+  batchSize: 100, // Memories embedded per run
   similarityThreshold: 0.7,
   maxRetries: 3,
   cacheExpiry: 24 * 60 * 60 * 1000, // 24 hours
@@ -34,111 +34,20 @@ export const cosineSimilarity = (vec1: number[], vec2: number[]): number => {
   return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
 };
 
-// Generate embedding for text using OpenAI API
+// Generate embedding for text on the deployment's default provider. Usage is
+// not recorded here; callers with a mutation or action context use getLLM.
 export const generateEmbedding = async (text: string): Promise<number[]> => {
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  
-  if (!openaiApiKey) {
-    throw new Error("OPENAI_API_KEY environment variable is not set");
-  }
-  
-  try {
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${openaiApiKey}`
-      },
-      body: JSON.stringify({
-        model: EMBEDDING_CONFIG.model,
-        input: text.slice(0, 8191), // OpenAI token limit
-        encoding_format: "float"
-      })
-    });
-    
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`);
-    }
-    
-    const data = await response.json();
-    return data.data[0].embedding;
-  } catch (error) {
-    console.error("Error generating embedding:", error);
-    // Fallback to deterministic embedding for development/testing
-    if (process.env.NODE_ENV === 'development' || !openaiApiKey) {
-      const hash = text.split('').reduce((acc, char) => {
-        return ((acc << 5) - acc) + char.charCodeAt(0);
-      }, 0);
-      
-      const embedding = new Array(EMBEDDING_CONFIG.dimensions).fill(0);
-      for (let i = 0; i < EMBEDDING_CONFIG.dimensions; i++) {
-        embedding[i] = Math.sin(hash * (i + 1)) * Math.cos(hash / (i + 1));
-      }
-      
-      const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-      return embedding.map(val => val / magnitude);
-    }
-    throw error;
-  }
+  const result = await createProvider().embed([text]);
+  return result.embeddings[0]!;
 };
 
 // Generate embeddings for a batch of texts
 export const generateBatchEmbeddings = async (
   texts: string[]
 ): Promise<number[][]> => {
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  
-  if (!openaiApiKey) {
-    throw new Error("OPENAI_API_KEY environment variable is not set");
-  }
-  
-  // OpenAI supports batch processing
-  const results: number[][] = [];
-  const chunkSize = EMBEDDING_CONFIG.batchSize;
-  
-  try {
-    for (let i = 0; i < texts.length; i += chunkSize) {
-      const chunk = texts.slice(i, i + chunkSize);
-      const truncatedChunk = chunk.map(text => text.slice(0, 8191)); // Token limit
-      
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${openaiApiKey}`
-        },
-        body: JSON.stringify({
-          model: EMBEDDING_CONFIG.model,
-          input: truncatedChunk,
-          encoding_format: "float"
-        })
-      });
-      
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`);
-      }
-      
-      const data = await response.json();
-      const embeddings = data.data.map((item: any) => item.embedding);
-      results.push(...embeddings);
-      
-      // Rate limiting: wait 100ms between batches
-      if (i + chunkSize < texts.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-    }
-    
-    return results;
-  } catch (error) {
-    console.error("Error generating batch embeddings:", error);
-    // Fallback to individual processing
-    if (process.env.NODE_ENV === 'development' || !openaiApiKey) {
-      return Promise.all(texts.map(text => generateEmbedding(text)));
-    }
-    throw error;
-  }
+  if (texts.length === 0) return [];
+  const result = await createProvider().embed(texts);
+  return result.embeddings;
 };
 
 // Update memory with embedding
@@ -175,7 +84,8 @@ export const processMemoryEmbeddings = internalMutation({
       `${m.memoryType}: ${m.content} ${m.summary || ''} ${m.keywords?.join(' ') || ''}`
     );
     
-    const embeddings = await generateBatchEmbeddings(texts);
+    const llm = await getLLM(ctx, undefined, "memory_embeddings");
+    const embeddings = await llm.embedBatch(texts);
     
     // Update memories with embeddings
     for (let i = 0; i < memories.length; i++) {
@@ -0,0 +1,299 @@
+import { ConvexError, Infer } from "convex/values";
+import { Id } from "../_generated/dataModel";
+import {
+  ApprovalType,
+  ContractStatus,
+  UserRole,
+  WorkflowStepStatus,
+  workflowApproverValidator,
+  workflowConditionValidator,
+  workflowStepValidator,
+} from "../schema";
+
+/**
+ * Approval workflow engine
+ *
+ * Pure rules behind the approval workflow mutations: which workflow applies to
+ * a contract, which steps run, who may act on a step, when the workflow moves
+ * on, and which contract status each outcome leads to. Kept free of database
+ * access so the rules can be unit tested.
+ */
+
+export type WorkflowCondition = Infer<typeof workflowConditionValidator>;
+export type WorkflowApprover = Infer<typeof workflowApproverValidator>;
+export type WorkflowStepDefinition = Infer<typeof workflowStepValidator>;
+
+export type WorkflowDecision = "approved" | "rejected" | "changes_requested";
+export type WorkflowOutcome = "started" | WorkflowDecision | "cancelled";
+
+// Contract facts conditions are evaluated against
+export interface WorkflowFacts {
+  contractValue?: number;
+  contractType?: string;
+  departmentId?: string;
+  vendorCategory?: string;
+}
+
+// The parts of a step row the engine reasons about
+export interface WorkflowStepState {
+  stepId: string;
+  order: number;
+  status: WorkflowStepStatus;
+  approvers: WorkflowApprover[];
+  requiredApprovals: number;
+  decisions: Array<{ userId: Id<"users">; decision: WorkflowDecision; onBehalfOf?: Id<"users"> | undefined }>;
+  delegations: Array<{ fromUserId: Id<"users">; toUserId: Id<"users"> }>;
+}
+
+export interface WorkflowActor {
+  userId: Id<"users">;
+  role: UserRole;
+}
+
+export type StepActorResolution =
+  | { allowed: true; onBehalfOf?: Id<"users"> }
+  | { allowed: false; reason: string };
+
+export type WorkflowAdvance =
+  | { type: "wait" }
+  | { type: "activate"; order: number }
+  | { type: "complete" };
+
+// Owner (Level 5), Admin (Level 4), Manager (Level 3), User (Level 2), Viewer (Level 1)
+const ROLE_LEVELS: Record<UserRole, number> = {
+  owner: 5,
+  admin: 4,
+  manager: 3,
+  user: 2,
+  viewer: 1,
+};
+
+// Escalation target when a step does not name one
+export const DEFAULT_ESCALATION_APPROVERS: WorkflowApprover[] = [{ type: "role", role: "admin" }];
+
+/**
+ * Check a single condition. A fact the contract does not have never matches.
+ */
+export function evaluateCondition(condition: WorkflowCondition, facts: WorkflowFacts): boolean {
+  const actual = facts[condition.field];
+  if (actual === undefined) return false;
+
+  const expected = condition.value;
+  switch (condition.operator) {
+    case "eq":
+      return actual === expected;
+    case "neq":
+      return actual !== expected;
+    case "gt":
+      return typeof actual === "number" && typeof expected === "number" && actual > expected;
+    case "gte":
+      return typeof actual === "number" && typeof expected === "number" && actual >= expected;
+    case "lt":
+      return typeof actual === "number" && typeof expected === "number" && actual < expected;
+    case "lte":
+      return typeof actual === "number" && typeof expected === "number" && actual <= expected;
+    case "in":
+      return Array.isArray(expected) && expected.includes(String(actual));
+    case "not_in":
+      return Array.isArray(expected) && !expected.includes(String(actual));
+  }
+}
+
+export function matchesConditions(conditions: WorkflowCondition[] | undefined, facts: WorkflowFacts): boolean {
+  return (conditions ?? []).every(condition => evaluateCondition(condition, facts));
+}
+
+/**
+ * Pick the active workflow for an approval: highest priority among those whose
+ * conditions all match, oldest first on ties.
+ */
+export function selectWorkflow<
+  T extends { approvalType: ApprovalType; conditions: WorkflowCondition[]; priority: number; isActive: boolean; createdAt: string }
+>(workflows: T[], approvalType: ApprovalType, facts: WorkflowFacts): T | null {
+  const candidates = workflows
+    .filter(workflow => workflow.isActive && workflow.approvalType === approvalType)
+    .filter(workflow => matchesConditions(workflow.conditions, facts))
+    .sort((a, b) => b.priority - a.priority || a.createdAt.localeCompare(b.createdAt));
+
+  return candidates[0] ?? null;
+}
+
+/**
+ * Reject step definitions the engine cannot run
+ */
+export function validateWorkflowSteps(steps: WorkflowStepDefinition[]): void {
+  if (steps.length === 0) {
+    throw new ConvexError("A workflow needs at least one step");
+  }
+
+  const ids = new Set<string>();
+  for (const step of steps) {
+    if (ids.has(step.id)) {
+      throw new ConvexError(`Duplicate step id: ${step.id}`);
+    }
+    ids.add(step.id);
+
+    if (!step.name.trim()) {
+      throw new ConvexError(`Step ${step.id} needs a name`);
+    }
+    if (!Number.isInteger(step.order) || step.order < 0) {
+      throw new ConvexError(`Step ${step.id} order must be a non-negative integer`);
+    }
+    if (step.approvers.length === 0) {
+      throw new ConvexError(`Step ${step.id} needs at least one approver`);
+    }
+    if (step.requiredApprovals !== undefined && (!Number.isInteger(step.requiredApprovals) || step.requiredApprovals < 1)) {
+      throw new ConvexError(`Step ${step.id} must require at least one approval`);
+    }
+    const userApprovers = step.approvers.filter(approver => approver.type === "user").length;
+    if (userApprovers === step.approvers.length && (step.requiredApprovals ?? 1) > userApprovers) {
+      throw new ConvexError(`Step ${step.id} requires more approvals than it has approvers`);
+    }
+    if (step.slaHours !== undefined && step.slaHours <= 0) {
+      throw new ConvexError(`Step ${step.id} SLA must be positive`);
+    }
+  }
+}
+
+/**
+ * Initial status of each step for a contract: skipped when its conditions do
+ * not match, otherwise waiting for its turn
+ */
+export function planWorkflowSteps(
+  steps: WorkflowStepDefinition[],
+  facts: WorkflowFacts
+): Array<WorkflowStepDefinition & { status: "waiting" | "skipped" }> {
+  return [...steps]
+    .sort((a, b) => a.order - b.order)
+    .map(step => ({
+      ...step,
+      status: matchesConditions(step.conditions, facts) ? ("waiting" as const) : ("skipped" as const),
+    }));
+}
+
+export function roleSatisfies(userRole: UserRole, requiredRole: UserRole): boolean {
+  return ROLE_LEVELS[userRole] >= ROLE_LEVELS[requiredRole];
+}
+
+export function isListedApprover(approvers: WorkflowApprover[], actor: WorkflowActor): boolean {
+  return approvers.some(approver =>
+    approver.type === "user"
+      ? approver.userId === actor.userId
+      : roleSatisfies(actor.role, approver.role)
+  );
+}
+
+/**
+ * Decide whether a user may record a decision on a step, and on whose behalf.
+ * Delegating hands the decision over: the delegator can no longer act, the
+ * delegate acts on their behalf.
+ */
+export function resolveStepActor(step: WorkflowStepState, actor: WorkflowActor): StepActorResolution {
+  if (step.status !== "pending") {
+    return { allowed: false, reason: "This step is not awaiting decisions" };
+  }
+
+  const decided = new Set(step.decisions.flatMap(d => (d.onBehalfOf ? [d.userId, d.onBehalfOf] : [d.userId])));
+  if (decided.has(actor.userId)) {
+    return { allowed: false, reason: "You have already recorded a decision on this step" };
+  }
+
+  const delegatedAway = step.delegations.some(d => d.fromUserId === actor.userId);
+
+  const delegation = [...step.delegations]
+    .reverse()
+    .find(d => d.toUserId === actor.userId && !decided.has(d.fromUserId));
+  if (delegation) {
+    return { allowed: true, onBehalfOf: delegation.fromUserId };
+  }
+
+  if (!delegatedAway && isListedApprover(step.approvers, actor)) {
+    return { allowed: true };
+  }
+
+  return {
+    allowed: false,
+    reason: delegatedAway
+      ? "You delegated this step to another user"
+      : "You are not an approver for this step",
+  };
+}
+
+export function countApprovals(step: Pick<WorkflowStepState, "decisions">): number {
+  return step.decisions.filter(d => d.decision === "approved").length;
+}
+
+export function isStepSatisfied(step: Pick<WorkflowStepState, "decisions" | "requiredApprovals">): boolean {
+  return countApprovals(step) >= step.requiredApprovals;
+}
+
+/**
+ * What happens next once step statuses have been updated: keep waiting on
+ * pending steps, start the next group of parallel steps, or finish.
+ */
+export function planWorkflowAdvance(steps: Array<Pick<WorkflowStepState, "order" | "status">>): WorkflowAdvance {
+  if (steps.some(step => step.status === "pending")) {
+    return { type: "wait" };
+  }
+
+  const waiting = steps.filter(step => step.status === "waiting");
+  if (waiting.length === 0) {
+    return { type: "complete" };
+  }
+
+  return { type: "activate", order: Math.min(...waiting.map(step => step.order)) };
+}
+
+/**
+ * Contract status a workflow outcome moves the contract to, or null to leave it.
+ * Only new contracts are held in pending_approval while the workflow runs;
+ * renewals and terminations change status once approved.
+ */
+export function getContractStatusTransition(
+  approvalType: ApprovalType,
+  outcome: WorkflowOutcome,
+  currentStatus: ContractStatus,
+  previousStatus: ContractStatus
+): ContractStatus | null {
+  let next: ContractStatus | null = null;
+
+  switch (approvalType) {
+    case "new_contract":
+      if (outcome === "started") next = "pending_approval";
+      else if (outcome === "approved") next = "active";
+      else if (outcome === "rejected" || outcome === "changes_requested") next = "draft";
+      else if (outcome === "cancelled" && currentStatus === "pending_approval") next = previousStatus;
+      break;
+    case "renewal":
+      if (outcome === "approved") next = "active";
+      break;
+    case "termination":
+      if (outcome === "approved") next = "terminated";
+      break;
+    case "amendment":
+    case "budget_exceed":
+      break;
+  }
+
+  return next === currentStatus ? null : next;
+}
+
+/**
+ * Contract status edits made outside a workflow may not enter or leave pending_approval
+ */
+export function assertManualStatusChangeAllowed(currentStatus: ContractStatus, newStatus: ContractStatus): void {
+  if (currentStatus === newStatus) return;
+
+  if (currentStatus === "pending_approval") {
+    throw new ConvexError("Contract status is managed by its approval workflow");
+  }
+  if (newStatus === "pending_approval") {
+    throw new ConvexError("Start an approval workflow to submit a contract for approval");
+  }
+}
+
+export function computeStepDueAt(activatedAt: Date, slaHours: number | undefined): string | undefined {
+  return slaHours === undefined
+    ? undefined
+    : new Date(activatedAt.getTime() + slaHours * 60 * 60 * 1000).toISOString();
+}
@@ -0,0 +1,892 @@
+import { v } from "convex/values";
+import { mutation, query, internalMutation, MutationCtx, QueryCtx } from "../_generated/server";
+import { ConvexError } from "convex/values";
+import {
+  contractResource,
+  getDepartmentScope,
+  getSecurityContext,
+  getUserSecurityContext,
+  hasPermission,
+  hasScopedPermission,
+  requirePermission,
+  SecurityContext,
+} from "../security/rowLevelSecurity";
+import { Id, Doc } from "../_generated/dataModel";
+import {
+  approvalTypeOptions,
+  workflowConditionValidator,
+  workflowStepValidator,
+  ContractStatus,
+} from "../schema";
+import { emitWebhookEvent } from "../integrations/webhookEvents";
+import {
+  DEFAULT_ESCALATION_APPROVERS,
+  WorkflowApprover,
+  WorkflowDecision,
+  WorkflowFacts,
+  WorkflowOutcome,
+  computeStepDueAt,
+  getContractStatusTransition,
+  isListedApprover,
+  isStepSatisfied,
+  planWorkflowAdvance,
+  planWorkflowSteps,
+  resolveStepActor,
+  selectWorkflow,
+  validateWorkflowSteps,
+} from "./approvalWorkflowEngine";
+import { appendAuditLog } from "../auditLogging";
+
+const approvalTypeValidator = v.union(...approvalTypeOptions.map(option => v.literal(option)));
+
+// ============================================================================
+// WORKFLOW DEFINITIONS
+// ============================================================================
+
+// Create a workflow definition
+export const createWorkflow = mutation({
+  args: {
+    name: v.string(),
+    description: v.optional(v.string()),
+    approvalType: approvalTypeValidator,
+    conditions: v.optional(v.array(workflowConditionValidator)),
+    steps: v.array(workflowStepValidator),
+    priority: v.optional(v.number()),
+    isActive: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "workflows.manage");
+
+    if (!args.name.trim()) {
+      throw new ConvexError("Workflow name is required");
+    }
+    validateWorkflowSteps(args.steps);
+    await validateUserApprovers(ctx, securityContext.enterpriseId, args.steps);
+
+    const workflowId = await ctx.db.insert("approvalWorkflows", {
+      enterpriseId: securityContext.enterpriseId,
+      name: args.name.trim(),
+      ...(args.description ? { description: args.description } : {}),
+      approvalType: args.approvalType,
+      conditions: args.conditions ?? [],
+      steps: args.steps,
+      priority: args.priority ?? 0,
+      isActive: args.isActive ?? true,
+      createdBy: securityContext.userId,
+      createdAt: new Date().toISOString(),
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "createApprovalWorkflow",
+      resourceType: "approvalWorkflows",
+      resourceId: workflowId,
+      action: "create",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: { name: args.name, approvalType: args.approvalType, steps: args.steps.length },
+    });
+
+    return { id: workflowId };
+  },
+});
+
+// Update a workflow definition. Running instances keep the steps they started with.
+export const updateWorkflow = mutation({
+  args: {
+    workflowId: v.id("approvalWorkflows"),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    conditions: v.optional(v.array(workflowConditionValidator)),
+    steps: v.optional(v.array(workflowStepValidator)),
+    priority: v.optional(v.number()),
+    isActive: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    requirePermission(securityContext, "workflows.manage");
+
+    const workflow = await ctx.db.get(args.workflowId);
+    if (!workflow || workflow.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Workflow not found or access denied");
+    }
+    if (workflow.inheritedFrom) {
+      throw new ConvexError("This workflow is managed by your parent organization");
+    }
+
+    const updates: Partial<Doc<"approvalWorkflows">> = { updatedAt: new Date().toISOString() };
+    if (args.name !== undefined) {
+      if (!args.name.trim()) {
+        throw new ConvexError("Workflow name is required");
+      }
+      updates.name = args.name.trim();
+    }
+    if (args.description !== undefined) updates.description = args.description;
+    if (args.conditions !== undefined) updates.conditions = args.conditions;
+    if (args.priority !== undefined) updates.priority = args.priority;
+    if (args.isActive !== undefined) updates.isActive = args.isActive;
+    if (args.steps !== undefined) {
+      validateWorkflowSteps(args.steps);
+      await validateUserApprovers(ctx, securityContext.enterpriseId, args.steps);
+      updates.steps = args.steps;
+    }
+
+    await ctx.db.patch(args.workflowId, updates);
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "updateApprovalWorkflow",
+      resourceType: "approvalWorkflows",
+      resourceId: args.workflowId,
+      action: "update",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      changes: { fields: Object.keys(updates).filter(key => key !== "updatedAt") },
+    });
+
+    return { success: true };
+  },
+});
+
+// List the enterprise's workflow definitions
+export const listWorkflows = query({
+  args: {
+    approvalType: v.optional(approvalTypeValidator),
+    includeInactive: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const workflows = await ctx.db
+      .query("approvalWorkflows")
+      .withIndex("by_enterprise", q => q.eq("enterpriseId", securityContext.enterpriseId))
+      .collect();
+
+    return workflows
+      .filter(workflow => !args.approvalType || workflow.approvalType === args.approvalType)
+      .filter(workflow => args.includeInactive || workflow.isActive)
+      .sort((a, b) => b.priority - a.priority || a.name.localeCompare(b.name));
+  },
+});
+
+// Get a single workflow definition
+export const getWorkflow = query({
+  args: { workflowId: v.id("approvalWorkflows") },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const workflow = await ctx.db.get(args.workflowId);
+    if (!workflow || workflow.enterpriseId !== securityContext.enterpriseId) {
+      return null;
+    }
+    return workflow;
+  },
+});
+
+// ============================================================================
+// WORKFLOW INSTANCES
+// ============================================================================
+
+// Submit a contract for approval through the matching workflow
+export const startApprovalWorkflow = mutation({
+  args: {
+    contractId: v.id("contracts"),
+    approvalType: approvalTypeValidator,
+    workflowId: v.optional(v.id("approvalWorkflows")), // Skip matching and use this workflow
+    comments: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+    const departmentScope = await getDepartmentScope(ctx, securityContext);
+    if (!hasScopedPermission(securityContext, departmentScope, "contracts.update", contractResource(contract))) {
+      throw new ConvexError("Permission denied: contracts.update");
+    }
+
+    const running = await ctx.db
+      .query("approvalWorkflowInstances")
+      .withIndex("by_contract_status", q => q.eq("contractId", args.contractId).eq("status", "in_progress"))
+      .first();
+    if (running) {
+      throw new ConvexError("This contract already has an approval workflow in progress");
+    }
+
+    const facts = await getWorkflowFacts(ctx, contract);
+
+    let workflow: Doc<"approvalWorkflows"> | null;
+    if (args.workflowId) {
+      workflow = await ctx.db.get(args.workflowId);
+      if (
+        !workflow ||
+        workflow.enterpriseId !== securityContext.enterpriseId ||
+        !workflow.isActive ||
+        workflow.approvalType !== args.approvalType
+      ) {
+        throw new ConvexError("Workflow not found, inactive or for a different approval type");
+      }
+    } else {
+      const workflows = await ctx.db
+        .query("approvalWorkflows")
+        .withIndex("by_enterprise_type_active", q =>
+          q.eq("enterpriseId", securityContext.enterpriseId).eq("approvalType", args.approvalType).eq("isActive", true)
+        )
+        .collect();
+      workflow = selectWorkflow(workflows, args.approvalType, facts);
+      if (!workflow) {
+        throw new ConvexError("No active approval workflow matches this contract");
+      }
+    }
+
+    const now = new Date().toISOString();
+    const instanceId = await ctx.db.insert("approvalWorkflowInstances", {
+      enterpriseId: securityContext.enterpriseId,
+      workflowId: workflow._id,
+      workflowName: workflow.name,
+      contractId: contract._id,
+      approvalType: args.approvalType,
+      status: "in_progress",
+      requestedBy: securityContext.userId,
+      requestedAt: now,
+      previousContractStatus: contract.status,
+      ...(args.comments ? { comments: args.comments } : {}),
+    });
+
+    for (const step of planWorkflowSteps(workflow.steps, facts)) {
+      await ctx.db.insert("approvalWorkflowSteps", {
+        instanceId,
+        enterpriseId: securityContext.enterpriseId,
+        contractId: contract._id,
+        stepId: step.id,
+        name: step.name,
+        order: step.order,
+        status: step.status,
+        approvers: step.approvers,
+        requiredApprovals: step.requiredApprovals ?? 1,
+        decisions: [],
+        delegations: [],
+        ...(step.slaHours !== undefined ? { slaHours: step.slaHours } : {}),
+        ...(step.escalateTo ? { escalateTo: step.escalateTo } : {}),
+        ...(step.status === "skipped" ? { completedAt: now } : {}),
+      });
+    }
+
+    await transitionContractStatus(ctx, contract, "started", args.approvalType, contract.status, {
+      userId: securityContext.userId,
+      reason: `Submitted for approval (${workflow.name})`,
+      ...(args.comments ? { comments: args.comments } : {}),
+    });
+
+    await advanceWorkflow(ctx, instanceId, securityContext.userId);
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "startApprovalWorkflow",
+      resourceType: "approvalWorkflowInstances",
+      resourceId: instanceId,
+      action: "create",
+      status: "success",
+      timestamp: now,
+      metadata: { contractId: contract._id, workflowId: workflow._id, approvalType: args.approvalType },
+    });
+
+    return { instanceId, workflowId: workflow._id };
+  },
+});
+
+// Approve a step
+export const approveStep = mutation({
+  args: {
+    stepId: v.id("approvalWorkflowSteps"),
+    comment: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    return await recordDecision(ctx, securityContext, args.stepId, "approved", args.comment);
+  },
+});
+
+// Reject a step, ending the workflow
+export const rejectStep = mutation({
+  args: {
+    stepId: v.id("approvalWorkflowSteps"),
+    comment: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    if (!args.comment.trim()) {
+      throw new ConvexError("A reason is required to reject");
+    }
+    return await recordDecision(ctx, securityContext, args.stepId, "rejected", args.comment);
+  },
+});
+
+// Send the contract back to the requester for changes, ending the workflow
+export const requestChanges = mutation({
+  args: {
+    stepId: v.id("approvalWorkflowSteps"),
+    comment: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+    if (!args.comment.trim()) {
+      throw new ConvexError("Describe the changes required");
+    }
+    return await recordDecision(ctx, securityContext, args.stepId, "changes_requested", args.comment);
+  },
+});
+
+// Hand a step decision over to another user in the enterprise
+export const delegateStep = mutation({
+  args: {
+    stepId: v.id("approvalWorkflowSteps"),
+    toUserId: v.id("users"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const step = await ctx.db.get(args.stepId);
+    if (!step || step.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Approval step not found or access denied");
+    }
+
+    const resolution = resolveStepActor(step, securityContext);
+    if (!resolution.allowed) {
+      throw new ConvexError(resolution.reason);
+    }
+
+    const delegate = await ctx.db.get(args.toUserId);
+    if (!delegate || delegate.enterpriseId !== securityContext.enterpriseId || !delegate.isActive) {
+      throw new ConvexError("Delegate must be an active user in your enterprise");
+    }
+    if (delegate._id === securityContext.userId) {
+      throw new ConvexError("You cannot delegate a step to yourself");
+    }
+    const contract = await ctx.db.get(step.contractId);
+    const delegateContext = await getUserSecurityContext(ctx, delegate);
+    if (!contract || !hasScopedPermission(
+      delegateContext,
+      await getDepartmentScope(ctx, delegateContext),
+      "contracts.approve",
+      contractResource(contract)
+    )) {
+      throw new ConvexError("The delegate cannot approve this contract");
+    }
+
+    const now = new Date().toISOString();
+    await ctx.db.patch(step._id, {
+      delegations: [
+        ...step.delegations,
+        {
+          // A delegate passing the step on keeps acting for the original approver
+          fromUserId: resolution.onBehalfOf ?? securityContext.userId,
+          toUserId: delegate._id,
+          ...(args.reason ? { reason: args.reason } : {}),
+          delegatedAt: now,
+        },
+      ],
+    });
+
+    await notifyUsers(ctx, [delegate._id], {
+      type: "task_assigned",
+      title: `Approval delegated to you: ${step.name}`,
+      message: `${contract.title} needs your decision on "${step.name}"${args.reason ? `: ${args.reason}` : ""}`,
+      priority: "medium",
+      contractId: step.contractId,
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "delegateApprovalStep",
+      resourceType: "approvalWorkflowSteps",
+      resourceId: step._id,
+      action: "share",
+      status: "success",
+      timestamp: now,
+      metadata: { toUserId: delegate._id, reason: args.reason },
+    });
+
+    return { success: true };
+  },
+});
+
+// Withdraw a workflow. The requester or an admin may cancel.
+export const cancelApprovalWorkflow = mutation({
+  args: {
+    instanceId: v.id("approvalWorkflowInstances"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const instance = await ctx.db.get(args.instanceId);
+    if (!instance || instance.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Approval workflow not found or access denied");
+    }
+    if (instance.status !== "in_progress") {
+      throw new ConvexError("Only workflows in progress can be cancelled");
+    }
+    if (instance.requestedBy !== securityContext.userId && !hasPermission(securityContext, "workflows.manage")) {
+      throw new ConvexError("Access denied: Only the requester or an admin can cancel");
+    }
+
+    await finishWorkflow(ctx, instance, "cancelled", {
+      userId: securityContext.userId,
+      reason: "Approval workflow cancelled",
+      ...(args.reason ? { comments: args.reason } : {}),
+    });
+
+    await appendAuditLog(ctx, {
+      userId: securityContext.userId,
+      enterpriseId: securityContext.enterpriseId,
+      operation: "cancelApprovalWorkflow",
+      resourceType: "approvalWorkflowInstances",
+      resourceId: instance._id,
+      action: "update",
+      status: "success",
+      timestamp: new Date().toISOString(),
+      metadata: { reason: args.reason },
+    });
+
+    return { success: true };
+  },
+});
+
+// Steps awaiting the current user's decision, soonest due first
+export const getMyPendingApprovals = query({
+  args: {},
+  handler: async (ctx) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const pendingSteps = await ctx.db
+      .query("approvalWorkflowSteps")
+      .withIndex("by_enterprise_status", q => q.eq("enterpriseId", securityContext.enterpriseId).eq("status", "pending"))
+      .collect();
+
+    const actionable = pendingSteps
+      .map(step => ({ step, resolution: resolveStepActor(step, securityContext) }))
+      .filter(({ resolution }) => resolution.allowed);
+
+    const results = await Promise.all(
+      actionable.map(async ({ step, resolution }) => {
+        const [instance, contract] = await Promise.all([ctx.db.get(step.instanceId), ctx.db.get(step.contractId)]);
+        if (!instance || !contract) return null;
+
+        const [requester, ...deciders] = await Promise.all([
+          ctx.db.get(instance.requestedBy),
+          ...step.decisions.map(decision => ctx.db.get(decision.userId)),
+        ]);
+        return {
+          step,
+          instance,
+          contract: { _id: contract._id, title: contract.title, value: contract.value, status: contract.status },
+          requester: requester ? { _id: requester._id, name: formatUserName(requester), email: requester.email } : null,
+          decisions: step.decisions.map((decision, i) => ({
+            ...decision,
+            userName: deciders[i] ? formatUserName(deciders[i]!) : "Unknown user",
+            userEmail: deciders[i]?.email ?? "",
+          })),
+          onBehalfOf: resolution.allowed ? resolution.onBehalfOf : undefined,
+          isOverdue: !!step.dueAt && step.dueAt < new Date().toISOString(),
+        };
+      })
+    );
+
+    // Steps without an SLA sort last
+    return results
+      .filter((result): result is NonNullable<typeof result> => result !== null)
+      .sort((a, b) => {
+        if (a.step.dueAt && b.step.dueAt) return a.step.dueAt.localeCompare(b.step.dueAt);
+        return a.step.dueAt ? -1 : b.step.dueAt ? 1 : 0;
+      });
+  },
+});
+
+// Approval history for a contract: every instance with its steps, newest first
+export const getContractApprovalWorkflows = query({
+  args: { contractId: v.id("contracts") },
+  handler: async (ctx, args) => {
+    const securityContext = await getSecurityContext(ctx);
+
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract || contract.enterpriseId !== securityContext.enterpriseId) {
+      throw new ConvexError("Contract not found or access denied");
+    }
+
+    const instances = await ctx.db
+      .query("approvalWorkflowInstances")
+      .withIndex("by_contract", q => q.eq("contractId", args.contractId))
+      .collect();
+
+    const withSteps = await Promise.all(
+      instances.map(async instance => {
+        const steps = await ctx.db
+          .query("approvalWorkflowSteps")
+          .withIndex("by_instance", q => q.eq("instanceId", instance._id))
+          .collect();
+        return {
+          ...instance,
+          steps: steps
+            .sort((a, b) => a.order - b.order)
+            .map(step => ({ ...step, canAct: resolveStepActor(step, securityContext).allowed })),
+        };
+      })
+    );
+
+    return withSteps.sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+  },
+});
+
+// ============================================================================
+// ESCALATION
+// ============================================================================
+
+/**
+ * Escalate pending steps past their SLA: add the escalation approvers and
+ * notify them. Each step escalates once.
+ */
+export const escalateOverdueSteps = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = new Date().toISOString();
+
+    const overdue = await ctx.db
+      .query("approvalWorkflowSteps")
+      .withIndex("by_status_due", q => q.eq("status", "pending").gt("dueAt", "").lt("dueAt", now))
+      .collect();
+
+    let escalated = 0;
+    for (const step of overdue) {
+      if (!step.dueAt || step.escalatedAt) continue;
+
+      const escalateTo = step.escalateTo ?? DEFAULT_ESCALATION_APPROVERS;
+      await ctx.db.patch(step._id, {
+        approvers: mergeApprovers(step.approvers, escalateTo),
+        escalatedAt: now,
+      });
+
+      const contract = await ctx.db.get(step.contractId);
+      const recipients = await resolveApproverUserIds(ctx, step.enterpriseId, escalateTo);
+      await notifyUsers(ctx, recipients, {
+        type: "approval_required",
+        title: `Escalated approval: ${step.name}`,
+        message: `"${step.name}" for ${contract?.title ?? "a contract"} was due ${new Date(step.dueAt).toLocaleString()} and has been escalated to you`,
+        priority: "high",
+        contractId: step.contractId,
+      });
+      escalated++;
+    }
+
+    return { escalated };
+  },
+});
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function validateUserApprovers(
+  ctx: MutationCtx,
+  enterpriseId: Id<"enterprises">,
+  steps: Array<{ id: string; approvers: WorkflowApprover[]; escalateTo?: WorkflowApprover[] | undefined }>
+) {
+  for (const step of steps) {
+    for (const approver of [...step.approvers, ...(step.escalateTo ?? [])]) {
+      if (approver.type !== "user") continue;
+      const user = await ctx.db.get(approver.userId);
+      if (!user || user.enterpriseId !== enterpriseId) {
+        throw new ConvexError(`Step ${step.id} names an approver outside your enterprise`);
+      }
+    }
+  }
+}
+
+async function getWorkflowFacts(ctx: QueryCtx, contract: Doc<"contracts">): Promise<WorkflowFacts> {
+  const vendor = contract.vendorId ? await ctx.db.get(contract.vendorId) : null;
+  return {
+    ...(contract.value !== undefined ? { contractValue: contract.value } : {}),
+    ...(contract.contractType ? { contractType: contract.contractType } : {}),
+    ...(contract.departmentId ? { departmentId: contract.departmentId } : {}),
+    ...(vendor?.category ? { vendorCategory: vendor.category } : {}),
+  };
+}
+
+async function recordDecision(
+  ctx: MutationCtx,
+  securityContext: SecurityContext,
+  stepId: Id<"approvalWorkflowSteps">,
+  decision: WorkflowDecision,
+  comment: string | undefined
+) {
+  const step = await ctx.db.get(stepId);
+  if (!step || step.enterpriseId !== securityContext.enterpriseId) {
+    throw new ConvexError("Approval step not found or access denied");
+  }
+
+  const instance = await ctx.db.get(step.instanceId);
+  if (!instance || instance.status !== "in_progress") {
+    throw new ConvexError("This approval workflow is no longer in progress");
+  }
+
+  const resolution = resolveStepActor(step, securityContext);
+  if (!resolution.allowed) {
+    throw new ConvexError(resolution.reason);
+  }
+
+  const now = new Date().toISOString();
+  const decisions = [
+    ...step.decisions,
+    {
+      userId: securityContext.userId,
+      decision,
+      ...(comment ? { comment } : {}),
+      decidedAt: now,
+      ...(resolution.onBehalfOf ? { onBehalfOf: resolution.onBehalfOf } : {}),
+    },
+  ];
+
+  if (decision === "approved") {
+    const satisfied = isStepSatisfied({ decisions, requiredApprovals: step.requiredApprovals });
+    await ctx.db.patch(step._id, {
+      decisions,
+      ...(satisfied ? { status: "approved" as const, completedAt: now } : {}),
+    });
+    if (satisfied) {
+      await advanceWorkflow(ctx, instance._id, securityContext.userId);
+    }
+  } else {
+    await ctx.db.patch(step._id, { decisions, status: decision, completedAt: now });
+    await finishWorkflow(ctx, instance, decision, {
+      userId: securityContext.userId,
+      reason: decision === "rejected" ? `Rejected at "${step.name}"` : `Changes requested at "${step.name}"`,
+      ...(comment ? { comments: comment } : {}),
+    });
+  }
+
+  await appendAuditLog(ctx, {
+    userId: securityContext.userId,
+    enterpriseId: securityContext.enterpriseId,
+    operation: "recordApprovalDecision",
+    resourceType: "approvalWorkflowSteps",
+    resourceId: step._id,
+    action: decision === "approved" ? "approve" : "reject",
+    status: "success",
+    timestamp: now,
+    metadata: { decision, contractId: step.contractId, onBehalfOf: resolution.onBehalfOf, comment },
+  });
+
+  const updated = await ctx.db.get(instance._id);
+  return { instanceStatus: updated?.status ?? instance.status };
+}
+
+/**
+ * Start the next group of steps once nothing is pending, or approve the
+ * workflow when no steps remain
+ */
+async function advanceWorkflow(ctx: MutationCtx, instanceId: Id<"approvalWorkflowInstances">, userId: Id<"users">) {
+  const instance = await ctx.db.get(instanceId);
+  if (!instance || instance.status !== "in_progress") return;
+
+  const steps = await ctx.db
+    .query("approvalWorkflowSteps")
+    .withIndex("by_instance", q => q.eq("instanceId", instanceId))
+    .collect();
+
+  const next = planWorkflowAdvance(steps);
+  if (next.type === "wait") return;
+
+  if (next.type === "complete") {
+    await finishWorkflow(ctx, instance, "approved", { userId, reason: `Approved through ${instance.workflowName}` });
+    return;
+  }
+
+  const activatedAt = new Date();
+  const contract = await ctx.db.get(instance.contractId);
+
+  for (const step of steps.filter(s => s.order === next.order && s.status === "waiting")) {
+    const dueAt = computeStepDueAt(activatedAt, step.slaHours);
+    await ctx.db.patch(step._id, {
+      status: "pending",
+      activatedAt: activatedAt.toISOString(),
+      ...(dueAt ? { dueAt } : {}),
+    });
+
+    const recipients = await resolveApproverUserIds(ctx, instance.enterpriseId, step.approvers);
+    await notifyUsers(ctx, recipients, {
+      type: "approval_required",
+      title: `Approval required: ${step.name}`,
+      message: `${contract?.title ?? "A contract"} is awaiting your approval${dueAt ? ` by ${new Date(dueAt).toLocaleString()}` : ""}`,
+      priority: "medium",
+      contractId: instance.contractId,
+    });
+  }
+
+  await ctx.db.patch(instance._id, { currentOrder: next.order });
+}
+
+/**
+ * Close a workflow: cancel outstanding steps, record the outcome, move the
+ * contract status and tell the requester
+ */
+async function finishWorkflow(
+  ctx: MutationCtx,
+  instance: Doc<"approvalWorkflowInstances">,
+  outcome: Exclude<WorkflowOutcome, "started">,
+  change: { userId: Id<"users">; reason: string; comments?: string }
+) {
+  const now = new Date().toISOString();
+
+  const steps = await ctx.db
+    .query("approvalWorkflowSteps")
+    .withIndex("by_instance", q => q.eq("instanceId", instance._id))
+    .collect();
+  for (const step of steps) {
+    if (step.status === "waiting" || step.status === "pending") {
+      await ctx.db.patch(step._id, { status: "cancelled", completedAt: now });
+    }
+  }
+
+  await ctx.db.patch(instance._id, { status: outcome, completedAt: now });
+
+  const contract = await ctx.db.get(instance.contractId);
+  if (contract) {
+    await transitionContractStatus(ctx, contract, outcome, instance.approvalType, instance.previousContractStatus, change);
+  }
+
+  if (instance.requestedBy !== change.userId) {
+    const labels: Record<typeof outcome, string> = {
+      approved: "approved",
+      rejected: "rejected",
+      changes_requested: "returned for changes",
+      cancelled: "cancelled",
+    };
+    await notifyUsers(ctx, [instance.requestedBy], {
+      type: "system_alert",
+      title: `Approval ${labels[outcome]}: ${contract?.title ?? instance.workflowName}`,
+      message: change.comments ? `${change.reason}: ${change.comments}` : change.reason,
+      priority: outcome === "approved" ? "low" : "medium",
+      contractId: instance.contractId,
+    });
+  }
+}
+
+async function transitionContractStatus(
+  ctx: MutationCtx,
+  contract: Doc<"contracts">,
+  outcome: WorkflowOutcome,
+  approvalType: Doc<"approvalWorkflowInstances">["approvalType"],
+  previousStatus: ContractStatus,
+  change: { userId: Id<"users">; reason: string; comments?: string }
+) {
+  const newStatus = getContractStatusTransition(approvalType, outcome, contract.status, previousStatus);
+  if (!newStatus) return;
+
+  await ctx.db.patch(contract._id, {
+    status: newStatus,
+    lastModifiedBy: change.userId,
+    updatedAt: Date.now(),
+  });
+
+  await ctx.db.insert("contractStatusHistory", {
+    contractId: contract._id,
+    previousStatus: contract.status,
+    newStatus,
+    changedBy: change.userId,
+    changedAt: new Date().toISOString(),
+    reason: change.reason,
+    metadata: {
+      ...(outcome === "approved" ? { approvedBy: change.userId } : {}),
+      ...(outcome === "rejected" && change.comments ? { rejectionReason: change.comments } : {}),
+      ...(change.comments ? { comments: change.comments } : {}),
+    },
+  });
+
+  await emitWebhookEvent(ctx, {
+    type: "contract.updated",
+    enterpriseId: contract.enterpriseId,
+    data: { contractId: contract._id, title: contract.title, status: newStatus, approvalOutcome: outcome },
+    previous: { status: contract.status },
+  });
+}
+
+function mergeApprovers(existing: WorkflowApprover[], additional: WorkflowApprover[]): WorkflowApprover[] {
+  const key = (approver: WorkflowApprover) => (approver.type === "user" ? `user:${approver.userId}` : `role:${approver.role}`);
+  const seen = new Set(existing.map(key));
+  return [...existing, ...additional.filter(approver => !seen.has(key(approver)))];
+}
+
+// Users to notify for a set of approvers. Role approvers notify holders of that
+// exact role, falling back to anyone senior enough when nobody holds it.
+async function resolveApproverUserIds(
+  ctx: MutationCtx,
+  enterpriseId: Id<"enterprises">,
+  approvers: WorkflowApprover[]
+): Promise<Id<"users">[]> {
+  const userIds = new Set<Id<"users">>(
+    approvers.flatMap(approver => (approver.type === "user" ? [approver.userId] : []))
+  );
+
+  const roleApprovers = approvers.filter(approver => approver.type === "role");
+  if (roleApprovers.length > 0) {
+    const users = (
+      await ctx.db
+        .query("users")
+        .withIndex("by_enterprise", q => q.eq("enterpriseId", enterpriseId))
+        .collect()
+    ).filter(user => user.isActive);
+
+    for (const approver of roleApprovers) {
+      const exact = users.filter(user => user.role === approver.role);
+      const eligible = exact.length > 0
+        ? exact
+        : users.filter(user => isListedApprover([approver], { userId: user._id, role: user.role }));
+      eligible.forEach(user => userIds.add(user._id));
+    }
+  }
+
+  return [...userIds];
+}
+
+async function notifyUsers(
+  ctx: MutationCtx,
+  recipientIds: Id<"users">[],
+  notification: {
+    type: "approval_required" | "task_assigned" | "system_alert";
+    title: string;
+    message: string;
+    priority: "low" | "medium" | "high";
+    contractId: Id<"contracts">;
+  }
+) {
+  const createdAt = new Date().toISOString();
+  for (const recipientId of recipientIds) {
+    await ctx.db.insert("notifications", {
+      recipientId,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      priority: notification.priority,
+      channels: ["in_app", "email"],
+      status: "pending",
+      isRead: false,
+      retryCount: 0,
+      contractId: notification.contractId,
+      actionUrl: `/dashboard/contracts/${notification.contractId}`,
+      createdAt,
+    });
+  }
+}
+
+function formatUserName(user: Doc<"users">): string {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return name || user.email;
+}
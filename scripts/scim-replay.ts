@@ -0,0 +1,63 @@
+#!/usr/bin/env tsx
+
+/**
+ * SCIM replay script
+ * Replays a recorded identity provider session against a deployment's SCIM
+ * endpoints and reports the steps whose responses differ from the recording.
+ *
+ * Usage: SCIM_BASE_URL=https://<deployment>.convex.site/scim/v2 SCIM_TOKEN=scim_... \
+ *   npm run scim:replay -- __tests__/backend/scim/fixtures/okta.json
+ */
+
+import { readFileSync } from "fs";
+import * as dotenv from "dotenv";
+import { replayScimFixture, ScimFixture } from "../__tests__/backend/scim/scimReplay";
+
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const fixturePath = process.argv[2];
+  const baseUrl = process.env.SCIM_BASE_URL?.replace(/\/$/, "");
+  const token = process.env.SCIM_TOKEN;
+  if (!fixturePath || !baseUrl || !token) {
+    console.error("Usage: SCIM_BASE_URL=<endpoint> SCIM_TOKEN=<token> tsx scripts/scim-replay.ts <fixture.json>");
+    process.exit(1);
+  }
+
+  const fixture = JSON.parse(readFileSync(fixturePath, "utf8")) as ScimFixture;
+  console.log(`🔁 Replaying ${fixture.name} against ${baseUrl}`);
+
+  const results = await replayScimFixture(fixture, async (request) => {
+    const url = new URL(`${baseUrl}${request.path}`);
+    url.search = request.query.toString();
+    const response = await fetch(url, {
+      method: request.method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/scim+json",
+      },
+      ...(request.body !== null ? { body: JSON.stringify(request.body) } : {}),
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  });
+
+  for (const result of results) {
+    console.log(`${result.failures.length === 0 ? "✅" : "❌"} ${result.description}`);
+    result.failures.forEach(failure => console.log(`    ${failure}`));
+  }
+
+  const failed = results.filter(result => result.failures.length > 0).length;
+  console.log(`\n${results.length - failed}/${results.length} steps passed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -1,9 +1,9 @@
 'use client';
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { useQuery, useMutation } from 'convex/react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { useQuery, useMutation, useAction } from 'convex/react';
 import { api } from '../../../../convex/_generated/api';
-import { Id } from '../../../../convex/_generated/dataModel';
+import { Doc, Id } from '../../../../convex/_generated/dataModel';
 import {
   MessageSquare,
   Send,
@@ -40,20 +40,19 @@ import { logger } from '@/lib/logger';
 import { trackBusinessMetric } from '@/lib/metrics';
 import { format } from 'date-fns';
 import { useWebWorker } from '@/hooks/useWebWorker';
+import { ChatCitation, citationHref, stripCitationMarkers } from '@/lib/chat-citations';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
-  attachments?: {
-    type: 'contract' | 'clause' | 'vendor';
-    id: string;
-    title: string;
-  }[];
+  status?: 'streaming' | 'complete' | 'failed';
+  attachments?: ChatCitation[]; // Attached by the user, or cited by the assistant
   metadata?: {
     confidence?: number;
     sources?: string[];
+    tools?: string[];
     actions?: {
       label: string;
       action: string;
@@ -63,6 +62,14 @@ interface Message {
   feedback?: 'positive' | 'negative';
 }
 
+const TOOL_LABELS: Record<string, string> = {
+  search_contracts: 'Searching contracts',
+  get_contract: 'Reading the contract',
+  get_budgets: 'Checking budgets',
+  get_vendor_performance: 'Checking vendor performance',
+  get_deadlines: 'Checking deadlines',
+};
+
 interface ChatInterfaceProps {
   contractId?: Id<"contracts">;
   vendorId?: Id<"vendors">;
@@ -80,7 +87,9 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   onClose,
   className
 }) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [sessionId, setSessionId] = useState<Id<"chatSessions"> | null>(null);
+  const [notices, setNotices] = useState<Message[]>([]);
+  const [feedback, setFeedback] = useState<Record<string, 'positive' | 'negative'>>({});
   const [inputValue, setInputValue] = useState(initialMessage);
   const [isTyping, setIsTyping] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
@@ -99,9 +108,26 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     timeout: 30000
   });
 
-  // Mock chat mutation - replace with actual Convex mutation
-  const sendMessage = useMutation(api.ai.sendChatMessage);
-  const provideFeedback = useMutation(api.ai.provideChatFeedback);
+  const session = useQuery(api.ai.chat.getChatSession, sessionId ? { sessionId } : 'skip');
+  const sendMessage = useMutation(api.ai.chat.sendChatMessage);
+  const streamReply = useAction(api.ai.assistant.streamReply);
+  const provideFeedback = useMutation(api.ai.chat.provideChatFeedback);
+
+  // The session's messages update as the reply streams in
+  const messages = useMemo<Message[]>(() => {
+    const sessionMessages: Message[] = (session?.messages ?? []).map((message: Doc<"chatSessions">["messages"][number]) => ({
+      id: message.id,
+      role: message.role,
+      content: message.status === 'streaming' ? stripCitationMarkers(message.content) : message.content,
+      timestamp: new Date(message.timestamp),
+      ...(message.status ? { status: message.status } : {}),
+      ...(message.attachments ? { attachments: message.attachments } : {}),
+      ...(message.metadata?.tools ? { metadata: { tools: message.metadata.tools } } : {}),
+      ...(feedback[message.id] ? { feedback: feedback[message.id] } : {}),
+    }));
+    return [...sessionMessages, ...notices].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }, [session, notices, feedback]);
+  const streamingReply = messages.find(message => message.status === 'streaming');
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -159,44 +185,28 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const handleSendMessage = useCallback(async () => {
     if (!inputValue.trim()) return;
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: 'user',
-      content: inputValue,
-      timestamp: new Date(),
-      attachments: selectedContext ? [selectedContext] : undefined
-    };
-
-    setMessages(prev => [...prev, userMessage]);
+    const text = inputValue;
     setInputValue('');
     setIsTyping(true);
 
     const startTime = performance.now();
 
     try {
-      const response = await sendMessage({
-        message: inputValue,
-        context: {
-          contractId,
-          vendorId,
-          attachments: selectedContext ? [selectedContext] : undefined
-        },
-        conversationHistory: messages.map(m => ({
-          role: m.role,
-          content: m.content
-        }))
+      const posted = await sendMessage({
+        ...(sessionId ? { sessionId } : {}),
+        message: text,
+        ...(selectedContext ? { attachments: [selectedContext] } : {}),
+        ...(contractId || vendorId ? {
+          context: {
+            ...(contractId ? { contractId } : {}),
+            ...(vendorId ? { vendorId } : {})
+          }
+        } : {})
       });
+      setSessionId(posted.sessionId);
 
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: response.content,
-        timestamp: new Date(),
-        metadata: response.metadata
-      };
+      await streamReply({ sessionId: posted.sessionId, messageId: posted.messageId });
 
-      setMessages(prev => [...prev, assistantMessage]);
-      
       const duration = performance.now() - startTime;
       trackBusinessMetric.aiAgentExecution('chat-response', duration, true);
       
@@ -211,23 +221,23 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         timestamp: new Date()
       };
       
-      setMessages(prev => [...prev, errorMessage]);
+      setNotices(prev => [...prev, errorMessage]);
       trackBusinessMetric.aiAgentExecution('chat-response', performance.now() - startTime, false);
     } finally {
       setIsTyping(false);
     }
-  }, [inputValue, selectedContext, messages, contractId, vendorId, sendMessage]);
+  }, [inputValue, selectedContext, sessionId, contractId, vendorId, sendMessage, streamReply]);
 
-  const handleFeedback = async (messageId: string, feedback: 'positive' | 'negative') => {
+  const handleFeedback = async (messageId: string, value: 'positive' | 'negative') => {
+    if (!sessionId) return;
     try {
       await provideFeedback({
+        sessionId,
         messageId,
-        feedback
+        feedback: value === 'positive' ? 'helpful' : 'not_helpful'
       });
       
-      setMessages(prev => prev.map(msg => 
-        msg.id === messageId ? { ...msg, feedback } : msg
-      ));
+      setFeedback(prev => ({ ...prev, [messageId]: value }));
       
       trackBusinessMetric.userAction('chat-feedback', 'ai');
     } catch (error) {
@@ -252,13 +262,19 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
+  const openAttachment = (attachment: ChatCitation) => {
+    window.open(citationHref(attachment), '_blank');
+  };
+
   const copyMessage = (content: string) => {
     navigator.clipboard.writeText(content);
     // Could add a toast notification here
   };
 
   const clearChat = () => {
-    setMessages([]);
+    setSessionId(null);
+    setNotices([]);
+    setFeedback({});
     setSelectedContext(null);
   };
 
@@ -422,17 +438,28 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                       message.role === 'assistant' && "bg-muted",
                       message.role === 'system' && "bg-destructive/10 text-destructive"
                     )}>
-                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      {message.status === 'streaming' && !message.content ? (
+                        <div className="flex items-center gap-1">
+                          <span className="text-sm text-muted-foreground">
+                            {TOOL_LABELS[message.metadata?.tools?.at(-1) ?? ''] ?? 'AI is thinking'}
+                          </span>
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        </div>
+                      ) : (
+                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      )}
                       
                       {message.attachments && message.attachments.length > 0 && (
-                        <div className="mt-2 space-y-1">
+                        <div className="mt-2 flex flex-wrap gap-1">
                           {message.attachments.map((attachment, idx) => (
                             <Badge 
                               key={idx}
                               variant="secondary" 
-                              className="text-xs"
+                              className="text-xs cursor-pointer hover:bg-secondary/80"
+                              onClick={() => openAttachment(attachment)}
                             >
                               <FileText className="h-3 w-3 mr-1" />
+                              {message.role === 'assistant' && `[${idx + 1}] `}
                               {attachment.title}
                             </Badge>
                           ))}
@@ -456,7 +483,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                       )}
                     </div>
                     
-                    {message.role === 'assistant' && (
+                    {message.role === 'assistant' && message.status !== 'streaming' && (
                       <div className="flex items-center gap-2">
                         <TooltipProvider>
                           <Tooltip>
@@ -522,7 +549,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 </div>
               ))}
               
-              {isTyping && (
+              {isTyping && !streamingReply && (
                 <div className="flex gap-3">
                   <Avatar className="h-8 w-8">
                     <AvatarFallback>
@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useState, useMemo } from 'react';
+import { useQuery, useMutation } from 'convex/react';
 import {
   Card,
   CardContent,
@@ -53,8 +54,29 @@ import {
   Eye,
   ThumbsUp,
   ThumbsDown,
+  Library,
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { api } from '../../../../convex/_generated/api';
+import { Id } from '../../../../convex/_generated/dataModel';
+
+interface ClauseFallback {
+  rank: number;
+  text: string;
+  riskLevel: 'high' | 'medium' | 'low';
+  guidance?: string;
+}
+
+// How a clause compares with the enterprise clause library
+interface LibraryComparison {
+  status: 'standard' | 'fallback' | 'deviation' | 'missing';
+  libraryVersion: number;
+  similarity: number;
+  matchedFallbackRank?: number;
+  suggestedFallback?: ClauseFallback;
+  standardText?: string;
+  isOutdated?: boolean;
+}
 
 interface Clause {
   id: string;
@@ -71,11 +93,68 @@ interface Clause {
   }[];
   category?: string;
   extractedTerms?: string[];
+  libraryComparison?: LibraryComparison;
+}
+
+// Shape returned by getContractClauseComparison
+interface StoredClauseComparison {
+  _id: string;
+  clauseType: string;
+  title: string;
+  extractedText?: string;
+  riskLevel: 'high' | 'medium' | 'low';
+  confidence: number;
+  recommendations: string[];
+  deviationStatus?: LibraryComparison['status'];
+  libraryVersion?: number;
+  similarity?: number;
+  matchedFallbackRank?: number;
+  suggestedFallback?: ClauseFallback;
+  standardText?: string;
+  isOutdated: boolean;
 }
 
+function toClause(stored: StoredClauseComparison): Clause {
+  return {
+    id: stored._id,
+    type: stored.title,
+    content: stored.extractedText ?? 'Not found in the contract.',
+    riskLevel: stored.riskLevel,
+    confidence: stored.confidence,
+    suggestions: stored.recommendations,
+    category: 'Clause library',
+    ...(stored.deviationStatus ? {
+      libraryComparison: {
+        status: stored.deviationStatus,
+        libraryVersion: stored.libraryVersion ?? 1,
+        similarity: stored.similarity ?? 0,
+        isOutdated: stored.isOutdated,
+        ...(stored.matchedFallbackRank !== undefined ? { matchedFallbackRank: stored.matchedFallbackRank } : {}),
+        ...(stored.suggestedFallback ? { suggestedFallback: stored.suggestedFallback } : {}),
+        ...(stored.standardText ? { standardText: stored.standardText } : {}),
+      },
+    } : {}),
+  };
+}
+
+const LIBRARY_STATUS_LABELS: Record<LibraryComparison['status'], string> = {
+  standard: 'Standard language',
+  fallback: 'Approved fallback',
+  deviation: 'Deviates from library',
+  missing: 'Missing',
+};
+
+const LIBRARY_STATUS_COLORS: Record<LibraryComparison['status'], string> = {
+  standard: 'text-green-700 bg-green-50 border-green-200',
+  fallback: 'text-blue-700 bg-blue-50 border-blue-200',
+  deviation: 'text-red-700 bg-red-50 border-red-200',
+  missing: 'text-red-700 bg-red-50 border-red-200',
+};
+
 interface ClauseAnalysisProps {
   contractId: string;
-  clauses: Clause[];
+  // Omit to show the contract's stored clause library comparison
+  clauses?: Clause[];
   analysisStatus?: 'pending' | 'processing' | 'completed' | 'failed';
   onReanalyze?: () => void;
   isReanalyzing?: boolean;
@@ -83,11 +162,23 @@ interface ClauseAnalysisProps {
 
 export function ClauseAnalysis({
   contractId,
-  clauses,
+  clauses: providedClauses,
   analysisStatus = 'completed',
   onReanalyze,
   isReanalyzing = false,
 }: ClauseAnalysisProps) {
+  const storedComparison = useQuery(
+    api.clauses.clauseLibrary.getContractClauseComparison,
+    providedClauses ? 'skip' : { contractId: contractId as Id<'contracts'> }
+  );
+  const compareContractClauses = useMutation(api.clauses.clauseLibrary.compareContractClauses);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const clauses = useMemo(
+    () => providedClauses ?? ((storedComparison ?? []) as StoredClauseComparison[]).map(toClause),
+    [providedClauses, storedComparison]
+  );
+
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedRiskLevel, setSelectedRiskLevel] = useState<string>('all');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
@@ -155,6 +246,25 @@ export function ClauseAnalysis({
     toast.success('Clause copied to clipboard');
   };
 
+  const handleCompareWithLibrary = async () => {
+    setIsComparing(true);
+    try {
+      const result = await compareContractClauses({ contractId: contractId as Id<'contracts'> });
+      toast.success(
+        `Compared ${result.compared} clause(s): ${result.deviations} deviation(s), ${result.missing} missing`
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to compare with clause library');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const handleCopyFallback = (fallback: ClauseFallback) => {
+    navigator.clipboard.writeText(fallback.text);
+    toast.success('Fallback language copied to clipboard');
+  };
+
   const handleExportAnalysis = () => {
     // In a real implementation, this would generate a PDF or CSV
     toast.info('Export feature coming soon');
@@ -241,6 +351,15 @@ export function ClauseAnalysis({
               </CardDescription>
             </div>
             <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleCompareWithLibrary}
+                disabled={isComparing}
+              >
+                <Library className="h-4 w-4 mr-2" />
+                Compare with Library
+              </Button>
               <Button variant="outline" size="sm" onClick={handleExportAnalysis}>
                 <Download className="h-4 w-4 mr-2" />
                 Export
@@ -394,6 +513,13 @@ export function ClauseAnalysis({
                       {clause.category && (
                         <Badge variant="secondary">{clause.category}</Badge>
                       )}
+                      {clause.libraryComparison && (
+                        <Badge className={LIBRARY_STATUS_COLORS[clause.libraryComparison.status]}>
+                          {clause.libraryComparison.status === 'fallback' && clause.libraryComparison.matchedFallbackRank
+                            ? `Approved fallback #${clause.libraryComparison.matchedFallbackRank}`
+                            : LIBRARY_STATUS_LABELS[clause.libraryComparison.status]}
+                        </Badge>
+                      )}
                     </div>
                   </div>
                   <Button
@@ -411,6 +537,31 @@ export function ClauseAnalysis({
               </CardHeader>
               <CardContent>
                 <p className="text-sm mb-4">{clause.content}</p>
+
+                {/* Suggested fallback for language that deviates from the library */}
+                {clause.libraryComparison?.suggestedFallback && (
+                  <div className="mb-4 p-3 rounded-lg border border-blue-200 bg-blue-50/50">
+                    <div className="flex items-center justify-between mb-1">
+                      <h4 className="text-sm font-medium flex items-center gap-2">
+                        <Library className="h-4 w-4" />
+                        Suggested fallback #{clause.libraryComparison.suggestedFallback.rank}
+                      </h4>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleCopyFallback(clause.libraryComparison!.suggestedFallback!)}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <p className="text-sm">{clause.libraryComparison.suggestedFallback.text}</p>
+                    {clause.libraryComparison.suggestedFallback.guidance && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        {clause.libraryComparison.suggestedFallback.guidance}
+                      </p>
+                    )}
+                  </div>
+                )}
                 
                 <Collapsible open={expandedClauses.has(clause.id)}>
                   <CollapsibleContent className="space-y-4">
@@ -432,6 +583,22 @@ export function ClauseAnalysis({
                       </div>
                     )}
                     
+                    {/* Library standard language */}
+                    {clause.libraryComparison?.standardText && (
+                      <div className="pt-4 border-t">
+                        <h4 className="text-sm font-medium mb-2">
+                          Library Standard (v{clause.libraryComparison.libraryVersion},{' '}
+                          {Math.round(clause.libraryComparison.similarity * 100)}% match)
+                        </h4>
+                        <p className="text-sm text-muted-foreground">{clause.libraryComparison.standardText}</p>
+                        {clause.libraryComparison.isOutdated && (
+                          <p className="text-xs text-yellow-700 mt-2">
+                            The library entry has changed since this comparison. Compare again to update it.
+                          </p>
+                        )}
+                      </div>
+                    )}
+
                     {/* Similar Clauses */}
                     {clause.similarClauses && clause.similarClauses.length > 0 && (
                       <div className="pt-4 border-t">
@@ -31,6 +31,7 @@ import dynamic from "next/dynamic";
 import LoadingSpinner from "../common/LoadingSpinner";
 import { ChartDataPoint, ChartSeries } from "./InteractiveChart";
 import { KPIData } from "./AdvancedKPICard";
+import { DepartmentPerformanceSection } from "./DepartmentPerformanceSection";
 
 // Lazy load heavy chart components
 const InteractiveChart = dynamic(() => import("./InteractiveChart"), {
@@ -446,6 +447,7 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
               height={400}
               onDrillDown={handleChartDrillDown}
             />
+            <DepartmentPerformanceSection />
           </TabsContent>
 
           <TabsContent value="risk" className="space-y-6">
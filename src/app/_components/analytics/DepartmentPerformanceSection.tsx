@@ -1,62 +1,92 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "../../../../convex/_generated/api";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
 import DynamicChart from "@/app/_components/common/DynamicCharts"
+import type { LegacySeries } from "@/lib/chart-type-helpers";
+
+interface DepartmentPerformanceRow {
+  department: string;
+  contracts: number;
+  activeContracts: number;
+  contractValue: number;
+  totalBudget: number;
+  spentAmount: number;
+}
+
+export const DepartmentPerformanceSection = () => {
+  const performance: { currency: string; departments: DepartmentPerformanceRow[] } | undefined =
+    useQuery(api.departments.getDepartmentPerformance, {});
+
+  if (performance === undefined) {
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-8">
+        <Skeleton className="h-96 w-full" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (performance.departments.length === 0) {
+    return null;
+  }
+
+  const data = performance.departments.map(row => ({
+    ...row,
+    name: row.department,
+    value: row.contracts,
+  }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Department Contract Volume</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-80">
+            <DynamicChart
+              type="bar"
+              data={data}
+              series={[
+                { dataKey: "contracts", name: "Contracts", color: "#60a5fa" },
+                { dataKey: "activeContracts", name: "Active", color: "#4ade80" },
+              ] as LegacySeries[]}
+              xAxisKey="department"
+              height={280}
+              showGrid={true}
+              showLegend={true}
+              showTooltip={true}
+            />
+          </div>
+        </CardContent>
+      </Card>
 
-const departmentPerformance = [
-  { name: "Legal", department: "Legal", value: 150, efficiency: 92, contracts: 150, savings: 125000 },
-  { name: "Sales", department: "Sales", value: 200, efficiency: 88, contracts: 200, savings: 180000 },
-  { name: "Procurement", department: "Procurement", value: 180, efficiency: 95, contracts: 180, savings: 150000 },
-];
-
-export const DepartmentPerformanceSection = () => (
-  <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-8">
-    <Card>
-      <CardHeader>
-        <CardTitle>Department Contract Volume</CardTitle>
-      </CardHeader>
-      <CardContent>
-        <div className="h-80">
-          <DynamicChart
-            type="bar"
-            data={departmentPerformance}
-            series={[{
-              dataKey: "contracts",
-              name: "Contracts",
-              color: "#60a5fa"
-            }] as ChartSeries[]}
-            xAxisKey="department"
-            height={280}
-            showGrid={true}
-            showLegend={true}
-            showTooltip={true}
-          />
-        </div>
-      </CardContent>
-    </Card>
-
-    <Card>
-      <CardHeader>
-        <CardTitle>Department Savings</CardTitle>
-      </CardHeader>
-      <CardContent>
-        <div className="h-80">
-          <DynamicChart
-            type="line"
-            data={departmentPerformance}
-            series={[{
-              dataKey: "savings",
-              name: "Savings",
-              color: "#4ade80",
-              strokeWidth: 2,
-              dot: true
-            }] as ChartSeries[]}
-            xAxisKey="department"
-            height={280}
-            showGrid={true}
-            showLegend={true}
-            showTooltip={true}
-          />
-        </div>
-      </CardContent>
-    </Card>
-  </div>
-);
\ No newline at end of file
+      <Card>
+        <CardHeader>
+          <CardTitle>Department Budget vs Spend ({performance.currency})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-80">
+            <DynamicChart
+              type="bar"
+              data={data}
+              series={[
+                { dataKey: "totalBudget", name: "Budget", color: "#a78bfa" },
+                { dataKey: "spentAmount", name: "Spent", color: "#f97316" },
+                { dataKey: "contractValue", name: "Contract Value", color: "#60a5fa" },
+              ] as LegacySeries[]}
+              xAxisKey="department"
+              height={280}
+              showGrid={true}
+              showLegend={true}
+              showTooltip={true}
+            />
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -7,50 +7,17 @@ import { api } from '../../../../convex/_generated/api';
 import { Id } from '../../../../convex/_generated/dataModel';
 import { EmptyPermissions } from '../common/EmptyStates';
 import { LoadingSpinner } from '../common/LoadingStates';
+import {
+  hasPermission as holderHasPermission,
+  Permission,
+  PermissionHolder,
+  PermissionResource,
+} from '../../../../convex/security/permissions';
 
 // User roles from the permission system
 export type UserRole = 'owner' | 'admin' | 'manager' | 'user' | 'viewer';
 
-// Permission types for different operations
-export type Permission = 
-  // Contract permissions
-  | 'contracts:view'
-  | 'contracts:create'
-  | 'contracts:edit:own'
-  | 'contracts:edit:all'
-  | 'contracts:delete'
-  | 'contracts:approve'
-  
-  // Vendor permissions
-  | 'vendors:view'
-  | 'vendors:create'
-  | 'vendors:edit:own'
-  | 'vendors:edit:all'
-  | 'vendors:delete'
-  
-  // User management permissions
-  | 'users:view'
-  | 'users:add'
-  | 'users:edit'
-  | 'users:remove'
-  
-  // Agent system permissions
-  | 'agents:view'
-  | 'agents:control'
-  | 'agents:insights'
-  | 'agents:tasks'
-  
-  // Analytics permissions
-  | 'analytics:view'
-  | 'analytics:export'
-  
-  // Enterprise permissions
-  | 'enterprise:settings'
-  | 'enterprise:delete'
-  
-  // System permissions
-  | 'system:audit'
-  | 'system:maintenance';
+export type { Permission };
 
 // Role hierarchy levels (higher number = more permissions)
 const roleHierarchy: Record<UserRole, number> = {
@@ -61,64 +28,13 @@ const roleHierarchy: Record<UserRole, number> = {
   owner: 5,
 };
 
-// Permission matrix - defines what permissions each role has
-const permissionMatrix: Record<UserRole, Permission[]> = {
-  owner: [
-    // All permissions
-    'contracts:view', 'contracts:create', 'contracts:edit:own', 'contracts:edit:all', 'contracts:delete', 'contracts:approve',
-    'vendors:view', 'vendors:create', 'vendors:edit:own', 'vendors:edit:all', 'vendors:delete',
-    'users:view', 'users:add', 'users:edit', 'users:remove',
-    'agents:view', 'agents:control', 'agents:insights', 'agents:tasks',
-    'analytics:view', 'analytics:export',
-    'enterprise:settings', 'enterprise:delete',
-    'system:audit', 'system:maintenance'
-  ],
-  admin: [
-    // Almost all permissions (cannot modify owners or delete enterprise)
-    'contracts:view', 'contracts:create', 'contracts:edit:own', 'contracts:edit:all', 'contracts:delete', 'contracts:approve',
-    'vendors:view', 'vendors:create', 'vendors:edit:own', 'vendors:edit:all', 'vendors:delete',
-    'users:view', 'users:add', 'users:edit', 'users:remove',
-    'agents:view', 'agents:control', 'agents:insights', 'agents:tasks',
-    'analytics:view', 'analytics:export',
-    'enterprise:settings',
-    'system:audit'
-  ],
-  manager: [
-    // Operational management
-    'contracts:view', 'contracts:create', 'contracts:edit:own', 'contracts:edit:all', 'contracts:delete', 'contracts:approve',
-    'vendors:view', 'vendors:create', 'vendors:edit:own', 'vendors:edit:all', 'vendors:delete',
-    'users:view',
-    'agents:view', 'agents:insights', 'agents:tasks',
-    'analytics:view', 'analytics:export'
-  ],
-  user: [
-    // Standard business user
-    'contracts:view', 'contracts:create', 'contracts:edit:own',
-    'vendors:view', 'vendors:create', 'vendors:edit:own',
-    'analytics:view'
-  ],
-  viewer: [
-    // Read-only access
-    'contracts:view',
-    'vendors:view',
-    'analytics:view'
-  ]
-};
-
-// Resource ownership check interface
-export interface ResourceOwnership {
-  resourceType: 'contract' | 'vendor' | 'user';
-  resourceId: Id<"contracts"> | Id<"vendors"> | Id<"users">;
-  createdBy?: Id<"users">;
-}
-
 // Permission gate props
 export interface PermissionGateProps {
   children: ReactNode;
   permission?: Permission;
   role?: UserRole;
   minimumRole?: UserRole;
-  resource?: ResourceOwnership;
+  resource?: PermissionResource;
   fallback?: ReactNode;
   showFallback?: boolean;
   enterprise?: Id<"enterprises">;
@@ -137,26 +53,18 @@ export const usePermissions = () => {
     isClerkLoaded && clerkUser ? {} : "skip"
   );
 
-  const isLoading = !isClerkLoaded || isUserLoading;
-  const userRole = userData?.role as UserRole | undefined;
-
-  // Check if user has a specific permission
-  const hasPermission = (permission: Permission, resourceOwnership?: ResourceOwnership): boolean => {
-    if (!userRole) return false;
-
-    const userPermissions = permissionMatrix[userRole] || [];
+  // Permissions come from the user's built-in or custom role, plus records shared with them
+  const { data: permissionData, isLoading: isPermissionsLoading } = useConvexQuery(
+    api.security.roles.getMyPermissions,
+    isClerkLoaded && clerkUser ? {} : "skip"
+  );
 
-    // For ownership-based permissions, check if user owns the resource
-    if (permission.includes(':own') && resourceOwnership) {
-      if (resourceOwnership.createdBy === userData?._id) {
-        return userPermissions.includes(permission);
-      }
-      // If they don't own it, check if they have 'all' permission
-      const allPermission = permission.replace(':own', ':all') as Permission;
-      return userPermissions.includes(allPermission);
-    }
+  const isLoading = !isClerkLoaded || isUserLoading || isPermissionsLoading;
+  const userRole = userData?.role as UserRole | undefined;
 
-    return userPermissions.includes(permission);
+  // Check if user has a specific permission, on a record when one is given
+  const hasPermission = (permission: Permission, resource?: PermissionResource): boolean => {
+    return checkPermission(permissionData ?? undefined, permission, resource);
   };
 
   // Check if user has minimum role level
@@ -192,33 +100,20 @@ export const usePermissions = () => {
     hasMinimumRole,
     hasRole,
     canModifyUser,
-    permissions: userRole ? permissionMatrix[userRole] : [],
+    permissions: permissionData?.permissions ?? [],
+    customRole: permissionData?.customRole ?? null,
     hierarchyLevel: userRole ? roleHierarchy[userRole] : 0,
   };
 };
 
-// Permission check utility
+// Permission check utility, the same check the server enforces
 export const checkPermission = (
-  userRole: UserRole | undefined,
+  holder: PermissionHolder | undefined,
   permission: Permission,
-  resourceOwnership?: ResourceOwnership,
-  currentUserId?: Id<"users">
+  resource?: PermissionResource
 ): boolean => {
-  if (!userRole) return false;
-
-  const userPermissions = permissionMatrix[userRole] || [];
-
-  // For ownership-based permissions
-  if (permission.includes(':own') && resourceOwnership) {
-    if (resourceOwnership.createdBy === currentUserId) {
-      return userPermissions.includes(permission);
-    }
-    // Check if they have 'all' permission
-    const allPermission = permission.replace(':own', ':all') as Permission;
-    return userPermissions.includes(allPermission);
-  }
-
-  return userPermissions.includes(permission);
+  if (!holder) return false;
+  return holderHasPermission(holder, permission, resource);
 };
 
 // Main PermissionGate component
@@ -279,7 +174,7 @@ export const PermissionGate: React.FC<PermissionGateProps> = ({
     // Default fallback based on what was checked
     let resourceName = 'this resource';
     if (permission) {
-      const [resourceType] = permission.split(':');
+      const [resourceType] = permission.split('.');
       resourceName = resourceType || 'this resource';
     }
 
@@ -292,70 +187,55 @@ export const PermissionGate: React.FC<PermissionGateProps> = ({
 // Specialized permission gates for common use cases
 export const ContractPermissionGate: React.FC<{
   children: ReactNode;
-  action: 'view' | 'create' | 'edit' | 'delete' | 'approve';
+  action: 'view' | 'create' | 'edit' | 'delete' | 'approve' | 'share';
   contractId?: Id<"contracts">;
-  createdBy?: Id<"users">;
+  departmentId?: Id<"departments">;
+  contractType?: string;
   fallback?: ReactNode;
-}> = ({ children, action, contractId, createdBy, fallback }) => {
-  const permissionMap = {
-    view: 'contracts:view' as Permission,
-    create: 'contracts:create' as Permission,
-    edit: 'contracts:edit:own' as Permission,
-    delete: 'contracts:delete' as Permission,
-    approve: 'contracts:approve' as Permission,
+}> = ({ children, action, contractId, departmentId, contractType, fallback }) => {
+  const permissionMap: Record<typeof action, Permission> = {
+    view: 'contracts.read',
+    create: 'contracts.create',
+    edit: 'contracts.update',
+    delete: 'contracts.delete',
+    approve: 'contracts.approve',
+    share: 'contracts.share',
   };
 
-  return contractId && createdBy ? (
+  return (
     <PermissionGate
       permission={permissionMap[action]}
       resource={{
-        resourceType: 'contract' as const,
-        resourceId: contractId,
-        createdBy
+        type: 'contract',
+        ...(contractId ? { id: contractId } : {}),
+        ...(departmentId ? { departmentId } : {}),
+        ...(contractType ? { contractType } : {}),
       }}
       fallback={fallback}
     >
       {children}
     </PermissionGate>
-  ) : (
-    <PermissionGate
-      permission={permissionMap[action]}
-      fallback={fallback}
-    >
-      {children}
-    </PermissionGate>
   );
 };
 
 export const VendorPermissionGate: React.FC<{
   children: ReactNode;
-  action: 'view' | 'create' | 'edit' | 'delete';
+  action: 'view' | 'create' | 'edit' | 'delete' | 'merge';
   vendorId?: Id<"vendors">;
-  createdBy?: Id<"users">;
   fallback?: ReactNode;
-}> = ({ children, action, vendorId, createdBy, fallback }) => {
-  const permissionMap = {
-    view: 'vendors:view' as Permission,
-    create: 'vendors:create' as Permission,
-    edit: 'vendors:edit:own' as Permission,
-    delete: 'vendors:delete' as Permission,
+}> = ({ children, action, vendorId, fallback }) => {
+  const permissionMap: Record<typeof action, Permission> = {
+    view: 'vendors.read',
+    create: 'vendors.create',
+    edit: 'vendors.update',
+    delete: 'vendors.delete',
+    merge: 'vendors.merge',
   };
 
-  return vendorId && createdBy ? (
-    <PermissionGate
-      permission={permissionMap[action]}
-      resource={{
-        resourceType: 'vendor' as const,
-        resourceId: vendorId,
-        createdBy
-      }}
-      fallback={fallback}
-    >
-      {children}
-    </PermissionGate>
-  ) : (
+  return (
     <PermissionGate
       permission={permissionMap[action]}
+      resource={{ type: 'vendor', ...(vendorId ? { id: vendorId } : {}) }}
       fallback={fallback}
     >
       {children}
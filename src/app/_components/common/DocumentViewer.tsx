@@ -26,7 +26,8 @@ import {
   X,
   ChevronLeft,
   ChevronRight,
-  Printer
+  Printer,
+  Quote
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { OptimizedImage } from '@/components/performance/OptimizedImage';
@@ -40,6 +41,9 @@ interface DocumentViewerProps {
   showControls?: boolean;
   height?: string;
   onClose?: () => void;
+  initialPage?: number; // Page to open at, e.g. a cited passage's
+  pageCount?: number; // Pages in the document, when known from its extracted text
+  highlight?: string; // Cited text to show and search for
 }
 
 export const DocumentViewer = ({
@@ -50,14 +54,17 @@ export const DocumentViewer = ({
   showHeader = true,
   showControls = true,
   height = 'h-[600px]',
-  onClose
+  onClose,
+  initialPage = 1,
+  pageCount,
+  highlight
 }: DocumentViewerProps) => {
   // State
   const [scale, setScale] = useState(100);
   const [rotation, setRotation] = useState(0);
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
+  const [currentPage, setCurrentPage] = useState(initialPage);
+  const [totalPages, setTotalPages] = useState(Math.max(pageCount ?? 1, initialPage));
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -67,6 +74,11 @@ export const DocumentViewer = ({
     storageId ? { storageId } : "skip"
   );
 
+  // Follow a new citation into the same document
+  useEffect(() => {
+    setCurrentPage(initialPage);
+  }, [initialPage, highlight]);
+
   useEffect(() => {
     if (urlError) {
       setError(urlError.message);
@@ -84,7 +96,8 @@ export const DocumentViewer = ({
   const isFileTypeSupported = () => {
     const supportedTypes = getSupportedFileTypes();
     const fileExt = fileType.toLowerCase().replace('.', '');
-    return supportedTypes.includes(fileExt);
+    // Uploads store a MIME type such as application/pdf rather than an extension
+    return supportedTypes.includes(fileExt) || isPdfFile() || isImageFile() || isTextFile();
   };
 
   const isPdfFile = () => {
@@ -309,13 +322,13 @@ export const DocumentViewer = ({
         <div className="flex items-center justify-center h-full overflow-auto">
           <div style={containerStyle}>
             <iframe
-              src={`${fileUrl}#page=${currentPage}&zoom=${scale}`}
+              src={`${fileUrl}#page=${currentPage}&zoom=${scale}${highlight ? `&search=${encodeURIComponent(highlight)}` : ''}`}
               className="w-full h-full border-0"
               style={{ minHeight: '500px', minWidth: '400px' }}
               title={fileName}
               onLoad={() => {
                 // Could implement PDF page counting here with a library
-                setTotalPages(1); // Placeholder
+                setTotalPages(Math.max(pageCount ?? 1, initialPage));
               }}
             />
           </div>
@@ -400,6 +413,22 @@ export const DocumentViewer = ({
       )}
 
       <CardContent className="p-0">
+        {highlight && (
+          <div className="flex items-start gap-2 border-b bg-yellow-50 dark:bg-yellow-900/20 px-4 py-2 text-sm">
+            <Quote className="h-4 w-4 mt-0.5 flex-shrink-0 text-yellow-700 dark:text-yellow-400" />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-medium text-muted-foreground">
+                Cited passage{isPdfFile() ? ` on page ${initialPage}` : ''}
+              </p>
+              <p className="italic line-clamp-3">&ldquo;{highlight}&rdquo;</p>
+            </div>
+            {isPdfFile() && currentPage !== initialPage && (
+              <Button variant="ghost" size="sm" className="h-7" onClick={() => setCurrentPage(initialPage)}>
+                Back to passage
+              </Button>
+            )}
+          </div>
+        )}
         <div className={cn(height, 'relative bg-muted/20')}>
           {renderFileContent()}
         </div>
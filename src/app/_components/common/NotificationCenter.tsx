@@ -34,6 +34,8 @@ import {
   AlertTriangle,
   Calendar,
   CreditCard,
+  ClipboardCheck,
+  RefreshCw,
   Users,
   Shield,
   Zap,
@@ -88,6 +90,8 @@ const typeIcons = {
   contract_created: FileText,
   approval_required: CheckCheck,
   payment_reminder: CreditCard,
+  obligation_reminder: ClipboardCheck,
+  renewal_reminder: RefreshCw,
   vendor_risk_alert: AlertTriangle,
   compliance_issue: Shield,
   task_assigned: Users,
@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { toast } from 'sonner';
+import { api } from '../../../../convex/_generated/api';
+import { Id } from '../../../../convex/_generated/dataModel';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+type AmendmentType = 'amendment' | 'addendum' | 'restatement';
+
+interface AmendmentDialogProps {
+  contractId: Id<'contracts'>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyForm = {
+  type: 'amendment' as AmendmentType,
+  title: '',
+  description: '',
+  effectiveDate: '',
+  value: '',
+  startDate: '',
+  endDate: '',
+  scope: '',
+  pricing: '',
+  paymentSchedule: '',
+};
+
+/**
+ * Record an amendment, addendum or restatement against a contract. Only the
+ * terms filled in are changed; the amendment is saved as a draft and queued
+ * for legal review.
+ */
+export const AmendmentDialog: React.FC<AmendmentDialogProps> = ({ contractId, open, onOpenChange }) => {
+  const [form, setForm] = useState(emptyForm);
+  const [file, setFile] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const generateUploadUrl = useMutation(api.contracts.generateUploadUrl);
+  const createAmendment = useMutation(api.amendments.amendments.createAmendment);
+
+  const update = (field: keyof typeof emptyForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async () => {
+    if (!form.title.trim() || !form.effectiveDate) {
+      toast.error('Enter a title and effective date');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      let upload: { storageId: Id<'_storage'>; fileName: string; fileType: string } | undefined;
+      if (file) {
+        const uploadUrl = await generateUploadUrl();
+        const response = await fetch(uploadUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': file.type },
+          body: file,
+        });
+        if (!response.ok) {
+          throw new Error('File upload failed');
+        }
+        const { storageId } = await response.json();
+        upload = { storageId, fileName: file.name, fileType: file.type };
+      }
+
+      const result = await createAmendment({
+        contractId,
+        type: form.type,
+        title: form.title,
+        effectiveDate: form.effectiveDate,
+        ...(form.description.trim() ? { description: form.description } : {}),
+        terms: {
+          ...(form.value ? { value: Number(form.value) } : {}),
+          ...(form.startDate ? { startDate: form.startDate } : {}),
+          ...(form.endDate ? { endDate: form.endDate } : {}),
+          ...(form.scope.trim() ? { scope: form.scope } : {}),
+          ...(form.pricing.trim() ? { pricing: form.pricing } : {}),
+          ...(form.paymentSchedule.trim() ? { paymentSchedule: form.paymentSchedule } : {}),
+        },
+        ...(upload ?? {}),
+      });
+
+      toast.success(
+        result.reviewTaskId
+          ? `Version ${result.versionNumber} recorded and sent for legal review`
+          : `Version ${result.versionNumber} recorded as a draft`
+      );
+      setForm(emptyForm);
+      setFile(null);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record amendment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Record Amendment</DialogTitle>
+          <DialogDescription>
+            Fill in only the terms this document changes. It is saved as a draft until executed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={form.type} onValueChange={(value) => setForm(prev => ({ ...prev, type: value as AmendmentType }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="amendment">Amendment</SelectItem>
+                <SelectItem value="addendum">Addendum</SelectItem>
+                <SelectItem value="restatement">Restatement</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="amendment-effective">Effective date</Label>
+            <Input id="amendment-effective" type="date" value={form.effectiveDate} onChange={update('effectiveDate')} />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="amendment-title">Title</Label>
+            <Input id="amendment-title" value={form.title} onChange={update('title')} placeholder="Amendment No. 1" />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="amendment-description">Description</Label>
+            <Textarea id="amendment-description" rows={2} value={form.description} onChange={update('description')} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="amendment-value">New contract value</Label>
+            <Input id="amendment-value" type="number" min={0} value={form.value} onChange={update('value')} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="amendment-pricing">New pricing</Label>
+            <Input id="amendment-pricing" value={form.pricing} onChange={update('pricing')} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="amendment-start">New start date</Label>
+            <Input id="amendment-start" type="date" value={form.startDate} onChange={update('startDate')} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="amendment-end">New end date</Label>
+            <Input id="amendment-end" type="date" value={form.endDate} onChange={update('endDate')} />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="amendment-scope">New scope</Label>
+            <Textarea id="amendment-scope" rows={2} value={form.scope} onChange={update('scope')} />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="amendment-payment">New payment schedule</Label>
+            <Input id="amendment-payment" value={form.paymentSchedule} onChange={update('paymentSchedule')} />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="amendment-file">Signed document (optional)</Label>
+            <Input
+              id="amendment-file"
+              type="file"
+              accept=".pdf,.doc,.docx,.txt"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Record Amendment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AmendmentDialog;
@@ -49,6 +49,8 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import { AmendmentDialog } from './AmendmentDialog';
+import { formatCurrency } from '@/lib/utils/parsing';
 
 interface ContractDetailProps {
   contractId: Id<"contracts">;
@@ -66,12 +68,15 @@ interface ClauseAnalysis {
 function ContractDetailComponent({ contractId, enterpriseId }: ContractDetailProps) {
   const router = useRouter();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isAmendmentOpen, setIsAmendmentOpen] = useState(false);
 
   // Fetch contract details
   const contract = useQuery(
     api.contracts.getContractById,
     { contractId, enterpriseId }
   );
+  const value = useQuery(api.currency.fxRates.getContractValue, { contractId });
+  const spend = useQuery(api.spend.spend.getContractSpend, { contractId });
 
   // Mutations
   const analyzeContract = useMutation(api.contracts.analyzeContract);
@@ -113,7 +118,7 @@ function ContractDetailComponent({ contractId, enterpriseId }: ContractDetailPro
 
   const handleStatusChange = async (newStatus: string) => {
     try {
-      await updateContractStatus({ contractId, enterpriseId, newStatus: newStatus as "draft" | "pending_analysis" | "active" | "expired" | "terminated" | "archived" });
+      await updateContractStatus({ contractId, enterpriseId, newStatus: newStatus as "draft" | "pending_analysis" | "pending_approval" | "active" | "expired" | "terminated" | "archived" });
       toast.success('Contract status updated');
     } catch (error) {
       toast.error('Failed to update status');
@@ -275,7 +280,21 @@ function ContractDetailComponent({ contractId, enterpriseId }: ContractDetailPro
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="font-medium text-lg">{contractValue}</div>
+            <div className="font-medium text-lg">
+              {value?.amount !== undefined ? formatCurrency(value.amount, value.currency) : contractValue}
+            </div>
+            {value?.reportingAmount !== undefined && value.currency !== value.reportingCurrency && (
+              <p className="text-xs text-muted-foreground">
+                ≈ {formatCurrency(value.reportingAmount, value.reportingCurrency)}
+                {value.rateDate && ` at ${value.rateDate} rate`}
+              </p>
+            )}
+            {spend && spend.invoiceCount > 0 && (
+              <p className={`text-xs ${spend.flaggedCount > 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                {formatCurrency(spend.invoiced, spend.currency)} invoiced
+                {spend.flaggedCount > 0 && ` • ${spend.flaggedCount} flagged`}
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -385,7 +404,7 @@ function ContractDetailComponent({ contractId, enterpriseId }: ContractDetailPro
                     {contract.departmentId && (
                       <div>
                         <span className="text-muted-foreground">Department:</span>
-                        <span className="ml-2">{contract.departmentId}</span>
+                        <span className="ml-2">{contract.departmentName ?? contract.departmentId}</span>
                       </div>
                     )}
                   </div>
@@ -422,7 +441,7 @@ function ContractDetailComponent({ contractId, enterpriseId }: ContractDetailPro
               </Button>
               <Button
                 variant="outline"
-                onClick={() => toast.info('Amendment feature coming soon')}
+                onClick={() => setIsAmendmentOpen(true)}
               >
                 Create Amendment
               </Button>
@@ -672,6 +691,8 @@ function ContractDetailComponent({ contractId, enterpriseId }: ContractDetailPro
           </Card>
         </TabsContent>
       </Tabs>
+
+      <AmendmentDialog contractId={contractId} open={isAmendmentOpen} onOpenChange={setIsAmendmentOpen} />
     </div>
   );
 }
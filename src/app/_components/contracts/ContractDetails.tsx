@@ -40,10 +40,12 @@ import {
   FileBadge, // Using FileBadge for contract type
   Briefcase, // Using Briefcase for vendor category
   History,
-  PenTool
+  PenTool,
+  MessageSquareText
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import ContractVersionHistory from './ContractVersionHistory';
+import ContractQuestions from './ContractQuestions';
 import { ContractCollaborativeEditor } from '@/app/_components/collaborative-editor/CollaborativeDocumentEditor';
 
 interface ContractDetailsProps {
@@ -60,6 +62,7 @@ interface ContractDetailsState {
 const statusColors: Record<ContractStatus, string> = {
   draft: 'bg-blue-100 text-blue-800 dark:bg-blue-900/70 dark:text-blue-300',
   pending_analysis: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/70 dark:text-yellow-300',
+  pending_approval: 'bg-orange-100 text-orange-800 dark:bg-orange-900/70 dark:text-orange-300',
   active: 'bg-green-100 text-green-800 dark:bg-green-900/70 dark:text-green-300',
   expired: 'bg-red-100 text-red-800 dark:bg-red-900/70 dark:text-red-300',
   terminated: 'bg-orange-100 text-orange-800 dark:bg-orange-900/70 dark:text-orange-300',
@@ -235,7 +238,7 @@ export const ContractDetails = ({ contractId, onEdit }: ContractDetailsProps) =>
 
         {/* Main Content Tabs */}
         <Tabs defaultValue="details" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="details" className="flex items-center gap-2">
               <Info className="h-4 w-4" />
               Contract Details
@@ -244,6 +247,10 @@ export const ContractDetails = ({ contractId, onEdit }: ContractDetailsProps) =>
               <History className="h-4 w-4" />
               Version History
             </TabsTrigger>
+            <TabsTrigger value="questions" className="flex items-center gap-2">
+              <MessageSquareText className="h-4 w-4" />
+              Ask
+            </TabsTrigger>
             <TabsTrigger value="collaborative" className="flex items-center gap-2">
               <PenTool className="h-4 w-4" />
               Collaborative Editor
@@ -391,6 +398,14 @@ export const ContractDetails = ({ contractId, onEdit }: ContractDetailsProps) =>
             <ContractVersionHistory contractId={contractId} currentContract={contract} />
           </TabsContent>
 
+          <TabsContent value="questions" className="mt-6">
+            <ContractQuestions
+              contractId={contractId}
+              {...(contract.vendorId ? { vendorId: contract.vendorId } : {})}
+              {...(vendor?.name ? { vendorName: vendor.name } : {})}
+            />
+          </TabsContent>
+
           <TabsContent value="collaborative" className="mt-6">
             {showCollaborativeEditor ? (
               <ContractCollaborativeEditor
@@ -130,7 +130,11 @@ export function ContractList({ enterpriseId, status }: ContractListProps) {
     if (!confirm('Are you sure you want to delete this contract?')) return;
     
     try {
-      await deleteContract({ contractId: contractId as Id<"contracts">, enterpriseId });
+      const result = await deleteContract({ contractId: contractId as Id<"contracts">, enterpriseId });
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
       toast.success('Contract deleted successfully');
     } catch (error) {
       toast.error('Failed to delete contract');
@@ -142,7 +146,7 @@ export function ContractList({ enterpriseId, status }: ContractListProps) {
       await updateContractStatus({ 
         contractId: contractId as Id<"contracts">, 
         enterpriseId,
-        newStatus: newStatus as "draft" | "pending_analysis" | "active" | "expired" | "terminated" | "archived"
+        newStatus: newStatus as "draft" | "pending_analysis" | "pending_approval" | "active" | "expired" | "terminated" | "archived"
       });
       toast.success('Contract status updated');
     } catch (error) {
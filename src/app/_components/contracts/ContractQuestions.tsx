@@ -0,0 +1,188 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useAction, useMutation } from 'convex/react';
+import { toast } from 'sonner';
+import { useConvexQuery } from '@/lib/api-client';
+import { citedDocumentHref } from '@/lib/document-links';
+import { api } from '../../../../convex/_generated/api';
+import { Id } from '../../../../convex/_generated/dataModel';
+import type { ContractAnswer } from '../../../../convex/ai/contractQA';
+
+// UI Components
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+// Icons
+import { AlertCircle, ExternalLink, Loader2, MessageSquareText, RefreshCw } from 'lucide-react';
+
+type QuestionScope = 'contract' | 'vendor' | 'portfolio';
+
+interface ContractQuestionsProps {
+  contractId?: Id<'contracts'>;
+  vendorId?: Id<'vendors'>;
+  vendorName?: string;
+}
+
+/**
+ * Ask questions of a contract's full text, its vendor's contracts or the
+ * whole portfolio. Answers quote the passages they rest on, each linking to
+ * the document at that passage.
+ */
+export const ContractQuestions: React.FC<ContractQuestionsProps> = ({ contractId, vendorId, vendorName }) => {
+  const [scope, setScope] = useState<QuestionScope>(contractId ? 'contract' : vendorId ? 'vendor' : 'portfolio');
+  const [question, setQuestion] = useState('');
+  const [result, setResult] = useState<ContractAnswer | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+
+  const askContracts = useAction(api.ai.contractQA.askContracts);
+  const rebuildIndex = useMutation(api.documents.contractIndex.rebuildContractIndex);
+  const { data: indexStatus } = useConvexQuery(
+    api.documents.contractIndex.getContractIndexStatus,
+    contractId ? { contractId } : 'skip'
+  );
+
+  const handleAsk = async () => {
+    if (!question.trim()) return;
+
+    setIsAsking(true);
+    try {
+      setResult(await askContracts({
+        question,
+        ...(scope === 'contract' && contractId ? { contractId } : {}),
+        ...(scope === 'vendor' && vendorId ? { vendorId } : {}),
+      }));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to answer the question');
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const handleRebuild = async () => {
+    if (!contractId) return;
+    try {
+      await rebuildIndex({ contractId });
+      toast.success('Rebuilding the document index');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to rebuild the index');
+    }
+  };
+
+  return (
+    <Card className="border-border dark:border-border/50 bg-card shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <MessageSquareText className="h-5 w-5" />
+          Ask the Documents
+        </CardTitle>
+        <CardDescription>
+          Answers come from the full text of the contract documents and their amendments, with the passages quoted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {contractId && indexStatus !== undefined && (
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <span>Document index:</span>
+              {indexStatus === null ? (
+                <Badge variant="outline">Not built</Badge>
+              ) : (
+                <Badge variant={indexStatus.status === 'failed' ? 'destructive' : 'outline'}>
+                  {indexStatus.status === 'completed'
+                    ? `${indexStatus.chunkCount ?? 0} passages from ${indexStatus.documentCount ?? 0} document(s)`
+                    : indexStatus.status}
+                </Badge>
+              )}
+              {indexStatus?.truncated && <span className="text-xs">(long documents are partly indexed)</span>}
+            </div>
+            {(indexStatus === null || indexStatus.status === 'failed') && (
+              <Button variant="outline" size="sm" onClick={handleRebuild}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Build index
+              </Button>
+            )}
+          </div>
+        )}
+        {indexStatus?.status === 'failed' && indexStatus.error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{indexStatus.error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={scope} onValueChange={(value) => setScope(value as QuestionScope)}>
+            <SelectTrigger className="sm:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {contractId && <SelectItem value="contract">This contract</SelectItem>}
+              {vendorId && <SelectItem value="vendor">{vendorName ? `${vendorName}'s contracts` : "This vendor's contracts"}</SelectItem>}
+              <SelectItem value="portfolio">All contracts</SelectItem>
+            </SelectContent>
+          </Select>
+          <Textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleAsk();
+              }
+            }}
+            placeholder="e.g. What notice is needed to terminate for convenience?"
+            className="min-h-[40px] flex-1"
+            rows={2}
+          />
+          <Button onClick={handleAsk} disabled={isAsking || !question.trim()}>
+            {isAsking ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Ask'}
+          </Button>
+        </div>
+
+        {result && (
+          <div className="space-y-4">
+            <p className="text-sm whitespace-pre-wrap">{result.answer}</p>
+
+            {result.citations.length > 0 && (
+              <ol className="space-y-3">
+                {result.citations.map(citation => (
+                  <li key={citation.passageId} className="rounded-md border p-3 text-sm space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">
+                        [{citation.number}] {citation.contractTitle}
+                        {citation.documentTitle !== citation.contractTitle && ` - ${citation.documentTitle}`}
+                      </span>
+                      <Link
+                        href={citedDocumentHref(citation)}
+                        className="flex items-center gap-1 text-xs text-primary hover:underline flex-shrink-0"
+                      >
+                        Page {citation.page}
+                        <ExternalLink className="h-3 w-3" />
+                      </Link>
+                    </div>
+                    {citation.section && <p className="text-xs text-muted-foreground">{citation.section}</p>}
+                    <blockquote className="border-l-2 pl-3 italic text-muted-foreground">{citation.quote}</blockquote>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            {result.unindexedContracts > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {result.unindexedContracts} contract(s) in scope have no searchable document index yet and were not searched.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ContractQuestions;
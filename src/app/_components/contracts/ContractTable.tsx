@@ -58,6 +58,7 @@ type SortDirection = 'asc' | 'desc';
 const statusColors: Record<ContractStatus, string> = {
   draft: 'bg-blue-100 text-blue-800 dark:bg-blue-900/70 dark:text-blue-300',
   pending_analysis: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/70 dark:text-yellow-300',
+  pending_approval: 'bg-orange-100 text-orange-800 dark:bg-orange-900/70 dark:text-orange-300',
   active: 'bg-green-100 text-green-800 dark:bg-green-900/70 dark:text-green-300',
   expired: 'bg-red-100 text-red-800 dark:bg-red-900/70 dark:text-red-300',
   terminated: 'bg-orange-100 text-orange-800 dark:bg-orange-900/70 dark:text-orange-300',
@@ -272,6 +273,7 @@ export const ContractTable = ({
                     <SelectItem value="all">All Status</SelectItem>
                     <SelectItem value="draft">Draft</SelectItem>
                     <SelectItem value="pending_analysis">Pending Analysis</SelectItem>
+                    <SelectItem value="pending_approval">Pending Approval</SelectItem>
                     <SelectItem value="active">Active</SelectItem>
                     <SelectItem value="expired">Expired</SelectItem>
                     <SelectItem value="terminated">Terminated</SelectItem>
@@ -1,191 +1,165 @@
 'use client';
 
 import React, { useState, useMemo } from 'react';
-import { format } from 'date-fns';
-import { useConvexQuery } from '@/lib/api-client';
+import { format, parseISO } from 'date-fns';
+import { useQuery, useMutation } from 'convex/react';
+import { toast } from 'sonner';
 import { api } from '../../../../convex/_generated/api';
-import { Id } from '../../../../convex/_generated/dataModel';
-import { useUser } from '@clerk/nextjs';
+import { Doc, Id } from '../../../../convex/_generated/dataModel';
 
 // UI Components
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Separator } from "@/components/ui/separator";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Tabs, TabsContent } from "@/components/ui/tabs";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { ScrollArea } from "@/components/ui/scroll-area";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 
 // Icons
 import {
   Clock,
-  GitBranch,
-  Eye,
   Download,
-  FileText,
-  Users,
-  Calendar,
   AlertCircle,
-  ChevronRight,
   History,
   ArrowUpDown,
-  Diff
+  Diff,
+  Plus,
+  CheckCircle,
+  Ban,
+  Scale
 } from 'lucide-react';
 
 import { cn } from '@/lib/utils';
 import type { ContractType } from '@/types/contract.types';
+import { AmendmentDialog } from './AmendmentDialog';
 
 interface ContractVersionHistoryProps {
   contractId: Id<"contracts">;
   currentContract?: ContractType;
 }
 
-interface VersionDiff {
-  field: string;
+type ContractTerms = Doc<"contractVersions">["terms"];
+
+interface TermChange {
+  field: keyof ContractTerms;
   label: string;
-  oldValue: string | null;
-  newValue: string | null;
-  type: 'added' | 'removed' | 'modified' | 'unchanged';
+  from?: string | number;
+  to?: string | number;
+  type: 'added' | 'removed' | 'changed';
+}
+
+type LineageVersion = Doc<"contractVersions"> & {
+  fileUrl: string | null;
+  createdByName?: string;
+  resultingTerms: ContractTerms;
+  changes: TermChange[];
+};
+
+interface ContractLineage {
+  versions: LineageVersion[];
+  effectiveTerms: ContractTerms;
+  pendingCount: number;
+}
+
+interface VersionComparison {
+  changes: TermChange[];
+  assessment: { legalImpact: 'low' | 'medium' | 'high'; risks: string[]; recommendations: string[] };
 }
 
-// Mock version data - in a real app, this would come from the backend
-const mockVersionHistory = [
-  {
-    _id: 'version_1' as Id<"contracts">,
-    versionNumber: 3,
-    title: 'Updated Software License Agreement',
-    createdAt: '2024-01-15T10:30:00Z',
-    createdBy: 'John Doe',
-    changeType: 'major' as const,
-    changeDescription: 'Updated pricing structure and added new service level agreements',
-    extractedStartDate: '2024-02-01',
-    extractedEndDate: '2025-02-01',
-    extractedPricing: '$50,000/year',
-    extractedScope: 'Software licensing with premium support and training',
-    status: 'active' as const,
-  },
-  {
-    _id: 'version_2' as Id<"contracts">,
-    versionNumber: 2,
-    title: 'Software License Agreement',
-    createdAt: '2023-12-20T14:15:00Z',
-    createdBy: 'Jane Smith',
-    changeType: 'minor' as const,
-    changeDescription: 'Updated contact information and payment terms',
-    extractedStartDate: '2024-01-01',
-    extractedEndDate: '2025-01-01',
-    extractedPricing: '$45,000/year',
-    extractedScope: 'Software licensing with standard support',
-    status: 'superseded' as const,
-  },
-  {
-    _id: 'version_3' as Id<"contracts">,
-    versionNumber: 1,
-    title: 'Initial Software License Agreement',
-    createdAt: '2023-11-10T09:00:00Z',
-    createdBy: 'System',
-    changeType: 'initial' as const,
-    changeDescription: 'Initial contract version uploaded',
-    extractedStartDate: '2023-12-01',
-    extractedEndDate: '2024-12-01',
-    extractedPricing: '$40,000/year',
-    extractedScope: 'Basic software licensing',
-    status: 'superseded' as const,
-  },
-];
-
-const changeTypeColors = {
-  initial: 'bg-blue-100 text-blue-800 dark:bg-blue-900/70 dark:text-blue-300',
-  minor: 'bg-green-100 text-green-800 dark:bg-green-900/70 dark:text-green-300',
-  major: 'bg-orange-100 text-orange-800 dark:bg-orange-900/70 dark:text-orange-300',
-  critical: 'bg-red-100 text-red-800 dark:bg-red-900/70 dark:text-red-300',
+const MANAGER_ROLES = ['owner', 'admin', 'manager'];
+
+const typeColors = {
+  original: 'bg-blue-100 text-blue-800 dark:bg-blue-900/70 dark:text-blue-300',
+  amendment: 'bg-orange-100 text-orange-800 dark:bg-orange-900/70 dark:text-orange-300',
+  addendum: 'bg-purple-100 text-purple-800 dark:bg-purple-900/70 dark:text-purple-300',
+  restatement: 'bg-red-100 text-red-800 dark:bg-red-900/70 dark:text-red-300',
 };
 
 const statusColors = {
-  active: 'bg-green-100 text-green-800 dark:bg-green-900/70 dark:text-green-300',
-  superseded: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
-  archived: 'bg-slate-100 text-slate-800 dark:bg-slate-700 dark:text-slate-300',
+  draft: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/70 dark:text-yellow-300',
+  executed: 'bg-blue-100 text-blue-800 dark:bg-blue-900/70 dark:text-blue-300',
+  in_effect: 'bg-green-100 text-green-800 dark:bg-green-900/70 dark:text-green-300',
+  void: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const statusLabels = {
+  draft: 'Draft',
+  executed: 'Executed',
+  in_effect: 'In effect',
+  void: 'Void',
+};
+
+const impactColors = {
+  low: 'bg-green-100 text-green-800 dark:bg-green-900/70 dark:text-green-300',
+  medium: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/70 dark:text-yellow-300',
+  high: 'bg-red-100 text-red-800 dark:bg-red-900/70 dark:text-red-300',
+};
+
+const formatTerm = (field: keyof ContractTerms, value?: string | number): string => {
+  if (value === undefined) return 'N/A';
+  if (field === 'value' && typeof value === 'number') return `$${value.toLocaleString()}`;
+  return String(value);
+};
+
+const formatDate = (dateString: string): string => {
+  try {
+    return format(parseISO(dateString), 'PP');
+  } catch {
+    return dateString;
+  }
 };
 
 export const ContractVersionHistory: React.FC<ContractVersionHistoryProps> = ({
   contractId,
-  currentContract
 }) => {
-  const { user: clerkUser, isLoaded: isClerkLoaded } = useUser();
-  const [selectedVersions, setSelectedVersions] = useState<[number, number]>([3, 2]);
+  const [selectedVersions, setSelectedVersions] = useState<[number, number] | null>(null);
   const [viewMode, setViewMode] = useState<'timeline' | 'compare'>('timeline');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
 
-  // Get enterpriseId from Clerk user's metadata
-  const enterpriseId = clerkUser?.publicMetadata?.enterpriseId as Id<"enterprises"> | undefined;
+  const lineage: ContractLineage | null | undefined = useQuery(api.amendments.amendments.getContractLineage, { contractId });
+  const currentUser: Doc<'users'> | null | undefined = useQuery(api.coreUsers.getCurrentUser);
+  const isManager = !!currentUser && MANAGER_ROLES.includes(currentUser.role);
+  const canEdit = !!currentUser && currentUser.role !== 'viewer';
 
-  // In a real implementation, you would fetch version history from the backend
-  // const { data: versionHistory, isLoading } = useConvexQuery(
-  //   api.contracts.getContractVersionHistory,
-  //   (contractId && enterpriseId) ? { contractId, enterpriseId } : "skip"
-  // );
+  const executeAmendment = useMutation(api.amendments.amendments.executeAmendment);
+  const voidAmendment = useMutation(api.amendments.amendments.voidAmendment);
 
-  // Using mock data for now
-  const versionHistory = mockVersionHistory;
-  const isLoading = false;
+  // Newest first for the timeline
+  const versionHistory = useMemo(
+    () => [...(lineage?.versions ?? [])].sort((a, b) => b.versionNumber - a.versionNumber),
+    [lineage]
+  );
 
-  const formatDate = (dateString: string): string => {
+  // Compare the latest version with the one before it until the user picks
+  const [newer, older] = selectedVersions ?? [
+    versionHistory[0]?.versionNumber ?? 0,
+    versionHistory[1]?.versionNumber ?? 0,
+  ];
+  const comparison: VersionComparison | undefined = useQuery(
+    api.amendments.amendments.compareContractVersions,
+    versionHistory.length > 1 && newer !== older ? { contractId, fromVersion: older, toVersion: newer } : 'skip'
+  );
+
+  const handleExecute = async (versionId: Id<"contractVersions">) => {
     try {
-      return format(new Date(dateString), 'PPp');
-    } catch (e) {
-      return dateString;
+      const result = await executeAmendment({ versionId });
+      toast.success(result.status === 'in_effect' ? 'Amendment executed and now in effect' : 'Amendment executed; it takes effect on its effective date');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to execute amendment');
     }
   };
 
-  const generateDiff = (oldVersion: typeof mockVersionHistory[0], newVersion: typeof mockVersionHistory[0]): VersionDiff[] => {
-    const diffs: VersionDiff[] = [];
-    
-    const fields = [
-      { key: 'title', label: 'Title' },
-      { key: 'extractedStartDate', label: 'Start Date' },
-      { key: 'extractedEndDate', label: 'End Date' },
-      { key: 'extractedPricing', label: 'Pricing' },
-      { key: 'extractedScope', label: 'Scope' },
-    ];
-
-    fields.forEach(({ key, label }) => {
-      const oldValue = oldVersion[key as keyof typeof oldVersion] as string || null;
-      const newValue = newVersion[key as keyof typeof newVersion] as string || null;
-      
-      let type: VersionDiff['type'] = 'unchanged';
-      if (oldValue !== newValue) {
-        if (!oldValue) type = 'added';
-        else if (!newValue) type = 'removed';
-        else type = 'modified';
-      }
-      
-      diffs.push({
-        field: key,
-        label,
-        oldValue,
-        newValue,
-        type,
-      });
-    });
-
-    return diffs.filter(diff => diff.type !== 'unchanged');
+  const handleVoid = async (versionId: Id<"contractVersions">) => {
+    const reason = window.prompt('Why is this amendment being voided?');
+    if (!reason) return;
+    try {
+      await voidAmendment({ versionId, reason });
+      toast.success('Amendment voided');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to void amendment');
+    }
   };
 
-  const selectedVersionData = useMemo(() => {
-    const [newer, older] = selectedVersions;
-    const newerVersion = versionHistory.find(v => v.versionNumber === newer);
-    const olderVersion = versionHistory.find(v => v.versionNumber === older);
-    
-    if (!newerVersion || !olderVersion) return null;
-    
-    return {
-      newer: newerVersion,
-      older: olderVersion,
-      diffs: generateDiff(olderVersion, newerVersion),
-    };
-  }, [selectedVersions, versionHistory]);
-
-  if (isLoading) {
+  if (lineage === undefined) {
     return (
       <div className="p-8 flex justify-center items-center min-h-[300px]">
         <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
@@ -194,18 +168,21 @@ export const ContractVersionHistory: React.FC<ContractVersionHistoryProps> = ({
     );
   }
 
-  if (!enterpriseId && isClerkLoaded) {
+  if (lineage === null) {
     return (
       <Alert variant="destructive" className="mb-6">
         <AlertCircle className="h-4 w-4" />
-        <AlertTitle>Configuration Error</AlertTitle>
+        <AlertTitle>Not Available</AlertTitle>
         <AlertDescription>
-          Enterprise information is missing for your user account.
+          Contract not found or you do not have access to its version history.
         </AlertDescription>
       </Alert>
     );
   }
 
+  const newerVersion = versionHistory.find(v => v.versionNumber === newer);
+  const olderVersion = versionHistory.find(v => v.versionNumber === older);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -218,8 +195,11 @@ export const ContractVersionHistory: React.FC<ContractVersionHistoryProps> = ({
                 Version History
               </CardTitle>
               <Badge variant="outline">
-                {versionHistory.length} versions
+                {Math.max(versionHistory.length, 1)} {versionHistory.length > 1 ? 'versions' : 'version'}
               </Badge>
+              {lineage.pendingCount > 0 && (
+                <Badge className={statusColors.draft}>{lineage.pendingCount} pending</Badge>
+              )}
             </div>
             <div className="flex gap-2">
               <Button
@@ -233,18 +213,52 @@ export const ContractVersionHistory: React.FC<ContractVersionHistoryProps> = ({
               <Button
                 variant={viewMode === 'compare' ? 'default' : 'outline'}
                 size="sm"
+                disabled={versionHistory.length < 2}
                 onClick={() => setViewMode('compare')}
               >
                 <Diff className="h-4 w-4 mr-2" />
                 Compare
               </Button>
+              {canEdit && (
+                <Button size="sm" onClick={() => setIsDialogOpen(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Record Amendment
+                </Button>
+              )}
             </div>
           </div>
         </CardHeader>
+        <CardContent>
+          {/* Current effective terms */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <span className="font-medium text-foreground">Value in effect:</span>
+              <p className="text-muted-foreground">{formatTerm('value', lineage.effectiveTerms.value)}</p>
+            </div>
+            <div>
+              <span className="font-medium text-foreground">Start Date:</span>
+              <p className="text-muted-foreground">{formatTerm('startDate', lineage.effectiveTerms.startDate)}</p>
+            </div>
+            <div>
+              <span className="font-medium text-foreground">End Date:</span>
+              <p className="text-muted-foreground">{formatTerm('endDate', lineage.effectiveTerms.endDate)}</p>
+            </div>
+            <div>
+              <span className="font-medium text-foreground">Pricing:</span>
+              <p className="text-muted-foreground">{formatTerm('pricing', lineage.effectiveTerms.pricing)}</p>
+            </div>
+          </div>
+        </CardContent>
       </Card>
 
       <Tabs value={viewMode} onValueChange={(value) => setViewMode(value as 'timeline' | 'compare')}>
         <TabsContent value="timeline" className="space-y-4">
+          {versionHistory.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              This contract has not been amended. Record an amendment to start its version history.
+            </p>
+          )}
+
           {/* Timeline View */}
           <div className="space-y-4">
             {versionHistory.map((version, index) => (
@@ -255,9 +269,7 @@ export const ContractVersionHistory: React.FC<ContractVersionHistoryProps> = ({
                       <div className="flex flex-col items-center">
                         <div className={cn(
                           "w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium",
-                          version.status === 'active' 
-                            ? "bg-green-100 text-green-800 dark:bg-green-900/70 dark:text-green-300"
-                            : "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"
+                          statusColors[version.status]
                         )}>
                           {version.versionNumber}
                         </div>
@@ -265,56 +277,100 @@ export const ContractVersionHistory: React.FC<ContractVersionHistoryProps> = ({
                           <div className="w-px h-12 bg-border dark:bg-border/50 mt-2" />
                         )}
                       </div>
-                      
+
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2 mb-2">
-                          <h3 className="text-lg font-medium text-foreground">
+                          <h3 className={cn("text-lg font-medium text-foreground", version.status === 'void' && "line-through")}>
                             {version.title}
                           </h3>
                           <Badge className={statusColors[version.status]}>
-                            {version.status}
+                            {statusLabels[version.status]}
                           </Badge>
-                          <Badge className={changeTypeColors[version.changeType]}>
-                            {version.changeType}
+                          <Badge className={typeColors[version.type]}>
+                            {version.type}
                           </Badge>
+                          {version.legalReview && (
+                            <Badge className={impactColors[version.legalReview.legalImpact]}>
+                              <Scale className="h-3 w-3 mr-1" />
+                              {version.legalReview.legalImpact} impact
+                            </Badge>
+                          )}
                         </div>
-                        
-                        <p className="text-sm text-muted-foreground mb-3">
-                          {version.changeDescription}
-                        </p>
-                        
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                          <div>
-                            <span className="font-medium text-foreground">Start Date:</span>
-                            <p className="text-muted-foreground">{version.extractedStartDate || 'N/A'}</p>
-                          </div>
-                          <div>
-                            <span className="font-medium text-foreground">End Date:</span>
-                            <p className="text-muted-foreground">{version.extractedEndDate || 'N/A'}</p>
-                          </div>
-                          <div>
-                            <span className="font-medium text-foreground">Pricing:</span>
-                            <p className="text-muted-foreground">{version.extractedPricing || 'N/A'}</p>
-                          </div>
-                          <div>
-                            <span className="font-medium text-foreground">Created By:</span>
-                            <p className="text-muted-foreground">{version.createdBy}</p>
+
+                        {version.description && (
+                          <p className="text-sm text-muted-foreground mb-3">{version.description}</p>
+                        )}
+                        {version.voidReason && (
+                          <p className="text-sm text-muted-foreground mb-3">Voided: {version.voidReason}</p>
+                        )}
+
+                        {version.changes.length > 0 ? (
+                          <ul className="text-sm space-y-1 mb-3">
+                            {version.changes.map(change => (
+                              <li key={change.field}>
+                                <span className="font-medium text-foreground">{change.label}:</span>{' '}
+                                <span className="text-muted-foreground">
+                                  {formatTerm(change.field, change.from)} → {formatTerm(change.field, change.to)}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        ) : version.versionNumber === 0 && (
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-3">
+                            <div>
+                              <span className="font-medium text-foreground">Start Date:</span>
+                              <p className="text-muted-foreground">{formatTerm('startDate', version.terms.startDate)}</p>
+                            </div>
+                            <div>
+                              <span className="font-medium text-foreground">End Date:</span>
+                              <p className="text-muted-foreground">{formatTerm('endDate', version.terms.endDate)}</p>
+                            </div>
+                            <div>
+                              <span className="font-medium text-foreground">Value:</span>
+                              <p className="text-muted-foreground">{formatTerm('value', version.terms.value)}</p>
+                            </div>
+                            <div>
+                              <span className="font-medium text-foreground">Pricing:</span>
+                              <p className="text-muted-foreground">{formatTerm('pricing', version.terms.pricing)}</p>
+                            </div>
                           </div>
-                        </div>
+                        )}
+
+                        {version.legalReview && version.legalReview.risks.length > 0 && (
+                          <ul className="text-sm list-disc pl-5 text-muted-foreground">
+                            {version.legalReview.risks.map(risk => <li key={risk}>{risk}</li>)}
+                          </ul>
+                        )}
                       </div>
                     </div>
-                    
+
                     <div className="flex flex-col items-end gap-2">
                       <p className="text-sm text-muted-foreground">
-                        {formatDate(version.createdAt)}
+                        Effective {formatDate(version.effectiveDate)}
                       </p>
+                      {version.createdByName && (
+                        <p className="text-xs text-muted-foreground">Recorded by {version.createdByName}</p>
+                      )}
                       <div className="flex gap-1">
-                        <Button variant="outline" size="sm">
-                          <Eye className="h-4 w-4" />
-                        </Button>
-                        <Button variant="outline" size="sm">
-                          <Download className="h-4 w-4" />
-                        </Button>
+                        {version.fileUrl && (
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={version.fileUrl} target="_blank" rel="noopener noreferrer">
+                              <Download className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        )}
+                        {isManager && version.status === 'draft' && (
+                          <Button variant="outline" size="sm" onClick={() => handleExecute(version._id)}>
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Execute
+                          </Button>
+                        )}
+                        {isManager && version.versionNumber > 0 && version.status !== 'void' && (
+                          <Button variant="outline" size="sm" onClick={() => handleVoid(version._id)}>
+                            <Ban className="h-4 w-4 mr-1" />
+                            Void
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -334,8 +390,8 @@ export const ContractVersionHistory: React.FC<ContractVersionHistoryProps> = ({
                   <label className="text-sm font-medium">Version:</label>
                   <select
                     className="px-3 py-1 border rounded-md text-sm"
-                    value={selectedVersions[0]}
-                    onChange={(e) => setSelectedVersions([parseInt(e.target.value), selectedVersions[1]])}
+                    value={newer}
+                    onChange={(e) => setSelectedVersions([parseInt(e.target.value), older])}
                   >
                     {versionHistory.map(v => (
                       <option key={v.versionNumber} value={v.versionNumber}>
@@ -349,8 +405,8 @@ export const ContractVersionHistory: React.FC<ContractVersionHistoryProps> = ({
                   <label className="text-sm font-medium">Version:</label>
                   <select
                     className="px-3 py-1 border rounded-md text-sm"
-                    value={selectedVersions[1]}
-                    onChange={(e) => setSelectedVersions([selectedVersions[0], parseInt(e.target.value)])}
+                    value={older}
+                    onChange={(e) => setSelectedVersions([newer, parseInt(e.target.value)])}
                   >
                     {versionHistory.map(v => (
                       <option key={v.versionNumber} value={v.versionNumber}>
@@ -362,43 +418,48 @@ export const ContractVersionHistory: React.FC<ContractVersionHistoryProps> = ({
               </div>
             </CardHeader>
             <CardContent>
-              {selectedVersionData && (
+              {newerVersion && olderVersion && comparison && (
                 <div className="space-y-6">
                   {/* Version Headers */}
                   <div className="grid grid-cols-2 gap-4">
                     <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
                       <h3 className="font-medium text-green-800 dark:text-green-300 mb-2">
-                        Version {selectedVersionData.newer.versionNumber} (Newer)
+                        Version {newerVersion.versionNumber}
                       </h3>
                       <p className="text-sm text-green-700 dark:text-green-400">
-                        {formatDate(selectedVersionData.newer.createdAt)}
+                        Effective {formatDate(newerVersion.effectiveDate)}
                       </p>
                     </div>
                     <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
                       <h3 className="font-medium text-blue-800 dark:text-blue-300 mb-2">
-                        Version {selectedVersionData.older.versionNumber} (Older)
+                        Version {olderVersion.versionNumber}
                       </h3>
                       <p className="text-sm text-blue-700 dark:text-blue-400">
-                        {formatDate(selectedVersionData.older.createdAt)}
+                        Effective {formatDate(olderVersion.effectiveDate)}
                       </p>
                     </div>
                   </div>
 
                   {/* Differences */}
                   <div className="space-y-4">
-                    <h4 className="font-medium text-foreground">Changes</h4>
-                    {selectedVersionData.diffs.length === 0 ? (
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-medium text-foreground">Changes</h4>
+                      <Badge className={impactColors[comparison.assessment.legalImpact]}>
+                        {comparison.assessment.legalImpact} legal impact
+                      </Badge>
+                    </div>
+                    {comparison.changes.length === 0 ? (
                       <p className="text-sm text-muted-foreground">No differences found between these versions.</p>
                     ) : (
                       <div className="space-y-3">
-                        {selectedVersionData.diffs.map((diff, index) => (
-                          <div key={index} className="border rounded-lg p-4">
+                        {comparison.changes.map(diff => (
+                          <div key={diff.field} className="border rounded-lg p-4">
                             <div className="flex items-center gap-2 mb-3">
                               <span className="font-medium text-foreground">{diff.label}</span>
                               <Badge variant="outline" className={cn(
                                 diff.type === 'added' && 'bg-green-100 text-green-800 dark:bg-green-900/70 dark:text-green-300',
                                 diff.type === 'removed' && 'bg-red-100 text-red-800 dark:bg-red-900/70 dark:text-red-300',
-                                diff.type === 'modified' && 'bg-orange-100 text-orange-800 dark:bg-orange-900/70 dark:text-orange-300'
+                                diff.type === 'changed' && 'bg-orange-100 text-orange-800 dark:bg-orange-900/70 dark:text-orange-300'
                               )}>
                                 {diff.type}
                               </Badge>
@@ -406,18 +467,18 @@ export const ContractVersionHistory: React.FC<ContractVersionHistoryProps> = ({
                             <div className="grid grid-cols-2 gap-4">
                               <div className="p-3 bg-green-50 dark:bg-green-900/20 rounded">
                                 <p className="text-xs font-medium text-green-800 dark:text-green-300 mb-1">
-                                  Version {selectedVersionData.newer.versionNumber}
+                                  Version {newerVersion.versionNumber}
                                 </p>
                                 <p className="text-sm text-foreground">
-                                  {diff.newValue || <span className="text-muted-foreground italic">None</span>}
+                                  {diff.to !== undefined ? formatTerm(diff.field, diff.to) : <span className="text-muted-foreground italic">None</span>}
                                 </p>
                               </div>
                               <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded">
                                 <p className="text-xs font-medium text-blue-800 dark:text-blue-300 mb-1">
-                                  Version {selectedVersionData.older.versionNumber}
+                                  Version {olderVersion.versionNumber}
                                 </p>
                                 <p className="text-sm text-foreground">
-                                  {diff.oldValue || <span className="text-muted-foreground italic">None</span>}
+                                  {diff.from !== undefined ? formatTerm(diff.field, diff.from) : <span className="text-muted-foreground italic">None</span>}
                                 </p>
                               </div>
                             </div>
@@ -425,6 +486,19 @@ export const ContractVersionHistory: React.FC<ContractVersionHistoryProps> = ({
                         ))}
                       </div>
                     )}
+
+                    {comparison.assessment.risks.length > 0 && (
+                      <Alert>
+                        <Scale className="h-4 w-4" />
+                        <AlertTitle>Legal review</AlertTitle>
+                        <AlertDescription>
+                          <ul className="list-disc pl-5 space-y-1">
+                            {comparison.assessment.risks.map(risk => <li key={risk}>{risk}</li>)}
+                            {comparison.assessment.recommendations.map(rec => <li key={rec}>{rec}</li>)}
+                          </ul>
+                        </AlertDescription>
+                      </Alert>
+                    )}
                   </div>
                 </div>
               )}
@@ -432,8 +506,10 @@ export const ContractVersionHistory: React.FC<ContractVersionHistoryProps> = ({
           </Card>
         </TabsContent>
       </Tabs>
+
+      <AmendmentDialog contractId={contractId} open={isDialogOpen} onOpenChange={setIsDialogOpen} />
     </div>
   );
 };
 
-export default ContractVersionHistory;
\ No newline at end of file
+export default ContractVersionHistory;
@@ -0,0 +1,305 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useQuery, useMutation } from 'convex/react';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { api } from '../../../../convex/_generated/api';
+import { Doc, Id } from '../../../../convex/_generated/dataModel';
+
+// UI Components
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+// Icons
+import { AlertTriangle, CalendarClock, CheckCircle, Clock, RefreshCw } from 'lucide-react';
+
+import { cn } from '@/lib/utils';
+
+type RenewalFilter = 'all' | 'open' | 'decided' | 'missed';
+type RenewalDecision = 'renew' | 'renegotiate' | 'terminate';
+
+const MANAGER_ROLES = ['owner', 'admin', 'manager'];
+
+type RenewalEntry = Doc<'contractRenewals'> & {
+  daysLeft: number;
+  contract: { _id: Id<'contracts'>; title: string; value?: number };
+  vendorName?: string;
+  ownerName?: string;
+};
+
+const decisionLabels: Record<string, string> = {
+  pending: 'Pending',
+  renew: 'Renew',
+  renegotiate: 'Renegotiate',
+  terminate: 'Terminate',
+};
+
+function urgencyClass(daysLeft: number, status: string) {
+  if (status === 'missed' || daysLeft < 0) return 'bg-red-100 text-red-800';
+  if (status === 'decided') return 'bg-green-100 text-green-800';
+  if (daysLeft <= 7) return 'bg-red-100 text-red-800';
+  if (daysLeft <= 30) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-blue-100 text-blue-800';
+}
+
+/**
+ * Renewal calendar: contracts grouped by the month of their last day to give
+ * notice, with the renewal decision, owner and notice period editable inline.
+ */
+export const RenewalCalendar: React.FC = () => {
+  const [filter, setFilter] = useState<RenewalFilter>('all');
+  const [noticeDrafts, setNoticeDrafts] = useState<Record<string, string>>({});
+
+  const renewals: RenewalEntry[] | undefined = useQuery(api.renewals.renewals.getRenewalCalendar, {});
+  const currentUser: Doc<'users'> | null | undefined = useQuery(api.coreUsers.getCurrentUser);
+  const isManager = !!currentUser && MANAGER_ROLES.includes(currentUser.role);
+  const users: Doc<'users'>[] | undefined = useQuery(
+    api.coreUsers.getEnterpriseUsersSecure,
+    currentUser && isManager ? { enterpriseId: currentUser.enterpriseId } : 'skip'
+  );
+
+  const recordDecision = useMutation(api.renewals.renewals.recordRenewalDecision);
+  const assignOwner = useMutation(api.renewals.renewals.assignRenewalOwner);
+  const setNoticePeriod = useMutation(api.renewals.renewals.setContractNoticePeriod);
+
+  const stats = useMemo(() => {
+    const list = renewals ?? [];
+    return {
+      dueSoon: list.filter(r => r.status === 'open' && r.daysLeft >= 0 && r.daysLeft <= 30).length,
+      pending: list.filter(r => r.status === 'open').length,
+      missed: list.filter(r => r.status === 'missed').length,
+      autoRenewing: list.filter(r => r.isAutoRenew).length,
+    };
+  }, [renewals]);
+
+  // Filtered renewals grouped by deadline month, soonest first
+  const months = useMemo(() => {
+    const groups = new Map<string, RenewalEntry[]>();
+    (renewals ?? [])
+      .filter(renewal => filter === 'all' || renewal.status === filter)
+      .sort((a, b) => a.cancellationDeadline.localeCompare(b.cancellationDeadline))
+      .forEach(renewal => {
+        const month = renewal.cancellationDeadline.slice(0, 7);
+        groups.set(month, [...(groups.get(month) ?? []), renewal]);
+      });
+    return Array.from(groups.entries());
+  }, [renewals, filter]);
+
+  const handleDecision = async (renewalId: Id<'contractRenewals'>, decision: RenewalDecision) => {
+    try {
+      const result = await recordDecision({ renewalId, decision });
+      toast.success(
+        result.noticeObligationId && decision !== 'renew'
+          ? `Decision recorded. Sending notice is now tracked as an obligation.`
+          : 'Decision recorded'
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record decision');
+    }
+  };
+
+  const handleAssign = async (renewalId: Id<'contractRenewals'>, ownerId: string) => {
+    try {
+      await assignOwner({ renewalId, ownerId: ownerId as Id<'users'> });
+      toast.success('Renewal owner assigned');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to assign owner');
+    }
+  };
+
+  const handleNoticePeriod = async (contractId: Id<'contracts'>) => {
+    const days = Number(noticeDrafts[contractId]);
+    if (!Number.isInteger(days) || days < 0) {
+      toast.error('Enter the notice period as a whole number of days');
+      return;
+    }
+    try {
+      const result = await setNoticePeriod({ contractId, noticePeriodDays: days });
+      setNoticeDrafts(prev => ({ ...prev, [contractId]: '' }));
+      toast.success(`Last day to cancel is now ${result.cancellationDeadline ?? 'unknown'}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update notice period');
+    }
+  };
+
+  if (renewals === undefined) {
+    return <div className="p-6 text-muted-foreground">Loading renewals...</div>;
+  }
+
+  return (
+    <div className="space-y-6 p-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold">Renewal Calendar</h2>
+        <Select value={filter} onValueChange={(value) => setFilter(value as RenewalFilter)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All renewals</SelectItem>
+            <SelectItem value="open">Awaiting decision</SelectItem>
+            <SelectItem value="decided">Decided</SelectItem>
+            <SelectItem value="missed">Deadline missed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium">Deadlines in 30 Days</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.dueSoon}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium">Awaiting Decision</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.pending}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium">Deadlines Missed</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{stats.missed}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium">Auto-Renewing</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.autoRenewing}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {months.length === 0 && (
+        <div className="text-center py-10 text-muted-foreground">
+          No renewals with a cancellation deadline in this period
+        </div>
+      )}
+
+      {months.map(([month, entries]) => (
+        <Card key={month}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <CalendarClock className="h-5 w-5" />
+              {format(parseISO(`${month}-01`), 'MMMM yyyy')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {entries.map(renewal => (
+              <div
+                key={renewal._id}
+                className="flex flex-col gap-3 rounded-lg border p-4 lg:flex-row lg:items-center lg:justify-between"
+              >
+                <div className="flex items-start gap-4">
+                  <div className="w-14 text-center">
+                    <div className="text-xs uppercase text-muted-foreground">
+                      {format(parseISO(renewal.cancellationDeadline), 'MMM')}
+                    </div>
+                    <div className="text-2xl font-bold">{format(parseISO(renewal.cancellationDeadline), 'd')}</div>
+                  </div>
+                  <div className="space-y-1">
+                    <Link href={`/dashboard/contracts/${renewal.contractId}`} className="font-medium hover:underline">
+                      {renewal.contract.title}
+                    </Link>
+                    <div className="text-sm text-muted-foreground">
+                      {renewal.vendorName ?? 'No vendor'} · term ends {format(parseISO(renewal.termEndDate), 'PP')}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge className={cn(urgencyClass(renewal.daysLeft, renewal.status))}>
+                        {renewal.status === 'missed' ? (
+                          <><AlertTriangle className="mr-1 h-3 w-3" />Deadline missed</>
+                        ) : renewal.status === 'decided' ? (
+                          <><CheckCircle className="mr-1 h-3 w-3" />{decisionLabels[renewal.decision]}</>
+                        ) : (
+                          <><Clock className="mr-1 h-3 w-3" />{renewal.daysLeft} days left</>
+                        )}
+                      </Badge>
+                      {renewal.isAutoRenew && (
+                        <Badge variant="outline">
+                          <RefreshCw className="mr-1 h-3 w-3" />
+                          Auto-renews
+                        </Badge>
+                      )}
+                      <span className="text-xs text-muted-foreground">
+                        {renewal.noticePeriodDays !== undefined
+                          ? `${renewal.noticePeriodDays} days' notice`
+                          : 'No notice period recorded'}
+                        {renewal.ownerName ? ` · Owner: ${renewal.ownerName}` : ' · No owner'}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-24"
+                      placeholder="Notice days"
+                      value={noticeDrafts[renewal.contractId] ?? ''}
+                      onChange={(e) => setNoticeDrafts(prev => ({ ...prev, [renewal.contractId]: e.target.value }))}
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!noticeDrafts[renewal.contractId]}
+                      onClick={() => handleNoticePeriod(renewal.contractId)}
+                    >
+                      Set
+                    </Button>
+                  </div>
+
+                  {isManager && users && (
+                    <Select value={renewal.ownerId ?? ''} onValueChange={(value) => handleAssign(renewal._id, value)}>
+                      <SelectTrigger className="w-44">
+                        <SelectValue placeholder="Assign owner" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {users.filter(user => user.isActive).map(user => (
+                          <SelectItem key={user._id} value={user._id}>
+                            {[user.firstName, user.lastName].filter(Boolean).join(' ') || user.email}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  <Select
+                    value={renewal.decision === 'pending' ? '' : renewal.decision}
+                    onValueChange={(value) => handleDecision(renewal._id, value as RenewalDecision)}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue placeholder="Decide..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="renew">Renew</SelectItem>
+                      <SelectItem value="renegotiate">Renegotiate</SelectItem>
+                      <SelectItem value="terminate">Terminate</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default RenewalCalendar;
@@ -126,6 +126,7 @@ export const VirtualizedContractList: React.FC<VirtualizedContractListProps> = (
     switch (status) {
       case "active": return "bg-green-100 text-green-800";
       case "pending_analysis": return "bg-yellow-100 text-yellow-800";
+      case "pending_approval": return "bg-orange-100 text-orange-800";
       case "draft": return "bg-blue-100 text-blue-800";
       case "expired": return "bg-red-100 text-red-800";
       case "terminated": return "bg-orange-100 text-orange-800";
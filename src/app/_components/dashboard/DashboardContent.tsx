@@ -258,7 +258,7 @@ const DashboardContentComponent: React.FC<DashboardContentProps> = ({ enterprise
   };
 
   const calculatePendingApprovals = () => {
-    return contractStats?.byStatus?.pending_analysis || 0;
+    return contractStats?.byStatus?.pending_approval || 0;
   };
 
   const getStatusDistributionData = () => {
@@ -268,6 +268,7 @@ const DashboardContentComponent: React.FC<DashboardContentProps> = ({ enterprise
       active: "#10b981",
       draft: "#60a5fa", 
       pending_analysis: "#f59e0b",
+      pending_approval: "#f97316",
       expired: "#ef4444",
       terminated: "#8b5cf6",
       archived: "#6b7280"
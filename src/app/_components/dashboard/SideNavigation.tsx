@@ -33,6 +33,7 @@ import {
   Archive,
   AlertCircle,
   FileEdit,
+  Receipt,
 } from "lucide-react";
 import { useDashboardStore } from "@/stores/dashboard-store"
 import type { NavSection } from "@/types/homedashboard.types"
@@ -270,6 +271,11 @@ export const SideNavigation = ({ className }: { className?: string }) => {
           href: "/dashboard/finance/budgets",
           icon: DollarSign,
         },
+        {
+          label: "Spend",
+          href: "/dashboard/finance/spend",
+          icon: Receipt,
+        },
       ],
     },
     {
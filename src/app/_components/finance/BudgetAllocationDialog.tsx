@@ -38,6 +38,7 @@ import { CalendarIcon, DollarSign, FileText, AlertCircle } from "lucide-react";
 import { format } from "date-fns";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import { formatCurrency } from "@/lib/utils/parsing";
 
 interface BudgetAllocationDialogProps {
   budget: any;
@@ -56,7 +57,7 @@ export function BudgetAllocationDialog({
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Fetch unallocated contracts
-  const unallocatedContracts = useQuery(api.contracts.getUnallocatedContracts, {
+  const unallocatedContracts = useQuery(api.budgets.getUnallocatedContracts, {
     budgetId: budget._id,
   });
 
@@ -69,11 +70,13 @@ export function BudgetAllocationDialog({
   const removeAllocation = useMutation(api.budgets.removeContractAllocation);
 
   const availableBudget = budget.totalBudget - budget.allocatedAmount;
+  const currency: string = budget.currency ?? "USD";
 
-  const calculateAllocation = (contract: any) => {
+  // Share of the contract value that falls in this budget
+  const allocationShare = (contract: any) => {
     if (allocationType === "full") {
-      return contract.value || 0;
-    } else if (allocationType === "prorated") {
+      return 1;
+    } else {
       // Calculate prorated amount based on budget period overlap
       const contractStart = new Date(contract.startDate || budget.startDate);
       const contractEnd = new Date(contract.endDate || budget.endDate);
@@ -88,10 +91,16 @@ export function BudgetAllocationDialog({
       const overlapDays = Math.ceil((overlapEnd.getTime() - overlapStart.getTime()) / (1000 * 60 * 60 * 24));
       const contractDays = Math.ceil((contractEnd.getTime() - contractStart.getTime()) / (1000 * 60 * 60 * 24));
 
-      return (contract.value || 0) * (overlapDays / contractDays);
-    } else {
+      return overlapDays / contractDays;
+    }
+  };
+
+  // Allocation in the budget's currency
+  const calculateAllocation = (contract: any) => {
+    if (allocationType === "custom") {
       return parseFloat(customAmounts[contract._id] || "0");
     }
+    return (contract.valueInBudgetCurrency ?? 0) * allocationShare(contract);
   };
 
   const getTotalAllocation = () => {
@@ -122,11 +131,16 @@ export function BudgetAllocationDialog({
         const contract = unallocatedContracts?.find(c => c._id === contractId);
         if (!contract) throw new Error("Contract not found");
 
-        return {
-          contractId,
-          allocatedAmount: calculateAllocation(contract),
-          allocationType,
-        };
+        // Full and prorated amounts are sent in the contract's currency so
+        // the budget keeps the original amount alongside the converted one
+        return allocationType === "custom"
+          ? { contractId: contract._id, allocatedAmount: calculateAllocation(contract), currency, allocationType }
+          : {
+              contractId: contract._id,
+              allocatedAmount: (contract.value || 0) * allocationShare(contract),
+              currency: contract.currency,
+              allocationType,
+            };
       });
 
       await allocateContracts({
@@ -167,14 +181,14 @@ export function BudgetAllocationDialog({
           <div className="grid grid-cols-3 gap-4">
             <Card>
               <CardContent className="pt-6">
-                <div className="text-2xl font-bold">${budget.totalBudget.toLocaleString()}</div>
+                <div className="text-2xl font-bold">{formatCurrency(budget.totalBudget, currency)}</div>
                 <p className="text-xs text-muted-foreground">Total Budget</p>
               </CardContent>
             </Card>
             <Card>
               <CardContent className="pt-6">
                 <div className="text-2xl font-bold text-blue-600">
-                  ${budget.allocatedAmount.toLocaleString()}
+                  {formatCurrency(budget.allocatedAmount, currency)}
                 </div>
                 <p className="text-xs text-muted-foreground">Allocated</p>
               </CardContent>
@@ -182,7 +196,7 @@ export function BudgetAllocationDialog({
             <Card>
               <CardContent className="pt-6">
                 <div className="text-2xl font-bold text-green-600">
-                  ${availableBudget.toLocaleString()}
+                  {formatCurrency(availableBudget, currency)}
                 </div>
                 <p className="text-xs text-muted-foreground">Available</p>
               </CardContent>
@@ -223,7 +237,7 @@ export function BudgetAllocationDialog({
                             </Badge>
                           </TableCell>
                           <TableCell className="text-right">
-                            ${allocation.allocatedAmount.toLocaleString()}
+                            {formatCurrency(allocation.allocatedAmount, currency)}
                           </TableCell>
                           <TableCell>
                             <Button
@@ -294,7 +308,11 @@ export function BudgetAllocationDialog({
                           <div className="flex items-center gap-4 text-xs text-muted-foreground">
                             <span>{contract.vendorName || "No vendor"}</span>
                             <span>•</span>
-                            <span>${contract.value?.toLocaleString() || 0}</span>
+                            <span>
+                              {formatCurrency(contract.value, contract.currency)}
+                              {contract.currency !== currency && contract.valueInBudgetCurrency !== undefined &&
+                                ` (${formatCurrency(contract.valueInBudgetCurrency, currency)})`}
+                            </span>
                             <span>•</span>
                             <span>
                               {contract.startDate && format(new Date(contract.startDate), "MMM d, yyyy")} - 
@@ -317,7 +335,7 @@ export function BudgetAllocationDialog({
                             />
                           ) : (
                             <div>
-                              <p className="font-medium">${allocation.toLocaleString()}</p>
+                              <p className="font-medium">{formatCurrency(allocation, currency)}</p>
                               {allocationType === "prorated" && (
                                 <p className="text-xs text-muted-foreground">prorated</p>
                               )}
@@ -344,10 +362,10 @@ export function BudgetAllocationDialog({
             <Alert>
               <DollarSign className="h-4 w-4" />
               <AlertDescription>
-                Total allocation: ${getTotalAllocation().toLocaleString()} 
+                Total allocation: {formatCurrency(getTotalAllocation(), currency)} 
                 {getTotalAllocation() > availableBudget && (
                   <span className="text-red-600 ml-2">
-                    (Exceeds available budget by ${(getTotalAllocation() - availableBudget).toLocaleString()})
+                    (Exceeds available budget by {formatCurrency((getTotalAllocation() - availableBudget), currency)})
                   </span>
                 )}
               </AlertDescription>
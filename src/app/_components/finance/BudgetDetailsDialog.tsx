@@ -32,9 +32,35 @@ import {
 } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import { formatCurrency } from "@/lib/utils/parsing";
 import { toast } from "sonner";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+interface BudgetForecastData {
+  currency: string;
+  projectedTotal: number;
+  lowerBound: number;
+  upperBound: number;
+  monthlyRunRate: number;
+  scheduledRemaining: number;
+  seasonalityApplied: boolean;
+  confidence: "low" | "medium" | "high";
+  expectedOverrun: { date: string; amount: number } | null;
+  points: Array<{ month: string; actual?: number; projected?: number; lower?: number; upper?: number }>;
+}
 
 interface BudgetDetailsDialogProps {
   budget: any;
@@ -59,6 +85,11 @@ export function BudgetDetailsDialog({
     budgetId: budget._id,
   });
 
+  // Fetch end-of-period projection
+  const forecast: BudgetForecastData | undefined = useQuery(api.forecasting.forecasts.getBudgetForecast, {
+    budgetId: budget._id,
+  });
+
   const updateBudget = useMutation(api.budgets.updateBudget);
   const acknowledgeAlert = useMutation(api.budgets.acknowledgeAlert);
 
@@ -74,6 +105,11 @@ export function BudgetDetailsDialog({
     }
   };
 
+  // Amounts are in the budget's currency; the reporting currency equivalent
+  // is shown alongside when they differ
+  const currency: string = budget.currency ?? analytics?.currency ?? "USD";
+  const converted = analytics?.converted && analytics.reportingCurrency !== currency ? analytics.converted : null;
+
   const progress = (budget.spentAmount / budget.totalBudget) * 100;
   const remaining = budget.totalBudget - budget.spentAmount;
   const daysRemaining = Math.ceil(
@@ -139,14 +175,26 @@ export function BudgetDetailsDialog({
                     <div className="flex justify-between mb-2">
                       <span className="text-sm font-medium">Total Budget</span>
                       <span className="text-sm font-bold">
-                        ${budget.totalBudget.toLocaleString()}
+                        {formatCurrency(budget.totalBudget, currency)}
                       </span>
                     </div>
                     <Progress value={progress} className="h-3" />
                     <div className="flex justify-between mt-2 text-xs text-muted-foreground">
                       <span>{progress.toFixed(1)}% used</span>
-                      <span>${remaining.toLocaleString()} remaining</span>
+                      <span>{formatCurrency(remaining, currency)} remaining</span>
                     </div>
+                    {converted && analytics && (
+                      <p className="mt-2 text-xs text-muted-foreground">
+                        {formatCurrency(converted.totalBudget, analytics.reportingCurrency)} total,{" "}
+                        {formatCurrency(converted.spentAmount, analytics.reportingCurrency)} spent in {analytics.reportingCurrency}
+                        {converted.rateDate && ` (rate ${converted.rate.toFixed(4)} as of ${converted.rateDate})`}
+                      </p>
+                    )}
+                    {analytics && !analytics.converted && analytics.reportingCurrency !== currency && (
+                      <p className="mt-2 text-xs text-yellow-600">
+                        No {currency}/{analytics.reportingCurrency} exchange rate; import FX rates to see reporting currency totals
+                      </p>
+                    )}
                   </div>
 
                   <Separator />
@@ -155,7 +203,7 @@ export function BudgetDetailsDialog({
                     <div>
                       <p className="text-sm text-muted-foreground">Allocated</p>
                       <p className="text-xl font-semibold">
-                        ${budget.allocatedAmount.toLocaleString()}
+                        {formatCurrency(budget.allocatedAmount, currency)}
                       </p>
                       <p className="text-xs text-muted-foreground">
                         {((budget.allocatedAmount / budget.totalBudget) * 100).toFixed(1)}% of budget
@@ -164,7 +212,7 @@ export function BudgetDetailsDialog({
                     <div>
                       <p className="text-sm text-muted-foreground">Spent</p>
                       <p className="text-xl font-semibold">
-                        ${budget.spentAmount.toLocaleString()}
+                        {formatCurrency(budget.spentAmount, currency)}
                       </p>
                       <p className="text-xs text-muted-foreground">
                         {((budget.spentAmount / budget.allocatedAmount) * 100).toFixed(1)}% of allocated
@@ -178,7 +226,7 @@ export function BudgetDetailsDialog({
                     <div>
                       <p className="text-sm text-muted-foreground">Committed</p>
                       <p className="text-xl font-semibold">
-                        ${budget.committedAmount.toLocaleString()}
+                        {formatCurrency(budget.committedAmount, currency)}
                       </p>
                       <p className="text-xs text-muted-foreground">
                         Future spending from contracts
@@ -187,7 +235,7 @@ export function BudgetDetailsDialog({
                     <div>
                       <p className="text-sm text-muted-foreground">Available</p>
                       <p className="text-xl font-semibold">
-                        ${(budget.totalBudget - budget.allocatedAmount - budget.committedAmount).toLocaleString()}
+                        {formatCurrency((budget.totalBudget - budget.allocatedAmount - budget.committedAmount), currency)}
                       </p>
                       <p className="text-xs text-muted-foreground">
                         For new allocations
@@ -219,7 +267,7 @@ export function BudgetDetailsDialog({
                           <span className="text-sm">Daily Burn Rate</span>
                         </div>
                         <span className="text-xl font-semibold">
-                          ${analytics.burnRate.daily.toLocaleString()}
+                          {formatCurrency(analytics.burnRate.daily, currency)}
                         </span>
                       </div>
 
@@ -236,9 +284,16 @@ export function BudgetDetailsDialog({
                               : "text-green-600"
                           )}
                         >
-                          ${analytics.projectedTotal.toLocaleString()}
+                          {formatCurrency(analytics.projectedTotal, currency)}
                         </span>
                       </div>
+
+                      {converted && (
+                        <div className="flex items-center justify-between text-sm text-muted-foreground">
+                          <span>Projected Total ({analytics.reportingCurrency})</span>
+                          <span>{formatCurrency(converted.projectedTotal, analytics.reportingCurrency)}</span>
+                        </div>
+                      )}
                     </>
                   )}
                 </CardContent>
@@ -269,8 +324,13 @@ export function BudgetDetailsDialog({
                         <div>
                           <p className="text-muted-foreground">Allocated</p>
                           <p className="font-medium">
-                            ${allocation.allocatedAmount.toLocaleString()}
+                            {formatCurrency(allocation.allocatedAmount, currency)}
                           </p>
+                          {allocation.originalCurrency && allocation.originalAmount !== undefined && (
+                            <p className="text-xs text-muted-foreground">
+                              from {formatCurrency(allocation.originalAmount, allocation.originalCurrency)}
+                            </p>
+                          )}
                         </div>
                         <div>
                           <p className="text-muted-foreground">Period</p>
@@ -316,13 +376,13 @@ export function BudgetDetailsDialog({
                         <div>
                           <p className="text-sm text-muted-foreground">Weekly Average</p>
                           <p className="text-xl font-semibold">
-                            ${analytics.burnRate.weekly.toLocaleString()}
+                            {formatCurrency(analytics.burnRate.weekly, currency)}
                           </p>
                         </div>
                         <div>
                           <p className="text-sm text-muted-foreground">Monthly Average</p>
                           <p className="text-xl font-semibold">
-                            ${analytics.burnRate.monthly.toLocaleString()}
+                            {formatCurrency(analytics.burnRate.monthly, currency)}
                           </p>
                         </div>
                       </div>
@@ -335,7 +395,7 @@ export function BudgetDetailsDialog({
                           <div key={category.name} className="flex justify-between items-center py-1">
                             <span className="text-sm">{category.name}</span>
                             <span className="text-sm font-medium">
-                              ${category.amount.toLocaleString()} ({category.percentage.toFixed(1)}%)
+                              {formatCurrency(category.amount, currency)} ({category.percentage.toFixed(1)}%)
                             </span>
                           </div>
                         ))}
@@ -346,22 +406,70 @@ export function BudgetDetailsDialog({
                   <Card>
                     <CardHeader>
                       <CardTitle>Forecast</CardTitle>
+                      {forecast && (
+                        <CardDescription>
+                          Run rate, {forecast.seasonalityApplied ? "seasonality, " : ""}and scheduled contract payments •{" "}
+                          {forecast.confidence} confidence
+                        </CardDescription>
+                      )}
                     </CardHeader>
-                    <CardContent>
+                    <CardContent className="space-y-4">
+                      {forecast && forecast.points.length > 0 && (
+                        <ResponsiveContainer width="100%" height={240}>
+                          <ComposedChart
+                            data={forecast.points.map((point) => ({
+                              ...point,
+                              band: point.lower !== undefined && point.upper !== undefined
+                                ? [point.lower, point.upper]
+                                : undefined,
+                            }))}
+                          >
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="month" />
+                            <YAxis tickFormatter={(value: number) => formatCurrency(value, currency)} width={90} />
+                            <RechartsTooltip formatter={(value) => Array.isArray(value)
+                              ? value.map((v) => formatCurrency(Number(v), currency)).join(" - ")
+                              : formatCurrency(Number(value), currency)}
+                            />
+                            <Legend />
+                            <Area dataKey="band" name="80% range" stroke="none" fill="#60a5fa" fillOpacity={0.2} />
+                            <Line dataKey="actual" name="Actual" stroke="#10b981" strokeWidth={2} dot={false} />
+                            <Line dataKey="projected" name="Projected" stroke="#3b82f6" strokeDasharray="5 5" strokeWidth={2} dot={false} />
+                            <ReferenceLine y={budget.totalBudget} stroke="#ef4444" label="Budget" />
+                          </ComposedChart>
+                        </ResponsiveContainer>
+                      )}
                       <div className="space-y-3">
                         <div className="flex justify-between items-center">
                           <span className="text-sm">Projected End Date Spending</span>
                           <span
                             className={cn(
                               "font-semibold",
-                              analytics.projectedTotal > budget.totalBudget
+                              (forecast?.projectedTotal ?? analytics.projectedTotal) > budget.totalBudget
                                 ? "text-red-600"
                                 : "text-green-600"
                             )}
                           >
-                            ${analytics.projectedTotal.toLocaleString()}
+                            {formatCurrency(forecast?.projectedTotal ?? analytics.projectedTotal, currency)}
                           </span>
                         </div>
+                        {forecast && (
+                          <div className="flex justify-between items-center">
+                            <span className="text-sm">Likely Range</span>
+                            <span className="font-semibold">
+                              {formatCurrency(forecast.lowerBound, currency)} - {formatCurrency(forecast.upperBound, currency)}
+                            </span>
+                          </div>
+                        )}
+                        {forecast?.expectedOverrun && (
+                          <div className="flex justify-between items-center">
+                            <span className="text-sm">Expected Overrun</span>
+                            <span className="font-semibold text-red-600">
+                              {formatCurrency(forecast.expectedOverrun.amount, currency)} from{" "}
+                              {format(new Date(forecast.expectedOverrun.date), "MMM d, yyyy")}
+                            </span>
+                          </div>
+                        )}
                         <div className="flex justify-between items-center">
                           <span className="text-sm">Days Until Budget Exhausted</span>
                           <span className="font-semibold">
@@ -371,7 +479,7 @@ export function BudgetDetailsDialog({
                         <div className="flex justify-between items-center">
                           <span className="text-sm">Recommended Daily Limit</span>
                           <span className="font-semibold">
-                            ${analytics.recommendedDailyLimit.toLocaleString()}
+                            {formatCurrency(analytics.recommendedDailyLimit, currency)}
                           </span>
                         </div>
                       </div>
@@ -407,6 +515,10 @@ export function BudgetDetailsDialog({
                             </CardTitle>
                             <CardDescription>
                               {format(new Date(alert.triggeredAt), "PPP")}
+                              {alert.type === "forecast_exceed" && alert.expectedOverrunDate && (
+                                <> • Projected to exceed by {formatCurrency(alert.expectedOverrunAmount ?? 0, currency)} from{" "}
+                                  {format(new Date(alert.expectedOverrunDate), "MMM d, yyyy")}</>
+                              )}
                             </CardDescription>
                           </div>
                         </div>
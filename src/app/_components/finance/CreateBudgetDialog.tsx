@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { useMutation, useQuery } from "convex/react";
 import { api } from "../../../../convex/_generated/api";
+import { Id } from "../../../../convex/_generated/dataModel";
 import {
   Dialog,
   DialogContent,
@@ -42,12 +43,14 @@ interface CreateBudgetDialogProps {
 export function CreateBudgetDialog({ open, onOpenChange }: CreateBudgetDialogProps) {
   const createBudget = useMutation(api.budgets.createBudget);
   const departments = useQuery(api.departments.getDepartments, {});
+  const currencySettings = useQuery(api.currency.fxRates.getCurrencySettings, {});
 
   const [formData, setFormData] = useState({
     name: "",
     budgetType: "monthly" as "annual" | "quarterly" | "monthly" | "project" | "department",
     departmentId: "",
     totalBudget: "",
+    currency: "",
     description: "",
   });
 
@@ -81,8 +84,9 @@ export function CreateBudgetDialog({ open, onOpenChange }: CreateBudgetDialogPro
       await createBudget({
         name: formData.name,
         budgetType: formData.budgetType,
-        departmentId: formData.departmentId || undefined,
+        departmentId: (formData.departmentId || undefined) as Id<"departments"> | undefined,
         totalBudget: budget,
+        currency: formData.currency || undefined,
         startDate: format(dateRange.from, "yyyy-MM-dd"),
         endDate: format(dateRange.to, "yyyy-MM-dd"),
         description: formData.description || undefined,
@@ -97,6 +101,7 @@ export function CreateBudgetDialog({ open, onOpenChange }: CreateBudgetDialogPro
         budgetType: "monthly",
         departmentId: "",
         totalBudget: "",
+        currency: "",
         description: "",
       });
     } catch (error) {
@@ -190,7 +195,7 @@ export function CreateBudgetDialog({ open, onOpenChange }: CreateBudgetDialogPro
                 <SelectContent>
                   {departments.map((dept) => (
                     <SelectItem key={dept._id} value={dept._id}>
-                      {dept.name}
+                      {dept.path.join(" / ")}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -198,12 +203,9 @@ export function CreateBudgetDialog({ open, onOpenChange }: CreateBudgetDialogPro
             </div>
           )}
 
-          <div>
-            <Label htmlFor="amount">Total Budget Amount *</Label>
-            <div className="relative mt-1">
-              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
-                $
-              </span>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2">
+              <Label htmlFor="amount">Total Budget Amount *</Label>
               <Input
                 id="amount"
                 type="number"
@@ -212,11 +214,29 @@ export function CreateBudgetDialog({ open, onOpenChange }: CreateBudgetDialogPro
                   setFormData({ ...formData, totalBudget: e.target.value })
                 }
                 placeholder="0.00"
-                className="pl-7"
+                className="mt-1"
                 step="0.01"
                 min="0"
               />
             </div>
+            <div>
+              <Label>Currency</Label>
+              <Select
+                value={formData.currency || currencySettings?.reportingCurrency || "USD"}
+                onValueChange={(value) => setFormData({ ...formData, currency: value })}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(currencySettings?.supportedCurrencies ?? ["USD"]).map((code: string) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <div>
@@ -2,6 +2,7 @@
 
 import React, { useState, useMemo } from 'react';
 import { format, formatDistanceToNow, isAfter, addHours } from 'date-fns';
+import { useQuery, useMutation } from 'convex/react';
 import { 
   CheckCircle, 
   XCircle, 
@@ -39,6 +40,8 @@ import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
 import { showToast } from '../common/ToastNotifications';
 import { usePermissions } from '../auth/PermissionGate';
+import { api } from '../../../../convex/_generated/api';
+import { Id } from '../../../../convex/_generated/dataModel';
 
 // Approval request types
 export interface ApprovalRequest {
@@ -91,71 +94,74 @@ export interface ApprovalRequest {
   }[];
 }
 
-// Mock data for demonstration
-const mockApprovalRequests: ApprovalRequest[] = [
-  {
-    id: '1',
-    title: 'Software License Agreement - Microsoft Enterprise',
-    description: 'Annual Microsoft 365 Enterprise license renewal for 150 users',
+// Shape returned by getMyPendingApprovals
+interface PendingApproval {
+  step: {
+    _id: string;
+    name: string;
+    order: number;
+    requiredApprovals: number;
+    activatedAt?: string;
+    dueAt?: string;
+    escalatedAt?: string;
+  };
+  instance: {
+    workflowId: string;
+    requestedBy: string;
+    requestedAt: string;
+    comments?: string;
+  };
+  contract: { _id: string; title: string };
+  requester: { _id: string; name: string; email: string } | null;
+  decisions: {
+    userId: string;
+    userName: string;
+    userEmail: string;
+    decision: 'approved' | 'rejected' | 'changes_requested';
+    comment?: string;
+    decidedAt: string;
+  }[];
+  isOverdue: boolean;
+}
+
+// Map a workflow step awaiting the current user's decision onto an approval request
+function toApprovalRequest(item: PendingApproval, currentUserId: string | undefined): ApprovalRequest {
+  const { step, instance, contract, requester } = item;
+  const dueDate = step.dueAt ? new Date(step.dueAt) : undefined;
+  const dueWithinDay = !!dueDate && dueDate.getTime() - Date.now() < 24 * 60 * 60 * 1000;
+
+  return {
+    id: step._id,
+    title: `${contract.title} - ${step.name}`,
+    ...(instance.comments ? { description: instance.comments } : {}),
     type: 'contract',
-    entityId: 'contract_123',
-    priority: 'high',
+    entityId: contract._id,
+    priority: item.isOverdue || step.escalatedAt ? 'urgent' : dueWithinDay ? 'high' : 'medium',
     status: 'pending',
-    requestedBy: {
-      id: 'user_1',
-      name: 'Sarah Johnson',
-      email: 'sarah.j@company.com'
-    },
+    requestedBy: requester
+      ? { id: requester._id, name: requester.name, email: requester.email }
+      : { id: instance.requestedBy, name: 'Unknown user', email: '' },
     approvers: [
-      {
-        id: 'user_2',
-        name: 'John Smith',
-        email: 'john.s@company.com',
-        status: 'pending'
-      },
-      {
-        id: 'user_3',
-        name: 'Lisa Chen',
-        email: 'lisa.c@company.com',
-        status: 'approved',
-        respondedAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
-        comment: 'Approved - pricing looks reasonable'
-      }
-    ],
-    requiredApprovals: 2,
-    currentApprovals: 1,
-    createdAt: new Date(Date.now() - 6 * 60 * 60 * 1000),
-    dueDate: new Date(Date.now() + 18 * 60 * 60 * 1000),
-    workflowId: 'workflow_1',
-    workflowStep: 2
-  },
-  {
-    id: '2',
-    title: 'New Vendor Registration - TechCorp Solutions',
-    description: 'Adding new IT services vendor to approved vendor list',
-    type: 'vendor',
-    entityId: 'vendor_456',
-    priority: 'medium',
-    status: 'pending',
-    requestedBy: {
-      id: 'user_4',
-      name: 'Mike Davis',
-      email: 'mike.d@company.com'
-    },
-    approvers: [
-      {
-        id: 'user_5',
-        name: 'Anna Wilson',
-        email: 'anna.w@company.com',
-        status: 'pending'
-      }
+      ...item.decisions.map(decision => ({
+        id: decision.userId,
+        name: decision.userName,
+        email: decision.userEmail,
+        status: decision.decision === 'approved' ? 'approved' as const : 'rejected' as const,
+        respondedAt: new Date(decision.decidedAt),
+        ...(decision.comment ? { comment: decision.comment } : {}),
+      })),
+      ...(currentUserId
+        ? [{ id: currentUserId, name: 'You', email: '', status: 'pending' as const }]
+        : []),
     ],
-    requiredApprovals: 1,
-    currentApprovals: 0,
-    createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000),
-    dueDate: new Date(Date.now() + 48 * 60 * 60 * 1000)
-  }
-];
+    requiredApprovals: step.requiredApprovals,
+    currentApprovals: item.decisions.filter(decision => decision.decision === 'approved').length,
+    createdAt: new Date(step.activatedAt ?? instance.requestedAt),
+    ...(dueDate ? { dueDate } : {}),
+    workflowId: instance.workflowId,
+    workflowStep: step.order,
+  };
+}
 
 // Priority colors
 const priorityColors = {
@@ -176,7 +182,7 @@ const statusColors = {
 
 // Approval queue props
 export interface ApprovalQueueProps {
-  requests?: ApprovalRequest[];
+  requests?: ApprovalRequest[]; // Defaults to the current user's pending workflow approvals
   onApprove?: (requestId: string, comment?: string) => Promise<void>;
   onReject?: (requestId: string, comment: string) => Promise<void>;
   onEscalate?: (requestId: string, reason: string) => Promise<void>;
@@ -185,7 +191,7 @@ export interface ApprovalQueueProps {
 }
 
 const ApprovalQueueComponent: React.FC<ApprovalQueueProps> = ({
-  requests = mockApprovalRequests,
+  requests: providedRequests,
   onApprove,
   onReject,
   onEscalate,
@@ -193,6 +199,18 @@ const ApprovalQueueComponent: React.FC<ApprovalQueueProps> = ({
   className
 }) => {
   const { userData } = usePermissions();
+  const pendingApprovals = useQuery(
+    api.workflows.approvalWorkflows.getMyPendingApprovals,
+    providedRequests ? 'skip' : {}
+  );
+  const approveStep = useMutation(api.workflows.approvalWorkflows.approveStep);
+  const rejectStep = useMutation(api.workflows.approvalWorkflows.rejectStep);
+  const requestStepChanges = useMutation(api.workflows.approvalWorkflows.requestChanges);
+
+  const requests = useMemo<ApprovalRequest[]>(
+    () => providedRequests ?? ((pendingApprovals ?? []) as PendingApproval[]).map(item => toApprovalRequest(item, userData?._id)),
+    [providedRequests, pendingApprovals, userData]
+  );
   const [selectedRequest, setSelectedRequest] = useState<ApprovalRequest | null>(null);
   const [isDetailDialogOpen, setIsDetailDialogOpen] = useState(false);
   const [filter, setFilter] = useState<'all' | 'pending' | 'requiring_action'>('all');
@@ -266,10 +284,15 @@ const ApprovalQueueComponent: React.FC<ApprovalQueueProps> = ({
 
   // Handle approval actions
   const handleApprove = async (request: ApprovalRequest) => {
-    if (!onApprove) return;
-    
     try {
-      await onApprove(request.id, actionComment);
+      if (onApprove) {
+        await onApprove(request.id, actionComment);
+      } else {
+        await approveStep({
+          stepId: request.id as Id<'approvalWorkflowSteps'>,
+          ...(actionComment.trim() ? { comment: actionComment.trim() } : {}),
+        });
+      }
       showToast.success('Request approved successfully', {});
       setActionComment('');
       setIsDetailDialogOpen(false);
@@ -279,13 +302,17 @@ const ApprovalQueueComponent: React.FC<ApprovalQueueProps> = ({
   };
 
   const handleReject = async (request: ApprovalRequest) => {
-    if (!onReject || !actionComment.trim()) {
+    if (!actionComment.trim()) {
       showToast.warning('Please provide a reason for rejection', {});
       return;
     }
     
     try {
-      await onReject(request.id, actionComment);
+      if (onReject) {
+        await onReject(request.id, actionComment);
+      } else {
+        await rejectStep({ stepId: request.id as Id<'approvalWorkflowSteps'>, comment: actionComment.trim() });
+      }
       showToast.success('Request rejected', {});
       setActionComment('');
       setIsDetailDialogOpen(false);
@@ -294,6 +321,23 @@ const ApprovalQueueComponent: React.FC<ApprovalQueueProps> = ({
     }
   };
 
+  // Send a workflow approval back to the requester
+  const handleRequestChanges = async (request: ApprovalRequest) => {
+    if (!actionComment.trim()) {
+      showToast.warning('Please describe the changes required', {});
+      return;
+    }
+
+    try {
+      await requestStepChanges({ stepId: request.id as Id<'approvalWorkflowSteps'>, comment: actionComment.trim() });
+      showToast.success('Changes requested', {});
+      setActionComment('');
+      setIsDetailDialogOpen(false);
+    } catch (error) {
+      showToast.error('Failed to request changes', {});
+    }
+  };
+
   // Get time status for a request
   const getTimeStatus = (request: ApprovalRequest) => {
     if (!request.dueDate) return null;
@@ -567,6 +611,16 @@ const ApprovalQueueComponent: React.FC<ApprovalQueueProps> = ({
                   <XCircle className="h-4 w-4 mr-2" />
                   Reject
                 </Button>
+                {!providedRequests && (
+                  <Button
+                    variant="outline"
+                    onClick={() => handleRequestChanges(selectedRequest)}
+                    disabled={!actionComment.trim()}
+                  >
+                    <MessageSquare className="h-4 w-4 mr-2" />
+                    Request Changes
+                  </Button>
+                )}
                 <Button onClick={() => handleApprove(selectedRequest)}>
                   <CheckCircle className="h-4 w-4 mr-2" />
                   Approve
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState, useCallback, useMemo } from 'react';
+import { useMutation } from 'convex/react';
 import { 
   Play, 
   Square, 
@@ -35,6 +36,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
 import { cn } from '@/lib/utils';
 import { showToast } from '../common/ToastNotifications';
+import { api } from '../../../../convex/_generated/api';
+import { Id } from '../../../../convex/_generated/dataModel';
+import type { ApprovalType } from '../../../../convex/schema';
+import { designerNodesToWorkflowSteps } from '@/lib/workflow-steps';
 
 // Workflow node types
 export type WorkflowNodeType = 'start' | 'approval' | 'condition' | 'action' | 'end';
@@ -47,7 +52,7 @@ export interface WorkflowNode {
   description?: string;
   position: { x: number; y: number };
   data: {
-    approvers?: string[];
+    approvers?: string[]; // Role names (e.g. "manager") or user ids
     requiredApprovals?: number;
     condition?: string;
     action?: string;
@@ -69,6 +74,8 @@ export interface Workflow {
   description?: string;
   category: 'contract' | 'vendor' | 'general';
   status: 'draft' | 'active' | 'inactive';
+  approvalType?: ApprovalType;
+  savedWorkflowId?: Id<'approvalWorkflows'>; // Set once persisted as an approval workflow
   nodes: WorkflowNode[];
   trigger: {
     type: 'manual' | 'automatic';
@@ -148,6 +155,9 @@ export const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
   const [draggedNodeType, setDraggedNodeType] = useState<WorkflowNodeType | null>(null);
   const [isConnecting, setIsConnecting] = useState<string | null>(null);
 
+  const createApprovalWorkflow = useMutation(api.workflows.approvalWorkflows.createWorkflow);
+  const updateApprovalWorkflow = useMutation(api.workflows.approvalWorkflows.updateWorkflow);
+
   // Add node to workflow
   const addNode = useCallback((type: WorkflowNodeType, position: { x: number; y: number }) => {
     const newNode: WorkflowNode = {
@@ -220,15 +230,33 @@ export const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
     setDraggedNodeType(null);
   }, [draggedNodeType, addNode]);
 
+  // Persist the designed graph as an approval workflow definition
+  const saveApprovalWorkflow = async (current: Workflow) => {
+    const fields = {
+      name: current.name,
+      ...(current.description ? { description: current.description } : {}),
+      steps: designerNodesToWorkflowSteps(current.nodes),
+      isActive: current.status === 'active',
+    };
+
+    if (current.savedWorkflowId) {
+      await updateApprovalWorkflow({ workflowId: current.savedWorkflowId, ...fields });
+    } else {
+      const { id } = await createApprovalWorkflow({
+        ...fields,
+        approvalType: current.approvalType ?? 'new_contract',
+      });
+      setWorkflow(prev => ({ ...prev, savedWorkflowId: id }));
+    }
+  };
+
   // Handle save
   const handleSave = async () => {
-    if (!onSave) return;
-
     try {
-      await onSave(workflow);
+      await (onSave ?? saveApprovalWorkflow)(workflow);
       showToast.success('Workflow saved successfully', {});
     } catch (error) {
-      showToast.error('Failed to save workflow', {});
+      showToast.error(error instanceof Error ? error.message : 'Failed to save workflow', {});
     }
   };
 
@@ -380,6 +408,20 @@ export const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
             <TabsContent value="settings" className="space-y-4">
               {selectedNode.type === 'approval' && (
                 <>
+                  <div>
+                    <Label>Approvers</Label>
+                    <Input
+                      placeholder="e.g., manager, admin"
+                      value={(selectedNode.data.approvers || []).join(', ')}
+                      onChange={(e) => updateNode(selectedNode.id, {
+                        data: { ...selectedNode.data, approvers: e.target.value.split(',').map(a => a.trim()) }
+                      })}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Roles (owner, admin, manager, user) or user IDs, separated by commas
+                    </p>
+                  </div>
+
                   <div>
                     <Label>Required Approvals</Label>
                     <Input
@@ -418,7 +460,7 @@ export const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
                 <div>
                   <Label>Condition Logic</Label>
                   <Textarea
-                    placeholder="e.g., contract.value > 10000"
+                    placeholder="e.g., contract.value > 10000 or vendor.category in technology, legal"
                     value={selectedNode.data.condition || ''}
                     onChange={(e) => updateNode(selectedNode.id, {
                       data: { ...selectedNode.data, condition: e.target.value }
@@ -470,6 +512,21 @@ export const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
                     />
                     <Label>Enable escalation</Label>
                   </div>
+                  {selectedNode.data.escalation?.enabled && (
+                    <Input
+                      placeholder="Escalate to, e.g., admin (defaults to admins)"
+                      value={selectedNode.data.escalation.escalateTo.join(', ')}
+                      onChange={(e) => updateNode(selectedNode.id, {
+                        data: {
+                          ...selectedNode.data,
+                          escalation: {
+                            ...selectedNode.data.escalation!,
+                            escalateTo: e.target.value.split(',').map(a => a.trim())
+                          }
+                        }
+                      })}
+                    />
+                  )}
                 </div>
               </div>
             </TabsContent>
@@ -513,6 +570,23 @@ export const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
             <Badge variant={workflow.status === 'active' ? 'default' : 'secondary'}>
               {workflow.status}
             </Badge>
+
+            <Select
+              value={workflow.approvalType ?? 'new_contract'}
+              onValueChange={(value) => setWorkflow(prev => ({ ...prev, approvalType: value as ApprovalType }))}
+              disabled={readonly || !!workflow.savedWorkflowId}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="new_contract">New Contract</SelectItem>
+                <SelectItem value="renewal">Renewal</SelectItem>
+                <SelectItem value="amendment">Amendment</SelectItem>
+                <SelectItem value="termination">Termination</SelectItem>
+                <SelectItem value="budget_exceed">Budget Exceeded</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
 
           <div className="flex items-center gap-2">
@@ -523,7 +597,7 @@ export const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
               </Button>
             )}
             
-            {!readonly && onSave && (
+            {!readonly && (
               <Button onClick={handleSave}>
                 <Save className="h-4 w-4 mr-2" />
                 Save Workflow
@@ -0,0 +1,72 @@
+'use client'
+
+import React from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { useConvexQuery } from '@/lib/api-client';
+import { api } from '../../../../../../convex/_generated/api';
+import { Id } from '../../../../../../convex/_generated/dataModel';
+import DocumentViewer from '@/app/_components/common/DocumentViewer';
+import LoadingSpinner from '@/app/_components/common/LoadingSpinner';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle } from 'lucide-react';
+
+/**
+ * A contract's document, or one of its amendments' (?version=), opened at a
+ * cited passage (?page=&quote=)
+ */
+const ContractDocumentPage = () => {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const contractId = params.id as Id<"contracts">;
+  const versionId = searchParams.get('version') as Id<"contractVersions"> | null;
+  const page = Number(searchParams.get('page')) || 1;
+  const quote = searchParams.get('quote') ?? undefined;
+
+  const { data: document, isLoading, error } = useConvexQuery(
+    api.documents.contractIndex.getCitedDocument,
+    contractId ? { contractId, ...(versionId ? { versionId } : {}) } : "skip"
+  );
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error || !document) {
+    return (
+      <div className="p-6">
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>
+            {error ? `Failed to load document: ${error.message}` : 'Document not found or access denied.'}
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-2">
+      {document.title !== document.contractTitle && (
+        <p className="text-sm text-muted-foreground">{document.contractTitle}</p>
+      )}
+      <DocumentViewer
+        storageId={document.storageId}
+        fileName={document.fileName}
+        fileType={document.fileType}
+        height="h-[75vh]"
+        initialPage={page}
+        {...(document.pageCount ? { pageCount: document.pageCount } : {})}
+        {...(quote ? { highlight: quote } : {})}
+        onClose={() => router.back()}
+      />
+    </div>
+  );
+};
+
+export default ContractDocumentPage;
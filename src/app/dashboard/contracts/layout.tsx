@@ -17,6 +17,7 @@ const contractTypes = [
   { label: "Pending Signature", route: "/contracts/pending" },
   { label: "Drafts", route: "/contracts/drafts" },
   { label: "Expired", route: "/contracts/expired" },
+  { label: "Renewals", route: "/contracts/renewals" },
   { label: "Archived", route: "/contracts/archived" },
 ];
 
@@ -35,6 +36,7 @@ const ContractDashboardLayout: React.FC<ContractDashboardLayoutProps> = ({
       "/contracts/pending": "Pending Signature",
       "/contracts/drafts": "Drafts",
       "/contracts/expired": "Expired",
+      "/contracts/renewals": "Renewals",
       "/contracts/archived": "Archived",
     };
 
@@ -49,6 +49,7 @@ const AllContracts = () => {
     switch (status) {
       case "active": return "bg-green-100 text-green-800";
       case "pending_analysis": return "bg-yellow-100 text-yellow-800";
+      case "pending_approval": return "bg-orange-100 text-orange-800";
       case "draft": return "bg-blue-100 text-blue-800";
       case "expired": return "bg-red-100 text-red-800";
       case "terminated": return "bg-orange-100 text-orange-800";
@@ -307,6 +308,7 @@ const AllContracts = () => {
             <SelectItem value="all" className="hover:bg-accent/50">All Statuses</SelectItem>
             <SelectItem value="draft" className="hover:bg-accent/50">Draft</SelectItem>
             <SelectItem value="pending_analysis" className="hover:bg-accent/50">Pending Analysis</SelectItem>
+            <SelectItem value="pending_approval" className="hover:bg-accent/50">Pending Approval</SelectItem>
             <SelectItem value="active" className="hover:bg-accent/50">Active</SelectItem>
             <SelectItem value="expired" className="hover:bg-accent/50">Expired</SelectItem>
             <SelectItem value="terminated" className="hover:bg-accent/50">Terminated</SelectItem>
@@ -0,0 +1,10 @@
+'use client'
+
+import React from "react";
+import { RenewalCalendar } from "@/app/_components/contracts/RenewalCalendar";
+
+const RenewalsPage = () => {
+  return <RenewalCalendar />;
+};
+
+export default RenewalsPage;
@@ -0,0 +1,223 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { toast } from "sonner";
+import { api } from "../../../../../convex/_generated/api";
+import { Id } from "../../../../../convex/_generated/dataModel";
+import { AlertTriangle, Receipt, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { EmptyState } from "@/components/premium";
+import { formatCurrency } from "@/lib/utils/parsing";
+
+type SpendTab = "all" | "flagged" | "unmatched";
+
+interface SpendRecordRow {
+  _id: Id<"spendRecords">;
+  type: "invoice" | "purchase_order";
+  documentNumber: string;
+  poNumber?: string;
+  vendorName: string;
+  vendorDisplayName?: string;
+  contractTitle?: string;
+  amount: number;
+  currency: string;
+  spendDate: string;
+  matchStatus: "matched" | "vendor_only" | "unmatched";
+  flags: string[];
+}
+
+const CSV_EXAMPLE = "type,number,po_number,vendor,amount,currency,date,description\ninvoice,INV-1001,PO-77,Acme Inc.,12500.00,USD,2026-10-01,October licences";
+
+const FLAG_LABELS: Record<string, string> = {
+  exceeds_contract_pricing: "Exceeds contract",
+  outside_contract_term: "Outside term",
+};
+
+const MATCH_LABELS: Record<string, { label: string; className: string }> = {
+  matched: { label: "Matched", className: "bg-green-500" },
+  vendor_only: { label: "Vendor only", className: "bg-yellow-500" },
+  unmatched: { label: "Unmatched", className: "bg-red-500" },
+};
+
+export default function SpendPage() {
+  const [tab, setTab] = useState<SpendTab>("all");
+  const [csv, setCsv] = useState("");
+  const [defaultType, setDefaultType] = useState<"invoice" | "purchase_order">("invoice");
+  const [isImporting, setIsImporting] = useState(false);
+
+  const records: SpendRecordRow[] | undefined = useQuery(api.spend.spend.getSpendRecords, {
+    ...(tab === "flagged" ? { flaggedOnly: true } : {}),
+    ...(tab === "unmatched" ? { matchStatus: "unmatched" as const } : {}),
+  });
+
+  const importSpendCsv = useMutation(api.spend.spend.importSpendCsv);
+  const deleteSpendRecord = useMutation(api.spend.spend.deleteSpendRecord);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setCsv(await file.text());
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await importSpendCsv({ csv, type: defaultType });
+      toast.success(`Imported ${result.imported}, updated ${result.updated}; ${result.matched} matched to contracts`);
+      if (result.flagged > 0) {
+        toast.warning(`${result.flagged} documents exceed contract pricing or fall outside the contract term`);
+      }
+      if (result.errors.length > 0) {
+        toast.warning(`${result.errors.length} rows skipped: ${result.errors.slice(0, 3).join("; ")}`);
+      }
+      setCsv("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import spend");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDelete = async (spendRecordId: Id<"spendRecords">) => {
+    try {
+      await deleteSpendRecord({ spendRecordId });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete record");
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Spend</h1>
+        <p className="text-muted-foreground mt-1">
+          Supplier invoices and purchase orders matched to contracts and rolled into budgets
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import Invoices and Purchase Orders</CardTitle>
+          <CardDescription>
+            Upload or paste a CSV export. Vendors are matched by name and each document is linked to the contract in force on its date.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="text-sm" />
+            <div className="w-48 space-y-2">
+              <Label>Rows without a type are</Label>
+              <Select value={defaultType} onValueChange={(value) => setDefaultType(value as "invoice" | "purchase_order")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="invoice">Invoices</SelectItem>
+                  <SelectItem value="purchase_order">Purchase orders</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Textarea
+            rows={6}
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+            placeholder={CSV_EXAMPLE}
+            className="font-mono text-xs"
+          />
+          <Button onClick={handleImport} disabled={isImporting || !csv.trim()}>
+            <Upload className="h-4 w-4 mr-2" />
+            {isImporting ? "Importing..." : "Import CSV"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Tabs value={tab} onValueChange={(value) => setTab(value as SpendTab)}>
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          <TabsTrigger value="flagged">Flagged</TabsTrigger>
+          <TabsTrigger value="unmatched">Unmatched</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {records === undefined ? (
+        <Skeleton className="h-64 w-full" />
+      ) : records.length === 0 ? (
+        <EmptyState
+          icon={<Receipt className="h-12 w-12" />}
+          title="No spend records"
+          description={tab === "all" ? "Import invoices or purchase orders to track actual spend" : `No ${tab} documents`}
+        />
+      ) : (
+        <Card>
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Document</TableHead>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead>Contract</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Match</TableHead>
+                  <TableHead>Flags</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {records.map((record) => {
+                  const match = MATCH_LABELS[record.matchStatus]!;
+                  return (
+                    <TableRow key={record._id}>
+                      <TableCell>{record.spendDate}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{record.documentNumber}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {record.type === "invoice" ? "Invoice" : "Purchase order"}
+                          {record.poNumber && ` • ${record.poNumber}`}
+                        </div>
+                      </TableCell>
+                      <TableCell>{record.vendorDisplayName ?? record.vendorName}</TableCell>
+                      <TableCell>{record.contractTitle ?? "—"}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatCurrency(record.amount, record.currency)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={match.className}>{match.label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {record.flags.map((flag) => (
+                            <Badge key={flag} variant="destructive" className="gap-1">
+                              <AlertTriangle className="h-3 w-3" />
+                              {FLAG_LABELS[flag] ?? flag}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(record._id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,15 @@
 'use client';
 
 import { useState } from 'react';
+import { useQuery, useMutation, useConvex } from 'convex/react';
+import { api } from '../../../../../convex/_generated/api';
+import { Id } from '../../../../../convex/_generated/dataModel';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -14,6 +18,7 @@ import type { DateRange } from 'react-day-picker';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { 
   Shield,
+  ShieldCheck,
   Search,
   Download,
   Filter,
@@ -29,88 +34,84 @@ import {
   Eye
 } from 'lucide-react';
 import { toast } from 'sonner';
-import { format } from 'date-fns';
+import { format, endOfDay, startOfDay } from 'date-fns';
+
+interface AuditLogRow {
+  _id: Id<'auditLogs'>;
+  timestamp: string;
+  userName: string;
+  operation: string;
+  resourceType: string;
+  resourceId?: string;
+  action: string;
+  status: 'success' | 'failure';
+  errorMessage?: string;
+  ipAddress?: string;
+  sequence?: number;
+}
+
+interface AuditActor {
+  _id: Id<'users'>;
+  name: string;
+  email: string;
+}
+
+interface ChainIssue {
+  sequence: number;
+  problem: string;
+  detail: string;
+}
+
+interface ChainCheck {
+  valid: boolean;
+  checkedEntries: number;
+  headSequence: number;
+  issues: ChainIssue[];
+  verifiedAt: string;
+}
+
+type ExportFormat = 'jsonl' | 'csv';
+
+const ALL = 'all';
+
+const MAX_LISTED_ISSUES = 10;
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
 
 export default function AuditSettingsPage() {
-  const [isLoading, setIsLoading] = useState(false);
+  const convex = useConvex();
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedUser, setSelectedUser] = useState('all');
-  const [selectedAction, setSelectedAction] = useState('all');
+  const [selectedUser, setSelectedUser] = useState(ALL);
+  const [resourceType, setResourceType] = useState('');
+  const [resourceId, setResourceId] = useState('');
   const [dateRange, setDateRange] = useState<DateRange | undefined>();
-  
-  // Audit log entries
-  const auditLogs = [
-    {
-      id: 1,
-      timestamp: new Date('2024-01-15T10:30:00'),
-      user: 'John Doe',
-      userId: 'user_123',
-      action: 'contract.created',
-      resource: 'Software License Agreement',
-      resourceId: 'contract_456',
-      details: 'Created new contract with TechCorp',
-      ipAddress: '192.168.1.100',
-      userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      result: 'success',
-      riskLevel: 'low'
-    },
-    {
-      id: 2,
-      timestamp: new Date('2024-01-15T10:25:00'),
-      user: 'Jane Smith',
-      userId: 'user_789',
-      action: 'user.login',
-      resource: 'Authentication System',
-      resourceId: 'auth_001',
-      details: 'User logged in successfully',
-      ipAddress: '10.0.0.50',
-      userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-      result: 'success',
-      riskLevel: 'low'
-    },
-    {
-      id: 3,
-      timestamp: new Date('2024-01-15T10:20:00'),
-      user: 'Admin User',
-      userId: 'user_admin',
-      action: 'settings.updated',
-      resource: 'Security Settings',
-      resourceId: 'settings_security',
-      details: 'Updated two-factor authentication settings',
-      ipAddress: '192.168.1.1',
-      userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      result: 'success',
-      riskLevel: 'medium'
-    },
-    {
-      id: 4,
-      timestamp: new Date('2024-01-15T10:15:00'),
-      user: 'Unknown User',
-      userId: 'unknown',
-      action: 'user.login',
-      resource: 'Authentication System',
-      resourceId: 'auth_001',
-      details: 'Failed login attempt with invalid credentials',
-      ipAddress: '203.0.113.195',
-      userAgent: 'curl/7.68.0',
-      result: 'failure',
-      riskLevel: 'high'
-    },
-    {
-      id: 5,
-      timestamp: new Date('2024-01-15T10:10:00'),
-      user: 'John Doe',
-      userId: 'user_123',
-      action: 'contract.updated',
-      resource: 'Vendor Agreement',
-      resourceId: 'contract_789',
-      details: 'Updated contract terms and conditions',
-      ipAddress: '192.168.1.100',
-      userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      result: 'success',
-      riskLevel: 'low'
-    }
-  ];
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('jsonl');
+  const [isExporting, setIsExporting] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [chainCheck, setChainCheck] = useState<ChainCheck | null>(null);
+
+  const filters = {
+    ...(selectedUser !== ALL ? { userId: selectedUser as Id<'users'> } : {}),
+    ...(resourceType.trim() ? { resourceType: resourceType.trim() } : {}),
+    ...(resourceId.trim() ? { resourceId: resourceId.trim() } : {}),
+    ...(dateRange?.from ? { startDate: startOfDay(dateRange.from).toISOString() } : {}),
+    ...(dateRange?.from ? { endDate: endOfDay(dateRange.to ?? dateRange.from).toISOString() } : {}),
+  };
+
+  const auditLogs = useQuery(api.auditLogging.getAuditLogs, { filters, limit: 100 });
+  const actors: AuditActor[] | undefined = useQuery(api.audit.auditIntegrity.getAuditActors, {});
+  const exportAuditLog = useMutation(api.audit.auditIntegrity.exportAuditLog);
+
 
   // Security events for the security tab
   const securityEvents = [
@@ -149,16 +150,52 @@ export default function AuditSettingsPage() {
     }
   ];
 
-  const handleSearch = () => {
-    toast.success('Search filters applied');
-  };
 
-  const handleExportLogs = () => {
-    toast.success('Audit logs export started');
+  const handleExportLogs = async () => {
+    setIsExporting(true);
+    try {
+      const result = await exportAuditLog({ format: exportFormat, ...filters });
+      downloadFile(result.filename, result.content, exportFormat === 'csv' ? 'text/csv' : 'application/x-ndjson');
+      downloadFile(
+        `${result.filename}.sig.json`,
+        JSON.stringify({ algorithm: result.algorithm, signature: result.signature, manifest: result.manifest }, null, 2),
+        'application/json'
+      );
+      toast.success(`Exported ${result.manifest.entryCount} audit entries`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export audit logs');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
-  const handleViewDetails = (logId: number) => {
-    toast.success(`Viewing details for audit log ${logId}`);
+  // Walks the whole chain, one batch per query
+  const handleVerifyChain = async () => {
+    setIsVerifying(true);
+    try {
+      const issues: ChainIssue[] = [];
+      let checkedEntries = 0;
+      let afterSequence: number | undefined;
+      let result;
+      do {
+        result = await convex.query(api.audit.auditIntegrity.verifyAuditLog, afterSequence === undefined ? {} : { afterSequence });
+        issues.push(...result.issues);
+        checkedEntries += result.checkedEntries;
+        afterSequence = result.nextSequence ?? undefined;
+      } while (result.nextSequence !== null);
+
+      setChainCheck({
+        valid: issues.length === 0,
+        checkedEntries,
+        headSequence: result.headSequence,
+        issues,
+        verifiedAt: result.verifiedAt,
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to verify the audit chain');
+    } finally {
+      setIsVerifying(false);
+    }
   };
 
   const getResultBadge = (result: string) => {
@@ -167,26 +204,11 @@ export default function AuditSettingsPage() {
         return <Badge variant="default" className="bg-green-100 text-green-800">Success</Badge>;
       case 'failure':
         return <Badge variant="destructive">Failure</Badge>;
-      case 'warning':
-        return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Warning</Badge>;
       default:
         return <Badge variant="secondary">Unknown</Badge>;
     }
   };
 
-  const getRiskBadge = (level: string) => {
-    switch (level) {
-      case 'low':
-        return <Badge variant="outline" className="border-green-200 text-green-700">Low</Badge>;
-      case 'medium':
-        return <Badge variant="outline" className="border-yellow-200 text-yellow-700">Medium</Badge>;
-      case 'high':
-        return <Badge variant="outline" className="border-red-200 text-red-700">High</Badge>;
-      default:
-        return <Badge variant="outline">Unknown</Badge>;
-    }
-  };
-
   const getSeverityBadge = (severity: string) => {
     switch (severity) {
       case 'low':
@@ -202,24 +224,20 @@ export default function AuditSettingsPage() {
     }
   };
 
-  const getActionIcon = (action: string) => {
-    if (action.includes('login')) return <User className="h-4 w-4" />;
-    if (action.includes('contract')) return <FileText className="h-4 w-4" />;
-    if (action.includes('settings')) return <Settings className="h-4 w-4" />;
+  const getActionIcon = (resourceType: string) => {
+    if (resourceType === 'users') return <User className="h-4 w-4" />;
+    if (resourceType.includes('contract')) return <FileText className="h-4 w-4" />;
+    if (resourceType.includes('settings') || resourceType === 'enterprises') return <Settings className="h-4 w-4" />;
     return <Activity className="h-4 w-4" />;
   };
 
-  const filteredLogs = auditLogs.filter(log => {
-    const matchesSearch = searchTerm === '' || 
-      log.action.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      log.resource.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      log.details.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      log.user.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesUser = selectedUser === 'all' || log.userId === selectedUser;
-    const matchesAction = selectedAction === 'all' || log.action.includes(selectedAction);
-    
-    return matchesSearch && matchesUser && matchesAction;
+  const filteredLogs = ((auditLogs?.logs ?? []) as AuditLogRow[]).filter(log => {
+    const search = searchTerm.toLowerCase();
+    return searchTerm === '' ||
+      log.operation.toLowerCase().includes(search) ||
+      log.resourceType.toLowerCase().includes(search) ||
+      (log.resourceId ?? '').toLowerCase().includes(search) ||
+      log.userName.toLowerCase().includes(search);
   });
 
   return (
@@ -239,6 +257,49 @@ export default function AuditSettingsPage() {
         </TabsList>
 
         <TabsContent value="audit" className="space-y-6">
+          {/* Chain Integrity */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Chain Integrity
+              </CardTitle>
+              <CardDescription>
+                Every audit entry is linked to the one before it by a hash, so edited or deleted entries are detected.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Button onClick={handleVerifyChain} disabled={isVerifying}>
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                {isVerifying ? 'Verifying...' : 'Verify Audit Chain'}
+              </Button>
+
+              {chainCheck && (
+                <Alert variant={chainCheck.valid ? 'default' : 'destructive'}>
+                  {chainCheck.valid ? <CheckCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+                  <AlertTitle>
+                    {chainCheck.valid
+                      ? `All ${chainCheck.checkedEntries} entries verified`
+                      : `${chainCheck.issues.length} integrity issue${chainCheck.issues.length === 1 ? '' : 's'} found`}
+                  </AlertTitle>
+                  <AlertDescription>
+                    <p>Checked up to entry {chainCheck.headSequence} at {new Date(chainCheck.verifiedAt).toLocaleString()}.</p>
+                    {chainCheck.issues.length > 0 && (
+                      <ul className="mt-2 list-disc pl-5 space-y-1">
+                        {chainCheck.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                          <li key={index}>{issue.detail}</li>
+                        ))}
+                        {chainCheck.issues.length > MAX_LISTED_ISSUES && (
+                          <li>and {chainCheck.issues.length - MAX_LISTED_ISSUES} more</li>
+                        )}
+                      </ul>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Audit Logs Filters */}
           <Card>
             <CardHeader>
@@ -247,54 +308,44 @@ export default function AuditSettingsPage() {
                 Filter Audit Logs
               </CardTitle>
               <CardDescription>
-                Search and filter audit logs by various criteria.
+                Filter by actor, resource and time range. Exports use the same filters and come with a signature file.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="search">Search</Label>
-                  <div className="relative">
-                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="search"
-                      placeholder="Search logs..."
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
-                      className="pl-10"
-                    />
-                  </div>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="user-filter">User</Label>
+                  <Label htmlFor="user-filter">Actor</Label>
                   <Select value={selectedUser} onValueChange={setSelectedUser}>
-                    <SelectTrigger>
+                    <SelectTrigger id="user-filter">
                       <SelectValue placeholder="Select user" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="all">All Users</SelectItem>
-                      <SelectItem value="user_123">John Doe</SelectItem>
-                      <SelectItem value="user_789">Jane Smith</SelectItem>
-                      <SelectItem value="user_admin">Admin User</SelectItem>
+                      <SelectItem value={ALL}>All Users</SelectItem>
+                      {(actors ?? []).map((actor) => (
+                        <SelectItem key={actor._id} value={actor._id}>{actor.name}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="action-filter">Action Type</Label>
-                  <Select value={selectedAction} onValueChange={setSelectedAction}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select action" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Actions</SelectItem>
-                      <SelectItem value="login">Login Events</SelectItem>
-                      <SelectItem value="contract">Contract Actions</SelectItem>
-                      <SelectItem value="settings">Settings Changes</SelectItem>
-                      <SelectItem value="user">User Management</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <Label htmlFor="resource-type">Resource Type</Label>
+                  <Input
+                    id="resource-type"
+                    placeholder="e.g. contracts"
+                    value={resourceType}
+                    onChange={(e) => setResourceType(e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="resource-id">Resource ID</Label>
+                  <Input
+                    id="resource-id"
+                    placeholder="Any"
+                    value={resourceId}
+                    onChange={(e) => setResourceId(e.target.value)}
+                  />
                 </div>
 
                 <div className="space-y-2">
@@ -326,14 +377,22 @@ export default function AuditSettingsPage() {
                 </div>
               </div>
 
-              <div className="flex gap-2">
-                <Button onClick={handleSearch}>
-                  <Search className="h-4 w-4 mr-2" />
-                  Apply Filters
-                </Button>
-                <Button variant="outline" onClick={handleExportLogs}>
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="export-format">Export Format</Label>
+                  <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                    <SelectTrigger id="export-format" className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="jsonl">JSONL</SelectItem>
+                      <SelectItem value="csv">CSV</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button variant="outline" onClick={handleExportLogs} disabled={isExporting}>
                   <Download className="h-4 w-4 mr-2" />
-                  Export Logs
+                  {isExporting ? 'Exporting...' : 'Export Signed Logs'}
                 </Button>
               </div>
             </CardContent>
@@ -347,65 +406,73 @@ export default function AuditSettingsPage() {
                 Audit Logs
               </CardTitle>
               <CardDescription>
-                Detailed log of all user activities and system events.
+                The most recent 100 entries matching the filters.
               </CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
+              <div className="relative max-w-sm">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="search"
+                  placeholder="Search logs..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead>#</TableHead>
                     <TableHead>Timestamp</TableHead>
                     <TableHead>User</TableHead>
-                    <TableHead>Action</TableHead>
+                    <TableHead>Operation</TableHead>
                     <TableHead>Resource</TableHead>
                     <TableHead>Result</TableHead>
-                    <TableHead>Risk Level</TableHead>
                     <TableHead>IP Address</TableHead>
-                    <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {filteredLogs.map((log) => (
-                    <TableRow key={log.id}>
+                    <TableRow key={log._id}>
+                      <TableCell className="font-mono text-xs text-muted-foreground">
+                        {log.sequence ?? '—'}
+                      </TableCell>
                       <TableCell className="text-sm">
-                        {log.timestamp.toLocaleString()}
+                        {new Date(log.timestamp).toLocaleString()}
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <User className="h-4 w-4 text-muted-foreground" />
-                          <span className="font-medium">{log.user}</span>
+                          <span className="font-medium">{log.userName}</span>
                         </div>
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
-                          {getActionIcon(log.action)}
-                          <code className="text-sm bg-muted px-1 rounded">{log.action}</code>
+                          {getActionIcon(log.resourceType)}
+                          <code className="text-sm bg-muted px-1 rounded">{log.operation}</code>
                         </div>
                       </TableCell>
                       <TableCell>
                         <div className="space-y-1">
-                          <div className="font-medium">{log.resource}</div>
-                          <div className="text-sm text-muted-foreground">{log.details}</div>
+                          <div className="font-medium">{log.resourceType}</div>
+                          {log.resourceId && (
+                            <div className="text-sm text-muted-foreground font-mono">{log.resourceId}</div>
+                          )}
+                          {log.errorMessage && (
+                            <div className="text-sm text-destructive">{log.errorMessage}</div>
+                          )}
                         </div>
                       </TableCell>
-                      <TableCell>{getResultBadge(log.result)}</TableCell>
-                      <TableCell>{getRiskBadge(log.riskLevel)}</TableCell>
-                      <TableCell className="font-mono text-sm">{log.ipAddress}</TableCell>
-                      <TableCell>
-                        <Button 
-                          variant="ghost" 
-                          size="sm"
-                          onClick={() => handleViewDetails(log.id)}
-                        >
-                          <Eye className="h-4 w-4" />
-                        </Button>
-                      </TableCell>
+                      <TableCell>{getResultBadge(log.status)}</TableCell>
+                      <TableCell className="font-mono text-sm">{log.ipAddress ?? '—'}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
 
-              {filteredLogs.length === 0 && (
+              {auditLogs && filteredLogs.length === 0 && (
                 <div className="text-center py-8 text-muted-foreground">
                   <Shield className="h-12 w-12 mx-auto mb-4 opacity-50" />
                   <p>No audit logs found matching your criteria.</p>
@@ -603,4 +670,4 @@ export default function AuditSettingsPage() {
       </Tabs>
     </div>
   );
-}
\ No newline at end of file
+}
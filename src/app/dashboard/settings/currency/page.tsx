@@ -0,0 +1,208 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { toast } from 'sonner';
+import { api } from '../../../../../convex/_generated/api';
+import { Id } from '../../../../../convex/_generated/dataModel';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RefreshCw, Trash2, Upload } from 'lucide-react';
+
+interface FxRateRow {
+  _id: Id<'fxRates'>;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  rateDate: string;
+  source: 'csv' | 'provider' | 'manual';
+}
+
+const CSV_EXAMPLE = 'base,quote,rate,date\nEUR,USD,1.0870,2026-10-01\nGBP,USD,1.2650,2026-10-01';
+
+export default function CurrencySettingsPage() {
+  const [csv, setCsv] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [isLoadingProvider, setIsLoadingProvider] = useState(false);
+
+  const settings = useQuery(api.currency.fxRates.getCurrencySettings, {});
+  const rates: FxRateRow[] | undefined = useQuery(api.currency.fxRates.getFxRates, {});
+
+  const setReportingCurrency = useMutation(api.currency.fxRates.setReportingCurrency);
+  const importFxRates = useMutation(api.currency.fxRates.importFxRates);
+  const loadProviderRates = useMutation(api.currency.fxRates.loadProviderRates);
+  const deleteFxRate = useMutation(api.currency.fxRates.deleteFxRate);
+
+  const handleReportingCurrencyChange = async (currency: string) => {
+    try {
+      await setReportingCurrency({ currency });
+      toast.success(`Budgets and analytics now report in ${currency}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update reporting currency');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setCsv(await file.text());
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await importFxRates({ csv });
+      toast.success(`Imported ${result.imported} rates, updated ${result.updated}`);
+      if (result.errors.length > 0) {
+        toast.warning(`${result.errors.length} rows skipped: ${result.errors.slice(0, 3).join('; ')}`);
+      }
+      setCsv('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import rates');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleLoadProviderRates = async () => {
+    setIsLoadingProvider(true);
+    try {
+      const result = await loadProviderRates({});
+      toast.success(`Loaded ${result.imported + result.updated} ${result.baseCurrency} rates for ${result.rateDate}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load provider rates');
+    } finally {
+      setIsLoadingProvider(false);
+    }
+  };
+
+  const handleDelete = async (rateId: Id<'fxRates'>) => {
+    try {
+      await deleteFxRate({ rateId });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete rate');
+    }
+  };
+
+  if (!settings) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Reporting Currency</CardTitle>
+          <CardDescription>
+            Contract values and budgets in other currencies are converted into this currency for totals and analytics.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="max-w-xs space-y-2">
+            <Label>Currency</Label>
+            <Select value={settings.reportingCurrency} onValueChange={handleReportingCurrencyChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {settings.supportedCurrencies.map((code: string) => (
+                  <SelectItem key={code} value={code}>
+                    {code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import Exchange Rates</CardTitle>
+          <CardDescription>
+            Upload or paste a CSV of dated rates. Each conversion uses the latest rate on or before its date.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="text-sm" />
+          <Textarea
+            rows={6}
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+            placeholder={CSV_EXAMPLE}
+            className="font-mono text-xs"
+          />
+          <div className="flex gap-2">
+            <Button onClick={handleImport} disabled={isImporting || !csv.trim()}>
+              <Upload className="h-4 w-4 mr-2" />
+              {isImporting ? 'Importing...' : 'Import CSV'}
+            </Button>
+            <Button variant="outline" onClick={handleLoadProviderRates} disabled={isLoadingProvider}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              {isLoadingProvider ? 'Loading...' : "Load Today's Provider Rates"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Exchange Rates</CardTitle>
+          <CardDescription>
+            {settings.lastRateImportAt
+              ? `Last updated ${new Date(settings.lastRateImportAt).toLocaleString()}`
+              : 'No rates loaded yet'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rates && rates.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Pair</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((rate) => (
+                  <TableRow key={rate._id}>
+                    <TableCell>{rate.rateDate}</TableCell>
+                    <TableCell>{rate.baseCurrency}/{rate.quoteCurrency}</TableCell>
+                    <TableCell className="text-right font-mono">{rate.rate.toFixed(6)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="capitalize">{rate.source}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(rate._id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Amounts already in the reporting currency are used as-is; import rates to convert other currencies.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { toast } from 'sonner';
+import { api } from '../../../../../convex/_generated/api';
+import { Id } from '../../../../../convex/_generated/dataModel';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface DepartmentRow {
+  _id: Id<'departments'>;
+  name: string;
+  path: string[];
+  depth: number;
+  costCenterCode?: string;
+  parentDepartmentId?: Id<'departments'>;
+  headUserId?: Id<'users'>;
+  headName?: string;
+  memberCount: number;
+}
+
+interface DepartmentUserRow {
+  _id: Id<'users'>;
+  name: string;
+  email: string;
+  role: string;
+  departmentId?: Id<'departments'>;
+}
+
+// Radix Select items cannot have an empty value
+const NONE = 'none';
+
+export default function DepartmentSettingsPage() {
+  const [name, setName] = useState('');
+  const [costCenterCode, setCostCenterCode] = useState('');
+  const [parentDepartmentId, setParentDepartmentId] = useState(NONE);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const departments: DepartmentRow[] | undefined = useQuery(api.departments.getDepartments, {});
+  const users: DepartmentUserRow[] | undefined = useQuery(api.departments.getDepartmentUsers, {});
+
+  const createDepartment = useMutation(api.departments.createDepartment);
+  const updateDepartment = useMutation(api.departments.updateDepartment);
+  const deleteDepartment = useMutation(api.departments.deleteDepartment);
+  const assignUserToDepartment = useMutation(api.departments.assignUserToDepartment);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      await createDepartment({
+        name,
+        ...(costCenterCode.trim() ? { costCenterCode } : {}),
+        ...(parentDepartmentId !== NONE ? { parentDepartmentId: parentDepartmentId as Id<'departments'> } : {}),
+      });
+      toast.success(`Created ${name.trim()}`);
+      setName('');
+      setCostCenterCode('');
+      setParentDepartmentId(NONE);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create department');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleHeadChange = async (departmentId: Id<'departments'>, value: string) => {
+    try {
+      await updateDepartment({ departmentId, headUserId: value === NONE ? null : value as Id<'users'> });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update department');
+    }
+  };
+
+  const handleDelete = async (departmentId: Id<'departments'>) => {
+    try {
+      await deleteDepartment({ departmentId });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete department');
+    }
+  };
+
+  const handleAssign = async (userId: Id<'users'>, value: string) => {
+    try {
+      await assignUserToDepartment({ userId, departmentId: value === NONE ? null : value as Id<'departments'> });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to assign user');
+    }
+  };
+
+  if (!departments) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Department</CardTitle>
+          <CardDescription>
+            Managers see contracts and budgets of their own department and every department below it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="w-64 space-y-2">
+              <Label>Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Accounts Payable" />
+            </div>
+            <div className="w-40 space-y-2">
+              <Label>Cost center</Label>
+              <Input value={costCenterCode} onChange={(e) => setCostCenterCode(e.target.value)} placeholder="CC-4100" />
+            </div>
+            <div className="w-64 space-y-2">
+              <Label>Parent</Label>
+              <Select value={parentDepartmentId} onValueChange={setParentDepartmentId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None (top level)</SelectItem>
+                  {departments.map((department) => (
+                    <SelectItem key={department._id} value={department._id}>
+                      {department.path.join(' / ')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleCreate} disabled={isCreating || !name.trim()}>
+              <Plus className="h-4 w-4 mr-2" />
+              {isCreating ? 'Adding...' : 'Add Department'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Departments</CardTitle>
+          <CardDescription>Departments with members, contracts or budgets must be emptied before deletion.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {departments.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Cost center</TableHead>
+                  <TableHead>Head</TableHead>
+                  <TableHead className="text-right">Members</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {departments.map((department) => (
+                  <TableRow key={department._id}>
+                    <TableCell style={{ paddingLeft: `${1 + department.depth * 1.5}rem` }}>{department.name}</TableCell>
+                    <TableCell>
+                      {department.costCenterCode ? <Badge variant="outline">{department.costCenterCode}</Badge> : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {users ? (
+                        <Select
+                          value={department.headUserId ?? NONE}
+                          onValueChange={(value) => handleHeadChange(department._id, value)}
+                        >
+                          <SelectTrigger className="w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NONE}>No head</SelectItem>
+                            {users.map((user) => (
+                              <SelectItem key={user._id} value={user._id}>{user.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        department.headName ?? '—'
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{department.memberCount}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(department._id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No departments yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {users && users.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Members</CardTitle>
+            <CardDescription>Assign each user to the department they work in.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Department</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user) => (
+                  <TableRow key={user._id}>
+                    <TableCell>
+                      <div className="font-medium">{user.name}</div>
+                      <div className="text-xs text-muted-foreground">{user.email}</div>
+                    </TableCell>
+                    <TableCell className="capitalize">{user.role}</TableCell>
+                    <TableCell>
+                      <Select value={user.departmentId ?? NONE} onValueChange={(value) => handleAssign(user._id, value)}>
+                        <SelectTrigger className="w-64">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>Unassigned</SelectItem>
+                          {departments.map((department) => (
+                            <SelectItem key={department._id} value={department._id}>
+                              {department.path.join(' / ')}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
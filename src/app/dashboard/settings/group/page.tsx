@@ -0,0 +1,518 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { toast } from 'sonner';
+import { api } from '../../../../../convex/_generated/api';
+import { Id } from '../../../../../convex/_generated/dataModel';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatCurrency } from '@/lib/utils/parsing';
+import { Send } from 'lucide-react';
+
+type GrantScope = 'reporting' | 'policies';
+
+interface EnterpriseGroup {
+  enterprise: { _id: Id<'enterprises'>; name: string };
+  parent: { _id: Id<'enterprises'>; name: string } | null;
+  parentGrant: { scopes: GrantScope[]; grantedAt: string } | null;
+  inherited: { clauses: number; workflows: number; notificationRules: boolean };
+  children: Array<{
+    _id: Id<'enterprises'>;
+    name: string;
+    reportingCurrency?: string;
+    scopes: GrantScope[];
+    grantedAt?: string;
+  }>;
+}
+
+interface ConsolidatedOverview {
+  currency: string;
+  spendSince: string;
+  enterprises: Array<{
+    enterpriseId: Id<'enterprises'>;
+    name: string;
+    isParent: boolean;
+    contracts: number;
+    activeContracts: number;
+    contractValue: number;
+    spend: number;
+    budgets: number;
+    totalBudget: number;
+    spentAmount: number;
+    unconverted: number;
+  }>;
+  totals: {
+    contracts: number;
+    activeContracts: number;
+    contractValue: number;
+    spend: number;
+    totalBudget: number;
+    spentAmount: number;
+  };
+}
+
+interface VendorOverlapResult {
+  currency: string;
+  enterprises: number;
+  vendors: Array<{
+    vendorKey: string;
+    vendorName: string;
+    enterprises: Array<{ enterpriseId: string; enterpriseName: string; contracts: number; contractValue: number; spend: number }>;
+    contracts: number;
+    contractValue: number;
+    spend: number;
+  }>;
+}
+
+interface ConsolidatedBudgets {
+  currency: string;
+  budgets: Array<{
+    budgetId: Id<'budgets'>;
+    enterpriseName: string;
+    name: string;
+    status: string;
+    originalCurrency: string;
+    totalBudget: number | null;
+    spentAmount: number | null;
+    utilization: number;
+    expectedOverrunDate?: string;
+  }>;
+  totals: { totalBudget: number; spentAmount: number; atRisk: number };
+}
+
+interface NotificationRuleSettings {
+  rules: { renewalReminderOffsets: number[]; obligationReminderDaysBefore: number };
+  isCustom: boolean;
+  inheritedFrom: { _id: Id<'enterprises'>; name: string } | null;
+}
+
+const SCOPE_LABELS: Record<GrantScope, string> = {
+  reporting: 'Consolidated reporting',
+  policies: 'Policy inheritance',
+};
+
+export default function GroupSettingsPage() {
+  const group: EnterpriseGroup | undefined = useQuery(api.consolidation.consolidation.getEnterpriseGroup, {});
+  const hasChildren = !!group && group.children.length > 0;
+
+  if (!group) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <Tabs defaultValue={hasChildren ? 'overview' : 'access'} className="space-y-6">
+      <TabsList>
+        {hasChildren && <TabsTrigger value="overview">Overview</TabsTrigger>}
+        {hasChildren && <TabsTrigger value="vendors">Vendor Overlap</TabsTrigger>}
+        {hasChildren && <TabsTrigger value="budgets">Budgets</TabsTrigger>}
+        <TabsTrigger value="access">Access & Policies</TabsTrigger>
+      </TabsList>
+
+      {hasChildren && (
+        <>
+          <TabsContent value="overview"><OverviewTab /></TabsContent>
+          <TabsContent value="vendors"><VendorOverlapTab /></TabsContent>
+          <TabsContent value="budgets"><BudgetsTab /></TabsContent>
+        </>
+      )}
+      <TabsContent value="access" className="space-y-6">
+        {group.parent && <ParentAccessCard group={group} />}
+        {hasChildren && <PushPoliciesCard group={group} />}
+        <NotificationRulesCard />
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+function OverviewTab() {
+  const overview: ConsolidatedOverview | undefined = useQuery(api.consolidation.consolidation.getConsolidatedOverview, {});
+  if (!overview) return <Skeleton className="h-64 w-full" />;
+
+  const { currency, totals } = overview;
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Consolidated Overview ({currency})</CardTitle>
+        <CardDescription>
+          Your organization and every subsidiary that granted reporting access. Spend is invoiced since {overview.spendSince}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Organization</TableHead>
+              <TableHead className="text-right">Contracts</TableHead>
+              <TableHead className="text-right">Contract value</TableHead>
+              <TableHead className="text-right">Spend</TableHead>
+              <TableHead className="text-right">Budget</TableHead>
+              <TableHead className="text-right">Budget spent</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {overview.enterprises.map((row) => (
+              <TableRow key={row.enterpriseId}>
+                <TableCell>
+                  <span className="font-medium">{row.name}</span>
+                  {row.isParent && <Badge variant="outline" className="ml-2">Parent</Badge>}
+                  {row.unconverted > 0 && (
+                    <div className="text-xs text-muted-foreground">{row.unconverted} amounts without an exchange rate left out</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{row.activeContracts} / {row.contracts}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.contractValue, currency)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.spend, currency)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.totalBudget, currency)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.spentAmount, currency)}</TableCell>
+              </TableRow>
+            ))}
+            <TableRow className="font-semibold">
+              <TableCell>Group total</TableCell>
+              <TableCell className="text-right">{totals.activeContracts} / {totals.contracts}</TableCell>
+              <TableCell className="text-right">{formatCurrency(totals.contractValue, currency)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(totals.spend, currency)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(totals.totalBudget, currency)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(totals.spentAmount, currency)}</TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function VendorOverlapTab() {
+  const overlap: VendorOverlapResult | undefined = useQuery(api.consolidation.consolidation.getVendorOverlap, {});
+  if (!overlap) return <Skeleton className="h-64 w-full" />;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Vendor Overlap</CardTitle>
+        <CardDescription>
+          Vendors contracted or invoiced by more than one of the {overlap.enterprises} organizations in your group,
+          candidates for a group-wide agreement.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {overlap.vendors.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Vendor</TableHead>
+                <TableHead>Organizations</TableHead>
+                <TableHead className="text-right">Contracts</TableHead>
+                <TableHead className="text-right">Contract value</TableHead>
+                <TableHead className="text-right">Spend</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {overlap.vendors.map((vendor) => (
+                <TableRow key={vendor.vendorKey}>
+                  <TableCell className="font-medium">{vendor.vendorName}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {vendor.enterprises.map((entry) => (
+                        <Badge key={entry.enterpriseId} variant="secondary">
+                          {entry.enterpriseName}: {formatCurrency(entry.contractValue, overlap.currency)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{vendor.contracts}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(vendor.contractValue, overlap.currency)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(vendor.spend, overlap.currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No vendor is shared between organizations of your group.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function BudgetsTab() {
+  const result: ConsolidatedBudgets | undefined = useQuery(api.consolidation.consolidation.getConsolidatedBudgets, {});
+  if (!result) return <Skeleton className="h-64 w-full" />;
+
+  const { currency, totals } = result;
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Consolidated Budgets ({currency})</CardTitle>
+        <CardDescription>
+          {formatCurrency(totals.spentAmount, currency)} spent of {formatCurrency(totals.totalBudget, currency)} across
+          the group; {totals.atRisk} budgets at risk or forecast to overrun.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {result.budgets.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Budget</TableHead>
+                <TableHead>Organization</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Budget</TableHead>
+                <TableHead className="text-right">Spent</TableHead>
+                <TableHead className="text-right">Used</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.budgets.map((budget) => (
+                <TableRow key={budget.budgetId}>
+                  <TableCell>
+                    <div className="font-medium">{budget.name}</div>
+                    {budget.expectedOverrunDate && (
+                      <div className="text-xs text-destructive">Forecast to overrun on {budget.expectedOverrunDate}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{budget.enterpriseName}</TableCell>
+                  <TableCell><Badge variant="outline" className="capitalize">{budget.status.replace('_', ' ')}</Badge></TableCell>
+                  <TableCell className="text-right">
+                    {budget.totalBudget !== null ? formatCurrency(budget.totalBudget, currency) : `No ${budget.originalCurrency} rate`}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {budget.spentAmount !== null ? formatCurrency(budget.spentAmount, currency) : '—'}
+                  </TableCell>
+                  <TableCell className="text-right">{budget.utilization}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No open budgets in your group.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ParentAccessCard({ group }: { group: EnterpriseGroup }) {
+  const [scopes, setScopes] = useState<GrantScope[]>(group.parentGrant?.scopes ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+  const grantParentAccess = useMutation(api.consolidation.consolidation.grantParentAccess);
+  const revokeParentAccess = useMutation(api.consolidation.consolidation.revokeParentAccess);
+
+  const toggle = (scope: GrantScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(existing => existing !== scope));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      if (scopes.length === 0) {
+        await revokeParentAccess({});
+        toast.success(`Revoked ${group.parent!.name}'s access`);
+      } else {
+        await grantParentAccess({ scopes });
+        toast.success(`Updated ${group.parent!.name}'s access`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update access');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const { inherited } = group;
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Parent Organization Access</CardTitle>
+        <CardDescription>
+          {group.parent!.name} sees and changes nothing here unless you grant it. Withdrawing policy inheritance
+          keeps the inherited policies as your own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(Object.keys(SCOPE_LABELS) as GrantScope[]).map((scope) => (
+          <div key={scope} className="flex items-center gap-2">
+            <Checkbox
+              id={`scope-${scope}`}
+              checked={scopes.includes(scope)}
+              onCheckedChange={(checked) => toggle(scope, checked === true)}
+            />
+            <Label htmlFor={`scope-${scope}`}>{SCOPE_LABELS[scope]}</Label>
+          </div>
+        ))}
+        {(inherited.clauses > 0 || inherited.workflows > 0 || inherited.notificationRules) && (
+          <p className="text-sm text-muted-foreground">
+            Inherited from {group.parent!.name}: {inherited.clauses} clauses, {inherited.workflows} approval workflows
+            {inherited.notificationRules ? ' and notification rules' : ''}.
+          </p>
+        )}
+        <Button onClick={handleSave} disabled={isSaving || (!group.parentGrant && scopes.length === 0)}>
+          {isSaving ? 'Saving...' : 'Save Access'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PushPoliciesCard({ group }: { group: EnterpriseGroup }) {
+  const [policies, setPolicies] = useState({ clauseLibrary: true, approvalWorkflows: true, notificationRules: true });
+  const [isPushing, setIsPushing] = useState(false);
+  const pushPolicies = useMutation(api.consolidation.policies.pushPolicies);
+  const granting = group.children.filter(child => child.scopes.includes('policies'));
+
+  const handlePush = async () => {
+    setIsPushing(true);
+    try {
+      const { results } = await pushPolicies(policies);
+      const skipped = results.flatMap((result: { workflowsSkipped: string[] }) => result.workflowsSkipped);
+      toast.success(`Pushed policies to ${results.length} organizations`);
+      if (skipped.length > 0) {
+        toast.warning(`Department-specific workflows were not pushed: ${[...new Set(skipped)].join(', ')}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to push policies');
+    } finally {
+      setIsPushing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Subsidiaries</CardTitle>
+        <CardDescription>
+          Each subsidiary decides what your organization may do. Pushed policies replace earlier pushes and
+          cannot be edited by the subsidiary.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Organization</TableHead>
+              <TableHead>Granted</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {group.children.map((child) => (
+              <TableRow key={child._id}>
+                <TableCell className="font-medium">{child.name}</TableCell>
+                <TableCell>
+                  {child.scopes.length > 0 ? (
+                    <div className="flex gap-1">
+                      {child.scopes.map((scope) => <Badge key={scope} variant="secondary">{SCOPE_LABELS[scope]}</Badge>)}
+                    </div>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">No access</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex flex-wrap items-center gap-4">
+          {([
+            ['clauseLibrary', 'Clause library'],
+            ['approvalWorkflows', 'Approval workflows'],
+            ['notificationRules', 'Notification rules'],
+          ] as const).map(([key, label]) => (
+            <div key={key} className="flex items-center gap-2">
+              <Checkbox
+                id={`push-${key}`}
+                checked={policies[key]}
+                onCheckedChange={(checked) => setPolicies(current => ({ ...current, [key]: checked === true }))}
+              />
+              <Label htmlFor={`push-${key}`}>{label}</Label>
+            </div>
+          ))}
+          <Button
+            onClick={handlePush}
+            disabled={isPushing || granting.length === 0 || !Object.values(policies).some(Boolean)}
+          >
+            <Send className="h-4 w-4 mr-2" />
+            {isPushing ? 'Pushing...' : `Push to ${granting.length} subsidiaries`}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function NotificationRulesCard() {
+  const settings: NotificationRuleSettings | undefined = useQuery(api.consolidation.policies.getNotificationRuleSettings, {});
+  const updateNotificationRules = useMutation(api.consolidation.policies.updateNotificationRules);
+  const [offsets, setOffsets] = useState<string | null>(null);
+  const [daysBefore, setDaysBefore] = useState<string | null>(null);
+
+  if (!settings) return <Skeleton className="h-40 w-full" />;
+
+  const offsetsValue = offsets ?? settings.rules.renewalReminderOffsets.join(', ');
+  const daysBeforeValue = daysBefore ?? String(settings.rules.obligationReminderDaysBefore);
+  const locked = !!settings.inheritedFrom;
+
+  const handleSave = async () => {
+    try {
+      await updateNotificationRules({
+        renewalReminderOffsets: offsetsValue.split(',').map(value => Number(value.trim())).filter(value => !Number.isNaN(value)),
+        obligationReminderDaysBefore: Number(daysBeforeValue),
+      });
+      setOffsets(null);
+      setDaysBefore(null);
+      toast.success('Notification rules saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save notification rules');
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await updateNotificationRules({ renewalReminderOffsets: null, obligationReminderDaysBefore: null });
+      setOffsets(null);
+      setDaysBefore(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reset notification rules');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notification Rules</CardTitle>
+        <CardDescription>
+          {locked
+            ? `Managed by ${settings.inheritedFrom!.name}.`
+            : 'Reminder defaults for new renewals and obligations.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="w-64 space-y-2">
+            <Label>Renewal reminders (days before notice deadline)</Label>
+            <Input value={offsetsValue} disabled={locked} onChange={(e) => setOffsets(e.target.value)} />
+          </div>
+          <div className="w-48 space-y-2">
+            <Label>Obligation reminder (days before)</Label>
+            <Input type="number" value={daysBeforeValue} disabled={locked} onChange={(e) => setDaysBefore(e.target.value)} />
+          </div>
+          <Button onClick={handleSave} disabled={locked}>Save</Button>
+          {settings.isCustom && !locked && (
+            <Button variant="outline" onClick={handleReset}>Restore defaults</Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
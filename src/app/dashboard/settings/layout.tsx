@@ -19,7 +19,14 @@ import {
   Database,
   Key,
   Webhook,
-  Activity
+  Activity,
+  Coins,
+  Network,
+  Building2,
+  UserCog,
+  Fingerprint,
+  Gavel,
+  Archive
 } from 'lucide-react';
 
 interface SettingsLayoutProps {
@@ -59,6 +66,41 @@ const SettingsLayout = ({ children }: SettingsLayoutProps) => {
       permissions: ['admin', 'owner'],
       badge: 'Pro'
     },
+    {
+      label: 'Roles',
+      href: '/dashboard/settings/roles',
+      icon: UserCog,
+      description: 'Custom roles and permissions',
+      permissions: ['admin', 'owner']
+    },
+    {
+      label: 'Single Sign-On',
+      href: '/dashboard/settings/sso',
+      icon: Fingerprint,
+      description: 'SSO enforcement and SCIM provisioning',
+      permissions: ['admin', 'owner']
+    },
+    {
+      label: 'Departments',
+      href: '/dashboard/settings/departments',
+      icon: Network,
+      description: 'Departments and cost centers',
+      permissions: ['admin', 'owner']
+    },
+    {
+      label: 'Group',
+      href: '/dashboard/settings/group',
+      icon: Building2,
+      description: 'Subsidiaries, consolidated reports and policies',
+      permissions: ['admin', 'owner']
+    },
+    {
+      label: 'Currency',
+      href: '/dashboard/settings/currency',
+      icon: Coins,
+      description: 'Reporting currency and FX rates',
+      permissions: ['manager', 'admin', 'owner']
+    },
     {
       label: 'Notifications',
       href: '/dashboard/settings/notifications',
@@ -98,6 +140,20 @@ const SettingsLayout = ({ children }: SettingsLayoutProps) => {
       permissions: ['admin', 'owner'],
       badge: 'Pro'
     },
+    {
+      label: 'Legal Holds',
+      href: '/dashboard/settings/legal-holds',
+      icon: Gavel,
+      description: 'Litigation holds on records',
+      permissions: ['admin', 'owner']
+    },
+    {
+      label: 'Data Retention',
+      href: '/dashboard/settings/retention',
+      icon: Archive,
+      description: 'How long data is kept',
+      permissions: ['admin', 'owner']
+    },
     {
       label: 'Audit Logs',
       href: '/dashboard/settings/audit',
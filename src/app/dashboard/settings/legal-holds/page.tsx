@@ -0,0 +1,356 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { toast } from 'sonner';
+import { api } from '../../../../../convex/_generated/api';
+import { Id } from '../../../../../convex/_generated/dataModel';
+import type { LegalHoldScope } from '@/../convex/schema';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Gavel, History, Unlock } from 'lucide-react';
+
+interface HoldResource {
+  id: string;
+  name: string | null;
+}
+
+interface LegalHoldRow {
+  _id: Id<'legalHolds'>;
+  name: string;
+  matter?: string;
+  reason?: string;
+  scope: LegalHoldScope;
+  startDate?: string;
+  endDate?: string;
+  status: 'active' | 'released';
+  createdAt: string;
+  createdByName: string | null;
+  releasedAt?: string;
+  releaseReason?: string;
+  resources: HoldResource[];
+}
+
+interface HoldCandidate {
+  id: string;
+  name: string;
+}
+
+interface HoldCandidates {
+  contracts: HoldCandidate[];
+  vendors: HoldCandidate[];
+  users: HoldCandidate[];
+}
+
+interface HoldAuditRow {
+  _id: string;
+  operation: string;
+  status: 'success' | 'failure';
+  errorMessage?: string;
+  timestamp: string;
+  userName: string;
+  automated: boolean;
+}
+
+const SCOPE_LABELS: Record<LegalHoldScope, string> = {
+  contracts: 'Contracts',
+  vendors: 'Vendors',
+  users: 'Users',
+  dateRange: 'Date range',
+};
+
+function describeScope(hold: LegalHoldRow): string {
+  if (hold.scope === 'dateRange') {
+    return `${hold.startDate} to ${hold.endDate}`;
+  }
+  return hold.resources.map(resource => resource.name ?? 'Deleted record').join(', ');
+}
+
+function HoldAuditTrail({ holdId }: { holdId: Id<'legalHolds'> }) {
+  const entries: HoldAuditRow[] | undefined = useQuery(api.legalHolds.legalHolds.getLegalHoldAuditTrail, { holdId });
+
+  if (!entries) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          <TableHead>Action</TableHead>
+          <TableHead>By</TableHead>
+          <TableHead>Outcome</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <TableRow key={entry._id}>
+            <TableCell className="text-sm">{new Date(entry.timestamp).toLocaleString()}</TableCell>
+            <TableCell className="font-mono text-xs">{entry.operation}</TableCell>
+            <TableCell className="text-sm">{entry.automated ? 'Scheduled job' : entry.userName}</TableCell>
+            <TableCell className="text-sm">
+              {entry.status === 'failure'
+                ? <span className="text-destructive">Refused: {entry.errorMessage}</span>
+                : 'Recorded'}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function LegalHoldSettingsPage() {
+  const [name, setName] = useState('');
+  const [matter, setMatter] = useState('');
+  const [reason, setReason] = useState('');
+  const [scope, setScope] = useState<LegalHoldScope>('contracts');
+  const [resourceIds, setResourceIds] = useState<string[]>([]);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [releaseReasons, setReleaseReasons] = useState<Record<string, string>>({});
+  const [trailHoldId, setTrailHoldId] = useState<Id<'legalHolds'> | null>(null);
+
+  const holds: LegalHoldRow[] | undefined = useQuery(api.legalHolds.legalHolds.listLegalHolds, {});
+  const candidates: HoldCandidates | undefined = useQuery(api.legalHolds.legalHolds.getLegalHoldCandidates, {});
+
+  const createLegalHold = useMutation(api.legalHolds.legalHolds.createLegalHold);
+  const releaseLegalHold = useMutation(api.legalHolds.legalHolds.releaseLegalHold);
+
+  const handleScopeChange = (value: string) => {
+    setScope(value as LegalHoldScope);
+    setResourceIds([]);
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      await createLegalHold({
+        name,
+        scope,
+        resourceIds: scope === 'dateRange' ? [] : resourceIds,
+        ...(matter.trim() ? { matter } : {}),
+        ...(reason.trim() ? { reason } : {}),
+        ...(scope === 'dateRange' ? { startDate, endDate } : {}),
+      });
+      toast.success(`Placed ${name.trim()} on hold`);
+      setName('');
+      setMatter('');
+      setReason('');
+      setResourceIds([]);
+      setStartDate('');
+      setEndDate('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to place legal hold');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRelease = async (holdId: Id<'legalHolds'>) => {
+    try {
+      await releaseLegalHold({ holdId, reason: releaseReasons[holdId] ?? '' });
+      toast.success('Legal hold released');
+      setReleaseReasons({ ...releaseReasons, [holdId]: '' });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to release legal hold');
+    }
+  };
+
+  if (!holds) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const scopeCandidates = scope === 'dateRange' ? [] : candidates?.[scope] ?? [];
+  const canCreate = !!name.trim() && (scope === 'dateRange' ? !!startDate && !!endDate : resourceIds.length > 0);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Place Legal Hold</CardTitle>
+          <CardDescription>
+            Held records cannot be deleted, anonymized or removed by retention jobs until the hold is released. Holding
+            a user also holds the contracts they own; a date range holds contracts in force and records created within it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Acme v. Pactwise" />
+            </div>
+            <div className="space-y-2">
+              <Label>Matter reference (optional)</Label>
+              <Input value={matter} onChange={(e) => setMatter(e.target.value)} placeholder="LIT-2026-014" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reason (optional)</Label>
+            <Textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={2} />
+          </div>
+
+          <div className="w-64 space-y-2">
+            <Label>Scope</Label>
+            <Select value={scope} onValueChange={handleScopeChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {scope === 'dateRange' ? (
+            <div className="flex gap-4">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+          ) : (
+            <ScrollArea className="h-48 rounded-md border p-3">
+              {scopeCandidates.map((candidate) => (
+                <div key={candidate.id} className="flex items-center gap-2 py-1">
+                  <Checkbox
+                    id={`hold-${candidate.id}`}
+                    checked={resourceIds.includes(candidate.id)}
+                    onCheckedChange={(checked) => setResourceIds(checked === true
+                      ? [...resourceIds, candidate.id]
+                      : resourceIds.filter(id => id !== candidate.id))}
+                  />
+                  <Label htmlFor={`hold-${candidate.id}`}>{candidate.name}</Label>
+                </div>
+              ))}
+              {candidates && scopeCandidates.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nothing to hold yet.</p>
+              )}
+            </ScrollArea>
+          )}
+
+          <Button onClick={handleCreate} disabled={isCreating || !canCreate}>
+            <Gavel className="h-4 w-4 mr-2" />
+            {isCreating ? 'Placing...' : 'Place Hold'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Legal Holds</CardTitle>
+          <CardDescription>Releasing a hold needs a reason, which is kept in its audit trail.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {holds.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Hold</TableHead>
+                  <TableHead>Covers</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {holds.map((hold) => (
+                  <TableRow key={hold._id}>
+                    <TableCell>
+                      <div className="font-medium">{hold.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {[hold.matter, `placed ${new Date(hold.createdAt).toLocaleDateString()} by ${hold.createdByName ?? 'unknown'}`]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <Badge variant="outline" className="mr-2">{SCOPE_LABELS[hold.scope]}</Badge>
+                      {describeScope(hold)}
+                    </TableCell>
+                    <TableCell>
+                      {hold.status === 'active' ? (
+                        <Badge>Active</Badge>
+                      ) : (
+                        <div>
+                          <Badge variant="secondary">Released</Badge>
+                          <div className="text-xs text-muted-foreground mt-1">{hold.releaseReason}</div>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-2">
+                        {hold.status === 'active' && (
+                          <>
+                            <Input
+                              className="w-48"
+                              placeholder="Reason for release"
+                              value={releaseReasons[hold._id] ?? ''}
+                              onChange={(e) => setReleaseReasons({ ...releaseReasons, [hold._id]: e.target.value })}
+                            />
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRelease(hold._id)}
+                              disabled={!releaseReasons[hold._id]?.trim()}
+                            >
+                              <Unlock className="h-4 w-4 mr-1" />
+                              Release
+                            </Button>
+                          </>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setTrailHoldId(trailHoldId === hold._id ? null : hold._id)}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No legal holds yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {trailHoldId && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Audit Trail: {holds.find(hold => hold._id === trailHoldId)?.name}</CardTitle>
+            <CardDescription>When the hold was placed and released, and every action it refused.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <HoldAuditTrail holdId={trailHoldId} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
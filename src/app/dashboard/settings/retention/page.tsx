@@ -0,0 +1,325 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useConvex } from 'convex/react';
+import { toast } from 'sonner';
+import { api } from '../../../../../convex/_generated/api';
+import type { RetentionAction, RetentionDataType } from '@/../convex/schema';
+import {
+  MAX_RETENTION_DAYS,
+  MIN_RETENTION_DAYS,
+  RETENTION_ACTIONS,
+} from '../../../../../convex/retention/retentionRules';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileSearch, Pause, Play, Save } from 'lucide-react';
+
+interface RetentionRuleRow {
+  dataType: RetentionDataType;
+  action: RetentionAction;
+  retentionDays: number;
+}
+
+interface RetentionPolicyView {
+  configured: boolean;
+  rules: RetentionRuleRow[];
+  enforcementEnabled: boolean;
+  enabledAt: string | null;
+  lastEnforcedAt: string | null;
+  updatedAt: string | null;
+}
+
+interface DryRunRow extends RetentionRuleRow {
+  description: string;
+  cutoff: string;
+  affected: number;
+  held: number;
+  truncated: boolean;
+}
+
+interface DryRunReport {
+  generatedAt: string;
+  rows: DryRunRow[];
+  // The saved rules the report was run against
+  rulesUpdatedAt: string | null;
+}
+
+interface RuleDraft {
+  enabled: boolean;
+  action: RetentionAction;
+  retentionDays: string;
+}
+
+const DATA_TYPE_LABELS: Record<RetentionDataType, string> = {
+  contracts: 'Contracts (after expiry)',
+  auditLogs: 'Audit logs',
+  chatSessions: 'Chat sessions',
+  agentLogs: 'Agent logs',
+  memories: 'Agent memories',
+  notifications: 'Notifications',
+};
+
+const ACTION_LABELS: Record<RetentionAction, string> = {
+  archive: 'Archive',
+  anonymize: 'Anonymize',
+  delete: 'Delete',
+};
+
+const DATA_TYPES = Object.keys(DATA_TYPE_LABELS) as RetentionDataType[];
+
+function toDrafts(rules: RetentionRuleRow[], configured: boolean): Record<RetentionDataType, RuleDraft> {
+  const drafts = {} as Record<RetentionDataType, RuleDraft>;
+  for (const dataType of DATA_TYPES) {
+    const rule = rules.find(r => r.dataType === dataType);
+    drafts[dataType] = {
+      // Suggested defaults start unticked until an admin chooses them
+      enabled: configured && !!rule,
+      action: rule?.action ?? RETENTION_ACTIONS[dataType][0]!,
+      retentionDays: String(rule?.retentionDays ?? Math.max(MIN_RETENTION_DAYS[dataType], 365)),
+    };
+  }
+  return drafts;
+}
+
+export default function RetentionSettingsPage() {
+  const convex = useConvex();
+  const [drafts, setDrafts] = useState<Record<RetentionDataType, RuleDraft> | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [dryRun, setDryRun] = useState<DryRunReport | null>(null);
+
+  const policy: RetentionPolicyView | undefined = useQuery(api.retention.retentionPolicies.getRetentionPolicy, {});
+
+  const updateRetentionRules = useMutation(api.retention.retentionPolicies.updateRetentionRules);
+  const enableRetentionEnforcement = useMutation(api.retention.retentionPolicies.enableRetentionEnforcement);
+  const pauseRetentionEnforcement = useMutation(api.retention.retentionPolicies.pauseRetentionEnforcement);
+
+  useEffect(() => {
+    if (!policy) return;
+    setDrafts(toDrafts(policy.rules, policy.configured));
+  }, [policy]);
+
+  const updateDraft = (dataType: RetentionDataType, changes: Partial<RuleDraft>) => {
+    if (!drafts) return;
+    setDrafts({ ...drafts, [dataType]: { ...drafts[dataType], ...changes } });
+  };
+
+  const handleSave = async () => {
+    if (!drafts) return;
+    setIsSaving(true);
+    try {
+      await updateRetentionRules({
+        rules: DATA_TYPES
+          .filter(dataType => drafts[dataType].enabled)
+          .map(dataType => ({
+            dataType,
+            action: drafts[dataType].action,
+            retentionDays: Number(drafts[dataType].retentionDays),
+          })),
+      });
+      setDryRun(null);
+      toast.success('Retention rules saved. Run a dry run to review them before enabling enforcement.');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save retention rules');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDryRun = async () => {
+    setIsRunning(true);
+    try {
+      const result = await convex.query(api.retention.retentionPolicies.getRetentionDryRun, {});
+      setDryRun({ ...result, rulesUpdatedAt: policy?.updatedAt ?? null });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to run dry run');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleToggleEnforcement = async () => {
+    try {
+      if (policy?.enforcementEnabled) {
+        await pauseRetentionEnforcement({});
+        toast.success('Retention enforcement paused');
+      } else {
+        await enableRetentionEnforcement({});
+        toast.success('Retention enforcement enabled');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update enforcement');
+    }
+  };
+
+  if (!policy || !drafts) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-64 w-full" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  const reviewed = !!dryRun && dryRun.rulesUpdatedAt === policy.updatedAt;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Retention Rules</CardTitle>
+          <CardDescription>
+            Choose how long each kind of data is kept and what happens once that time has passed. Data without a rule
+            is kept until it is deleted. Records under legal hold are never touched. Saving pauses enforcement until the
+            new rules have been reviewed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Keep for (days)</TableHead>
+                <TableHead>Then</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {DATA_TYPES.map((dataType) => (
+                <TableRow key={dataType}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`retention-${dataType}`}
+                        checked={drafts[dataType].enabled}
+                        onCheckedChange={(checked) => updateDraft(dataType, { enabled: checked === true })}
+                      />
+                      <Label htmlFor={`retention-${dataType}`}>{DATA_TYPE_LABELS[dataType]}</Label>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      className="w-32"
+                      min={MIN_RETENTION_DAYS[dataType]}
+                      max={MAX_RETENTION_DAYS}
+                      value={drafts[dataType].retentionDays}
+                      disabled={!drafts[dataType].enabled}
+                      onChange={(e) => updateDraft(dataType, { retentionDays: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={drafts[dataType].action}
+                      onValueChange={(value) => updateDraft(dataType, { action: value as RetentionAction })}
+                      disabled={!drafts[dataType].enabled}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RETENTION_ACTIONS[dataType].map((action) => (
+                          <SelectItem key={action} value={action}>{ACTION_LABELS[action]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <Button onClick={handleSave} disabled={isSaving}>
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? 'Saving...' : 'Save Rules'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Enforcement</CardTitle>
+              <CardDescription>
+                Enforcement runs daily. Every record it archives, anonymizes or deletes is written to the audit log.
+              </CardDescription>
+            </div>
+            {policy.enforcementEnabled ? <Badge>Enabled</Badge> : <Badge variant="secondary">Paused</Badge>}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="text-sm text-muted-foreground">
+            {policy.lastEnforcedAt
+              ? `Last run ${new Date(policy.lastEnforcedAt).toLocaleString()}`
+              : 'Enforcement has not run yet.'}
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleDryRun} disabled={isRunning || !policy.configured}>
+              <FileSearch className="h-4 w-4 mr-2" />
+              {isRunning ? 'Running...' : 'Run Dry Run'}
+            </Button>
+            {policy.enforcementEnabled ? (
+              <Button variant="outline" onClick={handleToggleEnforcement}>
+                <Pause className="h-4 w-4 mr-2" />
+                Pause Enforcement
+              </Button>
+            ) : (
+              <Button onClick={handleToggleEnforcement} disabled={!reviewed}>
+                <Play className="h-4 w-4 mr-2" />
+                Enable Enforcement
+              </Button>
+            )}
+          </div>
+          {!policy.enforcementEnabled && (
+            <p className="text-sm text-muted-foreground">
+              Until enforcement is enabled, no data is archived or deleted, including old notifications and agent logs.
+            </p>
+          )}
+          {!policy.configured && (
+            <p className="text-sm text-muted-foreground">Save retention rules to run a dry run.</p>
+          )}
+
+          {dryRun && (
+            <div className="space-y-2">
+              <div className="text-sm text-muted-foreground">
+                What enforcement would do if it ran at {new Date(dryRun.generatedAt).toLocaleString()}
+              </div>
+              {dryRun.rows.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rule</TableHead>
+                      <TableHead>Before</TableHead>
+                      <TableHead className="text-right">Affected</TableHead>
+                      <TableHead className="text-right">Kept by legal hold</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dryRun.rows.map((row) => (
+                      <TableRow key={row.dataType}>
+                        <TableCell className="text-sm">{row.description}</TableCell>
+                        <TableCell className="text-sm">{new Date(row.cutoff).toLocaleDateString()}</TableCell>
+                        <TableCell className="text-right">{row.affected}{row.truncated ? '+' : ''}</TableCell>
+                        <TableCell className="text-right">{row.held}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-muted-foreground">No retention rules are saved.</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
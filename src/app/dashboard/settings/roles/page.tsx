@@ -0,0 +1,299 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { toast } from 'sonner';
+import { api } from '../../../../../convex/_generated/api';
+import { Id } from '../../../../../convex/_generated/dataModel';
+import { contractTypeOptions } from '@/../convex/schema';
+import { PERMISSIONS, Permission } from '@/../convex/security/permissions';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface CustomRoleRow {
+  _id: Id<'customRoles'>;
+  name: string;
+  description?: string;
+  permissions: string[];
+  departmentIds?: Id<'departments'>[];
+  contractTypes?: string[];
+  memberCount: number;
+}
+
+interface RoleMemberRow {
+  _id: Id<'users'>;
+  name: string;
+  email: string;
+  role: string;
+  customRoleId?: Id<'customRoles'>;
+}
+
+interface DepartmentOption {
+  _id: Id<'departments'>;
+  path: string[];
+}
+
+// Radix Select items cannot have an empty value
+const BUILT_IN = 'built-in';
+
+// Permissions grouped by what they act on, e.g. "contracts"
+const PERMISSION_GROUPS = PERMISSIONS.reduce<Record<string, Permission[]>>((groups, permission) => {
+  const area = permission.slice(0, permission.indexOf('.'));
+  (groups[area] ??= []).push(permission);
+  return groups;
+}, {});
+
+function toggleValue<T>(values: T[], value: T, checked: boolean): T[] {
+  return checked ? [...values, value] : values.filter(existing => existing !== value);
+}
+
+export default function RoleSettingsPage() {
+  const [name, setName] = useState('');
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [departmentIds, setDepartmentIds] = useState<Id<'departments'>[]>([]);
+  const [contractTypes, setContractTypes] = useState<Array<typeof contractTypeOptions[number]>>([]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const roles: CustomRoleRow[] | undefined = useQuery(api.security.roles.getCustomRoles, {});
+  const members: RoleMemberRow[] | undefined = useQuery(api.security.roles.getRoleMembers, {});
+  const departments: DepartmentOption[] | undefined = useQuery(api.departments.getDepartments, {});
+
+  const createCustomRole = useMutation(api.security.roles.createCustomRole);
+  const deleteCustomRole = useMutation(api.security.roles.deleteCustomRole);
+  const assignCustomRole = useMutation(api.security.roles.assignCustomRole);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      await createCustomRole({
+        name,
+        permissions,
+        ...(departmentIds.length > 0 ? { departmentIds } : {}),
+        ...(contractTypes.length > 0 ? { contractTypes } : {}),
+      });
+      toast.success(`Created ${name.trim()}`);
+      setName('');
+      setPermissions([]);
+      setDepartmentIds([]);
+      setContractTypes([]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create role');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDelete = async (customRoleId: Id<'customRoles'>) => {
+    try {
+      const result = await deleteCustomRole({ customRoleId });
+      if (result.unassignedUsers > 0) {
+        toast.success(`${result.unassignedUsers} users returned to their built-in role`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete role');
+    }
+  };
+
+  const handleAssign = async (userId: Id<'users'>, value: string) => {
+    try {
+      await assignCustomRole({ userId, customRoleId: value === BUILT_IN ? null : value as Id<'customRoles'> });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to assign role');
+    }
+  };
+
+  if (!roles) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const departmentName = (departmentId: Id<'departments'>) =>
+    departments?.find(department => department._id === departmentId)?.path.join(' / ') ?? 'Unknown department';
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Role</CardTitle>
+          <CardDescription>
+            Users given a custom role hold exactly its permissions instead of their built-in role&apos;s. Limit it to
+            departments or contract types to keep other records out of reach.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="w-64 space-y-2">
+            <Label>Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Procurement Approver" />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {Object.entries(PERMISSION_GROUPS).map(([area, areaPermissions]) => (
+              <div key={area} className="space-y-2">
+                <div className="text-sm font-medium capitalize">{area}</div>
+                {areaPermissions.map((permission) => (
+                  <div key={permission} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`permission-${permission}`}
+                      checked={permissions.includes(permission)}
+                      onCheckedChange={(checked) => setPermissions(toggleValue(permissions, permission, checked === true))}
+                    />
+                    <Label htmlFor={`permission-${permission}`} className="font-mono text-xs">{permission}</Label>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {departments && departments.length > 0 && (
+            <div className="space-y-2">
+              <Label>Departments (all when none selected)</Label>
+              <div className="flex flex-wrap gap-4">
+                {departments.map((department) => (
+                  <div key={department._id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`department-${department._id}`}
+                      checked={departmentIds.includes(department._id)}
+                      onCheckedChange={(checked) => setDepartmentIds(toggleValue(departmentIds, department._id, checked === true))}
+                    />
+                    <Label htmlFor={`department-${department._id}`}>{department.path.join(' / ')}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Contract types (all when none selected)</Label>
+            <div className="flex flex-wrap gap-4">
+              {contractTypeOptions.map((contractType) => (
+                <div key={contractType} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`contract-type-${contractType}`}
+                    checked={contractTypes.includes(contractType)}
+                    onCheckedChange={(checked) => setContractTypes(toggleValue(contractTypes, contractType, checked === true))}
+                  />
+                  <Label htmlFor={`contract-type-${contractType}`} className="uppercase">{contractType}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <Button onClick={handleCreate} disabled={isCreating || !name.trim() || permissions.length === 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            {isCreating ? 'Adding...' : 'Add Role'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Custom Roles</CardTitle>
+          <CardDescription>Deleting a role returns its users to their built-in role.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {roles.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Permissions</TableHead>
+                  <TableHead>Limited to</TableHead>
+                  <TableHead className="text-right">Members</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {roles.map((role) => (
+                  <TableRow key={role._id}>
+                    <TableCell className="font-medium">{role.name}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {role.permissions.map((permission) => (
+                          <Badge key={permission} variant="outline" className="font-mono text-xs">{permission}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {[
+                        ...(role.departmentIds ?? []).map(departmentName),
+                        ...(role.contractTypes ?? []).map(contractType => contractType.toUpperCase()),
+                      ].join(', ') || 'Everything'}
+                    </TableCell>
+                    <TableCell className="text-right">{role.memberCount}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(role._id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No custom roles yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {members && members.length > 0 && roles.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Members</CardTitle>
+            <CardDescription>Owners always keep every permission.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Built-in role</TableHead>
+                  <TableHead>Custom role</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => (
+                  <TableRow key={member._id}>
+                    <TableCell>
+                      <div className="font-medium">{member.name}</div>
+                      <div className="text-xs text-muted-foreground">{member.email}</div>
+                    </TableCell>
+                    <TableCell className="capitalize">{member.role}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={member.customRoleId ?? BUILT_IN}
+                        onValueChange={(value) => handleAssign(member._id, value)}
+                        disabled={member.role === 'owner'}
+                      >
+                        <SelectTrigger className="w-64">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={BUILT_IN}>Built-in role</SelectItem>
+                          {roles.map((role) => (
+                            <SelectItem key={role._id} value={role._id}>{role.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useAction } from 'convex/react';
+import { toast } from 'sonner';
+import { api } from '../../../../../convex/_generated/api';
+import { Id } from '../../../../../convex/_generated/dataModel';
+import { groupRoleOptions, ssoProtocolOptions, GroupRole, SsoProtocol } from '@/../convex/schema';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Copy, Plus, Trash2 } from 'lucide-react';
+
+interface ScimTokenRow {
+  _id: Id<'scimTokens'>;
+  name: string;
+  tokenPrefix: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+interface ScimGroupRow {
+  _id: Id<'scimGroups'>;
+  displayName: string;
+  memberCount: number;
+  role?: GroupRole;
+  customRoleId?: Id<'customRoles'>;
+  departmentId?: Id<'departments'>;
+}
+
+interface GroupMapping {
+  role: GroupRole | null;
+  customRoleId: Id<'customRoles'> | null;
+  departmentId: Id<'departments'> | null;
+}
+
+interface CustomRoleOption {
+  _id: Id<'customRoles'>;
+  name: string;
+}
+
+interface DepartmentOption {
+  _id: Id<'departments'>;
+  path: string[];
+}
+
+// Radix Select items cannot have an empty value
+const NONE = 'none';
+
+const copyToClipboard = async (value: string) => {
+  await navigator.clipboard.writeText(value);
+  toast.success('Copied to clipboard');
+};
+
+export default function SsoSettingsPage() {
+  const [protocol, setProtocol] = useState<SsoProtocol>('saml');
+  const [connectionId, setConnectionId] = useState('');
+  const [required, setRequired] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [tokenName, setTokenName] = useState('');
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const sso = useQuery(api.security.sso.getSsoSettings, {});
+  const provisioning = useQuery(api.scim.provisioning.getProvisioningSettings, {});
+  const customRoles: CustomRoleOption[] | undefined = useQuery(api.security.roles.getCustomRoles, {});
+  const departments: DepartmentOption[] | undefined = useQuery(api.departments.getDepartments, {});
+
+  const updateSsoSettings = useMutation(api.security.sso.updateSsoSettings);
+  const verifySsoDomain = useAction(api.security.sso.verifySsoDomain);
+  const createScimToken = useMutation(api.scim.provisioning.createScimToken);
+  const revokeScimToken = useMutation(api.scim.provisioning.revokeScimToken);
+  const mapScimGroup = useMutation(api.scim.provisioning.mapScimGroup);
+
+  useEffect(() => {
+    if (!sso) return;
+    setProtocol(sso.protocol ?? 'saml');
+    setConnectionId(sso.connectionId ?? '');
+    setRequired(sso.required);
+  }, [sso]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateSsoSettings({ required, protocol, ...(connectionId.trim() ? { connectionId } : {}) });
+      toast.success('Single sign-on settings saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      const result = await verifySsoDomain({});
+      if (result.verified) {
+        toast.success(`${sso?.domain} verified`);
+      } else {
+        toast.error(`No matching TXT record found on ${result.recordName} yet`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to verify domain');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleCreateToken = async () => {
+    try {
+      const result = await createScimToken({ name: tokenName });
+      setNewToken(result.token);
+      setTokenName('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create token');
+    }
+  };
+
+  const handleRevokeToken = async (tokenId: Id<'scimTokens'>) => {
+    try {
+      await revokeScimToken({ tokenId });
+      toast.success('Token revoked');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke token');
+    }
+  };
+
+  const handleMapGroup = async (group: ScimGroupRow, changes: Partial<GroupMapping>) => {
+    try {
+      await mapScimGroup({
+        groupId: group._id,
+        role: group.role ?? null,
+        customRoleId: group.customRoleId ?? null,
+        departmentId: group.departmentId ?? null,
+        ...changes,
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update group');
+    }
+  };
+
+  if (!sso || !provisioning) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-48 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Single Sign-On</CardTitle>
+          <CardDescription>
+            Once {sso.domain ?? 'your domain'} is verified, you can require everyone with an address on it to sign in
+            through your identity provider. Password sign-in and existing password sessions stop working.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!sso.domain ? (
+            <p className="text-sm text-muted-foreground">Set your organization&apos;s domain in Enterprise settings first.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Protocol</Label>
+                  <Select value={protocol} onValueChange={(value) => setProtocol(value as SsoProtocol)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ssoProtocolOptions.map((option) => (
+                        <SelectItem key={option} value={option}>{option.toUpperCase()}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Connection ID</Label>
+                  <Input value={connectionId} onChange={(e) => setConnectionId(e.target.value)} placeholder="samlc_..." />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Label>Domain verification</Label>
+                  {sso.domainVerified ? (
+                    <Badge variant="outline" className="text-green-700 border-green-200">Verified</Badge>
+                  ) : (
+                    <Badge variant="outline">Not verified</Badge>
+                  )}
+                </div>
+                {sso.verificationRecord ? (
+                  <div className="rounded-md border p-3 space-y-1 text-sm">
+                    <div>
+                      Add a TXT record named <span className="font-mono">{sso.verificationRecord.name}</span> with the value
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-xs break-all">{sso.verificationRecord.value}</span>
+                      <Button variant="ghost" size="sm" onClick={() => copyToClipboard(sso.verificationRecord!.value)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={handleVerify} disabled={isVerifying}>
+                      {isVerifying ? 'Checking...' : 'Verify domain'}
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Save these settings to get the TXT record for {sso.domain}.</p>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="require-sso">Require single sign-on</Label>
+                  <p className="text-sm text-muted-foreground">Turn this on from a session signed in through your identity provider.</p>
+                </div>
+                <Switch id="require-sso" checked={required} onCheckedChange={setRequired} disabled={!sso.domainVerified} />
+              </div>
+
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>SCIM Provisioning</CardTitle>
+          <CardDescription>
+            Let your identity provider create, update and deactivate users. {provisioning.provisionedUserCount} users
+            are currently provisioned.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {provisioning.endpoint && (
+            <div className="space-y-1">
+              <Label>SCIM base URL</Label>
+              <div className="flex items-center gap-2">
+                <span className="font-mono text-sm">{provisioning.endpoint}</span>
+                <Button variant="ghost" size="sm" onClick={() => copyToClipboard(provisioning.endpoint!)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {newToken && (
+            <Alert>
+              <AlertTitle>Copy your token now</AlertTitle>
+              <AlertDescription className="space-y-2">
+                <p>It will not be shown again.</p>
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-xs break-all">{newToken}</span>
+                  <Button variant="ghost" size="sm" onClick={() => copyToClipboard(newToken)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex items-end gap-2">
+            <div className="w-64 space-y-2">
+              <Label>Token name</Label>
+              <Input value={tokenName} onChange={(e) => setTokenName(e.target.value)} placeholder="Okta" />
+            </div>
+            <Button onClick={handleCreateToken} disabled={!tokenName.trim()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Token
+            </Button>
+          </div>
+
+          {provisioning.tokens.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Token</TableHead>
+                  <TableHead>Last used</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {provisioning.tokens.map((token: ScimTokenRow) => (
+                  <TableRow key={token._id}>
+                    <TableCell className="font-medium">{token.name}</TableCell>
+                    <TableCell className="font-mono text-xs">{token.tokenPrefix}...</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleRevokeToken(token._id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Group Mapping</CardTitle>
+          <CardDescription>
+            Members of a group pushed by your identity provider get its role, custom role and department. A user in
+            several groups gets the highest role.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {provisioning.groups.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Group</TableHead>
+                  <TableHead className="text-right">Members</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Custom role</TableHead>
+                  <TableHead>Department</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {provisioning.groups.map((group: ScimGroupRow) => (
+                  <TableRow key={group._id}>
+                    <TableCell className="font-medium">{group.displayName}</TableCell>
+                    <TableCell className="text-right">{group.memberCount}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={group.role ?? NONE}
+                        onValueChange={(value) => handleMapGroup(group, { role: value === NONE ? null : value as GroupRole })}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>Not mapped</SelectItem>
+                          {groupRoleOptions.map((role) => (
+                            <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={group.customRoleId ?? NONE}
+                        onValueChange={(value) => handleMapGroup(group, { customRoleId: value === NONE ? null : value as Id<'customRoles'> })}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>None</SelectItem>
+                          {(customRoles ?? []).map((role) => (
+                            <SelectItem key={role._id} value={role._id}>{role.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={group.departmentId ?? NONE}
+                        onValueChange={(value) => handleMapGroup(group, { departmentId: value === NONE ? null : value as Id<'departments'> })}
+                      >
+                        <SelectTrigger className="w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>None</SelectItem>
+                          {(departments ?? []).map((department) => (
+                            <SelectItem key={department._id} value={department._id}>{department.path.join(' / ')}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No groups pushed yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
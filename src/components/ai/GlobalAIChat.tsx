@@ -1,9 +1,10 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
-import { useQuery, useMutation } from 'convex/react';
+import { useQuery, useMutation, useAction } from 'convex/react';
+import Link from 'next/link';
 import { api } from '../../../convex/_generated/api';
-import { Id } from '../../../convex/_generated/dataModel';
+import { Doc, Id } from '../../../convex/_generated/dataModel';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   MessageSquare,
@@ -29,6 +30,7 @@ import { Card } from '@/components/ui/card';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { useUser } from '@clerk/nextjs';
 import { useToast } from '@/components/premium/Toast';
+import { citationHref, stripCitationMarkers } from '@/lib/chat-citations';
 
 interface GlobalAIChatProps {
   contractId?: Id<"contracts">;
@@ -56,6 +58,7 @@ export const GlobalAIChat: React.FC<GlobalAIChatProps> = ({ contractId, vendorId
     selectedSessionId ? { sessionId: selectedSessionId } : 'skip'
   );
   const sendMessage = useMutation(api.ai.chat.sendChatMessage);
+  const streamReply = useAction(api.ai.assistant.streamReply);
   const deleteSession = useMutation(api.ai.chat.deleteChatSession);
 
   // Auto-scroll to bottom when new messages arrive
@@ -99,6 +102,9 @@ export const GlobalAIChat: React.FC<GlobalAIChatProps> = ({ contractId, vendorId
       if (!selectedSessionId) {
         setSelectedSessionId(result.sessionId);
       }
+
+      // The reply streams into the session, which the query above follows
+      await streamReply({ sessionId: result.sessionId, messageId: result.messageId });
     } catch (error) {
       console.error('Failed to send message:', error);
       toast({
@@ -144,7 +150,13 @@ export const GlobalAIChat: React.FC<GlobalAIChatProps> = ({ contractId, vendorId
     }
   };
 
-  const messages = currentSession?.messages || [];
+  // Replies show once their first words arrive; until then "Thinking..." does
+  const messages: Doc<"chatSessions">["messages"] = (currentSession?.messages || [])
+    .filter((msg: Doc<"chatSessions">["messages"][number]) => msg.status !== 'streaming' || msg.content)
+    .map((msg: Doc<"chatSessions">["messages"][number]) =>
+      msg.status === 'streaming' ? { ...msg, content: stripCitationMarkers(msg.content) } : msg
+    );
+  const isStreaming = messages.some(msg => msg.status === 'streaming');
 
   return (
     <>
@@ -248,7 +260,7 @@ export const GlobalAIChat: React.FC<GlobalAIChatProps> = ({ contractId, vendorId
                       >
                         New Chat
                       </Button>
-                      {sessions.map((session) => (
+                      {sessions.map((session: Doc<"chatSessions">) => (
                         <div key={session._id} className="flex items-center gap-1">
                           <Button
                             size="sm"
@@ -319,14 +331,18 @@ export const GlobalAIChat: React.FC<GlobalAIChatProps> = ({ contractId, vendorId
                           {msg.attachments && msg.attachments.length > 0 && (
                             <div className="mt-2 space-y-1">
                               {msg.attachments.map((attachment, i) => (
-                                <div key={i} className="flex items-center gap-2 text-xs opacity-80">
-                                  {attachment.type === 'contract' ? (
-                                    <FileText className="w-3 h-3" />
-                                  ) : (
+                                <Link
+                                  key={i}
+                                  href={citationHref(attachment)}
+                                  className="flex items-center gap-2 text-xs opacity-80 hover:opacity-100 hover:underline"
+                                >
+                                  {attachment.type === 'vendor' ? (
                                     <Building2 className="w-3 h-3" />
+                                  ) : (
+                                    <FileText className="w-3 h-3" />
                                   )}
-                                  <span>{attachment.title}</span>
-                                </div>
+                                  <span>{msg.role === 'assistant' && `[${i + 1}] `}{attachment.title}</span>
+                                </Link>
                               ))}
                             </div>
                           )}
@@ -346,7 +362,7 @@ export const GlobalAIChat: React.FC<GlobalAIChatProps> = ({ contractId, vendorId
                       </motion.div>
                     ))}
                     
-                    {isLoading && (
+                    {isLoading && !isStreaming && (
                       <div className="flex gap-3">
                         <Avatar className="w-8 h-8">
                           <AvatarFallback className="bg-gradient-to-r from-teal-600 to-cyan-600 text-white">
@@ -0,0 +1,28 @@
+/**
+ * Records the AI assistant cites in its replies
+ */
+
+export interface ChatCitation {
+  type: 'contract' | 'clause' | 'vendor';
+  id: string;
+  title: string;
+  contractId?: string | undefined; // The contract a cited clause belongs to
+}
+
+/**
+ * Remove raw citation markers such as [contract:abc123] from a reply that is
+ * still streaming; they are numbered once the reply is complete
+ */
+export function stripCitationMarkers(text: string): string {
+  return text.replace(/\s*\[(contract|clause|vendor):[A-Za-z0-9_-]*(\]|$)/g, '');
+}
+
+/**
+ * Page a citation opens: the contract or vendor, and a clause's contract
+ */
+export function citationHref(citation: ChatCitation): string {
+  if (citation.type === 'vendor') {
+    return `/dashboard/vendors/${citation.id}`;
+  }
+  return `/dashboard/contracts/${citation.type === 'clause' ? citation.contractId ?? '' : citation.id}`;
+}
@@ -0,0 +1,23 @@
+/**
+ * Links that open a contract's document at a cited passage
+ */
+
+export interface DocumentLocation {
+  contractId: string;
+  versionId?: string | undefined; // Set for an amendment's file
+  page?: number | undefined;
+  quote?: string | undefined;
+}
+
+// Longest quote carried in a link; the viewer searches for its opening words
+const MAX_LINK_QUOTE_LENGTH = 200;
+
+export function citedDocumentHref(location: DocumentLocation): string {
+  const params = new URLSearchParams();
+  if (location.versionId) params.set('version', location.versionId);
+  if (location.page) params.set('page', String(location.page));
+  if (location.quote) params.set('quote', location.quote.trim().slice(0, MAX_LINK_QUOTE_LENGTH));
+
+  const query = params.toString();
+  return `/dashboard/contracts/${location.contractId}/document${query ? `?${query}` : ''}`;
+}
@@ -28,16 +28,16 @@ export function parseContractValue(value: string | number | undefined | null): n
 }
 
 /**
- * Format number as currency (USD)
+ * Format number as currency (USD unless an ISO 4217 code is given)
  */
-export function formatCurrency(value: number | string | undefined | null): string {
+export function formatCurrency(value: number | string | undefined | null, currency: string = 'USD'): string {
   const numValue = typeof value === 'string' ? parseContractValue(value) : (value || 0);
   
   if (isNaN(numValue) || typeof numValue !== 'number') return '$0';
   
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   }).format(numValue);
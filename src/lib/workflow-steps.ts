@@ -0,0 +1,131 @@
+// src/lib/workflow-steps.ts
+import type { Id } from '../../convex/_generated/dataModel';
+import type {
+  WorkflowApprover,
+  WorkflowCondition,
+  WorkflowStepDefinition,
+} from '../../convex/workflows/approvalWorkflowEngine';
+import type { WorkflowNode } from '@/app/_components/workflow/WorkflowDesigner';
+
+const ROLE_NAMES = ['owner', 'admin', 'manager', 'user', 'viewer'] as const;
+
+const CONDITION_FIELDS: Record<string, WorkflowCondition['field']> = {
+  value: 'contractValue',
+  contractvalue: 'contractValue',
+  type: 'contractType',
+  contracttype: 'contractType',
+  department: 'departmentId',
+  departmentid: 'departmentId',
+  vendorcategory: 'vendorCategory',
+  'vendor.category': 'vendorCategory',
+};
+
+const CONDITION_OPERATORS: Record<string, WorkflowCondition['operator']> = {
+  '==': 'eq',
+  '=': 'eq',
+  '!=': 'neq',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+  in: 'in',
+  'not in': 'not_in',
+};
+
+/**
+ * Parse a designer condition such as `contract.value > 10000` or
+ * `vendor.category in technology, legal`
+ */
+export function parseWorkflowCondition(expression: string): WorkflowCondition {
+  const match = expression
+    .trim()
+    .match(/^(?:contract\.)?([\w.]+)\s*(not in|in|==|!=|>=|<=|=|>|<)\s*(.+)$/i);
+  const field = match && CONDITION_FIELDS[match[1]!.toLowerCase()];
+  const operator = match && CONDITION_OPERATORS[match[2]!.toLowerCase()];
+
+  if (!match || !field || !operator) {
+    throw new Error(`Unsupported condition: "${expression}"`);
+  }
+
+  const rawValue = match[3]!.trim().replace(/^["']|["']$/g, '');
+  if (operator === 'in' || operator === 'not_in') {
+    return { field, operator, value: rawValue.split(',').map(item => item.trim().replace(/^["']|["']$/g, '')) };
+  }
+  if (field === 'contractValue') {
+    const value = Number(rawValue.replace(/[$,]/g, ''));
+    if (Number.isNaN(value)) {
+      throw new Error(`Contract value must be compared with a number: "${expression}"`);
+    }
+    return { field, operator, value };
+  }
+  return { field, operator, value: rawValue };
+}
+
+// Role names become role approvers; anything else is taken as a user id
+export function toWorkflowApprovers(approvers: string[] | undefined): WorkflowApprover[] {
+  return (approvers ?? [])
+    .map(approver => approver.trim())
+    .filter(Boolean)
+    .map(approver =>
+      (ROLE_NAMES as readonly string[]).includes(approver.toLowerCase())
+        ? { type: 'role' as const, role: approver.toLowerCase() as typeof ROLE_NAMES[number] }
+        : { type: 'user' as const, userId: approver as Id<'users'> }
+    );
+}
+
+/**
+ * Turn the designer graph into workflow steps. Approval nodes become steps
+ * ordered by how many approvals precede them, so approvals on parallel
+ * branches share an order and run together. Condition nodes apply to every
+ * approval downstream of them.
+ */
+export function designerNodesToWorkflowSteps(nodes: WorkflowNode[]): WorkflowStepDefinition[] {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const incoming = new Set(nodes.flatMap(node => node.connections));
+  const roots = nodes.filter(node => node.type === 'start' || !incoming.has(node.id));
+
+  const steps = new Map<string, WorkflowStepDefinition>();
+
+  const visit = (node: WorkflowNode, order: number, conditions: WorkflowCondition[], path: Set<string>) => {
+    if (path.has(node.id)) {
+      throw new Error(`Workflow contains a cycle at "${node.title}"`);
+    }
+
+    let nextOrder = order;
+    let nextConditions = conditions;
+
+    if (node.type === 'condition' && node.data.condition?.trim()) {
+      nextConditions = [...conditions, parseWorkflowCondition(node.data.condition)];
+    }
+
+    if (node.type === 'approval') {
+      const existing = steps.get(node.id);
+      // A node reached along several paths runs after the longest one
+      if (!existing || existing.order < order) {
+        steps.set(node.id, {
+          id: node.id,
+          name: node.title,
+          order,
+          approvers: toWorkflowApprovers(node.data.approvers),
+          ...(node.data.requiredApprovals ? { requiredApprovals: node.data.requiredApprovals } : {}),
+          ...(nextConditions.length > 0 ? { conditions: nextConditions } : {}),
+          ...(node.data.timeLimit ? { slaHours: node.data.timeLimit } : {}),
+          ...(node.data.escalation?.enabled && node.data.escalation.escalateTo.length > 0
+            ? { escalateTo: toWorkflowApprovers(node.data.escalation.escalateTo) }
+            : {}),
+        });
+      }
+      nextOrder = order + 1;
+    }
+
+    const nextPath = new Set(path).add(node.id);
+    for (const targetId of node.connections) {
+      const target = byId.get(targetId);
+      if (target) visit(target, nextOrder, nextConditions, nextPath);
+    }
+  };
+
+  roots.forEach(root => visit(root, 0, [], new Set()));
+
+  return [...steps.values()].sort((a, b) => a.order - b.order);
+}
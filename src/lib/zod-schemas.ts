@@ -73,7 +73,7 @@ export const vendorSchema = z.object({
 
 // Contract schemas
 export const contractStatusSchema = z.enum([
-  'draft', 'pending_analysis', 'active', 'expired', 'terminated', 'archived'
+  'draft', 'pending_analysis', 'pending_approval', 'active', 'expired', 'terminated', 'archived'
 ]);
 
 export const analysisStatusSchema = z.enum(['pending', 'processing', 'completed', 'failed']);
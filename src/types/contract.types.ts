@@ -7,6 +7,7 @@ import { VendorType, VendorCategory, vendorCategoryOptions } from "./vendor.type
 export type ContractStatus =
   | "draft"
   | "pending_analysis"
+  | "pending_approval"
   | "active"
   | "expired"
   | "terminated"
@@ -18,12 +18,13 @@ export interface ContractEntity extends Doc<"contracts"> {
   enterpriseId: Id<"enterprises">;
   vendorId: Id<"vendors">;
   title: string;
-  status: "draft" | "pending_analysis" | "active" | "expired" | "terminated" | "archived";
+  status: "draft" | "pending_analysis" | "pending_approval" | "active" | "expired" | "terminated" | "archived";
   contractType?: "nda" | "msa" | "sow" | "saas" | "lease" | "employment" | "partnership" | "other";
   storageId: Id<"_storage">;
   fileName: string;
   fileType: string;
   value?: number;
+  currency?: string;
   startDate?: string;
   endDate?: string;
   extractedParties?: string[];
@@ -328,7 +329,7 @@ export interface TypedNotification extends Doc<"notifications"> {
   _creationTime: number;
   enterpriseId: Id<"enterprises">;
   userId?: Id<"users">;
-  type: "contract_expiration" | "contract_created" | "approval_required" | "payment_reminder" | "vendor_risk_alert" | "compliance_issue" | "task_assigned" | "system_alert" | "digest";
+  type: "contract_expiration" | "contract_created" | "approval_required" | "payment_reminder" | "obligation_reminder" | "renewal_reminder" | "vendor_risk_alert" | "compliance_issue" | "task_assigned" | "system_alert" | "digest";
   title: string;
   message: string;
   status: "pending" | "failed" | "scheduled" | "sending" | "delivered" | "failed_permanently" | "batched" | "batched_sent" | "archived";